@@ -11,6 +11,8 @@ const nextConfig = {
   experimental: {
     // Optimize for production
     optimizePackageImports: ['lucide-react', '@headlessui/react'],
+    // Enables src/instrumentation.ts (starts queue workers on opt-in replicas)
+    instrumentationHook: true,
   },
   
   // Image optimization
@@ -0,0 +1,82 @@
+-- ============================================================================
+-- Migration: Add Job Schedules
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Store cron-style recurring job definitions and their run history
+--
+-- Tables Created:
+-- 1. JobSchedule    - One row per recurring job (cron expression, target queue, payload)
+-- 2. JobScheduleRun - One row per firing (scheduled or manual)
+--
+-- De-duplication:
+-- - JobScheduleRun has a unique key on (scheduleId, scheduledFor). Every replica
+--   that notices a due schedule tries to insert the run row; only the first
+--   insert succeeds, so each occurrence is enqueued exactly once.
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[JobSchedule] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [name] NVARCHAR(100) NOT NULL,
+    [description] NVARCHAR(500),
+    [cronExpression] NVARCHAR(100) NOT NULL,
+    [queueName] NVARCHAR(50) NOT NULL,
+    [jobType] NVARCHAR(100) NOT NULL,
+    [payload] NVARCHAR(Max),
+    [enabled] BIT NOT NULL CONSTRAINT [JobSchedule_enabled_df] DEFAULT ((1)),
+    [lastRunAt] DATETIME2,
+    [nextRunAt] DATETIME2,
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [JobSchedule_createdAt_df] DEFAULT (getdate()),
+    [updatedAt] DATETIME2 NOT NULL,
+    CONSTRAINT [JobSchedule_pkey] PRIMARY KEY CLUSTERED ([id]),
+    CONSTRAINT [JobSchedule_name_key] UNIQUE NONCLUSTERED ([name])
+);
+
+CREATE NONCLUSTERED INDEX [JobSchedule_enabled_nextRunAt_idx]
+ON [dbo].[JobSchedule]([enabled], [nextRunAt]);
+
+CREATE TABLE [dbo].[JobScheduleRun] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [scheduleId] INT NOT NULL,
+    [scheduledFor] DATETIME2 NOT NULL,
+    [triggeredAt] DATETIME2 NOT NULL CONSTRAINT [JobScheduleRun_triggeredAt_df] DEFAULT (getdate()),
+    [trigger] NVARCHAR(20) NOT NULL CONSTRAINT [JobScheduleRun_trigger_df] DEFAULT ('SCHEDULE'),
+    [triggeredById] NVARCHAR(1000),
+    [jobId] NVARCHAR(100),
+    [status] NVARCHAR(20) NOT NULL CONSTRAINT [JobScheduleRun_status_df] DEFAULT ('ENQUEUED'),
+    [error] NVARCHAR(Max),
+    CONSTRAINT [JobScheduleRun_pkey] PRIMARY KEY CLUSTERED ([id]),
+    CONSTRAINT [JobScheduleRun_scheduleId_scheduledFor_key] UNIQUE NONCLUSTERED ([scheduleId], [scheduledFor])
+);
+
+CREATE NONCLUSTERED INDEX [JobScheduleRun_scheduleId_triggeredAt_idx]
+ON [dbo].[JobScheduleRun]([scheduleId], [triggeredAt] DESC);
+
+CREATE NONCLUSTERED INDEX [JobScheduleRun_triggeredById_idx]
+ON [dbo].[JobScheduleRun]([triggeredById]);
+
+ALTER TABLE [dbo].[JobScheduleRun] ADD CONSTRAINT [JobScheduleRun_scheduleId_fkey]
+    FOREIGN KEY ([scheduleId])
+    REFERENCES [dbo].[JobSchedule]([id])
+    ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[JobScheduleRun] ADD CONSTRAINT [JobScheduleRun_triggeredById_fkey]
+    FOREIGN KEY ([triggeredById])
+    REFERENCES [dbo].[User]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
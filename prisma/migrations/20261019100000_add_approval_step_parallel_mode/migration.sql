@@ -0,0 +1,32 @@
+-- ============================================================================
+-- Migration: Add ApprovalStep.parallelMode
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Support parallel approval groups in approval routes
+--
+-- Steps that share a stepOrder form a parallel group. parallelMode records how
+-- the group completes:
+-- - ALL_OF - every required step in the group must approve
+-- - ANY_OF - the first approval completes the group; remaining steps are skipped
+--
+-- NULL (all existing rows) is treated as ALL_OF, which matches current behaviour.
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+ALTER TABLE [dbo].[ApprovalStep] ADD [parallelMode] VARCHAR(10) NULL;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
@@ -0,0 +1,91 @@
+-- ============================================================================
+-- Migration: Add Approval SLAs
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Reminders and automatic escalation for approvals that sit too long
+--
+-- Tables Created:
+-- 1. ApprovalSlaPolicy    - Reminder/escalation thresholds per workflow type
+-- 2. ApprovalStepSlaEvent - Reminder and escalation history per approval step
+--
+-- Columns Added (ApprovalStep):
+-- - activatedAt     - When the step became actionable (its stage became active)
+-- - reminderSentAt  - When the approver was reminded
+-- - escalationLevel - How many times the step has been escalated
+-- - escalatedAt     - When the step was last escalated
+--
+-- Existing pending steps are backfilled with activatedAt = createdAt so they
+-- are picked up by the SLA job.
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[ApprovalSlaPolicy] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [workflowType] VARCHAR(50) NOT NULL,
+    [reminderBusinessDays] INT NOT NULL,
+    [escalationBusinessDays] INT NOT NULL,
+    [maxEscalations] INT NOT NULL CONSTRAINT [ApprovalSlaPolicy_maxEscalations_df] DEFAULT ((2)),
+    [isActive] BIT NOT NULL CONSTRAINT [ApprovalSlaPolicy_isActive_df] DEFAULT ((1)),
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [ApprovalSlaPolicy_createdAt_df] DEFAULT (getdate()),
+    [updatedAt] DATETIME2 NOT NULL,
+    CONSTRAINT [ApprovalSlaPolicy_pkey] PRIMARY KEY CLUSTERED ([id]),
+    CONSTRAINT [ApprovalSlaPolicy_workflowType_key] UNIQUE NONCLUSTERED ([workflowType])
+);
+
+ALTER TABLE [dbo].[ApprovalStep] ADD
+    [activatedAt] DATETIME2 NULL,
+    [reminderSentAt] DATETIME2 NULL,
+    [escalationLevel] INT NOT NULL CONSTRAINT [ApprovalStep_escalationLevel_df] DEFAULT ((0)),
+    [escalatedAt] DATETIME2 NULL;
+
+-- Dynamic SQL so the batch compiles before the new column exists
+EXEC('UPDATE [dbo].[ApprovalStep] SET [activatedAt] = [createdAt] WHERE [status] = ''PENDING''');
+
+CREATE NONCLUSTERED INDEX [ApprovalStep_status_activatedAt_idx]
+ON [dbo].[ApprovalStep]([status], [activatedAt]);
+
+CREATE TABLE [dbo].[ApprovalStepSlaEvent] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [approvalStepId] INT NOT NULL,
+    [eventType] VARCHAR(30) NOT NULL,
+    [fromUserId] NVARCHAR(1000),
+    [toUserId] NVARCHAR(1000),
+    [leaderGroupId] INT,
+    [businessDaysWaiting] INT NOT NULL,
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [ApprovalStepSlaEvent_createdAt_df] DEFAULT (getdate()),
+    CONSTRAINT [ApprovalStepSlaEvent_pkey] PRIMARY KEY CLUSTERED ([id])
+);
+
+CREATE NONCLUSTERED INDEX [ApprovalStepSlaEvent_approvalStepId_createdAt_idx]
+ON [dbo].[ApprovalStepSlaEvent]([approvalStepId], [createdAt]);
+
+ALTER TABLE [dbo].[ApprovalStepSlaEvent] ADD CONSTRAINT [ApprovalStepSlaEvent_approvalStepId_fkey]
+    FOREIGN KEY ([approvalStepId])
+    REFERENCES [dbo].[ApprovalStep]([id])
+    ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[ApprovalStepSlaEvent] ADD CONSTRAINT [ApprovalStepSlaEvent_fromUserId_fkey]
+    FOREIGN KEY ([fromUserId])
+    REFERENCES [dbo].[User]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[ApprovalStepSlaEvent] ADD CONSTRAINT [ApprovalStepSlaEvent_toUserId_fkey]
+    FOREIGN KEY ([toUserId])
+    REFERENCES [dbo].[User]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- Migration: Add Approval Route Versions
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Keep every saved approval route configuration so changes can be
+-- drafted, activated and rolled back from the route designer
+--
+-- Tables Created:
+-- 1. ApprovalRouteVersion - Saved configurations per approval route
+--
+-- Columns Added (ApprovalRoute):
+-- - activeVersion - Version number currently copied into routeConfig
+--
+-- Existing routes are backfilled with version 1 (their current configuration),
+-- marked active.
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+ALTER TABLE [dbo].[ApprovalRoute] ADD [activeVersion] INT NULL;
+
+CREATE TABLE [dbo].[ApprovalRouteVersion] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [routeId] INT NOT NULL,
+    [versionNumber] INT NOT NULL,
+    [routeConfig] NVARCHAR(max) NOT NULL,
+    [changeNote] NVARCHAR(500),
+    [createdById] NVARCHAR(1000),
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [ApprovalRouteVersion_createdAt_df] DEFAULT (getdate()),
+    [activatedAt] DATETIME2,
+    CONSTRAINT [ApprovalRouteVersion_pkey] PRIMARY KEY CLUSTERED ([id]),
+    CONSTRAINT [ApprovalRouteVersion_routeId_versionNumber_key] UNIQUE NONCLUSTERED ([routeId], [versionNumber])
+);
+
+CREATE NONCLUSTERED INDEX [ApprovalRouteVersion_createdById_idx]
+ON [dbo].[ApprovalRouteVersion]([createdById]);
+
+ALTER TABLE [dbo].[ApprovalRouteVersion] ADD CONSTRAINT [ApprovalRouteVersion_routeId_fkey]
+    FOREIGN KEY ([routeId])
+    REFERENCES [dbo].[ApprovalRoute]([id])
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE [dbo].[ApprovalRouteVersion] ADD CONSTRAINT [ApprovalRouteVersion_createdById_fkey]
+    FOREIGN KEY ([createdById])
+    REFERENCES [dbo].[User]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+-- Dynamic SQL so the batch compiles before the new column exists
+EXEC('
+INSERT INTO [dbo].[ApprovalRouteVersion] ([routeId], [versionNumber], [routeConfig], [changeNote], [createdAt], [activatedAt])
+SELECT [id], 1, [routeConfig], ''Initial version'', [createdAt], [updatedAt]
+FROM [dbo].[ApprovalRoute];
+
+UPDATE [dbo].[ApprovalRoute] SET [activeVersion] = 1;
+');
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
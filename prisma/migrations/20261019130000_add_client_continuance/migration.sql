@@ -0,0 +1,92 @@
+-- ============================================================================
+-- Migration: Add Client Continuance
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Annual continuance of accepted clients. Continuance assessments are
+-- generated when a client's last acceptance or continuance approaches the end
+-- of the policy period, answered with the continuance questionnaires and
+-- routed through the CONTINUANCE approval workflow.
+--
+-- Tables Created:
+-- 1. ClientContinuance - One continuance assessment per client per cycle
+-- 2. ClientContinuanceAnswer - Questionnaire answers for a continuance
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[ClientContinuance] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [clientId] INT NOT NULL,
+    [questionnaireType] NVARCHAR(50) NOT NULL,
+    [status] NVARCHAR(20) NOT NULL CONSTRAINT [ClientContinuance_status_df] DEFAULT 'PENDING',
+    [source] NVARCHAR(20) NOT NULL CONSTRAINT [ClientContinuance_source_df] DEFAULT 'MANUAL',
+    [dueDate] DATETIME2 NOT NULL,
+    [riskRating] NVARCHAR(20),
+    [overallRiskScore] FLOAT(53),
+    [riskSummary] NVARCHAR(max),
+    [completedAt] DATETIME2,
+    [completedBy] NVARCHAR(200),
+    [approvedAt] DATETIME2,
+    [approvedBy] NVARCHAR(200),
+    [approvalId] INT,
+    [validUntil] DATETIME2,
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [ClientContinuance_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    [updatedAt] DATETIME2 NOT NULL,
+    CONSTRAINT [ClientContinuance_pkey] PRIMARY KEY CLUSTERED ([id])
+);
+
+CREATE NONCLUSTERED INDEX [ClientContinuance_clientId_status_idx]
+ON [dbo].[ClientContinuance]([clientId], [status]);
+
+CREATE NONCLUSTERED INDEX [ClientContinuance_approvalId_idx]
+ON [dbo].[ClientContinuance]([approvalId]);
+
+CREATE NONCLUSTERED INDEX [ClientContinuance_status_dueDate_idx]
+ON [dbo].[ClientContinuance]([status], [dueDate]);
+
+CREATE TABLE [dbo].[ClientContinuanceAnswer] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [continuanceId] INT NOT NULL,
+    [questionId] INT NOT NULL,
+    [answer] NVARCHAR(max),
+    [comment] NVARCHAR(max),
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [ClientContinuanceAnswer_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    [updatedAt] DATETIME2 NOT NULL,
+    CONSTRAINT [ClientContinuanceAnswer_pkey] PRIMARY KEY CLUSTERED ([id]),
+    CONSTRAINT [ClientContinuanceAnswer_continuanceId_questionId_key] UNIQUE NONCLUSTERED ([continuanceId], [questionId])
+);
+
+ALTER TABLE [dbo].[ClientContinuance] ADD CONSTRAINT [ClientContinuance_approvalId_fkey]
+    FOREIGN KEY ([approvalId])
+    REFERENCES [dbo].[Approval]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[ClientContinuance] ADD CONSTRAINT [ClientContinuance_clientId_fkey]
+    FOREIGN KEY ([clientId])
+    REFERENCES [dbo].[Client]([id])
+    ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[ClientContinuanceAnswer] ADD CONSTRAINT [ClientContinuanceAnswer_continuanceId_fkey]
+    FOREIGN KEY ([continuanceId])
+    REFERENCES [dbo].[ClientContinuance]([id])
+    ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[ClientContinuanceAnswer] ADD CONSTRAINT [ClientContinuanceAnswer_questionId_fkey]
+    FOREIGN KEY ([questionId])
+    REFERENCES [dbo].[AcceptanceQuestion]([id])
+    ON DELETE CASCADE ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
@@ -0,0 +1,50 @@
+-- ============================================================================
+-- Migration: Add Tax Computation Profile
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Opening positions for the income tax computation of a tax
+-- calculation task (year end, entity type, assessed loss brought forward and
+-- the capital allowance asset schedule). Populated when a task is rolled
+-- forward from the prior year's task.
+--
+-- Tables Created:
+-- 1. TaxComputationProfile - One profile per task
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[TaxComputationProfile] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [taskId] INT NOT NULL,
+    [yearEnd] DATETIME2 NOT NULL,
+    [entityType] NVARCHAR(30) NOT NULL CONSTRAINT [TaxComputationProfile_entityType_df] DEFAULT 'COMPANY',
+    [assessedLossBroughtForward] FLOAT(53) NOT NULL CONSTRAINT [TaxComputationProfile_assessedLossBroughtForward_df] DEFAULT 0,
+    [capitalAssets] NVARCHAR(max),
+    [rolledForwardFromTaskId] INT,
+    [rolledForwardAt] DATETIME2,
+    [rolledForwardBy] NVARCHAR(200),
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [TaxComputationProfile_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    [updatedAt] DATETIME2 NOT NULL,
+    CONSTRAINT [TaxComputationProfile_pkey] PRIMARY KEY CLUSTERED ([id]),
+    CONSTRAINT [TaxComputationProfile_taskId_key] UNIQUE NONCLUSTERED ([taskId])
+);
+
+ALTER TABLE [dbo].[TaxComputationProfile] ADD CONSTRAINT [TaxComputationProfile_taskId_fkey]
+    FOREIGN KEY ([taskId])
+    REFERENCES [dbo].[Task]([id])
+    ON DELETE CASCADE ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
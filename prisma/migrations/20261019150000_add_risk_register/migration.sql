@@ -0,0 +1,104 @@
+-- ============================================================================
+-- Migration: Add Risk Register
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Firm risk register for EXCO risk & compliance reporting. Entries
+-- are raised manually or seeded from existing signals (high-risk client
+-- acceptances, outstanding independence confirmations, unsigned engagement
+-- letters and overdue filings) and scored on likelihood x impact.
+--
+-- Tables Created:
+-- 1. RiskRegisterEntry - One risk with owner, scoring, status and review dates
+-- 2. RiskMitigation - Mitigating actions for a risk
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[RiskRegisterEntry] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [title] NVARCHAR(255) NOT NULL,
+    [description] NVARCHAR(max),
+    [category] NVARCHAR(50) NOT NULL,
+    [source] NVARCHAR(20) NOT NULL CONSTRAINT [RiskRegisterEntry_source_df] DEFAULT 'MANUAL',
+    [sourceKey] NVARCHAR(100),
+    [status] NVARCHAR(20) NOT NULL CONSTRAINT [RiskRegisterEntry_status_df] DEFAULT 'OPEN',
+    [serviceLine] NVARCHAR(50),
+    [clientId] INT,
+    [taskId] INT,
+    [ownerEmpCode] NVARCHAR(10),
+    [ownerName] NVARCHAR(100),
+    [likelihood] INT NOT NULL CONSTRAINT [RiskRegisterEntry_likelihood_df] DEFAULT 3,
+    [impact] INT NOT NULL CONSTRAINT [RiskRegisterEntry_impact_df] DEFAULT 3,
+    [lastReviewedAt] DATETIME2,
+    [lastReviewedBy] NVARCHAR(200),
+    [nextReviewDate] DATETIME2,
+    [closedAt] DATETIME2,
+    [closedBy] NVARCHAR(200),
+    [createdBy] NVARCHAR(200) NOT NULL,
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [RiskRegisterEntry_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    [updatedAt] DATETIME2 NOT NULL,
+    CONSTRAINT [RiskRegisterEntry_pkey] PRIMARY KEY CLUSTERED ([id])
+);
+
+CREATE NONCLUSTERED INDEX [RiskRegisterEntry_status_serviceLine_idx]
+ON [dbo].[RiskRegisterEntry]([status], [serviceLine]);
+
+CREATE NONCLUSTERED INDEX [RiskRegisterEntry_sourceKey_idx]
+ON [dbo].[RiskRegisterEntry]([sourceKey]);
+
+CREATE NONCLUSTERED INDEX [RiskRegisterEntry_clientId_idx]
+ON [dbo].[RiskRegisterEntry]([clientId]);
+
+CREATE NONCLUSTERED INDEX [RiskRegisterEntry_taskId_idx]
+ON [dbo].[RiskRegisterEntry]([taskId]);
+
+CREATE NONCLUSTERED INDEX [RiskRegisterEntry_nextReviewDate_idx]
+ON [dbo].[RiskRegisterEntry]([nextReviewDate]);
+
+CREATE TABLE [dbo].[RiskMitigation] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [riskId] INT NOT NULL,
+    [action] NVARCHAR(1000) NOT NULL,
+    [ownerEmpCode] NVARCHAR(10),
+    [ownerName] NVARCHAR(100),
+    [dueDate] DATETIME2,
+    [status] NVARCHAR(20) NOT NULL CONSTRAINT [RiskMitigation_status_df] DEFAULT 'PLANNED',
+    [completedAt] DATETIME2,
+    [createdBy] NVARCHAR(200) NOT NULL,
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [RiskMitigation_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    [updatedAt] DATETIME2 NOT NULL,
+    CONSTRAINT [RiskMitigation_pkey] PRIMARY KEY CLUSTERED ([id])
+);
+
+CREATE NONCLUSTERED INDEX [RiskMitigation_riskId_idx]
+ON [dbo].[RiskMitigation]([riskId]);
+
+ALTER TABLE [dbo].[RiskRegisterEntry] ADD CONSTRAINT [RiskRegisterEntry_clientId_fkey]
+    FOREIGN KEY ([clientId])
+    REFERENCES [dbo].[Client]([id])
+    ON DELETE SET NULL ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[RiskRegisterEntry] ADD CONSTRAINT [RiskRegisterEntry_taskId_fkey]
+    FOREIGN KEY ([taskId])
+    REFERENCES [dbo].[Task]([id])
+    ON DELETE SET NULL ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[RiskMitigation] ADD CONSTRAINT [RiskMitigation_riskId_fkey]
+    FOREIGN KEY ([riskId])
+    REFERENCES [dbo].[RiskRegisterEntry]([id])
+    ON DELETE CASCADE ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
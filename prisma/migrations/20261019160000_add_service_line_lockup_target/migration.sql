@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Migration: Add Service Line Lock-up Target
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Target lock-up days (WIP days + debtor days) per master service
+-- line, shown as the target line on the EXCO working capital report
+--
+-- Columns Added (ServiceLineMaster):
+-- - lockupTargetDays - Target lock-up days; NULL when no target is set
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+ALTER TABLE [dbo].[ServiceLineMaster] ADD [lockupTargetDays] INT NULL;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
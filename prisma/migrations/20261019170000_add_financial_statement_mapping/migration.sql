@@ -0,0 +1,64 @@
+-- ============================================================================
+-- Migration: Add Financial Statement Mapping
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Configurable income statement and balance sheet lines for EXCO
+-- financial analysis. GL accounts are mapped to lines by account number,
+-- account prefix or GL category; accounts without a mapping are reported
+-- under their GL category.
+--
+-- Tables Created:
+-- 1. FinancialStatementLine - A line in a statement section
+-- 2. FinancialStatementMapping - Account matching rules for a line
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[FinancialStatementLine] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [section] NVARCHAR(30) NOT NULL,
+    [name] NVARCHAR(150) NOT NULL,
+    [sortOrder] INT NOT NULL CONSTRAINT [FinancialStatementLine_sortOrder_df] DEFAULT 0,
+    [active] BIT NOT NULL CONSTRAINT [FinancialStatementLine_active_df] DEFAULT 1,
+    [createdBy] NVARCHAR(200) NOT NULL,
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [FinancialStatementLine_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    [updatedAt] DATETIME2 NOT NULL,
+    CONSTRAINT [FinancialStatementLine_pkey] PRIMARY KEY CLUSTERED ([id])
+);
+
+CREATE NONCLUSTERED INDEX [FinancialStatementLine_section_sortOrder_idx]
+ON [dbo].[FinancialStatementLine]([section], [sortOrder]);
+
+CREATE TABLE [dbo].[FinancialStatementMapping] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [lineId] INT NOT NULL,
+    [matchType] NVARCHAR(20) NOT NULL,
+    [pattern] NVARCHAR(30) NOT NULL,
+    [createdBy] NVARCHAR(200) NOT NULL,
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [FinancialStatementMapping_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT [FinancialStatementMapping_pkey] PRIMARY KEY CLUSTERED ([id]),
+    CONSTRAINT [FinancialStatementMapping_matchType_pattern_key] UNIQUE NONCLUSTERED ([matchType], [pattern])
+);
+
+CREATE NONCLUSTERED INDEX [FinancialStatementMapping_lineId_idx]
+ON [dbo].[FinancialStatementMapping]([lineId]);
+
+ALTER TABLE [dbo].[FinancialStatementMapping] ADD CONSTRAINT [FinancialStatementMapping_lineId_fkey]
+    FOREIGN KEY ([lineId])
+    REFERENCES [dbo].[FinancialStatementLine]([id])
+    ON DELETE CASCADE ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
@@ -0,0 +1,64 @@
+-- ============================================================================
+-- Migration: Add BD Stage History
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Record each stage an opportunity enters so EXCO pipeline reporting
+-- can measure stage-to-stage velocity, time in stage and win dates.
+--
+-- Tables Created:
+-- 1. BDStageHistory - One row per stage (or status) an opportunity enters
+--
+-- Data: Existing opportunities are seeded with their current stage - open
+-- opportunities from their creation date, won and lost opportunities from
+-- their conversion date or last update.
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[BDStageHistory] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [opportunityId] INT NOT NULL,
+    [stageId] INT NOT NULL,
+    [status] NVARCHAR(20) NOT NULL,
+    [enteredAt] DATETIME2 NOT NULL CONSTRAINT [BDStageHistory_enteredAt_df] DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT [BDStageHistory_pkey] PRIMARY KEY CLUSTERED ([id])
+);
+
+CREATE NONCLUSTERED INDEX [BDStageHistory_opportunityId_enteredAt_idx]
+ON [dbo].[BDStageHistory]([opportunityId], [enteredAt]);
+
+CREATE NONCLUSTERED INDEX [BDStageHistory_stageId_idx]
+ON [dbo].[BDStageHistory]([stageId]);
+
+ALTER TABLE [dbo].[BDStageHistory] ADD CONSTRAINT [BDStageHistory_opportunityId_fkey]
+    FOREIGN KEY ([opportunityId])
+    REFERENCES [dbo].[BDOpportunity]([id])
+    ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[BDStageHistory] ADD CONSTRAINT [BDStageHistory_stageId_fkey]
+    FOREIGN KEY ([stageId])
+    REFERENCES [dbo].[BDStage]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+INSERT INTO [dbo].[BDStageHistory] ([opportunityId], [stageId], [status], [enteredAt])
+SELECT
+    [id],
+    [stageId],
+    LEFT([status], 20),
+    CASE WHEN [status] = 'OPEN' THEN [createdAt] ELSE COALESCE([convertedAt], [updatedAt]) END
+FROM [dbo].[BDOpportunity];
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
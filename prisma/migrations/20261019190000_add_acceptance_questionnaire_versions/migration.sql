@@ -0,0 +1,68 @@
+-- ============================================================================
+-- Migration: Add Acceptance Questionnaire Versions
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Let administrators edit task acceptance and continuance
+-- questionnaires without a code deploy. Each published version is an immutable
+-- snapshot of the sections and questions, and each response is pinned to the
+-- version it was answered against so it is always scored with those weights.
+--
+-- Tables Created:
+-- 1. AcceptanceQuestionnaireVersion - One row per draft or published version
+--
+-- Tables Modified:
+-- 1. ClientAcceptanceResponse - questionnaireVersionId (NULL = built-in definition)
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[AcceptanceQuestionnaireVersion] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [questionnaireType] NVARCHAR(50) NOT NULL,
+    [versionNumber] INT NOT NULL,
+    [status] NVARCHAR(20) NOT NULL CONSTRAINT [AcceptanceQuestionnaireVersion_status_df] DEFAULT 'DRAFT',
+    [definition] NVARCHAR(MAX) NOT NULL,
+    [changeNote] NVARCHAR(500),
+    [createdById] NVARCHAR(1000),
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [AcceptanceQuestionnaireVersion_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    [updatedAt] DATETIME2 NOT NULL,
+    [publishedAt] DATETIME2,
+    CONSTRAINT [AcceptanceQuestionnaireVersion_pkey] PRIMARY KEY CLUSTERED ([id]),
+    CONSTRAINT [AcceptanceQuestionnaireVersion_questionnaireType_versionNumber_key] UNIQUE NONCLUSTERED ([questionnaireType], [versionNumber])
+);
+
+CREATE NONCLUSTERED INDEX [AcceptanceQuestionnaireVersion_questionnaireType_status_idx]
+ON [dbo].[AcceptanceQuestionnaireVersion]([questionnaireType], [status]);
+
+CREATE NONCLUSTERED INDEX [AcceptanceQuestionnaireVersion_createdById_idx]
+ON [dbo].[AcceptanceQuestionnaireVersion]([createdById]);
+
+ALTER TABLE [dbo].[AcceptanceQuestionnaireVersion] ADD CONSTRAINT [AcceptanceQuestionnaireVersion_createdById_fkey]
+    FOREIGN KEY ([createdById])
+    REFERENCES [dbo].[User]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[ClientAcceptanceResponse] ADD [questionnaireVersionId] INT;
+
+CREATE NONCLUSTERED INDEX [ClientAcceptanceResponse_questionnaireVersionId_idx]
+ON [dbo].[ClientAcceptanceResponse]([questionnaireVersionId]);
+
+ALTER TABLE [dbo].[ClientAcceptanceResponse] ADD CONSTRAINT [ClientAcceptanceResponse_questionnaireVersionId_fkey]
+    FOREIGN KEY ([questionnaireVersionId])
+    REFERENCES [dbo].[AcceptanceQuestionnaireVersion]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
@@ -0,0 +1,55 @@
+-- ============================================================================
+-- Migration: Add Risk Scoring Models
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Let QRM configure how acceptance and continuance questionnaires are
+-- scored - section weights, graded answer scores, knockout answers and rating
+-- thresholds per service line - and simulate a model against historical client
+-- acceptances before activating it.
+--
+-- Tables Created:
+-- 1. RiskScoringModel - Draft, active and retired scoring configurations
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[RiskScoringModel] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [name] NVARCHAR(100) NOT NULL,
+    [description] NVARCHAR(500),
+    [status] NVARCHAR(20) NOT NULL CONSTRAINT [RiskScoringModel_status_df] DEFAULT 'DRAFT',
+    [config] NVARCHAR(MAX) NOT NULL,
+    [simulationSummary] NVARCHAR(MAX),
+    [simulatedAt] DATETIME2,
+    [createdById] NVARCHAR(1000),
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [RiskScoringModel_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    [updatedAt] DATETIME2 NOT NULL,
+    [activatedAt] DATETIME2,
+    CONSTRAINT [RiskScoringModel_pkey] PRIMARY KEY CLUSTERED ([id])
+);
+
+CREATE NONCLUSTERED INDEX [RiskScoringModel_status_idx]
+ON [dbo].[RiskScoringModel]([status]);
+
+CREATE NONCLUSTERED INDEX [RiskScoringModel_createdById_idx]
+ON [dbo].[RiskScoringModel]([createdById]);
+
+ALTER TABLE [dbo].[RiskScoringModel] ADD CONSTRAINT [RiskScoringModel_createdById_fkey]
+    FOREIGN KEY ([createdById])
+    REFERENCES [dbo].[User]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
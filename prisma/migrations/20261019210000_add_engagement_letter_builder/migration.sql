@@ -0,0 +1,72 @@
+-- ============================================================================
+-- Migration: Add Engagement Letter Builder
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Generate engagement letters from templates with typed merge fields
+-- and a clause library per service line, store the Word output against the
+-- task's engagement letter and start partner approval from it.
+--
+-- Tables Created:
+-- 1. EngagementLetterClause - Optional clauses, global or per master service line
+--
+-- Tables Modified:
+-- 1. TaskEngagementLetter - Generated Word file, clauses and merge field
+--    values used, and the approval started from the generated letter
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[EngagementLetterClause] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [title] NVARCHAR(200) NOT NULL,
+    [content] NVARCHAR(MAX) NOT NULL,
+    [category] NVARCHAR(100),
+    [serviceLine] NVARCHAR(50),
+    [isDefault] BIT NOT NULL CONSTRAINT [EngagementLetterClause_isDefault_df] DEFAULT 0,
+    [active] BIT NOT NULL CONSTRAINT [EngagementLetterClause_active_df] DEFAULT 1,
+    [sortOrder] INT NOT NULL CONSTRAINT [EngagementLetterClause_sortOrder_df] DEFAULT 0,
+    [createdById] NVARCHAR(1000),
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [EngagementLetterClause_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    [updatedAt] DATETIME2 NOT NULL,
+    CONSTRAINT [EngagementLetterClause_pkey] PRIMARY KEY CLUSTERED ([id])
+);
+
+CREATE NONCLUSTERED INDEX [EngagementLetterClause_serviceLine_active_idx]
+ON [dbo].[EngagementLetterClause]([serviceLine], [active]);
+
+CREATE NONCLUSTERED INDEX [EngagementLetterClause_createdById_idx]
+ON [dbo].[EngagementLetterClause]([createdById]);
+
+ALTER TABLE [dbo].[EngagementLetterClause] ADD CONSTRAINT [EngagementLetterClause_createdById_fkey]
+    FOREIGN KEY ([createdById])
+    REFERENCES [dbo].[User]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+ALTER TABLE [dbo].[TaskEngagementLetter] ADD
+    [generatedFilePath] NVARCHAR(500),
+    [generatedClauseIds] NVARCHAR(MAX),
+    [mergeFieldValues] NVARCHAR(MAX),
+    [approvalId] INT;
+
+CREATE NONCLUSTERED INDEX [TaskEngagementLetter_approvalId_idx]
+ON [dbo].[TaskEngagementLetter]([approvalId]);
+
+ALTER TABLE [dbo].[TaskEngagementLetter] ADD CONSTRAINT [TaskEngagementLetter_approvalId_fkey]
+    FOREIGN KEY ([approvalId])
+    REFERENCES [dbo].[Approval]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
@@ -0,0 +1,47 @@
+-- ============================================================================
+-- Migration: Add Vault Document Search Index
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Store a per-document search index for the Document Vault so search
+-- can rank extracted text, match phrases and boolean queries, and find
+-- similar documents without calling an external embedding service.
+--
+-- Tables Created:
+-- 1. VaultDocumentSearchIndex - Weighted term frequencies and a locally
+--    computed embedding per vault document
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[VaultDocumentSearchIndex] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [documentId] INT NOT NULL,
+    [contentHash] NVARCHAR(64) NOT NULL,
+    [indexVersion] INT NOT NULL,
+    [tokenCount] INT NOT NULL,
+    [termFrequencies] NVARCHAR(MAX) NOT NULL,
+    [embedding] NVARCHAR(MAX),
+    [indexedAt] DATETIME2 NOT NULL CONSTRAINT [VaultDocumentSearchIndex_indexedAt_df] DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT [VaultDocumentSearchIndex_pkey] PRIMARY KEY CLUSTERED ([id]),
+    CONSTRAINT [VaultDocumentSearchIndex_documentId_key] UNIQUE NONCLUSTERED ([documentId])
+);
+
+ALTER TABLE [dbo].[VaultDocumentSearchIndex] ADD CONSTRAINT [VaultDocumentSearchIndex_documentId_fkey]
+    FOREIGN KEY ([documentId])
+    REFERENCES [dbo].[VaultDocument]([id])
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
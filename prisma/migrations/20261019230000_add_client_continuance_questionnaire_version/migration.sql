@@ -0,0 +1,39 @@
+-- ============================================================================
+-- Migration: Pin Client Continuances to a Questionnaire Version
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Client continuances use the CONTINUANCE_FULL and CONTINUANCE_LITE
+-- questionnaires, which administrators can now edit. Each continuance is
+-- pinned to the version published when it was started so its answers are
+-- saved, validated and scored against that version.
+--
+-- Tables Modified:
+-- 1. ClientContinuance - questionnaireVersionId (NULL = built-in definition)
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+ALTER TABLE [dbo].[ClientContinuance] ADD [questionnaireVersionId] INT;
+
+CREATE NONCLUSTERED INDEX [ClientContinuance_questionnaireVersionId_idx]
+ON [dbo].[ClientContinuance]([questionnaireVersionId]);
+
+ALTER TABLE [dbo].[ClientContinuance] ADD CONSTRAINT [ClientContinuance_questionnaireVersionId_fkey]
+    FOREIGN KEY ([questionnaireVersionId])
+    REFERENCES [dbo].[AcceptanceQuestionnaireVersion]([id])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
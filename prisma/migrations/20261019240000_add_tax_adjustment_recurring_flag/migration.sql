@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Migration: Add Recurring Flag to Tax Adjustments
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Roll-forward only proposes adjustments that recur each year.
+-- Formula-based adjustments linked to an account recur automatically; any
+-- other adjustment recurs only when a preparer marks it as recurring.
+--
+-- Tables Modified:
+-- 1. TaxAdjustment - isRecurring
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+ALTER TABLE [dbo].[TaxAdjustment] ADD [isRecurring] BIT NOT NULL
+    CONSTRAINT [TaxAdjustment_isRecurring_df] DEFAULT 0;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- Migration: Record When Scheduled Job Runs Finish
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: The scheduled task worker now writes the outcome of each run back
+-- to its JobScheduleRun row, so run history shows whether the job completed
+-- or failed rather than only that it was enqueued.
+--
+-- Tables Modified:
+-- 1. JobScheduleRun - finishedAt
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+ALTER TABLE [dbo].[JobScheduleRun] ADD [finishedAt] DATETIME2;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration: Unique Source Key for Seeded Risk Register Entries
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: The risk register sync keeps one AUTO entry per signal and reopens
+-- it when the signal comes back. A filtered unique index enforces one AUTO row
+-- per sourceKey so concurrent syncs cannot raise the same risk twice. Manual
+-- entries are not affected.
+--
+-- Tables Modified:
+-- 1. RiskRegisterEntry - filtered unique index on sourceKey for AUTO rows
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+-- Detach duplicates left by overlapping syncs, keeping the open (else oldest) entry
+WITH [ranked] AS (
+    SELECT [sourceKey], ROW_NUMBER() OVER (
+        PARTITION BY [sourceKey]
+        ORDER BY CASE WHEN [status] = 'CLOSED' THEN 1 ELSE 0 END, [id]
+    ) AS [rn]
+    FROM [dbo].[RiskRegisterEntry]
+    WHERE [source] = 'AUTO' AND [sourceKey] IS NOT NULL
+)
+UPDATE [ranked] SET [sourceKey] = NULL WHERE [rn] > 1;
+
+CREATE UNIQUE NONCLUSTERED INDEX [RiskRegisterEntry_auto_sourceKey_key]
+ON [dbo].[RiskRegisterEntry]([sourceKey])
+WHERE [source] = 'AUTO' AND [sourceKey] IS NOT NULL;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
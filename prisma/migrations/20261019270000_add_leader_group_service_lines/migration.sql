@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Migration: Add Leader Group Service Lines
+-- Date: 2026-10-19
+-- ============================================================================
+-- Purpose: Record which master service lines each leader group leads. Staff
+-- performance reporting is scoped to these service lines instead of the
+-- home service line of each group member.
+--
+-- Tables Created:
+-- 1. LeaderGroupServiceLine - Master service lines led by a leader group
+-- ============================================================================
+
+BEGIN TRY
+
+BEGIN TRAN;
+
+CREATE TABLE [dbo].[LeaderGroupServiceLine] (
+    [id] INT IDENTITY(1,1) NOT NULL,
+    [leaderGroupId] INT NOT NULL,
+    [masterCode] NVARCHAR(50) NOT NULL,
+    [createdAt] DATETIME2 NOT NULL CONSTRAINT [LeaderGroupServiceLine_createdAt_df] DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT [LeaderGroupServiceLine_pkey] PRIMARY KEY CLUSTERED ([id]),
+    CONSTRAINT [LeaderGroupServiceLine_leaderGroupId_masterCode_key] UNIQUE NONCLUSTERED ([leaderGroupId], [masterCode])
+);
+
+CREATE NONCLUSTERED INDEX [LeaderGroupServiceLine_masterCode_idx] ON [dbo].[LeaderGroupServiceLine]([masterCode]);
+
+ALTER TABLE [dbo].[LeaderGroupServiceLine] ADD CONSTRAINT [LeaderGroupServiceLine_leaderGroupId_fkey]
+    FOREIGN KEY ([leaderGroupId])
+    REFERENCES [dbo].[LeaderGroup]([id])
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE [dbo].[LeaderGroupServiceLine] ADD CONSTRAINT [LeaderGroupServiceLine_masterCode_fkey]
+    FOREIGN KEY ([masterCode])
+    REFERENCES [dbo].[ServiceLineMaster]([code])
+    ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+COMMIT TRAN;
+
+END TRY
+BEGIN CATCH
+
+IF @@TRANCOUNT > 0
+BEGIN
+    ROLLBACK TRAN;
+END;
+THROW
+
+END CATCH
@@ -128,3 +128,38 @@ VALUES (
   CURRENT_TIMESTAMP,
   CURRENT_TIMESTAMP
 );
+
+-- Risk-Based Client Acceptance (client partner, plus any QRM leader for high risk clients)
+-- Requires a leader group named 'QRM'. Not default - enable from the approval routes admin.
+INSERT INTO ApprovalRoute (workflowType, routeName, description, routeConfig, isActive, isDefault, createdAt, updatedAt)
+VALUES (
+  'CLIENT_ACCEPTANCE',
+  'risk-based-approval',
+  'Client partner approval, then any QRM leader when the risk rating is HIGH',
+  '{"steps":[{"stepOrder":1,"stepType":"USER","label":"Client partner","assignedToUserIdPath":"clientPartnerCode","isRequired":true},{"stepOrder":2,"stepType":"LEADER_GROUP","label":"QRM review","leaderGroupName":"QRM","parallelMode":"ANY_OF","isRequired":true,"condition":{"field":"riskRating","operator":"eq","value":"HIGH"}}],"requiresAllSteps":true}',
+  1,
+  0,
+  CURRENT_TIMESTAMP,
+  CURRENT_TIMESTAMP
+);
+
+-- Threshold Change Request (both partners in parallel for dual approvals on clients with 10+ active tasks)
+INSERT INTO ApprovalRoute (workflowType, routeName, description, routeConfig, isActive, isDefault, createdAt, updatedAt)
+VALUES (
+  'CHANGE_REQUEST',
+  'threshold-approval',
+  'Proposed employee approval; current employee approves in parallel for larger clients',
+  '{"steps":[{"stepOrder":1,"stepType":"USER","label":"Proposed employee","assignedToUserIdPath":"proposedEmployeeCode","isRequired":true,"parallelMode":"ALL_OF"},{"stepOrder":1,"stepType":"USER","label":"Current employee","assignedToUserIdPath":"currentEmployeeCode","isRequired":true,"parallelMode":"ALL_OF","condition":{"all":[{"field":"requiresDualApproval","operator":"eq","value":true},{"field":"clientActiveTaskCount","operator":"gte","value":10}]}}],"requiresAllSteps":true}',
+  1,
+  0,
+  CURRENT_TIMESTAMP,
+  CURRENT_TIMESTAMP
+);
+
+-- Version 1 of every seeded route (the route designer saves further versions)
+INSERT INTO ApprovalRouteVersion (routeId, versionNumber, routeConfig, changeNote, createdAt, activatedAt)
+SELECT r.id, 1, r.routeConfig, 'Initial version', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM ApprovalRoute r
+WHERE NOT EXISTS (SELECT 1 FROM ApprovalRouteVersion v WHERE v.routeId = r.id);
+
+UPDATE ApprovalRoute SET activeVersion = 1 WHERE activeVersion IS NULL;
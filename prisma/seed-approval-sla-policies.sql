@@ -0,0 +1,23 @@
+-- Seed Approval SLA Policies
+-- Business days before reminding the approver, then before each escalation
+-- Workflow types without a policy are never reminded or escalated
+
+IF NOT EXISTS (SELECT 1 FROM ApprovalSlaPolicy WHERE workflowType = 'CLIENT_ACCEPTANCE')
+INSERT INTO ApprovalSlaPolicy (workflowType, reminderBusinessDays, escalationBusinessDays, maxEscalations, isActive, createdAt, updatedAt)
+VALUES ('CLIENT_ACCEPTANCE', 3, 2, 2, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP);
+
+IF NOT EXISTS (SELECT 1 FROM ApprovalSlaPolicy WHERE workflowType = 'CONTINUANCE')
+INSERT INTO ApprovalSlaPolicy (workflowType, reminderBusinessDays, escalationBusinessDays, maxEscalations, isActive, createdAt, updatedAt)
+VALUES ('CONTINUANCE', 3, 2, 2, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP);
+
+IF NOT EXISTS (SELECT 1 FROM ApprovalSlaPolicy WHERE workflowType = 'CHANGE_REQUEST')
+INSERT INTO ApprovalSlaPolicy (workflowType, reminderBusinessDays, escalationBusinessDays, maxEscalations, isActive, createdAt, updatedAt)
+VALUES ('CHANGE_REQUEST', 2, 3, 1, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP);
+
+IF NOT EXISTS (SELECT 1 FROM ApprovalSlaPolicy WHERE workflowType = 'ENGAGEMENT_LETTER')
+INSERT INTO ApprovalSlaPolicy (workflowType, reminderBusinessDays, escalationBusinessDays, maxEscalations, isActive, createdAt, updatedAt)
+VALUES ('ENGAGEMENT_LETTER', 2, 2, 2, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP);
+
+IF NOT EXISTS (SELECT 1 FROM ApprovalSlaPolicy WHERE workflowType = 'VAULT_DOCUMENT')
+INSERT INTO ApprovalSlaPolicy (workflowType, reminderBusinessDays, escalationBusinessDays, maxEscalations, isActive, createdAt, updatedAt)
+VALUES ('VAULT_DOCUMENT', 5, 5, 1, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP);
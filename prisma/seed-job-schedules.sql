@@ -0,0 +1,78 @@
+-- Seed Job Schedules
+-- Default recurring jobs fired by the job scheduler (cron expressions are UTC)
+-- nextRunAt is left NULL - the scheduler computes it on its next tick
+
+-- Nightly acceptance questionnaire cleanup (old drafts, orphaned documents)
+IF NOT EXISTS (SELECT 1 FROM JobSchedule WHERE name = 'acceptance-cleanup')
+INSERT INTO JobSchedule (name, description, cronExpression, queueName, jobType, payload, enabled, createdAt, updatedAt)
+VALUES (
+  'acceptance-cleanup',
+  'Remove abandoned acceptance questionnaire drafts and orphaned documents',
+  '0 1 * * *',
+  'scheduled',
+  'acceptance-cleanup',
+  NULL,
+  1,
+  CURRENT_TIMESTAMP,
+  CURRENT_TIMESTAMP
+);
+
+-- Filing deadline reminders (04:00 UTC = 06:00 SAST), 7 days and 1 day before the deadline
+IF NOT EXISTS (SELECT 1 FROM JobSchedule WHERE name = 'filing-deadline-reminders')
+INSERT INTO JobSchedule (name, description, cronExpression, queueName, jobType, payload, enabled, createdAt, updatedAt)
+VALUES (
+  'filing-deadline-reminders',
+  'Notify task teams about open filings approaching their deadline',
+  '0 4 * * *',
+  'scheduled',
+  'filing-deadline-reminders',
+  '{"reminderDays":[7,1]}',
+  1,
+  CURRENT_TIMESTAMP,
+  CURRENT_TIMESTAMP
+);
+
+-- Approval SLA reminders and escalations (05:00 UTC = 07:00 SAST, weekdays)
+IF NOT EXISTS (SELECT 1 FROM JobSchedule WHERE name = 'approval-sla')
+INSERT INTO JobSchedule (name, description, cronExpression, queueName, jobType, payload, enabled, createdAt, updatedAt)
+VALUES (
+  'approval-sla',
+  'Remind approvers about overdue approval steps and escalate to their leader group',
+  '0 5 * * 1-5',
+  'scheduled',
+  'approval-sla',
+  NULL,
+  1,
+  CURRENT_TIMESTAMP,
+  CURRENT_TIMESTAMP
+);
+
+-- Client continuance generation (02:00 UTC), 30 days before each client's continuance is due
+IF NOT EXISTS (SELECT 1 FROM JobSchedule WHERE name = 'client-continuance')
+INSERT INTO JobSchedule (name, description, cronExpression, queueName, jobType, payload, enabled, createdAt, updatedAt)
+VALUES (
+  'client-continuance',
+  'Create annual continuance assessments for clients whose acceptance is due for review',
+  '0 2 * * *',
+  'scheduled',
+  'client-continuance',
+  '{"leadDays":30}',
+  1,
+  CURRENT_TIMESTAMP,
+  CURRENT_TIMESTAMP
+);
+
+-- Risk register sync (02:30 UTC) - seed and close risks from acceptance, independence, engagement letter and filing signals
+IF NOT EXISTS (SELECT 1 FROM JobSchedule WHERE name = 'risk-register-sync')
+INSERT INTO JobSchedule (name, description, cronExpression, queueName, jobType, payload, enabled, createdAt, updatedAt)
+VALUES (
+  'risk-register-sync',
+  'Seed risk register entries from existing risk signals and close entries whose signal has cleared',
+  '30 2 * * *',
+  'scheduled',
+  'risk-register-sync',
+  '{}',
+  1,
+  CURRENT_TIMESTAMP,
+  CURRENT_TIMESTAMP
+);
@@ -0,0 +1,63 @@
+/**
+ * Acceptance Questionnaire Versions API
+ * GET  /api/admin/acceptance-questionnaires/[type] - Version history with response usage
+ * POST /api/admin/acceptance-questionnaires/[type] - Start a draft version
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { CreateQuestionnaireDraftSchema, VersionedQuestionnaireTypeSchema } from '@/lib/validation/schemas';
+import {
+  createQuestionnaireDraft,
+  listQuestionnaireVersions,
+} from '@/lib/services/acceptance/questionnaireVersionService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+
+function parseQuestionnaireType(value: string) {
+  const parsed = VersionedQuestionnaireTypeSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new AppError(404, 'Questionnaire type not found', ErrorCodes.NOT_FOUND);
+  }
+  return parsed.data;
+}
+
+/**
+ * GET /api/admin/acceptance-questionnaires/[type]
+ * Versions are returned newest first, without their sections
+ */
+export const GET = secureRoute.queryWithParams<{ type: string }>({
+  feature: Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES,
+  handler: async (_request, { params }) => {
+    const type = parseQuestionnaireType(params.type);
+    return NextResponse.json(successResponse(await listQuestionnaireVersions(type)));
+  },
+});
+
+/**
+ * POST /api/admin/acceptance-questionnaires/[type]
+ * Copies the latest published version (or fromVersionId) into a new draft
+ */
+export const POST = secureRoute.mutationWithParams<typeof CreateQuestionnaireDraftSchema, { type: string }>({
+  feature: Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES,
+  schema: CreateQuestionnaireDraftSchema,
+  handler: async (request, { user, data, params }) => {
+    const type = parseQuestionnaireType(params.type);
+
+    const draft = await createQuestionnaireDraft(type, user.id, data);
+
+    await auditAdminAction(
+      user.id,
+      'QUESTIONNAIRE_DRAFT_CREATED',
+      'ACCEPTANCE_QUESTIONNAIRE',
+      String(draft.id),
+      { questionnaireType: type, versionNumber: draft.versionNumber, fromVersionId: data.fromVersionId ?? null },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(draft), { status: 201 });
+  },
+});
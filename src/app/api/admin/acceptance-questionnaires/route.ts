@@ -0,0 +1,21 @@
+/**
+ * Acceptance Questionnaires API
+ * GET /api/admin/acceptance-questionnaires - Editable questionnaire types with their published and draft versions
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { listQuestionnaires } from '@/lib/services/acceptance/questionnaireVersionService';
+
+/**
+ * GET /api/admin/acceptance-questionnaires
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES,
+  handler: async () => {
+    return NextResponse.json(successResponse(await listQuestionnaires()));
+  },
+});
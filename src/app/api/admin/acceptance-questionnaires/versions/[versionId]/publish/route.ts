@@ -0,0 +1,40 @@
+/**
+ * Acceptance Questionnaire Publish API
+ * POST /api/admin/acceptance-questionnaires/versions/[versionId]/publish - Publish a draft
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { publishQuestionnaireVersion } from '@/lib/services/acceptance/questionnaireVersionService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * POST /api/admin/acceptance-questionnaires/versions/[versionId]/publish
+ * New responses are pinned to the published version; responses already
+ * started keep the version they were created with.
+ */
+export const POST = secureRoute.mutationWithParams<z.ZodVoid, { versionId: string }>({
+  feature: Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES,
+  handler: async (request, { user, params }) => {
+    const versionId = parseNumericId(params.versionId, 'Questionnaire version');
+
+    const published = await publishQuestionnaireVersion(versionId);
+
+    await auditAdminAction(
+      user.id,
+      'QUESTIONNAIRE_VERSION_PUBLISHED',
+      'ACCEPTANCE_QUESTIONNAIRE',
+      String(versionId),
+      {
+        questionnaireType: published.questionnaireType,
+        versionNumber: published.versionNumber,
+        questionsAdded: published.questionsAdded,
+      },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(published));
+  },
+});
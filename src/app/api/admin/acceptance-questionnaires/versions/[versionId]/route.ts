@@ -0,0 +1,97 @@
+/**
+ * Acceptance Questionnaire Version API
+ * GET    /api/admin/acceptance-questionnaires/versions/[versionId] - Version with its sections
+ * PUT    /api/admin/acceptance-questionnaires/versions/[versionId] - Save a draft's sections
+ * DELETE /api/admin/acceptance-questionnaires/versions/[versionId] - Discard a draft
+ *
+ * Mutations skip input sanitization: question wording is shown as typed and
+ * routinely contains quotes and apostrophes. Every field is length-checked by
+ * the questionnaire schemas instead.
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { UpdateQuestionnaireDraftSchema } from '@/lib/validation/schemas';
+import {
+  discardQuestionnaireDraft,
+  getQuestionnaireVersion,
+  updateQuestionnaireDraft,
+  validateQuestionnaireDefinition,
+} from '@/lib/services/acceptance/questionnaireVersionService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * GET /api/admin/acceptance-questionnaires/versions/[versionId]
+ * Includes the problems that would block publishing a draft
+ */
+export const GET = secureRoute.queryWithParams<{ versionId: string }>({
+  feature: Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES,
+  handler: async (_request, { params }) => {
+    const versionId = parseNumericId(params.versionId, 'Questionnaire version');
+    const version = await getQuestionnaireVersion(versionId);
+
+    return NextResponse.json(
+      successResponse({
+        ...version,
+        validationErrors: version.status === 'DRAFT' ? validateQuestionnaireDefinition(version.sections) : [],
+      })
+    );
+  },
+});
+
+/**
+ * PUT /api/admin/acceptance-questionnaires/versions/[versionId]
+ */
+export const PUT = secureRoute.mutationWithParams<typeof UpdateQuestionnaireDraftSchema, { versionId: string }>({
+  feature: Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES,
+  schema: UpdateQuestionnaireDraftSchema,
+  sanitize: false,
+  handler: async (request, { user, data, params }) => {
+    const versionId = parseNumericId(params.versionId, 'Questionnaire version');
+
+    const draft = await updateQuestionnaireDraft(versionId, data.sections, data.changeNote);
+
+    await auditAdminAction(
+      user.id,
+      'QUESTIONNAIRE_DRAFT_UPDATED',
+      'ACCEPTANCE_QUESTIONNAIRE',
+      String(versionId),
+      {
+        questionnaireType: draft.questionnaireType,
+        versionNumber: draft.versionNumber,
+        questionCount: data.sections.reduce((sum, section) => sum + section.questions.length, 0),
+      },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(draft));
+  },
+});
+
+/**
+ * DELETE /api/admin/acceptance-questionnaires/versions/[versionId]
+ * Only drafts can be discarded - published versions may have responses pinned to them
+ */
+export const DELETE = secureRoute.mutationWithParams<z.ZodVoid, { versionId: string }>({
+  feature: Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES,
+  handler: async (request, { user, params }) => {
+    const versionId = parseNumericId(params.versionId, 'Questionnaire version');
+
+    const draft = await discardQuestionnaireDraft(versionId);
+
+    await auditAdminAction(
+      user.id,
+      'QUESTIONNAIRE_DRAFT_DISCARDED',
+      'ACCEPTANCE_QUESTIONNAIRE',
+      String(versionId),
+      { questionnaireType: draft.questionnaireType, versionNumber: draft.versionNumber },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse({ deleted: true }));
+  },
+});
@@ -0,0 +1,135 @@
+/**
+ * Approval Route API
+ * GET   /api/admin/approval-routes/[routeId] - Route with its configuration versions
+ * PATCH /api/admin/approval-routes/[routeId] - Update a route's description or status
+ *
+ * Configuration changes are saved as versions (see ./versions). Skips input
+ * sanitization for the same reason as the collection route.
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { UpdateApprovalRouteSchema } from '@/lib/validation/schemas';
+import { prisma } from '@/lib/db/prisma';
+import { assertRouteStatusChange } from '@/lib/services/approvals/routeVersionService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+
+/**
+ * GET /api/admin/approval-routes/[routeId]
+ * Versions are returned newest first
+ */
+export const GET = secureRoute.queryWithParams<{ routeId: string }>({
+  feature: Feature.MANAGE_APPROVAL_ROUTES,
+  handler: async (_request, { params }) => {
+    const routeId = parseNumericId(params.routeId, 'Approval route');
+
+    const route = await prisma.approvalRoute.findUnique({
+      where: { id: routeId },
+      select: {
+        id: true,
+        workflowType: true,
+        routeName: true,
+        description: true,
+        routeConfig: true,
+        isActive: true,
+        isDefault: true,
+        activeVersion: true,
+        createdAt: true,
+        updatedAt: true,
+        ApprovalRouteVersion: {
+          select: {
+            versionNumber: true,
+            routeConfig: true,
+            changeNote: true,
+            createdAt: true,
+            activatedAt: true,
+            User: { select: { id: true, name: true } },
+          },
+          orderBy: { versionNumber: 'desc' },
+        },
+      },
+    });
+
+    if (!route) {
+      throw new AppError(404, 'Approval route not found', ErrorCodes.NOT_FOUND);
+    }
+
+    const { ApprovalRouteVersion: versions, ...rest } = route;
+
+    return NextResponse.json(
+      successResponse({
+        ...rest,
+        routeConfig: JSON.parse(route.routeConfig),
+        versions: versions.map(({ User: createdBy, ...version }) => ({
+          ...version,
+          routeConfig: JSON.parse(version.routeConfig),
+          createdBy,
+        })),
+      })
+    );
+  },
+});
+
+/**
+ * PATCH /api/admin/approval-routes/[routeId]
+ * The default route cannot be deactivated or un-defaulted - make another route
+ * the default instead, which clears this one
+ */
+export const PATCH = secureRoute.mutationWithParams<typeof UpdateApprovalRouteSchema, { routeId: string }>({
+  feature: Feature.MANAGE_APPROVAL_ROUTES,
+  schema: UpdateApprovalRouteSchema,
+  sanitize: false,
+  handler: async (request, { user, data, params }) => {
+    const routeId = parseNumericId(params.routeId, 'Approval route');
+
+    const existing = await prisma.approvalRoute.findUnique({
+      where: { id: routeId },
+      select: { id: true, workflowType: true, routeName: true, isActive: true, isDefault: true },
+    });
+
+    if (!existing) {
+      throw new AppError(404, 'Approval route not found', ErrorCodes.NOT_FOUND);
+    }
+
+    assertRouteStatusChange(existing, data);
+
+    const route = await prisma.$transaction(async (tx) => {
+      if (data.isDefault && !existing.isDefault) {
+        await tx.approvalRoute.updateMany({
+          where: { workflowType: existing.workflowType, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.approvalRoute.update({
+        where: { id: routeId },
+        data: {
+          description: data.description,
+          isActive: data.isActive,
+          isDefault: data.isDefault,
+        },
+      });
+    });
+
+    await auditAdminAction(
+      user.id,
+      'APPROVAL_ROUTE_UPDATED',
+      'APPROVAL_ROUTE',
+      String(routeId),
+      {
+        workflowType: existing.workflowType,
+        routeName: existing.routeName,
+        changedFields: Object.keys(data),
+      },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(
+      successResponse({ ...route, routeConfig: JSON.parse(route.routeConfig) })
+    );
+  },
+});
@@ -0,0 +1,69 @@
+/**
+ * Approval Route Version Activation API
+ * POST /api/admin/approval-routes/[routeId]/versions/[versionNumber]/activate - Make a version live
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { prisma } from '@/lib/db/prisma';
+import { activateRouteVersion, assertValidRouteConfig } from '@/lib/services/approvals/routeVersionService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+
+/**
+ * POST /api/admin/approval-routes/[routeId]/versions/[versionNumber]/activate
+ * Also used to roll back to an earlier version. The version is re-validated
+ * because leader groups, users or service lines it names may have gone since.
+ */
+export const POST = secureRoute.mutationWithParams<z.ZodVoid, { routeId: string; versionNumber: string }>({
+  feature: Feature.MANAGE_APPROVAL_ROUTES,
+  handler: async (request, { user, params }) => {
+    const routeId = parseNumericId(params.routeId, 'Approval route');
+    const versionNumber = parseNumericId(params.versionNumber, 'Route version');
+
+    const version = await prisma.approvalRouteVersion.findUnique({
+      where: { routeId_versionNumber: { routeId, versionNumber } },
+      select: {
+        routeConfig: true,
+        ApprovalRoute: { select: { workflowType: true, routeName: true, activeVersion: true } },
+      },
+    });
+
+    if (!version) {
+      throw new AppError(404, 'Route version not found', ErrorCodes.NOT_FOUND);
+    }
+
+    const previousVersion = version.ApprovalRoute.activeVersion;
+    if (previousVersion === versionNumber) {
+      throw new AppError(409, `Version ${versionNumber} is already active`, ErrorCodes.CONFLICT);
+    }
+
+    const validation = await assertValidRouteConfig(JSON.parse(version.routeConfig));
+
+    const route = await prisma.$transaction((tx) => activateRouteVersion(tx, routeId, versionNumber));
+
+    await auditAdminAction(
+      user.id,
+      'APPROVAL_ROUTE_VERSION_ACTIVATED',
+      'APPROVAL_ROUTE',
+      String(routeId),
+      {
+        workflowType: version.ApprovalRoute.workflowType,
+        routeName: version.ApprovalRoute.routeName,
+        versionNumber,
+        previousVersion,
+      },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(
+      successResponse({
+        ...route,
+        routeConfig: JSON.parse(route.routeConfig),
+        warnings: validation.warnings,
+      })
+    );
+  },
+});
@@ -0,0 +1,73 @@
+/**
+ * Approval Route Versions API
+ * POST /api/admin/approval-routes/[routeId]/versions - Save a new configuration version
+ *
+ * Skips input sanitization for the same reason as the collection route.
+ */
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { CreateApprovalRouteVersionSchema } from '@/lib/validation/schemas';
+import { prisma } from '@/lib/db/prisma';
+import {
+  activateRouteVersion,
+  assertValidRouteConfig,
+  createRouteVersion,
+} from '@/lib/services/approvals/routeVersionService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+
+/**
+ * POST /api/admin/approval-routes/[routeId]/versions
+ * Saved as a draft unless activate is set; drafts do not affect new approvals
+ */
+export const POST = secureRoute.mutationWithParams<typeof CreateApprovalRouteVersionSchema, { routeId: string }>({
+  feature: Feature.MANAGE_APPROVAL_ROUTES,
+  schema: CreateApprovalRouteVersionSchema,
+  sanitize: false,
+  handler: async (request, { user, data, params }) => {
+    const routeId = parseNumericId(params.routeId, 'Approval route');
+
+    const existing = await prisma.approvalRoute.findUnique({
+      where: { id: routeId },
+      select: { id: true, workflowType: true, routeName: true },
+    });
+
+    if (!existing) {
+      throw new AppError(404, 'Approval route not found', ErrorCodes.NOT_FOUND);
+    }
+
+    const validation = await assertValidRouteConfig(data.routeConfig);
+
+    const version = await prisma.$transaction(async (tx) => {
+      const created = await createRouteVersion(tx, routeId, data.routeConfig, user.id, data.changeNote);
+      if (data.activate) {
+        await activateRouteVersion(tx, routeId, created.versionNumber);
+      }
+      return created;
+    });
+
+    await auditAdminAction(
+      user.id,
+      data.activate ? 'APPROVAL_ROUTE_VERSION_ACTIVATED' : 'APPROVAL_ROUTE_VERSION_CREATED',
+      'APPROVAL_ROUTE',
+      String(routeId),
+      {
+        workflowType: existing.workflowType,
+        routeName: existing.routeName,
+        versionNumber: version.versionNumber,
+      },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(
+      successResponse({
+        versionNumber: version.versionNumber,
+        isActive: !!data.activate,
+        warnings: validation.warnings,
+      }),
+      { status: 201 }
+    );
+  },
+});
@@ -0,0 +1,38 @@
+/**
+ * Approval Route Designer Options API
+ * GET /api/admin/approval-routes/options - Leader groups and service lines approvers can be picked from
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { prisma } from '@/lib/db/prisma';
+
+/**
+ * GET /api/admin/approval-routes/options
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_APPROVAL_ROUTES,
+  handler: async () => {
+    const [leaderGroups, serviceLines] = await Promise.all([
+      prisma.leaderGroup.findMany({
+        select: { name: true, _count: { select: { LeaderGroupMember: true } } },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.serviceLineMaster.findMany({
+        where: { active: true },
+        select: { code: true, name: true },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      }),
+    ]);
+
+    return NextResponse.json(
+      successResponse({
+        leaderGroups: leaderGroups.map((group) => ({ name: group.name, memberCount: group._count.LeaderGroupMember })),
+        serviceLines,
+      })
+    );
+  },
+});
@@ -0,0 +1,53 @@
+/**
+ * Approval Route Preview API
+ * POST /api/admin/approval-routes/preview - Resolve a route against an existing workflow record
+ *
+ * Accepts a saved route (routeId) or an unsaved configuration (routeConfig)
+ * so admins can check conditions and assignees before saving. Nothing is
+ * written. Skips input sanitization for the same reason as the collection route.
+ */
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { PreviewApprovalRouteSchema } from '@/lib/validation/schemas';
+import { prisma } from '@/lib/db/prisma';
+import { previewRoute } from '@/lib/services/approvals/routeResolver';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+
+/**
+ * POST /api/admin/approval-routes/preview
+ * Returns resolved stages, skipped conditional steps, the route context and validation results
+ */
+export const POST = secureRoute.mutation({
+  feature: Feature.MANAGE_APPROVAL_ROUTES,
+  schema: PreviewApprovalRouteSchema,
+  sanitize: false,
+  handler: async (_request, { data }) => {
+    let routeConfig: unknown = data.routeConfig;
+
+    if (data.routeId !== undefined) {
+      const route = await prisma.approvalRoute.findUnique({
+        where: { id: data.routeId },
+        select: { workflowType: true, routeConfig: true },
+      });
+
+      if (!route) {
+        throw new AppError(404, 'Approval route not found', ErrorCodes.NOT_FOUND);
+      }
+      if (route.workflowType !== data.workflowType) {
+        throw new AppError(
+          400,
+          `Route is for ${route.workflowType}, not ${data.workflowType}`,
+          ErrorCodes.VALIDATION_ERROR
+        );
+      }
+
+      routeConfig = JSON.parse(route.routeConfig);
+    }
+
+    const preview = await previewRoute(data.workflowType, data.workflowId, routeConfig);
+
+    return NextResponse.json(successResponse(preview));
+  },
+});
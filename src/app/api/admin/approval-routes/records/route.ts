@@ -0,0 +1,55 @@
+/**
+ * Approval Route Dry-Run Records API
+ * GET /api/admin/approval-routes/records - Recent workflow records to dry-run routes against
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { prisma } from '@/lib/db/prisma';
+
+const RECORD_LIMIT = 25;
+
+const RecordsQuerySchema = z.object({
+  workflowType: z.string().regex(/^[A-Z_]{1,50}$/),
+  search: z.string().trim().max(100).optional(),
+}).strict();
+
+/**
+ * GET /api/admin/approval-routes/records?workflowType=CLIENT_ACCEPTANCE&search=acme
+ * Records that have been through approval, newest first (one entry per record)
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_APPROVAL_ROUTES,
+  handler: async (request) => {
+    const { searchParams } = new URL(request.url);
+    const { workflowType, search } = RecordsQuerySchema.parse({
+      workflowType: searchParams.get('workflowType') ?? undefined,
+      search: searchParams.get('search') || undefined,
+    });
+
+    const approvals = await prisma.approval.findMany({
+      where: {
+        workflowType,
+        ...(search ? { title: { contains: search } } : {}),
+      },
+      select: { workflowId: true, title: true, status: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: RECORD_LIMIT * 2,
+    });
+
+    const seen = new Set<number>();
+    const records = approvals
+      .filter((approval) => {
+        if (seen.has(approval.workflowId)) return false;
+        seen.add(approval.workflowId);
+        return true;
+      })
+      .slice(0, RECORD_LIMIT);
+
+    return NextResponse.json(successResponse(records));
+  },
+});
@@ -0,0 +1,143 @@
+/**
+ * Approval Routes API
+ * GET  /api/admin/approval-routes - List approval routes (optionally for one workflow type)
+ * POST /api/admin/approval-routes - Create a route with its first configuration version
+ *
+ * Mutations skip input sanitization: route conditions contain comparison
+ * operators and quotes that would be escaped. Every field is validated by
+ * the route schemas instead.
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { CreateApprovalRouteSchema } from '@/lib/validation/schemas';
+import { prisma } from '@/lib/db/prisma';
+import {
+  activateRouteVersion,
+  assertValidRouteConfig,
+  createRouteVersion,
+} from '@/lib/services/approvals/routeVersionService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+
+const ListRoutesQuerySchema = z.object({
+  workflowType: z.string().regex(/^[A-Z_]{1,50}$/).optional(),
+}).strict();
+
+/**
+ * GET /api/admin/approval-routes
+ * Routes ordered by workflow type, default first
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_APPROVAL_ROUTES,
+  handler: async (request) => {
+    const { searchParams } = new URL(request.url);
+    const { workflowType } = ListRoutesQuerySchema.parse({
+      workflowType: searchParams.get('workflowType') ?? undefined,
+    });
+
+    const routes = await prisma.approvalRoute.findMany({
+      where: workflowType ? { workflowType } : undefined,
+      select: {
+        id: true,
+        workflowType: true,
+        routeName: true,
+        description: true,
+        routeConfig: true,
+        isActive: true,
+        isDefault: true,
+        activeVersion: true,
+        updatedAt: true,
+        ApprovalRouteVersion: {
+          select: { versionNumber: true },
+          orderBy: { versionNumber: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: [{ workflowType: 'asc' }, { isDefault: 'desc' }, { routeName: 'asc' }],
+    });
+
+    return NextResponse.json(
+      successResponse(
+        routes.map(({ ApprovalRouteVersion: versions, ...route }) => ({
+          ...route,
+          routeConfig: JSON.parse(route.routeConfig),
+          latestVersion: versions[0]?.versionNumber ?? null,
+        }))
+      )
+    );
+  },
+});
+
+/**
+ * POST /api/admin/approval-routes
+ * Making a route the default clears the previous default for its workflow type.
+ * The configuration is saved and activated as version 1.
+ */
+export const POST = secureRoute.mutation({
+  feature: Feature.MANAGE_APPROVAL_ROUTES,
+  schema: CreateApprovalRouteSchema,
+  sanitize: false,
+  handler: async (request, { user, data }) => {
+    const validation = await assertValidRouteConfig(data.routeConfig);
+
+    const existing = await prisma.approvalRoute.findFirst({
+      where: { workflowType: data.workflowType, routeName: data.routeName },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new AppError(
+        409,
+        `A ${data.workflowType} route named "${data.routeName}" already exists`,
+        ErrorCodes.CONFLICT
+      );
+    }
+
+    const route = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.approvalRoute.updateMany({
+          where: { workflowType: data.workflowType, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      const created = await tx.approvalRoute.create({
+        data: {
+          workflowType: data.workflowType,
+          routeName: data.routeName,
+          description: data.description,
+          routeConfig: JSON.stringify(data.routeConfig),
+          isDefault: data.isDefault ?? false,
+        },
+      });
+
+      const version = await createRouteVersion(
+        tx,
+        created.id,
+        data.routeConfig,
+        user.id,
+        data.changeNote ?? 'Initial version'
+      );
+      return activateRouteVersion(tx, created.id, version.versionNumber);
+    });
+
+    await auditAdminAction(
+      user.id,
+      'APPROVAL_ROUTE_CREATED',
+      'APPROVAL_ROUTE',
+      String(route.id),
+      { workflowType: route.workflowType, routeName: route.routeName, isDefault: route.isDefault },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(
+      successResponse({ ...route, routeConfig: data.routeConfig, warnings: validation.warnings }),
+      { status: 201 }
+    );
+  },
+});
@@ -8,6 +8,7 @@ import { uploadVaultDocument } from '@/lib/services/documents/blobStorage';
 import { extractVaultDocumentMetadata } from '@/lib/services/documents/vaultDocumentExtraction';
 import { approvalService } from '@/lib/services/approvals/approvalService';
 import { invalidateDocumentVaultCache } from '@/lib/services/document-vault/documentVaultCache';
+import { refreshVaultDocumentIndex } from '@/lib/services/document-vault/documentVaultSearch';
 import { logger } from '@/lib/utils/logger';
 
 /**
@@ -180,6 +181,7 @@ export const POST = secureRoute.fileUpload({
           aiExtractedText: extracted.extractedText,
         },
       });
+      await refreshVaultDocumentIndex(documentId);
       logger.info('AI extraction completed for new version', { documentId, version: newVersion });
     }).catch(async (error) => {
       await prisma.vaultDocument.update({
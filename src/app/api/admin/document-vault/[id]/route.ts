@@ -6,6 +6,7 @@ import { prisma } from '@/lib/db/prisma';
 import { successResponse } from '@/lib/utils/apiUtils';
 import { canManageVaultDocuments } from '@/lib/services/document-vault/documentVaultAuthorization';
 import { invalidateDocumentVaultCache } from '@/lib/services/document-vault/documentVaultCache';
+import { refreshVaultDocumentIndex } from '@/lib/services/document-vault/documentVaultSearch';
 import { uploadVaultDocument } from '@/lib/services/documents/blobStorage';
 import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
 
@@ -151,7 +152,12 @@ export const PATCH = secureRoute.fileUpload({
         Approval: {
           select: {
             ApprovalStep: {
-              where: { assignedToUserId: user.id },
+              where: {
+                OR: [
+                  { assignedToUserId: user.id },
+                  { isDelegated: true, delegatedToUserId: user.id },
+                ],
+              },
               select: { id: true },
             },
           },
@@ -332,6 +338,9 @@ export const PATCH = secureRoute.fileUpload({
       },
     });
 
+    // Re-index title, description and tags changes
+    await refreshVaultDocumentIndex(documentId);
+
     // Invalidate cache
     await invalidateDocumentVaultCache(documentId, document.serviceLine || undefined);
 
@@ -9,6 +9,7 @@ import { uploadVaultDocument, initDocumentVaultStorage, moveVaultDocumentFromTem
 import { extractVaultDocumentMetadata } from '@/lib/services/documents/vaultDocumentExtraction';
 import { approvalService } from '@/lib/services/approvals/approvalService';
 import { invalidateDocumentVaultCache } from '@/lib/services/document-vault/documentVaultCache';
+import { refreshVaultDocumentIndex } from '@/lib/services/document-vault/documentVaultSearch';
 import { logger } from '@/lib/utils/logger';
 
 /**
@@ -225,6 +226,7 @@ export const POST = secureRoute.fileUpload({
               aiExtractedText: extracted.extractedText,
             },
           });
+          await refreshVaultDocumentIndex(document.id);
           logger.info('AI extraction completed', { documentId: document.id });
         }).catch(async (error) => {
           await prisma.vaultDocument.update({
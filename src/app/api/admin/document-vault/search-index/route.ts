@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute } from '@/lib/api/secureRoute';
+import { Feature } from '@/lib/permissions/features';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { canManageVaultDocuments } from '@/lib/services/document-vault/documentVaultAuthorization';
+import { rebuildVaultSearchIndex } from '@/lib/services/document-vault/documentVaultSearch';
+
+const RebuildSearchIndexSchema = z.object({
+  force: z.boolean().optional(),
+}).strict();
+
+/**
+ * POST /api/admin/document-vault/search-index
+ * Rebuild the document vault search index
+ * Unchanged documents are skipped unless force is true
+ */
+export const POST = secureRoute.mutation({
+  feature: Feature.MANAGE_VAULT_DOCUMENTS,
+  schema: RebuildSearchIndexSchema,
+  handler: async (request, { user, data }) => {
+    const canManage = await canManageVaultDocuments(user.id);
+    if (!canManage) {
+      throw new AppError(403, 'Insufficient permissions', ErrorCodes.FORBIDDEN);
+    }
+
+    const result = await rebuildVaultSearchIndex({ force: data.force });
+
+    return NextResponse.json(successResponse(result));
+  },
+});
@@ -0,0 +1,41 @@
+/**
+ * Engagement Letter Clause API
+ * PUT    /api/admin/engagement-letter-clauses/[clauseId] - Update a clause
+ * DELETE /api/admin/engagement-letter-clauses/[clauseId] - Delete a clause
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { UpdateEngagementLetterClauseSchema } from '@/lib/validation/schemas';
+import { deleteClause, updateClause } from '@/lib/services/templates/clauseLibraryService';
+
+/**
+ * PUT /api/admin/engagement-letter-clauses/[clauseId]
+ */
+export const PUT = secureRoute.mutationWithParams<typeof UpdateEngagementLetterClauseSchema, { clauseId: string }>({
+  feature: Feature.MANAGE_TEMPLATES,
+  schema: UpdateEngagementLetterClauseSchema,
+  handler: async (request, { data, params }) => {
+    const clauseId = parseNumericId(params.clauseId, 'Clause');
+
+    const clause = await updateClause(clauseId, data);
+
+    return NextResponse.json(successResponse(clause));
+  },
+});
+
+/**
+ * DELETE /api/admin/engagement-letter-clauses/[clauseId]
+ */
+export const DELETE = secureRoute.mutationWithParams<z.ZodVoid, { clauseId: string }>({
+  feature: Feature.MANAGE_TEMPLATES,
+  handler: async (request, { params }) => {
+    const clauseId = parseNumericId(params.clauseId, 'Clause');
+
+    await deleteClause(clauseId);
+
+    return NextResponse.json(successResponse({ deleted: true }));
+  },
+});
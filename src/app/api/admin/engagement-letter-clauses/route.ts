@@ -0,0 +1,56 @@
+/**
+ * Engagement Letter Clause Library API
+ * GET  /api/admin/engagement-letter-clauses - List clauses
+ * POST /api/admin/engagement-letter-clauses - Add a clause
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { CreateEngagementLetterClauseSchema } from '@/lib/validation/schemas';
+import { createClause, getClauses } from '@/lib/services/templates/clauseLibraryService';
+
+export const dynamic = 'force-dynamic';
+
+const ClauseQueryParamsSchema = z.object({
+  serviceLine: z.string().max(50).optional(),
+  active: z.enum(['true', 'false']).optional(),
+}).strict();
+
+/**
+ * GET /api/admin/engagement-letter-clauses
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_TEMPLATES,
+  handler: async (request) => {
+    const { searchParams } = new URL(request.url);
+
+    // Invalid params are ignored, as on the templates list
+    const queryResult = ClauseQueryParamsSchema.safeParse({
+      serviceLine: searchParams.get('serviceLine') || undefined,
+      active: searchParams.get('active') || undefined,
+    });
+    const validParams = queryResult.success ? queryResult.data : {};
+
+    const clauses = await getClauses({
+      serviceLine: validParams.serviceLine,
+      active: validParams.active ? validParams.active === 'true' : undefined,
+    });
+
+    return NextResponse.json(successResponse(clauses));
+  },
+});
+
+/**
+ * POST /api/admin/engagement-letter-clauses
+ */
+export const POST = secureRoute.mutation({
+  feature: Feature.MANAGE_TEMPLATES,
+  schema: CreateEngagementLetterClauseSchema,
+  handler: async (request, { user, data }) => {
+    const clause = await createClause(data, user.id);
+
+    return NextResponse.json(successResponse(clause), { status: 201 });
+  },
+});
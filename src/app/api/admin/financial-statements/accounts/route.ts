@@ -0,0 +1,42 @@
+/**
+ * Financial Statement Accounts API
+ * GET /api/admin/financial-statements/accounts - Chart of accounts with the line each account maps to
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { listStatementAccounts } from '@/lib/services/exco/financialStatementMapping';
+
+const AccountsQuerySchema = z.object({
+  statement: z.enum(['INCOME_STATEMENT', 'BALANCE_SHEET']),
+  search: z.string().max(100).optional(),
+  unmappedOnly: z.enum(['true', 'false']).optional(),
+}).strict();
+
+/**
+ * GET /api/admin/financial-statements/accounts
+ *
+ * Query Parameters:
+ * - statement: INCOME_STATEMENT or BALANCE_SHEET
+ * - search: Account number, description or GL category contains
+ * - unmappedOnly: 'true' for accounts no mapping rule matches
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_FINANCIAL_MAPPING,
+  handler: async (request) => {
+    const { searchParams } = new URL(request.url);
+    const { statement, search, unmappedOnly } = AccountsQuerySchema.parse({
+      statement: searchParams.get('statement') || undefined,
+      search: searchParams.get('search') || undefined,
+      unmappedOnly: searchParams.get('unmappedOnly') || undefined,
+    });
+
+    const accounts = await listStatementAccounts(statement, search, unmappedOnly === 'true');
+
+    return NextResponse.json(successResponse(accounts));
+  },
+});
@@ -0,0 +1,36 @@
+/**
+ * Financial Statement Mapping Rule API
+ * DELETE /api/admin/financial-statements/lines/[lineId]/mappings/[mappingId] - Remove a mapping rule
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { deleteStatementMapping } from '@/lib/services/exco/financialStatementMapping';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * DELETE /api/admin/financial-statements/lines/[lineId]/mappings/[mappingId]
+ * Returns the updated line
+ */
+export const DELETE = secureRoute.mutationWithParams<z.ZodVoid, { lineId: string; mappingId: string }>({
+  feature: Feature.MANAGE_FINANCIAL_MAPPING,
+  handler: async (request, { user, params }) => {
+    const lineId = parseNumericId(params.lineId, 'Statement line');
+    const mappingId = parseNumericId(params.mappingId, 'Mapping rule');
+
+    const line = await deleteStatementMapping(lineId, mappingId);
+
+    await auditAdminAction(
+      user.id,
+      'STATEMENT_MAPPING_REMOVED',
+      'FINANCIAL_STATEMENT_LINE',
+      String(lineId),
+      { mappingId },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(line));
+  },
+});
@@ -0,0 +1,36 @@
+/**
+ * Financial Statement Mapping Rules API
+ * POST /api/admin/financial-statements/lines/[lineId]/mappings - Map an account, account prefix or GL category to a line
+ */
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { CreateStatementMappingSchema } from '@/lib/validation/schemas';
+import { addStatementMapping } from '@/lib/services/exco/financialStatementMapping';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * POST /api/admin/financial-statements/lines/[lineId]/mappings
+ * A pattern can only be mapped once per match type; returns the updated line
+ */
+export const POST = secureRoute.mutationWithParams<typeof CreateStatementMappingSchema, { lineId: string }>({
+  feature: Feature.MANAGE_FINANCIAL_MAPPING,
+  schema: CreateStatementMappingSchema,
+  handler: async (request, { user, data, params }) => {
+    const lineId = parseNumericId(params.lineId, 'Statement line');
+
+    const line = await addStatementMapping(lineId, data, user);
+
+    await auditAdminAction(
+      user.id,
+      'STATEMENT_MAPPING_ADDED',
+      'FINANCIAL_STATEMENT_LINE',
+      String(lineId),
+      { matchType: data.matchType, pattern: data.pattern },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(line), { status: 201 });
+  },
+});
@@ -0,0 +1,63 @@
+/**
+ * Financial Statement Line API
+ * PUT    /api/admin/financial-statements/lines/[lineId] - Rename, move, reorder or (de)activate a line
+ * DELETE /api/admin/financial-statements/lines/[lineId] - Delete a line and its mapping rules
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { UpdateStatementLineSchema } from '@/lib/validation/schemas';
+import { deleteStatementLine, updateStatementLine } from '@/lib/services/exco/financialStatementMapping';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * PUT /api/admin/financial-statements/lines/[lineId]
+ */
+export const PUT = secureRoute.mutationWithParams<typeof UpdateStatementLineSchema, { lineId: string }>({
+  feature: Feature.MANAGE_FINANCIAL_MAPPING,
+  schema: UpdateStatementLineSchema,
+  handler: async (request, { user, data, params }) => {
+    const lineId = parseNumericId(params.lineId, 'Statement line');
+
+    const line = await updateStatementLine(lineId, data);
+
+    await auditAdminAction(
+      user.id,
+      'STATEMENT_LINE_UPDATED',
+      'FINANCIAL_STATEMENT_LINE',
+      String(lineId),
+      { name: line.name, changedFields: Object.keys(data) },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(line));
+  },
+});
+
+/**
+ * DELETE /api/admin/financial-statements/lines/[lineId]
+ * The line's accounts fall back to their GL category on the statements
+ */
+export const DELETE = secureRoute.mutationWithParams<z.ZodVoid, { lineId: string }>({
+  feature: Feature.MANAGE_FINANCIAL_MAPPING,
+  handler: async (request, { user, params }) => {
+    const lineId = parseNumericId(params.lineId, 'Statement line');
+
+    await deleteStatementLine(lineId);
+
+    await auditAdminAction(
+      user.id,
+      'STATEMENT_LINE_DELETED',
+      'FINANCIAL_STATEMENT_LINE',
+      String(lineId),
+      undefined,
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse({ success: true }));
+  },
+});
@@ -0,0 +1,48 @@
+/**
+ * Financial Statement Lines API
+ * GET  /api/admin/financial-statements/lines - Lines with their mapping rules, in presentation order
+ * POST /api/admin/financial-statements/lines - Add a line to a statement section
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { CreateStatementLineSchema } from '@/lib/validation/schemas';
+import { createStatementLine, listStatementLines } from '@/lib/services/exco/financialStatementMapping';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * GET /api/admin/financial-statements/lines
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_FINANCIAL_MAPPING,
+  handler: async () => {
+    const lines = await listStatementLines();
+    return NextResponse.json(successResponse(lines));
+  },
+});
+
+/**
+ * POST /api/admin/financial-statements/lines
+ * New lines go to the end of their section unless a sort order is given
+ */
+export const POST = secureRoute.mutation({
+  feature: Feature.MANAGE_FINANCIAL_MAPPING,
+  schema: CreateStatementLineSchema,
+  handler: async (request, { user, data }) => {
+    const line = await createStatementLine(data, user);
+
+    await auditAdminAction(
+      user.id,
+      'STATEMENT_LINE_CREATED',
+      'FINANCIAL_STATEMENT_LINE',
+      String(line.id),
+      { section: line.section, name: line.name },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(line), { status: 201 });
+  },
+});
@@ -12,7 +12,8 @@ export const dynamic = 'force-dynamic';
 
 /**
  * PUT /api/admin/leaders/[id]
- * Update a leader group's name and/or description
+ * Update a leader group's name, description and/or the master service lines it leads
+ * serviceLines replaces the whole set; the staff performance report is scoped by it
  * Admin only - requires MANAGE_USERS feature
  */
 export const PUT = secureRoute.mutationWithParams<typeof UpdateLeaderGroupSchema, { id: string }>({
@@ -52,12 +53,37 @@ export const PUT = secureRoute.mutationWithParams<typeof UpdateLeaderGroupSchema
         }
       }
 
+      const serviceLines = data.serviceLines ? [...new Set(data.serviceLines)] : undefined;
+
+      if (serviceLines && serviceLines.length > 0) {
+        const known = await prisma.serviceLineMaster.findMany({
+          where: { code: { in: serviceLines } },
+          select: { code: true },
+        });
+        const knownCodes = new Set(known.map((sl) => sl.code));
+        const unknown = serviceLines.filter((code) => !knownCodes.has(code));
+
+        if (unknown.length > 0) {
+          throw new AppError(
+            400,
+            `Unknown service line: ${unknown.join(', ')}`,
+            ErrorCodes.VALIDATION_ERROR
+          );
+        }
+      }
+
       // Update the group
       const updatedGroup = await prisma.leaderGroup.update({
         where: { id },
         data: {
           ...(data.name && { name: data.name }),
           ...(data.description !== undefined && { description: data.description }),
+          ...(serviceLines && {
+            LeaderGroupServiceLine: {
+              deleteMany: {},
+              create: serviceLines.map((masterCode) => ({ masterCode })),
+            },
+          }),
         },
         select: {
           id: true,
@@ -65,6 +91,13 @@ export const PUT = secureRoute.mutationWithParams<typeof UpdateLeaderGroupSchema
           description: true,
           createdAt: true,
           updatedAt: true,
+          LeaderGroupServiceLine: {
+            select: {
+              masterCode: true,
+              ServiceLineMaster: { select: { name: true } },
+            },
+            orderBy: { masterCode: 'asc' },
+          },
           User: {
             select: {
               id: true,
@@ -11,7 +11,7 @@ export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/admin/leaders
- * Fetch all leader groups with member details
+ * Fetch all leader groups with member details and the service lines they lead
  * Admin only - requires ACCESS_ADMIN feature
  */
 export const GET = secureRoute.query({
@@ -33,6 +33,13 @@ export const GET = secureRoute.query({
               email: true,
             },
           },
+          LeaderGroupServiceLine: {
+            select: {
+              masterCode: true,
+              ServiceLineMaster: { select: { name: true } },
+            },
+            orderBy: { masterCode: 'asc' },
+          },
           LeaderGroupMember: {
             select: {
               id: true,
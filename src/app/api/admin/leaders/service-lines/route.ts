@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/leaders/service-lines
+ * Active master service lines a leader group can be assigned to lead
+ * Admin only - requires ACCESS_ADMIN feature
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_ADMIN,
+  handler: async () => {
+    const serviceLines = await prisma.serviceLineMaster.findMany({
+      where: { active: true },
+      select: { code: true, name: true },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json(successResponse(serviceLines));
+  },
+});
@@ -0,0 +1,37 @@
+/**
+ * Dead-Letter Purge API
+ * POST /api/admin/queues/[queueName]/failed/purge - Permanently delete failed jobs
+ */
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseQueueName } from '@/lib/utils/apiUtils';
+import { FailedJobsActionSchema } from '@/lib/validation/schemas';
+import { queue } from '@/lib/queue/QueueService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * POST /api/admin/queues/[queueName]/failed/purge
+ * Delete selected (or all) dead-lettered jobs and their payloads
+ */
+export const POST = secureRoute.mutationWithParams<typeof FailedJobsActionSchema, { queueName: string }>({
+  feature: Feature.MANAGE_DATABASE,
+  schema: FailedJobsActionSchema,
+  handler: async (request, { user, data, params }) => {
+    const queueName = parseQueueName(params.queueName);
+    const jobIds = data.all ? undefined : data.jobIds;
+
+    const result = await queue.purgeFailed(queueName, jobIds);
+
+    await auditAdminAction(
+      user.id,
+      'QUEUE_FAILED_JOBS_PURGE',
+      'QUEUE',
+      queueName,
+      { scope: data.all ? 'all' : 'selected', requested: jobIds?.length, ...result },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(result));
+  },
+});
@@ -0,0 +1,31 @@
+/**
+ * Queue Job Detail API
+ * GET /api/admin/queues/[queueName]/jobs/[jobId] - Inspect a single job's payload and error
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseQueueName, parseQueueJobId } from '@/lib/utils/apiUtils';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { queue } from '@/lib/queue/QueueService';
+
+/**
+ * GET /api/admin/queues/[queueName]/jobs/[jobId]
+ * Full job record including payload, attempts and last error
+ */
+export const GET = secureRoute.queryWithParams<{ queueName: string; jobId: string }>({
+  feature: Feature.MANAGE_DATABASE,
+  handler: async (request, { params }) => {
+    const queueName = parseQueueName(params.queueName);
+    const jobId = parseQueueJobId(params.jobId);
+
+    const job = await queue.getJob<unknown>(queueName, jobId);
+    if (!job) {
+      throw new AppError(404, 'Job not found or expired', ErrorCodes.NOT_FOUND, { queueName, jobId });
+    }
+
+    return NextResponse.json(successResponse(job));
+  },
+});
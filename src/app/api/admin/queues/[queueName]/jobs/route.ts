@@ -0,0 +1,49 @@
+/**
+ * Queue Jobs API
+ * GET /api/admin/queues/[queueName]/jobs - List jobs in a queue by status
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, paginationMeta, parseQueueName } from '@/lib/utils/apiUtils';
+import { queue } from '@/lib/queue/QueueService';
+
+const ListJobsQuerySchema = z.object({
+  status: z.enum(['pending', 'processing', 'failed']).default('failed'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+}).strict();
+
+/**
+ * GET /api/admin/queues/[queueName]/jobs
+ * Paginated list of jobs in the given state
+ */
+export const GET = secureRoute.queryWithParams<{ queueName: string }>({
+  feature: Feature.MANAGE_DATABASE,
+  handler: async (request, { params }) => {
+    const queueName = parseQueueName(params.queueName);
+    const { searchParams } = new URL(request.url);
+    const { status, page, limit } = ListJobsQuerySchema.parse({
+      status: searchParams.get('status') ?? undefined,
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
+
+    const { jobs, total, missing } = await queue.getJobs(
+      queueName,
+      status,
+      (page - 1) * limit,
+      limit
+    );
+
+    return NextResponse.json(
+      successResponse(
+        { jobs, missing },
+        paginationMeta(total, page, limit)
+      )
+    );
+  },
+});
@@ -0,0 +1,40 @@
+/**
+ * Queue Detail API
+ * GET /api/admin/queues/[queueName] - Get queue statistics and trend history
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseQueueName } from '@/lib/utils/apiUtils';
+import { queue } from '@/lib/queue/QueueService';
+
+const QueueHistoryQuerySchema = z.object({
+  hours: z.coerce.number().int().min(1).max(24).default(24),
+}).strict();
+
+/**
+ * GET /api/admin/queues/[queueName]
+ * Current stats plus snapshots for the requested window (max 24 hours)
+ */
+export const GET = secureRoute.queryWithParams<{ queueName: string }>({
+  feature: Feature.MANAGE_DATABASE,
+  handler: async (request, { params }) => {
+    const queueName = parseQueueName(params.queueName);
+    const { searchParams } = new URL(request.url);
+    const { hours } = QueueHistoryQuerySchema.parse({
+      hours: searchParams.get('hours') ?? undefined,
+    });
+
+    await queue.recordStatsSnapshot(queueName);
+
+    const [stats, history] = await Promise.all([
+      queue.getStats(queueName),
+      queue.getStatsHistory(queueName, hours * 3600000),
+    ]);
+
+    return NextResponse.json(successResponse({ name: queueName, stats, history }));
+  },
+});
@@ -0,0 +1,45 @@
+/**
+ * Queue Dashboard API
+ * GET /api/admin/queues - List background job queues, current statistics and worker liveness
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { queue } from '@/lib/queue/QueueService';
+import { isRedisAvailable } from '@/lib/cache/redisClient';
+
+/**
+ * GET /api/admin/queues
+ * List all queues with pending/processing/failed counts and all known workers
+ * Also records a throttled stats snapshot per queue for trend charts
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_DATABASE,
+  handler: async () => {
+    const [queueNames, workers] = await Promise.all([
+      queue.listQueues(),
+      queue.getWorkers(),
+    ]);
+
+    const queues = await Promise.all(
+      queueNames.map(async (name) => {
+        await queue.recordStatsSnapshot(name);
+        return {
+          name,
+          stats: await queue.getStats(name),
+        };
+      })
+    );
+
+    return NextResponse.json(
+      successResponse({
+        redisAvailable: isRedisAvailable(),
+        queues,
+        workers,
+      })
+    );
+  },
+});
@@ -0,0 +1,69 @@
+/**
+ * Job Schedule API
+ * PATCH /api/admin/schedules/[scheduleId] - Pause/resume a schedule or change its cron expression
+ */
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { UpdateJobScheduleSchema } from '@/lib/validation/schemas';
+import { prisma } from '@/lib/db/prisma';
+import { computeNextRunAt } from '@/lib/queue/JobScheduler';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+
+/**
+ * PATCH /api/admin/schedules/[scheduleId]
+ * Next run is recalculated from now, so resuming a paused schedule never fires missed occurrences
+ */
+export const PATCH = secureRoute.mutationWithParams<typeof UpdateJobScheduleSchema, { scheduleId: string }>({
+  feature: Feature.MANAGE_DATABASE,
+  schema: UpdateJobScheduleSchema,
+  handler: async (request, { user, data, params }) => {
+    const scheduleId = parseNumericId(params.scheduleId, 'Schedule');
+
+    const existing = await prisma.jobSchedule.findUnique({
+      where: { id: scheduleId },
+      select: { id: true, name: true, enabled: true, cronExpression: true },
+    });
+
+    if (!existing) {
+      throw new AppError(404, 'Schedule not found', ErrorCodes.NOT_FOUND);
+    }
+
+    const enabled = data.enabled ?? existing.enabled;
+    const cronExpression = data.cronExpression ?? existing.cronExpression;
+
+    const schedule = await prisma.jobSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        enabled,
+        cronExpression,
+        nextRunAt: enabled ? computeNextRunAt(cronExpression) : null,
+      },
+      select: {
+        id: true,
+        name: true,
+        cronExpression: true,
+        enabled: true,
+        lastRunAt: true,
+        nextRunAt: true,
+      },
+    });
+
+    await auditAdminAction(
+      user.id,
+      'JOB_SCHEDULE_UPDATED',
+      'JOB_SCHEDULE',
+      String(scheduleId),
+      {
+        name: existing.name,
+        before: { enabled: existing.enabled, cronExpression: existing.cronExpression },
+        after: { enabled, cronExpression },
+      },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(schedule));
+  },
+});
@@ -0,0 +1,61 @@
+/**
+ * Job Schedule Runs API
+ * GET /api/admin/schedules/[scheduleId]/runs - Run history for a schedule
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, paginationMeta, parseNumericId } from '@/lib/utils/apiUtils';
+import { prisma } from '@/lib/db/prisma';
+
+const ListRunsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+}).strict();
+
+/**
+ * GET /api/admin/schedules/[scheduleId]/runs
+ * Paginated run history, newest first
+ */
+export const GET = secureRoute.queryWithParams<{ scheduleId: string }>({
+  feature: Feature.MANAGE_DATABASE,
+  handler: async (request, { params }) => {
+    const scheduleId = parseNumericId(params.scheduleId, 'Schedule');
+    const { searchParams } = new URL(request.url);
+    const { page, limit } = ListRunsQuerySchema.parse({
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
+
+    const [runs, total] = await Promise.all([
+      prisma.jobScheduleRun.findMany({
+        where: { scheduleId },
+        select: {
+          id: true,
+          scheduledFor: true,
+          triggeredAt: true,
+          trigger: true,
+          status: true,
+          jobId: true,
+          error: true,
+          finishedAt: true,
+          User: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { triggeredAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.jobScheduleRun.count({ where: { scheduleId } }),
+    ]);
+
+    return NextResponse.json(
+      successResponse(
+        runs.map(({ User, ...run }) => ({ ...run, triggeredBy: User })),
+        paginationMeta(total, page, limit)
+      )
+    );
+  },
+});
@@ -0,0 +1,46 @@
+/**
+ * Job Schedule Trigger API
+ * POST /api/admin/schedules/[scheduleId]/trigger - Run a schedule immediately
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { jobScheduler } from '@/lib/queue/JobScheduler';
+import { isRedisAvailable } from '@/lib/cache/redisClient';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+
+/**
+ * POST /api/admin/schedules/[scheduleId]/trigger
+ * Enqueues the schedule's job now (works for paused schedules too) without moving its next run
+ */
+export const POST = secureRoute.mutationWithParams<z.ZodVoid, { scheduleId: string }>({
+  feature: Feature.MANAGE_DATABASE,
+  handler: async (request, { user, params }) => {
+    const scheduleId = parseNumericId(params.scheduleId, 'Schedule');
+
+    // The queue silently drops jobs without Redis - refuse rather than record a phantom run
+    if (!isRedisAvailable()) {
+      throw new AppError(503, 'Job queue is unavailable (Redis not connected)', ErrorCodes.EXTERNAL_API_ERROR);
+    }
+
+    const result = await jobScheduler.triggerNow(scheduleId, user.id);
+
+    if (!result) {
+      throw new AppError(404, 'Schedule not found', ErrorCodes.NOT_FOUND);
+    }
+
+    await auditAdminAction(
+      user.id,
+      'JOB_SCHEDULE_TRIGGERED',
+      'JOB_SCHEDULE',
+      String(scheduleId),
+      { ...result },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(result));
+  },
+});
@@ -0,0 +1,61 @@
+/**
+ * Job Schedules API
+ * GET /api/admin/schedules - List recurring job schedules with their latest run
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { prisma } from '@/lib/db/prisma';
+import { isRedisAvailable } from '@/lib/cache/redisClient';
+
+/**
+ * GET /api/admin/schedules
+ * All schedules ordered by name, each with its most recent run
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_DATABASE,
+  handler: async () => {
+    const schedules = await prisma.jobSchedule.findMany({
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        cronExpression: true,
+        queueName: true,
+        jobType: true,
+        enabled: true,
+        lastRunAt: true,
+        nextRunAt: true,
+        updatedAt: true,
+        JobScheduleRun: {
+          select: {
+            id: true,
+            triggeredAt: true,
+            trigger: true,
+            status: true,
+            jobId: true,
+            error: true,
+            finishedAt: true,
+          },
+          orderBy: { triggeredAt: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: { name: 'asc' },
+      take: 100,
+    });
+
+    return NextResponse.json(
+      successResponse({
+        redisAvailable: isRedisAvailable(),
+        schedules: schedules.map(({ JobScheduleRun, ...schedule }) => ({
+          ...schedule,
+          lastRun: JobScheduleRun[0] ?? null,
+        })),
+      })
+    );
+  },
+});
@@ -1,7 +1,7 @@
 /**
  * Template Version Actions API
  * GET /api/admin/templates/[id]/versions/[versionId] - Get specific version
- * PUT /api/admin/templates/[id]/versions/[versionId] - Activate or restore version
+ * PUT /api/admin/templates/[id]/versions/[versionId] - Activate or restore version (optionally as a new version)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -13,6 +13,7 @@ import {
   getVersion,
   activateVersion,
   restoreVersion,
+  restoreVersionAsNew,
 } from '@/lib/services/templates/templateVersionService';
 
 /**
@@ -37,6 +38,7 @@ export const GET = secureRoute.queryWithParams({
 /**
  * PUT /api/admin/templates/[id]/versions/[versionId]
  * Activate or restore a version
+ * restore_as_new returns the new version created from the restored sections
  */
 export const PUT = secureRoute.mutationWithParams({
   feature: Feature.MANAGE_TEMPLATES,
@@ -48,6 +50,11 @@ export const PUT = secureRoute.mutationWithParams({
       await activateVersion(versionId);
     } else if (data.action === 'restore') {
       await restoreVersion(versionId, user.id);
+    } else if (data.action === 'restore_as_new') {
+      const templateId = parseNumericId(params.id, 'Template');
+      const version = await restoreVersionAsNew(templateId, versionId, user.id, data.changeNotes);
+
+      return NextResponse.json(successResponse(version), { status: 201 });
     }
 
     return NextResponse.json(successResponse({ success: true }));
@@ -0,0 +1,40 @@
+/**
+ * Template Version Comparison API
+ * GET /api/admin/templates/[id]/versions/compare?from=&to= - Word-level diff between two versions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { compareVersions } from '@/lib/services/templates/templateVersionService';
+
+export const dynamic = 'force-dynamic';
+
+// Either side is a version ID or "current" for the template's unversioned sections
+const VersionRefSchema = z.union([z.literal('current'), z.coerce.number().int().positive()]);
+
+const CompareQuerySchema = z.object({
+  from: VersionRefSchema,
+  to: VersionRefSchema.default('current'),
+}).strict();
+
+/**
+ * GET /api/admin/templates/[id]/versions/compare
+ * Per-section diff, including added, removed and reordered sections
+ */
+export const GET = secureRoute.queryWithParams<{ id: string }>({
+  feature: Feature.MANAGE_TEMPLATES,
+  handler: async (request: NextRequest, { params }) => {
+    const templateId = parseNumericId(params.id, 'Template');
+    const { searchParams } = new URL(request.url);
+    const { from, to } = CompareQuerySchema.parse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+    });
+
+    const comparison = await compareVersions(templateId, from, to);
+
+    return NextResponse.json(successResponse(comparison));
+  },
+});
@@ -0,0 +1,26 @@
+/**
+ * Template Version Usage API
+ * GET /api/admin/templates/[id]/versions/usage - Tasks that generated letters from each version
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { getVersionUsage } from '@/lib/services/templates/templateVersionService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/templates/[id]/versions/usage
+ * Letters are flagged outdated when their version's wording differs from the active version
+ */
+export const GET = secureRoute.queryWithParams<{ id: string }>({
+  feature: Feature.MANAGE_TEMPLATES,
+  handler: async (request: NextRequest, { params }) => {
+    const templateId = parseNumericId(params.id, 'Template');
+
+    const usage = await getVersionUsage(templateId);
+
+    return NextResponse.json(successResponse(usage));
+  },
+});
@@ -12,7 +12,7 @@ import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
  * This endpoint retrieves the underlying workflow data (e.g., vault document, change request)
  * for a given approval. Used by client components to display detailed workflow information.
  * 
- * Authorization: User must be assigned as an approver on at least one step of the approval.
+ * Authorization: User must be assigned (or escalated) as an approver on at least one step of the approval.
  */
 export const GET = secureRoute.queryWithParams<{ id: string }>({
   handler: async (request, { user, params }) => {
@@ -25,7 +25,12 @@ export const GET = secureRoute.queryWithParams<{ id: string }>({
         workflowType: true,
         workflowId: true,
         ApprovalStep: {
-          where: { assignedToUserId: user.id },
+          where: {
+            OR: [
+              { assignedToUserId: user.id },
+              { isDelegated: true, delegatedToUserId: user.id },
+            ],
+          },
           select: { id: true }
         }
       }
@@ -0,0 +1,21 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { getOverdueApprovals } from '@/lib/services/approvals/approvalSlaService';
+
+/**
+ * GET /api/approvals/overdue
+ * Overdue approval steps for the current user
+ *
+ * Returns pending steps past their workflow type's reminder threshold where the
+ * user is the approver, the escalation target or the requester, with age in
+ * business days and reminder/escalation history. Oldest first.
+ */
+export const GET = secureRoute.query({
+  handler: async (_request, { user }) => {
+    const overdue = await getOverdueApprovals(user.id);
+    return NextResponse.json(successResponse(overdue));
+  },
+});
@@ -0,0 +1,45 @@
+/**
+ * PATCH /api/clients/[id]/continuance/[continuanceId]/answers
+ * Save continuance questionnaire answers and return the updated risk assessment
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { saveClientContinuanceAnswers } from '@/lib/services/acceptance/clientContinuanceService';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { sanitizeComment } from '@/lib/utils/sanitization';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { GSClientIDSchema, SaveAnswersByKeySchema } from '@/lib/validation/schemas';
+
+export const PATCH = secureRoute.mutationWithParams<typeof SaveAnswersByKeySchema, { id: string; continuanceId: string }>({
+  feature: Feature.MANAGE_CLIENT_ACCEPTANCE,
+  schema: SaveAnswersByKeySchema,
+  handler: async (request, { params, data }) => {
+    if (!GSClientIDSchema.safeParse(params.id).success) {
+      throw new AppError(400, 'Invalid client ID format', ErrorCodes.VALIDATION_ERROR);
+    }
+    const continuanceId = parseNumericId(params.continuanceId, 'Continuance');
+
+    const client = await prisma.client.findUnique({
+      where: { GSClientID: params.id },
+      select: { id: true },
+    });
+
+    if (!client) {
+      throw new AppError(404, 'Client not found', ErrorCodes.NOT_FOUND);
+    }
+
+    const riskAssessment = await saveClientContinuanceAnswers(
+      client.id,
+      continuanceId,
+      data.answers.map((answer) => ({
+        questionKey: answer.questionKey,
+        answer: answer.answer,
+        comment: sanitizeComment(answer.comment),
+      }))
+    );
+
+    return NextResponse.json(successResponse({ riskAssessment }));
+  },
+});
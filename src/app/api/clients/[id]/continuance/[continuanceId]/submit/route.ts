@@ -0,0 +1,63 @@
+/**
+ * POST /api/clients/[id]/continuance/[continuanceId]/submit
+ * Submit a completed continuance assessment for approval (CONTINUANCE workflow)
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import {
+  linkContinuanceApproval,
+  revertContinuanceSubmission,
+  submitClientContinuance,
+} from '@/lib/services/acceptance/clientContinuanceService';
+import { approvalService } from '@/lib/services/approvals/approvalService';
+import { invalidateApprovalsCache } from '@/lib/services/cache/cacheInvalidation';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { GSClientIDSchema } from '@/lib/validation/schemas';
+
+export const POST = secureRoute.mutationWithParams<z.ZodVoid, { id: string; continuanceId: string }>({
+  feature: Feature.MANAGE_CLIENT_ACCEPTANCE,
+  handler: async (request, { user, params }) => {
+    if (!GSClientIDSchema.safeParse(params.id).success) {
+      throw new AppError(400, 'Invalid client ID format', ErrorCodes.VALIDATION_ERROR);
+    }
+    const continuanceId = parseNumericId(params.continuanceId, 'Continuance');
+
+    const client = await prisma.client.findUnique({
+      where: { GSClientID: params.id },
+      select: { id: true, clientCode: true, clientNameFull: true },
+    });
+
+    if (!client) {
+      throw new AppError(404, 'Client not found', ErrorCodes.NOT_FOUND);
+    }
+
+    // Validates the questionnaire, scores it and marks it submitted
+    const continuance = await submitClientContinuance(client.id, continuanceId, user.id);
+
+    // Route context (risk level, client partner) comes from the workflow registry
+    let approval;
+    try {
+      approval = await approvalService.createApproval({
+        workflowType: 'CONTINUANCE',
+        workflowId: continuance.id,
+        title: `Client Continuance for ${client.clientNameFull || client.clientCode}`,
+        description: `Risk Rating: ${continuance.riskRating || 'Unknown'}`,
+        priority: continuance.riskRating === 'HIGH' ? 'HIGH' : 'MEDIUM',
+        requestedById: user.id,
+      });
+    } catch (error) {
+      // Leave the assessment editable so it can be resubmitted
+      await revertContinuanceSubmission(continuance.id);
+      throw error;
+    }
+
+    await linkContinuanceApproval(continuance.id, approval.id);
+    await invalidateApprovalsCache();
+
+    return NextResponse.json(successResponse({ ...continuance, approvalId: approval.id }));
+  },
+});
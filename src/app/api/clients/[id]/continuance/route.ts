@@ -0,0 +1,62 @@
+/**
+ * Client Continuance API
+ * GET  /api/clients/[id]/continuance - Continuance status and the current cycle's assessment with answers
+ * POST /api/clients/[id]/continuance - Start a continuance assessment for the current cycle
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import {
+  getClientContinuanceStatus,
+  getClientContinuanceWithAnswers,
+  startClientContinuance,
+} from '@/lib/services/acceptance/clientContinuanceService';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { GSClientIDSchema } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+async function getClientId(GSClientID: string): Promise<number> {
+  if (!GSClientIDSchema.safeParse(GSClientID).success) {
+    throw new AppError(400, 'Invalid client ID format', ErrorCodes.VALIDATION_ERROR);
+  }
+
+  const client = await prisma.client.findUnique({
+    where: { GSClientID },
+    select: { id: true },
+  });
+
+  if (!client) {
+    throw new AppError(404, 'Client not found', ErrorCodes.NOT_FOUND);
+  }
+
+  return client.id;
+}
+
+export const GET = secureRoute.queryWithParams<{ id: string }>({
+  feature: Feature.ACCESS_CLIENTS,
+  handler: async (request, { params }) => {
+    const clientId = await getClientId(params.id);
+
+    const status = await getClientContinuanceStatus(clientId);
+    const continuance = status.continuance
+      ? await getClientContinuanceWithAnswers(status.continuance.id)
+      : null;
+
+    return NextResponse.json(successResponse({ ...status, continuance }));
+  },
+});
+
+export const POST = secureRoute.mutationWithParams<z.ZodVoid, { id: string }>({
+  feature: Feature.MANAGE_CLIENT_ACCEPTANCE,
+  handler: async (request, { params }) => {
+    const clientId = await getClientId(params.id);
+
+    const continuance = await startClientContinuance(clientId, 'MANUAL');
+
+    return NextResponse.json(successResponse(continuance), { status: 201 });
+  },
+});
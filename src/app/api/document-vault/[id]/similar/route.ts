@@ -0,0 +1,31 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute } from '@/lib/api/secureRoute';
+import { Feature } from '@/lib/permissions/features';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { findSimilarVaultDocuments } from '@/lib/services/document-vault/documentVaultSearch';
+
+const SimilarQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+/**
+ * GET /api/document-vault/[id]/similar
+ * Published documents with similar wording, from the local embedding index
+ */
+export const GET = secureRoute.queryWithParams<{ id: string }>({
+  feature: Feature.ACCESS_DOCUMENT_VAULT,
+  handler: async (request, { user, params }) => {
+    const documentId = parseNumericId(params.id, 'Document');
+    const { searchParams } = new URL(request.url);
+    const { limit } = SimilarQuerySchema.parse({
+      limit: searchParams.get('limit') ?? undefined,
+    });
+
+    const result = await findSimilarVaultDocuments(user.id, documentId, limit);
+
+    return NextResponse.json(successResponse(result));
+  },
+});
@@ -7,6 +7,7 @@ import { successResponse } from '@/lib/utils/apiUtils';
 import { uploadVaultDocument } from '@/lib/services/documents/blobStorage';
 import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
 import { invalidateDocumentVaultCache } from '@/lib/services/document-vault/documentVaultCache';
+import { refreshVaultDocumentIndex } from '@/lib/services/document-vault/documentVaultSearch';
 import { SystemRole } from '@/types';
 
 /**
@@ -228,6 +229,9 @@ export const PATCH = secureRoute.fileUpload({
       },
     });
 
+    // Re-index title, description and tags changes
+    await refreshVaultDocumentIndex(documentId);
+
     // Invalidate cache
     await invalidateDocumentVaultCache(documentId, document.serviceLine || undefined);
 
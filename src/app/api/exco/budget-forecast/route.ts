@@ -0,0 +1,43 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getBudgetForecast } from '@/lib/services/exco/budgetForecast';
+
+const budgetForecastQuerySchema = z.object({
+  serviceLine: z.string().min(1).max(50).optional(),
+  budgetCode: z.string().min(1).max(10).optional(),
+});
+
+/**
+ * GET /api/exco/budget-forecast
+ * GL fee budget vs actual and forecast billings by month, with task overrun projections
+ *
+ * Query Parameters:
+ * - fiscalYear: Fiscal year (defaults to current)
+ * - fiscalQuarter: Quarter 1-4
+ * - fiscalMonth: Fiscal month 1-12 (takes precedence over quarter)
+ * - serviceLine: Master service line code - scopes the report
+ * - budgetCode: GL budget version (defaults to the first for the year)
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseExcoPeriodParams(searchParams);
+    const { serviceLine, budgetCode } = budgetForecastQuerySchema.parse({
+      serviceLine: searchParams.get('serviceLine') || undefined,
+      budgetCode: searchParams.get('budgetCode') || undefined,
+    });
+
+    const report = await getBudgetForecast(period, serviceLine, budgetCode);
+
+    return NextResponse.json(successResponse(report));
+  },
+});
@@ -0,0 +1,29 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getClientPortfolioReport } from '@/lib/services/exco/clientPortfolio';
+
+/**
+ * GET /api/exco/client-portfolio
+ * Fee concentration, client churn and cross-sell coverage with prior fiscal year comparison
+ *
+ * Query Parameters:
+ * - fiscalYear: Fiscal year (defaults to current)
+ * - fiscalQuarter: Quarter 1-4
+ * - fiscalMonth: Fiscal month 1-12 (takes precedence over quarter)
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const period = parseExcoPeriodParams(request.nextUrl.searchParams);
+    const report = await getClientPortfolioReport(period);
+
+    return NextResponse.json(successResponse(report));
+  },
+});
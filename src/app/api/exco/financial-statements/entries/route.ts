@@ -0,0 +1,47 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getStatementEntries } from '@/lib/services/exco/financialStatements';
+
+const statementEntriesQuerySchema = z.object({
+  statement: z.enum(['INCOME_STATEMENT', 'BALANCE_SHEET']),
+  drillKey: z.string().regex(/^(L\d+|C.{0,30})$/),
+  range: z.enum(['MONTH', 'QTD', 'YTD']).default('YTD'),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+/**
+ * GET /api/exco/financial-statements/entries
+ * GL entries behind a financial statement line, newest first
+ *
+ * Query Parameters:
+ * - fiscalYear / fiscalQuarter / fiscalMonth: Statement period
+ * - statement: INCOME_STATEMENT or BALANCE_SHEET
+ * - drillKey: Row drill key (`L<lineId>`, or `C<category>` for unmapped accounts)
+ * - range: MONTH, QTD or YTD (income statement; balance sheet lines use YTD)
+ * - page: Page number (50 entries per page)
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseExcoPeriodParams(searchParams);
+    const { statement, drillKey, range, page } = statementEntriesQuerySchema.parse({
+      statement: searchParams.get('statement') || undefined,
+      drillKey: searchParams.get('drillKey') || undefined,
+      range: searchParams.get('range') || undefined,
+      page: searchParams.get('page') || undefined,
+    });
+
+    const entries = await getStatementEntries(statement, drillKey, period, range, page);
+
+    return NextResponse.json(successResponse(entries));
+  },
+});
@@ -0,0 +1,40 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getIncomeStatement } from '@/lib/services/exco/financialStatements';
+
+const incomeStatementQuerySchema = z.object({
+  budgetCode: z.string().min(1).max(10).optional(),
+});
+
+/**
+ * GET /api/exco/financial-statements/income-statement
+ * Income statement for the month, quarter and year to date against GL budget and prior year
+ *
+ * Query Parameters:
+ * - fiscalYear: Fiscal year (defaults to current)
+ * - fiscalQuarter: Quarter 1-4 - drawn to the quarter's last month
+ * - fiscalMonth: Fiscal month 1-12 (takes precedence over quarter)
+ * - budgetCode: GL budget version (defaults to the first for the year)
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseExcoPeriodParams(searchParams);
+    const { budgetCode } = incomeStatementQuerySchema.parse({
+      budgetCode: searchParams.get('budgetCode') || undefined,
+    });
+
+    const report = await getIncomeStatement(period, budgetCode);
+
+    return NextResponse.json(successResponse(report));
+  },
+});
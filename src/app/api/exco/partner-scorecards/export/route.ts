@@ -0,0 +1,35 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getPartnerScorecards } from '@/lib/services/exco/partnerScorecards';
+import { ExcelExporter } from '@/lib/services/export/excelExporter';
+
+/**
+ * GET /api/exco/partner-scorecards/export
+ * Download partner scorecards as an Excel workbook
+ *
+ * Accepts the same period parameters as /api/exco/partner-scorecards
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const period = parseExcoPeriodParams(request.nextUrl.searchParams);
+    const report = await getPartnerScorecards(period);
+
+    const buffer = await ExcelExporter.exportPartnerScorecards(report);
+    const fileName = ExcelExporter.generateReportFileName('Partner_Scorecards', report.period.label);
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': buffer.length.toString(),
+      },
+    });
+  },
+});
@@ -0,0 +1,29 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getPipelineReport } from '@/lib/services/exco/pipelineOverview';
+
+/**
+ * GET /api/exco/pipeline
+ * Open pipeline coverage of the period's fee target, stage velocity and ageing
+ *
+ * Query Parameters:
+ * - fiscalYear: Fiscal year (defaults to current)
+ * - fiscalQuarter: Quarter 1-4
+ * - fiscalMonth: Fiscal month 1-12 (takes precedence over quarter)
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const period = parseExcoPeriodParams(request.nextUrl.searchParams);
+    const report = await getPipelineReport(period);
+
+    return NextResponse.json(successResponse(report));
+  },
+});
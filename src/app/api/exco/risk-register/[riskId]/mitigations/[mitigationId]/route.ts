@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { parseNumericId, successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { deleteRiskMitigation, updateRiskMitigation } from '@/lib/services/exco/riskRegisterService';
+import { UpdateRiskMitigationSchema } from '@/lib/validation/schemas';
+
+type MitigationParams = { riskId: string; mitigationId: string };
+
+/**
+ * PATCH /api/exco/risk-register/[riskId]/mitigations/[mitigationId]
+ * Update a mitigating action - returns the updated risk
+ */
+export const PATCH = secureRoute.mutationWithParams<typeof UpdateRiskMitigationSchema, MitigationParams>({
+  feature: Feature.ACCESS_DASHBOARD,
+  schema: UpdateRiskMitigationSchema,
+  handler: async (request, { user, data, params }) => {
+    await requireExcoAccess(user);
+    const riskId = parseNumericId(params.riskId, 'Risk');
+    const mitigationId = parseNumericId(params.mitigationId, 'Mitigation');
+
+    const risk = await updateRiskMitigation(riskId, mitigationId, data);
+
+    return NextResponse.json(successResponse(risk));
+  },
+});
+
+/**
+ * DELETE /api/exco/risk-register/[riskId]/mitigations/[mitigationId]
+ * Remove a mitigating action - returns the updated risk
+ */
+export const DELETE = secureRoute.mutationWithParams<never, MitigationParams>({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user, params }) => {
+    await requireExcoAccess(user);
+    const riskId = parseNumericId(params.riskId, 'Risk');
+    const mitigationId = parseNumericId(params.mitigationId, 'Mitigation');
+
+    const risk = await deleteRiskMitigation(riskId, mitigationId);
+
+    return NextResponse.json(successResponse(risk));
+  },
+});
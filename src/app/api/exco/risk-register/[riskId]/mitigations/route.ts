@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { parseNumericId, successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { addRiskMitigation } from '@/lib/services/exco/riskRegisterService';
+import { CreateRiskMitigationSchema } from '@/lib/validation/schemas';
+
+/**
+ * POST /api/exco/risk-register/[riskId]/mitigations
+ * Add a mitigating action - returns the updated risk
+ */
+export const POST = secureRoute.mutationWithParams<typeof CreateRiskMitigationSchema, { riskId: string }>({
+  feature: Feature.ACCESS_DASHBOARD,
+  schema: CreateRiskMitigationSchema,
+  handler: async (request, { user, data, params }) => {
+    await requireExcoAccess(user);
+    const riskId = parseNumericId(params.riskId, 'Risk');
+
+    const risk = await addRiskMitigation(riskId, data, user);
+
+    return NextResponse.json(successResponse(risk), { status: 201 });
+  },
+});
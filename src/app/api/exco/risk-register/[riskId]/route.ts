@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { parseNumericId, successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { deleteRiskEntry, updateRiskEntry } from '@/lib/services/exco/riskRegisterService';
+import { UpdateRiskEntrySchema } from '@/lib/validation/schemas';
+
+/**
+ * PATCH /api/exco/risk-register/[riskId]
+ * Update a risk, or mark it reviewed
+ */
+export const PATCH = secureRoute.mutationWithParams<typeof UpdateRiskEntrySchema, { riskId: string }>({
+  feature: Feature.ACCESS_DASHBOARD,
+  schema: UpdateRiskEntrySchema,
+  handler: async (request, { user, data, params }) => {
+    await requireExcoAccess(user);
+    const riskId = parseNumericId(params.riskId, 'Risk');
+
+    const risk = await updateRiskEntry(riskId, data, user);
+
+    return NextResponse.json(successResponse(risk));
+  },
+});
+
+/**
+ * DELETE /api/exco/risk-register/[riskId]
+ * Delete a manually raised risk
+ */
+export const DELETE = secureRoute.mutationWithParams<never, { riskId: string }>({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user, params }) => {
+    await requireExcoAccess(user);
+    const riskId = parseNumericId(params.riskId, 'Risk');
+
+    await deleteRiskEntry(riskId);
+
+    return NextResponse.json(successResponse({ deleted: true }));
+  },
+});
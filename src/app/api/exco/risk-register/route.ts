@@ -0,0 +1,51 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { createRiskEntry, getRiskRegister } from '@/lib/services/exco/riskRegisterService';
+import { CreateRiskEntrySchema, RiskRegisterFilterSchema } from '@/lib/validation/schemas';
+
+/**
+ * GET /api/exco/risk-register
+ * Risk register entries with heat map and summary
+ *
+ * Query Parameters:
+ * - serviceLine: Master service line code
+ * - category: Risk category
+ * - status: OPEN, MITIGATING, ACCEPTED, CLOSED, ACTIVE (default - all but closed) or ALL
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const searchParams = request.nextUrl.searchParams;
+    const filter = RiskRegisterFilterSchema.parse({
+      serviceLine: searchParams.get('serviceLine') || undefined,
+      category: searchParams.get('category') || undefined,
+      status: searchParams.get('status') || undefined,
+    });
+
+    const register = await getRiskRegister(filter);
+
+    return NextResponse.json(successResponse(register));
+  },
+});
+
+/**
+ * POST /api/exco/risk-register
+ * Raise a risk manually
+ */
+export const POST = secureRoute.mutation({
+  feature: Feature.ACCESS_DASHBOARD,
+  schema: CreateRiskEntrySchema,
+  handler: async (request, { user, data }) => {
+    await requireExcoAccess(user);
+
+    const risk = await createRiskEntry(data, user);
+
+    return NextResponse.json(successResponse(risk), { status: 201 });
+  },
+});
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { syncRiskRegister } from '@/lib/services/exco/riskRegisterService';
+
+/**
+ * POST /api/exco/risk-register/sync
+ * Seed risks from current signals now rather than waiting for the nightly job
+ */
+export const POST = secureRoute.mutation({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const result = await syncRiskRegister();
+
+    return NextResponse.json(successResponse(result));
+  },
+});
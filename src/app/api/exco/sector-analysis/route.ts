@@ -0,0 +1,43 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getSectorAnalysis } from '@/lib/services/exco/sectorAnalysis';
+
+const sectorQuerySchema = z.object({
+  dimension: z.enum(['industry', 'sector']).default('industry'),
+  industry: z.string().min(1).max(255).optional(),
+});
+
+/**
+ * GET /api/exco/sector-analysis
+ * Fees by client industry or sector with prior fiscal year comparison and five-year mix
+ *
+ * Query Parameters:
+ * - fiscalYear: Fiscal year (defaults to current)
+ * - fiscalQuarter: Quarter 1-4
+ * - fiscalMonth: Fiscal month 1-12 (takes precedence over quarter)
+ * - dimension: industry (default) or sector
+ * - industry: Industry to drill into - breaks it down by sector
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseExcoPeriodParams(searchParams);
+    const { dimension, industry } = sectorQuerySchema.parse({
+      dimension: searchParams.get('dimension') || undefined,
+      industry: searchParams.get('industry') || undefined,
+    });
+
+    const report = await getSectorAnalysis(period, dimension, industry);
+
+    return NextResponse.json(successResponse(report));
+  },
+});
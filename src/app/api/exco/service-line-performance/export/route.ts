@@ -0,0 +1,44 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getServiceLineLeague } from '@/lib/services/exco/serviceLinePerformance';
+import { generateServiceLineLeaguePDF } from '@/lib/services/export/serverPdfExporter';
+
+const levelParamSchema = z.enum(['serviceLine', 'subServiceLineGroup']).default('serviceLine');
+
+/**
+ * GET /api/exco/service-line-performance/export
+ * Download the service line league table as a PDF pack
+ *
+ * Accepts the same parameters as /api/exco/service-line-performance
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseExcoPeriodParams(searchParams);
+    const level = levelParamSchema.parse(searchParams.get('level') || undefined);
+
+    const report = await getServiceLineLeague(period, level);
+
+    const pdfBlob = await generateServiceLineLeaguePDF(report);
+    const buffer = Buffer.from(await pdfBlob.arrayBuffer());
+    const periodLabel = report.period.label.replace(/[^a-zA-Z0-9]/g, '_');
+    const fileName = `Service_Line_Performance_${periodLabel}_${format(new Date(), 'yyyy-MM-dd')}.pdf`;
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': buffer.length.toString(),
+      },
+    });
+  },
+});
@@ -0,0 +1,37 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getServiceLineLeague } from '@/lib/services/exco/serviceLinePerformance';
+
+const levelParamSchema = z.enum(['serviceLine', 'subServiceLineGroup']).default('serviceLine');
+
+/**
+ * GET /api/exco/service-line-performance
+ * Service line league table ranked on revenue, margin, recoverability,
+ * utilization, lock-up and review note turnaround
+ *
+ * Query Parameters:
+ * - fiscalYear: Fiscal year (defaults to current)
+ * - fiscalQuarter: Quarter 1-4
+ * - fiscalMonth: Fiscal month 1-12 (takes precedence over quarter)
+ * - level: serviceLine (default) or subServiceLineGroup
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseExcoPeriodParams(searchParams);
+    const level = levelParamSchema.parse(searchParams.get('level') || undefined);
+
+    const report = await getServiceLineLeague(period, level);
+
+    return NextResponse.json(successResponse(report));
+  },
+});
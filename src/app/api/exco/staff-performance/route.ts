@@ -0,0 +1,34 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getStaffPerformance } from '@/lib/services/exco/staffPerformance';
+
+/**
+ * GET /api/exco/staff-performance
+ * Per-employee utilization, task roles, planned vs actual hours and review
+ * notes with grade peer comparisons - limited to the staff the user leads
+ *
+ * A user leads the staff whose master service line is linked to one of their
+ * leader groups (admin Leaders page); Country Management covers every service
+ * line. Members of groups with no linked service lines get a 403.
+ *
+ * Query Parameters:
+ * - fiscalYear: Fiscal year (defaults to current)
+ * - fiscalQuarter: Quarter 1-4
+ * - fiscalMonth: Fiscal month 1-12 (takes precedence over quarter)
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const period = parseExcoPeriodParams(request.nextUrl.searchParams);
+    const report = await getStaffPerformance(period, user);
+
+    return NextResponse.json(successResponse(report));
+  },
+});
@@ -0,0 +1,36 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { getUtilizationReport } from '@/lib/services/exco/utilizationReport';
+
+const serviceLineParamSchema = z.string().min(1).max(50).optional();
+
+/**
+ * GET /api/exco/utilization
+ * Firm-wide staff utilization for a fiscal period
+ *
+ * Query Parameters:
+ * - fiscalYear: Fiscal year (defaults to current)
+ * - fiscalQuarter: Quarter 1-4
+ * - fiscalMonth: Fiscal month 1-12 (takes precedence over quarter)
+ * - serviceLine: Master service line code - scopes the report and returns staff rows
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseExcoPeriodParams(searchParams);
+    const serviceLine = serviceLineParamSchema.parse(searchParams.get('serviceLine') || undefined);
+
+    const report = await getUtilizationReport(period, serviceLine);
+
+    return NextResponse.json(successResponse(report));
+  },
+});
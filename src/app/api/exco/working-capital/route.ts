@@ -0,0 +1,46 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { parseExcoPeriodParams } from '@/lib/services/exco/excoPeriod';
+import { DEFAULT_TOP_CLIENTS, getLockupReport } from '@/lib/services/exco/lockupReport';
+
+const lockupQuerySchema = z.object({
+  dimension: z.enum(['serviceLine', 'partner', 'group']).default('serviceLine'),
+  serviceLine: z.string().min(1).max(50).optional(),
+  topN: z.coerce.number().int().min(1).max(50).default(DEFAULT_TOP_CLIENTS),
+});
+
+/**
+ * GET /api/exco/working-capital
+ * Monthly lock-up (WIP days + debtor days) with period-end breakdown and worst clients
+ *
+ * Query Parameters:
+ * - fiscalYear: Fiscal year (defaults to current)
+ * - fiscalQuarter: Quarter 1-4
+ * - fiscalMonth: Fiscal month 1-12 (takes precedence over quarter)
+ * - dimension: serviceLine (default), partner or group
+ * - serviceLine: Master service line code - scopes the report
+ * - topN: Number of worst clients (default 10, max 50)
+ */
+export const GET = secureRoute.query({
+  feature: Feature.ACCESS_DASHBOARD,
+  handler: async (request, { user }) => {
+    await requireExcoAccess(user);
+
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseExcoPeriodParams(searchParams);
+    const { dimension, serviceLine, topN } = lockupQuerySchema.parse({
+      dimension: searchParams.get('dimension') || undefined,
+      serviceLine: searchParams.get('serviceLine') || undefined,
+      topN: searchParams.get('topN') || undefined,
+    });
+
+    const report = await getLockupReport(period, dimension, serviceLine, topN);
+
+    return NextResponse.json(successResponse(report));
+  },
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { requireExcoAccess } from '@/lib/services/exco/excoAccess';
+import { setLockupTarget } from '@/lib/services/exco/lockupReport';
+import { LockupTargetSchema } from '@/lib/validation/schemas';
+
+/**
+ * PUT /api/exco/working-capital/targets
+ * Set or clear (targetDays: null) a service line's lock-up target
+ */
+export const PUT = secureRoute.mutation({
+  feature: Feature.ACCESS_DASHBOARD,
+  schema: LockupTargetSchema,
+  handler: async (request, { user, data }) => {
+    await requireExcoAccess(user);
+
+    const target = await setLockupTarget(data);
+
+    return NextResponse.json(successResponse(target));
+  },
+});
@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import ExcelJS from 'exceljs';
 import { generateObject } from 'ai';
 import { models } from '@/lib/ai/config';
-import { AccountMappingSchema } from '@/lib/ai/schemas';
+import { AccountMappingSchema, type AccountMapping } from '@/lib/ai/schemas';
 import { mappingGuide } from '@/lib/services/tasks/mappingGuide';
+import { MAPPING_CONFIDENCE_THRESHOLD, suggestAccountMappings } from '@/lib/services/tasks/mappingSuggestionService';
 import { prisma } from '@/lib/db/prisma';
 import { logger } from '@/lib/utils/logger';
 import { determineSectionAndSubsection } from '@/lib/tools/tax-opinion/services/sectionMapper';
@@ -42,53 +43,7 @@ function sheetToJson(worksheet: ExcelJS.Worksheet): Record<string, unknown>[] {
   return data;
 }
 
-async function handleStreamingRequest(trialBalanceFile: File, taskId: number, userId: string) {
-  const encoder = new TextEncoder();
-
-  const stream = new ReadableStream({
-    async start(controller) {
-      try {
-        // Helper function to send progress updates
-        const sendProgress = (stage: number, status: 'in-progress' | 'complete', message: string) => {
-          const data = JSON.stringify({ stage, status, message });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-        };
-
-        // Stage 1: Parse Trial Balance
-        sendProgress(1, 'in-progress', 'Parsing trial balance file...');
-        const trialBalanceBuffer = await trialBalanceFile.arrayBuffer();
-        const workbook = new ExcelJS.Workbook();
-        await workbook.xlsx.load(trialBalanceBuffer);
-
-        const worksheet = workbook.worksheets[0];
-        if (!worksheet) {
-          throw new Error('No sheets found in the trial balance file');
-        }
-
-        const trialBalanceData = sheetToJson(worksheet);
-
-        // Split trial balance data
-        const incomeStatementData = trialBalanceData.filter(
-          (row) => {
-            const section = row['Section'];
-            return typeof section === 'string' && section.toLowerCase() === 'income statement';
-          }
-        );
-        const balanceSheetData = trialBalanceData.filter(
-          (row) => {
-            const section = row['Section'];
-            return typeof section === 'string' && section.toLowerCase() === 'balance sheet';
-          }
-        );
-        sendProgress(1, 'complete', 'Trial balance parsed successfully');
-
-        // Stage 2: Map Income Statement
-        sendProgress(2, 'in-progress', 'Mapping Income Statement accounts with AI...');
-        const incomeStatementPrompt = generatePrompt(incomeStatementData, mappingGuide.incomeStatement, 'Income Statement');
-        const { object: incomeStatementResult } = await generateObject({
-          model: models.mini,
-          schema: AccountMappingSchema,
-          system: `You are an expert accounting assistant specializing in mapping trial balance accounts to SARS tax categories.
+const INCOME_STATEMENT_SYSTEM_PROMPT = `You are an expert accounting assistant specializing in mapping trial balance accounts to SARS tax categories.
 
 <task>
 Your task is to analyze trial balance data and map each account to the appropriate SARS category (sarsItem) based on the provided mapping guide.
@@ -112,19 +67,9 @@ Do not include any explanation, commentary, or text outside the JSON array.
 - Preserve original account details exactly as provided, including both Balance and Prior Year Balance
 - Ensure all balance values are numbers, not strings
 - If Prior Year Balance column is missing, set priorYearBalance to 0
-</instructions>`,
-          prompt: incomeStatementPrompt,
-        });
-        const incomeStatementMapped = incomeStatementResult.accounts;
-        sendProgress(2, 'complete', 'Income Statement mapped successfully');
+</instructions>`;
 
-        // Stage 3: Map Balance Sheet
-        sendProgress(3, 'in-progress', 'Mapping Balance Sheet accounts with AI...');
-        const balanceSheetPrompt = generatePrompt(balanceSheetData, mappingGuide.balanceSheet, 'Balance Sheet');
-        const { object: balanceSheetResult } = await generateObject({
-          model: models.mini,
-          schema: AccountMappingSchema,
-          system: `You are an expert accounting assistant specializing in mapping trial balance accounts to SARS tax categories.
+const BALANCE_SHEET_SYSTEM_PROMPT = `You are an expert accounting assistant specializing in mapping trial balance accounts to SARS tax categories.
 
 <task>
 Your task is to analyze trial balance data and map each account to the appropriate SARS category (sarsItem) based on the provided mapping guide.
@@ -148,11 +93,168 @@ Do not include any explanation, commentary, or text outside the JSON array.
 - Preserve original account details exactly as provided, including both Balance and Prior Year Balance
 - Ensure all balance values are numbers, not strings
 - If Prior Year Balance column is missing, set priorYearBalance to 0
-</instructions>`,
-          prompt: balanceSheetPrompt,
+</instructions>`;
+
+type MappedRow = AccountMapping['accounts'][number];
+
+interface MappingContext {
+  taskId: number;
+  GSClientID: string | null;
+}
+
+// Resolve ExcelJS cell values (formulas, rich text) to plain values
+function cellValue(value: unknown): unknown {
+  if (value && typeof value === 'object') {
+    if ('result' in value) return value.result;
+    if ('richText' in value && Array.isArray(value.richText)) {
+      return value.richText.map((part: { text?: string }) => part.text ?? '').join('');
+    }
+  }
+  return value;
+}
+
+function cellText(value: unknown): string {
+  const resolved = cellValue(value);
+  return resolved === null || resolved === undefined ? '' : String(resolved).trim();
+}
+
+function cellNumber(value: unknown): number {
+  const resolved = Number(cellValue(value));
+  return Number.isFinite(resolved) ? resolved : 0;
+}
+
+/**
+ * Map rows that closely match previously reviewed mappings without AI
+ * Returns the rows that still need AI mapping.
+ */
+async function mapFromHistory(
+  rows: Record<string, unknown>[],
+  section: string,
+  context: MappingContext
+): Promise<{ mapped: MappedRow[]; remaining: Record<string, unknown>[] }> {
+  if (rows.length === 0) return { mapped: [], remaining: [] };
+
+  const suggestions = await suggestAccountMappings(
+    rows.map((row) => ({
+      accountCode: cellText(row['Account Code']),
+      accountName: cellText(row['Account Name']),
+      section,
+      balance: cellNumber(row['Balance']),
+    })),
+    { GSClientID: context.GSClientID, excludeTaskId: context.taskId }
+  );
+
+  const mapped: MappedRow[] = [];
+  const remaining: Record<string, unknown>[] = [];
+
+  rows.forEach((row, index) => {
+    const suggestion = suggestions[index];
+    if (suggestion?.sarsItem && suggestion.accountCode && suggestion.confidence >= MAPPING_CONFIDENCE_THRESHOLD) {
+      mapped.push({
+        accountCode: suggestion.accountCode,
+        accountName: suggestion.accountName,
+        balance: cellNumber(row['Balance']),
+        priorYearBalance: cellNumber(row['Prior Year Balance']),
+        sarsItem: suggestion.sarsItem,
+      });
+    } else {
+      remaining.push(row);
+    }
+  });
+
+  return { mapped, remaining };
+}
+
+// AI mapping for rows history could not map confidently
+async function mapWithAI(
+  rows: Record<string, unknown>[],
+  guide: Record<string, unknown>,
+  section: string,
+  system: string
+): Promise<MappedRow[]> {
+  if (rows.length === 0) return [];
+
+  const { object } = await generateObject({
+    model: models.mini,
+    schema: AccountMappingSchema,
+    system,
+    prompt: generatePrompt(rows, guide, section),
+  });
+  return object.accounts;
+}
+
+async function handleStreamingRequest(trialBalanceFile: File, context: MappingContext, userId: string) {
+  const { taskId } = context;
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        // Helper function to send progress updates
+        const sendProgress = (stage: number, status: 'in-progress' | 'complete', message: string) => {
+          const data = JSON.stringify({ stage, status, message });
+          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+        };
+
+        // Stage 1: Parse Trial Balance
+        sendProgress(1, 'in-progress', 'Parsing trial balance file...');
+        const trialBalanceBuffer = await trialBalanceFile.arrayBuffer();
+        const workbook = new ExcelJS.Workbook();
+        await workbook.xlsx.load(trialBalanceBuffer);
+
+        const worksheet = workbook.worksheets[0];
+        if (!worksheet) {
+          throw new Error('No sheets found in the trial balance file');
+        }
+
+        const trialBalanceData = sheetToJson(worksheet);
+
+        // Split trial balance data
+        const incomeStatementData = trialBalanceData.filter(
+          (row) => {
+            const section = row['Section'];
+            return typeof section === 'string' && section.toLowerCase() === 'income statement';
+          }
+        );
+        const balanceSheetData = trialBalanceData.filter(
+          (row) => {
+            const section = row['Section'];
+            return typeof section === 'string' && section.toLowerCase() === 'balance sheet';
+          }
+        );
+        sendProgress(1, 'complete', 'Trial balance parsed successfully');
+
+        // Stage 2: Map Income Statement
+        sendProgress(2, 'in-progress', 'Matching Income Statement accounts to previous mappings...');
+        const incomeStatementHistory = await mapFromHistory(incomeStatementData, 'Income Statement', context);
+        logger.info('Processing Income Statement', {
+          rowCount: incomeStatementData.length,
+          fromHistory: incomeStatementHistory.mapped.length,
+          userId,
         });
-        const balanceSheetMapped = balanceSheetResult.accounts;
-        sendProgress(3, 'complete', 'Balance Sheet mapped successfully');
+        sendProgress(2, 'in-progress', `Mapping ${incomeStatementHistory.remaining.length} remaining Income Statement accounts with AI...`);
+        const incomeStatementMapped = [
+          ...incomeStatementHistory.mapped,
+          ...(await mapWithAI(incomeStatementHistory.remaining, mappingGuide.incomeStatement, 'Income Statement', INCOME_STATEMENT_SYSTEM_PROMPT)),
+        ];
+        logger.info('Income Statement accounts mapped', { count: incomeStatementMapped.length, userId });
+        sendProgress(2, 'complete', `Income Statement mapped successfully (${incomeStatementHistory.mapped.length} from previous mappings)`);
+
+        // Stage 3: Map Balance Sheet
+        sendProgress(3, 'in-progress', 'Matching Balance Sheet accounts to previous mappings...');
+        const balanceSheetHistory = await mapFromHistory(balanceSheetData, 'Balance Sheet', context);
+        logger.info('Processing Balance Sheet', {
+          rowCount: balanceSheetData.length,
+          fromHistory: balanceSheetHistory.mapped.length,
+          userId,
+        });
+        sendProgress(3, 'in-progress', `Mapping ${balanceSheetHistory.remaining.length} remaining Balance Sheet accounts with AI...`);
+        const balanceSheetMapped = [
+          ...balanceSheetHistory.mapped,
+          ...(await mapWithAI(balanceSheetHistory.remaining, mappingGuide.balanceSheet, 'Balance Sheet', BALANCE_SHEET_SYSTEM_PROMPT)),
+        ];
+        logger.info('Balance Sheet accounts mapped', { count: balanceSheetMapped.length, userId });
+        sendProgress(3, 'complete', `Balance Sheet mapped successfully (${balanceSheetHistory.mapped.length} from previous mappings)`);
 
         // Stage 4: Save to database
         sendProgress(4, 'in-progress', 'Saving mapped accounts to database...');
@@ -202,6 +304,7 @@ Do not include any explanation, commentary, or text outside the JSON array.
 
         controller.close();
       } catch (error) {
+        logger.error('Streaming mapping failed', { error, taskId, userId });
         const errorData = JSON.stringify({
           type: 'error',
           message: error instanceof Error ? error.message : 'Unknown error'
@@ -272,7 +375,7 @@ export async function POST(request: NextRequest) {
     // Verify task exists
     const task = await prisma.task.findUnique({
       where: { id: taskId },
-      select: { id: true },
+      select: { id: true, GSClientID: true },
     });
 
     if (!task) {
@@ -281,7 +384,7 @@ export async function POST(request: NextRequest) {
 
     // If streaming is requested, return a streaming response
     if (streamProgress) {
-      return handleStreamingRequest(trialBalanceFile, taskId, user.id);
+      return handleStreamingRequest(trialBalanceFile, { taskId, GSClientID: task.GSClientID }, user.id);
     }
 
     // Parse Trial Balance
@@ -310,43 +413,23 @@ export async function POST(request: NextRequest) {
       }
     );
 
-    // Process Income Statement first
-    logger.info('Processing Income Statement', { rowCount: incomeStatementData.length, userId: user.id });
-    const incomeStatementPrompt = generatePrompt(incomeStatementData, mappingGuide.incomeStatement, 'Income Statement');
-    logger.info('Calling AI SDK for Income Statement', { userId: user.id });
-    let incomeStatementResult;
-    try {
-      const result = await generateObject({
-        model: models.mini,
-        schema: AccountMappingSchema,
-        system: `You are an expert accounting assistant specializing in mapping trial balance accounts to SARS tax categories.
-
-<task>
-Your task is to analyze trial balance data and map each account to the appropriate SARS category (sarsItem) based on the provided mapping guide.
-</task>
-
-<output_format>
-Return a valid JSON array where each object contains:
-- accountCode: string
-- accountName: string
-- balance: number (not string)
-- priorYearBalance: number (not string, defaults to 0 if missing)
-- sarsItem: string
-
-Do not include any explanation, commentary, or text outside the JSON array.
-</output_format>
+    const mappingContext: MappingContext = { taskId, GSClientID: task.GSClientID };
 
-<instructions>
-- Match accounts to the most appropriate sarsItem based on account name and current year balance
-- CRITICAL: You MUST use ONLY the exact sarsItem values provided in the mapping guide - do not create new categories
-- If no perfect match exists, use the most appropriate "Other" category from the mapping guide
-- Preserve original account details exactly as provided, including both Balance and Prior Year Balance
-- Ensure all balance values are numbers, not strings
-- If Prior Year Balance column is missing, set priorYearBalance to 0
-</instructions>`,
-        prompt: incomeStatementPrompt,
-      });
-      incomeStatementResult = result.object;
+    // Process Income Statement first - previously mapped accounts skip AI
+    const incomeStatementHistory = await mapFromHistory(incomeStatementData, 'Income Statement', mappingContext);
+    logger.info('Processing Income Statement', {
+      rowCount: incomeStatementData.length,
+      fromHistory: incomeStatementHistory.mapped.length,
+      userId: user.id,
+    });
+    let incomeStatementAIMapped: MappedRow[];
+    try {
+      incomeStatementAIMapped = await mapWithAI(
+        incomeStatementHistory.remaining,
+        mappingGuide.incomeStatement,
+        'Income Statement',
+        INCOME_STATEMENT_SYSTEM_PROMPT
+      );
     } catch (apiError) {
       const errorDetails = apiError && typeof apiError === 'object' ? {
         message: 'message' in apiError ? apiError.message : undefined,
@@ -361,47 +444,20 @@ Do not include any explanation, commentary, or text outside the JSON array.
       throw new Error(`AI SDK Error: ${errorMessage}`);
     }
 
-    logger.info('Income Statement mapping completed', { userId: user.id });
-    const incomeStatementMapped = incomeStatementResult.accounts;
+    const incomeStatementMapped = [...incomeStatementHistory.mapped, ...incomeStatementAIMapped];
     logger.info('Income Statement accounts mapped', { count: incomeStatementMapped.length, userId: user.id });
 
     // Process Balance Sheet
-    logger.info('Processing Balance Sheet', { rowCount: balanceSheetData.length, userId: user.id });
-    const balanceSheetPrompt = generatePrompt(balanceSheetData, mappingGuide.balanceSheet, 'Balance Sheet');
-    logger.info('Calling AI SDK for Balance Sheet', { userId: user.id });
-    const { object: balanceSheetResult } = await generateObject({
-      model: models.mini,
-      schema: AccountMappingSchema,
-      system: `You are an expert accounting assistant specializing in mapping trial balance accounts to SARS tax categories.
-
-<task>
-Your task is to analyze trial balance data and map each account to the appropriate SARS category (sarsItem) based on the provided mapping guide.
-</task>
-
-<output_format>
-Return a valid JSON array where each object contains:
-- accountCode: string
-- accountName: string
-- balance: number (not string)
-- priorYearBalance: number (not string, defaults to 0 if missing)
-- sarsItem: string
-
-Do not include any explanation, commentary, or text outside the JSON array.
-</output_format>
-
-<instructions>
-- Match accounts to the most appropriate sarsItem based on account name and mapping guide
-- CRITICAL: You MUST use ONLY the exact sarsItem values provided in the mapping guide - do not create new categories
-- If no perfect match exists, use the most appropriate "Other" category from the mapping guide
-- Preserve original account details exactly as provided, including both Balance and Prior Year Balance
-- Ensure all balance values are numbers, not strings
-- If Prior Year Balance column is missing, set priorYearBalance to 0
-</instructions>`,
-      prompt: balanceSheetPrompt,
+    const balanceSheetHistory = await mapFromHistory(balanceSheetData, 'Balance Sheet', mappingContext);
+    logger.info('Processing Balance Sheet', {
+      rowCount: balanceSheetData.length,
+      fromHistory: balanceSheetHistory.mapped.length,
+      userId: user.id,
     });
-
-    logger.info('Balance Sheet mapping completed', { userId: user.id });
-    const balanceSheetMapped = balanceSheetResult.accounts;
+    const balanceSheetMapped = [
+      ...balanceSheetHistory.mapped,
+      ...(await mapWithAI(balanceSheetHistory.remaining, mappingGuide.balanceSheet, 'Balance Sheet', BALANCE_SHEET_SYSTEM_PROMPT)),
+    ];
     logger.info('Balance Sheet accounts mapped', { count: balanceSheetMapped.length, userId: user.id });
 
     // Combine results
@@ -0,0 +1,36 @@
+/**
+ * Risk Scoring Activation API
+ * POST /api/qrm/risk-scoring/models/[modelId]/activate - Make a simulated draft the active model
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { activateRiskScoringModel } from '@/lib/services/acceptance/riskScoringService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * POST /api/qrm/risk-scoring/models/[modelId]/activate
+ * The previously active model is retired. Questionnaires scored from now on
+ * use the new model; ratings already saved are left as they were.
+ */
+export const POST = secureRoute.mutationWithParams<z.ZodVoid, { modelId: string }>({
+  feature: Feature.MANAGE_RISK_SCORING,
+  handler: async (request, { user, params }) => {
+    const modelId = parseNumericId(params.modelId, 'Risk scoring model');
+
+    const activated = await activateRiskScoringModel(modelId);
+
+    await auditAdminAction(
+      user.id,
+      'RISK_SCORING_MODEL_ACTIVATED',
+      'RISK_SCORING_MODEL',
+      String(modelId),
+      { name: activated.name, retiredModelIds: activated.retired.map((m) => m.id) },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(activated));
+  },
+});
@@ -0,0 +1,85 @@
+/**
+ * Risk Scoring Model API
+ * GET    /api/qrm/risk-scoring/models/[modelId] - Model with its configuration and last simulation
+ * PUT    /api/qrm/risk-scoring/models/[modelId] - Update a draft
+ * DELETE /api/qrm/risk-scoring/models/[modelId] - Delete a draft
+ *
+ * Mutations skip input sanitization: answer scores and knockouts are keyed by
+ * questionnaire answers, which contain quotes and apostrophes and must match
+ * exactly. The risk scoring schemas length-check every field instead.
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { UpdateRiskScoringModelSchema } from '@/lib/validation/schemas';
+import {
+  deleteRiskScoringModel,
+  getRiskScoringModel,
+  updateRiskScoringModel,
+} from '@/lib/services/acceptance/riskScoringService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * GET /api/qrm/risk-scoring/models/[modelId]
+ */
+export const GET = secureRoute.queryWithParams<{ modelId: string }>({
+  feature: Feature.MANAGE_RISK_SCORING,
+  handler: async (_request, { params }) => {
+    const modelId = parseNumericId(params.modelId, 'Risk scoring model');
+    return NextResponse.json(successResponse(await getRiskScoringModel(modelId)));
+  },
+});
+
+/**
+ * PUT /api/qrm/risk-scoring/models/[modelId]
+ * Changing the configuration clears the draft's simulation
+ */
+export const PUT = secureRoute.mutationWithParams<typeof UpdateRiskScoringModelSchema, { modelId: string }>({
+  feature: Feature.MANAGE_RISK_SCORING,
+  schema: UpdateRiskScoringModelSchema,
+  sanitize: false,
+  handler: async (request, { user, data, params }) => {
+    const modelId = parseNumericId(params.modelId, 'Risk scoring model');
+
+    const model = await updateRiskScoringModel(modelId, data);
+
+    await auditAdminAction(
+      user.id,
+      'RISK_SCORING_MODEL_UPDATED',
+      'RISK_SCORING_MODEL',
+      String(modelId),
+      { name: model.name, configChanged: data.config !== undefined },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(model));
+  },
+});
+
+/**
+ * DELETE /api/qrm/risk-scoring/models/[modelId]
+ * Active and retired models are kept as the scoring history
+ */
+export const DELETE = secureRoute.mutationWithParams<z.ZodVoid, { modelId: string }>({
+  feature: Feature.MANAGE_RISK_SCORING,
+  handler: async (request, { user, params }) => {
+    const modelId = parseNumericId(params.modelId, 'Risk scoring model');
+
+    const model = await deleteRiskScoringModel(modelId);
+
+    await auditAdminAction(
+      user.id,
+      'RISK_SCORING_MODEL_DELETED',
+      'RISK_SCORING_MODEL',
+      String(modelId),
+      { name: model.name },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse({ deleted: true }));
+  },
+});
@@ -0,0 +1,35 @@
+/**
+ * Risk Scoring Simulation API
+ * POST /api/qrm/risk-scoring/models/[modelId]/simulate - Re-score historical client acceptances
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseNumericId } from '@/lib/utils/apiUtils';
+import { simulateRiskScoringModel } from '@/lib/services/acceptance/riskScoringService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * POST /api/qrm/risk-scoring/models/[modelId]/simulate
+ * Saved ratings are not changed - the result is stored on the draft only
+ */
+export const POST = secureRoute.mutationWithParams<z.ZodVoid, { modelId: string }>({
+  feature: Feature.MANAGE_RISK_SCORING,
+  handler: async (request, { user, params }) => {
+    const modelId = parseNumericId(params.modelId, 'Risk scoring model');
+
+    const simulation = await simulateRiskScoringModel(modelId);
+
+    await auditAdminAction(
+      user.id,
+      'RISK_SCORING_MODEL_SIMULATED',
+      'RISK_SCORING_MODEL',
+      String(modelId),
+      { total: simulation.total, changed: simulation.changed, knockoutCount: simulation.knockoutCount },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(simulation));
+  },
+});
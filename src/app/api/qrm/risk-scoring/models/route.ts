@@ -0,0 +1,47 @@
+/**
+ * Risk Scoring Models API
+ * GET  /api/qrm/risk-scoring/models - Every scoring model, active first
+ * POST /api/qrm/risk-scoring/models - Start a draft model
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { CreateRiskScoringModelSchema } from '@/lib/validation/schemas';
+import { createRiskScoringModel, listRiskScoringModels } from '@/lib/services/acceptance/riskScoringService';
+import { auditAdminAction } from '@/lib/utils/auditLog';
+
+/**
+ * GET /api/qrm/risk-scoring/models
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_RISK_SCORING,
+  handler: async () => {
+    return NextResponse.json(successResponse(await listRiskScoringModels()));
+  },
+});
+
+/**
+ * POST /api/qrm/risk-scoring/models
+ * Copies the active model (or fromModelId, to roll back) into a new draft
+ */
+export const POST = secureRoute.mutation({
+  feature: Feature.MANAGE_RISK_SCORING,
+  schema: CreateRiskScoringModelSchema,
+  handler: async (request, { user, data }) => {
+    const model = await createRiskScoringModel(data, user.id);
+
+    await auditAdminAction(
+      user.id,
+      'RISK_SCORING_MODEL_CREATED',
+      'RISK_SCORING_MODEL',
+      String(model.id),
+      { name: model.name, fromModelId: data.fromModelId ?? null },
+      request.headers.get('x-forwarded-for') || 'unknown'
+    );
+
+    return NextResponse.json(successResponse(model), { status: 201 });
+  },
+});
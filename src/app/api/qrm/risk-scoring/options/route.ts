@@ -0,0 +1,21 @@
+/**
+ * Risk Scoring Options API
+ * GET /api/qrm/risk-scoring/options - Questionnaires and service lines for the model editor
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { getRiskScoringOptions } from '@/lib/services/acceptance/riskScoringService';
+
+/**
+ * GET /api/qrm/risk-scoring/options
+ */
+export const GET = secureRoute.query({
+  feature: Feature.MANAGE_RISK_SCORING,
+  handler: async () => {
+    return NextResponse.json(successResponse(await getRiskScoringOptions()));
+  },
+});
@@ -4,7 +4,9 @@ import { successResponse, parseTaskId } from '@/lib/utils/apiUtils';
 import { AppError, ErrorCodes, AcceptanceErrorCodes } from '@/lib/utils/errorHandler';
 import { SaveAnswersByKeySchema } from '@/lib/validation/schemas';
 import { calculateRiskAssessment } from '@/lib/services/acceptance/riskCalculation';
-import { getAllQuestions, type QuestionnaireType } from '@/constants/acceptance-questions';
+import { type QuestionnaireType } from '@/constants/acceptance-questions';
+import { getVersionQuestions } from '@/lib/services/acceptance/questionnaireVersionService';
+import { getTaskScoringContext } from '@/lib/services/acceptance/riskScoringService';
 import { sanitizeComment } from '@/lib/utils/sanitization';
 import { validateAcceptanceAccess } from '@/lib/api/acceptanceMiddleware';
 import { logAnswersSaved } from '@/lib/services/acceptance/auditLog';
@@ -40,6 +42,7 @@ export const PATCH = secureRoute.mutationWithParams({
       select: {
         id: true,
         questionnaireType: true,
+        questionnaireVersionId: true,
         reviewedAt: true,
       },
     });
@@ -71,7 +74,15 @@ export const PATCH = secureRoute.mutationWithParams({
       },
     });
 
-    const questionMap = new Map(allQuestions.map((q) => [q.questionKey, q]));
+    // Only accept answers to questions in the version the response is pinned to
+    const questionDefs = await getVersionQuestions(
+      response.questionnaireType as QuestionnaireType,
+      response.questionnaireVersionId
+    );
+    const versionKeys = new Set(questionDefs.map((q) => q.questionKey));
+    const questionMap = new Map(
+      allQuestions.filter((q) => versionKeys.has(q.questionKey)).map((q) => [q.questionKey, q])
+    );
 
     // Deduplicate answers by questionKey (keep last occurrence to preserve latest user input)
     const answerMap = new Map<string, typeof data.answers[0]>();
@@ -142,15 +153,14 @@ export const PATCH = secureRoute.mutationWithParams({
       },
     });
 
-    // Calculate risk assessment
-    const questionDefs = getAllQuestions(response.questionnaireType as QuestionnaireType);
+    // Calculate risk assessment with the pinned version's weights and the active scoring model
     const answerData = allAnswers.map((a) => ({
       questionKey: a.AcceptanceQuestion.questionKey,
       answer: a.answer || '',
       comment: a.comment || undefined,
     }));
 
-    const riskAssessment = calculateRiskAssessment(questionDefs, answerData);
+    const riskAssessment = calculateRiskAssessment(questionDefs, answerData, await getTaskScoringContext(taskId));
 
     // Update response with risk assessment
     const updated = await prisma.clientAcceptanceResponse.update({
@@ -4,7 +4,7 @@ import { successResponse, parseTaskId } from '@/lib/utils/apiUtils';
 import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
 import { InitializeQuestionnaireSchema } from '@/lib/validation/schemas';
 import { getQuestionnaireType, getQuestionnaireStructure } from '@/lib/services/acceptance/questionnaireService';
-import { getAllQuestions, type QuestionnaireType } from '@/constants/acceptance-questions';
+import { getLatestPublishedVersionId } from '@/lib/services/acceptance/questionnaireVersionService';
 import { calculateCompletionPercentage } from '@/lib/services/acceptance/riskCalculation';
 import { secureRoute, Feature } from '@/lib/api/secureRoute';
 import { enforceClientAcceptanceForEngagementAcceptance } from '@/lib/middleware/clientAcceptanceCheck';
@@ -68,6 +68,7 @@ export const POST = secureRoute.mutationWithParams({
         taskId: true,
         clientId: true,
         questionnaireType: true,
+        questionnaireVersionId: true,
         overallRiskScore: true,
         riskRating: true,
         riskSummary: true,
@@ -80,19 +81,21 @@ export const POST = secureRoute.mutationWithParams({
       },
     });
 
-    // Create new response if doesn't exist
+    // Create new response if doesn't exist, pinned to the latest published version
     if (!response) {
       response = await prisma.clientAcceptanceResponse.create({
         data: {
           taskId,
           clientId: task.Client.id,
           questionnaireType,
+          questionnaireVersionId: await getLatestPublishedVersionId(questionnaireType),
         },
         select: {
           id: true,
           taskId: true,
           clientId: true,
           questionnaireType: true,
+          questionnaireVersionId: true,
           overallRiskScore: true,
           riskRating: true,
           riskSummary: true,
@@ -149,13 +152,13 @@ export const POST = secureRoute.mutationWithParams({
       }),
     ]);
 
-    // Get questionnaire structure (uses caching)
-    const structure = await getQuestionnaireStructure(questionnaireType);
+    // Get the structure of the version the response is pinned to (uses caching)
+    const structure = await getQuestionnaireStructure(questionnaireType, response.questionnaireVersionId);
 
     // Calculate completion percentage if questionnaire exists
     let completionPercentage = 0;
     if (response && structure) {
-      const questionDefs = getAllQuestions(questionnaireType as QuestionnaireType);
+      const questionDefs = structure.flatMap((section) => section.questions);
       const answerData = answers.map((a) => ({
         questionKey: a.AcceptanceQuestion.questionKey,
         answer: a.answer || '',
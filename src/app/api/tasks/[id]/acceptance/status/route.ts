@@ -2,7 +2,8 @@ import { NextResponse } from 'next/server';
 import { successResponse, parseTaskId } from '@/lib/utils/apiUtils';
 import { getQuestionnaireStatus } from '@/lib/services/acceptance/questionnaireService';
 import { calculateCompletionPercentage } from '@/lib/services/acceptance/riskCalculation';
-import { getAllQuestions, type QuestionnaireType } from '@/constants/acceptance-questions';
+import { type QuestionnaireType } from '@/constants/acceptance-questions';
+import { getVersionQuestions } from '@/lib/services/acceptance/questionnaireVersionService';
 import { prisma } from '@/lib/db/prisma';
 import { secureRoute, Feature } from '@/lib/api/secureRoute';
 
@@ -27,6 +28,7 @@ export const GET = secureRoute.queryWithParams({
         select: {
           id: true,
           questionnaireType: true,
+          questionnaireVersionId: true,
           AcceptanceAnswer: {
             take: 500,
             select: {
@@ -43,7 +45,10 @@ export const GET = secureRoute.queryWithParams({
       });
 
       if (response) {
-        const questionDefs = getAllQuestions(response.questionnaireType as QuestionnaireType);
+        const questionDefs = await getVersionQuestions(
+          response.questionnaireType as QuestionnaireType,
+          response.questionnaireVersionId
+        );
         const answerData = response.AcceptanceAnswer.map((a) => ({
           questionKey: a.AcceptanceQuestion.questionKey,
           answer: a.answer || '',
@@ -3,7 +3,8 @@ import { prisma } from '@/lib/db/prisma';
 import { successResponse, parseTaskId } from '@/lib/utils/apiUtils';
 import { AppError, ErrorCodes, AcceptanceErrorCodes } from '@/lib/utils/errorHandler';
 import { validateRequiredQuestions } from '@/lib/services/acceptance/riskCalculation';
-import { getAllQuestions, type QuestionnaireType } from '@/constants/acceptance-questions';
+import { type QuestionnaireType } from '@/constants/acceptance-questions';
+import { getVersionQuestions } from '@/lib/services/acceptance/questionnaireVersionService';
 import { validateAcceptanceAccess } from '@/lib/api/acceptanceMiddleware';
 import { secureRoute, Feature } from '@/lib/api/secureRoute';
 
@@ -36,6 +37,7 @@ export const POST = secureRoute.mutationWithParams({
       select: {
         id: true,
         questionnaireType: true,
+        questionnaireVersionId: true,
         completedAt: true,
         AcceptanceAnswer: {
           take: 500,
@@ -69,8 +71,11 @@ export const POST = secureRoute.mutationWithParams({
       );
     }
 
-    // Validate all required questions are answered
-    const questionDefs = getAllQuestions(response.questionnaireType as QuestionnaireType);
+    // Validate all required questions in the pinned version are answered
+    const questionDefs = await getVersionQuestions(
+      response.questionnaireType as QuestionnaireType,
+      response.questionnaireVersionId
+    );
     const answerData = response.AcceptanceAnswer.map((a) => ({
       questionKey: a.AcceptanceQuestion.questionKey,
       answer: a.answer || '',
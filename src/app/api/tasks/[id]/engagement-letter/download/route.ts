@@ -8,12 +8,14 @@ import { downloadEngagementLetter } from '@/lib/services/documents/blobStorage';
 /**
  * GET /api/tasks/[id]/engagement-letter/download
  * Download the uploaded engagement letter
+ * ?file=generated downloads the Word document generated from the template instead
  */
 export const GET = secureRoute.queryWithParams({
   feature: Feature.ACCESS_TASKS,
   taskIdParam: 'id',
   handler: async (request: NextRequest, { user, params }) => {
     const taskId = toTaskId(params.id);
+    const wantsGenerated = request.nextUrl.searchParams.get('file') === 'generated';
 
     // Get task and engagement letter path
     const task = await prisma.task.findUnique({
@@ -24,6 +26,7 @@ export const GET = secureRoute.queryWithParams({
           select: {
             uploaded: true,
             filePath: true,
+            generatedFilePath: true,
           },
         },
       },
@@ -34,24 +37,31 @@ export const GET = secureRoute.queryWithParams({
     }
 
     const engagementLetter = task.TaskEngagementLetter;
-    if (!engagementLetter?.uploaded || !engagementLetter?.filePath) {
+    const filePath = wantsGenerated
+      ? engagementLetter?.generatedFilePath
+      : engagementLetter?.uploaded
+        ? engagementLetter.filePath
+        : null;
+    if (!filePath) {
       throw new AppError(
         404,
-        'No engagement letter has been uploaded for this task',
+        wantsGenerated
+          ? 'No engagement letter has been generated for this task'
+          : 'No engagement letter has been uploaded for this task',
         ErrorCodes.NOT_FOUND
       );
     }
 
     // Validate file path to prevent path traversal
-    if (engagementLetter.filePath.includes('..') || engagementLetter.filePath.includes('~')) {
+    if (filePath.includes('..') || filePath.includes('~')) {
       throw new AppError(400, 'Invalid file path', ErrorCodes.VALIDATION_ERROR);
     }
 
     // Download from blob storage
-    const fileBuffer = await downloadEngagementLetter(engagementLetter.filePath);
+    const fileBuffer = await downloadEngagementLetter(filePath);
 
     // Determine content type based on file extension
-    const ext = engagementLetter.filePath.split('.').pop()?.toLowerCase();
+    const ext = filePath.split('.').pop()?.toLowerCase();
     let contentType = 'application/octet-stream';
     if (ext === 'pdf') {
       contentType = 'application/pdf';
@@ -60,7 +70,7 @@ export const GET = secureRoute.queryWithParams({
     }
 
     // Sanitize filename - only take the last part and remove any path components
-    const rawFilename = engagementLetter.filePath.split('/').pop() || 'engagement-letter';
+    const rawFilename = filePath.split('/').pop() || 'engagement-letter';
     const filename = rawFilename.replace(/[^a-zA-Z0-9._-]/g, '_'); // Sanitize filename
 
     // Return file with proper security headers
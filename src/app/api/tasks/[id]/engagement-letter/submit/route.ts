@@ -0,0 +1,30 @@
+/**
+ * POST /api/tasks/[id]/engagement-letter/submit
+ * Submit the generated engagement letter for partner approval
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse } from '@/lib/utils/apiUtils';
+import { invalidateApprovalsCache } from '@/lib/services/cache/cacheInvalidation';
+import { toTaskId } from '@/types/branded';
+import {
+  assertCanPrepareEngagementLetter,
+  submitEngagementLetterForApproval,
+} from '@/lib/services/templates/engagementLetterService';
+
+export const POST = secureRoute.mutationWithParams<z.ZodVoid, { id: string }>({
+  feature: Feature.ACCESS_TASKS,
+  taskIdParam: 'id',
+  handler: async (request: NextRequest, { user, params }) => {
+    const taskId = toTaskId(params.id);
+
+    await assertCanPrepareEngagementLetter(user.id, taskId);
+
+    const result = await submitEngagementLetterForApproval(taskId, user.id);
+    await invalidateApprovalsCache();
+
+    return NextResponse.json(successResponse(result), { status: 201 });
+  },
+});
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { successResponse, parseTaskId } from '@/lib/utils/apiUtils';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import {
+  MAPPING_CONFIDENCE_THRESHOLD,
+  suggestAccountMappings,
+} from '@/lib/services/tasks/mappingSuggestionService';
+
+const suggestMappingsSchema = z.object({
+  accounts: z.array(
+    z.object({
+      accountCode: z.string().min(1).max(50),
+      accountName: z.string().min(1).max(255),
+      section: z.enum(['Income Statement', 'Balance Sheet']).optional(),
+      balance: z.number().optional(),
+    }).strict()
+  ).min(1).max(500),
+}).strict();
+
+/**
+ * POST /api/tasks/[id]/mapped-accounts/suggestions
+ * Suggest SARS mappings for trial balance lines from previous mappings,
+ * with the historical accounts that drove each suggestion
+ */
+export const POST = secureRoute.mutationWithParams({
+  feature: Feature.ACCESS_TASKS,
+  taskIdParam: 'id',
+  taskRole: 'VIEWER',
+  schema: suggestMappingsSchema,
+  handler: async (request, { params, data }) => {
+    const taskId = parseTaskId(params.id);
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: { GSClientID: true },
+    });
+
+    if (!task) {
+      throw new AppError(404, 'Task not found', ErrorCodes.NOT_FOUND);
+    }
+
+    const suggestions = await suggestAccountMappings(data.accounts, {
+      GSClientID: task.GSClientID,
+      excludeTaskId: taskId,
+    });
+
+    return NextResponse.json(
+      successResponse({
+        threshold: MAPPING_CONFIDENCE_THRESHOLD,
+        suggestions: suggestions.map((suggestion) => ({
+          ...suggestion,
+          requiresAI: suggestion.confidence < MAPPING_CONFIDENCE_THRESHOLD,
+        })),
+      })
+    );
+  },
+});
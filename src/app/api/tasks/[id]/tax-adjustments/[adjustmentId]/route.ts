@@ -20,6 +20,7 @@ const UpdateTaxAdjustmentSchema = z.object({
   sarsSection: z.string().max(100).optional(),
   notes: z.string().max(2000).optional(),
   confidenceScore: z.number().min(0).max(1).optional(),
+  isRecurring: z.boolean().optional(),
   calculationDetails: z.record(z.unknown()).optional(),
   extractedData: z.record(z.unknown()).optional(),
 }).strict();
@@ -35,6 +36,7 @@ const adjustmentSelect = {
   sarsSection: true,
   notes: true,
   confidenceScore: true,
+  isRecurring: true,
   calculationDetails: true,
   extractedData: true,
   sourceDocuments: true,
@@ -144,6 +146,7 @@ export const PATCH = secureRoute.mutationWithParams({
     if (data.sarsSection !== undefined) updateData.sarsSection = data.sarsSection;
     if (data.notes !== undefined) updateData.notes = data.notes;
     if (data.confidenceScore !== undefined) updateData.confidenceScore = data.confidenceScore;
+    if (data.isRecurring !== undefined) updateData.isRecurring = data.isRecurring;
 
     if (data.calculationDetails !== undefined) {
       updateData.calculationDetails = JSON.stringify(data.calculationDetails);
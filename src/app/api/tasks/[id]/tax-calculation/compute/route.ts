@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseTaskId } from '@/lib/utils/apiUtils';
+import { TaxComputationProfileSchema } from '@/lib/validation/schemas';
+import { computeTaxForTask } from '@/lib/tools/tax-calculation/api/taxComputationHandler';
+import { toTaskId } from '@/types/branded';
+
+const ProvisionalPaymentSchema = z.object({
+  period: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  amount: z.number().nonnegative(),
+  estimatedTaxableIncome: z.number().optional(),
+}).strict();
+
+const ComputeTaxSchema = TaxComputationProfileSchema.extend({
+  provisionalPayments: z.array(ProvisionalPaymentSchema).max(3).default([]),
+  basicAmount: z.number().nonnegative().optional(),
+  employeesTaxPaid: z.number().nonnegative().optional(),
+}).strict();
+
+/**
+ * POST /api/tasks/[id]/tax-calculation/compute
+ * Compute taxable income and the tax liability for a year of assessment
+ */
+export const POST = secureRoute.mutationWithParams({
+  feature: Feature.ACCESS_TASKS,
+  taskIdParam: 'id',
+  schema: ComputeTaxSchema,
+  handler: async (request, { params, data }) => {
+    const taskId = parseTaskId(params.id);
+    const brandedTaskId = toTaskId(taskId);
+
+    const result = await computeTaxForTask(brandedTaskId, data);
+
+    return NextResponse.json(successResponse(result));
+  },
+});
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
 import { secureRoute, Feature } from '@/lib/api/secureRoute';
 import { parseTaskId } from '@/lib/utils/apiUtils';
 import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
@@ -10,8 +11,13 @@ import { toTaskId } from '@/types/branded';
 const ALLOWED_FORMATS = ['excel', 'pdf', 'csv'] as const;
 type ExportFormat = (typeof ALLOWED_FORMATS)[number];
 
+const ComputationParamsSchema = z.object({
+  yearEnd: z.coerce.date().default(() => new Date()),
+  entityType: z.enum(['COMPANY', 'SMALL_BUSINESS_CORPORATION']).default('COMPANY'),
+});
+
 /**
- * GET /api/tasks/[id]/tax-calculation/export?format=excel
+ * GET /api/tasks/[id]/tax-calculation/export?format=excel&yearEnd=2025-02-28&entityType=COMPANY
  * Export tax calculation in various formats
  */
 export const GET = secureRoute.queryWithParams({
@@ -33,11 +39,24 @@ export const GET = secureRoute.queryWithParams({
       );
     }
 
+    const computationParams = ComputationParamsSchema.safeParse({
+      yearEnd: searchParams.get('yearEnd') || undefined,
+      entityType: searchParams.get('entityType') || undefined,
+    });
+    if (!computationParams.success) {
+      throw new AppError(
+        400,
+        'Invalid yearEnd or entityType. entityType must be COMPANY or SMALL_BUSINESS_CORPORATION',
+        ErrorCodes.VALIDATION_ERROR,
+        { issues: computationParams.error.issues }
+      );
+    }
+
     // Get accounting profit from tax calculation data
     const taxCalcData = await getTaxCalculationData(brandedTaskId);
     const accountingProfit = taxCalcData.netProfit || 0;
 
     // Export using tool handler
-    return await exportTaxCalculation(brandedTaskId, formatParam, accountingProfit);
+    return await exportTaxCalculation(brandedTaskId, formatParam, accountingProfit, computationParams.data);
   },
 });
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseTaskId } from '@/lib/utils/apiUtils';
+import { TaxComputationProfileSchema } from '@/lib/validation/schemas';
+import {
+  getTaxComputationProfile,
+  saveTaxComputationProfile,
+} from '@/lib/tools/tax-calculation/api/taxComputationHandler';
+import { toTaskId } from '@/types/branded';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/tasks/[id]/tax-calculation/profile
+ * Get the opening positions used by the tax computation
+ */
+export const GET = secureRoute.queryWithParams({
+  feature: Feature.ACCESS_TASKS,
+  taskIdParam: 'id',
+  taskRole: 'VIEWER',
+  handler: async (request, { params }) => {
+    const taskId = toTaskId(parseTaskId(params.id));
+
+    const profile = await getTaxComputationProfile(taskId);
+
+    return NextResponse.json(successResponse(profile));
+  },
+});
+
+/**
+ * PUT /api/tasks/[id]/tax-calculation/profile
+ * Save the year end, entity type, assessed loss and capital asset schedule
+ */
+export const PUT = secureRoute.mutationWithParams({
+  feature: Feature.MANAGE_TASKS,
+  taskIdParam: 'id',
+  taskRole: 'EDITOR',
+  schema: TaxComputationProfileSchema,
+  handler: async (request, { params, data }) => {
+    const taskId = toTaskId(parseTaskId(params.id));
+
+    const profile = await saveTaxComputationProfile(taskId, data);
+
+    return NextResponse.json(successResponse(profile));
+  },
+});
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { secureRoute, Feature } from '@/lib/api/secureRoute';
+import { successResponse, parseTaskId, parseNumericId } from '@/lib/utils/apiUtils';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { TaxRollForwardSchema } from '@/lib/validation/schemas';
+import {
+  getRollForwardCandidates,
+  previewRollForward,
+  rollForwardTask,
+} from '@/lib/tools/tax-calculation/api/rollForwardHandler';
+import type { MappingStrategy } from '@/lib/tools/tax-calculation/types';
+import { toTaskId } from '@/types/branded';
+
+export const dynamic = 'force-dynamic';
+
+const MAPPING_STRATEGIES: MappingStrategy[] = ['PRIOR_YEAR', 'KEEP_CURRENT'];
+
+/**
+ * GET /api/tasks/[id]/tax-calculation/roll-forward?sourceTaskId=123&mappingStrategy=PRIOR_YEAR
+ * List prior-year tasks and preview the roll-forward variance report
+ * The source task must share this task's client and service line (404 otherwise)
+ * and the user must be able to view it (403 otherwise)
+ */
+export const GET = secureRoute.queryWithParams({
+  feature: Feature.ACCESS_TASKS,
+  taskIdParam: 'id',
+  taskRole: 'VIEWER',
+  handler: async (request, { user, params }) => {
+    const taskId = toTaskId(parseTaskId(params.id));
+    const { searchParams } = new URL(request.url);
+
+    const sourceTaskParam = searchParams.get('sourceTaskId');
+    const sourceTaskId = sourceTaskParam ? parseNumericId(sourceTaskParam, 'Source task') : undefined;
+
+    const strategyParam = searchParams.get('mappingStrategy') || 'PRIOR_YEAR';
+    if (!MAPPING_STRATEGIES.includes(strategyParam as MappingStrategy)) {
+      throw new AppError(
+        400,
+        `Invalid mapping strategy. Allowed: ${MAPPING_STRATEGIES.join(', ')}`,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    const candidates = await getRollForwardCandidates(taskId);
+    const preview =
+      sourceTaskId !== undefined || candidates.length > 0
+        ? await previewRollForward(taskId, sourceTaskId, strategyParam as MappingStrategy, user.id)
+        : null;
+
+    return NextResponse.json(successResponse({ candidates, preview }));
+  },
+});
+
+/**
+ * POST /api/tasks/[id]/tax-calculation/roll-forward
+ * Roll the task forward from a prior-year task
+ * Same source task rules as GET
+ */
+export const POST = secureRoute.mutationWithParams({
+  feature: Feature.MANAGE_TASKS,
+  taskIdParam: 'id',
+  taskRole: 'EDITOR',
+  schema: TaxRollForwardSchema,
+  handler: async (request, { user, params, data }) => {
+    const taskId = toTaskId(parseTaskId(params.id));
+
+    const report = await rollForwardTask(taskId, data.sourceTaskId, data.mappingStrategy, user.id);
+
+    return NextResponse.json(successResponse(report));
+  },
+});
@@ -18,6 +18,7 @@ import { TaskStage } from '@/types/task-stages';
 import { getWipBalancesByTaskIds } from '@/lib/services/wip/wipCalculationSQL';
 import { enrichEmployeesWithStatus } from '@/lib/services/employees/employeeStatusService';
 import { enforceClientAcceptanceForTaskCreation } from '@/lib/middleware/clientAcceptanceCheck';
+import { enforceClientContinuanceForTaskCreation } from '@/lib/middleware/clientContinuanceCheck';
 
 // Zod schema for GET query params validation
 const TaskListQuerySchema = z.object({
@@ -401,8 +402,10 @@ export const POST = secureRoute.mutation({
       GSClientID = client.GSClientID;
     }
 
-    // Enforce client acceptance requirement for client tasks
+    // Enforce client acceptance and annual continuance for client tasks
+    // (continuance first - a lapsed acceptance is usually an overdue continuance)
     if (data.clientId) {
+      await enforceClientContinuanceForTaskCreation(data.clientId);
       await enforceClientAcceptanceForTaskCreation(data.clientId);
     }
 
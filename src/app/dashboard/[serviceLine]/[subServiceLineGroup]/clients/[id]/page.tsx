@@ -34,6 +34,7 @@ import { clientDebtorsKeys } from '@/hooks/clients/useClientDebtors';
 import { clientGraphDataKeys } from '@/hooks/clients/useClientGraphData';
 import { EmployeeStatusBadge } from '@/components/shared/EmployeeStatusBadge';
 import { ClientAcceptanceCard } from '@/components/features/clients/ClientAcceptanceCard';
+import { ClientContinuanceCard } from '@/components/features/clients/ClientContinuanceCard';
 import { Banner } from '@/components/ui';
 import { useClientAcceptanceStatus } from '@/hooks/acceptance/useClientAcceptanceStatus';
 import { GRADIENTS } from '@/lib/design-system/gradients';
@@ -317,6 +318,17 @@ export default function ServiceLineClientDetailPage() {
           />
         </div>
 
+        {/* Client Continuance Section - annual review once acceptance is approved */}
+        {clientAcceptanceStatus?.approved && (
+          <div className="mb-6">
+            <ClientContinuanceCard
+              GSClientID={GSClientID}
+              clientCode={client.clientCode}
+              clientName={client.clientNameFull}
+            />
+          </div>
+        )}
+
         {/* Warning Banner - Show when client acceptance is not approved */}
         {!isLoadingAcceptance && !clientAcceptanceStatus?.approved && (
           <div className="mb-6">
@@ -3,12 +3,11 @@
 import { useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter, useParams } from 'next/navigation';
-import { ChevronRight, Landmark, Clock } from 'lucide-react';
+import { ChevronRight } from 'lucide-react';
 import { isValidServiceLine, formatServiceLineName } from '@/lib/utils/serviceLineUtils';
 import { useServiceLine } from '@/components/providers/ServiceLineProvider';
 import { ServiceLine } from '@/types';
-import { GRADIENTS } from '@/lib/design-system/gradients';
-import { Button } from '@/components/ui';
+import { FinancialPosition } from '@/components/features/exco';
 
 export default function FinancialPositionPage() {
   const router = useRouter();
@@ -54,43 +53,7 @@ export default function FinancialPositionPage() {
           <span className="text-forvis-gray-900 font-medium">Financial Position</span>
         </nav>
 
-        {/* Coming Soon Card */}
-        <div 
-          className="bg-gradient-dashboard-card rounded-lg border-2 p-8"
-          style={{
-            borderColor: '#2E5AAC',
-          }}
-        >
-          <div className="text-center max-w-lg mx-auto">
-            <div 
-              className="w-16 h-16 rounded-xl mx-auto mb-6 flex items-center justify-center shadow-md"
-              style={{ background: GRADIENTS.icon.standard }}
-            >
-              <Landmark className="h-8 w-8 text-white" />
-            </div>
-
-            <h1 className="text-2xl font-semibold text-forvis-gray-900 mb-2">
-              Financial Position
-            </h1>
-
-            <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-forvis-blue-100 text-forvis-blue-700 mb-4">
-              <Clock className="h-4 w-4" />
-              <span className="text-sm font-medium">Coming Soon</span>
-            </div>
-
-            <p className="text-sm text-forvis-gray-600 mb-6">
-              Balance sheet overview including assets, liabilities, and equity analysis. 
-              This report will provide comprehensive insights into the organization&apos;s financial health.
-            </p>
-
-            <Button
-              variant="gradient"
-              onClick={() => router.push(`/dashboard/${serviceLine.toLowerCase()}/exco-reporting/financial-analysis`)}
-            >
-              Back to Financial Analysis
-            </Button>
-          </div>
-        </div>
+        <FinancialPosition />
       </div>
     </div>
   );
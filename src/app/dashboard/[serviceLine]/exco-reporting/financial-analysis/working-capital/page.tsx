@@ -3,12 +3,11 @@
 import { useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter, useParams } from 'next/navigation';
-import { ChevronRight, Wallet, Clock } from 'lucide-react';
+import { ChevronRight } from 'lucide-react';
 import { isValidServiceLine, formatServiceLineName } from '@/lib/utils/serviceLineUtils';
 import { useServiceLine } from '@/components/providers/ServiceLineProvider';
 import { ServiceLine } from '@/types';
-import { GRADIENTS } from '@/lib/design-system/gradients';
-import { Button } from '@/components/ui';
+import { WorkingCapitalReport } from '@/components/features/exco';
 
 export default function WorkingCapitalPage() {
   const router = useRouter();
@@ -54,44 +53,7 @@ export default function WorkingCapitalPage() {
           <span className="text-forvis-gray-900 font-medium">Working Capital & Cash</span>
         </nav>
 
-        {/* Coming Soon Card */}
-        <div 
-          className="bg-gradient-dashboard-card rounded-lg border-2 p-8"
-          style={{
-            borderColor: '#2E5AAC',
-          }}
-        >
-          <div className="text-center max-w-lg mx-auto">
-            <div 
-              className="w-16 h-16 rounded-xl mx-auto mb-6 flex items-center justify-center shadow-md"
-              style={{ background: GRADIENTS.icon.standard }}
-            >
-              <Wallet className="h-8 w-8 text-white" />
-            </div>
-
-            <h1 className="text-2xl font-semibold text-forvis-gray-900 mb-2">
-              Working Capital & Cash
-            </h1>
-
-            <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-forvis-blue-100 text-forvis-blue-700 mb-4">
-              <Clock className="h-4 w-4" />
-              <span className="text-sm font-medium">Coming Soon</span>
-            </div>
-
-            <p className="text-sm text-forvis-gray-600 mb-6">
-              Lock-up days, cash flow analysis, and liquidity metrics. 
-              Monitor WIP, debtors, and cash conversion cycles.
-            </p>
-
-            <Link
-              href={`/dashboard/${serviceLine.toLowerCase()}/exco-reporting/financial-analysis`}
-              className="inline-flex items-center px-4 py-2 rounded-lg text-sm font-medium text-white transition-all duration-200 hover:opacity-90"
-              style={{ background: GRADIENTS.icon.standard }}
-            >
-              Back to Financial Analysis
-            </Link>
-          </div>
-        </div>
+        <WorkingCapitalReport />
       </div>
     </div>
   );
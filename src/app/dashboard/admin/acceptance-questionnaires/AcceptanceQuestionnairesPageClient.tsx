@@ -0,0 +1,748 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, ClipboardList, Copy, Plus, Save, Send, Trash2 } from 'lucide-react';
+import { Badge, Banner, Button, Card, Input, LoadingSpinner } from '@/components/ui';
+import { ConfirmModal } from '@/components/shared/ConfirmModal';
+import type { AcceptanceQuestionDef, FieldType, QuestionSection } from '@/constants/acceptance-questions';
+import {
+  useCreateQuestionnaireDraft,
+  useDiscardQuestionnaireDraft,
+  usePublishQuestionnaireVersion,
+  useQuestionnaireHistory,
+  useQuestionnaires,
+  useQuestionnaireVersion,
+  useSaveQuestionnaireDraft,
+  type QuestionnaireVersionDetail,
+  type VersionedQuestionnaireType,
+} from '@/hooks/admin/useAcceptanceQuestionnaires';
+
+const FIELD_TYPE_OPTIONS: Array<{ value: FieldType; label: string }> = [
+  { value: 'RADIO', label: 'Radio buttons' },
+  { value: 'SELECT', label: 'Dropdown' },
+  { value: 'TEXTAREA', label: 'Free text' },
+  { value: 'FILE_UPLOAD', label: 'File upload' },
+  { value: 'BUTTON', label: 'Button' },
+  { value: 'PLACEHOLDER', label: 'Information only' },
+];
+
+const CHOICE_FIELD_TYPES: FieldType[] = ['RADIO', 'SELECT'];
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('en-ZA');
+
+function newQuestion(sectionKey: string, existingKeys: string[]): AcceptanceQuestionDef {
+  let n = existingKeys.length + 1;
+  while (existingKeys.includes(`Q${n}${sectionKey}`)) n++;
+  return {
+    questionKey: `Q${n}${sectionKey}`,
+    sectionKey,
+    questionText: '',
+    fieldType: 'RADIO',
+    options: ['No', 'Yes'],
+    required: true,
+    order: 0,
+    riskWeight: 5,
+    highRiskAnswers: ['Yes'],
+  };
+}
+
+/**
+ * Drop blank options and anything that no longer applies to the field type
+ * before sending a draft to the server
+ */
+function cleanSections(sections: QuestionSection[]): QuestionSection[] {
+  return sections.map(({ description, ...section }) => ({
+    ...section,
+    ...(description?.trim() && { description }),
+    questions: section.questions.map(({ sectionKey: _sectionKey, order: _order, ...question }) => {
+      const isChoice = CHOICE_FIELD_TYPES.includes(question.fieldType);
+      const options = isChoice ? (question.options ?? []).map((o) => o.trim()).filter(Boolean) : [];
+      const highRiskAnswers = (question.highRiskAnswers ?? []).filter((a) => options.includes(a));
+      return {
+        ...question,
+        description: question.description?.trim() || undefined,
+        options: options.length > 0 ? options : undefined,
+        highRiskAnswers: highRiskAnswers.length > 0 ? highRiskAnswers : undefined,
+        conditionalDisplay: question.conditionalDisplay?.dependsOn ? question.conditionalDisplay : undefined,
+      } as AcceptanceQuestionDef;
+    }),
+  }));
+}
+
+interface QuestionEditorProps {
+  question: AcceptanceQuestionDef;
+  allQuestions: AcceptanceQuestionDef[];
+  readOnly: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (question: AcceptanceQuestionDef) => void;
+  onMove: (direction: -1 | 1) => void;
+  onDelete: () => void;
+}
+
+function QuestionEditor({ question, allQuestions, readOnly, isFirst, isLast, onChange, onMove, onDelete }: QuestionEditorProps) {
+  const isChoice = CHOICE_FIELD_TYPES.includes(question.fieldType);
+  const options = (question.options ?? []).filter((o) => o.trim());
+  const parents = allQuestions.filter(
+    (q) => q.questionKey !== question.questionKey && CHOICE_FIELD_TYPES.includes(q.fieldType)
+  );
+  const parent = parents.find((q) => q.questionKey === question.conditionalDisplay?.dependsOn);
+
+  const update = (changes: Partial<AcceptanceQuestionDef>) => onChange({ ...question, ...changes });
+
+  const toggleHighRisk = (option: string) => {
+    const current = question.highRiskAnswers ?? [];
+    update({
+      highRiskAnswers: current.includes(option) ? current.filter((a) => a !== option) : [...current, option],
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-forvis-gray-200 p-3 space-y-3">
+      <div className="flex items-start gap-2">
+        <div className="w-48 shrink-0">
+          <Input
+            label="Key"
+            value={question.questionKey}
+            onChange={(e) => update({ questionKey: e.target.value })}
+            disabled={readOnly}
+            maxLength={100}
+          />
+        </div>
+        <div className="flex-1">
+          <Input
+            label="Question"
+            value={question.questionText}
+            onChange={(e) => update({ questionText: e.target.value })}
+            disabled={readOnly}
+            maxLength={2000}
+          />
+        </div>
+        {!readOnly && (
+          <span className="flex items-center gap-1 pt-7">
+            <button
+              type="button"
+              title="Move up"
+              disabled={isFirst}
+              onClick={() => onMove(-1)}
+              className="p-1 text-forvis-gray-500 hover:text-forvis-gray-900 disabled:opacity-30"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              title="Move down"
+              disabled={isLast}
+              onClick={() => onMove(1)}
+              className="p-1 text-forvis-gray-500 hover:text-forvis-gray-900 disabled:opacity-30"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              title="Remove question"
+              onClick={onDelete}
+              className="p-1 text-forvis-gray-500 hover:text-forvis-error-600"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </span>
+        )}
+      </div>
+
+      <Input
+        label="Guidance"
+        value={question.description ?? ''}
+        onChange={(e) => update({ description: e.target.value })}
+        disabled={readOnly}
+        maxLength={2000}
+      />
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <Input
+          variant="select"
+          label="Field type"
+          value={question.fieldType}
+          onChange={(e) => update({ fieldType: e.target.value as FieldType })}
+          options={FIELD_TYPE_OPTIONS}
+          disabled={readOnly}
+        />
+        <Input
+          variant="number"
+          label="Risk weight (0-10)"
+          value={String(question.riskWeight)}
+          onChange={(e) => update({ riskWeight: Math.min(10, Math.max(0, Number(e.target.value) || 0)) })}
+          min={0}
+          max={10}
+          step={0.5}
+          disabled={readOnly}
+        />
+        <div className="flex flex-col justify-end gap-1 pb-2 text-xs text-forvis-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={question.required}
+              onChange={(e) => update({ required: e.target.checked })}
+              disabled={readOnly}
+            />
+            Required
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!!question.allowComment}
+              onChange={(e) => update({ allowComment: e.target.checked || undefined })}
+              disabled={readOnly}
+            />
+            Allow comment
+          </label>
+        </div>
+      </div>
+
+      {isChoice && (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          <Input
+            variant="textarea"
+            label="Options (one per line)"
+            rows={3}
+            value={(question.options ?? []).join('\n')}
+            onChange={(e) => update({ options: e.target.value.split('\n') })}
+            disabled={readOnly}
+          />
+          <div>
+            <p className="block text-sm font-medium text-forvis-gray-700 mb-1">High-risk answers</p>
+            {options.length === 0 ? (
+              <p className="text-xs text-forvis-gray-500">Add options first</p>
+            ) : (
+              <div className="flex flex-wrap gap-3 text-xs text-forvis-gray-700">
+                {options.map((option) => (
+                  <label key={option} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={(question.highRiskAnswers ?? []).includes(option)}
+                      onChange={() => toggleHighRisk(option)}
+                      disabled={readOnly}
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <Input
+          variant="select"
+          label="Show only when"
+          value={question.conditionalDisplay?.dependsOn ?? ''}
+          onChange={(e) => {
+            const dependsOn = e.target.value;
+            const next = parents.find((q) => q.questionKey === dependsOn);
+            update({
+              conditionalDisplay: next
+                ? { dependsOn, requiredAnswer: (next.options ?? []).find((o) => o.trim()) ?? '' }
+                : undefined,
+            });
+          }}
+          options={[
+            { value: '', label: 'Always shown' },
+            ...parents.map((q) => ({ value: q.questionKey, label: `${q.questionKey} - ${q.questionText}` })),
+          ]}
+          disabled={readOnly}
+        />
+        {question.conditionalDisplay && (
+          <Input
+            variant="select"
+            label="is answered"
+            value={question.conditionalDisplay.requiredAnswer}
+            onChange={(e) =>
+              update({
+                conditionalDisplay: { dependsOn: question.conditionalDisplay!.dependsOn, requiredAnswer: e.target.value },
+              })
+            }
+            options={(parent?.options ?? [question.conditionalDisplay.requiredAnswer])
+              .filter((o) => o.trim())
+              .map((o) => ({ value: o, label: o }))}
+            disabled={readOnly}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface VersionEditorProps {
+  version: QuestionnaireVersionDetail;
+  onPublish: () => void;
+  onDiscard: () => void;
+  onMessage: (success: string | null, error: string | null) => void;
+}
+
+function VersionEditor({ version, onPublish, onDiscard, onMessage }: VersionEditorProps) {
+  const readOnly = version.status !== 'DRAFT';
+  const [sections, setSections] = useState<QuestionSection[]>(version.sections);
+  const [changeNote, setChangeNote] = useState(version.changeNote ?? '');
+  const [isDirty, setIsDirty] = useState(false);
+  const saveDraft = useSaveQuestionnaireDraft();
+
+  const allQuestions = sections.flatMap((section) => section.questions);
+
+  const updateSections = (next: QuestionSection[]) => {
+    setSections(next);
+    setIsDirty(true);
+  };
+
+  const updateSection = (index: number, changes: Partial<QuestionSection>) =>
+    updateSections(sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+
+  const moveItem = <T,>(items: T[], index: number, direction: -1 | 1): T[] => {
+    const next = [...items];
+    const target = index + direction;
+    if (target < 0 || target >= next.length) return items;
+    [next[index], next[target]] = [next[target]!, next[index]!];
+    return next;
+  };
+
+  const handleSave = async () => {
+    onMessage(null, null);
+    try {
+      await saveDraft.mutateAsync({
+        versionId: version.id,
+        sections: cleanSections(sections),
+        changeNote: changeNote.trim() || undefined,
+      });
+      setIsDirty(false);
+      onMessage(`Version ${version.versionNumber} saved`, null);
+    } catch (err) {
+      onMessage(null, err instanceof Error ? err.message : 'Failed to save draft');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <div className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-sm font-semibold text-forvis-gray-900">
+              Version {version.versionNumber}{' '}
+              <Badge variant={readOnly ? 'green' : 'yellow'}>{readOnly ? 'published' : 'draft'}</Badge>
+            </h2>
+            {!readOnly && (
+              <span className="flex items-center gap-2">
+                <Button size="sm" variant="secondary" onClick={onDiscard} icon={<Trash2 className="w-4 h-4" />}>
+                  Discard
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={handleSave}
+                  loading={saveDraft.isPending}
+                  disabled={!isDirty || saveDraft.isPending}
+                  icon={<Save className="w-4 h-4" />}
+                >
+                  Save Draft
+                </Button>
+                <Button
+                  size="sm"
+                  variant="primary"
+                  onClick={onPublish}
+                  disabled={isDirty || version.validationErrors.length > 0}
+                  icon={<Send className="w-4 h-4" />}
+                >
+                  Publish
+                </Button>
+              </span>
+            )}
+          </div>
+          {readOnly ? (
+            <p className="text-xs text-forvis-gray-600">
+              Published {version.publishedAt ? formatDate(version.publishedAt) : ''} - {version.responseCount} response(s)
+              answered against this version. Published versions cannot be changed; start a draft from it instead.
+            </p>
+          ) : (
+            <>
+              <Input
+                label="Change note"
+                value={changeNote}
+                onChange={(e) => {
+                  setChangeNote(e.target.value);
+                  setIsDirty(true);
+                }}
+                placeholder="What changed in this version"
+                maxLength={500}
+              />
+              {isDirty && <p className="text-xs text-forvis-gray-500">Save the draft before publishing.</p>}
+              {!isDirty && version.validationErrors.length > 0 && (
+                <Banner
+                  variant="warning"
+                  message={`Fix before publishing: ${version.validationErrors.join('; ')}`}
+                />
+              )}
+            </>
+          )}
+        </div>
+      </Card>
+
+      {sections.map((section, sectionIndex) => (
+        <Card key={sectionIndex}>
+          <div className="p-4 space-y-3">
+            <div className="flex items-start gap-2">
+              <div className="w-48 shrink-0">
+                <Input
+                  label="Section key"
+                  value={section.key}
+                  onChange={(e) => updateSection(sectionIndex, { key: e.target.value })}
+                  disabled={readOnly}
+                  maxLength={100}
+                />
+              </div>
+              <div className="flex-1">
+                <Input
+                  label="Section title"
+                  value={section.title}
+                  onChange={(e) => updateSection(sectionIndex, { title: e.target.value })}
+                  disabled={readOnly}
+                  maxLength={200}
+                />
+              </div>
+              {!readOnly && (
+                <span className="flex items-center gap-1 pt-7">
+                  <button
+                    type="button"
+                    title="Move section up"
+                    disabled={sectionIndex === 0}
+                    onClick={() => updateSections(moveItem(sections, sectionIndex, -1))}
+                    className="p-1 text-forvis-gray-500 hover:text-forvis-gray-900 disabled:opacity-30"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    title="Move section down"
+                    disabled={sectionIndex === sections.length - 1}
+                    onClick={() => updateSections(moveItem(sections, sectionIndex, 1))}
+                    className="p-1 text-forvis-gray-500 hover:text-forvis-gray-900 disabled:opacity-30"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    title="Remove section"
+                    disabled={sections.length === 1}
+                    onClick={() => updateSections(sections.filter((_, i) => i !== sectionIndex))}
+                    className="p-1 text-forvis-gray-500 hover:text-forvis-error-600 disabled:opacity-30"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </span>
+              )}
+            </div>
+            <Input
+              label="Section description"
+              value={section.description ?? ''}
+              onChange={(e) => updateSection(sectionIndex, { description: e.target.value })}
+              disabled={readOnly}
+              maxLength={1000}
+            />
+
+            {section.questions.map((question, questionIndex) => (
+              <QuestionEditor
+                key={questionIndex}
+                question={question}
+                allQuestions={allQuestions}
+                readOnly={readOnly}
+                isFirst={questionIndex === 0}
+                isLast={questionIndex === section.questions.length - 1}
+                onChange={(changed) =>
+                  updateSection(sectionIndex, {
+                    questions: section.questions.map((q, i) => (i === questionIndex ? changed : q)),
+                  })
+                }
+                onMove={(direction) =>
+                  updateSection(sectionIndex, { questions: moveItem(section.questions, questionIndex, direction) })
+                }
+                onDelete={() =>
+                  updateSection(sectionIndex, { questions: section.questions.filter((_, i) => i !== questionIndex) })
+                }
+              />
+            ))}
+
+            {!readOnly && (
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() =>
+                  updateSection(sectionIndex, {
+                    questions: [
+                      ...section.questions,
+                      newQuestion(section.key, allQuestions.map((q) => q.questionKey)),
+                    ],
+                  })
+                }
+                icon={<Plus className="w-4 h-4" />}
+              >
+                Add Question
+              </Button>
+            )}
+          </div>
+        </Card>
+      ))}
+
+      {!readOnly && (
+        <Button
+          variant="secondary"
+          onClick={() => {
+            const key = `section${sections.length + 1}`;
+            updateSections([
+              ...sections,
+              { key, title: 'New section', questions: [newQuestion(key, allQuestions.map((q) => q.questionKey))] },
+            ]);
+          }}
+          icon={<Plus className="w-4 h-4" />}
+        >
+          Add Section
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export default function AcceptanceQuestionnairesPageClient() {
+  const [type, setType] = useState<VersionedQuestionnaireType>('ACCEPTANCE_FULL');
+  const [selectedVersionId, setSelectedVersionId] = useState<number | null>(null);
+  const [confirm, setConfirm] = useState<'publish' | 'discard' | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: questionnaires = [] } = useQuestionnaires();
+  const { data: history, isLoading } = useQuestionnaireHistory(type);
+  const { data: version, isLoading: isLoadingVersion } = useQuestionnaireVersion(selectedVersionId);
+  const createDraft = useCreateQuestionnaireDraft();
+  const publishVersion = usePublishQuestionnaireVersion();
+  const discardDraft = useDiscardQuestionnaireDraft();
+
+  // Auto-hide success messages
+  useEffect(() => {
+    if (success) {
+      const timer = setTimeout(() => setSuccess(null), 5000);
+      return () => clearTimeout(timer);
+    }
+    return undefined;
+  }, [success]);
+
+  // Open the draft, or the latest version, when switching questionnaire
+  useEffect(() => {
+    if (history && history.questionnaireType === type && selectedVersionId === null) {
+      setSelectedVersionId(history.versions[0]?.id ?? null);
+    }
+  }, [history, type, selectedVersionId]);
+
+  const draft = history?.versions.find((v) => v.status === 'DRAFT') ?? null;
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    setError(null);
+    try {
+      await action();
+      setSuccess(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleCreateDraft = (fromVersionId?: number) =>
+    void run(async () => {
+      const created = await createDraft.mutateAsync({ type, fromVersionId });
+      setSelectedVersionId(created.id);
+    }, 'Draft created');
+
+  const handleConfirm = async () => {
+    if (!version) return;
+    if (confirm === 'publish') {
+      await run(async () => {
+        const published = await publishVersion.mutateAsync(version.id);
+        if (published.questionsAdded > 0) {
+          setSuccess(`Version ${published.versionNumber} published with ${published.questionsAdded} new question(s)`);
+        }
+      }, `Version ${version.versionNumber} published - new responses will use it`);
+    } else if (confirm === 'discard') {
+      await run(async () => {
+        await discardDraft.mutateAsync(version.id);
+        setSelectedVersionId(null);
+      }, `Draft version ${version.versionNumber} discarded`);
+    }
+    setConfirm(null);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between">
+        <div className="flex items-center space-x-3">
+          <div
+            className="w-12 h-12 rounded-lg flex items-center justify-center shadow-sm"
+            style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+          >
+            <ClipboardList className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-semibold text-forvis-gray-900">Acceptance Questionnaires</h1>
+            <p className="text-sm text-forvis-gray-600 mt-1">
+              Edit engagement acceptance and continuance questions - each response keeps the version it was started
+              with and is always scored with that version&apos;s risk weights
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {success && <Banner variant="success" message={success} dismissible onDismiss={() => setSuccess(null)} />}
+        {error && <Banner variant="error" message={error} dismissible onDismiss={() => setError(null)} />}
+
+        <div className="flex border-b border-forvis-gray-200">
+          {questionnaires.map((questionnaire) => (
+            <button
+              key={questionnaire.questionnaireType}
+              onClick={() => {
+                setType(questionnaire.questionnaireType);
+                setSelectedVersionId(null);
+              }}
+              className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                type === questionnaire.questionnaireType
+                  ? 'border-forvis-blue-600 text-forvis-blue-600'
+                  : 'border-transparent text-forvis-gray-600 hover:text-forvis-gray-900'
+              }`}
+            >
+              {questionnaire.label}
+              <span className="ml-2 text-xs text-forvis-gray-500">
+                {questionnaire.publishedVersion ? `v${questionnaire.publishedVersion.versionNumber}` : 'built-in'}
+                {questionnaire.draftVersion ? ' · draft' : ''}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          {/* Version history */}
+          <div className="space-y-4">
+            <Card>
+              <div className="p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <h2 className="text-sm font-semibold text-forvis-gray-900">Versions</h2>
+                  <Button
+                    size="sm"
+                    variant="primary"
+                    onClick={() => handleCreateDraft()}
+                    disabled={!!draft || createDraft.isPending}
+                    icon={<Plus className="w-4 h-4" />}
+                  >
+                    New Draft
+                  </Button>
+                </div>
+
+                {isLoading || !history ? (
+                  <div className="flex justify-center py-6">
+                    <LoadingSpinner />
+                  </div>
+                ) : (
+                  <ul className="divide-y divide-forvis-gray-100">
+                    {history.versions.map((v) => (
+                      <li
+                        key={v.id}
+                        onClick={() => setSelectedVersionId(v.id)}
+                        className={`py-2 px-2 -mx-2 rounded cursor-pointer text-xs ${
+                          v.id === selectedVersionId ? 'bg-forvis-blue-50' : 'hover:bg-forvis-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-forvis-gray-900">
+                            Version {v.versionNumber}{' '}
+                            <Badge variant={v.status === 'DRAFT' ? 'yellow' : 'green'}>{v.status.toLowerCase()}</Badge>
+                          </span>
+                          {v.status === 'PUBLISHED' && !draft && (
+                            <button
+                              type="button"
+                              title="Start a draft from this version"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleCreateDraft(v.id);
+                              }}
+                              className="p-1 text-forvis-gray-500 hover:text-forvis-blue-600"
+                            >
+                              <Copy className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                        <p className="text-forvis-gray-600">
+                          {v.questionCount} question(s) · {v.responseCount} response(s)
+                        </p>
+                        {v.changeNote && <p className="text-forvis-gray-600 truncate">{v.changeNote}</p>}
+                        <p className="text-forvis-gray-500">
+                          {v.publishedAt ? `Published ${formatDate(v.publishedAt)}` : `Updated ${formatDate(v.updatedAt)}`}
+                          {v.createdBy?.name ? ` · ${v.createdBy.name}` : ''}
+                        </p>
+                      </li>
+                    ))}
+                    <li className="py-2 text-xs">
+                      <span className="font-medium text-forvis-gray-900">Built-in definition</span>
+                      <p className="text-forvis-gray-600">
+                        {history.builtInQuestionCount} question(s) · {history.builtInResponseCount} response(s)
+                      </p>
+                      <p className="text-forvis-gray-500">
+                        {history.versions.some((v) => v.status === 'PUBLISHED')
+                          ? 'Used by responses started before the first published version'
+                          : 'In use - the first draft starts as a copy of it'}
+                      </p>
+                    </li>
+                  </ul>
+                )}
+              </div>
+            </Card>
+          </div>
+
+          {/* Editor */}
+          <div className="lg:col-span-2">
+            {selectedVersionId === null ? (
+              <Card>
+                <p className="p-8 text-sm text-forvis-gray-500 text-center">
+                  Start a draft to edit this questionnaire&apos;s sections and questions.
+                </p>
+              </Card>
+            ) : isLoadingVersion || !version ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : (
+              <VersionEditor
+                key={`${version.id}-${version.updatedAt}`}
+                version={version}
+                onPublish={() => setConfirm('publish')}
+                onDiscard={() => setConfirm('discard')}
+                onMessage={(message, err) => {
+                  setSuccess(message);
+                  setError(err);
+                }}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={confirm !== null}
+        onClose={() => setConfirm(null)}
+        onConfirm={handleConfirm}
+        title={confirm === 'publish' ? 'Publish version' : 'Discard draft'}
+        message={
+          confirm === 'publish'
+            ? `Version ${version?.versionNumber ?? ''} will be used for every new ${history?.label ?? ''} questionnaire. Questionnaires already started keep their version. Published versions cannot be edited.`
+            : `Draft version ${version?.versionNumber ?? ''} and its changes will be deleted.`
+        }
+        confirmText={confirm === 'publish' ? 'Publish' : 'Discard'}
+        variant={confirm === 'publish' ? 'info' : 'danger'}
+        isLoading={publishVersion.isPending || discardDraft.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Acceptance Questionnaires Page
+ * Admin page for editing and publishing versions of the task acceptance questionnaires
+ */
+
+import AcceptanceQuestionnairesPageClient from './AcceptanceQuestionnairesPageClient';
+
+export const metadata = {
+  title: 'Acceptance Questionnaires - Admin',
+  description: 'Edit and publish acceptance and continuance questionnaire versions',
+};
+
+export default function AcceptanceQuestionnairesPage() {
+  return <AcceptanceQuestionnairesPageClient />;
+}
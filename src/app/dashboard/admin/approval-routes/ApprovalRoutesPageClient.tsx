@@ -0,0 +1,421 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { GitBranch, Plus, Save, Rocket, Star, Power } from 'lucide-react';
+import { Badge, Banner, Button, Card, Input, LoadingSpinner } from '@/components/ui';
+import { ConfirmModal } from '@/components/shared/ConfirmModal';
+import { WORKFLOW_NAMES } from '@/components/features/approvals/workflowNames';
+import { CreateRouteModal } from '@/components/features/admin/approval-routes/CreateRouteModal';
+import { RouteDesigner } from '@/components/features/admin/approval-routes/RouteDesigner';
+import { RouteDryRunPanel } from '@/components/features/admin/approval-routes/RouteDryRunPanel';
+import { RouteVersionHistory } from '@/components/features/admin/approval-routes/RouteVersionHistory';
+import {
+  createStage,
+  fromRouteConfig,
+  getDesignerErrors,
+  toRouteConfig,
+  type DesignerRoute,
+} from '@/components/features/admin/approval-routes/designerModel';
+import {
+  useActivateRouteVersion,
+  useApprovalRoute,
+  useApprovalRoutes,
+  useCreateApprovalRoute,
+  useRouteDesignerOptions,
+  useSaveRouteVersion,
+  useUpdateApprovalRoute,
+  type ApprovalRouteSummary,
+  type ApprovalRouteVersion,
+} from '@/hooks/admin/useApprovalRoutes';
+import type { WorkflowType } from '@/types/approval';
+
+type PendingAction =
+  | { action: 'activateVersion'; version: ApprovalRouteVersion }
+  | { action: 'makeDefault' }
+  | { action: 'toggleActive' };
+
+function withWarnings(message: string, warnings: string[]): string {
+  return warnings.length > 0 ? `${message}. Warnings: ${warnings.join('; ')}` : message;
+}
+
+export default function ApprovalRoutesPageClient() {
+  const [selectedRouteId, setSelectedRouteId] = useState<number | null>(null);
+  const [designer, setDesigner] = useState<DesignerRoute | null>(null);
+  const [loadedRouteId, setLoadedRouteId] = useState<number | null>(null);
+  const [loadedVersion, setLoadedVersion] = useState<number | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [changeNote, setChangeNote] = useState('');
+  const [showCreate, setShowCreate] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: routes = [], isLoading } = useApprovalRoutes();
+  const { data: route, isLoading: isLoadingRoute } = useApprovalRoute(selectedRouteId);
+  const { data: options } = useRouteDesignerOptions();
+  const createMutation = useCreateApprovalRoute();
+  const updateMutation = useUpdateApprovalRoute();
+  const saveVersionMutation = useSaveRouteVersion();
+  const activateMutation = useActivateRouteVersion();
+
+  // Auto-hide success messages
+  useEffect(() => {
+    if (success) {
+      const timer = setTimeout(() => setSuccess(null), 5000);
+      return () => clearTimeout(timer);
+    }
+    return undefined;
+  }, [success]);
+
+  // Load the active configuration when a different route is opened (refetches keep unsaved edits)
+  useEffect(() => {
+    if (route && route.id !== loadedRouteId) {
+      setDesigner(fromRouteConfig(route.routeConfig));
+      setLoadedRouteId(route.id);
+      setLoadedVersion(route.activeVersion);
+      setIsDirty(false);
+      setChangeNote('');
+    }
+  }, [route, loadedRouteId]);
+
+  const routesByWorkflow = useMemo(() => {
+    const groups = new Map<WorkflowType, ApprovalRouteSummary[]>();
+    for (const r of routes) {
+      groups.set(r.workflowType, [...(groups.get(r.workflowType) ?? []), r]);
+    }
+    return [...groups.entries()];
+  }, [routes]);
+
+  const designerErrors = designer ? getDesignerErrors(designer) : [];
+  const routeConfig = designer && designerErrors.length === 0 ? toRouteConfig(designer) : null;
+
+  const selectRoute = (routeId: number) => {
+    if (routeId === selectedRouteId) return;
+    if (isDirty && !window.confirm('Discard unsaved changes to this route?')) return;
+    setSelectedRouteId(routeId);
+    setLoadedRouteId(null);
+  };
+
+  const handleDesignerChange = (updated: DesignerRoute) => {
+    setDesigner(updated);
+    setIsDirty(true);
+  };
+
+  const handleLoadVersion = (version: ApprovalRouteVersion) => {
+    if (isDirty && !window.confirm('Discard unsaved changes and open this version?')) return;
+    setDesigner(fromRouteConfig(version.routeConfig));
+    setLoadedVersion(version.versionNumber);
+    setIsDirty(false);
+  };
+
+  const handleCreate = async (params: { workflowType: WorkflowType; routeName: string; description?: string }) => {
+    const initial = toRouteConfig({ requiresAllSteps: true, stages: [createStage()] });
+    const created = await createMutation.mutateAsync({ ...params, routeConfig: initial });
+    setShowCreate(false);
+    setSuccess(`Route "${created.routeName}" created`);
+    setSelectedRouteId(created.id);
+    setLoadedRouteId(null);
+  };
+
+  const handleSave = async (activate: boolean) => {
+    if (!route || !routeConfig) return;
+    setError(null);
+
+    try {
+      const result = await saveVersionMutation.mutateAsync({
+        routeId: route.id,
+        routeConfig,
+        changeNote: changeNote.trim() || undefined,
+        activate,
+      });
+      setLoadedVersion(result.versionNumber);
+      setIsDirty(false);
+      setChangeNote('');
+      setSuccess(
+        withWarnings(
+          activate ? `Version ${result.versionNumber} saved and activated` : `Draft version ${result.versionNumber} saved`,
+          result.warnings
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save route');
+    }
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction || !route) return;
+    setError(null);
+
+    try {
+      if (pendingAction.action === 'activateVersion') {
+        const result = await activateMutation.mutateAsync({
+          routeId: route.id,
+          versionNumber: pendingAction.version.versionNumber,
+        });
+        setSuccess(withWarnings(`Version ${pendingAction.version.versionNumber} is now active`, result.warnings));
+      } else if (pendingAction.action === 'makeDefault') {
+        await updateMutation.mutateAsync({ routeId: route.id, isDefault: true });
+        setSuccess(`"${route.routeName}" is now the default ${WORKFLOW_NAMES[route.workflowType]} route`);
+      } else {
+        await updateMutation.mutateAsync({ routeId: route.id, isActive: !route.isActive });
+        setSuccess(`"${route.routeName}" ${route.isActive ? 'deactivated' : 'activated'}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const confirmCopy = (): { title: string; message: string; confirmText: string } => {
+    if (!pendingAction || !route) return { title: '', message: '', confirmText: 'Confirm' };
+    if (pendingAction.action === 'activateVersion') {
+      return {
+        title: `Activate version ${pendingAction.version.versionNumber}`,
+        message: `New ${WORKFLOW_NAMES[route.workflowType]} approvals routed by "${route.routeName}" will use version ${pendingAction.version.versionNumber}. Approvals already in progress keep their steps.`,
+        confirmText: 'Activate',
+      };
+    }
+    if (pendingAction.action === 'makeDefault') {
+      return {
+        title: 'Make default route',
+        message: `New ${WORKFLOW_NAMES[route.workflowType]} approvals will use "${route.routeName}" unless they name another route.`,
+        confirmText: 'Make Default',
+      };
+    }
+    return {
+      title: route.isActive ? 'Deactivate route' : 'Activate route',
+      message: route.isActive
+        ? `Approvals that ask for "${route.routeName}" by name will fail until it is reactivated.`
+        : `"${route.routeName}" can be used for new approvals again.`,
+      confirmText: route.isActive ? 'Deactivate' : 'Activate',
+    };
+  };
+
+  const confirm = confirmCopy();
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between">
+        <div className="flex items-center space-x-3">
+          <div
+            className="w-12 h-12 rounded-lg flex items-center justify-center shadow-sm"
+            style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+          >
+            <GitBranch className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-semibold text-forvis-gray-900">Approval Routes</h1>
+            <p className="text-sm text-forvis-gray-600 mt-1">
+              Who approves each workflow - changes are saved as versions and only apply once activated
+            </p>
+          </div>
+        </div>
+        <Button variant="primary" onClick={() => setShowCreate(true)} icon={<Plus className="w-4 h-4" />}>
+          New Route
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        {success && <Banner variant="success" message={success} dismissible onDismiss={() => setSuccess(null)} />}
+        {error && <Banner variant="error" message={error} dismissible onDismiss={() => setError(null)} />}
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          {/* Route list */}
+          <Card>
+            <div className="p-4">
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : routesByWorkflow.length === 0 ? (
+                <p className="text-sm text-forvis-gray-500 py-6 text-center">
+                  No routes configured. Seed defaults with prisma/seed-approval-routes.sql.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {routesByWorkflow.map(([workflowType, workflowRoutes]) => (
+                    <div key={workflowType}>
+                      <p className="text-xs font-medium uppercase tracking-wider text-forvis-gray-500 mb-1">
+                        {WORKFLOW_NAMES[workflowType] ?? workflowType}
+                      </p>
+                      <ul className="space-y-1">
+                        {workflowRoutes.map((r) => (
+                          <li key={r.id}>
+                            <button
+                              type="button"
+                              onClick={() => selectRoute(r.id)}
+                              className={`w-full rounded-lg px-3 py-2 text-left text-sm transition-colors ${
+                                r.id === selectedRouteId
+                                  ? 'bg-forvis-blue-50 ring-1 ring-forvis-blue-300'
+                                  : 'hover:bg-forvis-gray-50'
+                              }`}
+                            >
+                              <div className="flex items-center justify-between gap-2">
+                                <span className="font-mono text-forvis-gray-900 truncate">{r.routeName}</span>
+                                <span className="flex shrink-0 gap-1">
+                                  {r.isDefault && <Badge variant="blue">default</Badge>}
+                                  {!r.isActive && <Badge variant="default">inactive</Badge>}
+                                  {r.latestVersion !== null && r.latestVersion !== r.activeVersion && (
+                                    <Badge variant="yellow" title="A newer draft version has not been activated">
+                                      draft
+                                    </Badge>
+                                  )}
+                                </span>
+                              </div>
+                              <p className="text-xs text-forvis-gray-500">
+                                {r.activeVersion ? `v${r.activeVersion}` : 'unversioned'}
+                                {r.description ? ` · ${r.description}` : ''}
+                              </p>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </Card>
+
+          {/* Route editor */}
+          <div className="lg:col-span-2 space-y-6">
+            {selectedRouteId === null ? (
+              <Card>
+                <p className="p-10 text-center text-sm text-forvis-gray-500">
+                  Select a route to design it, or create a new one.
+                </p>
+              </Card>
+            ) : isLoadingRoute || !route || !designer ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : (
+              <>
+                <Card>
+                  <div className="p-6 space-y-4">
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <div>
+                        <h2 className="text-lg font-semibold text-forvis-gray-900 font-mono">{route.routeName}</h2>
+                        <p className="text-sm text-forvis-gray-600">
+                          {WORKFLOW_NAMES[route.workflowType]} · editing{' '}
+                          {loadedVersion ? `v${loadedVersion}` : 'current configuration'}
+                          {loadedVersion !== route.activeVersion && loadedVersion !== null && ' (not active)'}
+                          {isDirty && ' · unsaved changes'}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {!route.isDefault && route.isActive && (
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => setPendingAction({ action: 'makeDefault' })}
+                            icon={<Star className="w-4 h-4" />}
+                          >
+                            Make Default
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => setPendingAction({ action: 'toggleActive' })}
+                          disabled={route.isDefault && route.isActive}
+                          title={
+                            route.isDefault && route.isActive
+                              ? 'The default route cannot be deactivated - make another route the default first'
+                              : undefined
+                          }
+                          icon={<Power className="w-4 h-4" />}
+                        >
+                          {route.isActive ? 'Deactivate' : 'Activate'}
+                        </Button>
+                      </div>
+                    </div>
+
+                    <RouteDesigner route={designer} options={options} onChange={handleDesignerChange} />
+
+                    {designerErrors.length > 0 && (
+                      <Banner variant="warning" message={designerErrors.join('; ')} />
+                    )}
+
+                    <div className="flex flex-wrap items-end gap-3 border-t border-forvis-gray-200 pt-4">
+                      <div className="flex-1 min-w-[240px]">
+                        <Input
+                          label="Change note"
+                          value={changeNote}
+                          onChange={(e) => setChangeNote(e.target.value)}
+                          placeholder="What changed and why"
+                          maxLength={500}
+                        />
+                      </div>
+                      <Button
+                        variant="secondary"
+                        onClick={() => handleSave(false)}
+                        disabled={!routeConfig || !isDirty}
+                        loading={saveVersionMutation.isPending}
+                        icon={<Save className="w-4 h-4" />}
+                      >
+                        Save Draft
+                      </Button>
+                      <Button
+                        variant="primary"
+                        onClick={() => handleSave(true)}
+                        disabled={!routeConfig || !isDirty}
+                        loading={saveVersionMutation.isPending}
+                        icon={<Rocket className="w-4 h-4" />}
+                      >
+                        Save &amp; Activate
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+
+                <Card>
+                  <div className="p-6">
+                    <h3 className="text-sm font-semibold text-forvis-gray-900 mb-1">Dry-run</h3>
+                    <p className="text-xs text-forvis-gray-500 mb-4">
+                      Resolve the configuration in the designer against an existing record. Nothing is saved.
+                    </p>
+                    <RouteDryRunPanel workflowType={route.workflowType} routeConfig={routeConfig} />
+                  </div>
+                </Card>
+
+                <Card>
+                  <div className="p-6">
+                    <h3 className="text-sm font-semibold text-forvis-gray-900 mb-2">Versions</h3>
+                    <RouteVersionHistory
+                      versions={route.versions}
+                      activeVersion={route.activeVersion}
+                      onLoad={handleLoadVersion}
+                      onActivate={(version) => setPendingAction({ action: 'activateVersion', version })}
+                    />
+                  </div>
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <CreateRouteModal
+        isOpen={showCreate}
+        onClose={() => setShowCreate(false)}
+        onCreate={handleCreate}
+        isSaving={createMutation.isPending}
+        initialWorkflowType={route?.workflowType}
+      />
+
+      <ConfirmModal
+        isOpen={pendingAction !== null}
+        onClose={() => setPendingAction(null)}
+        onConfirm={handleConfirmAction}
+        title={confirm.title}
+        message={confirm.message}
+        confirmText={confirm.confirmText}
+        variant={pendingAction?.action === 'toggleActive' && route?.isActive ? 'warning' : 'info'}
+        isLoading={updateMutation.isPending || activateMutation.isPending}
+      />
+    </div>
+  );
+}
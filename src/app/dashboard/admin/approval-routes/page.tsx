@@ -0,0 +1,15 @@
+/**
+ * Approval Routes Page
+ * Admin page for designing, versioning and activating approval routes
+ */
+
+import ApprovalRoutesPageClient from './ApprovalRoutesPageClient';
+
+export const metadata = {
+  title: 'Approval Routes - Admin',
+  description: 'Design who approves each workflow and dry-run routes against real records',
+};
+
+export default function ApprovalRoutesPage() {
+  return <ApprovalRoutesPageClient />;
+}
@@ -0,0 +1,416 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, FileSpreadsheet, Link2, Plus, Power, Trash2, X } from 'lucide-react';
+import { Badge, Banner, Button, Card, Input, LoadingSpinner } from '@/components/ui';
+import { ConfirmModal } from '@/components/shared/ConfirmModal';
+import {
+  useAddStatementMapping,
+  useCreateStatementLine,
+  useDeleteStatementLine,
+  useDeleteStatementMapping,
+  useStatementAccounts,
+  useStatementLines,
+  useUpdateStatementLine,
+} from '@/hooks/admin/useFinancialStatementMapping';
+import {
+  STATEMENT_MAPPING_TYPE_LABELS,
+  STATEMENT_SECTIONS,
+  type FinancialStatementType,
+  type StatementLineConfig,
+  type StatementMappingType,
+  type StatementSection,
+} from '@/types/exco';
+
+const STATEMENTS: Array<{ id: FinancialStatementType; label: string }> = [
+  { id: 'INCOME_STATEMENT', label: 'Income Statement' },
+  { id: 'BALANCE_SHEET', label: 'Balance Sheet' },
+];
+
+const MAPPING_TYPE_OPTIONS = (Object.keys(STATEMENT_MAPPING_TYPE_LABELS) as StatementMappingType[]).map((type) => ({
+  value: type,
+  label: STATEMENT_MAPPING_TYPE_LABELS[type],
+}));
+
+export default function FinancialStatementsPageClient() {
+  const [statement, setStatement] = useState<FinancialStatementType>('INCOME_STATEMENT');
+  const [selectedLineId, setSelectedLineId] = useState<number | null>(null);
+  const [newLineNames, setNewLineNames] = useState<Partial<Record<StatementSection, string>>>({});
+  const [ruleType, setRuleType] = useState<StatementMappingType>('PREFIX');
+  const [rulePattern, setRulePattern] = useState('');
+  const [accountSearch, setAccountSearch] = useState('');
+  const [unmappedOnly, setUnmappedOnly] = useState(true);
+  const [pendingDelete, setPendingDelete] = useState<StatementLineConfig | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: lines = [], isLoading } = useStatementLines();
+  const { data: accounts = [], isLoading: isLoadingAccounts } = useStatementAccounts(
+    statement,
+    accountSearch.trim(),
+    unmappedOnly
+  );
+  const createLine = useCreateStatementLine();
+  const updateLine = useUpdateStatementLine();
+  const deleteLine = useDeleteStatementLine();
+  const addMapping = useAddStatementMapping();
+  const deleteMapping = useDeleteStatementMapping();
+
+  // Auto-hide success messages
+  useEffect(() => {
+    if (success) {
+      const timer = setTimeout(() => setSuccess(null), 5000);
+      return () => clearTimeout(timer);
+    }
+    return undefined;
+  }, [success]);
+
+  const sections = useMemo(
+    () => (Object.keys(STATEMENT_SECTIONS) as StatementSection[]).filter((s) => STATEMENT_SECTIONS[s].statement === statement),
+    [statement]
+  );
+  const selectedLine = lines.find((line) => line.id === selectedLineId) ?? null;
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    setError(null);
+    try {
+      await action();
+      setSuccess(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleAddLine = (section: StatementSection) => {
+    const name = newLineNames[section]?.trim();
+    if (!name) return;
+    void run(async () => {
+      const line = await createLine.mutateAsync({ section, name });
+      setNewLineNames((prev) => ({ ...prev, [section]: '' }));
+      setSelectedLineId(line.id);
+    }, `Line "${name}" added`);
+  };
+
+  const handleMove = (line: StatementLineConfig, direction: -1 | 1) => {
+    const sectionLines = lines.filter((l) => l.section === line.section);
+    const neighbour = sectionLines[sectionLines.findIndex((l) => l.id === line.id) + direction];
+    if (!neighbour) return;
+    // Lines added together can share a sort order - spread them out before swapping
+    const neighbourOrder = neighbour.sortOrder === line.sortOrder ? line.sortOrder + direction : neighbour.sortOrder;
+    void run(async () => {
+      await updateLine.mutateAsync({ lineId: line.id, sortOrder: neighbourOrder });
+      await updateLine.mutateAsync({ lineId: neighbour.id, sortOrder: line.sortOrder });
+    }, `"${line.name}" moved`);
+  };
+
+  const handleAddRule = (pattern: string, matchType: StatementMappingType) => {
+    if (!selectedLine || !pattern.trim()) return;
+    void run(async () => {
+      await addMapping.mutateAsync({ lineId: selectedLine.id, matchType, pattern: pattern.trim() });
+      setRulePattern('');
+    }, `${STATEMENT_MAPPING_TYPE_LABELS[matchType]} ${pattern.trim()} mapped to "${selectedLine.name}"`);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    const line = pendingDelete;
+    await run(async () => {
+      await deleteLine.mutateAsync(line.id);
+      if (selectedLineId === line.id) setSelectedLineId(null);
+    }, `Line "${line.name}" deleted`);
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between">
+        <div className="flex items-center space-x-3">
+          <div
+            className="w-12 h-12 rounded-lg flex items-center justify-center shadow-sm"
+            style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+          >
+            <FileSpreadsheet className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-semibold text-forvis-gray-900">Financial Statement Mapping</h1>
+            <p className="text-sm text-forvis-gray-600 mt-1">
+              Group GL accounts into income statement and balance sheet lines - an account rule beats the longest
+              prefix, which beats a GL category
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {success && <Banner variant="success" message={success} dismissible onDismiss={() => setSuccess(null)} />}
+        {error && <Banner variant="error" message={error} dismissible onDismiss={() => setError(null)} />}
+
+        <div className="flex border-b border-forvis-gray-200">
+          {STATEMENTS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => {
+                setStatement(tab.id);
+                setSelectedLineId(null);
+              }}
+              className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                statement === tab.id
+                  ? 'border-forvis-blue-600 text-forvis-blue-600'
+                  : 'border-transparent text-forvis-gray-600 hover:text-forvis-gray-900'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          {/* Lines by section */}
+          <div className="lg:col-span-2 space-y-4">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : (
+              sections.map((section) => {
+                const sectionLines = lines.filter((line) => line.section === section);
+                return (
+                  <Card key={section}>
+                    <div className="p-4 space-y-2">
+                      <h2 className="text-sm font-semibold uppercase tracking-wide text-forvis-blue-700">
+                        {STATEMENT_SECTIONS[section].label}
+                      </h2>
+
+                      {sectionLines.length === 0 && (
+                        <p className="text-xs text-forvis-gray-500">No lines yet</p>
+                      )}
+
+                      {sectionLines.map((line, index) => (
+                        <div
+                          key={line.id}
+                          onClick={() => setSelectedLineId(line.id)}
+                          className={`rounded-lg border px-3 py-2 cursor-pointer transition-colors ${
+                            line.id === selectedLineId
+                              ? 'border-forvis-blue-300 bg-forvis-blue-50'
+                              : 'border-forvis-gray-200 hover:bg-forvis-gray-50'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className={`text-sm font-medium ${line.active ? 'text-forvis-gray-900' : 'text-forvis-gray-400 line-through'}`}>
+                              {line.name}
+                            </span>
+                            <span className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                              {!line.active && <Badge variant="default">inactive</Badge>}
+                              <button
+                                type="button"
+                                title="Move up"
+                                disabled={index === 0}
+                                onClick={() => handleMove(line, -1)}
+                                className="p-1 text-forvis-gray-500 hover:text-forvis-gray-900 disabled:opacity-30"
+                              >
+                                <ArrowUp className="h-4 w-4" />
+                              </button>
+                              <button
+                                type="button"
+                                title="Move down"
+                                disabled={index === sectionLines.length - 1}
+                                onClick={() => handleMove(line, 1)}
+                                className="p-1 text-forvis-gray-500 hover:text-forvis-gray-900 disabled:opacity-30"
+                              >
+                                <ArrowDown className="h-4 w-4" />
+                              </button>
+                              <button
+                                type="button"
+                                title={line.active ? 'Deactivate' : 'Activate'}
+                                onClick={() =>
+                                  void run(
+                                    () => updateLine.mutateAsync({ lineId: line.id, active: !line.active }),
+                                    `"${line.name}" ${line.active ? 'deactivated' : 'activated'}`
+                                  )
+                                }
+                                className="p-1 text-forvis-gray-500 hover:text-forvis-gray-900"
+                              >
+                                <Power className="h-4 w-4" />
+                              </button>
+                              <button
+                                type="button"
+                                title="Delete"
+                                onClick={() => setPendingDelete(line)}
+                                className="p-1 text-forvis-gray-500 hover:text-forvis-error-600"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </span>
+                          </div>
+
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {line.mappings.length === 0 && (
+                              <span className="text-xs text-forvis-gray-400">No mapping rules</span>
+                            )}
+                            {line.mappings.map((mapping) => (
+                              <span
+                                key={mapping.id}
+                                className="inline-flex items-center gap-1 rounded-full bg-forvis-gray-100 px-2 py-0.5 text-xs text-forvis-gray-700"
+                              >
+                                <span className="text-forvis-gray-500">{STATEMENT_MAPPING_TYPE_LABELS[mapping.matchType]}</span>
+                                <span className="font-mono">{mapping.pattern}</span>
+                                <button
+                                  type="button"
+                                  title="Remove rule"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    void run(
+                                      () => deleteMapping.mutateAsync({ lineId: line.id, mappingId: mapping.id }),
+                                      `Rule ${mapping.pattern} removed from "${line.name}"`
+                                    );
+                                  }}
+                                  className="text-forvis-gray-400 hover:text-forvis-error-600"
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+
+                      <div className="flex items-center gap-2 pt-1">
+                        <div className="flex-1">
+                          <Input
+                            value={newLineNames[section] ?? ''}
+                            onChange={(e) => setNewLineNames((prev) => ({ ...prev, [section]: e.target.value }))}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAddLine(section)}
+                            placeholder={`New ${STATEMENT_SECTIONS[section].label.toLowerCase()} line`}
+                            maxLength={150}
+                          />
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => handleAddLine(section)}
+                          disabled={!newLineNames[section]?.trim() || createLine.isPending}
+                          icon={<Plus className="w-4 h-4" />}
+                        >
+                          Add Line
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                );
+              })
+            )}
+          </div>
+
+          {/* Rules and accounts */}
+          <div className="space-y-4">
+            <Card>
+              <div className="p-4 space-y-3">
+                <h2 className="text-sm font-semibold text-forvis-gray-900">
+                  {selectedLine ? `Add rule to "${selectedLine.name}"` : 'Add rule'}
+                </h2>
+                {selectedLine ? (
+                  <>
+                    <Input
+                      variant="select"
+                      label="Match"
+                      value={ruleType}
+                      onChange={(e) => setRuleType(e.target.value as StatementMappingType)}
+                      options={MAPPING_TYPE_OPTIONS}
+                    />
+                    <Input
+                      label={STATEMENT_MAPPING_TYPE_LABELS[ruleType]}
+                      value={rulePattern}
+                      onChange={(e) => setRulePattern(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddRule(rulePattern, ruleType)}
+                      placeholder={ruleType === 'CATEGORY' ? 'e.g. INC' : 'e.g. 4000'}
+                      maxLength={30}
+                    />
+                    <Button
+                      variant="primary"
+                      onClick={() => handleAddRule(rulePattern, ruleType)}
+                      disabled={!rulePattern.trim() || addMapping.isPending}
+                      icon={<Link2 className="w-4 h-4" />}
+                    >
+                      Add Rule
+                    </Button>
+                  </>
+                ) : (
+                  <p className="text-xs text-forvis-gray-500">Select a line to add account, prefix or category rules.</p>
+                )}
+              </div>
+            </Card>
+
+            <Card>
+              <div className="p-4 space-y-3">
+                <h2 className="text-sm font-semibold text-forvis-gray-900">Chart of Accounts</h2>
+                <Input
+                  value={accountSearch}
+                  onChange={(e) => setAccountSearch(e.target.value)}
+                  placeholder="Search account, description or category"
+                  maxLength={100}
+                />
+                <label className="flex items-center gap-2 text-xs text-forvis-gray-700">
+                  <input type="checkbox" checked={unmappedOnly} onChange={(e) => setUnmappedOnly(e.target.checked)} />
+                  Unmapped only
+                </label>
+
+                {isLoadingAccounts ? (
+                  <div className="flex justify-center py-6">
+                    <LoadingSpinner />
+                  </div>
+                ) : accounts.length === 0 ? (
+                  <p className="text-xs text-forvis-gray-500 py-4 text-center">
+                    {unmappedOnly ? 'Every account is mapped' : 'No accounts found'}
+                  </p>
+                ) : (
+                  <ul className="max-h-[32rem] overflow-y-auto divide-y divide-forvis-gray-100">
+                    {accounts.map((account) => (
+                      <li key={account.gsAccountId} className="py-2 text-xs">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-mono text-forvis-gray-900">{account.account}</span>
+                          {account.lineName ? (
+                            <Badge variant="blue">{account.lineName}</Badge>
+                          ) : (
+                            <Badge variant="yellow">unmapped</Badge>
+                          )}
+                        </div>
+                        <p className="text-forvis-gray-600 truncate">{account.description}</p>
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-forvis-gray-500 truncate">
+                            {account.category}
+                            {account.categoryDesc ? ` · ${account.categoryDesc}` : ''}
+                          </span>
+                          {selectedLine && account.lineId !== selectedLine.id && (
+                            <button
+                              type="button"
+                              onClick={() => handleAddRule(account.account, 'ACCOUNT')}
+                              className="shrink-0 font-medium text-forvis-blue-600 hover:text-forvis-blue-800"
+                            >
+                              Map here
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Delete statement line"
+        message={`"${pendingDelete?.name ?? ''}" and its ${pendingDelete?.mappings.length ?? 0} mapping rule(s) will be deleted. Its accounts will show under their GL category until mapped again.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteLine.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Financial Statement Mapping Page
+ * Admin page for grouping GL accounts into income statement and balance sheet lines
+ */
+
+import FinancialStatementsPageClient from './FinancialStatementsPageClient';
+
+export const metadata = {
+  title: 'Financial Statement Mapping - Admin',
+  description: 'Map GL accounts to income statement and balance sheet lines',
+};
+
+export default function FinancialStatementsPage() {
+  return <FinancialStatementsPageClient />;
+}
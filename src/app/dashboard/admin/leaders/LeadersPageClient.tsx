@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Users, Plus, Search } from 'lucide-react';
 import { LeaderGroupCard } from '@/components/features/admin/leaders/LeaderGroupCard';
 import { CreateGroupModal } from '@/components/features/admin/leaders/CreateGroupModal';
@@ -24,16 +24,28 @@ interface LeaderGroupMember {
   employee: Employee;
 }
 
+interface LeaderGroupServiceLine {
+  masterCode: string;
+  ServiceLineMaster: { name: string };
+}
+
 interface LeaderGroup {
   id: number;
   name: string;
   description: string | null;
   type: 'GROUP' | 'INDIVIDUAL';
   members: LeaderGroupMember[];
+  LeaderGroupServiceLine: LeaderGroupServiceLine[];
+}
+
+interface ServiceLineOption {
+  code: string;
+  name: string;
 }
 
 export default function LeadersPageClient() {
   const [groups, setGroups] = useState<LeaderGroup[]>([]);
+  const [serviceLineOptions, setServiceLineOptions] = useState<ServiceLineOption[]>([]);
   const [filteredGroups, setFilteredGroups] = useState<LeaderGroup[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState<'ALL' | 'GROUP' | 'INDIVIDUAL'>('ALL');
@@ -56,11 +68,17 @@ export default function LeadersPageClient() {
     employeeName: string;
   } | null>(null);
 
-  // Fetch groups on mount
+  // Fetch groups and the service lines they can lead on mount
   useEffect(() => {
     fetchGroups();
+    fetchServiceLineOptions();
   }, []);
 
+  const selectedServiceLines = useMemo(
+    () => selectedGroup?.LeaderGroupServiceLine.map((sl) => sl.masterCode) ?? [],
+    [selectedGroup]
+  );
+
   // Filter groups when search term or type filter changes
   useEffect(() => {
     let filtered = groups;
@@ -118,6 +136,19 @@ export default function LeadersPageClient() {
     }
   };
 
+  const fetchServiceLineOptions = async () => {
+    try {
+      const response = await fetch('/api/admin/leaders/service-lines');
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setServiceLineOptions(data.data);
+      }
+    } catch {
+      setError('An error occurred while loading service lines');
+    }
+  };
+
   const handleCreateGroup = async (data: { name: string; description?: string; type: 'GROUP' | 'INDIVIDUAL' }) => {
     setError(null);
     try {
@@ -143,7 +174,7 @@ export default function LeadersPageClient() {
     }
   };
 
-  const handleEditGroup = async (data: { name?: string; description?: string }) => {
+  const handleEditGroup = async (data: { name?: string; description?: string; serviceLines?: string[] }) => {
     if (!selectedGroup) return;
 
     setError(null);
@@ -456,6 +487,8 @@ export default function LeadersPageClient() {
             currentName={selectedGroup.name}
             currentDescription={selectedGroup.description}
             currentType={selectedGroup.type}
+            currentServiceLines={selectedServiceLines}
+            serviceLineOptions={serviceLineOptions}
           />
 
           <AddMembersModal
@@ -0,0 +1,437 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Layers,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+  Eye,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Banner, Button, Card, LoadingSpinner } from '@/components/ui';
+import { ConfirmModal } from '@/components/shared/ConfirmModal';
+import { JobDetailModal } from '@/components/features/admin/queues/JobDetailModal';
+import { JobStatusBadge } from '@/components/features/admin/queues/JobStatusBadge';
+import { WorkerList } from '@/components/features/admin/queues/WorkerList';
+import {
+  useQueues,
+  useQueueDetail,
+  useQueueJobs,
+  useRetryFailedJobs,
+  usePurgeFailedJobs,
+} from '@/hooks/admin/useQueues';
+import type { ListableJobStatus } from '@/lib/queue/QueueService';
+
+const STATUS_TABS: { id: ListableJobStatus; label: string }[] = [
+  { id: 'failed', label: 'Failed' },
+  { id: 'processing', label: 'Processing' },
+  { id: 'pending', label: 'Pending' },
+];
+
+const PAGE_SIZE = 25;
+
+type PendingAction = {
+  action: 'retry' | 'purge';
+  all: boolean;
+};
+
+export default function QueuesPageClient() {
+  const [selectedQueue, setSelectedQueue] = useState<string | null>(null);
+  const [statusTab, setStatusTab] = useState<ListableJobStatus>('failed');
+  const [page, setPage] = useState(1);
+  const [selectedJobIds, setSelectedJobIds] = useState<string[]>([]);
+  const [viewJobId, setViewJobId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: overview, isLoading, refetch, isFetching } = useQueues();
+  const { data: detail } = useQueueDetail(selectedQueue);
+  const { data: jobPage, isLoading: jobsLoading, refetch: refetchJobs } = useQueueJobs(
+    selectedQueue,
+    statusTab,
+    page,
+    PAGE_SIZE
+  );
+  const retryMutation = useRetryFailedJobs();
+  const purgeMutation = usePurgeFailedJobs();
+
+  // Default to the first queue once loaded
+  useEffect(() => {
+    if (!selectedQueue && overview?.queues.length) {
+      setSelectedQueue(overview.queues[0]!.name);
+    }
+  }, [overview, selectedQueue]);
+
+  // Reset paging and selection when the view changes
+  useEffect(() => {
+    setPage(1);
+    setSelectedJobIds([]);
+  }, [selectedQueue, statusTab]);
+
+  // Auto-hide success messages
+  useEffect(() => {
+    if (success) {
+      const timer = setTimeout(() => setSuccess(null), 5000);
+      return () => clearTimeout(timer);
+    }
+    return undefined;
+  }, [success]);
+
+  const jobs = jobPage?.jobs ?? [];
+  const allOnPageSelected = jobs.length > 0 && jobs.every((job) => selectedJobIds.includes(job.id));
+
+  const toggleJob = (jobId: string) => {
+    setSelectedJobIds((prev) =>
+      prev.includes(jobId) ? prev.filter((id) => id !== jobId) : [...prev, jobId]
+    );
+  };
+
+  const toggleAllOnPage = () => {
+    setSelectedJobIds(allOnPageSelected ? [] : jobs.map((job) => job.id));
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction || !selectedQueue) return;
+
+    const mutation = pendingAction.action === 'retry' ? retryMutation : purgeMutation;
+    setError(null);
+
+    try {
+      const result = await mutation.mutateAsync({
+        queueName: selectedQueue,
+        ...(pendingAction.all ? { all: true } : { jobIds: selectedJobIds }),
+      });
+
+      const verb = pendingAction.action === 'retry' ? 'Re-enqueued' : 'Purged';
+      const skippedNote = result.skipped.length > 0
+        ? ` (${result.skipped.length} skipped - no longer in the failed set)`
+        : '';
+      setSuccess(`${verb} ${result.affected} job${result.affected === 1 ? '' : 's'}${skippedNote}`);
+      setSelectedJobIds([]);
+      refetchJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const chartData = (detail?.history ?? []).map((snapshot) => ({
+    time: new Date(snapshot.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+    pending: snapshot.pending,
+    processing: snapshot.processing,
+    failed: snapshot.failed,
+  }));
+
+  const failedCount = overview?.queues.find((q) => q.name === selectedQueue)?.stats.failed ?? 0;
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between">
+        <div className="flex items-center space-x-3">
+          <div
+            className="w-12 h-12 rounded-lg flex items-center justify-center shadow-sm"
+            style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+          >
+            <Layers className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-semibold text-forvis-gray-900">Queue Management</h1>
+            <p className="text-sm text-forvis-gray-600 mt-1">
+              Monitor background jobs, inspect failures and replay dead-lettered jobs
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="secondary"
+          onClick={() => {
+            refetch();
+            refetchJobs();
+          }}
+          loading={isFetching}
+          icon={<RefreshCw className="w-4 h-4" />}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        {overview && !overview.redisAvailable && (
+          <Banner
+            variant="warning"
+            title="Redis unavailable"
+            message="Queues are backed by Redis. Counts will show zero until the connection is restored."
+          />
+        )}
+        {success && <Banner variant="success" message={success} dismissible onDismiss={() => setSuccess(null)} />}
+        {error && <Banner variant="error" message={error} dismissible onDismiss={() => setError(null)} />}
+
+        {/* Queue Cards */}
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {overview?.queues.map((q) => {
+              const isSelected = q.name === selectedQueue;
+              return (
+                <button
+                  key={q.name}
+                  onClick={() => setSelectedQueue(q.name)}
+                  className={`text-left rounded-lg p-4 shadow-corporate border-2 transition-all ${
+                    isSelected ? 'border-forvis-blue-500' : 'border-forvis-blue-100 hover:border-forvis-blue-300'
+                  }`}
+                  style={{ background: 'linear-gradient(135deg, #F0F7FD 0%, #E0EDFB 100%)' }}
+                >
+                  <p className="text-xs font-medium text-forvis-gray-600 uppercase tracking-wider">{q.name}</p>
+                  <p className="text-2xl font-bold mt-2 text-forvis-blue-600">{q.stats.total}</p>
+                  <div className="mt-2 flex gap-3 text-xs text-forvis-gray-600">
+                    <span>{q.stats.pending} pending</span>
+                    <span>{q.stats.processing} processing</span>
+                    <span className={q.stats.failed > 0 ? 'text-red-600 font-semibold' : ''}>
+                      {q.stats.failed} failed
+                    </span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {overview && <WorkerList workers={overview.workers} />}
+
+        {selectedQueue && (
+          <>
+            {/* Stats Trend */}
+            <Card>
+              <div className="p-6">
+                <h2 className="text-lg font-semibold text-forvis-gray-900 mb-4">
+                  {selectedQueue} - last 24 hours
+                </h2>
+                {chartData.length < 2 ? (
+                  <p className="text-sm text-forvis-gray-500">
+                    Not enough history yet. Snapshots are recorded at most once a minute while this page is open.
+                  </p>
+                ) : (
+                  <ResponsiveContainer width="100%" height={240}>
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                      <XAxis dataKey="time" tick={{ fontSize: 11 }} />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                      <Tooltip />
+                      <Legend />
+                      <Line type="monotone" dataKey="pending" stroke="#F59E0B" dot={false} />
+                      <Line type="monotone" dataKey="processing" stroke="#2E5AAC" dot={false} />
+                      <Line type="monotone" dataKey="failed" stroke="#DC2626" dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+            </Card>
+
+            {/* Jobs */}
+            <Card>
+              <div className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <nav className="flex space-x-6">
+                    {STATUS_TABS.map((tab) => (
+                      <button
+                        key={tab.id}
+                        onClick={() => setStatusTab(tab.id)}
+                        className={`pb-2 border-b-2 text-sm font-medium transition-colors ${
+                          statusTab === tab.id
+                            ? 'border-forvis-blue-600 text-forvis-blue-600'
+                            : 'border-transparent text-forvis-gray-500 hover:text-forvis-gray-700'
+                        }`}
+                      >
+                        {tab.label}
+                      </button>
+                    ))}
+                  </nav>
+
+                  {statusTab === 'failed' && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        disabled={selectedJobIds.length === 0}
+                        onClick={() => setPendingAction({ action: 'retry', all: false })}
+                        icon={<RotateCcw className="w-4 h-4" />}
+                      >
+                        Retry Selected ({selectedJobIds.length})
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="danger"
+                        disabled={selectedJobIds.length === 0}
+                        onClick={() => setPendingAction({ action: 'purge', all: false })}
+                        icon={<Trash2 className="w-4 h-4" />}
+                      >
+                        Purge Selected
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="primary"
+                        disabled={failedCount === 0}
+                        onClick={() => setPendingAction({ action: 'retry', all: true })}
+                      >
+                        Retry All
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="danger"
+                        disabled={failedCount === 0}
+                        onClick={() => setPendingAction({ action: 'purge', all: true })}
+                      >
+                        Purge All
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {jobPage && jobPage.missing.length > 0 && (
+                  <p className="mb-3 text-xs text-forvis-gray-500">
+                    {jobPage.missing.length} job reference{jobPage.missing.length === 1 ? '' : 's'} on this page
+                    {' '}point to expired job data and are hidden.
+                  </p>
+                )}
+
+                {jobsLoading ? (
+                  <div className="flex justify-center py-8">
+                    <LoadingSpinner />
+                  </div>
+                ) : jobs.length === 0 ? (
+                  <p className="text-sm text-forvis-gray-500 py-6 text-center">No {statusTab} jobs</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-forvis-gray-200 text-sm">
+                      <thead className="bg-forvis-gray-50">
+                        <tr>
+                          {statusTab === 'failed' && (
+                            <th className="px-3 py-2 w-8">
+                              <input type="checkbox" checked={allOnPageSelected} onChange={toggleAllOnPage} />
+                            </th>
+                          )}
+                          <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Job</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Type</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Status</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Attempts</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Updated</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Error</th>
+                          <th className="px-3 py-2" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-forvis-gray-100">
+                        {jobs.map((job) => (
+                          <tr key={job.id} className="hover:bg-forvis-gray-50">
+                            {statusTab === 'failed' && (
+                              <td className="px-3 py-2">
+                                <input
+                                  type="checkbox"
+                                  checked={selectedJobIds.includes(job.id)}
+                                  onChange={() => toggleJob(job.id)}
+                                />
+                              </td>
+                            )}
+                            <td className="px-3 py-2 font-mono text-xs text-forvis-gray-700">{job.id.slice(0, 16)}…</td>
+                            <td className="px-3 py-2 text-forvis-gray-900">{job.type}</td>
+                            <td className="px-3 py-2">
+                              <JobStatusBadge status={job.status} />
+                            </td>
+                            <td className="px-3 py-2 text-forvis-gray-700">
+                              {job.attempts} / {job.maxAttempts}
+                            </td>
+                            <td className="px-3 py-2 text-forvis-gray-700 whitespace-nowrap">
+                              {new Date(job.updatedAt ?? job.createdAt).toLocaleString()}
+                            </td>
+                            <td className="px-3 py-2 text-red-600 max-w-xs truncate" title={job.error}>
+                              {job.error ?? '—'}
+                            </td>
+                            <td className="px-3 py-2 text-right">
+                              <button
+                                onClick={() => setViewJobId(job.id)}
+                                className="text-forvis-blue-600 hover:text-forvis-blue-800"
+                                title="Inspect job"
+                              >
+                                <Eye className="w-4 h-4" />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {/* Pagination */}
+                {jobPage && jobPage.totalPages > 1 && (
+                  <div className="mt-4 flex items-center justify-between text-sm text-forvis-gray-600">
+                    <span>
+                      Page {page} of {jobPage.totalPages} ({jobPage.total} jobs)
+                    </span>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        disabled={page <= 1}
+                        onClick={() => setPage((p) => p - 1)}
+                        icon={<ChevronLeft className="w-4 h-4" />}
+                      >
+                        Previous
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        disabled={page >= jobPage.totalPages}
+                        onClick={() => setPage((p) => p + 1)}
+                        icon={<ChevronRight className="w-4 h-4" />}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </Card>
+
+            <JobDetailModal
+              queueName={selectedQueue}
+              jobId={viewJobId}
+              onClose={() => setViewJobId(null)}
+            />
+          </>
+        )}
+      </div>
+
+      <ConfirmModal
+        isOpen={pendingAction !== null}
+        onClose={() => setPendingAction(null)}
+        onConfirm={handleConfirmAction}
+        title={pendingAction?.action === 'retry' ? 'Retry Failed Jobs' : 'Purge Failed Jobs'}
+        message={
+          pendingAction?.action === 'retry'
+            ? `Re-enqueue ${pendingAction.all ? `all ${failedCount}` : selectedJobIds.length} failed job(s) in "${selectedQueue}" with a fresh attempt budget?`
+            : `Permanently delete ${pendingAction?.all ? `all ${failedCount}` : selectedJobIds.length} failed job(s) in "${selectedQueue}"? This cannot be undone.`
+        }
+        confirmText={pendingAction?.action === 'retry' ? 'Retry' : 'Purge'}
+        variant={pendingAction?.action === 'retry' ? 'warning' : 'danger'}
+        isLoading={retryMutation.isPending || purgeMutation.isPending}
+      />
+    </div>
+  );
+}
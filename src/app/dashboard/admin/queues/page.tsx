@@ -0,0 +1,15 @@
+/**
+ * Queue Management Page
+ * Admin page for monitoring background job queues and replaying dead-lettered jobs
+ */
+
+import QueuesPageClient from './QueuesPageClient';
+
+export const metadata = {
+  title: 'Queues - Admin',
+  description: 'Monitor background job queues and manage failed jobs',
+};
+
+export default function QueuesPage() {
+  return <QueuesPageClient />;
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CalendarClock, RefreshCw, Play, Pause, History, Pencil } from 'lucide-react';
+import { Badge, Banner, Button, Card, LoadingSpinner } from '@/components/ui';
+import { ConfirmModal } from '@/components/shared/ConfirmModal';
+import { EditScheduleModal } from '@/components/features/admin/schedules/EditScheduleModal';
+import { ScheduleRunsModal } from '@/components/features/admin/schedules/ScheduleRunsModal';
+import { ScheduleRunStatusBadge } from '@/components/features/admin/schedules/ScheduleRunStatusBadge';
+import {
+  useSchedules,
+  useUpdateSchedule,
+  useTriggerSchedule,
+  type JobSchedule,
+} from '@/hooks/admin/useSchedules';
+
+type PendingAction = {
+  action: 'trigger' | 'pause' | 'resume';
+  schedule: JobSchedule;
+};
+
+const ACTION_LABELS: Record<PendingAction['action'], string> = {
+  trigger: 'Run Now',
+  pause: 'Pause',
+  resume: 'Resume',
+};
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+export default function SchedulesPageClient() {
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [editSchedule, setEditSchedule] = useState<JobSchedule | null>(null);
+  const [historySchedule, setHistorySchedule] = useState<JobSchedule | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: overview, isLoading, refetch, isFetching } = useSchedules();
+  const updateMutation = useUpdateSchedule();
+  const triggerMutation = useTriggerSchedule();
+
+  // Auto-hide success messages
+  useEffect(() => {
+    if (success) {
+      const timer = setTimeout(() => setSuccess(null), 5000);
+      return () => clearTimeout(timer);
+    }
+    return undefined;
+  }, [success]);
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+
+    const { action, schedule } = pendingAction;
+    setError(null);
+
+    try {
+      if (action === 'trigger') {
+        const result = await triggerMutation.mutateAsync(schedule.id);
+        if (result.status === 'FAILED') {
+          setError(`"${schedule.name}" could not be enqueued: ${result.error ?? 'Unknown error'}`);
+        } else {
+          setSuccess(`"${schedule.name}" enqueued`);
+        }
+      } else {
+        await updateMutation.mutateAsync({ scheduleId: schedule.id, enabled: action === 'resume' });
+        setSuccess(`"${schedule.name}" ${action === 'resume' ? 'resumed' : 'paused'}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleSaveCron = async (cronExpression: string) => {
+    if (!editSchedule) return;
+    setError(null);
+
+    try {
+      await updateMutation.mutateAsync({ scheduleId: editSchedule.id, cronExpression });
+      setSuccess(`"${editSchedule.name}" now runs on "${cronExpression}"`);
+      setEditSchedule(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  };
+
+  const schedules = overview?.schedules ?? [];
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between">
+        <div className="flex items-center space-x-3">
+          <div
+            className="w-12 h-12 rounded-lg flex items-center justify-center shadow-sm"
+            style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+          >
+            <CalendarClock className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-semibold text-forvis-gray-900">Scheduled Jobs</h1>
+            <p className="text-sm text-forvis-gray-600 mt-1">
+              Recurring background jobs - cron expressions are evaluated in UTC
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="secondary"
+          onClick={() => refetch()}
+          loading={isFetching}
+          icon={<RefreshCw className="w-4 h-4" />}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        {overview && !overview.redisAvailable && (
+          <Banner
+            variant="warning"
+            title="Redis unavailable"
+            message="Schedules will not fire and cannot be run manually until the queue connection is restored."
+          />
+        )}
+        {success && <Banner variant="success" message={success} dismissible onDismiss={() => setSuccess(null)} />}
+        {error && <Banner variant="error" message={error} dismissible onDismiss={() => setError(null)} />}
+
+        <Card>
+          <div className="p-6">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : schedules.length === 0 ? (
+              <p className="text-sm text-forvis-gray-500 py-6 text-center">
+                No schedules configured. Seed defaults with prisma/seed-job-schedules.sql.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-forvis-gray-200 text-sm">
+                  <thead className="bg-forvis-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Schedule</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Cron</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Target</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">State</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Last Run</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Next Run</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-forvis-gray-100">
+                    {schedules.map((schedule) => (
+                      <tr key={schedule.id} className="hover:bg-forvis-gray-50">
+                        <td className="px-3 py-2">
+                          <p className="font-medium text-forvis-gray-900">{schedule.name}</p>
+                          {schedule.description && (
+                            <p className="text-xs text-forvis-gray-500">{schedule.description}</p>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 font-mono text-xs text-forvis-gray-700 whitespace-nowrap">
+                          {schedule.cronExpression}
+                        </td>
+                        <td className="px-3 py-2 text-xs text-forvis-gray-700">
+                          {schedule.queueName} / {schedule.jobType}
+                        </td>
+                        <td className="px-3 py-2">
+                          <Badge variant={schedule.enabled ? 'green' : 'default'} dot>
+                            {schedule.enabled ? 'active' : 'paused'}
+                          </Badge>
+                        </td>
+                        <td className="px-3 py-2 text-forvis-gray-700 whitespace-nowrap">
+                          <div className="flex items-center gap-2">
+                            <span>{formatDate(schedule.lastRunAt)}</span>
+                            {schedule.lastRun && <ScheduleRunStatusBadge status={schedule.lastRun.status} />}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-forvis-gray-700 whitespace-nowrap">
+                          {schedule.enabled ? formatDate(schedule.nextRunAt) : '—'}
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              onClick={() => setPendingAction({ action: 'trigger', schedule })}
+                              icon={<Play className="w-4 h-4" />}
+                            >
+                              Run Now
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              onClick={() =>
+                                setPendingAction({ action: schedule.enabled ? 'pause' : 'resume', schedule })
+                              }
+                              icon={schedule.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                            >
+                              {schedule.enabled ? 'Pause' : 'Resume'}
+                            </Button>
+                            <button
+                              onClick={() => setEditSchedule(schedule)}
+                              className="text-forvis-blue-600 hover:text-forvis-blue-800 p-1"
+                              title="Edit cron expression"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setHistorySchedule(schedule)}
+                              className="text-forvis-blue-600 hover:text-forvis-blue-800 p-1"
+                              title="Run history"
+                            >
+                              <History className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <EditScheduleModal
+        schedule={editSchedule}
+        onClose={() => setEditSchedule(null)}
+        onSave={handleSaveCron}
+        isSaving={updateMutation.isPending}
+      />
+
+      <ScheduleRunsModal schedule={historySchedule} onClose={() => setHistorySchedule(null)} />
+
+      <ConfirmModal
+        isOpen={pendingAction !== null}
+        onClose={() => setPendingAction(null)}
+        onConfirm={handleConfirmAction}
+        title={pendingAction ? `${ACTION_LABELS[pendingAction.action]}: ${pendingAction.schedule.name}` : ''}
+        message={
+          pendingAction?.action === 'trigger'
+            ? `Enqueue "${pendingAction.schedule.name}" now? Its regular schedule is not affected.`
+            : pendingAction?.action === 'pause'
+              ? `Pause "${pendingAction.schedule.name}"? It will not run until resumed.`
+              : `Resume "${pendingAction?.schedule.name}"? Occurrences missed while paused are not replayed.`
+        }
+        confirmText={pendingAction ? ACTION_LABELS[pendingAction.action] : 'Confirm'}
+        variant={pendingAction?.action === 'pause' ? 'warning' : 'info'}
+        isLoading={updateMutation.isPending || triggerMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Scheduled Jobs Page
+ * Admin page for pausing, resuming and manually triggering recurring jobs
+ */
+
+import SchedulesPageClient from './SchedulesPageClient';
+
+export const metadata = {
+  title: 'Scheduled Jobs - Admin',
+  description: 'Manage recurring background jobs and review their run history',
+};
+
+export default function SchedulesPage() {
+  return <SchedulesPageClient />;
+}
@@ -0,0 +1,314 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, BookOpen, Plus, Save, Trash2 } from 'lucide-react';
+import { Badge, Banner, Button, Card, Input, LoadingSpinner } from '@/components/ui';
+import { ConfirmModal } from '@/components/shared/ConfirmModal';
+import { usePageAccess } from '@/hooks/permissions/usePageAccess';
+import {
+  useCreateEngagementLetterClause,
+  useDeleteEngagementLetterClause,
+  useEngagementLetterClauses,
+  useUpdateEngagementLetterClause,
+} from '@/hooks/admin/useEngagementLetterClauses';
+import type { EngagementLetterClause } from '@/types/engagementLetter';
+
+const SERVICE_LINES = [
+  { value: '', label: 'All service lines' },
+  { value: 'TAX', label: 'Tax' },
+  { value: 'AUDIT', label: 'Audit' },
+  { value: 'ACCOUNTING', label: 'Accounting' },
+  { value: 'ADVISORY', label: 'Advisory' },
+];
+
+interface ClauseForm {
+  title: string;
+  content: string;
+  category: string;
+  serviceLine: string;
+  isDefault: boolean;
+  active: boolean;
+  sortOrder: number;
+}
+
+const EMPTY_FORM: ClauseForm = {
+  title: '',
+  content: '',
+  category: '',
+  serviceLine: '',
+  isDefault: false,
+  active: true,
+  sortOrder: 0,
+};
+
+function toForm(clause: EngagementLetterClause): ClauseForm {
+  return {
+    title: clause.title,
+    content: clause.content,
+    category: clause.category ?? '',
+    serviceLine: clause.serviceLine ?? '',
+    isDefault: clause.isDefault,
+    active: clause.active,
+    sortOrder: clause.sortOrder,
+  };
+}
+
+const serviceLineLabel = (code: string | null) =>
+  SERVICE_LINES.find((s) => s.value === (code ?? ''))?.label ?? code;
+
+export default function ClauseLibraryPageClient() {
+  const { canEdit } = usePageAccess();
+  const { data: clauses = [], isLoading } = useEngagementLetterClauses();
+  const createClause = useCreateEngagementLetterClause();
+  const updateClause = useUpdateEngagementLetterClause();
+  const deleteClause = useDeleteEngagementLetterClause();
+
+  // null = nothing open, 'new' = unsaved clause, number = clause being edited
+  const [selected, setSelected] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<ClauseForm>(EMPTY_FORM);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    setError(null);
+    try {
+      await action();
+      setSuccess(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const update = (changes: Partial<ClauseForm>) => setForm((current) => ({ ...current, ...changes }));
+
+  const open = (clause: EngagementLetterClause | null) => {
+    setSelected(clause ? clause.id : 'new');
+    setForm(clause ? toForm(clause) : EMPTY_FORM);
+  };
+
+  const handleSave = () => {
+    const payload = {
+      ...form,
+      category: form.category.trim() || null,
+      serviceLine: form.serviceLine || null,
+    };
+    void run(async () => {
+      if (selected === 'new') {
+        const created = await createClause.mutateAsync(payload);
+        setSelected(created.id);
+      } else if (selected !== null) {
+        await updateClause.mutateAsync({ clauseId: selected, ...payload });
+      }
+    }, `Clause "${form.title}" saved`);
+  };
+
+  const handleDelete = () =>
+    void run(async () => {
+      if (typeof selected === 'number') await deleteClause.mutateAsync(selected);
+      setSelected(null);
+      setConfirmDelete(false);
+    }, 'Clause deleted');
+
+  const isSaving = createClause.isPending || updateClause.isPending;
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between">
+        <div className="flex items-center space-x-3">
+          <div
+            className="w-12 h-12 rounded-lg flex items-center justify-center shadow-sm"
+            style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+          >
+            <BookOpen className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-semibold text-forvis-gray-900">Clause Library</h1>
+            <p className="text-sm text-forvis-gray-600 mt-1">
+              Optional clauses partners can add to generated engagement letters - use {'{{mergeField}}'} placeholders
+              such as {'{{clientName}}'} or {'{{totalFees}}'}
+            </p>
+          </div>
+        </div>
+        <Link
+          href="/dashboard/admin/templates"
+          className="inline-flex items-center text-sm font-medium text-forvis-blue-600 hover:text-forvis-blue-800"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Templates
+        </Link>
+      </div>
+
+      <div className="space-y-6">
+        {success && <Banner variant="success" message={success} dismissible onDismiss={() => setSuccess(null)} />}
+        {error && <Banner variant="error" message={error} dismissible onDismiss={() => setError(null)} />}
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          {/* Clause list */}
+          <Card>
+            <div className="p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h2 className="text-sm font-semibold text-forvis-gray-900">Clauses</h2>
+                {canEdit && (
+                  <Button size="sm" variant="primary" onClick={() => open(null)} icon={<Plus className="w-4 h-4" />}>
+                    New Clause
+                  </Button>
+                )}
+              </div>
+
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <LoadingSpinner />
+                </div>
+              ) : clauses.length === 0 ? (
+                <p className="text-xs text-forvis-gray-600">No clauses yet.</p>
+              ) : (
+                <ul className="divide-y divide-forvis-gray-100">
+                  {clauses.map((clause) => (
+                    <li
+                      key={clause.id}
+                      onClick={() => open(clause)}
+                      className={`py-2 px-2 -mx-2 rounded cursor-pointer text-xs ${
+                        clause.id === selected ? 'bg-forvis-blue-50' : 'hover:bg-forvis-gray-50'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-forvis-gray-900">{clause.title}</span>
+                        <span className="flex items-center gap-1">
+                          {clause.isDefault && <Badge variant="blue" size="sm">Default</Badge>}
+                          {!clause.active && <Badge size="sm">Inactive</Badge>}
+                        </span>
+                      </div>
+                      <p className="text-forvis-gray-500 mt-0.5">
+                        {serviceLineLabel(clause.serviceLine)}
+                        {clause.category && ` · ${clause.category}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </Card>
+
+          {/* Editor */}
+          <div className="lg:col-span-2">
+            {selected === null ? (
+              <Card>
+                <p className="p-6 text-sm text-forvis-gray-600">Select a clause to view or edit it.</p>
+              </Card>
+            ) : (
+              <Card>
+                <div className="p-4 space-y-4">
+                  <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    <Input
+                      label="Title"
+                      value={form.title}
+                      onChange={(e) => update({ title: e.target.value })}
+                      disabled={!canEdit}
+                      maxLength={200}
+                      required
+                    />
+                    <Input
+                      label="Category"
+                      value={form.category}
+                      onChange={(e) => update({ category: e.target.value })}
+                      disabled={!canEdit}
+                      maxLength={100}
+                      helperText="e.g. Limitation of liability, Data protection"
+                    />
+                    <Input
+                      variant="select"
+                      label="Service line"
+                      value={form.serviceLine}
+                      onChange={(e) => update({ serviceLine: e.target.value })}
+                      options={SERVICE_LINES}
+                      disabled={!canEdit}
+                    />
+                    <Input
+                      variant="number"
+                      label="Sort order"
+                      value={form.sortOrder}
+                      min={0}
+                      onChange={(e) => update({ sortOrder: Math.max(0, Number(e.target.value) || 0) })}
+                      disabled={!canEdit}
+                    />
+                  </div>
+                  <Input
+                    variant="textarea"
+                    label="Content (markdown)"
+                    rows={12}
+                    value={form.content}
+                    onChange={(e) => update({ content: e.target.value })}
+                    disabled={!canEdit}
+                    required
+                  />
+                  <div className="flex flex-wrap gap-6 text-sm text-forvis-gray-700">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={form.isDefault}
+                        onChange={(e) => update({ isDefault: e.target.checked })}
+                        disabled={!canEdit}
+                        className="h-4 w-4 text-forvis-blue-600 border-forvis-gray-300 rounded"
+                      />
+                      Selected by default
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={form.active}
+                        onChange={(e) => update({ active: e.target.checked })}
+                        disabled={!canEdit}
+                        className="h-4 w-4 text-forvis-blue-600 border-forvis-gray-300 rounded"
+                      />
+                      Active
+                    </label>
+                  </div>
+
+                  {canEdit && (
+                    <div className="flex items-center justify-between pt-2 border-t border-forvis-gray-100">
+                      {typeof selected === 'number' ? (
+                        <Button
+                          size="sm"
+                          variant="danger"
+                          onClick={() => setConfirmDelete(true)}
+                          icon={<Trash2 className="w-4 h-4" />}
+                        >
+                          Delete
+                        </Button>
+                      ) : (
+                        <span />
+                      )}
+                      <Button
+                        size="sm"
+                        variant="primary"
+                        onClick={handleSave}
+                        disabled={isSaving || !form.title.trim() || !form.content.trim()}
+                        icon={<Save className="w-4 h-4" />}
+                      >
+                        {isSaving ? 'Saving...' : 'Save Clause'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        title="Delete clause"
+        message={`"${form.title}" will no longer be offered on engagement letters. Letters already generated keep their text.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteClause.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Engagement Letter Clause Library Page
+ * Admin page for the optional clauses partners add to generated engagement letters
+ */
+
+import ClauseLibraryPageClient from './ClauseLibraryPageClient';
+
+export const metadata = {
+  title: 'Clause Library - Admin',
+  description: 'Manage the engagement letter clauses offered per service line',
+};
+
+export default function ClauseLibraryPage() {
+  return <ClauseLibraryPageClient />;
+}
@@ -2,7 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { FileText, Plus, Upload } from 'lucide-react';
+import Link from 'next/link';
+import { BookOpen, FileText, Plus, Upload } from 'lucide-react';
 import { TemplateList } from '@/components/features/templates/TemplateList';
 import { TemplateUploadWizard } from '@/components/features/templates/wizard/TemplateUploadWizard';
 import { TemplateManualWizard } from '@/components/features/templates/wizard/TemplateManualWizard';
@@ -192,24 +193,30 @@ export default function TemplatesPage() {
               </p>
             </div>
             
-            <EditActionWrapper>
-              <div className="flex items-center gap-2">
-                <button
-                  onClick={() => setShowUploadWizard(true)}
-                  className="btn-primary flex items-center"
-                  style={{
-                    background: 'linear-gradient(to right, #2E5AAC, #25488A)',
-                  }}
-                >
-                  <Upload className="h-5 w-5 mr-2" />
-                  Upload Template
-                </button>
-                <button onClick={handleCreateNew} className="btn-secondary flex items-center">
-                  <Plus className="h-5 w-5 mr-2" />
-                  Create Manual
-                </button>
-              </div>
-            </EditActionWrapper>
+            <div className="flex items-center gap-2">
+              <Link href="/dashboard/admin/templates/clauses" className="btn-secondary flex items-center">
+                <BookOpen className="h-5 w-5 mr-2" />
+                Clause Library
+              </Link>
+              <EditActionWrapper>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setShowUploadWizard(true)}
+                    className="btn-primary flex items-center"
+                    style={{
+                      background: 'linear-gradient(to right, #2E5AAC, #25488A)',
+                    }}
+                  >
+                    <Upload className="h-5 w-5 mr-2" />
+                    Upload Template
+                  </button>
+                  <button onClick={handleCreateNew} className="btn-secondary flex items-center">
+                    <Plus className="h-5 w-5 mr-2" />
+                    Create Manual
+                  </button>
+                </div>
+              </EditActionWrapper>
+            </div>
           </div>
         </div>
 
@@ -4,7 +4,13 @@ import { useState, useEffect } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { ChevronRight, FileText, Settings } from 'lucide-react';
-import { DocumentCard, DocumentFilterBar, ServiceLineVaultAdmin, DocumentDetailModal } from '@/components/features/document-vault';
+import {
+  DocumentCard,
+  DocumentFilterBar,
+  ServiceLineVaultAdmin,
+  DocumentDetailModal,
+  DocumentSearchResults,
+} from '@/components/features/document-vault';
 import { LoadingSpinner } from '@/components/ui';
 import { formatServiceLineName } from '@/lib/utils/serviceLineUtils';
 import { hasServiceLineRole } from '@/lib/utils/roleHierarchy';
@@ -32,6 +38,10 @@ export function DocumentLibraryClient() {
   const isServiceLineAdmin = serviceLine && serviceLineRole && hasServiceLineRole(serviceLineRole, 'MANAGER');
   const canAdminister = isSystemAdmin || isServiceLineAdmin;
 
+  // Two or more characters switch the library over to ranked search
+  const searchQuery: string = filters.search?.trim() ?? '';
+  const isSearching = searchQuery.length >= 2;
+
   // Fetch categories
   useEffect(() => {
     fetch('/api/document-vault/categories')
@@ -49,8 +59,9 @@ export function DocumentLibraryClient() {
     setIsLoading(true);
     const params = new URLSearchParams();
     
+    // Text queries go to the search endpoint instead (see DocumentSearchResults)
     Object.entries(filters).forEach(([key, value]) => {
-      if (value) params.append(key, String(value));
+      if (value && key !== 'search') params.append(key, String(value));
     });
 
     fetch(`/api/document-vault?${params}`)
@@ -172,8 +183,19 @@ export function DocumentLibraryClient() {
                   categories={categories}
                 />
 
-                {/* Document Grid */}
-                {documents.length === 0 ? (
+                {/* Search Results */}
+                {isSearching ? (
+                  <DocumentSearchResults
+                    key={`${filters.categoryId ?? ''}-${filters.documentType ?? ''}-${filters.serviceLine ?? ''}`}
+                    query={searchQuery}
+                    initialFilters={{
+                      categoryIds: filters.categoryId ? [filters.categoryId] : [],
+                      documentTypes: filters.documentType ? [filters.documentType] : [],
+                      serviceLines: filters.serviceLine ? [filters.serviceLine] : [],
+                    }}
+                    onSelect={(id) => setSelectedDocumentId(id)}
+                  />
+                ) : documents.length === 0 ? (
                   <div className="text-center py-12">
                     <p className="text-forvis-gray-600">No documents found</p>
                   </div>
@@ -7,6 +7,7 @@ import { Button, LoadingSpinner } from '@/components/ui';
 import { useFeature } from '@/hooks/permissions/useFeature';
 import { Feature } from '@/lib/permissions/features';
 import { DocumentPreviewModal } from '@/components/features/document-vault/DocumentPreviewModal';
+import { SimilarDocuments } from '@/components/features/document-vault/SimilarDocuments';
 
 export function DocumentDetailClient({ documentId, hideBackButton = false }: { documentId: string; hideBackButton?: boolean }) {
   const router = useRouter();
@@ -291,6 +292,9 @@ export function DocumentDetailClient({ documentId, hideBackButton = false }: { d
         </div>
       )}
 
+      {/* Similar Documents */}
+      <SimilarDocuments documentId={documentId} />
+
       {/* Version History */}
       {document.versions && document.versions.length > 1 && (
         <div className="p-6 bg-white rounded-lg border border-forvis-gray-200">
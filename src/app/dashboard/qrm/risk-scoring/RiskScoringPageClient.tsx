@@ -0,0 +1,778 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ChevronRight, Copy, FlaskConical, Plus, Power, Save, Scale, Trash2 } from 'lucide-react';
+import { Badge, Banner, Button, Card, Input, LoadingSpinner } from '@/components/ui';
+import { ConfirmModal } from '@/components/shared/ConfirmModal';
+import {
+  useActivateRiskScoringModel,
+  useCreateRiskScoringModel,
+  useDeleteRiskScoringModel,
+  useRiskScoringModel,
+  useRiskScoringModels,
+  useRiskScoringOptions,
+  useSimulateRiskScoringModel,
+  useUpdateRiskScoringModel,
+} from '@/hooks/qrm/useRiskScoring';
+import type {
+  RiskRating,
+  RiskScoringConfig,
+  RiskScoringModelDetail,
+  RiskScoringModelStatus,
+  RiskScoringOptions,
+  RiskScoringQuestion,
+  RiskSimulationResult,
+  RiskThresholds,
+} from '@/types/riskScoring';
+
+const RATINGS: RiskRating[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const STATUS_BADGE: Record<RiskScoringModelStatus, 'yellow' | 'green' | 'default'> = {
+  DRAFT: 'yellow',
+  ACTIVE: 'green',
+  RETIRED: 'default',
+};
+
+const RATING_BADGE: Record<RiskRating, 'green' | 'yellow' | 'red'> = {
+  LOW: 'green',
+  MEDIUM: 'yellow',
+  HIGH: 'red',
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('en-ZA');
+
+const clamp = (value: string, max: number) => Math.min(max, Math.max(0, Number(value) || 0));
+
+interface ThresholdInputsProps {
+  thresholds: RiskThresholds;
+  readOnly: boolean;
+  onChange: (thresholds: RiskThresholds) => void;
+}
+
+function ThresholdInputs({ thresholds, readOnly, onChange }: ThresholdInputsProps) {
+  return (
+    <>
+      <Input
+        variant="number"
+        label="LOW up to"
+        value={String(thresholds.lowMax)}
+        onChange={(e) => onChange({ ...thresholds, lowMax: clamp(e.target.value, 100) })}
+        min={0}
+        max={100}
+        disabled={readOnly}
+      />
+      <Input
+        variant="number"
+        label="MEDIUM up to"
+        value={String(thresholds.mediumMax)}
+        onChange={(e) => onChange({ ...thresholds, mediumMax: clamp(e.target.value, 100) })}
+        min={0}
+        max={100}
+        disabled={readOnly}
+      />
+    </>
+  );
+}
+
+interface QuestionScoringProps {
+  question: RiskScoringQuestion;
+  config: RiskScoringConfig;
+  readOnly: boolean;
+  onChange: (config: RiskScoringConfig) => void;
+}
+
+/**
+ * Answer scores and knockouts for one question
+ * Without graded scores the question's high-risk answers score 100%.
+ */
+function QuestionScoring({ question, config, readOnly, onChange }: QuestionScoringProps) {
+  const graded = config.answerScores[question.questionKey];
+  const knockout = config.knockouts.find((k) => k.questionKey === question.questionKey);
+
+  const setGraded = (scores: Record<string, number> | null) => {
+    const { [question.questionKey]: _removed, ...rest } = config.answerScores;
+    onChange({ ...config, answerScores: scores ? { ...rest, [question.questionKey]: scores } : rest });
+  };
+
+  const toggleKnockout = (option: string) => {
+    const answers = knockout?.answers.includes(option)
+      ? knockout.answers.filter((a) => a !== option)
+      : [...(knockout?.answers ?? []), option];
+    const others = config.knockouts.filter((k) => k.questionKey !== question.questionKey);
+    onChange({
+      ...config,
+      knockouts: answers.length > 0 ? [...others, { questionKey: question.questionKey, answers }] : others,
+    });
+  };
+
+  const defaultScore = (option: string) => (question.highRiskAnswers.includes(option) ? 1 : 0);
+
+  return (
+    <div className="rounded-lg border border-forvis-gray-200 p-3 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <p className="text-sm text-forvis-gray-900">
+          <span className="font-mono text-xs text-forvis-gray-500 mr-2">{question.questionKey}</span>
+          {question.questionText}
+        </p>
+        <span className="shrink-0 text-xs text-forvis-gray-600">Weight {question.riskWeight}</span>
+      </div>
+
+      {question.options.length === 0 ? (
+        <p className="text-xs text-forvis-gray-500">Free-text question - not scored</p>
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-xs text-forvis-gray-700">
+            <input
+              type="checkbox"
+              checked={!!graded}
+              disabled={readOnly}
+              onChange={(e) =>
+                setGraded(
+                  e.target.checked
+                    ? Object.fromEntries(question.options.map((option) => [option, defaultScore(option)]))
+                    : null
+                )
+              }
+            />
+            Graded answer scores
+          </label>
+          <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+            {question.options.map((option) => (
+              <div key={option} className="flex items-center gap-2 text-xs">
+                <span className="flex-1 truncate text-forvis-gray-700" title={option}>
+                  {option}
+                </span>
+                {graded ? (
+                  <span className="w-20">
+                    <Input
+                      variant="number"
+                      value={String(Math.round((graded[option] ?? 0) * 100))}
+                      onChange={(e) => setGraded({ ...graded, [option]: clamp(e.target.value, 100) / 100 })}
+                      min={0}
+                      max={100}
+                      step={5}
+                      disabled={readOnly}
+                      aria-label={`Score for ${option} (%)`}
+                    />
+                  </span>
+                ) : (
+                  <span className="w-20 text-right text-forvis-gray-500">{defaultScore(option) * 100}%</span>
+                )}
+                <label className="flex items-center gap-1 text-forvis-gray-600" title="Rate HIGH whatever the score">
+                  <input
+                    type="checkbox"
+                    checked={knockout?.answers.includes(option) ?? false}
+                    disabled={readOnly}
+                    onChange={() => toggleKnockout(option)}
+                  />
+                  Auto HIGH
+                </label>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SimulationResults({ simulation }: { simulation: RiskSimulationResult }) {
+  return (
+    <Card>
+      <div className="p-4 space-y-4">
+        <div>
+          <h2 className="text-sm font-semibold text-forvis-gray-900">Simulation</h2>
+          <p className="text-xs text-forvis-gray-600">
+            {simulation.total} completed client acceptance(s) re-scored on {formatDate(simulation.simulatedAt)} and
+            compared with {simulation.activeModelName ? `"${simulation.activeModelName}"` : 'the default model'}.
+            Saved ratings are not changed.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          {[
+            { label: 'Would change rating', value: simulation.changed },
+            { label: 'Rating up', value: simulation.increased },
+            { label: 'Rating down', value: simulation.decreased },
+            { label: 'Auto HIGH', value: simulation.knockoutCount },
+          ].map((stat) => (
+            <div key={stat.label} className="rounded-lg border border-forvis-blue-100 bg-forvis-blue-50 p-3">
+              <p className="text-xs font-medium uppercase tracking-wider text-forvis-gray-600">{stat.label}</p>
+              <p className="text-2xl font-semibold text-forvis-gray-900">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-forvis-gray-600">
+                <th className="py-1 text-left font-medium">Current \ Proposed</th>
+                {RATINGS.map((rating) => (
+                  <th key={rating} className="py-1 text-right font-medium">
+                    {rating}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-forvis-gray-100">
+              {RATINGS.map((current) => (
+                <tr key={current}>
+                  <td className="py-1 font-medium text-forvis-gray-900">{current}</td>
+                  {RATINGS.map((proposed) => (
+                    <td
+                      key={proposed}
+                      className={`py-1 text-right ${
+                        current === proposed ? 'text-forvis-gray-500' : 'font-semibold text-forvis-gray-900'
+                      }`}
+                    >
+                      {simulation.matrix[current][proposed]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-forvis-gray-600">
+                <th className="py-1 text-left font-medium">Service line</th>
+                <th className="py-1 text-right font-medium">Clients</th>
+                <th className="py-1 text-right font-medium">Changed</th>
+                <th className="py-1 text-right font-medium">Up</th>
+                <th className="py-1 text-right font-medium">Down</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-forvis-gray-100">
+              {simulation.byServiceLine.map((row) => (
+                <tr key={row.serviceLine}>
+                  <td className="py-1 text-forvis-gray-900">{row.serviceLineName}</td>
+                  <td className="py-1 text-right">{row.total}</td>
+                  <td className="py-1 text-right font-semibold">{row.changed}</td>
+                  <td className="py-1 text-right">{row.increased}</td>
+                  <td className="py-1 text-right">{row.decreased}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {simulation.changes.length > 0 && (
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-forvis-gray-600">
+                  <th className="py-1 text-left font-medium">Client</th>
+                  <th className="py-1 text-right font-medium">Current</th>
+                  <th className="py-1 text-right font-medium">Proposed</th>
+                  <th className="py-1 text-left font-medium pl-3">Auto HIGH</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-forvis-gray-100">
+                {simulation.changes.map((change) => (
+                  <tr key={change.clientAcceptanceId}>
+                    <td className="py-1 text-forvis-gray-900">
+                      {change.clientName ?? change.clientCode}
+                      <span className="ml-1 text-forvis-gray-500">({change.clientCode})</span>
+                    </td>
+                    <td className="py-1 text-right">
+                      {change.currentScore.toFixed(1)}{' '}
+                      <Badge variant={RATING_BADGE[change.currentRating]}>{change.currentRating}</Badge>
+                    </td>
+                    <td className="py-1 text-right">
+                      {change.proposedScore.toFixed(1)}{' '}
+                      <Badge variant={RATING_BADGE[change.proposedRating]}>{change.proposedRating}</Badge>
+                    </td>
+                    <td className="py-1 pl-3 text-forvis-gray-600">{change.knockouts.join(', ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {simulation.changes.length < simulation.changed && (
+              <p className="pt-2 text-xs text-forvis-gray-500">
+                Showing the {simulation.changes.length} largest of {simulation.changed} changes
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+interface ModelEditorProps {
+  model: RiskScoringModelDetail;
+  options: RiskScoringOptions;
+  onMessage: (success: string | null, error: string | null) => void;
+  onSimulate: () => void;
+  onActivate: () => void;
+  onDelete: () => void;
+  isSimulating: boolean;
+}
+
+function ModelEditor({ model, options, onMessage, onSimulate, onActivate, onDelete, isSimulating }: ModelEditorProps) {
+  const readOnly = model.status !== 'DRAFT';
+  const [name, setName] = useState(model.name);
+  const [description, setDescription] = useState(model.description ?? '');
+  const [config, setConfig] = useState<RiskScoringConfig>(model.config);
+  const [isDirty, setIsDirty] = useState(false);
+  const [questionnaireType, setQuestionnaireType] = useState(options.questionnaires[0]?.questionnaireType ?? '');
+  const updateModel = useUpdateRiskScoringModel();
+
+  const questionnaire = options.questionnaires.find((q) => q.questionnaireType === questionnaireType);
+  const overrideCodes = Object.keys(config.serviceLineThresholds);
+  const unusedServiceLines = options.serviceLines.filter((sl) => !overrideCodes.includes(sl.code));
+
+  const change = (next: RiskScoringConfig) => {
+    setConfig(next);
+    setIsDirty(true);
+  };
+
+  const setOverride = (code: string, thresholds: RiskThresholds | null) => {
+    const { [code]: _removed, ...rest } = config.serviceLineThresholds;
+    change({ ...config, serviceLineThresholds: thresholds ? { ...rest, [code]: thresholds } : rest });
+  };
+
+  const setSectionWeight = (key: string, value: string) => {
+    const { [key]: _removed, ...rest } = config.sectionWeights;
+    change({ ...config, sectionWeights: value === '' ? rest : { ...rest, [key]: clamp(value, 10) } });
+  };
+
+  const handleSave = async () => {
+    onMessage(null, null);
+    try {
+      await updateModel.mutateAsync({
+        modelId: model.id,
+        name: name.trim(),
+        description: description.trim() || null,
+        config,
+      });
+      setIsDirty(false);
+      onMessage(`"${name.trim()}" saved - simulate it before activating`, null);
+    } catch (err) {
+      onMessage(null, err instanceof Error ? err.message : 'Failed to save scoring model');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <div className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-sm font-semibold text-forvis-gray-900">
+              {model.name} <Badge variant={STATUS_BADGE[model.status]}>{model.status.toLowerCase()}</Badge>
+            </h2>
+            {!readOnly && (
+              <span className="flex items-center gap-2">
+                <Button size="sm" variant="secondary" onClick={onDelete} icon={<Trash2 className="w-4 h-4" />}>
+                  Delete
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={handleSave}
+                  loading={updateModel.isPending}
+                  disabled={!isDirty || !name.trim() || updateModel.isPending}
+                  icon={<Save className="w-4 h-4" />}
+                >
+                  Save
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={onSimulate}
+                  loading={isSimulating}
+                  disabled={isDirty || isSimulating}
+                  icon={<FlaskConical className="w-4 h-4" />}
+                >
+                  Simulate
+                </Button>
+                <Button
+                  size="sm"
+                  variant="primary"
+                  onClick={onActivate}
+                  disabled={isDirty || !model.simulatedAt}
+                  icon={<Power className="w-4 h-4" />}
+                >
+                  Activate
+                </Button>
+              </span>
+            )}
+          </div>
+          {readOnly ? (
+            <p className="text-xs text-forvis-gray-600">
+              {model.status === 'ACTIVE'
+                ? `Scoring every questionnaire since ${model.activatedAt ? formatDate(model.activatedAt) : ''}.`
+                : 'Retired.'}{' '}
+              Active and retired models cannot be changed; copy one into a new draft instead.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                <Input
+                  label="Name"
+                  value={name}
+                  onChange={(e) => {
+                    setName(e.target.value);
+                    setIsDirty(true);
+                  }}
+                  maxLength={100}
+                />
+                <Input
+                  label="Description"
+                  value={description}
+                  onChange={(e) => {
+                    setDescription(e.target.value);
+                    setIsDirty(true);
+                  }}
+                  maxLength={500}
+                />
+              </div>
+              {isDirty && <p className="text-xs text-forvis-gray-500">Save the draft before simulating.</p>}
+              {!isDirty && !model.simulatedAt && (
+                <p className="text-xs text-forvis-gray-500">Simulate the draft to see its effect before activating it.</p>
+              )}
+            </>
+          )}
+        </div>
+      </Card>
+
+      {model.simulation && <SimulationResults simulation={model.simulation} />}
+
+      <Card>
+        <div className="p-4 space-y-3">
+          <div>
+            <h2 className="text-sm font-semibold text-forvis-gray-900">Rating thresholds</h2>
+            <p className="text-xs text-forvis-gray-600">
+              Scores are 0-100. Scores above the MEDIUM threshold are rated HIGH.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <p className="self-end pb-2 text-sm text-forvis-gray-900">All service lines</p>
+            <ThresholdInputs
+              thresholds={config.thresholds}
+              readOnly={readOnly}
+              onChange={(thresholds) => change({ ...config, thresholds })}
+            />
+          </div>
+          {overrideCodes.map((code) => (
+            <div key={code} className="grid grid-cols-1 gap-3 md:grid-cols-3">
+              <span className="flex items-end gap-2 pb-2 text-sm text-forvis-gray-900">
+                {!readOnly && (
+                  <button
+                    type="button"
+                    title="Remove override"
+                    onClick={() => setOverride(code, null)}
+                    className="p-1 text-forvis-gray-500 hover:text-forvis-error-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+                {options.serviceLines.find((sl) => sl.code === code)?.name ?? code}
+              </span>
+              <ThresholdInputs
+                thresholds={config.serviceLineThresholds[code]!}
+                readOnly={readOnly}
+                onChange={(thresholds) => setOverride(code, thresholds)}
+              />
+            </div>
+          ))}
+          {!readOnly && unusedServiceLines.length > 0 && (
+            <div className="w-72">
+              <Input
+                variant="select"
+                label="Add service line override"
+                value=""
+                onChange={(e) => e.target.value && setOverride(e.target.value, { ...config.thresholds })}
+                options={[
+                  { value: '', label: 'Select a service line' },
+                  ...unusedServiceLines.map((sl) => ({ value: sl.code, label: sl.name })),
+                ]}
+              />
+            </div>
+          )}
+        </div>
+      </Card>
+
+      <div className="flex border-b border-forvis-gray-200">
+        {options.questionnaires.map((q) => (
+          <button
+            key={q.questionnaireType}
+            onClick={() => setQuestionnaireType(q.questionnaireType)}
+            className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+              questionnaireType === q.questionnaireType
+                ? 'border-forvis-blue-600 text-forvis-blue-600'
+                : 'border-transparent text-forvis-gray-600 hover:text-forvis-gray-900'
+            }`}
+          >
+            {q.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-forvis-gray-600">
+        Section weights, answer scores and knockouts apply to every questionnaire that uses the same section or
+        question key.
+      </p>
+
+      {questionnaire?.sections.map((section) => (
+        <Card key={section.key}>
+          <div className="p-4 space-y-3">
+            <div className="flex items-end justify-between gap-3">
+              <h3 className="pb-2 text-sm font-semibold text-forvis-gray-900">{section.title}</h3>
+              <div className="w-40">
+                <Input
+                  variant="number"
+                  label="Section weight"
+                  value={config.sectionWeights[section.key] !== undefined ? String(config.sectionWeights[section.key]) : ''}
+                  onChange={(e) => setSectionWeight(section.key, e.target.value)}
+                  placeholder="1"
+                  min={0}
+                  max={10}
+                  step={0.25}
+                  disabled={readOnly}
+                />
+              </div>
+            </div>
+            {section.questions.map((question) => (
+              <QuestionScoring
+                key={question.questionKey}
+                question={question}
+                config={config}
+                readOnly={readOnly}
+                onChange={change}
+              />
+            ))}
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+export default function RiskScoringPageClient() {
+  const [selectedModelId, setSelectedModelId] = useState<number | null>(null);
+  const [confirm, setConfirm] = useState<'activate' | 'delete' | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: models, isLoading } = useRiskScoringModels();
+  const { data: model, isLoading: isLoadingModel } = useRiskScoringModel(selectedModelId);
+  const { data: options } = useRiskScoringOptions();
+  const createModel = useCreateRiskScoringModel();
+  const simulateModel = useSimulateRiskScoringModel();
+  const activateModel = useActivateRiskScoringModel();
+  const deleteModel = useDeleteRiskScoringModel();
+
+  // Auto-hide success messages
+  useEffect(() => {
+    if (success) {
+      const timer = setTimeout(() => setSuccess(null), 5000);
+      return () => clearTimeout(timer);
+    }
+    return undefined;
+  }, [success]);
+
+  // Open the first model (active, or newest) on load
+  useEffect(() => {
+    if (models && selectedModelId === null && models.length > 0) {
+      setSelectedModelId(models[0]!.id);
+    }
+  }, [models, selectedModelId]);
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    setError(null);
+    try {
+      await action();
+      setSuccess(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleCreate = (fromModelId?: number) =>
+    void run(async () => {
+      const created = await createModel.mutateAsync({
+        name: `Draft ${new Date().toLocaleDateString('en-ZA')}`,
+        fromModelId,
+      });
+      setSelectedModelId(created.id);
+    }, 'Draft model created');
+
+  const handleSimulate = () => {
+    if (!model) return;
+    void run(async () => {
+      const result = await simulateModel.mutateAsync(model.id);
+      setSuccess(`${result.changed} of ${result.total} client(s) would change rating`);
+    }, 'Simulation complete');
+  };
+
+  const handleConfirm = async () => {
+    if (!model) return;
+    if (confirm === 'activate') {
+      await run(() => activateModel.mutateAsync(model.id), `"${model.name}" is now the active scoring model`);
+    } else if (confirm === 'delete') {
+      await run(async () => {
+        await deleteModel.mutateAsync(model.id);
+        setSelectedModelId(null);
+      }, `"${model.name}" deleted`);
+    }
+    setConfirm(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-forvis-gray-50">
+      <div className="w-full px-4 sm:px-6 lg:px-8 py-8">
+        {/* Breadcrumb */}
+        <nav className="flex items-center space-x-2 text-sm text-forvis-gray-600 mb-6">
+          <Link href="/dashboard" className="hover:text-forvis-gray-900 transition-colors">
+            Home
+          </Link>
+          <ChevronRight className="h-4 w-4" />
+          <Link href="/dashboard/qrm" className="hover:text-forvis-gray-900 transition-colors">
+            QRM
+          </Link>
+          <ChevronRight className="h-4 w-4" />
+          <span className="text-forvis-gray-900 font-medium">Risk Scoring Model</span>
+        </nav>
+
+        {/* Header */}
+        <div className="mb-6 flex items-center space-x-3">
+          <div
+            className="w-12 h-12 rounded-lg flex items-center justify-center shadow-sm"
+            style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+          >
+            <Scale className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-semibold text-forvis-gray-900">Risk Scoring Model</h1>
+            <p className="text-sm text-forvis-gray-600 mt-1">
+              Configure how acceptance and continuance answers are scored, simulate a draft against completed client
+              acceptances and activate it once the effect is understood
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {success && <Banner variant="success" message={success} dismissible onDismiss={() => setSuccess(null)} />}
+          {error && <Banner variant="error" message={error} dismissible onDismiss={() => setError(null)} />}
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            {/* Models */}
+            <div>
+              <Card>
+                <div className="p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <h2 className="text-sm font-semibold text-forvis-gray-900">Models</h2>
+                    <Button
+                      size="sm"
+                      variant="primary"
+                      onClick={() => handleCreate()}
+                      disabled={createModel.isPending}
+                      icon={<Plus className="w-4 h-4" />}
+                    >
+                      New Draft
+                    </Button>
+                  </div>
+
+                  {isLoading || !models ? (
+                    <div className="flex justify-center py-6">
+                      <LoadingSpinner />
+                    </div>
+                  ) : (
+                    <ul className="divide-y divide-forvis-gray-100">
+                      {models.map((m) => (
+                        <li
+                          key={m.id}
+                          onClick={() => setSelectedModelId(m.id)}
+                          className={`py-2 px-2 -mx-2 rounded cursor-pointer text-xs ${
+                            m.id === selectedModelId ? 'bg-forvis-blue-50' : 'hover:bg-forvis-gray-50'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium text-forvis-gray-900">
+                              {m.name} <Badge variant={STATUS_BADGE[m.status]}>{m.status.toLowerCase()}</Badge>
+                            </span>
+                            <button
+                              type="button"
+                              title="Copy into a new draft"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleCreate(m.id);
+                              }}
+                              className="p-1 text-forvis-gray-500 hover:text-forvis-blue-600"
+                            >
+                              <Copy className="h-4 w-4" />
+                            </button>
+                          </div>
+                          {m.description && <p className="text-forvis-gray-600 truncate">{m.description}</p>}
+                          <p className="text-forvis-gray-500">
+                            {m.activatedAt ? `Activated ${formatDate(m.activatedAt)}` : `Updated ${formatDate(m.updatedAt)}`}
+                            {m.createdBy?.name ? ` · ${m.createdBy.name}` : ''}
+                          </p>
+                        </li>
+                      ))}
+                      <li className="py-2 text-xs">
+                        <span className="font-medium text-forvis-gray-900">Default model</span>
+                        <p className="text-forvis-gray-500">
+                          {models.some((m) => m.status === 'ACTIVE')
+                            ? 'Replaced by the active model'
+                            : 'In use - LOW up to 30, MEDIUM up to 60, high-risk answers score in full'}
+                        </p>
+                      </li>
+                    </ul>
+                  )}
+                </div>
+              </Card>
+            </div>
+
+            {/* Editor */}
+            <div className="lg:col-span-2">
+              {selectedModelId === null ? (
+                <Card>
+                  <div className="p-8 text-center text-sm text-forvis-gray-600">
+                    Start a draft to change how questionnaires are scored.
+                  </div>
+                </Card>
+              ) : isLoadingModel || !model || !options ? (
+                <div className="flex justify-center py-12">
+                  <LoadingSpinner />
+                </div>
+              ) : (
+                <ModelEditor
+                  key={`${model.id}-${model.updatedAt}`}
+                  model={model}
+                  options={options}
+                  onMessage={(message, err) => {
+                    setSuccess(message);
+                    setError(err);
+                  }}
+                  onSimulate={handleSimulate}
+                  onActivate={() => setConfirm('activate')}
+                  onDelete={() => setConfirm('delete')}
+                  isSimulating={simulateModel.isPending}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={confirm !== null}
+        onClose={() => setConfirm(null)}
+        onConfirm={handleConfirm}
+        title={confirm === 'activate' ? 'Activate scoring model' : 'Delete draft'}
+        message={
+          confirm === 'activate'
+            ? `"${model?.name ?? ''}" will score every questionnaire from now on and the current model will be retired. Ratings already saved are not recalculated.`
+            : `"${model?.name ?? ''}" and its changes will be deleted.`
+        }
+        confirmText={confirm === 'activate' ? 'Activate' : 'Delete'}
+        variant={confirm === 'activate' ? 'warning' : 'danger'}
+        isLoading={activateModel.isPending || deleteModel.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Risk Scoring Model Page
+ * QRM page for configuring, simulating and activating the acceptance risk scoring model
+ */
+
+import RiskScoringPageClient from './RiskScoringPageClient';
+
+export const metadata = {
+  title: 'Risk Scoring Model - QRM',
+  description: 'Configure the acceptance risk scoring model and simulate its effect before activating it',
+};
+
+export default function RiskScoringPage() {
+  return <RiskScoringPageClient />;
+}
@@ -27,6 +27,7 @@ interface TaxAdjustment {
   sarsSection?: string;
   confidenceScore?: number;
   notes?: string;
+  isRecurring: boolean;
   calculationDetails?: any;
   extractedData?: any;
   createdAt: string;
@@ -80,6 +81,7 @@ export default function AdjustmentDetailPage({ params }: AdjustmentDetailProps)
     amount: 0,
     sarsSection: '',
     notes: '',
+    isRecurring: false,
   });
 
   // Update form data when adjustment loads
@@ -91,6 +93,7 @@ export default function AdjustmentDetailPage({ params }: AdjustmentDetailProps)
         amount: adjustment.amount,
         sarsSection: adjustment.sarsSection || '',
         notes: adjustment.notes || '',
+        isRecurring: adjustment.isRecurring ?? false,
       });
     }
   }, [adjustment]);
@@ -300,6 +303,21 @@ export default function AdjustmentDetailPage({ params }: AdjustmentDetailProps)
                   />
                 </div>
 
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={formData.isRecurring}
+                    onChange={(e) =>
+                      setFormData({ ...formData, isRecurring: e.target.checked })
+                    }
+                    className="mt-0.5 rounded border-forvis-gray-300 text-forvis-blue-600 focus:ring-forvis-blue-500"
+                  />
+                  <span className="text-sm text-forvis-gray-700">
+                    <span className="font-semibold">Recurring</span> - propose this adjustment again when the task is
+                    rolled forward. Adjustments calculated from a mapped account always recur.
+                  </span>
+                </label>
+
                 <div className="flex gap-3 pt-4 border-t-2 border-forvis-blue-100">
                   <button
                     onClick={handleSave}
@@ -353,6 +371,11 @@ export default function AdjustmentDetailPage({ params }: AdjustmentDetailProps)
                     <p className="text-forvis-gray-800 mt-1 leading-relaxed">{adjustment.notes}</p>
                   </div>
                 )}
+                {adjustment.isRecurring && (
+                  <p className="text-xs font-medium inline-flex items-center px-3 py-1 rounded-full bg-forvis-gray-100 text-forvis-gray-700 border border-forvis-gray-200">
+                    Recurring - carried forward to next year
+                  </p>
+                )}
               </div>
             )}
           </div>
@@ -7,6 +7,7 @@ import ExportMenu from '@/components/shared/ExportMenu';
 import {
   TaxAdjustmentCard,
   AddAdjustmentModal,
+  RollForwardModal,
   useTaxAdjustments,
   useTaxCalculation,
   useUpdateTaxAdjustment,
@@ -39,6 +40,7 @@ export default function TaxCalculationPage({ params }: { params: { id: string }
   const [error, setError] = useState<string | null>(null);
   const [showSuggestions, setShowSuggestions] = useState(true);
   const [showAddModal, setShowAddModal] = useState<'DEBIT' | 'CREDIT' | 'ALLOWANCE' | 'RECOUPMENT' | null>(null);
+  const [showRollForward, setShowRollForward] = useState(false);
 
   const isLoading = isLoadingCalc || isLoadingAdjustments;
   const accountingProfit = taxCalcData?.netProfit || 0;
@@ -243,6 +245,12 @@ export default function TaxCalculationPage({ params }: { params: { id: string }
         </div>
         <div className="flex items-center gap-3">
           <ExportMenu taskId={parseInt(params.id)} />
+          <button
+            onClick={() => setShowRollForward(true)}
+            className="px-5 py-2.5 text-sm font-semibold bg-white text-forvis-blue-900 rounded-lg hover:bg-forvis-blue-50 transition-colors shadow-corporate hover:shadow-corporate-md border-2 border-forvis-blue-300 whitespace-nowrap"
+          >
+            Roll Forward
+          </button>
           <button
             onClick={() => router.push(`/dashboard/tasks/${params.id}/tax-calculation/adjustments`)}
             className="px-5 py-2.5 text-sm font-semibold bg-white text-forvis-blue-900 rounded-lg hover:bg-forvis-blue-50 transition-colors shadow-corporate hover:shadow-corporate-md border-2 border-forvis-blue-300 whitespace-nowrap"
@@ -572,6 +580,12 @@ export default function TaxCalculationPage({ params }: { params: { id: string }
           onSuccess={handleModalSuccess}
         />
       )}
+
+      <RollForwardModal
+        isOpen={showRollForward}
+        taskId={params.id}
+        onClose={() => setShowRollForward(false)}
+      />
     </div>
   );
 } 
\ No newline at end of file
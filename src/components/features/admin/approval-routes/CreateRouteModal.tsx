@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Banner, Button, Input } from '@/components/ui';
+import { WORKFLOW_NAMES } from '@/components/features/approvals/workflowNames';
+import type { WorkflowType } from '@/types/approval';
+
+interface CreateRouteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (route: { workflowType: WorkflowType; routeName: string; description?: string }) => Promise<void>;
+  isSaving: boolean;
+  initialWorkflowType?: WorkflowType;
+}
+
+const ROUTE_NAME_PATTERN = /^[a-z0-9-]{3,100}$/;
+
+const WORKFLOW_OPTIONS = (Object.keys(WORKFLOW_NAMES) as WorkflowType[]).map((type) => ({
+  value: type,
+  label: WORKFLOW_NAMES[type],
+}));
+
+/**
+ * Create a route - it starts as a single client partner step and is not the
+ * default until an admin makes it so
+ */
+export function CreateRouteModal({ isOpen, onClose, onCreate, isSaving, initialWorkflowType }: CreateRouteModalProps) {
+  const [workflowType, setWorkflowType] = useState<WorkflowType>(initialWorkflowType ?? 'CLIENT_ACCEPTANCE');
+  const [routeName, setRouteName] = useState('');
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const nameError = routeName && !ROUTE_NAME_PATTERN.test(routeName)
+    ? '3-100 lowercase letters, digits or dashes'
+    : undefined;
+
+  const handleSubmit = async () => {
+    setError(null);
+    try {
+      await onCreate({ workflowType, routeName, description: description.trim() || undefined });
+      setRouteName('');
+      setDescription('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create route');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-corporate-lg w-full max-w-lg flex flex-col">
+        {/* Header */}
+        <div
+          className="px-6 py-4 flex items-center justify-between border-b border-forvis-gray-200 rounded-t-xl"
+          style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+        >
+          <h2 className="text-xl font-semibold text-white">New Approval Route</h2>
+          <button
+            onClick={onClose}
+            className="text-white hover:bg-white/20 rounded-lg p-2 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-4">
+          {error && <Banner variant="error" message={error} />}
+          <Input
+            variant="select"
+            label="Workflow"
+            value={workflowType}
+            options={WORKFLOW_OPTIONS}
+            onChange={(e) => setWorkflowType(e.target.value as WorkflowType)}
+          />
+          <Input
+            label="Route name"
+            value={routeName}
+            onChange={(e) => setRouteName(e.target.value.toLowerCase())}
+            placeholder="e.g. high-risk-approval"
+            className="font-mono"
+            error={nameError}
+          />
+          <Input
+            variant="textarea"
+            rows={2}
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={500}
+          />
+          <p className="text-xs text-forvis-gray-500">
+            The route starts with a single client partner step. Build it out in the designer and make it the
+            default once it has been dry-run.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-forvis-gray-200 flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSubmit}
+            disabled={!ROUTE_NAME_PATTERN.test(routeName)}
+            loading={isSaving}
+          >
+            Create
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
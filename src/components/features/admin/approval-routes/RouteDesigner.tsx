@@ -0,0 +1,235 @@
+'use client';
+
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { GripHorizontal, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui';
+import type { ParallelMode } from '@/types/approval';
+import type { RouteDesignerOptions } from '@/hooks/admin/useApprovalRoutes';
+import { RouteStepCard } from './RouteStepCard';
+import { createStage, createStep, type DesignerRoute, type DesignerStage, type DesignerStep } from './designerModel';
+
+interface RouteDesignerProps {
+  route: DesignerRoute;
+  options: RouteDesignerOptions | undefined;
+  onChange: (route: DesignerRoute) => void;
+}
+
+const PARALLEL_MODE_LABELS: Record<ParallelMode, string> = {
+  ALL_OF: 'All must approve',
+  ANY_OF: 'First approval completes the stage',
+};
+
+interface StageCardProps {
+  stage: DesignerStage;
+  index: number;
+  options: RouteDesignerOptions | undefined;
+  canRemove: boolean;
+  showParallelMode: boolean;
+  onChange: (stage: DesignerStage) => void;
+  onRemove: () => void;
+}
+
+function StageCard({ stage, index, options, canRemove, showParallelMode, onChange, onRemove }: StageCardProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: `stage:${stage.key}`,
+  });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition: isDragging ? 'none' : transition,
+    opacity: isDragging ? 0.6 : 1,
+  };
+
+  const updateStep = (updated: DesignerStep) =>
+    onChange({ ...stage, steps: stage.steps.map((s) => (s.key === updated.key ? updated : s)) });
+
+  return (
+    <div ref={setNodeRef} style={style} className="rounded-xl border border-forvis-blue-200 bg-forvis-blue-50/40 p-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="cursor-grab text-forvis-gray-400 hover:text-forvis-gray-600 active:cursor-grabbing"
+            title="Drag to reorder stages"
+            {...attributes}
+            {...listeners}
+          >
+            <GripHorizontal className="h-5 w-5" />
+          </button>
+          <h3 className="text-sm font-semibold text-forvis-gray-900">Stage {index + 1}</h3>
+          {showParallelMode && stage.steps.length > 1 && (
+            <select
+              value={stage.parallelMode}
+              onChange={(e) => onChange({ ...stage, parallelMode: e.target.value as ParallelMode })}
+              className="rounded-md border border-forvis-gray-300 px-2 py-1 text-xs text-forvis-gray-700"
+            >
+              {(Object.keys(PARALLEL_MODE_LABELS) as ParallelMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {PARALLEL_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => onChange({ ...stage, steps: [...stage.steps, createStep()] })}
+            icon={<Plus className="h-4 w-4" />}
+          >
+            Parallel Step
+          </Button>
+          {canRemove && (
+            <button
+              type="button"
+              onClick={onRemove}
+              className="p-1 text-forvis-gray-400 hover:text-forvis-error-600"
+              title="Remove stage"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <SortableContext items={stage.steps.map((s) => `step:${s.key}`)} strategy={verticalListSortingStrategy}>
+        <div className="space-y-2">
+          {stage.steps.map((step) => (
+            <RouteStepCard
+              key={step.key}
+              step={step}
+              options={options}
+              onChange={updateStep}
+              onRemove={() => onChange({ ...stage, steps: stage.steps.filter((s) => s.key !== step.key) })}
+            />
+          ))}
+          {stage.steps.length === 0 && (
+            <p className="rounded-lg border border-dashed border-forvis-gray-300 py-4 text-center text-xs text-forvis-gray-500">
+              Drop a step here or add one - empty stages are ignored
+            </p>
+          )}
+        </div>
+      </SortableContext>
+    </div>
+  );
+}
+
+/**
+ * Drag-and-drop editor for an approval route
+ * Stages run top to bottom; steps in the same stage run in parallel. Steps can
+ * be dragged within a stage or onto another stage.
+ */
+export function RouteDesigner({ route, options, onChange }: RouteDesignerProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const findStageOfStep = (stepKey: string) =>
+    route.stages.findIndex((stage) => stage.steps.some((s) => s.key === stepKey));
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+
+    const [activeType, activeKey] = String(active.id).split(':') as [string, string];
+    const [overType, overKey] = String(over.id).split(':') as [string, string];
+
+    if (activeType === 'stage') {
+      const from = route.stages.findIndex((s) => s.key === activeKey);
+      const to = overType === 'stage'
+        ? route.stages.findIndex((s) => s.key === overKey)
+        : findStageOfStep(overKey);
+      if (from >= 0 && to >= 0) {
+        onChange({ ...route, stages: arrayMove(route.stages, from, to) });
+      }
+      return;
+    }
+
+    const fromStage = findStageOfStep(activeKey);
+    const toStage = overType === 'stage' ? route.stages.findIndex((s) => s.key === overKey) : findStageOfStep(overKey);
+    if (fromStage < 0 || toStage < 0) return;
+
+    const stages = route.stages.map((stage) => ({ ...stage, steps: [...stage.steps] }));
+    const source = stages[fromStage]!;
+    const target = stages[toStage]!;
+    const fromIndex = source.steps.findIndex((s) => s.key === activeKey);
+
+    if (fromStage === toStage) {
+      const toIndex = overType === 'stage' ? target.steps.length - 1 : target.steps.findIndex((s) => s.key === overKey);
+      target.steps = arrayMove(target.steps, fromIndex, toIndex);
+    } else {
+      const [moved] = source.steps.splice(fromIndex, 1);
+      const toIndex = overType === 'stage' ? target.steps.length : target.steps.findIndex((s) => s.key === overKey);
+      target.steps.splice(toIndex, 0, moved!);
+    }
+
+    onChange({ ...route, stages });
+  };
+
+  const updateStage = (updated: DesignerStage) =>
+    onChange({ ...route, stages: route.stages.map((s) => (s.key === updated.key ? updated : s)) });
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-start gap-2 text-sm text-forvis-gray-700">
+        <input
+          type="checkbox"
+          checked={route.requiresAllSteps}
+          onChange={(e) => onChange({ ...route, requiresAllSteps: e.target.checked })}
+          className="mt-0.5 rounded border-forvis-gray-300 text-forvis-blue-600"
+        />
+        <span>
+          <span className="font-medium">Stages run in order</span>
+          <span className="block text-xs text-forvis-gray-500">
+            Every required step must approve, one stage at a time. When off, any single required
+            approval completes the route.
+          </span>
+        </span>
+      </label>
+
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={route.stages.map((s) => `stage:${s.key}`)} strategy={verticalListSortingStrategy}>
+          <div className="space-y-3">
+            {route.stages.map((stage, index) => (
+              <StageCard
+                key={stage.key}
+                stage={stage}
+                index={index}
+                options={options}
+                canRemove={route.stages.length > 1}
+                showParallelMode={route.requiresAllSteps}
+                onChange={updateStage}
+                onRemove={() => onChange({ ...route, stages: route.stages.filter((s) => s.key !== stage.key) })}
+              />
+            ))}
+          </div>
+        </SortableContext>
+      </DndContext>
+
+      <Button
+        variant="secondary"
+        onClick={() => onChange({ ...route, stages: [...route.stages, createStage()] })}
+        icon={<Plus className="h-4 w-4" />}
+      >
+        Add Stage
+      </Button>
+    </div>
+  );
+}
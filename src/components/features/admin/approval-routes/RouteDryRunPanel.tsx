@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, FlaskConical, SkipForward, UserCheck } from 'lucide-react';
+import { Badge, Banner, Button, Input } from '@/components/ui';
+import { useDryRunRecords, usePreviewRoute } from '@/hooks/admin/useApprovalRoutes';
+import type { RouteConfig, WorkflowType } from '@/types/approval';
+
+interface RouteDryRunPanelProps {
+  workflowType: WorkflowType;
+  /** Current designer configuration, or null while it has errors */
+  routeConfig: RouteConfig | null;
+}
+
+function formatContextValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Dry-run the designer's configuration against an existing workflow record
+ * Shows who would be asked to approve, which conditional steps would be
+ * skipped, and the record fields conditions can use. Nothing is saved.
+ */
+export function RouteDryRunPanel({ workflowType, routeConfig }: RouteDryRunPanelProps) {
+  const [search, setSearch] = useState('');
+  const [workflowId, setWorkflowId] = useState('');
+  const { data: records = [] } = useDryRunRecords(workflowType, search);
+  const previewMutation = usePreviewRoute();
+  const preview = previewMutation.data;
+
+  const parsedId = Number.parseInt(workflowId, 10);
+  const canRun = routeConfig !== null && Number.isInteger(parsedId) && parsedId > 0;
+
+  const handleRun = () => {
+    if (!canRun || !routeConfig) return;
+    previewMutation.mutate({ workflowType, workflowId: parsedId, routeConfig });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <Input
+          label="Find a record"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search approval titles..."
+        />
+        <Input
+          variant="select"
+          label="Recent records"
+          value={workflowId}
+          onChange={(e) => setWorkflowId(e.target.value)}
+          options={[
+            { value: '', label: records.length ? 'Select a record...' : 'No records found' },
+            ...records.map((record) => ({
+              value: String(record.workflowId),
+              label: `#${record.workflowId} - ${record.title}`,
+            })),
+          ]}
+        />
+        <div className="flex items-end gap-2">
+          <Input
+            label="Record ID"
+            type="number"
+            min={1}
+            value={workflowId}
+            onChange={(e) => setWorkflowId(e.target.value)}
+          />
+          <Button
+            variant="primary"
+            onClick={handleRun}
+            disabled={!canRun}
+            loading={previewMutation.isPending}
+            icon={<FlaskConical className="h-4 w-4" />}
+          >
+            Dry-Run
+          </Button>
+        </div>
+      </div>
+
+      {routeConfig === null && (
+        <p className="text-xs text-forvis-warning-700">Fix the designer errors above to run a dry-run.</p>
+      )}
+
+      {previewMutation.error && <Banner variant="error" message={previewMutation.error.message} />}
+
+      {preview && (
+        <div className="space-y-3">
+          {preview.validation.errors.length > 0 && (
+            <Banner variant="error" title="Route is invalid" message={preview.validation.errors.join('; ')} />
+          )}
+          {preview.validation.warnings.length > 0 && (
+            <Banner variant="warning" message={preview.validation.warnings.join('; ')} />
+          )}
+
+          {preview.stages.map((stage) => (
+            <div key={stage.stepOrder} className="rounded-lg border border-forvis-gray-200 p-3">
+              <div className="mb-2 flex items-center gap-2">
+                <span className="text-sm font-semibold text-forvis-gray-900">Stage {stage.stepOrder}</span>
+                {stage.steps.length > 1 && (
+                  <Badge variant="blue">{stage.parallelMode === 'ANY_OF' ? 'Any one' : 'All'}</Badge>
+                )}
+              </div>
+              <ul className="space-y-1.5">
+                {stage.steps.map((step, index) => (
+                  <li key={`${stage.stepOrder}-${index}`} className="flex flex-wrap items-center gap-2 text-sm">
+                    {step.assignedToUser ? (
+                      <UserCheck className="h-4 w-4 text-forvis-success-600" />
+                    ) : (
+                      <AlertTriangle className="h-4 w-4 text-forvis-warning-600" />
+                    )}
+                    <span className="font-medium text-forvis-gray-900">
+                      {step.assignedToUser?.name || step.assignedToUser?.email || step.assignedToRole || 'No approver'}
+                    </span>
+                    {step.label && <span className="text-forvis-gray-500">· {step.label}</span>}
+                    {!step.isRequired && <Badge variant="default">optional</Badge>}
+                    {step.warning && <span className="text-xs text-forvis-warning-700">{step.warning}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+
+          {preview.skipped.length > 0 && (
+            <div className="rounded-lg border border-dashed border-forvis-gray-300 p-3">
+              <p className="mb-1 text-xs font-medium uppercase tracking-wider text-forvis-gray-500">
+                Skipped (condition not met)
+              </p>
+              <ul className="space-y-1">
+                {preview.skipped.map((step, index) => (
+                  <li key={index} className="flex items-center gap-2 text-xs text-forvis-gray-600">
+                    <SkipForward className="h-3.5 w-3.5" />
+                    Stage {step.stepOrder} · {step.label || step.stepType}
+                    <code className="rounded bg-forvis-gray-100 px-1">{step.condition}</code>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <details className="rounded-lg bg-forvis-gray-50 p-3 text-xs">
+            <summary className="cursor-pointer font-medium text-forvis-gray-700">
+              Record fields available to conditions
+            </summary>
+            <dl className="mt-2 grid grid-cols-1 gap-x-4 gap-y-1 md:grid-cols-2">
+              {Object.entries(preview.context).map(([key, value]) => (
+                <div key={key} className="flex gap-2">
+                  <dt className="font-mono text-forvis-gray-600">{key}</dt>
+                  <dd className="truncate text-forvis-gray-900">{formatContextValue(value)}</dd>
+                </div>
+              ))}
+            </dl>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
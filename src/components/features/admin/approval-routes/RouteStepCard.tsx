@@ -0,0 +1,256 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Filter, GripVertical, Trash2 } from 'lucide-react';
+import { Input, SearchCombobox } from '@/components/ui';
+import type { SearchComboboxOption } from '@/components/ui';
+import { ServiceLineRole } from '@/types';
+import type { RouteDesignerOptions } from '@/hooks/admin/useApprovalRoutes';
+import { APPROVER_KIND_LABELS, type ApproverKind, type DesignerStep } from './designerModel';
+
+interface RouteStepCardProps {
+  step: DesignerStep;
+  options: RouteDesignerOptions | undefined;
+  onChange: (step: DesignerStep) => void;
+  onRemove: () => void;
+}
+
+const KIND_OPTIONS = (Object.keys(APPROVER_KIND_LABELS) as ApproverKind[]).map((kind) => ({
+  value: kind,
+  label: APPROVER_KIND_LABELS[kind],
+}));
+
+const ROLE_OPTIONS = [
+  { value: '', label: 'Select a role...' },
+  ...Object.values(ServiceLineRole).map((role) => ({ value: role, label: role })),
+];
+
+/**
+ * User picker backed by the employee search (only employees with a user account can approve)
+ */
+function UserPicker({ step, onChange }: { step: DesignerStep; onChange: (step: DesignerStep) => void }) {
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<SearchComboboxOption[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (search.length < 2) {
+      setResults([]);
+      return undefined;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    fetch(`/api/users/search?q=${encodeURIComponent(search)}&limit=10`)
+      .then((response) => (response.ok ? response.json() : { data: [] }))
+      .then((result) => {
+        if (cancelled) return;
+        const users = (result.data ?? []) as Array<{
+          id: string;
+          displayName: string;
+          email: string;
+          hasUserAccount: boolean;
+        }>;
+        setResults(
+          users
+            .filter((user) => user.hasUserAccount && user.id)
+            .map((user) => ({ id: user.id, label: user.displayName, subtitle: user.email }))
+        );
+      })
+      .catch(() => !cancelled && setResults([]))
+      .finally(() => !cancelled && setIsSearching(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [search]);
+
+  const handleSearchChange = useCallback((value: string) => setSearch(value), []);
+
+  // Keep the current selection displayable once the search is cleared
+  const selected: SearchComboboxOption[] =
+    step.userId && !results.some((option) => option.id === step.userId)
+      ? [{ id: step.userId, label: step.label || step.userId }]
+      : [];
+
+  return (
+    <SearchCombobox
+      label="User"
+      value={step.userId || null}
+      onChange={(value) => {
+        const option = results.find((o) => o.id === value);
+        onChange({
+          ...step,
+          userId: value ? String(value) : '',
+          // Name the step after the approver unless the admin already labelled it
+          label: step.label || option?.label || '',
+        });
+      }}
+      onSearchChange={handleSearchChange}
+      options={[...selected, ...results]}
+      isLoading={isSearching}
+      placeholder="Search for a user..."
+      emptyMessage="No users with an account found"
+    />
+  );
+}
+
+/**
+ * A draggable approval step within a stage
+ */
+export function RouteStepCard({ step, options, onChange, onRemove }: RouteStepCardProps) {
+  const [showCondition, setShowCondition] = useState(step.conditionText !== '');
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: `step:${step.key}`,
+  });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition: isDragging ? 'none' : transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  const update = (changes: Partial<DesignerStep>) => onChange({ ...step, ...changes });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className="rounded-lg border border-forvis-gray-200 bg-white p-3 shadow-sm"
+    >
+      <div className="flex items-start gap-2">
+        <button
+          type="button"
+          className="mt-7 cursor-grab text-forvis-gray-400 hover:text-forvis-gray-600 active:cursor-grabbing"
+          title="Drag to reorder or move to another stage"
+          {...attributes}
+          {...listeners}
+        >
+          <GripVertical className="h-5 w-5" />
+        </button>
+
+        <div className="grid flex-1 grid-cols-1 gap-3 md:grid-cols-3">
+          <Input
+            variant="select"
+            label="Approver"
+            value={step.kind}
+            options={KIND_OPTIONS}
+            onChange={(e) => update({ kind: e.target.value as ApproverKind })}
+          />
+
+          {step.kind === 'CLIENT_PARTNER' && (
+            <p className="self-end pb-2 text-xs text-forvis-gray-500 md:col-span-1">
+              The client&apos;s partner (or the proposed partner while a change is pending)
+            </p>
+          )}
+
+          {step.kind === 'SPECIFIC_USER' && <UserPicker step={step} onChange={onChange} />}
+
+          {step.kind === 'ROLE' && (
+            <Input
+              variant="select"
+              label="Role"
+              value={step.role}
+              options={ROLE_OPTIONS}
+              onChange={(e) => update({ role: e.target.value })}
+              helperText="Role steps are not assigned to anyone, so no one is notified"
+            />
+          )}
+
+          {step.kind === 'LEADER_GROUP' && (
+            <Input
+              variant="select"
+              label="Leader group"
+              value={step.leaderGroupName}
+              options={[
+                { value: '', label: 'Select a group...' },
+                ...(options?.leaderGroups ?? []).map((group) => ({
+                  value: group.name,
+                  label: `${group.name} (${group.memberCount})`,
+                })),
+              ]}
+              onChange={(e) => update({ leaderGroupName: e.target.value })}
+            />
+          )}
+
+          {step.kind === 'SERVICE_LINE_LEADER' && (
+            <Input
+              variant="select"
+              label="Service line"
+              value={step.serviceLine}
+              options={[
+                { value: '', label: "Client partner's service line" },
+                ...(options?.serviceLines ?? []).map((sl) => ({ value: sl.code, label: sl.name })),
+              ]}
+              onChange={(e) => update({ serviceLine: e.target.value })}
+            />
+          )}
+
+          {step.kind === 'RECORD_FIELD' && (
+            <Input
+              label="Record field"
+              value={step.contextPath}
+              onChange={(e) => update({ contextPath: e.target.value })}
+              placeholder="e.g. proposedEmployeeCode"
+              className="font-mono"
+              helperText="Field holding a user ID or employee code - run a dry-run to see the fields"
+            />
+          )}
+
+          <Input
+            label="Label"
+            value={step.label}
+            onChange={(e) => update({ label: e.target.value })}
+            placeholder="Shown to approvers, e.g. QRM review"
+            maxLength={100}
+          />
+        </div>
+
+        <button
+          type="button"
+          onClick={onRemove}
+          className="mt-7 p-1 text-forvis-gray-400 hover:text-forvis-error-600"
+          title="Remove step"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="ml-7 mt-3 flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2 text-forvis-gray-700">
+          <input
+            type="checkbox"
+            checked={step.isRequired}
+            onChange={(e) => update({ isRequired: e.target.checked })}
+            className="rounded border-forvis-gray-300 text-forvis-blue-600"
+          />
+          Required
+        </label>
+        <button
+          type="button"
+          onClick={() => setShowCondition((value) => !value)}
+          className="flex items-center gap-1 text-forvis-blue-600 hover:text-forvis-blue-800"
+        >
+          <Filter className="h-3.5 w-3.5" />
+          {step.conditionText ? 'Edit condition' : 'Add condition'}
+        </button>
+      </div>
+
+      {showCondition && (
+        <div className="ml-7 mt-2">
+          <Input
+            variant="textarea"
+            rows={2}
+            value={step.conditionText}
+            onChange={(e) => update({ conditionText: e.target.value })}
+            placeholder='{"field":"riskRating","operator":"eq","value":"HIGH"}'
+            className="font-mono text-xs"
+            helperText="Only create this step when the condition holds. Leave empty to always include it."
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { FolderOpen, Rocket } from 'lucide-react';
+import { Badge, Button } from '@/components/ui';
+import type { ApprovalRouteVersion } from '@/hooks/admin/useApprovalRoutes';
+
+interface RouteVersionHistoryProps {
+  versions: ApprovalRouteVersion[];
+  activeVersion: number | null;
+  onLoad: (version: ApprovalRouteVersion) => void;
+  onActivate: (version: ApprovalRouteVersion) => void;
+}
+
+function versionStatus(version: ApprovalRouteVersion, activeVersion: number | null) {
+  if (version.versionNumber === activeVersion) return <Badge variant="green" dot>Active</Badge>;
+  if (!version.activatedAt) return <Badge variant="yellow">Draft</Badge>;
+  return <Badge variant="default">Previous</Badge>;
+}
+
+/**
+ * Saved configurations of a route, newest first
+ * Activating an older version rolls the route back to it
+ */
+export function RouteVersionHistory({ versions, activeVersion, onLoad, onActivate }: RouteVersionHistoryProps) {
+  if (versions.length === 0) {
+    return <p className="py-4 text-center text-sm text-forvis-gray-500">No versions saved yet</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-forvis-gray-100">
+      {versions.map((version) => (
+        <li key={version.versionNumber} className="flex items-start justify-between gap-3 py-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold text-forvis-gray-900">v{version.versionNumber}</span>
+              {versionStatus(version, activeVersion)}
+              <span className="text-xs text-forvis-gray-500">
+                {version.routeConfig.steps.length} step{version.routeConfig.steps.length === 1 ? '' : 's'}
+              </span>
+            </div>
+            {version.changeNote && <p className="mt-0.5 text-sm text-forvis-gray-700">{version.changeNote}</p>}
+            <p className="mt-0.5 text-xs text-forvis-gray-500">
+              {version.createdBy?.name || 'System'} · {new Date(version.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <button
+              type="button"
+              onClick={() => onLoad(version)}
+              className="p-1 text-forvis-blue-600 hover:text-forvis-blue-800"
+              title="Open in designer"
+            >
+              <FolderOpen className="h-4 w-4" />
+            </button>
+            {version.versionNumber !== activeVersion && (
+              <Button size="sm" variant="secondary" onClick={() => onActivate(version)} icon={<Rocket className="h-4 w-4" />}>
+                Activate
+              </Button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
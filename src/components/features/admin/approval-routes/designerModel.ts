@@ -0,0 +1,236 @@
+/**
+ * Route designer model
+ * Editable stage/step structure behind the designer, and conversion to and
+ * from the stored RouteConfig
+ *
+ * A stage is a set of steps sharing a stepOrder; stage position in the list
+ * decides the stepOrder on save, so dragging a stage reorders the route.
+ */
+
+import type { ParallelMode, RouteCondition, RouteConfig, RouteStepConfig } from '@/types/approval';
+
+/**
+ * Who approves a step, as offered in the designer
+ * Each kind maps onto one stored step shape (see toStepConfig)
+ */
+export type ApproverKind =
+  | 'CLIENT_PARTNER'
+  | 'SPECIFIC_USER'
+  | 'SERVICE_LINE_LEADER'
+  | 'ROLE'
+  | 'LEADER_GROUP'
+  | 'RECORD_FIELD';
+
+export const APPROVER_KIND_LABELS: Record<ApproverKind, string> = {
+  CLIENT_PARTNER: 'Client partner',
+  SPECIFIC_USER: 'Specific user',
+  SERVICE_LINE_LEADER: 'Service line leader',
+  ROLE: 'Role',
+  LEADER_GROUP: 'Leader group',
+  RECORD_FIELD: 'Person on the record',
+};
+
+/**
+ * Context field holding the client partner's employee code
+ */
+export const CLIENT_PARTNER_PATH = 'clientPartnerCode';
+
+/**
+ * Context field holding the client partner's master service line
+ */
+export const CLIENT_PARTNER_SERVICE_LINE_PATH = 'clientPartnerServiceLine';
+
+export interface DesignerStep {
+  key: string;
+  kind: ApproverKind;
+  label: string;
+  isRequired: boolean;
+  userId: string;  // SPECIFIC_USER
+  role: string;  // ROLE
+  leaderGroupName: string;  // LEADER_GROUP
+  serviceLine: string;  // SERVICE_LINE_LEADER - empty means the client partner's service line
+  contextPath: string;  // RECORD_FIELD
+  conditionText: string;  // Empty for unconditional steps
+}
+
+export interface DesignerStage {
+  key: string;
+  parallelMode: ParallelMode;
+  steps: DesignerStep[];
+}
+
+export interface DesignerRoute {
+  requiresAllSteps: boolean;
+  stages: DesignerStage[];
+}
+
+let keyCounter = 0;
+
+/**
+ * Stable key for React lists and drag-and-drop ids
+ */
+export function newKey(): string {
+  keyCounter += 1;
+  return `k${keyCounter}`;
+}
+
+export function createStep(kind: ApproverKind = 'CLIENT_PARTNER'): DesignerStep {
+  return {
+    key: newKey(),
+    kind,
+    label: '',
+    isRequired: true,
+    userId: '',
+    role: '',
+    leaderGroupName: '',
+    serviceLine: '',
+    contextPath: '',
+    conditionText: '',
+  };
+}
+
+export function createStage(steps: DesignerStep[] = [createStep()]): DesignerStage {
+  return { key: newKey(), parallelMode: 'ALL_OF', steps };
+}
+
+function conditionToText(condition: RouteCondition | undefined): string {
+  if (condition === undefined) return '';
+  return typeof condition === 'string' ? condition : JSON.stringify(condition);
+}
+
+/**
+ * Work out which designer kind a stored step is
+ * Legacy CONDITIONAL steps become the equivalent USER/ROLE step; their condition is kept
+ */
+function stepKind(step: RouteStepConfig): ApproverKind {
+  switch (step.stepType) {
+    case 'LEADER_GROUP':
+      return 'LEADER_GROUP';
+    case 'SERVICE_LINE_LEADER':
+      return 'SERVICE_LINE_LEADER';
+    case 'ROLE':
+      return 'ROLE';
+    default:
+      if (step.assignedToUserId) return 'SPECIFIC_USER';
+      if (step.assignedToUserIdPath === CLIENT_PARTNER_PATH) return 'CLIENT_PARTNER';
+      if (step.assignedToUserIdPath) return 'RECORD_FIELD';
+      return step.assignedToRole ? 'ROLE' : 'RECORD_FIELD';
+  }
+}
+
+/**
+ * Build the designer structure from a stored configuration
+ */
+export function fromRouteConfig(config: RouteConfig): DesignerRoute {
+  const byOrder = new Map<number, RouteStepConfig[]>();
+  for (const step of config.steps) {
+    byOrder.set(step.stepOrder, [...(byOrder.get(step.stepOrder) ?? []), step]);
+  }
+
+  const stages = [...byOrder.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, steps]) => ({
+      ...createStage(
+        steps.map((step) => ({
+          ...createStep(stepKind(step)),
+          label: step.label ?? '',
+          isRequired: step.isRequired ?? true,
+          userId: step.assignedToUserId ?? '',
+          role: step.assignedToRole ?? '',
+          leaderGroupName: step.leaderGroupName ?? '',
+          serviceLine: step.serviceLine ?? '',
+          contextPath: step.assignedToUserIdPath ?? '',
+          conditionText: conditionToText(step.condition),
+        }))
+      ),
+      parallelMode: steps[0]?.parallelMode ?? 'ALL_OF',
+    }));
+
+  return { requiresAllSteps: config.requiresAllSteps, stages };
+}
+
+/**
+ * Parse the condition box: JSON objects are structured conditions, anything
+ * else is the legacy string form
+ */
+function parseConditionText(text: string): RouteCondition | undefined {
+  const trimmed = text.trim();
+  if (trimmed === '') return undefined;
+  if (trimmed.startsWith('{')) return JSON.parse(trimmed) as RouteCondition;
+  return trimmed;
+}
+
+function toStepConfig(step: DesignerStep, stepOrder: number, parallelMode: ParallelMode | undefined): RouteStepConfig {
+  const base: RouteStepConfig = {
+    stepOrder,
+    stepType: 'USER',
+    isRequired: step.isRequired,
+    ...(parallelMode ? { parallelMode } : {}),
+    ...(step.label.trim() ? { label: step.label.trim() } : {}),
+  };
+  const condition = parseConditionText(step.conditionText);
+  if (condition !== undefined) base.condition = condition;
+
+  switch (step.kind) {
+    case 'CLIENT_PARTNER':
+      return { ...base, assignedToUserIdPath: CLIENT_PARTNER_PATH };
+    case 'SPECIFIC_USER':
+      return { ...base, assignedToUserId: step.userId };
+    case 'RECORD_FIELD':
+      return { ...base, assignedToUserIdPath: step.contextPath.trim() };
+    case 'ROLE':
+      return { ...base, stepType: 'ROLE', assignedToRole: step.role };
+    case 'LEADER_GROUP':
+      return { ...base, stepType: 'LEADER_GROUP', leaderGroupName: step.leaderGroupName };
+    case 'SERVICE_LINE_LEADER':
+      return step.serviceLine
+        ? { ...base, stepType: 'SERVICE_LINE_LEADER', serviceLine: step.serviceLine }
+        : { ...base, stepType: 'SERVICE_LINE_LEADER', serviceLinePath: CLIENT_PARTNER_SERVICE_LINE_PATH };
+  }
+}
+
+/**
+ * Problems the designer can catch before the server validates the route
+ */
+export function getDesignerErrors(route: DesignerRoute): string[] {
+  const errors: string[] = [];
+  if (route.stages.length === 0 || route.stages.every((stage) => stage.steps.length === 0)) {
+    errors.push('Add at least one approval step');
+  }
+
+  route.stages.forEach((stage, stageIndex) => {
+    stage.steps.forEach((step, stepIndex) => {
+      const location = `Stage ${stageIndex + 1}, step ${stepIndex + 1}`;
+      if (step.kind === 'SPECIFIC_USER' && !step.userId) errors.push(`${location}: choose a user`);
+      if (step.kind === 'ROLE' && !step.role) errors.push(`${location}: choose a role`);
+      if (step.kind === 'LEADER_GROUP' && !step.leaderGroupName) errors.push(`${location}: choose a leader group`);
+      if (step.kind === 'RECORD_FIELD' && !step.contextPath.trim()) errors.push(`${location}: enter a record field`);
+      try {
+        parseConditionText(step.conditionText);
+      } catch {
+        errors.push(`${location}: condition is not valid JSON`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Convert the designer structure to a stored configuration
+ * Empty stages are dropped; stage position becomes stepOrder
+ * @throws SyntaxError if a condition box holds invalid JSON (check getDesignerErrors first)
+ */
+export function toRouteConfig(route: DesignerRoute): RouteConfig {
+  const stages = route.stages.filter((stage) => stage.steps.length > 0);
+
+  return {
+    requiresAllSteps: route.requiresAllSteps,
+    steps: stages.flatMap((stage, index) =>
+      // parallelMode only applies when stages run in order
+      stage.steps.map((step) =>
+        toStepConfig(step, index + 1, route.requiresAllSteps ? stage.parallelMode : undefined)
+      )
+    ),
+  };
+}
@@ -3,15 +3,25 @@
 import { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
 
+interface ServiceLineOption {
+  code: string;
+  name: string;
+}
+
 interface EditGroupModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: { name?: string; description?: string }) => Promise<void>;
+  onSubmit: (data: { name?: string; description?: string; serviceLines?: string[] }) => Promise<void>;
   currentName: string;
   currentDescription: string | null;
   currentType: 'GROUP' | 'INDIVIDUAL';
+  currentServiceLines: string[];
+  serviceLineOptions: ServiceLineOption[];
 }
 
+const sameCodes = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((code) => b.includes(code));
+
 export function EditGroupModal({
   isOpen,
   onClose,
@@ -19,9 +29,12 @@ export function EditGroupModal({
   currentName,
   currentDescription,
   currentType,
+  currentServiceLines,
+  serviceLineOptions,
 }: EditGroupModalProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [serviceLines, setServiceLines] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -30,9 +43,16 @@ export function EditGroupModal({
     if (isOpen) {
       setName(currentName);
       setDescription(currentDescription || '');
+      setServiceLines(currentServiceLines);
       setError(null);
     }
-  }, [isOpen, currentName, currentDescription]);
+  }, [isOpen, currentName, currentDescription, currentServiceLines]);
+
+  const toggleServiceLine = (code: string) => {
+    setServiceLines((current) =>
+      current.includes(code) ? current.filter((c) => c !== code) : [...current, code]
+    );
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -40,7 +60,7 @@ export function EditGroupModal({
     setLoading(true);
 
     try {
-      const updates: { name?: string; description?: string } = {};
+      const updates: { name?: string; description?: string; serviceLines?: string[] } = {};
       
       // Only include changed fields
       if (name.trim() !== currentName) {
@@ -49,6 +69,9 @@ export function EditGroupModal({
       if (description.trim() !== (currentDescription || '')) {
         updates.description = description.trim() || undefined;
       }
+      if (!sameCodes(serviceLines, currentServiceLines)) {
+        updates.serviceLines = serviceLines;
+      }
 
       // Only submit if something changed
       if (Object.keys(updates).length > 0) {
@@ -72,7 +95,9 @@ export function EditGroupModal({
   };
 
   const hasChanges =
-    name.trim() !== currentName || description.trim() !== (currentDescription || '');
+    name.trim() !== currentName ||
+    description.trim() !== (currentDescription || '') ||
+    !sameCodes(serviceLines, currentServiceLines);
 
   if (!isOpen) return null;
 
@@ -163,6 +188,38 @@ export function EditGroupModal({
                 {description.length}/500 characters
               </p>
             </div>
+
+            {/* Service lines led */}
+            <div>
+              <label className="block text-sm font-medium text-forvis-gray-700 mb-1">
+                Service Lines Led
+              </label>
+              <div className="max-h-48 overflow-y-auto border border-forvis-gray-300 rounded-lg divide-y divide-forvis-gray-100">
+                {serviceLineOptions.length === 0 ? (
+                  <div className="px-3 py-2 text-sm text-forvis-gray-500">No service lines available</div>
+                ) : (
+                  serviceLineOptions.map((option) => (
+                    <label
+                      key={option.code}
+                      className="flex items-center gap-2 px-3 py-2 text-sm text-forvis-gray-700 cursor-pointer hover:bg-forvis-gray-50"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={serviceLines.includes(option.code)}
+                        onChange={() => toggleServiceLine(option.code)}
+                        disabled={loading}
+                        className="h-4 w-4 text-forvis-blue-600 border-forvis-gray-300 rounded"
+                      />
+                      <span>{option.name}</span>
+                    </label>
+                  ))
+                )}
+              </div>
+              <p className="mt-1 text-xs text-forvis-gray-500">
+                Members see staff performance for employees in these service lines. Country
+                Management covers every service line.
+              </p>
+            </div>
           </div>
 
           {/* Footer */}
@@ -19,12 +19,18 @@ interface LeaderGroupMember {
   employee: Employee;
 }
 
+interface LeaderGroupServiceLine {
+  masterCode: string;
+  ServiceLineMaster: { name: string };
+}
+
 interface LeaderGroup {
   id: number;
   name: string;
   description: string | null;
   type: 'GROUP' | 'INDIVIDUAL';
   members: LeaderGroupMember[];
+  LeaderGroupServiceLine: LeaderGroupServiceLine[];
 }
 
 interface LeaderGroupCardProps {
@@ -160,6 +166,20 @@ export function LeaderGroupCard({
           </p>
         )}
 
+        {/* Service lines led */}
+        <div className="mb-4 flex flex-wrap items-center gap-1.5">
+          <span className="text-xs font-medium text-forvis-gray-600">Leads:</span>
+          {group.LeaderGroupServiceLine.length === 0 ? (
+            <span className="text-xs text-forvis-gray-500">No service lines</span>
+          ) : (
+            group.LeaderGroupServiceLine.map((sl) => (
+              <Badge key={sl.masterCode} variant="blue" size="sm">
+                {sl.ServiceLineMaster.name}
+              </Badge>
+            ))
+          )}
+        </div>
+
         {/* Warning for individual roles */}
         {group.type === 'INDIVIDUAL' && group.members.length > 0 && (
           <div className="mb-3 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800">
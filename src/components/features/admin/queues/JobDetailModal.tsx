@@ -0,0 +1,122 @@
+'use client';
+
+import { X } from 'lucide-react';
+import { Badge, LoadingSpinner } from '@/components/ui';
+import { useQueueJob } from '@/hooks/admin/useQueues';
+import { JobStatusBadge } from './JobStatusBadge';
+
+interface JobDetailModalProps {
+  queueName: string;
+  jobId: string | null;
+  onClose: () => void;
+}
+
+export function JobDetailModal({ queueName, jobId, onClose }: JobDetailModalProps) {
+  const { data: job, isLoading, error } = useQueueJob(queueName, jobId);
+
+  if (!jobId) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-corporate-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div
+          className="px-6 py-4 flex items-center justify-between border-b border-forvis-gray-200 rounded-t-xl"
+          style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+        >
+          <div>
+            <h2 className="text-xl font-semibold text-white">Job Details</h2>
+            <p className="text-xs text-white/80 font-mono mt-0.5">{jobId}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white hover:bg-white/20 rounded-lg p-2 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 overflow-y-auto space-y-4">
+          {isLoading && (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+              {error instanceof Error ? error.message : 'Failed to load job'}
+            </div>
+          )}
+
+          {job && (
+            <>
+              <dl className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-xs font-medium text-forvis-gray-500 uppercase tracking-wider">Queue</dt>
+                  <dd className="mt-1 text-forvis-gray-900">{queueName}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs font-medium text-forvis-gray-500 uppercase tracking-wider">Type</dt>
+                  <dd className="mt-1">
+                    <Badge variant="blue">{job.type}</Badge>
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-xs font-medium text-forvis-gray-500 uppercase tracking-wider">Status</dt>
+                  <dd className="mt-1">
+                    <JobStatusBadge status={job.status} />
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-xs font-medium text-forvis-gray-500 uppercase tracking-wider">Attempts</dt>
+                  <dd className="mt-1 text-forvis-gray-900">
+                    {job.attempts} / {job.maxAttempts}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-xs font-medium text-forvis-gray-500 uppercase tracking-wider">Created</dt>
+                  <dd className="mt-1 text-forvis-gray-900">{new Date(job.createdAt).toLocaleString()}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs font-medium text-forvis-gray-500 uppercase tracking-wider">Last Updated</dt>
+                  <dd className="mt-1 text-forvis-gray-900">
+                    {job.updatedAt ? new Date(job.updatedAt).toLocaleString() : '—'}
+                  </dd>
+                </div>
+              </dl>
+
+              {job.error && (
+                <div>
+                  <h3 className="text-sm font-semibold text-forvis-gray-900 mb-2">Last Error</h3>
+                  <pre className="p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700 whitespace-pre-wrap break-words">
+                    {job.error}
+                  </pre>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-semibold text-forvis-gray-900 mb-2">Payload</h3>
+                <pre className="p-3 bg-forvis-gray-50 border border-forvis-gray-200 rounded-lg text-xs text-forvis-gray-800 overflow-x-auto">
+                  {JSON.stringify(job.data, null, 2)}
+                </pre>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-forvis-gray-200 flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-forvis-gray-300 rounded-lg text-sm font-medium text-forvis-gray-700 hover:bg-forvis-gray-50 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
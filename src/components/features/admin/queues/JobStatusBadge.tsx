@@ -0,0 +1,21 @@
+import { Badge, type BadgeVariant } from '@/components/ui';
+import type { JobStatus } from '@/lib/queue/QueueService';
+
+const STATUS_VARIANTS: Record<JobStatus, BadgeVariant> = {
+  pending: 'yellow',
+  processing: 'blue',
+  completed: 'green',
+  failed: 'red',
+};
+
+interface JobStatusBadgeProps {
+  status: JobStatus;
+}
+
+export function JobStatusBadge({ status }: JobStatusBadgeProps) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]} dot>
+      {status}
+    </Badge>
+  );
+}
@@ -0,0 +1,66 @@
+import { Badge, Card } from '@/components/ui';
+import type { WorkerStatus } from '@/lib/queue/QueueService';
+
+interface WorkerListProps {
+  workers: WorkerStatus[];
+}
+
+export function WorkerList({ workers }: WorkerListProps) {
+  return (
+    <Card>
+      <div className="p-6">
+        <h2 className="text-lg font-semibold text-forvis-gray-900 mb-4">Workers</h2>
+        {workers.length === 0 ? (
+          <p className="text-sm text-forvis-gray-500">
+            No workers are reporting. Workers run on replicas with QUEUE_WORKERS_ENABLED=true.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-forvis-gray-200 text-sm">
+              <thead className="bg-forvis-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Worker</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Queue</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Host</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Status</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Current Job</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Processed / Failed</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Last Heartbeat</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-forvis-gray-100">
+                {workers.map((worker) => (
+                  <tr key={worker.workerId}>
+                    <td className="px-3 py-2 text-forvis-gray-900">{worker.name}</td>
+                    <td className="px-3 py-2 text-forvis-gray-700">{worker.queueName}</td>
+                    <td className="px-3 py-2 text-forvis-gray-700">
+                      {worker.host} <span className="text-forvis-gray-400">(pid {worker.pid})</span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {worker.stale ? (
+                        <Badge variant="red" dot>stale</Badge>
+                      ) : worker.currentJobId ? (
+                        <Badge variant="blue" dot>busy</Badge>
+                      ) : (
+                        <Badge variant="green" dot>idle</Badge>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs text-forvis-gray-700">
+                      {worker.currentJobId ? `${worker.currentJobId.slice(0, 16)}…` : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-forvis-gray-700">
+                      {worker.processed} / {worker.failed}
+                    </td>
+                    <td className="px-3 py-2 text-forvis-gray-700 whitespace-nowrap">
+                      {new Date(worker.lastHeartbeatAt).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
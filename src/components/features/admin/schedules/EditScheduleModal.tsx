@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button, Input } from '@/components/ui';
+import type { JobSchedule } from '@/hooks/admin/useSchedules';
+import { getNextRunTime, parseCronExpression } from '@/lib/queue/cron';
+
+const PREVIEW_COUNT = 5;
+
+interface EditScheduleModalProps {
+  schedule: JobSchedule | null;
+  onClose: () => void;
+  onSave: (cronExpression: string) => void;
+  isSaving: boolean;
+}
+
+/**
+ * Preview the next few occurrences of an expression, or the parse error
+ */
+function previewRuns(expression: string): { runs: Date[]; error: string | null } {
+  try {
+    const cron = parseCronExpression(expression);
+    const runs: Date[] = [];
+    let after = new Date();
+    for (let i = 0; i < PREVIEW_COUNT; i++) {
+      after = getNextRunTime(cron, after);
+      runs.push(after);
+    }
+    return { runs, error: null };
+  } catch (err) {
+    return { runs: [], error: err instanceof Error ? err.message : 'Invalid cron expression' };
+  }
+}
+
+export function EditScheduleModal({ schedule, onClose, onSave, isSaving }: EditScheduleModalProps) {
+  const [expression, setExpression] = useState('');
+
+  useEffect(() => {
+    setExpression(schedule?.cronExpression ?? '');
+  }, [schedule]);
+
+  const preview = useMemo(() => previewRuns(expression), [expression]);
+
+  if (!schedule) return null;
+
+  const unchanged = expression.trim() === schedule.cronExpression;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-corporate-lg w-full max-w-lg flex flex-col">
+        {/* Header */}
+        <div
+          className="px-6 py-4 flex items-center justify-between border-b border-forvis-gray-200 rounded-t-xl"
+          style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+        >
+          <div>
+            <h2 className="text-xl font-semibold text-white">Edit Schedule</h2>
+            <p className="text-xs text-white/80 mt-0.5">{schedule.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white hover:bg-white/20 rounded-lg p-2 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-4">
+          <Input
+            label="Cron expression"
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            className="font-mono"
+            error={preview.error ?? undefined}
+            helperText="minute hour day-of-month month day-of-week (UTC)"
+          />
+
+          {preview.runs.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-forvis-gray-500 uppercase tracking-wider mb-2">Next runs</p>
+              <ul className="space-y-1 text-sm text-forvis-gray-700">
+                {preview.runs.map((run) => (
+                  <li key={run.getTime()}>{run.toLocaleString()}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-forvis-gray-200 flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => onSave(expression.trim())}
+            disabled={unchanged || preview.error !== null}
+            loading={isSaving}
+          >
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
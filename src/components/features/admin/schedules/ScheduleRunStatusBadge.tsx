@@ -0,0 +1,20 @@
+import { Badge, type BadgeVariant } from '@/components/ui';
+import type { ScheduleRunStatus } from '@/lib/queue/JobScheduler';
+
+const STATUS_VARIANTS: Record<ScheduleRunStatus, BadgeVariant> = {
+  ENQUEUED: 'blue',
+  COMPLETED: 'green',
+  FAILED: 'red',
+};
+
+interface ScheduleRunStatusBadgeProps {
+  status: ScheduleRunStatus;
+}
+
+export function ScheduleRunStatusBadge({ status }: ScheduleRunStatusBadgeProps) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]} dot>
+      {status.toLowerCase()}
+    </Badge>
+  );
+}
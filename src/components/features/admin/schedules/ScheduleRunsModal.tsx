@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Badge, Button, LoadingSpinner } from '@/components/ui';
+import { useScheduleRuns, type JobSchedule } from '@/hooks/admin/useSchedules';
+import { ScheduleRunStatusBadge } from './ScheduleRunStatusBadge';
+
+const PAGE_SIZE = 20;
+
+interface ScheduleRunsModalProps {
+  schedule: JobSchedule | null;
+  onClose: () => void;
+}
+
+export function ScheduleRunsModal({ schedule, onClose }: ScheduleRunsModalProps) {
+  const [page, setPage] = useState(1);
+  const { data, isLoading, error } = useScheduleRuns(schedule?.id ?? null, page, PAGE_SIZE);
+
+  if (!schedule) return null;
+
+  const handleClose = () => {
+    setPage(1);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-corporate-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div
+          className="px-6 py-4 flex items-center justify-between border-b border-forvis-gray-200 rounded-t-xl"
+          style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+        >
+          <div>
+            <h2 className="text-xl font-semibold text-white">Run History</h2>
+            <p className="text-xs text-white/80 mt-0.5">{schedule.name}</p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-white hover:bg-white/20 rounded-lg p-2 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 overflow-y-auto">
+          {isLoading && (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+              {error instanceof Error ? error.message : 'Failed to load run history'}
+            </div>
+          )}
+
+          {data && data.runs.length === 0 && (
+            <p className="text-sm text-forvis-gray-500 py-6 text-center">This schedule has not run yet</p>
+          )}
+
+          {data && data.runs.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-forvis-gray-200 text-sm">
+                <thead className="bg-forvis-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Triggered</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Trigger</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Status</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Finished</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Job</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Error</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-forvis-gray-100">
+                  {data.runs.map((run) => (
+                    <tr key={run.id}>
+                      <td className="px-3 py-2 text-forvis-gray-700 whitespace-nowrap">
+                        {new Date(run.triggeredAt).toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2">
+                        {run.trigger === 'MANUAL' ? (
+                          <Badge variant="blue" title={run.triggeredBy?.email}>
+                            Manual{run.triggeredBy?.name ? ` - ${run.triggeredBy.name}` : ''}
+                          </Badge>
+                        ) : (
+                          <Badge>Schedule</Badge>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <ScheduleRunStatusBadge status={run.status} />
+                      </td>
+                      <td className="px-3 py-2 text-forvis-gray-700 whitespace-nowrap">
+                        {run.finishedAt ? new Date(run.finishedAt).toLocaleString() : '—'}
+                      </td>
+                      <td className="px-3 py-2 font-mono text-xs text-forvis-gray-700">
+                        {run.jobId ? `${run.jobId.slice(0, 16)}…` : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-red-600 max-w-xs truncate" title={run.error ?? undefined}>
+                        {run.error ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {data && data.totalPages > 1 && (
+            <div className="mt-4 flex items-center justify-between text-sm text-forvis-gray-600">
+              <span>
+                Page {page} of {data.totalPages} ({data.total} runs)
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={page <= 1}
+                  onClick={() => setPage((p) => p - 1)}
+                  icon={<ChevronLeft className="w-4 h-4" />}
+                >
+                  Previous
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={page >= data.totalPages}
+                  onClick={() => setPage((p) => p + 1)}
+                  icon={<ChevronRight className="w-4 h-4" />}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
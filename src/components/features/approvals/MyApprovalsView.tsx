@@ -1,9 +1,9 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { ClipboardCheck, Bell, Archive, ShieldCheck } from 'lucide-react';
+import { ClipboardCheck, Bell, Archive, ShieldCheck, AlarmClock } from 'lucide-react';
 import { GRADIENTS } from '@/lib/design-system/gradients';
-import { useApprovals } from '@/hooks/approvals/useApprovals';
+import { useApprovals, useOverdueApprovals } from '@/hooks/approvals/useApprovals';
 import { LoadingSpinner } from '@/components/ui';
 import { ChangeRequestApprovalItem } from './ChangeRequestApprovalItem';
 import { ClientAcceptanceApprovalItem } from './ClientAcceptanceApprovalItem';
@@ -11,6 +11,7 @@ import { EngagementAcceptanceApprovalItem } from './EngagementAcceptanceApproval
 import { ReviewNoteApprovalItem } from './ReviewNoteApprovalItem';
 import { IndependenceConfirmationItem } from './IndependenceConfirmationItem';
 import { UnifiedApprovalCard } from './UnifiedApprovalCard';
+import { OverdueApprovalsReport } from './OverdueApprovalsReport';
 import { NotificationItem } from '@/components/features/notifications/NotificationItem';
 import { useNotifications } from '@/hooks/notifications/useNotifications';
 import { useApproveStep, useRejectStep } from '@/hooks/approvals/useUnifiedApprovals';
@@ -24,7 +25,7 @@ import {
 } from '@/lib/utils/notificationGrouping';
 import type { ReadStatusFilter } from '@/types/notification';
 
-type TabType = 'approvals' | 'notifications';
+type TabType = 'approvals' | 'overdue' | 'notifications';
 type ApprovalTypeTab = 'all' | 'changeRequests' | 'clientAcceptance' | 'engagementAcceptance' | 'reviewNotes' | 'vaultDocuments' | 'independenceConfirmations';
 
 export function MyApprovalsView() {
@@ -45,6 +46,7 @@ export function MyApprovalsView() {
   } | null>(null);
   
   const { data: approvalsData, isLoading: isLoadingApprovals, refetch } = useApprovals(showArchived);
+  const { data: overdueApprovals } = useOverdueApprovals();
   const approveStep = useApproveStep();
   const rejectStep = useRejectStep();
   
@@ -147,6 +149,33 @@ export function MyApprovalsView() {
                   </span>
                 )}
               </button>
+              <button
+                onClick={() => setActiveSubTab('overdue')}
+                className={`flex items-center space-x-2 px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200 ${
+                  activeSubTab === 'overdue'
+                    ? 'text-white shadow-sm'
+                    : 'text-forvis-gray-700 hover:bg-forvis-gray-100'
+                }`}
+                style={
+                  activeSubTab === 'overdue'
+                    ? { background: GRADIENTS.icon.standard }
+                    : {}
+                }
+              >
+                <AlarmClock className="h-4 w-4" />
+                <span>Overdue</span>
+                {overdueApprovals && overdueApprovals.length > 0 && (
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                      activeSubTab === 'overdue'
+                        ? 'bg-white/30 text-white'
+                        : 'bg-forvis-error-100 text-forvis-error-700'
+                    }`}
+                  >
+                    {overdueApprovals.length}
+                  </span>
+                )}
+              </button>
               <button
                 onClick={() => setActiveSubTab('notifications')}
                 className={`flex items-center space-x-2 px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200 ${
@@ -610,6 +639,8 @@ export function MyApprovalsView() {
             </div>
           )}
 
+          {activeSubTab === 'overdue' && <OverdueApprovalsReport />}
+
           {activeSubTab === 'notifications' && (
             <div className="space-y-6">
               {/* Read/Unread Filter Toggle - Always visible */}
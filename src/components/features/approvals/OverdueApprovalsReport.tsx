@@ -0,0 +1,138 @@
+'use client';
+
+import { AlarmClock, ArrowRight, BellRing, CheckCircle, ShieldAlert } from 'lucide-react';
+import { Badge, LoadingSpinner } from '@/components/ui';
+import { formatDate } from '@/lib/utils/taskUtils';
+import { useOverdueApprovals } from '@/hooks/approvals/useApprovals';
+import type { ApprovalSlaEventType, OverdueApprovalStep } from '@/types/approval';
+import { WORKFLOW_NAMES } from './workflowNames';
+
+const EVENT_LABELS: Record<ApprovalSlaEventType, string> = {
+  REMINDER: 'Reminder sent',
+  ESCALATED: 'Escalated',
+  NO_ESCALATION_TARGET: 'No one to escalate to',
+};
+
+/**
+ * Age badge colour: reminded (yellow), escalation due (red)
+ */
+function getAgeVariant(step: OverdueApprovalStep): 'yellow' | 'red' {
+  return step.businessDaysWaiting >= step.reminderBusinessDays + step.escalationBusinessDays ? 'red' : 'yellow';
+}
+
+function EventIcon({ eventType }: { eventType: ApprovalSlaEventType }) {
+  if (eventType === 'REMINDER') return <BellRing className="h-3.5 w-3.5 text-forvis-warning-600" />;
+  if (eventType === 'ESCALATED') return <ArrowRight className="h-3.5 w-3.5 text-forvis-error-600" />;
+  return <ShieldAlert className="h-3.5 w-3.5 text-forvis-gray-500" />;
+}
+
+function OverdueStepCard({ step }: { step: OverdueApprovalStep }) {
+  const workflowName = WORKFLOW_NAMES[step.workflowType] ?? step.workflowType;
+  const isEscalated = step.currentApprover?.id !== step.assignedTo?.id;
+
+  return (
+    <div className="rounded-lg border border-forvis-gray-200 bg-white p-4 shadow-corporate">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-xs font-medium uppercase tracking-wider text-forvis-gray-500">{workflowName}</p>
+          <h4 className="mt-0.5 truncate text-sm font-semibold text-forvis-gray-900">{step.title}</h4>
+          <p className="mt-1 text-xs text-forvis-gray-600">
+            Step {step.stepOrder} · Requested by {step.requestedBy.name || 'Unknown'} · Waiting since{' '}
+            {formatDate(step.activatedAt)}
+          </p>
+        </div>
+        <Badge
+          variant={getAgeVariant(step)}
+          title={`Reminder after ${step.reminderBusinessDays}, escalation after a further ${step.escalationBusinessDays} business days`}
+        >
+          {step.businessDaysWaiting} business day{step.businessDaysWaiting === 1 ? '' : 's'}
+        </Badge>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-forvis-gray-700">
+        <span>Approver: {step.assignedTo?.name || 'Unassigned'}</span>
+        {isEscalated && step.currentApprover && (
+          <>
+            <ArrowRight className="h-3 w-3 text-forvis-gray-400" />
+            <span>
+              Escalated to <span className="font-medium">{step.currentApprover.name || 'Unknown'}</span>
+            </span>
+          </>
+        )}
+        {step.escalationLevel > 0 && (
+          <Badge variant="red">Escalation level {step.escalationLevel}</Badge>
+        )}
+      </div>
+
+      {step.history.length > 0 && (
+        <ol className="mt-3 space-y-1.5 border-t border-forvis-gray-100 pt-3">
+          {step.history.map((event) => (
+            <li key={event.id} className="flex items-center gap-2 text-xs text-forvis-gray-600">
+              <EventIcon eventType={event.eventType} />
+              <span className="font-medium text-forvis-gray-800">{EVENT_LABELS[event.eventType]}</span>
+              {event.eventType === 'ESCALATED' && (
+                <span>
+                  {event.fromUser?.name || 'Unknown'} → {event.toUser?.name || 'Unknown'}
+                </span>
+              )}
+              {event.eventType === 'REMINDER' && event.toUser && <span>to {event.toUser.name}</span>}
+              <span className="text-forvis-gray-400">
+                · {formatDate(event.createdAt)} (day {event.businessDaysWaiting})
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Overdue approvals report
+ * Pending steps past their SLA reminder threshold, oldest first
+ */
+export function OverdueApprovalsReport() {
+  const { data: overdue, isLoading, error } = useOverdueApprovals();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="py-12 text-center text-sm text-forvis-error-600">
+        Failed to load overdue approvals
+      </div>
+    );
+  }
+
+  if (!overdue || overdue.length === 0) {
+    return (
+      <div className="py-12 text-center">
+        <CheckCircle className="mx-auto h-12 w-12 text-forvis-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-forvis-gray-900">No Overdue Approvals</h3>
+        <p className="mt-1 text-sm text-forvis-gray-500">
+          Nothing you approve or requested is past its approval deadline.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-forvis-gray-700">
+        <AlarmClock className="h-4 w-4 text-forvis-warning-600" />
+        <span>
+          {overdue.length} approval step{overdue.length === 1 ? '' : 's'} past the reminder deadline
+        </span>
+      </div>
+      {overdue.map((step) => (
+        <OverdueStepCard key={step.stepId} step={step} />
+      ))}
+    </div>
+  );
+}
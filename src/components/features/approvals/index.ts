@@ -8,3 +8,5 @@ export { VaultDocumentApprovalItem } from './VaultDocumentApprovalItem';
 export { UnifiedApprovalCard } from './UnifiedApprovalCard';
 export { StatusBadge } from './StatusBadge';
 export { WorkflowTimeline } from './WorkflowTimeline';
+export { OverdueApprovalsReport } from './OverdueApprovalsReport';
+export { WORKFLOW_NAMES } from './workflowNames';
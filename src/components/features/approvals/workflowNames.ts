@@ -0,0 +1,16 @@
+import type { WorkflowType } from '@/types/approval';
+
+/**
+ * Client-safe copy of the workflow registry names (the registry itself is server-only)
+ */
+export const WORKFLOW_NAMES: Record<WorkflowType, string> = {
+  CHANGE_REQUEST: 'Client Partner/Manager Change',
+  CLIENT_ACCEPTANCE: 'Client Acceptance',
+  ACCEPTANCE: 'Engagement Acceptance',
+  CONTINUANCE: 'Client Continuance',
+  ENGAGEMENT_LETTER: 'Engagement Letter',
+  DPA: 'Data Processing Agreement',
+  REVIEW_NOTE: 'Review Note',
+  VAULT_DOCUMENT: 'Vault Document',
+  INDEPENDENCE_CONFIRMATION: 'Independence Confirmation',
+};
@@ -0,0 +1,236 @@
+/**
+ * Client Continuance Card Component
+ * Shows when the client's annual continuance is due and gives access to the
+ * continuance questionnaire. Approval happens through My Approvals.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, CheckCircle, Clock, Eye, Play, RefreshCw, XCircle } from 'lucide-react';
+import { Banner, Button, Card } from '@/components/ui';
+import { formatDate } from '@/lib/utils/taskUtils';
+import { useClientContinuance, useStartClientContinuance } from '@/hooks/acceptance/useClientContinuance';
+import { ClientContinuanceQuestionnaire } from './ClientContinuanceQuestionnaire';
+
+interface ClientContinuanceCardProps {
+  GSClientID: string;
+  clientCode: string;
+  clientName: string | null;
+}
+
+const DUE_SOON_DAYS = 30;
+
+export function ClientContinuanceCard({ GSClientID, clientCode, clientName }: ClientContinuanceCardProps) {
+  const [showModal, setShowModal] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
+
+  const { data: state, isLoading, refetch } = useClientContinuance(GSClientID);
+  const startContinuance = useStartClientContinuance(GSClientID);
+
+  if (isLoading) {
+    return (
+      <Card variant="standard" className="animate-pulse">
+        <div className="p-6">
+          <div className="h-6 bg-forvis-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-4 bg-forvis-gray-200 rounded w-2/3"></div>
+        </div>
+      </Card>
+    );
+  }
+
+  // Continuance only applies once the client acceptance is approved
+  if (!state?.required || !state.dueDate) {
+    return null;
+  }
+
+  const continuance = state.continuance;
+  const dueDate = new Date(state.dueDate);
+  const daysUntilDue = Math.ceil((dueDate.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  const canStart = !continuance || continuance.status === 'REJECTED';
+  const isEditable = continuance?.status === 'PENDING';
+
+  const handleStart = async () => {
+    setStartError(null);
+    try {
+      await startContinuance.mutateAsync();
+      setShowModal(true);
+    } catch (err) {
+      setStartError(err instanceof Error ? err.message : 'Failed to start continuance');
+    }
+  };
+
+  const getStatusBadge = () => {
+    if (continuance?.status === 'SUBMITTED') {
+      return (
+        <div className="flex items-center space-x-2 px-3 py-1.5 bg-forvis-blue-50 border-2 border-forvis-blue-200 rounded-lg">
+          <Clock className="h-4 w-4 text-forvis-blue-600" />
+          <span className="text-sm font-semibold text-forvis-blue-700">Pending Approval</span>
+        </div>
+      );
+    }
+
+    if (continuance?.status === 'REJECTED') {
+      return (
+        <div className="flex items-center space-x-2 px-3 py-1.5 bg-forvis-error-50 border-2 border-forvis-error-200 rounded-lg">
+          <XCircle className="h-4 w-4 text-forvis-error-600" />
+          <span className="text-sm font-semibold text-forvis-error-700">Rejected</span>
+        </div>
+      );
+    }
+
+    if (continuance?.status === 'PENDING') {
+      return (
+        <div className="flex items-center space-x-2 px-3 py-1.5 bg-forvis-warning-50 border-2 border-forvis-warning-200 rounded-lg">
+          <AlertCircle className="h-4 w-4 text-forvis-warning-600" />
+          <span className="text-sm font-semibold text-forvis-warning-700">In Progress</span>
+        </div>
+      );
+    }
+
+    if (state.isOverdue) {
+      return (
+        <div className="flex items-center space-x-2 px-3 py-1.5 bg-forvis-error-50 border-2 border-forvis-error-200 rounded-lg">
+          <XCircle className="h-4 w-4 text-forvis-error-600" />
+          <span className="text-sm font-semibold text-forvis-error-700">Overdue</span>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center space-x-2 px-3 py-1.5 bg-forvis-success-50 border-2 border-forvis-success-200 rounded-lg">
+        <CheckCircle className="h-4 w-4 text-forvis-success-600" />
+        <span className="text-sm font-semibold text-forvis-success-700">Current</span>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Card variant="standard">
+        <div className="p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div className="flex-1">
+              <h3 className="text-lg font-semibold text-forvis-gray-900 mb-1 flex items-center gap-2">
+                <RefreshCw className="h-5 w-5 text-forvis-blue-600" />
+                Client Continuance
+              </h3>
+              <p className="text-sm text-forvis-gray-600">
+                Annual re-assessment of the client relationship
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              {getStatusBadge()}
+              {continuance && !isEditable && (
+                <Button variant="secondary" onClick={() => setShowModal(true)}>
+                  <Eye className="h-4 w-4 mr-2" />
+                  View
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
+            <div>
+              <span className="font-medium text-forvis-gray-700">Last reviewed: </span>
+              <span className="text-forvis-gray-600">{formatDate(state.lastReviewedAt)}</span>
+            </div>
+            <div>
+              <span className="font-medium text-forvis-gray-700">Due: </span>
+              <span className={state.isOverdue ? 'font-semibold text-forvis-error-700' : 'text-forvis-gray-600'}>
+                {formatDate(dueDate)}
+              </span>
+            </div>
+          </div>
+
+          {state.isOverdue && (
+            <div className="mb-4">
+              <Banner
+                variant="error"
+                message={
+                  continuance?.status === 'SUBMITTED'
+                    ? 'The continuance is overdue. New tasks are blocked until the submitted continuance is approved.'
+                    : 'The continuance is overdue. New tasks cannot be created for this client until a continuance is approved.'
+                }
+              />
+            </div>
+          )}
+
+          {!state.isOverdue && daysUntilDue <= DUE_SOON_DAYS && canStart && (
+            <div className="mb-4">
+              <Banner
+                variant="warning"
+                message={`The annual continuance is due in ${daysUntilDue} day${daysUntilDue === 1 ? '' : 's'}. Complete it before then to avoid blocking new tasks.`}
+              />
+            </div>
+          )}
+
+          {continuance?.status === 'REJECTED' && (
+            <p className="mb-4 text-sm text-forvis-gray-700">
+              The last continuance was rejected. Resolve the approver&apos;s comments and start a new assessment.
+            </p>
+          )}
+
+          {startError && (
+            <div className="mb-4">
+              <Banner variant="error" message={startError} dismissible onDismiss={() => setStartError(null)} />
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            {canStart && (
+              <Button variant="primary" onClick={handleStart} loading={startContinuance.isPending} className="flex-1">
+                <Play className="h-4 w-4 mr-2" />
+                Start Continuance
+              </Button>
+            )}
+            {isEditable && (
+              <Button variant="primary" onClick={() => setShowModal(true)} className="flex-1">
+                <Play className="h-4 w-4 mr-2" />
+                Continue Assessment
+              </Button>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      {showModal && continuance && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 overflow-y-auto">
+          <div className="min-h-screen px-4 py-8">
+            <div className="max-w-5xl mx-auto">
+              <div className="bg-white rounded-lg shadow-corporate-lg">
+                <div className="border-b border-forvis-gray-200 px-6 py-4 flex items-center justify-between">
+                  <div>
+                    <h2 className="text-xl font-semibold text-forvis-gray-900">
+                      Client Continuance - {clientName || clientCode}
+                    </h2>
+                    <p className="text-sm text-forvis-gray-600 mt-1">
+                      {isEditable ? `Due ${formatDate(dueDate)}` : 'Read-only view'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="secondary"
+                    onClick={() => {
+                      setShowModal(false);
+                      refetch();
+                    }}
+                  >
+                    Close
+                  </Button>
+                </div>
+                <div className="p-6">
+                  <ClientContinuanceQuestionnaire
+                    GSClientID={GSClientID}
+                    continuance={continuance}
+                    readOnlyMode={!isEditable}
+                    onSubmitSuccess={() => setShowModal(false)}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * Client Continuance Questionnaire
+ * Answers the annual continuance using the shared acceptance question fields.
+ * Answers are saved in batches and re-scored on the server after each save.
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Send } from 'lucide-react';
+import { Badge, Banner, Button } from '@/components/ui';
+import { ConfirmModal } from '@/components/shared/ConfirmModal';
+import { QuestionField } from '@/components/features/tasks/acceptance/QuestionField';
+import type { AcceptanceQuestionDef } from '@/constants/acceptance-questions';
+import { useSaveContinuanceAnswers, useSubmitClientContinuance } from '@/hooks/acceptance/useClientContinuance';
+import type { ClientContinuanceDetail } from '@/lib/services/acceptance/clientContinuanceService';
+import type { RiskAssessment } from '@/lib/services/acceptance/riskCalculation';
+
+interface ClientContinuanceQuestionnaireProps {
+  GSClientID: string;
+  continuance: ClientContinuanceDetail;
+  readOnlyMode?: boolean;
+  onSubmitSuccess?: () => void;
+}
+
+type AnswerState = Record<string, { answer: string; comment?: string }>;
+
+const SAVE_DELAY_MS = 3000;
+
+const RISK_BADGE_VARIANTS = {
+  LOW: 'green',
+  MEDIUM: 'yellow',
+  HIGH: 'red',
+} as const;
+
+function isVisible(question: AcceptanceQuestionDef, answers: AnswerState): boolean {
+  if (!question.conditionalDisplay) return true;
+  return answers[question.conditionalDisplay.dependsOn]?.answer === question.conditionalDisplay.requiredAnswer;
+}
+
+export function ClientContinuanceQuestionnaire({
+  GSClientID,
+  continuance,
+  readOnlyMode = false,
+  onSubmitSuccess,
+}: ClientContinuanceQuestionnaireProps) {
+  const { sections } = continuance;
+
+  const [answers, setAnswers] = useState<AnswerState>(() =>
+    Object.fromEntries(continuance.answers.map((a) => [a.questionKey, { answer: a.answer, comment: a.comment }]))
+  );
+  const [riskAssessment, setRiskAssessment] = useState<Pick<RiskAssessment, 'riskRating' | 'overallRiskScore'> | null>(
+    continuance.riskRating
+      ? {
+          riskRating: continuance.riskRating as RiskAssessment['riskRating'],
+          overallRiskScore: continuance.overallRiskScore ?? 0,
+        }
+      : null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  const pendingRef = useRef<AnswerState>({});
+  const saveTimeoutRef = useRef<NodeJS.Timeout>();
+
+  const saveAnswers = useSaveContinuanceAnswers(GSClientID, continuance.id);
+  const submitContinuance = useSubmitClientContinuance(GSClientID);
+
+  const flushPending = async () => {
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+
+    const pending = pendingRef.current;
+    if (Object.keys(pending).length === 0) return;
+    pendingRef.current = {};
+
+    try {
+      const result = await saveAnswers.mutateAsync(
+        Object.entries(pending).map(([questionKey, value]) => ({ questionKey, ...value }))
+      );
+      setRiskAssessment(result.riskAssessment);
+      setError(null);
+    } catch (err) {
+      // Put the answers back so the next save retries them
+      pendingRef.current = { ...pending, ...pendingRef.current };
+      setError(err instanceof Error ? err.message : 'Failed to save answers');
+      throw err;
+    }
+  };
+
+  // Save anything outstanding when the questionnaire closes
+  useEffect(() => {
+    return () => {
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      if (Object.keys(pendingRef.current).length > 0) {
+        void flushPending().catch(() => undefined);
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleAnswerChange = (questionKey: string, answer: string, comment?: string) => {
+    if (readOnlyMode) return;
+
+    setAnswers((prev) => ({ ...prev, [questionKey]: { answer, comment } }));
+    pendingRef.current[questionKey] = { answer, comment };
+
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = setTimeout(() => {
+      void flushPending().catch(() => undefined);
+    }, SAVE_DELAY_MS);
+  };
+
+  const requiredQuestions = sections
+    .flatMap((section) => section.questions)
+    .filter((q) => q.required && q.fieldType !== 'PLACEHOLDER' && q.fieldType !== 'BUTTON' && isVisible(q, answers));
+  const answeredCount = requiredQuestions.filter((q) => answers[q.questionKey]?.answer?.trim()).length;
+  const isComplete = answeredCount === requiredQuestions.length;
+
+  const handleSubmit = async () => {
+    try {
+      await flushPending();
+      await submitContinuance.mutateAsync(continuance.id);
+      setShowConfirm(false);
+      onSubmitSuccess?.();
+    } catch (err) {
+      setShowConfirm(false);
+      setError(err instanceof Error ? err.message : 'Failed to submit continuance');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-forvis-gray-200 bg-forvis-gray-50 px-4 py-3">
+        <div className="flex items-center gap-3 text-sm text-forvis-gray-700">
+          <Badge variant="blue">
+            {continuance.questionnaireType === 'CONTINUANCE_LITE' ? 'Continuance Lite' : 'Continuance Full'}
+          </Badge>
+          <span>
+            {answeredCount} of {requiredQuestions.length} required questions answered
+          </span>
+          {saveAnswers.isPending && <span className="text-xs text-forvis-gray-500">Saving...</span>}
+        </div>
+        {riskAssessment && (
+          <Badge variant={RISK_BADGE_VARIANTS[riskAssessment.riskRating]}>
+            Risk: {riskAssessment.riskRating} ({riskAssessment.overallRiskScore.toFixed(0)}%)
+          </Badge>
+        )}
+      </div>
+
+      {error && <Banner variant="error" message={error} dismissible onDismiss={() => setError(null)} />}
+
+      {sections.map((section) => (
+        <section key={section.key} className="rounded-lg border border-forvis-gray-200 bg-white">
+          <div className="border-b border-forvis-gray-200 px-5 py-3">
+            <h3 className="text-base font-semibold text-forvis-gray-900">{section.title}</h3>
+            {section.description && <p className="mt-0.5 text-sm text-forvis-gray-600">{section.description}</p>}
+          </div>
+          <div className="space-y-5 px-5 py-4">
+            {section.questions
+              .filter((question) => isVisible(question, answers))
+              .map((question) => (
+                <QuestionField
+                  key={question.questionKey}
+                  question={question}
+                  value={answers[question.questionKey]?.answer || ''}
+                  comment={answers[question.questionKey]?.comment}
+                  onChange={(answer, comment) => handleAnswerChange(question.questionKey, answer, comment)}
+                  disabled={readOnlyMode}
+                />
+              ))}
+          </div>
+        </section>
+      ))}
+
+      {!readOnlyMode && (
+        <div className="flex justify-end gap-3">
+          <Button
+            variant="secondary"
+            onClick={() => void flushPending().catch(() => undefined)}
+            loading={saveAnswers.isPending}
+          >
+            Save Progress
+          </Button>
+          <Button
+            variant="gradient"
+            onClick={() => setShowConfirm(true)}
+            disabled={!isComplete}
+            icon={<Send className="h-4 w-4" />}
+          >
+            Submit for Approval
+          </Button>
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={showConfirm}
+        onClose={() => setShowConfirm(false)}
+        onConfirm={handleSubmit}
+        title="Submit Client Continuance"
+        message="The continuance will be sent for approval and can no longer be edited. Continue?"
+        confirmText="Submit"
+        variant="info"
+        isLoading={submitContinuance.isPending || saveAnswers.isPending}
+      />
+    </div>
+  );
+}
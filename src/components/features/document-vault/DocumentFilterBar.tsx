@@ -71,7 +71,7 @@ export function DocumentFilterBar({ onFilterChange, categories = [], serviceLine
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-forvis-gray-400" />
         <input
           type="text"
-          placeholder="Search documents by title, description, or tags..."
+          placeholder='Search titles, tags and document text - use "phrases", OR, -exclude, prefix*'
           value={search}
           onChange={(e) => handleSearchChange(e.target.value)}
           className="w-full pl-10 pr-4 py-2 border border-forvis-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-forvis-blue-500 focus:border-forvis-blue-500"
@@ -0,0 +1,255 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, FileText } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui';
+import { useSearchDocuments } from '@/hooks/documentVault';
+import type {
+  VaultSearchFacetBucket,
+  VaultSearchHighlightSegment,
+  VaultSearchParams,
+} from '@/types/documentVault';
+
+const PAGE_SIZE = 20;
+
+interface DocumentSearchResultsProps {
+  query: string;
+  /** Facet values selected when the search opens, e.g. from the filter bar or service line page */
+  initialFilters?: Pick<VaultSearchParams, 'categoryIds' | 'documentTypes' | 'serviceLines'>;
+  onSelect: (documentId: number) => void;
+}
+
+type FacetFilters = Required<Pick<VaultSearchParams, 'categoryIds' | 'documentTypes' | 'serviceLines' | 'effectiveYears'>>;
+
+export function DocumentSearchResults({ query, initialFilters, onSelect }: DocumentSearchResultsProps) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+  const [filters, setFilters] = useState<FacetFilters>({
+    categoryIds: initialFilters?.categoryIds ?? [],
+    documentTypes: initialFilters?.documentTypes ?? [],
+    serviceLines: initialFilters?.serviceLines ?? [],
+    effectiveYears: [],
+  });
+  const [sort, setSort] = useState<'relevance' | 'newest'>('relevance');
+  const [page, setPage] = useState(1);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedQuery, filters, sort]);
+
+  const { data, isLoading, error } = useSearchDocuments({
+    query: debouncedQuery,
+    ...filters,
+    sort,
+    page,
+    limit: PAGE_SIZE,
+  });
+
+  const toggle = <K extends keyof FacetFilters>(key: K, value: FacetFilters[K][number]) => {
+    setFilters((current) => {
+      const values = current[key] as Array<typeof value>;
+      return {
+        ...current,
+        [key]: values.includes(value) ? values.filter((v) => v !== value) : [...values, value],
+      };
+    });
+  };
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+        {error instanceof Error ? error.message : 'Failed to search documents'}
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  const { results, facets, pagination } = data;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Facets */}
+      <aside className="space-y-5">
+        <FacetGroup
+          title="Category"
+          buckets={facets.categories}
+          onToggle={(value) => toggle('categoryIds', Number(value))}
+        />
+        <FacetGroup
+          title="Type"
+          buckets={facets.documentTypes}
+          onToggle={(value) => toggle('documentTypes', value)}
+        />
+        <FacetGroup
+          title="Service Line"
+          buckets={facets.serviceLines}
+          onToggle={(value) => toggle('serviceLines', value)}
+        />
+        <FacetGroup
+          title="Effective"
+          buckets={facets.effectiveYears}
+          onToggle={(value) => toggle('effectiveYears', value)}
+        />
+      </aside>
+
+      {/* Results */}
+      <div className="lg:col-span-3 space-y-4">
+        <div className="flex items-center justify-between gap-3 text-sm text-forvis-gray-600">
+          <span>
+            {pagination.total} result{pagination.total !== 1 ? 's' : ''}
+            {isLoading && ' - updating...'}
+          </span>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as 'relevance' | 'newest')}
+            className="px-3 py-1.5 border border-forvis-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-forvis-blue-500 text-sm"
+          >
+            <option value="relevance">Most relevant</option>
+            <option value="newest">Newest first</option>
+          </select>
+        </div>
+
+        {results.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-forvis-gray-600">No documents match your search</p>
+            <p className="text-xs text-forvis-gray-500 mt-2">
+              Tip: use &quot;quoted phrases&quot;, OR, -exclude and prefix* to refine the query
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {results.map((result) => (
+              <li key={result.id}>
+                <button
+                  onClick={() => onSelect(result.id)}
+                  className="w-full text-left rounded-lg border border-forvis-gray-200 p-4 hover:border-forvis-blue-300 hover:shadow-corporate transition-all"
+                >
+                  <div className="flex items-start gap-3">
+                    <FileText className="h-5 w-5 text-forvis-blue-600 mt-0.5 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-base font-semibold text-forvis-gray-900">
+                        <Highlighted segments={result.titleSegments} />
+                      </h3>
+                      <div className="flex flex-wrap gap-2 mt-1">
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-forvis-blue-100 text-forvis-blue-800">
+                          {result.documentType}
+                        </span>
+                        <span
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium text-white"
+                          style={{ backgroundColor: result.category.color || '#2E5AAC' }}
+                        >
+                          {result.category.name}
+                        </span>
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-forvis-gray-100 text-forvis-gray-700">
+                          {result.scope === 'GLOBAL' ? 'Global' : result.serviceLine}
+                        </span>
+                        {result.effectiveDate && (
+                          <span className="text-xs text-forvis-gray-500">
+                            Effective {new Date(result.effectiveDate).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      {result.snippet.length > 0 && (
+                        <p className="text-sm text-forvis-gray-700 mt-2 line-clamp-3">
+                          <Highlighted segments={result.snippet} />
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {pagination.totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2 text-sm text-forvis-gray-700">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1}
+              className="p-1 rounded hover:bg-forvis-gray-100 disabled:opacity-40"
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span>
+              Page {pagination.page} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => setPage((p) => Math.min(pagination.totalPages, p + 1))}
+              disabled={page >= pagination.totalPages}
+              className="p-1 rounded hover:bg-forvis-gray-100 disabled:opacity-40"
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface FacetGroupProps {
+  title: string;
+  buckets: VaultSearchFacetBucket[];
+  onToggle: (value: string) => void;
+}
+
+function FacetGroup({ title, buckets, onToggle }: FacetGroupProps) {
+  if (buckets.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-forvis-gray-600 uppercase tracking-wider mb-2">{title}</h4>
+      <ul className="space-y-1">
+        {buckets.map((bucket) => (
+          <li key={bucket.value}>
+            <label className="flex items-center justify-between gap-2 text-sm text-forvis-gray-700 cursor-pointer">
+              <span className="flex items-center gap-2 min-w-0">
+                <input
+                  type="checkbox"
+                  checked={bucket.selected}
+                  onChange={() => onToggle(bucket.value)}
+                  className="h-4 w-4 text-forvis-blue-600 border-forvis-gray-300 rounded"
+                />
+                <span className="truncate">{bucket.label}</span>
+              </span>
+              <span className="text-xs text-forvis-gray-500">{bucket.count}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function Highlighted({ segments }: { segments: VaultSearchHighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark key={index} className="bg-yellow-100 text-forvis-gray-900 rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
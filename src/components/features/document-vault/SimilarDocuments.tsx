@@ -0,0 +1,51 @@
+'use client';
+
+import Link from 'next/link';
+import { FileText, Layers } from 'lucide-react';
+import { useSimilarDocuments } from '@/hooks/documentVault';
+
+interface SimilarDocumentsProps {
+  documentId: number | string;
+}
+
+/**
+ * Published documents with similar wording, from the local embedding index
+ * Renders nothing while loading, when switched off or when there are no matches
+ */
+export function SimilarDocuments({ documentId }: SimilarDocumentsProps) {
+  const { data } = useSimilarDocuments(documentId);
+
+  if (!data?.enabled || data.documents.length === 0) return null;
+
+  return (
+    <div className="p-6 bg-white rounded-lg border border-forvis-gray-200">
+      <div className="flex items-center gap-2 mb-4">
+        <Layers className="h-5 w-5 text-forvis-gray-600" />
+        <h3 className="text-lg font-semibold text-forvis-gray-900">Similar Documents</h3>
+      </div>
+      <div className="space-y-2">
+        {data.documents.map((doc) => (
+          <Link
+            key={doc.id}
+            href={`/dashboard/document-vault/${doc.id}`}
+            className="flex items-start justify-between gap-3 p-3 rounded-lg bg-forvis-gray-50 hover:bg-forvis-blue-50 transition-colors"
+          >
+            <div className="flex items-start gap-3 min-w-0">
+              <FileText className="h-4 w-4 text-forvis-gray-600 mt-0.5 flex-shrink-0" />
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-forvis-gray-900 truncate">{doc.title}</div>
+                <div className="text-xs text-forvis-gray-600">
+                  {doc.documentType} • {doc.category.name}
+                  {doc.scope === 'SERVICE_LINE' && doc.serviceLine && ` • ${doc.serviceLine}`}
+                </div>
+              </div>
+            </div>
+            <span className="text-xs font-medium text-forvis-blue-700 flex-shrink-0">
+              {Math.round(doc.similarity * 100)}% similar
+            </span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -13,3 +13,5 @@ export { EditDocumentModal } from './EditDocumentModal';
 export { SubmitDocumentModal } from './SubmitDocumentModal';
 export { DocumentDetailModal } from './DocumentDetailModal';
 export { DocumentPreviewModal } from './DocumentPreviewModal';
+export { DocumentSearchResults } from './DocumentSearchResults';
+export { SimilarDocuments } from './SimilarDocuments';
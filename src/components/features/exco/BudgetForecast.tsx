@@ -0,0 +1,392 @@
+'use client';
+
+/**
+ * Budget Forecast
+ *
+ * GL fee budget against fees billed and forecast billings by month, for the
+ * firm or a service line, with the tasks projected to overrun their budgets
+ * and what is driving each overrun.
+ */
+
+import { useState } from 'react';
+import { AlertTriangle, ArrowLeft, ChevronRight, PiggyBank, Receipt, Target, TrendingUp } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Badge, Banner, Input, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { useBudgetForecast } from '@/hooks/exco/useExcoReports';
+import type { BudgetForecastServiceLineRow, ExcoPeriodFilter, TaskForecast } from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+const UNMAPPED_SERVICE_LINE = 'UNMAPPED';
+
+const SERVICE_LINE_COLUMNS = '2fr 120px 120px 120px 120px 80px 80px 120px';
+const MONTH_COLUMNS = '1fr 130px 130px 130px 130px';
+const TASK_COLUMNS = '2fr 1fr 110px 110px 110px 70px 110px 2fr';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+function varianceClass(variance: number): string {
+  return variance < 0 ? 'text-forvis-error-600' : 'text-forvis-success-600';
+}
+
+function ServiceLineTable({
+  rows,
+  onSelect,
+}: {
+  rows: BudgetForecastServiceLineRow[];
+  onSelect: (row: BudgetForecastServiceLineRow) => void;
+}) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No budgets or billings in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: SERVICE_LINE_COLUMNS }}
+        >
+          <div>Service Line</div>
+          <div className="text-right">GL Budget</div>
+          <div className="text-right">Billed</div>
+          <div className="text-right">Forecast</div>
+          <div className="text-right">Variance</div>
+          <div className="text-right">Tasks</div>
+          <div className="text-right">Overruns</div>
+          <div className="text-right">WIP</div>
+        </div>
+        <div className="bg-white">
+          {rows.map((row, index) => {
+            const canSelect = row.code !== UNMAPPED_SERVICE_LINE;
+            return (
+              <div
+                key={row.code}
+                onClick={canSelect ? () => onSelect(row) : undefined}
+                className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                  index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+                } ${canSelect ? 'cursor-pointer' : ''}`}
+                style={{ gridTemplateColumns: SERVICE_LINE_COLUMNS }}
+              >
+                <div className="font-semibold text-forvis-gray-900 flex items-center gap-1 truncate">
+                  {row.name}
+                  {canSelect && <ChevronRight className="h-3 w-3 text-forvis-gray-400 flex-shrink-0" />}
+                </div>
+                <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(row.glBudget)}</div>
+                <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(row.actualFees)}</div>
+                <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(row.forecastFees)}</div>
+                <div className={`text-right tabular-nums font-semibold ${varianceClass(row.variance)}`}>
+                  {formatCurrency(row.variance)}
+                </div>
+                <div className="text-right tabular-nums text-forvis-gray-700">{row.taskCount}</div>
+                <div
+                  className={`text-right tabular-nums ${
+                    row.overrunCount > 0 ? 'font-semibold text-forvis-error-600' : 'text-forvis-gray-700'
+                  }`}
+                >
+                  {row.overrunCount}
+                </div>
+                <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(row.wipBalance)}</div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TaskTable({ tasks }: { tasks: TaskForecast[] }) {
+  if (tasks.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No budgeted tasks to show</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: TASK_COLUMNS }}
+        >
+          <div>Task</div>
+          <div>Client</div>
+          <div className="text-right">Budget</div>
+          <div className="text-right">Actual</div>
+          <div className="text-right">Projected</div>
+          <div className="text-right">Burn</div>
+          <div className="text-right">To Bill</div>
+          <div>Drivers</div>
+        </div>
+        <div className="bg-white">
+          {tasks.map((task, index) => (
+            <div
+              key={task.taskId}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              }`}
+              style={{ gridTemplateColumns: TASK_COLUMNS }}
+            >
+              <div className="min-w-0">
+                <div className="font-semibold text-forvis-gray-900 flex items-center gap-2">
+                  <span className="truncate">{task.taskDesc}</span>
+                  {task.overrun && <Badge variant="red">Overrun</Badge>}
+                </div>
+                <div className="text-forvis-gray-500 truncate">
+                  {task.taskCode} - {task.partnerName}
+                  {task.dueDate && ` - due ${new Date(task.dueDate).toLocaleDateString('en-ZA')}`}
+                </div>
+              </div>
+              <div className="min-w-0">
+                <div className="text-forvis-gray-900 truncate">{task.clientName ?? '-'}</div>
+                <div className="text-forvis-gray-500">{task.clientCode}</div>
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(task.budgetChargeable)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(task.actualChargeable)}</div>
+              <div
+                className={`text-right tabular-nums font-semibold ${
+                  task.overrun ? 'text-forvis-error-600' : 'text-forvis-gray-900'
+                }`}
+              >
+                {formatCurrency(task.projectedChargeable)}
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-700">
+                {task.burnPercent}%
+                {task.elapsedPercent !== null && (
+                  <div className="text-forvis-gray-500">{task.elapsedPercent}% time</div>
+                )}
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(task.remainingFeeRecovery)}</div>
+              <div className="text-forvis-gray-700 space-y-1">
+                {task.drivers.length === 0 ? (
+                  <span className="text-forvis-gray-400">-</span>
+                ) : (
+                  task.drivers.map((driver) => <div key={driver.type}>{driver.explanation}</div>)
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function BudgetForecast() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+  const [serviceLine, setServiceLine] = useState<string | undefined>(undefined);
+  const [budgetCode, setBudgetCode] = useState<string | undefined>(undefined);
+  const [overrunsOnly, setOverrunsOnly] = useState(true);
+
+  const { data: report, isLoading, error } = useBudgetForecast(period, { serviceLine, budgetCode });
+
+  const changePeriod = (next: Partial<ExcoPeriodFilter>) => {
+    // Budget versions are per fiscal year
+    if (next.fiscalYear !== (period.fiscalYear ?? report?.period.fiscalYear)) setBudgetCode(undefined);
+    setPeriod(next);
+  };
+
+  const tasks = report ? (overrunsOnly ? report.tasks.filter((task) => task.overrun) : report.tasks) : [];
+  const outturn = report ? report.totals.actualFees + report.totals.forecastFees : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Budget vs Actual Forecast</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `${report.period.label} - fees billed to date and forecast billings against the GL budget`
+              : 'Fees billed and forecast billings against the GL budget'}
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          {report && report.budgetCodes.length > 1 && (
+            <div className="w-36">
+              <Input
+                variant="select"
+                label="GL Budget"
+                value={report.budgetCode ?? ''}
+                onChange={(e) => setBudgetCode(e.target.value)}
+                options={report.budgetCodes.map((code) => ({ value: code, label: code }))}
+              />
+            </div>
+          )}
+          <ExcoPeriodSelector
+            value={{ ...period, fiscalYear: period.fiscalYear ?? report?.period.fiscalYear }}
+            onChange={changePeriod}
+            fiscalYears={report?.fiscalYears ?? []}
+          />
+        </div>
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          {report.serviceLine && (
+            <button
+              onClick={() => setServiceLine(undefined)}
+              className="inline-flex items-center gap-2 text-sm font-medium text-forvis-blue-600 hover:text-forvis-blue-800"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              All service lines
+              <span className="text-forvis-gray-500">/ {report.serviceLine.name}</span>
+            </button>
+          )}
+
+          {!report.budgetCode && (
+            <Banner variant="info" message={`No GL budget has been loaded for FY${report.period.fiscalYear}`} />
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              label={report.budgetCode ? `GL Budget (${report.budgetCode})` : 'GL Budget'}
+              value={formatCurrency(report.totals.glBudget)}
+              icon={<Target className="h-5 w-5" />}
+              gradientVariant={1}
+            />
+            <StatCard
+              label="Fees Billed"
+              value={formatCurrency(report.totals.actualFees)}
+              icon={<Receipt className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label="Projected Outturn"
+              value={formatCurrency(outturn)}
+              icon={<TrendingUp className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+            <StatCard
+              label="Tasks Projected to Overrun"
+              value={`${report.overrunCount} of ${report.taskCount}`}
+              icon={<AlertTriangle className="h-5 w-5" />}
+              gradientVariant={4}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-sm font-semibold text-forvis-gray-900">
+                Monthly Fees - {report.serviceLine?.name ?? 'Firm'}
+              </h2>
+              <span className={`text-sm font-semibold ${varianceClass(report.totals.variance)}`}>
+                <PiggyBank className="h-4 w-4 inline mr-1" />
+                {formatCurrency(report.totals.variance)} against budget
+              </span>
+            </div>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={report.months} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                <XAxis dataKey="label" stroke="#6B7280" style={{ fontSize: '12px' }} />
+                <YAxis
+                  stroke="#6B7280"
+                  style={{ fontSize: '12px' }}
+                  tickFormatter={(value: number) => `R${Math.round(value / 1000)}k`}
+                />
+                <Tooltip formatter={(value) => [formatCurrency(Number(value))]} />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} iconType="line" />
+                <Line
+                  type="monotone"
+                  dataKey="glBudget"
+                  name="GL Budget"
+                  stroke="#DC2626"
+                  strokeDasharray="5 5"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="actualFees"
+                  name="Billed"
+                  stroke="#2E5AAC"
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="forecastFees"
+                  name="Forecast"
+                  stroke="#A8803A"
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+
+            <div className="mt-4 overflow-x-auto">
+              <div
+                className="grid gap-3 py-2 px-4 text-xs font-semibold text-forvis-gray-600 border-b border-forvis-gray-200"
+                style={{ gridTemplateColumns: MONTH_COLUMNS }}
+              >
+                <div>Month</div>
+                <div className="text-right">GL Budget</div>
+                <div className="text-right">Billed</div>
+                <div className="text-right">Forecast</div>
+                <div className="text-right">Variance</div>
+              </div>
+              {report.months.map((month) => (
+                <div
+                  key={month.month}
+                  className="grid gap-3 py-2 px-4 text-xs border-b border-forvis-gray-100"
+                  style={{ gridTemplateColumns: MONTH_COLUMNS }}
+                >
+                  <div className="text-forvis-gray-900">{month.label}</div>
+                  <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(month.glBudget)}</div>
+                  <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(month.actualFees)}</div>
+                  <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(month.forecastFees)}</div>
+                  <div className={`text-right tabular-nums font-semibold ${varianceClass(month.variance)}`}>
+                    {formatCurrency(month.variance)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {!report.serviceLine && (
+            <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+              <div className="px-4 py-3 border-b border-forvis-gray-200">
+                <h2 className="text-sm font-semibold text-forvis-gray-900">By Service Line</h2>
+              </div>
+              <ServiceLineTable rows={report.byServiceLine} onSelect={(row) => setServiceLine(row.code)} />
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="px-4 py-3 border-b border-forvis-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-sm font-semibold text-forvis-gray-900">Task Forecasts</h2>
+                <p className="text-xs text-forvis-gray-500 mt-0.5">
+                  Projected at the last 90 days&apos; burn rate to each task&apos;s budget due date
+                </p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-forvis-gray-700">
+                <input
+                  type="checkbox"
+                  checked={overrunsOnly}
+                  onChange={(e) => setOverrunsOnly(e.target.checked)}
+                  className="rounded border-forvis-gray-300 text-forvis-blue-600 focus:ring-forvis-blue-500"
+                />
+                Overruns only
+              </label>
+            </div>
+            <TaskTable tasks={tasks} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
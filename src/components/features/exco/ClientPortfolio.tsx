@@ -0,0 +1,344 @@
+'use client';
+
+/**
+ * Client Portfolio
+ *
+ * Fee concentration in the largest clients, clients lost and gained against
+ * the same period last year, and how many service lines serve each client
+ * group.
+ */
+
+import { useState } from 'react';
+import { Layers, PieChart, Receipt, UserCheck } from 'lucide-react';
+import { Badge, Banner, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { useClientPortfolio } from '@/hooks/exco/useExcoReports';
+import type { CrossSellCoverage, ExcoPeriodFilter, PortfolioChurnClient, PortfolioClientRow } from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+const CLIENT_COLUMNS = '40px 2fr 1.5fr 1fr 120px 120px 70px 80px 70px';
+const CHURN_COLUMNS = '2fr 1.5fr 110px';
+const GROUP_COLUMNS = '2fr 70px 120px 3fr';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+function ShareComparison({ label, current, prior }: { label: string; current: number; prior: number | null }) {
+  const change = prior === null ? null : Math.round((current - prior) * 10) / 10;
+  return (
+    <div className="rounded-lg border border-forvis-gray-200 p-4">
+      <div className="text-xs text-forvis-gray-600">{label}</div>
+      <div className="text-2xl font-semibold text-forvis-gray-900 tabular-nums mt-1">{current}%</div>
+      {change !== null && (
+        <div
+          className={`text-xs mt-1 ${
+            change > 0 ? 'text-forvis-error-600' : change < 0 ? 'text-forvis-success-600' : 'text-forvis-gray-500'
+          }`}
+        >
+          {change > 0 ? '+' : ''}
+          {change} pts on last year ({prior}%)
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TopClientTable({ clients }: { clients: PortfolioClientRow[] }) {
+  if (clients.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No fees billed in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: CLIENT_COLUMNS }}
+        >
+          <div>#</div>
+          <div>Client</div>
+          <div>Group</div>
+          <div>Industry</div>
+          <div className="text-right">Fees</div>
+          <div className="text-right">Last Year</div>
+          <div className="text-right">Share</div>
+          <div className="text-right">Cumulative</div>
+          <div className="text-right">Lines</div>
+        </div>
+        <div className="bg-white">
+          {clients.map((client, index) => (
+            <div
+              key={client.clientId}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              }`}
+              style={{ gridTemplateColumns: CLIENT_COLUMNS }}
+            >
+              <div className="text-forvis-gray-500">{index + 1}</div>
+              <div className="min-w-0">
+                <div className="font-semibold text-forvis-gray-900 truncate">{client.clientName}</div>
+                <div className="text-forvis-gray-500">{client.clientCode}</div>
+              </div>
+              <div className="text-forvis-gray-700 truncate">{client.groupDesc}</div>
+              <div className="text-forvis-gray-700 truncate">{client.industry ?? '-'}</div>
+              <div className="text-right tabular-nums font-semibold text-forvis-gray-900">{formatCurrency(client.fees)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-600">{formatCurrency(client.priorFees)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{client.sharePercent}%</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{client.cumulativeSharePercent}%</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{client.serviceLineCount}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ChurnList({ title, clients, feesLabel }: { title: string; clients: PortfolioChurnClient[]; feesLabel: string }) {
+  return (
+    <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+      <div className="px-4 py-3 border-b border-forvis-gray-200">
+        <h3 className="text-sm font-semibold text-forvis-gray-900">{title}</h3>
+      </div>
+      {clients.length === 0 ? (
+        <p className="text-sm text-forvis-gray-500 text-center py-8">None</p>
+      ) : (
+        <>
+          <div
+            className="grid gap-3 py-2 px-4 text-xs font-semibold text-forvis-gray-600 border-b border-forvis-gray-200"
+            style={{ gridTemplateColumns: CHURN_COLUMNS }}
+          >
+            <div>Client</div>
+            <div>Service Lines</div>
+            <div className="text-right">{feesLabel}</div>
+          </div>
+          {clients.map((client) => (
+            <div
+              key={client.clientId}
+              className="grid gap-3 py-2 px-4 text-xs border-b border-forvis-gray-100"
+              style={{ gridTemplateColumns: CHURN_COLUMNS }}
+            >
+              <div className="min-w-0">
+                <div className="font-semibold text-forvis-gray-900 truncate">{client.clientName}</div>
+                <div className="text-forvis-gray-500 truncate">
+                  {client.clientCode} - {client.groupDesc}
+                </div>
+              </div>
+              <div className="text-forvis-gray-700 truncate">{client.serviceLines.join(', ')}</div>
+              <div className="text-right tabular-nums text-forvis-gray-900">{formatCurrency(client.fees)}</div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+function CrossSellPanel({ crossSell }: { crossSell: CrossSellCoverage }) {
+  const maxGroups = Math.max(1, ...crossSell.buckets.map((b) => b.groupCount));
+
+  return (
+    <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+      <div className="px-4 py-3 border-b border-forvis-gray-200">
+        <h2 className="text-sm font-semibold text-forvis-gray-900">Cross-sell Coverage</h2>
+        <p className="text-xs text-forvis-gray-500 mt-0.5">
+          {crossSell.groupCount} client groups served - {crossSell.singleServiceLinePercent}% by a single service line
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4">
+        <div className="space-y-3">
+          <h3 className="text-xs font-semibold text-forvis-gray-600 uppercase">Groups by service lines</h3>
+          {crossSell.buckets.map((bucket) => (
+            <div key={bucket.serviceLineCount}>
+              <div className="flex justify-between text-xs text-forvis-gray-700 mb-1">
+                <span>{bucket.label}</span>
+                <span className="tabular-nums">
+                  {bucket.groupCount} groups - {formatCurrency(bucket.fees)}
+                </span>
+              </div>
+              <div className="h-3 rounded-full bg-forvis-gray-100 overflow-hidden">
+                <div
+                  className="h-full rounded-full"
+                  style={{ width: `${(bucket.groupCount / maxGroups) * 100}%`, background: GRADIENTS.primary.horizontal }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <h3 className="text-xs font-semibold text-forvis-gray-600 uppercase mb-3">By service line</h3>
+          <div className="divide-y divide-forvis-gray-100">
+            {crossSell.serviceLines.map((serviceLine) => (
+              <div key={serviceLine.code} className="flex items-center justify-between py-2 text-xs">
+                <span className="text-forvis-gray-900">{serviceLine.name}</span>
+                <span className="text-forvis-gray-600 tabular-nums">
+                  {serviceLine.groupCount} groups - {serviceLine.sharedGroupPercent}% shared
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="inline-block min-w-full align-middle">
+          <div
+            className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+            style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: GROUP_COLUMNS }}
+          >
+            <div>Largest Client Groups</div>
+            <div className="text-right">Clients</div>
+            <div className="text-right">Fees</div>
+            <div>Service Lines</div>
+          </div>
+          <div className="bg-white">
+            {crossSell.topGroups.map((group, index) => (
+              <div
+                key={group.groupCode}
+                className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                  index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+                }`}
+                style={{ gridTemplateColumns: GROUP_COLUMNS }}
+              >
+                <div className="min-w-0">
+                  <div className="font-semibold text-forvis-gray-900 truncate">{group.groupDesc}</div>
+                  <div className="text-forvis-gray-500">{group.groupCode}</div>
+                </div>
+                <div className="text-right tabular-nums text-forvis-gray-700">{group.clientCount}</div>
+                <div className="text-right tabular-nums text-forvis-gray-900">{formatCurrency(group.fees)}</div>
+                <div className="flex flex-wrap gap-1">
+                  {group.serviceLines.map((name) => (
+                    <Badge key={name} variant={group.serviceLines.length === 1 ? 'yellow' : 'blue'}>
+                      {name}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ClientPortfolio() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+
+  const { data: report, isLoading, error } = useClientPortfolio(period);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Client Portfolio</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `${report.period.label} compared with ${report.comparisonPeriod.label}`
+              : 'Fee concentration, client churn and cross-sell coverage'}
+          </p>
+        </div>
+        <ExcoPeriodSelector
+          value={{ ...period, fiscalYear: period.fiscalYear ?? report?.period.fiscalYear }}
+          onChange={setPeriod}
+          fiscalYears={report?.fiscalYears ?? []}
+        />
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              label={`Fees Billed (${report.concentration.clientCount} clients)`}
+              value={formatCurrency(report.concentration.totalFees)}
+              icon={<Receipt className="h-5 w-5" />}
+              gradientVariant={1}
+            />
+            <StatCard
+              label="Top 10 Client Share"
+              value={`${report.concentration.top10SharePercent}%`}
+              icon={<PieChart className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label="Client Retention"
+              value={`${report.churn.retentionPercent}%`}
+              icon={<UserCheck className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+            <StatCard
+              label="Service Lines per Group"
+              value={report.crossSell.averageServiceLines}
+              icon={<Layers className="h-5 w-5" />}
+              gradientVariant={4}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="px-4 py-3 border-b border-forvis-gray-200">
+              <h2 className="text-sm font-semibold text-forvis-gray-900">Fee Concentration</h2>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4">
+              <ShareComparison
+                label="Top 10 clients"
+                current={report.concentration.top10SharePercent}
+                prior={report.concentration.priorTop10SharePercent}
+              />
+              <ShareComparison
+                label="Top 20 clients"
+                current={report.concentration.top20SharePercent}
+                prior={report.concentration.priorTop20SharePercent}
+              />
+              <ShareComparison label="Top 10 client groups" current={report.concentration.groupTop10SharePercent} prior={null} />
+            </div>
+            <TopClientTable clients={report.topClients} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200 p-4">
+            <h2 className="text-sm font-semibold text-forvis-gray-900">Client Churn</h2>
+            <p className="text-xs text-forvis-gray-500 mt-0.5 mb-4">
+              Clients with time, disbursements or fees recorded in the period
+              {new Date(report.period.endDate) > new Date() && ' - lost includes clients not yet served this period'}
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: `Active in ${report.comparisonPeriod.label}`, value: report.churn.priorActiveClients },
+                { label: 'Retained', value: report.churn.retainedClients },
+                { label: 'Lost', value: report.churn.lostClients, detail: `${formatCurrency(report.churn.lostFees)} fees last year` },
+                { label: 'New', value: report.churn.newClients },
+              ].map((item) => (
+                <div key={item.label} className="rounded-lg border border-forvis-gray-200 p-4">
+                  <div className="text-xs text-forvis-gray-600">{item.label}</div>
+                  <div className="text-2xl font-semibold text-forvis-gray-900 tabular-nums mt-1">{item.value}</div>
+                  {item.detail && <div className="text-xs text-forvis-gray-500 mt-1">{item.detail}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ChurnList title="Largest Lost Clients" clients={report.churn.lost} feesLabel="Fees Last Year" />
+            <ChurnList title="Largest New Clients" clients={report.churn.gained} feesLabel="Fees" />
+          </div>
+
+          <CrossSellPanel crossSell={report.crossSell} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+/**
+ * EXCO Period Selector
+ *
+ * Fiscal year plus full year / quarter / month selection, matching the
+ * FiscalPeriod table (fiscal month 1 = September).
+ */
+
+import { FISCAL_MONTHS } from '@/lib/utils/fiscalPeriod';
+import type { ExcoFiscalYearOption, ExcoPeriodFilter } from '@/types/exco';
+
+interface ExcoPeriodSelectorProps {
+  value: Partial<ExcoPeriodFilter>;
+  onChange: (value: Partial<ExcoPeriodFilter>) => void;
+  fiscalYears: ExcoFiscalYearOption[];
+  className?: string;
+}
+
+const selectClassName =
+  'px-3 py-2 text-sm bg-white text-forvis-gray-900 border border-forvis-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-forvis-blue-500';
+
+function periodValue(value: Partial<ExcoPeriodFilter>): string {
+  if (value.fiscalMonth) return `M${value.fiscalMonth}`;
+  if (value.fiscalQuarter) return `Q${value.fiscalQuarter}`;
+  return 'FY';
+}
+
+export function ExcoPeriodSelector({ value, onChange, fiscalYears, className = '' }: ExcoPeriodSelectorProps) {
+  const handlePeriodChange = (period: string) => {
+    const base = { fiscalYear: value.fiscalYear };
+    if (period.startsWith('M')) {
+      onChange({ ...base, fiscalMonth: Number(period.slice(1)) });
+    } else if (period.startsWith('Q')) {
+      onChange({ ...base, fiscalQuarter: Number(period.slice(1)) });
+    } else {
+      onChange(base);
+    }
+  };
+
+  return (
+    <div className={`flex items-end gap-3 ${className}`}>
+      <div>
+        <label className="block text-xs font-medium text-forvis-gray-700 mb-1">Fiscal Year</label>
+        <select
+          value={value.fiscalYear ?? fiscalYears[0]?.fiscalYear ?? ''}
+          onChange={(e) => onChange({ ...value, fiscalYear: Number(e.target.value) })}
+          className={selectClassName}
+        >
+          {fiscalYears.map((fy) => (
+            <option key={fy.fiscalYear} value={fy.fiscalYear}>
+              {fy.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-forvis-gray-700 mb-1">Period</label>
+        <select value={periodValue(value)} onChange={(e) => handlePeriodChange(e.target.value)} className={selectClassName}>
+          <option value="FY">Full year</option>
+          <optgroup label="Quarter">
+            {[1, 2, 3, 4].map((q) => (
+              <option key={q} value={`Q${q}`}>
+                Q{q}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Month">
+            {FISCAL_MONTHS.map((month, index) => (
+              <option key={month} value={`M${index + 1}`}>
+                {month}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+    </div>
+  );
+}
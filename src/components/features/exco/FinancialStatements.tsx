@@ -0,0 +1,548 @@
+'use client';
+
+/**
+ * Financial Statements
+ *
+ * Income statement (ProfitAndLoss) and balance sheet (FinancialPosition)
+ * drawn from the general ledger. Statement lines open the GL entries behind
+ * them. Accounts are grouped into lines in Admin > Financial Statement
+ * Mapping; anything unmapped is shown under its GL category.
+ */
+
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Landmark, Percent, Receipt, Scale, Target, TrendingUp, Wallet, X } from 'lucide-react';
+import { Banner, Button, Input, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { useBalanceSheet, useIncomeStatement, useStatementEntries } from '@/hooks/exco/useExcoReports';
+import {
+  STATEMENT_SECTIONS,
+  type ExcoPeriodFilter,
+  type FinancialStatementReport,
+  type FinancialStatementType,
+  type StatementRow,
+} from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+type EntryRange = 'MONTH' | 'QTD' | 'YTD';
+
+interface StatementCell {
+  value: number | null;
+  /** Colour as a variance - favourable green, unfavourable red */
+  variance?: boolean;
+}
+
+interface StatementDrill {
+  drillKey: string;
+  label: string;
+}
+
+const RANGES: Array<{ id: EntryRange; label: string }> = [
+  { id: 'MONTH', label: 'Month' },
+  { id: 'QTD', label: 'Quarter to Date' },
+  { id: 'YTD', label: 'Year to Date' },
+];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+function varianceClass(variance: number, creditPositive: boolean): string {
+  if (variance === 0) return 'text-forvis-gray-500';
+  // Debit rows (costs, assets) show increases as positive - higher costs are unfavourable
+  const favourable = creditPositive ? variance > 0 : variance < 0;
+  return favourable ? 'text-forvis-success-600' : 'text-forvis-error-600';
+}
+
+function sectionLabel(section: StatementRow['section']): string {
+  if (section === null) return '';
+  return section === 'UNMAPPED' ? 'Unmapped Accounts' : STATEMENT_SECTIONS[section].label;
+}
+
+function findRow(report: FinancialStatementReport, key: string): StatementRow | undefined {
+  return report.rows.find((row) => row.key === key);
+}
+
+function StatementTable({
+  report,
+  headers,
+  cells,
+  onDrill,
+}: {
+  report: FinancialStatementReport;
+  headers: string[];
+  cells: (row: StatementRow) => StatementCell[];
+  onDrill: (drill: StatementDrill) => void;
+}) {
+  const gridTemplateColumns = `minmax(220px, 2fr) repeat(${headers.length}, minmax(110px, 1fr))`;
+
+  if (report.rows.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No ledger entries in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns }}
+        >
+          <div />
+          {headers.map((header) => (
+            <div key={header} className="text-right">
+              {header}
+            </div>
+          ))}
+        </div>
+        <div className="bg-white">
+          {report.rows.map((row, index) => {
+            const previous = report.rows[index - 1];
+            const startsSection = row.type === 'LINE' && row.section !== previous?.section;
+            const drill = row.type === 'LINE' && row.drillKey ? { drillKey: row.drillKey, label: row.label } : null;
+
+            return (
+              <div key={row.key}>
+                {startsSection && (
+                  <div className="px-4 pt-4 pb-1 text-xs font-semibold uppercase tracking-wide text-forvis-blue-700">
+                    {sectionLabel(row.section)}
+                  </div>
+                )}
+                <div
+                  onClick={drill ? () => onDrill(drill) : undefined}
+                  className={`grid gap-3 py-2 px-4 text-xs transition-colors duration-200 ${
+                    row.type === 'SUBTOTAL'
+                      ? 'bg-forvis-blue-50 font-semibold border-y border-forvis-blue-200'
+                      : row.type === 'SECTION_TOTAL'
+                        ? 'font-semibold border-t border-forvis-gray-300'
+                        : 'hover:bg-forvis-blue-50'
+                  } ${drill ? 'cursor-pointer' : ''}`}
+                  style={{ gridTemplateColumns }}
+                >
+                  <div className={`truncate text-forvis-gray-900 ${row.type === 'LINE' ? 'pl-3' : ''}`}>{row.label}</div>
+                  {cells(row).map((cell, cellIndex) => (
+                    <div
+                      key={cellIndex}
+                      className={`text-right tabular-nums ${
+                        cell.value === null
+                          ? 'text-forvis-gray-400'
+                          : cell.variance
+                            ? varianceClass(cell.value, row.creditPositive)
+                            : 'text-forvis-gray-900'
+                      }`}
+                    >
+                      {cell.value === null ? '-' : formatCurrency(cell.value)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function StatementEntriesModal({
+  statement,
+  period,
+  range,
+  drill,
+  onClose,
+}: {
+  statement: FinancialStatementType;
+  period: Partial<ExcoPeriodFilter>;
+  range: EntryRange;
+  drill: StatementDrill;
+  onClose: () => void;
+}) {
+  const [page, setPage] = useState(1);
+  const { data, isLoading, error } = useStatementEntries(period, {
+    statement,
+    drillKey: drill.drillKey,
+    range: statement === 'BALANCE_SHEET' ? 'YTD' : range,
+    page,
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-corporate-lg w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div
+          className="px-6 py-4 flex items-center justify-between border-b border-forvis-gray-200 rounded-t-xl"
+          style={{ background: 'linear-gradient(135deg, #5B93D7 0%, #2E5AAC 100%)' }}
+        >
+          <div>
+            <h2 className="text-xl font-semibold text-white">{drill.label}</h2>
+            <p className="text-xs text-white/80 mt-0.5">
+              {data
+                ? `${new Date(data.startDate).toLocaleDateString()} - ${new Date(data.endDate).toLocaleDateString()} · ${data.total} entries · ${formatCurrency(data.totalAmount)}`
+                : 'Ledger entries'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-white hover:bg-white/20 rounded-lg p-2 transition-colors">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {isLoading && (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          )}
+
+          {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load entries'} />}
+
+          {data && data.entries.length === 0 && (
+            <p className="text-sm text-forvis-gray-500 py-6 text-center">No ledger entries in this period</p>
+          )}
+
+          {data && data.entries.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-forvis-gray-200 text-sm">
+                <thead className="bg-forvis-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Date</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Account</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Reference</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Narration</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-forvis-gray-500 uppercase">Office</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-forvis-gray-500 uppercase">Debit / (Credit)</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-forvis-gray-100">
+                  {data.entries.map((entry) => (
+                    <tr key={entry.id}>
+                      <td className="px-3 py-2 text-forvis-gray-700 whitespace-nowrap">
+                        {entry.entryDate ? new Date(entry.entryDate).toLocaleDateString() : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-forvis-gray-700">
+                        <span className="font-mono text-xs">{entry.account}</span>
+                        <span className="block text-xs text-forvis-gray-500 truncate max-w-xs">{entry.accountDesc}</span>
+                      </td>
+                      <td className="px-3 py-2 text-forvis-gray-700 whitespace-nowrap">
+                        {entry.reference ?? '—'}
+                        {entry.sourceBatch && <span className="block text-xs text-forvis-gray-500">{entry.sourceBatch}</span>}
+                      </td>
+                      <td className="px-3 py-2 text-forvis-gray-700 max-w-sm truncate" title={entry.narration ?? undefined}>
+                        {entry.narration ?? '—'}
+                      </td>
+                      <td className="px-3 py-2 text-forvis-gray-700">{entry.officeCode}</td>
+                      <td className="px-3 py-2 text-right tabular-nums text-forvis-gray-900 whitespace-nowrap">
+                        {formatCurrency(entry.amount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {data && data.totalPages > 1 && (
+            <div className="mt-4 flex items-center justify-between text-sm text-forvis-gray-600">
+              <span>
+                Page {data.page} of {data.totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={page <= 1}
+                  onClick={() => setPage((p) => p - 1)}
+                  icon={<ChevronLeft className="w-4 h-4" />}
+                >
+                  Previous
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={page >= data.totalPages}
+                  onClick={() => setPage((p) => p + 1)}
+                  icon={<ChevronRight className="w-4 h-4" />}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function UnmappedBanner({ report }: { report: FinancialStatementReport }) {
+  if (report.unmappedAccounts === 0) return null;
+  return (
+    <Banner
+      variant="info"
+      message={`${report.unmappedAccounts} account${report.unmappedAccounts === 1 ? ' is' : 's are'} not mapped to a statement line and ${
+        report.unmappedAccounts === 1 ? 'is' : 'are'
+      } shown under their GL category`}
+    />
+  );
+}
+
+export function ProfitAndLoss() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+  const [budgetCode, setBudgetCode] = useState<string | undefined>(undefined);
+  const [range, setRange] = useState<EntryRange>('YTD');
+  const [drill, setDrill] = useState<StatementDrill | null>(null);
+
+  const { data: report, isLoading, error } = useIncomeStatement(period, budgetCode);
+
+  const changePeriod = (next: Partial<ExcoPeriodFilter>) => {
+    // Budget versions are per fiscal year
+    if (next.fiscalYear !== (period.fiscalYear ?? report?.fiscalYear)) setBudgetCode(undefined);
+    setPeriod(next);
+  };
+
+  const columnIndex = RANGES.findIndex((r) => r.id === range);
+  const revenue = report ? findRow(report, 'TOTAL_REVENUE')?.amounts[columnIndex] : undefined;
+  const netProfit = report ? findRow(report, 'NET_PROFIT')?.amounts[columnIndex] : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Profit & Loss</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `Income statement to ${report.periodLabel} against the GL budget and last year`
+              : 'Income statement against the GL budget and last year'}
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          {report && report.budgetCodes.length > 1 && (
+            <div className="w-36">
+              <Input
+                variant="select"
+                label="GL Budget"
+                value={report.budgetCode ?? ''}
+                onChange={(e) => setBudgetCode(e.target.value)}
+                options={report.budgetCodes.map((code) => ({ value: code, label: code }))}
+              />
+            </div>
+          )}
+          <ExcoPeriodSelector
+            value={{ ...period, fiscalYear: period.fiscalYear ?? report?.fiscalYear }}
+            onChange={changePeriod}
+            fiscalYears={report?.fiscalYears ?? []}
+          />
+        </div>
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+            {!report.budgetCode && (
+              <Banner variant="info" message={`No GL budget has been loaded for FY${report.fiscalYear}`} />
+            )}
+            <UnmappedBanner report={report} />
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <StatCard
+                label="Revenue"
+                value={formatCurrency(revenue?.actual ?? 0)}
+                icon={<Receipt className="h-5 w-5" />}
+                gradientVariant={1}
+              />
+              <StatCard
+                label="Net Profit"
+                value={formatCurrency(netProfit?.actual ?? 0)}
+                icon={<Wallet className="h-5 w-5" />}
+                gradientVariant={2}
+              />
+              <StatCard
+                label="Net Margin"
+                value={
+                  revenue && revenue.actual > 0 && netProfit
+                    ? `${Math.round((netProfit.actual / revenue.actual) * 1000) / 10}%`
+                    : '-'
+                }
+                icon={<Percent className="h-5 w-5" />}
+                gradientVariant={3}
+              />
+              <StatCard
+                label={netProfit?.budgetVariance !== null ? 'Profit vs Budget' : 'Profit vs Last Year'}
+                value={formatCurrency(
+                  (netProfit?.budgetVariance !== null ? netProfit?.budgetVariance : netProfit?.priorYearVariance) ?? 0
+                )}
+                icon={netProfit?.budgetVariance !== null ? <Target className="h-5 w-5" /> : <TrendingUp className="h-5 w-5" />}
+                gradientVariant={4}
+              />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+              <div className="flex border-b border-forvis-gray-200 px-4">
+                {RANGES.map((tab) => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setRange(tab.id)}
+                    className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                      range === tab.id
+                        ? 'border-forvis-blue-600 text-forvis-blue-600'
+                        : 'border-transparent text-forvis-gray-600 hover:text-forvis-gray-900'
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+                <span className="ml-auto self-center text-xs text-forvis-gray-500">
+                  {report.columns[columnIndex]?.label}
+                </span>
+              </div>
+              <StatementTable
+                report={report}
+                headers={['Actual', 'Budget', 'Variance', 'Last Year', 'Variance']}
+                cells={(row) => {
+                  const amounts = row.amounts[columnIndex];
+                  if (!amounts) return [];
+                  return [
+                    { value: amounts.actual },
+                    { value: amounts.budget },
+                    { value: amounts.budgetVariance, variance: true },
+                    { value: amounts.priorYear },
+                    { value: amounts.priorYearVariance, variance: true },
+                  ];
+                }}
+                onDrill={setDrill}
+              />
+            </div>
+        </>
+      )}
+
+      {drill && report && (
+        <StatementEntriesModal
+          statement="INCOME_STATEMENT"
+          period={{ fiscalYear: report.fiscalYear, fiscalMonth: report.fiscalMonth }}
+          range={range}
+          drill={drill}
+          onClose={() => setDrill(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+export function FinancialPosition() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+  const [drill, setDrill] = useState<StatementDrill | null>(null);
+
+  const { data: report, isLoading, error } = useBalanceSheet(period);
+
+  const closing = (key: string) => (report ? findRow(report, key)?.amounts[0]?.actual ?? 0 : 0);
+  const currentLiabilities = closing('TOTAL_CURRENT_LIABILITIES');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Financial Position</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `Balance sheet at the end of ${report.periodLabel} against the start of the year and last year`
+              : 'Balance sheet against the start of the year and last year'}
+          </p>
+        </div>
+        <ExcoPeriodSelector
+          value={{ ...period, fiscalYear: period.fiscalYear ?? report?.fiscalYear }}
+          onChange={setPeriod}
+          fiscalYears={report?.fiscalYears ?? []}
+        />
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+            {report.outOfBalance !== null && report.outOfBalance !== 0 && (
+              <Banner
+                variant="warning"
+                message={`The ledger is out of balance by ${formatCurrency(report.outOfBalance)} - check that prior years have been closed off to retained earnings`}
+              />
+            )}
+            <UnmappedBanner report={report} />
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <StatCard
+                label="Total Assets"
+                value={formatCurrency(closing('TOTAL_ASSETS'))}
+                icon={<Landmark className="h-5 w-5" />}
+                gradientVariant={1}
+              />
+              <StatCard
+                label="Total Equity"
+                value={formatCurrency(closing('TOTAL_EQUITY'))}
+                icon={<Wallet className="h-5 w-5" />}
+                gradientVariant={2}
+              />
+              <StatCard
+                label="Current Ratio"
+                value={currentLiabilities > 0 ? (closing('TOTAL_CURRENT_ASSETS') / currentLiabilities).toFixed(2) : '-'}
+                icon={<Scale className="h-5 w-5" />}
+                gradientVariant={3}
+              />
+              <StatCard
+                label="Total Liabilities"
+                value={formatCurrency(closing('TOTAL_NON_CURRENT_LIABILITIES') + currentLiabilities)}
+                icon={<Receipt className="h-5 w-5" />}
+                gradientVariant={4}
+              />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+              <StatementTable
+                report={report}
+                headers={[
+                  report.columns[0]?.label ?? 'Closing',
+                  report.columns[1]?.label ?? 'Opening',
+                  'Movement',
+                  'Last Year',
+                  'Change on Last Year',
+                ]}
+                cells={(row) => {
+                  const [closingAmounts, openingAmounts] = row.amounts;
+                  if (!closingAmounts || !openingAmounts) return [];
+                  return [
+                    { value: closingAmounts.actual },
+                    { value: openingAmounts.actual },
+                    { value: Math.round((closingAmounts.actual - openingAmounts.actual) * 100) / 100 },
+                    { value: closingAmounts.priorYear },
+                    { value: closingAmounts.priorYearVariance },
+                  ];
+                }}
+                onDrill={setDrill}
+              />
+            </div>
+        </>
+      )}
+
+      {drill && report && (
+        <StatementEntriesModal
+          statement="BALANCE_SHEET"
+          period={{ fiscalYear: report.fiscalYear, fiscalMonth: report.fiscalMonth }}
+          range="YTD"
+          drill={drill}
+          onClose={() => setDrill(null)}
+        />
+      )}
+    </div>
+  );
+}
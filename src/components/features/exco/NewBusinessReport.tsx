@@ -0,0 +1,295 @@
+'use client';
+
+/**
+ * New Business Report
+ *
+ * Opportunities won and lost in the period against the same period last
+ * year, the fees since billed on the won clients, and the quarterly trend in
+ * opportunities created and won.
+ */
+
+import { useState } from 'react';
+import { Clock, Receipt, Target, Trophy } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Banner, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { useNewBusiness } from '@/hooks/exco/useExcoReports';
+import type { ExcoPeriodFilter, NewBusinessQuarter, NewBusinessServiceLineRow, NewBusinessWin } from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+const SERVICE_LINE_COLUMNS = '2fr 70px 130px 70px 90px 130px';
+const WIN_COLUMNS = '2fr 1fr 120px 100px 70px 120px 90px';
+const QUARTER_COLUMNS = '1.5fr 80px 120px 70px 120px 70px 90px 120px';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-ZA', { day: 'numeric', month: 'short', year: 'numeric' });
+
+function ServiceLineTable({ rows }: { rows: NewBusinessServiceLineRow[] }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No opportunities closed in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: SERVICE_LINE_COLUMNS }}
+        >
+          <div>Service Line</div>
+          <div className="text-right">Won</div>
+          <div className="text-right">Won Value</div>
+          <div className="text-right">Lost</div>
+          <div className="text-right">Win Rate</div>
+          <div className="text-right">Fees Billed</div>
+        </div>
+        <div className="bg-white">
+          {rows.map((row, index) => (
+            <div
+              key={row.code}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              }`}
+              style={{ gridTemplateColumns: SERVICE_LINE_COLUMNS }}
+            >
+              <div className="font-semibold text-forvis-gray-900">{row.name}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{row.wonCount}</div>
+              <div className="text-right tabular-nums font-semibold text-forvis-gray-900">{formatCurrency(row.wonValue)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{row.lostCount}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{row.winRatePercent}%</div>
+              <div className="text-right tabular-nums text-forvis-gray-900">{formatCurrency(row.attributedFees)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function WinTable({ wins }: { wins: NewBusinessWin[] }) {
+  if (wins.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No opportunities won in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: WIN_COLUMNS }}
+        >
+          <div>Opportunity</div>
+          <div>Service Line</div>
+          <div className="text-right">Value</div>
+          <div className="text-right">Won</div>
+          <div className="text-right">Days</div>
+          <div className="text-right">Fees Billed</div>
+          <div className="text-right">Realised</div>
+        </div>
+        <div className="bg-white">
+          {wins.map((win, index) => (
+            <div
+              key={win.opportunityId}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              }`}
+              style={{ gridTemplateColumns: WIN_COLUMNS }}
+            >
+              <div className="min-w-0">
+                <div className="font-semibold text-forvis-gray-900 truncate">{win.title}</div>
+                <div className="text-forvis-gray-500 truncate">{win.clientName ?? '-'}</div>
+              </div>
+              <div className="text-forvis-gray-700 truncate">{win.serviceLine}</div>
+              <div className="text-right tabular-nums font-semibold text-forvis-gray-900">{formatCurrency(win.value)}</div>
+              <div className="text-right text-forvis-gray-700">{formatDate(win.wonDate)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{win.cycleDays}</div>
+              <div className="text-right tabular-nums text-forvis-gray-900">{formatCurrency(win.attributedFees)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">
+                {win.realisationPercent === null ? '-' : `${win.realisationPercent}%`}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function QuarterTable({ quarters }: { quarters: NewBusinessQuarter[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-2 px-4 text-xs font-semibold text-forvis-gray-600 border-b border-forvis-gray-200"
+          style={{ gridTemplateColumns: QUARTER_COLUMNS }}
+        >
+          <div>Quarter</div>
+          <div className="text-right">Created</div>
+          <div className="text-right">Created Value</div>
+          <div className="text-right">Won</div>
+          <div className="text-right">Won Value</div>
+          <div className="text-right">Lost</div>
+          <div className="text-right">Win Rate</div>
+          <div className="text-right">Fees Billed</div>
+        </div>
+        {[...quarters].reverse().map((quarter) => (
+          <div
+            key={quarter.label}
+            className="grid gap-3 py-2 px-4 text-xs border-b border-forvis-gray-100"
+            style={{ gridTemplateColumns: QUARTER_COLUMNS }}
+          >
+            <div className="text-forvis-gray-900">{quarter.label}</div>
+            <div className="text-right tabular-nums text-forvis-gray-700">{quarter.createdCount}</div>
+            <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(quarter.createdValue)}</div>
+            <div className="text-right tabular-nums text-forvis-gray-700">{quarter.wonCount}</div>
+            <div className="text-right tabular-nums text-forvis-gray-900">{formatCurrency(quarter.wonValue)}</div>
+            <div className="text-right tabular-nums text-forvis-gray-700">{quarter.lostCount}</div>
+            <div className="text-right tabular-nums text-forvis-gray-700">{quarter.winRatePercent}%</div>
+            <div className="text-right tabular-nums text-forvis-gray-900">{formatCurrency(quarter.attributedFees)}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function NewBusinessReport() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+
+  const { data: report, isLoading, error } = useNewBusiness(period);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">New Business</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `${report.period.label} compared with ${report.comparisonPeriod.label}`
+              : 'Opportunities won and lost, and the fees since billed on won clients'}
+          </p>
+        </div>
+        <ExcoPeriodSelector
+          value={{ ...period, fiscalYear: period.fiscalYear ?? report?.period.fiscalYear }}
+          onChange={setPeriod}
+          fiscalYears={report?.fiscalYears ?? []}
+        />
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              label={`Won (${report.summary.wonCount})`}
+              value={formatCurrency(report.summary.wonValue)}
+              icon={<Trophy className="h-5 w-5" />}
+              gradientVariant={1}
+            />
+            <StatCard
+              label={`Win Rate (${report.summary.priorWinRatePercent}% last year)`}
+              value={`${report.summary.winRatePercent}%`}
+              icon={<Target className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label={`Average Deal (${report.summary.averageCycleDays} days to win)`}
+              value={formatCurrency(report.summary.averageDealValue)}
+              icon={<Clock className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+            <StatCard
+              label={`Fees Billed on Wins (${report.summary.realisationPercent}% of value)`}
+              value={formatCurrency(report.summary.attributedFees)}
+              icon={<Receipt className="h-5 w-5" />}
+              gradientVariant={4}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200 p-4">
+            <h2 className="text-sm font-semibold text-forvis-gray-900">Quarterly Trend</h2>
+            <p className="text-xs text-forvis-gray-500 mt-0.5 mb-4">
+              Value created and won by fiscal quarter - {report.summary.lostCount} lost this period;{' '}
+              {report.summary.priorWonCount} won for {formatCurrency(report.summary.priorWonValue)} in{' '}
+              {report.comparisonPeriod.label}
+              {report.summary.wonValueGrowthPercent !== null &&
+                ` (${report.summary.wonValueGrowthPercent > 0 ? '+' : ''}${report.summary.wonValueGrowthPercent}%)`}
+            </p>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={report.trend} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                <XAxis dataKey="label" stroke="#6B7280" style={{ fontSize: '12px' }} />
+                <YAxis
+                  stroke="#6B7280"
+                  style={{ fontSize: '12px' }}
+                  tickFormatter={(value: number) => `R${Math.round(value / 1000)}k`}
+                />
+                <Tooltip formatter={(value) => [formatCurrency(Number(value))]} />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} iconType="line" />
+                <Line
+                  type="monotone"
+                  dataKey="createdValue"
+                  name="Created"
+                  stroke="#5B93D7"
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="wonValue"
+                  name="Won"
+                  stroke="#2E5AAC"
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="attributedFees"
+                  name="Fees billed on wins"
+                  stroke="#16A34A"
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+            <div className="mt-4">
+              <QuarterTable quarters={report.trend} />
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="px-4 py-3 border-b border-forvis-gray-200">
+              <h2 className="text-sm font-semibold text-forvis-gray-900">By Service Line</h2>
+            </div>
+            <ServiceLineTable rows={report.serviceLines} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="px-4 py-3 border-b border-forvis-gray-200">
+              <h2 className="text-sm font-semibold text-forvis-gray-900">Largest Wins</h2>
+              <p className="text-xs text-forvis-gray-500 mt-0.5">
+                Fees billed to date on the client in the opportunity&apos;s service line since the win
+              </p>
+            </div>
+            <WinTable wins={report.wins} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
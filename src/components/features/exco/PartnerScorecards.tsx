@@ -0,0 +1,356 @@
+'use client';
+
+/**
+ * Partner Scorecards
+ *
+ * Per-partner fees, WIP, debtors, recoverability, new clients and review
+ * notes for the selected period against the same period last fiscal year.
+ * Selecting a partner expands their WIP and debtors ageing.
+ */
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, FileText, Percent, Timer, Wallet } from 'lucide-react';
+import { Banner, Button, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { buildExcoPeriodParams, usePartnerScorecards } from '@/hooks/exco/useExcoReports';
+import type { ExcoPeriodFilter, PartnerPeriodMetrics, PartnerScorecard } from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+const SCORECARD_COLUMNS = '2fr 1fr 120px 120px 120px 90px 90px 80px 90px';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+function changePercent(current: number, prior: number): number | null {
+  return prior !== 0 ? ((current - prior) / Math.abs(prior)) * 100 : null;
+}
+
+/**
+ * Change against prior year - lowerIsBetter flips the colour for debtor days
+ */
+function ChangeIndicator({ current, prior, lowerIsBetter = false }: { current: number; prior: number; lowerIsBetter?: boolean }) {
+  const change = changePercent(current, prior);
+  if (change === null || Math.abs(change) < 0.05) return null;
+
+  const improved = lowerIsBetter ? change < 0 : change > 0;
+  return (
+    <span className={`ml-1 ${improved ? 'text-forvis-success-600' : 'text-forvis-error-600'}`}>
+      {change > 0 ? '+' : ''}
+      {change.toFixed(1)}%
+    </span>
+  );
+}
+
+function MetricCell({
+  current,
+  prior,
+  format,
+  lowerIsBetter,
+}: {
+  current: number;
+  prior: number;
+  format: (value: number) => string;
+  lowerIsBetter?: boolean;
+}) {
+  return (
+    <div className="text-right tabular-nums">
+      <div className="text-forvis-gray-900">{format(current)}</div>
+      <div className="text-forvis-gray-500">
+        {format(prior)}
+        <ChangeIndicator current={current} prior={prior} lowerIsBetter={lowerIsBetter} />
+      </div>
+    </div>
+  );
+}
+
+function AgingDetail({ metrics }: { metrics: PartnerPeriodMetrics }) {
+  const wip = [
+    { label: 'Current', value: metrics.wipAging.current },
+    { label: '30 days', value: metrics.wipAging.days30 },
+    { label: '60 days', value: metrics.wipAging.days60 },
+    { label: '90 days', value: metrics.wipAging.days90 },
+    { label: '120 days', value: metrics.wipAging.days120 },
+    { label: '150 days', value: metrics.wipAging.days150 },
+    { label: '180+ days', value: metrics.wipAging.days180 },
+  ];
+  const debtors = [
+    { label: '0-30 days', value: metrics.debtorAging.current },
+    { label: '31-60 days', value: metrics.debtorAging.days31_60 },
+    { label: '61-90 days', value: metrics.debtorAging.days61_90 },
+    { label: '91-120 days', value: metrics.debtorAging.days91_120 },
+    { label: '120+ days', value: metrics.debtorAging.days120Plus },
+  ];
+
+  const renderBuckets = (title: string, buckets: Array<{ label: string; value: number }>, footer: string) => (
+    <div>
+      <h3 className="text-xs font-semibold text-forvis-gray-700 mb-2">{title}</h3>
+      <div className="grid grid-cols-4 lg:grid-cols-7 gap-2">
+        {buckets.map((bucket) => (
+          <div key={bucket.label} className="rounded-lg border border-forvis-gray-200 bg-white px-3 py-2">
+            <div className="text-forvis-gray-500">{bucket.label}</div>
+            <div className="font-semibold tabular-nums text-forvis-gray-900">{formatCurrency(bucket.value)}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-forvis-gray-500 mt-1">{footer}</p>
+    </div>
+  );
+
+  return (
+    <div className="px-6 py-4 space-y-4 bg-forvis-blue-50 text-xs">
+      {renderBuckets(
+        'WIP Ageing',
+        wip,
+        `Gross ${formatCurrency(metrics.wipBalance)} less provision ${formatCurrency(metrics.wipProvision)}`
+      )}
+      {renderBuckets(
+        'Debtors Ageing',
+        debtors,
+        `Opening ${formatCurrency(metrics.openingDebtors)}, receipts ${formatCurrency(metrics.receipts)}, 12-month billings ${formatCurrency(metrics.billings12Months)}`
+      )}
+    </div>
+  );
+}
+
+function ScorecardTable({ partners }: { partners: PartnerScorecard[] }) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (partners.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No partner activity in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: SCORECARD_COLUMNS }}
+        >
+          <div>Partner</div>
+          <div>Service Line</div>
+          <div className="text-right">Fees Billed</div>
+          <div className="text-right">Net WIP</div>
+          <div className="text-right">Debtors</div>
+          <div className="text-right">Debtor Days</div>
+          <div className="text-right">Recovery</div>
+          <div className="text-right">New Clients</div>
+          <div className="text-right">Review Notes</div>
+        </div>
+        <div className="bg-white">
+          {partners.map((partner, index) => {
+            const isExpanded = expanded === partner.empCode;
+            return (
+              <div key={partner.empCode}>
+                <div
+                  onClick={() => setExpanded(isExpanded ? null : partner.empCode)}
+                  className={`grid gap-3 py-3 px-4 text-xs cursor-pointer transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                    index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+                  }`}
+                  style={{ gridTemplateColumns: SCORECARD_COLUMNS }}
+                >
+                  <div className="flex items-start gap-1">
+                    {isExpanded ? (
+                      <ChevronDown className="h-3 w-3 mt-0.5 text-forvis-gray-400" />
+                    ) : (
+                      <ChevronRight className="h-3 w-3 mt-0.5 text-forvis-gray-400" />
+                    )}
+                    <div>
+                      <div className="font-semibold text-forvis-gray-900">{partner.empName}</div>
+                      <div className="text-forvis-gray-500">
+                        {partner.empCode} - {partner.officeCode}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-forvis-gray-700 truncate">{partner.serviceLineName}</div>
+                  <MetricCell current={partner.current.feesBilled} prior={partner.prior.feesBilled} format={formatCurrency} />
+                  <MetricCell current={partner.current.netWip} prior={partner.prior.netWip} format={formatCurrency} />
+                  <MetricCell
+                    current={partner.current.debtorsBalance}
+                    prior={partner.prior.debtorsBalance}
+                    format={formatCurrency}
+                    lowerIsBetter
+                  />
+                  <MetricCell
+                    current={partner.current.debtorDays}
+                    prior={partner.prior.debtorDays}
+                    format={(value) => value.toString()}
+                    lowerIsBetter
+                  />
+                  <MetricCell
+                    current={partner.current.recoverability}
+                    prior={partner.prior.recoverability}
+                    format={(value) => `${value.toFixed(1)}%`}
+                  />
+                  <MetricCell
+                    current={partner.current.newClients}
+                    prior={partner.prior.newClients}
+                    format={(value) => value.toString()}
+                  />
+                  <div className="text-right tabular-nums">
+                    <div className="text-forvis-gray-900">{partner.current.openReviewNotes}</div>
+                    {partner.current.overdueReviewNotes > 0 && (
+                      <div className="text-forvis-error-600">{partner.current.overdueReviewNotes} overdue</div>
+                    )}
+                  </div>
+                </div>
+                {isExpanded && <AgingDetail metrics={partner.current} />}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function PartnerScorecards() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+  const [serviceLineFilter, setServiceLineFilter] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const { data: report, isLoading, error } = usePartnerScorecards(period);
+
+  const serviceLines = useMemo(() => {
+    const lines = new Map<string, string>();
+    report?.partners.forEach((p) => lines.set(p.serviceLineCode, p.serviceLineName));
+    return [...lines.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [report]);
+
+  const partners = useMemo(
+    () => (report?.partners ?? []).filter((p) => !serviceLineFilter || p.serviceLineCode === serviceLineFilter),
+    [report, serviceLineFilter]
+  );
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      setExportError(null);
+
+      const response = await fetch(`/api/exco/partner-scorecards/export?${buildExcoPeriodParams(period)}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Export failed' }));
+        throw new Error(errorData.error || 'Export failed');
+      }
+
+      const contentDisposition = response.headers.get('Content-Disposition');
+      const fileName = /filename="([^"]+)"/.exec(contentDisposition ?? '')?.[1] ?? 'Partner_Scorecards.xlsx';
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const totals = report?.totals;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Partner Metrics</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `${report.period.label} compared with ${report.comparisonPeriod.label} - balances as at ${new Date(report.period.asOfDate).toLocaleDateString('en-ZA')}`
+              : 'Partner performance scorecards'}
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <ExcoPeriodSelector
+            value={{ ...period, fiscalYear: period.fiscalYear ?? report?.period.fiscalYear }}
+            onChange={setPeriod}
+            fiscalYears={report?.fiscalYears ?? []}
+          />
+          <Button
+            variant="secondary"
+            onClick={handleExport}
+            loading={isExporting}
+            disabled={!report || isExporting}
+            icon={<Download className="h-4 w-4" />}
+          >
+            Export to Excel
+          </Button>
+        </div>
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+      {exportError && <Banner variant="error" message={exportError} />}
+
+      {isLoading || !report || !totals ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              label="Fees Billed"
+              value={formatCurrency(totals.current.feesBilled)}
+              icon={<FileText className="h-5 w-5" />}
+              gradientVariant={1}
+            />
+            <StatCard
+              label="Net WIP"
+              value={formatCurrency(totals.current.netWip)}
+              icon={<Wallet className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label="Debtor Days"
+              value={totals.current.debtorDays}
+              icon={<Timer className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+            <StatCard
+              label="Recoverability"
+              value={`${totals.current.recoverability.toFixed(1)}%`}
+              icon={<Percent className="h-5 w-5" />}
+              gradientVariant={4}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-forvis-gray-200">
+              <div>
+                <h2 className="text-sm font-semibold text-forvis-gray-900">Scorecards</h2>
+                <p className="text-xs text-forvis-gray-500">
+                  Each cell shows {report.period.label} above {report.comparisonPeriod.label}
+                </p>
+              </div>
+              <select
+                value={serviceLineFilter}
+                onChange={(e) => setServiceLineFilter(e.target.value)}
+                className="px-3 py-2 text-sm bg-white text-forvis-gray-900 border border-forvis-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-forvis-blue-500"
+              >
+                <option value="">All service lines</option>
+                {serviceLines.map(([code, name]) => (
+                  <option key={code} value={code}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <ScorecardTable partners={partners} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
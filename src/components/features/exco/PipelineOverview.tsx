@@ -0,0 +1,366 @@
+'use client';
+
+/**
+ * Pipeline Overview
+ *
+ * How far the open BD pipeline covers the gap to the period's fee target,
+ * how long opportunities take to move between stages, and which ones have
+ * aged or stalled.
+ */
+
+import { useState } from 'react';
+import { AlertTriangle, Gauge, Hourglass, Scale } from 'lucide-react';
+import { Badge, Banner, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { usePipeline } from '@/hooks/exco/useExcoReports';
+import type {
+  ExcoPeriodFilter,
+  PipelineAgedOpportunity,
+  PipelineAgeingBucket,
+  PipelineServiceLineRow,
+  PipelineStageRow,
+  PipelineTransition,
+} from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+const SERVICE_LINE_COLUMNS = '2fr 70px 130px 130px 130px 130px 90px';
+const STAGE_COLUMNS = '2fr 70px 130px 130px 100px 100px';
+const TRANSITION_COLUMNS = '2fr 70px 90px';
+const ATTENTION_COLUMNS = '2fr 1fr 1fr 120px 70px 80px 100px';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-ZA', { day: 'numeric', month: 'short', year: 'numeric' });
+
+function coverageClass(coveragePercent: number | null): string {
+  if (coveragePercent === null) return 'text-forvis-gray-500';
+  if (coveragePercent >= 100) return 'text-forvis-success-600';
+  if (coveragePercent >= 50) return 'text-forvis-warning-600';
+  return 'text-forvis-error-600';
+}
+
+function ServiceLineTable({ rows }: { rows: PipelineServiceLineRow[] }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No pipeline or fee target for this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: SERVICE_LINE_COLUMNS }}
+        >
+          <div>Service Line</div>
+          <div className="text-right">Open</div>
+          <div className="text-right">Weighted</div>
+          <div className="text-right">Target</div>
+          <div className="text-right">Gap</div>
+          <div className="text-right">Closing Weighted</div>
+          <div className="text-right">Coverage</div>
+        </div>
+        <div className="bg-white">
+          {rows.map((row, index) => (
+            <div
+              key={row.code}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              }`}
+              style={{ gridTemplateColumns: SERVICE_LINE_COLUMNS }}
+            >
+              <div className="font-semibold text-forvis-gray-900">{row.name}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{row.openCount}</div>
+              <div className="text-right tabular-nums text-forvis-gray-900">{formatCurrency(row.weightedValue)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(row.targetFees)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(row.revenueGap)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-900">{formatCurrency(row.closingWeightedValue)}</div>
+              <div className={`text-right tabular-nums font-semibold ${coverageClass(row.coveragePercent)}`}>
+                {row.coveragePercent === null ? '-' : `${row.coveragePercent}%`}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function StageTable({ stages }: { stages: PipelineStageRow[] }) {
+  if (stages.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No open opportunities</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: STAGE_COLUMNS }}
+        >
+          <div>Stage</div>
+          <div className="text-right">Open</div>
+          <div className="text-right">Value</div>
+          <div className="text-right">Weighted</div>
+          <div className="text-right">Days in Stage</div>
+          <div className="text-right">Days to Exit</div>
+        </div>
+        <div className="bg-white">
+          {stages.map((stage, index) => (
+            <div
+              key={stage.name}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              }`}
+              style={{ gridTemplateColumns: STAGE_COLUMNS }}
+            >
+              <div className="font-semibold text-forvis-gray-900">{stage.name}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{stage.count}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(stage.value)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-900">{formatCurrency(stage.weightedValue)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{stage.count > 0 ? stage.averageCurrentDays : '-'}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700" title={`${stage.exits} moved on in the period`}>
+                {stage.averageDaysInStage ?? '-'}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TransitionList({ transitions }: { transitions: PipelineTransition[] }) {
+  return (
+    <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+      <div className="px-4 py-3 border-b border-forvis-gray-200">
+        <h3 className="text-sm font-semibold text-forvis-gray-900">Stage Moves</h3>
+      </div>
+      {transitions.length === 0 ? (
+        <p className="text-sm text-forvis-gray-500 text-center py-8">No stage moves in this period</p>
+      ) : (
+        <>
+          <div
+            className="grid gap-3 py-2 px-4 text-xs font-semibold text-forvis-gray-600 border-b border-forvis-gray-200"
+            style={{ gridTemplateColumns: TRANSITION_COLUMNS }}
+          >
+            <div>Move</div>
+            <div className="text-right">Count</div>
+            <div className="text-right">Avg Days</div>
+          </div>
+          {transitions.map((transition) => (
+            <div
+              key={`${transition.fromStage}-${transition.toStage}`}
+              className="grid gap-3 py-2 px-4 text-xs border-b border-forvis-gray-100"
+              style={{ gridTemplateColumns: TRANSITION_COLUMNS }}
+            >
+              <div className="text-forvis-gray-900 truncate">
+                {transition.fromStage} &rarr; {transition.toStage}
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{transition.count}</div>
+              <div className="text-right tabular-nums text-forvis-gray-900">{transition.averageDays}</div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+function AgeingPanel({ buckets }: { buckets: PipelineAgeingBucket[] }) {
+  const maxValue = Math.max(1, ...buckets.map((b) => b.value));
+
+  return (
+    <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200 p-4">
+      <h3 className="text-sm font-semibold text-forvis-gray-900 mb-4">Ageing</h3>
+      <div className="space-y-3">
+        {buckets.map((bucket) => (
+          <div key={bucket.label}>
+            <div className="flex justify-between text-xs text-forvis-gray-700 mb-1">
+              <span>{bucket.label}</span>
+              <span className="tabular-nums">
+                {bucket.count} open - {formatCurrency(bucket.value)} ({formatCurrency(bucket.weightedValue)} weighted)
+              </span>
+            </div>
+            <div className="h-3 rounded-full bg-forvis-gray-100 overflow-hidden">
+              <div
+                className="h-full rounded-full"
+                style={{ width: `${(bucket.value / maxValue) * 100}%`, background: GRADIENTS.primary.horizontal }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AttentionTable({ opportunities }: { opportunities: PipelineAgedOpportunity[] }) {
+  if (opportunities.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No overdue or stalled opportunities</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: ATTENTION_COLUMNS }}
+        >
+          <div>Opportunity</div>
+          <div>Service Line</div>
+          <div>Stage</div>
+          <div className="text-right">Value</div>
+          <div className="text-right">Age</div>
+          <div className="text-right">In Stage</div>
+          <div className="text-right">Expected</div>
+        </div>
+        <div className="bg-white">
+          {opportunities.map((opp, index) => (
+            <div
+              key={opp.opportunityId}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              }`}
+              style={{ gridTemplateColumns: ATTENTION_COLUMNS }}
+            >
+              <div className="min-w-0">
+                <div className="font-semibold text-forvis-gray-900 truncate">{opp.title}</div>
+                <div className="text-forvis-gray-500 truncate">{opp.clientName ?? '-'}</div>
+              </div>
+              <div className="text-forvis-gray-700 truncate">{opp.serviceLine}</div>
+              <div className="text-forvis-gray-700 truncate">{opp.stageName}</div>
+              <div className="text-right tabular-nums font-semibold text-forvis-gray-900">{formatCurrency(opp.value)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{opp.daysOpen}d</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{opp.daysInStage}d</div>
+              <div className="text-right">
+                {opp.expectedCloseDate ? (
+                  opp.overdue ? (
+                    <Badge variant="red">{formatDate(opp.expectedCloseDate)}</Badge>
+                  ) : (
+                    <span className="text-forvis-gray-700">{formatDate(opp.expectedCloseDate)}</span>
+                  )
+                ) : (
+                  <span className="text-forvis-gray-500">-</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function PipelineOverview() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+
+  const { data: report, isLoading, error } = usePipeline(period);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Pipeline Overview</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `Open pipeline today against the ${report.period.label} fee target${report.budgetCode ? ` (budget ${report.budgetCode})` : ''}`
+              : 'Pipeline coverage, stage velocity and ageing'}
+          </p>
+        </div>
+        <ExcoPeriodSelector
+          value={{ ...period, fiscalYear: period.fiscalYear ?? report?.period.fiscalYear }}
+          onChange={setPeriod}
+          fiscalYears={report?.fiscalYears ?? []}
+        />
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          {!report.budgetCode && (
+            <Banner
+              variant="warning"
+              message={`No GL budget is loaded for FY${report.period.fiscalYear} - coverage can't be measured against a target`}
+            />
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              label={`Weighted Pipeline (${report.summary.openCount} open)`}
+              value={formatCurrency(report.summary.weightedValue)}
+              icon={<Scale className="h-5 w-5" />}
+              gradientVariant={1}
+            />
+            <StatCard
+              label={`Target Coverage (gap ${formatCurrency(report.summary.revenueGap)})`}
+              value={report.summary.coveragePercent === null ? '-' : `${report.summary.coveragePercent}%`}
+              icon={<Gauge className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label="Average Age (days)"
+              value={report.summary.averageAgeDays}
+              icon={<Hourglass className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+            <StatCard
+              label="Past Expected Close"
+              value={report.summary.overdueCount}
+              icon={<AlertTriangle className="h-5 w-5" />}
+              gradientVariant={4}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="px-4 py-3 border-b border-forvis-gray-200">
+              <h2 className="text-sm font-semibold text-forvis-gray-900">Coverage by Service Line</h2>
+              <p className="text-xs text-forvis-gray-500 mt-0.5">
+                Target {formatCurrency(report.summary.targetFees)}, billed {formatCurrency(report.summary.billedFees)} - weighted
+                value expected to close by {formatDate(report.period.endDate)} over the remaining gap
+              </p>
+            </div>
+            <ServiceLineTable rows={report.serviceLines} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="px-4 py-3 border-b border-forvis-gray-200">
+              <h2 className="text-sm font-semibold text-forvis-gray-900">Stage Velocity</h2>
+              <p className="text-xs text-forvis-gray-500 mt-0.5">
+                Days open opportunities have been in each stage, and the average days spent in it by those that moved on in
+                the period
+              </p>
+            </div>
+            <StageTable stages={report.stages} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <TransitionList transitions={report.transitions} />
+            <AgeingPanel buckets={report.ageing} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="px-4 py-3 border-b border-forvis-gray-200">
+              <h2 className="text-sm font-semibold text-forvis-gray-900">Needs Attention</h2>
+              <p className="text-xs text-forvis-gray-500 mt-0.5">Past their expected close date or over 90 days in one stage</p>
+            </div>
+            <AttentionTable opportunities={report.attention} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
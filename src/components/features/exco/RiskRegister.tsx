@@ -0,0 +1,677 @@
+'use client';
+
+/**
+ * Risk Register
+ *
+ * Firm risk register with a likelihood x impact heat map. Risks are seeded
+ * from acceptance, independence, engagement letter and filing signals and
+ * can be added manually, owned, mitigated and periodically reviewed.
+ */
+
+import { useState } from 'react';
+import {
+  AlertTriangle,
+  CalendarClock,
+  ChevronDown,
+  ChevronRight,
+  Plus,
+  RefreshCw,
+  ShieldAlert,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { Badge, Banner, Button, Input, LoadingSpinner, StatCard, type BadgeVariant } from '@/components/ui';
+import { ConfirmModal } from '@/components/shared/ConfirmModal';
+import { EmployeeAutocomplete } from '@/components/features/users/EmployeeAutocomplete';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import {
+  useAddRiskMitigation,
+  useCreateRisk,
+  useDeleteRisk,
+  useDeleteRiskMitigation,
+  useRiskRegister,
+  useSyncRiskRegister,
+  useUpdateRisk,
+  useUpdateRiskMitigation,
+} from '@/hooks/exco/useRiskRegister';
+import {
+  RISK_CATEGORY_LABELS,
+  RISK_STATUS_LABELS,
+  type RiskCategory,
+  type RiskHeatMapCell,
+  type RiskLevel,
+  type RiskMitigationStatus,
+  type RiskRegisterFilter,
+  type RiskRegisterItem,
+  type RiskStatus,
+} from '@/types/exco';
+
+const ENTRY_COLUMNS = '2fr 130px 1fr 1fr 70px 100px 110px 110px';
+const SCORES = [1, 2, 3, 4, 5];
+
+const LEVEL_BADGES: Record<RiskLevel, BadgeVariant> = {
+  LOW: 'green',
+  MEDIUM: 'yellow',
+  HIGH: 'orange',
+  CRITICAL: 'red',
+};
+
+const LEVEL_CELL_CLASSES: Record<RiskLevel, string> = {
+  LOW: 'bg-forvis-success-100 text-forvis-success-800',
+  MEDIUM: 'bg-forvis-warning-100 text-forvis-warning-800',
+  HIGH: 'bg-orange-200 text-orange-900',
+  CRITICAL: 'bg-forvis-error-200 text-forvis-error-900',
+};
+
+const STATUS_BADGES: Record<RiskStatus, BadgeVariant> = {
+  OPEN: 'blue',
+  MITIGATING: 'purple',
+  ACCEPTED: 'teal',
+  CLOSED: 'default',
+};
+
+const MITIGATION_STATUS_LABELS: Record<RiskMitigationStatus, string> = {
+  PLANNED: 'Planned',
+  IN_PROGRESS: 'In Progress',
+  COMPLETED: 'Completed',
+};
+
+const CATEGORY_OPTIONS = Object.entries(RISK_CATEGORY_LABELS).map(([value, label]) => ({ value, label }));
+const STATUS_OPTIONS = Object.entries(RISK_STATUS_LABELS).map(([value, label]) => ({ value, label }));
+const MITIGATION_STATUS_OPTIONS = Object.entries(MITIGATION_STATUS_LABELS).map(([value, label]) => ({ value, label }));
+const SCORE_OPTIONS = SCORES.map((score) => ({ value: String(score), label: String(score) }));
+
+/** Same bands as the register service */
+function levelForScore(score: number): RiskLevel {
+  if (score >= 20) return 'CRITICAL';
+  if (score >= 10) return 'HIGH';
+  if (score >= 5) return 'MEDIUM';
+  return 'LOW';
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString('en-ZA') : '-');
+
+/** yyyy-MM-dd for date inputs */
+const toDateInput = (value: string | null) => (value ? value.slice(0, 10) : '');
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+function HeatMap({
+  cells,
+  selected,
+  onSelect,
+}: {
+  cells: RiskHeatMapCell[];
+  selected: { likelihood: number; impact: number } | null;
+  onSelect: (cell: { likelihood: number; impact: number } | null) => void;
+}) {
+  const countFor = (likelihood: number, impact: number) =>
+    cells.find((cell) => cell.likelihood === likelihood && cell.impact === impact)?.count ?? 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-forvis-gray-900">Heat Map</h2>
+        {selected && (
+          <button onClick={() => onSelect(null)} className="text-xs text-forvis-blue-600 hover:text-forvis-blue-800">
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <div className="flex items-center">
+          <span className="text-xs text-forvis-gray-500 [writing-mode:vertical-rl] rotate-180">Likelihood</span>
+        </div>
+        <div className="flex-1">
+          {[...SCORES].reverse().map((likelihood) => (
+            <div key={likelihood} className="grid grid-cols-[20px_repeat(5,1fr)] gap-1 mb-1">
+              <div className="text-xs text-forvis-gray-500 flex items-center justify-center">{likelihood}</div>
+              {SCORES.map((impact) => {
+                const count = countFor(likelihood, impact);
+                const isSelected = selected?.likelihood === likelihood && selected.impact === impact;
+                return (
+                  <button
+                    key={impact}
+                    onClick={() => onSelect(isSelected ? null : { likelihood, impact })}
+                    disabled={count === 0 && !isSelected}
+                    title={`Likelihood ${likelihood} x Impact ${impact}`}
+                    className={`h-10 rounded text-sm font-semibold tabular-nums transition-all ${
+                      LEVEL_CELL_CLASSES[levelForScore(likelihood * impact)]
+                    } ${isSelected ? 'ring-2 ring-forvis-blue-600' : ''} ${
+                      count === 0 ? 'opacity-50 cursor-default' : 'hover:opacity-80'
+                    }`}
+                  >
+                    {count || ''}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+          <div className="grid grid-cols-[20px_repeat(5,1fr)] gap-1">
+            <div />
+            {SCORES.map((impact) => (
+              <div key={impact} className="text-xs text-forvis-gray-500 text-center">
+                {impact}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-forvis-gray-500 text-center mt-1">Impact</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function NewRiskModal({
+  serviceLines,
+  onClose,
+}: {
+  serviceLines: Array<{ code: string; name: string }>;
+  onClose: () => void;
+}) {
+  const createRisk = useCreateRisk();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<RiskCategory>('OPERATIONAL');
+  const [serviceLine, setServiceLine] = useState('');
+  const [owner, setOwner] = useState<{ code: string; name: string } | null>(null);
+  const [likelihood, setLikelihood] = useState(3);
+  const [impact, setImpact] = useState(3);
+  const [nextReviewDate, setNextReviewDate] = useState('');
+
+  const handleSubmit = async () => {
+    await createRisk.mutateAsync({
+      title: title.trim(),
+      description: description.trim() || undefined,
+      category,
+      serviceLine: serviceLine || null,
+      ownerEmpCode: owner?.code ?? null,
+      likelihood,
+      impact,
+      nextReviewDate: nextReviewDate ? new Date(nextReviewDate) : null,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b border-forvis-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-forvis-gray-900">New Risk</h2>
+          <button onClick={onClose} className="text-forvis-gray-400 hover:text-forvis-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {createRisk.error && (
+            <Banner variant="error" message={errorMessage(createRisk.error, 'Failed to create risk')} />
+          )}
+          <Input label="Title" required value={title} onChange={(e) => setTitle(e.target.value)} />
+          <Input
+            variant="textarea"
+            label="Description"
+            rows={3}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              variant="select"
+              label="Category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as RiskCategory)}
+              options={CATEGORY_OPTIONS}
+            />
+            <Input
+              variant="select"
+              label="Service Line"
+              value={serviceLine}
+              onChange={(e) => setServiceLine(e.target.value)}
+              options={[{ value: '', label: 'Firm-wide' }, ...serviceLines.map((sl) => ({ value: sl.code, label: sl.name }))]}
+            />
+          </div>
+          <EmployeeAutocomplete
+            label="Owner"
+            value={owner?.code}
+            valueName={owner?.name}
+            onChange={(code, name) => setOwner(code ? { code, name } : null)}
+            placeholder="Search for the risk owner"
+          />
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              variant="select"
+              label="Likelihood"
+              value={String(likelihood)}
+              onChange={(e) => setLikelihood(Number(e.target.value))}
+              options={SCORE_OPTIONS}
+            />
+            <Input
+              variant="select"
+              label="Impact"
+              value={String(impact)}
+              onChange={(e) => setImpact(Number(e.target.value))}
+              options={SCORE_OPTIONS}
+            />
+            <Input
+              type="date"
+              label="Next Review"
+              value={nextReviewDate}
+              onChange={(e) => setNextReviewDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-forvis-gray-200 flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} loading={createRisk.isPending} disabled={!title.trim()}>
+            Create Risk
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RiskDetail({ risk }: { risk: RiskRegisterItem }) {
+  const updateRisk = useUpdateRisk();
+  const deleteRisk = useDeleteRisk();
+  const addMitigation = useAddRiskMitigation();
+  const updateMitigation = useUpdateRiskMitigation();
+  const deleteMitigation = useDeleteRiskMitigation();
+
+  const [action, setAction] = useState('');
+  const [actionOwner, setActionOwner] = useState<{ code: string; name: string } | null>(null);
+  const [dueDate, setDueDate] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const mutationError =
+    updateRisk.error || deleteRisk.error || addMitigation.error || updateMitigation.error || deleteMitigation.error;
+
+  const handleAddMitigation = async () => {
+    await addMitigation.mutateAsync({
+      riskId: risk.id,
+      data: {
+        action: action.trim(),
+        ownerEmpCode: actionOwner?.code ?? null,
+        dueDate: dueDate ? new Date(dueDate) : null,
+      },
+    });
+    setAction('');
+    setActionOwner(null);
+    setDueDate('');
+  };
+
+  return (
+    <div className="px-6 py-4 bg-forvis-blue-50 border-t border-forvis-gray-200 space-y-4">
+      {mutationError && <Banner variant="error" message={errorMessage(mutationError, 'Failed to update risk')} />}
+
+      {risk.description && <p className="text-sm text-forvis-gray-700 whitespace-pre-line">{risk.description}</p>}
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-forvis-gray-600">
+        <span>Source: {risk.source === 'AUTO' ? 'System signal' : 'Manual'}</span>
+        {risk.client && (
+          <span>
+            Client: {risk.client.clientCode} - {risk.client.clientNameFull}
+          </span>
+        )}
+        {risk.task && (
+          <span>
+            Task: {risk.task.taskCode} - {risk.task.taskDesc}
+          </span>
+        )}
+        <span>
+          Last reviewed: {formatDate(risk.lastReviewedAt)}
+          {risk.lastReviewedBy && ` by ${risk.lastReviewedBy}`}
+        </span>
+        {risk.closedAt && <span>Closed: {formatDate(risk.closedAt)}</span>}
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+        <Input
+          variant="select"
+          label="Status"
+          value={risk.status}
+          onChange={(e) => updateRisk.mutate({ riskId: risk.id, data: { status: e.target.value as RiskStatus } })}
+          options={STATUS_OPTIONS}
+        />
+        <Input
+          variant="select"
+          label="Likelihood"
+          value={String(risk.likelihood)}
+          onChange={(e) => updateRisk.mutate({ riskId: risk.id, data: { likelihood: Number(e.target.value) } })}
+          options={SCORE_OPTIONS}
+        />
+        <Input
+          variant="select"
+          label="Impact"
+          value={String(risk.impact)}
+          onChange={(e) => updateRisk.mutate({ riskId: risk.id, data: { impact: Number(e.target.value) } })}
+          options={SCORE_OPTIONS}
+        />
+        <Input
+          type="date"
+          label="Next Review"
+          value={toDateInput(risk.nextReviewDate)}
+          onChange={(e) =>
+            updateRisk.mutate({
+              riskId: risk.id,
+              data: { nextReviewDate: e.target.value ? new Date(e.target.value) : null },
+            })
+          }
+        />
+        <Button
+          variant="secondary"
+          icon={<CalendarClock className="h-4 w-4" />}
+          loading={updateRisk.isPending}
+          onClick={() => updateRisk.mutate({ riskId: risk.id, data: { reviewed: true } })}
+        >
+          Mark Reviewed
+        </Button>
+      </div>
+
+      <EmployeeAutocomplete
+        label="Owner"
+        value={risk.ownerEmpCode}
+        valueName={risk.ownerName}
+        onChange={(code) => updateRisk.mutate({ riskId: risk.id, data: { ownerEmpCode: code || null } })}
+        placeholder="Search for the risk owner"
+      />
+
+      <div>
+        <h3 className="text-sm font-semibold text-forvis-gray-900 mb-2">Mitigations</h3>
+        {risk.mitigations.length === 0 ? (
+          <p className="text-xs text-forvis-gray-500 mb-3">No mitigating actions recorded</p>
+        ) : (
+          <div className="space-y-2 mb-3">
+            {risk.mitigations.map((mitigation) => (
+              <div
+                key={mitigation.id}
+                className="flex flex-wrap items-center gap-3 bg-white rounded-lg border border-forvis-gray-200 px-3 py-2"
+              >
+                <div className="flex-1 min-w-[200px]">
+                  <div
+                    className={`text-sm ${
+                      mitigation.status === 'COMPLETED' ? 'line-through text-forvis-gray-500' : 'text-forvis-gray-900'
+                    }`}
+                  >
+                    {mitigation.action}
+                  </div>
+                  <div className="text-xs text-forvis-gray-500">
+                    {mitigation.ownerName ?? 'Unassigned'} - due {formatDate(mitigation.dueDate)}
+                    {mitigation.completedAt && ` - completed ${formatDate(mitigation.completedAt)}`}
+                  </div>
+                </div>
+                <div className="w-40">
+                  <Input
+                    variant="select"
+                    value={mitigation.status}
+                    onChange={(e) =>
+                      updateMitigation.mutate({
+                        riskId: risk.id,
+                        mitigationId: mitigation.id,
+                        data: { status: e.target.value as RiskMitigationStatus },
+                      })
+                    }
+                    options={MITIGATION_STATUS_OPTIONS}
+                  />
+                </div>
+                <button
+                  onClick={() => deleteMitigation.mutate({ riskId: risk.id, mitigationId: mitigation.id })}
+                  className="text-forvis-gray-400 hover:text-forvis-error-600 transition-colors"
+                  title="Remove mitigation"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-[2fr_1fr_150px_auto] gap-3 items-end">
+          <Input label="New action" value={action} onChange={(e) => setAction(e.target.value)} />
+          <EmployeeAutocomplete
+            label="Action owner"
+            value={actionOwner?.code}
+            valueName={actionOwner?.name}
+            onChange={(code, name) => setActionOwner(code ? { code, name } : null)}
+          />
+          <Input type="date" label="Due" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+          <Button
+            icon={<Plus className="h-4 w-4" />}
+            onClick={handleAddMitigation}
+            loading={addMitigation.isPending}
+            disabled={!action.trim()}
+          >
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {risk.source === 'MANUAL' && (
+        <div className="flex justify-end">
+          <Button variant="danger" size="sm" icon={<Trash2 className="h-4 w-4" />} onClick={() => setConfirmDelete(true)}>
+            Delete Risk
+          </Button>
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={async () => {
+          await deleteRisk.mutateAsync(risk.id);
+          setConfirmDelete(false);
+        }}
+        title="Delete Risk"
+        message={`Delete "${risk.title}" and its mitigations? This cannot be undone.`}
+        confirmText="Delete"
+        isLoading={deleteRisk.isPending}
+      />
+    </div>
+  );
+}
+
+export function RiskRegister() {
+  const [filter, setFilter] = useState<RiskRegisterFilter>({ status: 'ACTIVE' });
+  const [cell, setCell] = useState<{ likelihood: number; impact: number } | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [showNewRisk, setShowNewRisk] = useState(false);
+
+  const { data: report, isLoading, error } = useRiskRegister(filter);
+  const syncRegister = useSyncRiskRegister();
+
+  const entries = report
+    ? cell
+      ? report.entries.filter((risk) => risk.likelihood === cell.likelihood && risk.impact === cell.impact)
+      : report.entries
+    : [];
+
+  const updateFilter = (update: Partial<RiskRegisterFilter>) => {
+    setFilter((current) => ({ ...current, ...update }));
+    setCell(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Risk Register</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            Outstanding risks, mitigation progress and review status across the firm
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            icon={<RefreshCw className="h-4 w-4" />}
+            loading={syncRegister.isPending}
+            onClick={() => syncRegister.mutate()}
+          >
+            Sync Signals
+          </Button>
+          <Button variant="gradient" icon={<Plus className="h-4 w-4" />} onClick={() => setShowNewRisk(true)}>
+            New Risk
+          </Button>
+        </div>
+      </div>
+
+      {error && <Banner variant="error" message={errorMessage(error, 'Failed to load risk register')} />}
+      {syncRegister.error && (
+        <Banner variant="error" message={errorMessage(syncRegister.error, 'Failed to sync risk register')} />
+      )}
+      {syncRegister.data && (
+        <Banner
+          variant="success"
+          message={`Signals synced - ${syncRegister.data.created} risk(s) raised, ${syncRegister.data.reopened} reopened, ${syncRegister.data.closed} cleared`}
+        />
+      )}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <StatCard
+              label="Active Risks"
+              value={report.summary.active}
+              icon={<ShieldAlert className="h-5 w-5" />}
+              gradientVariant={1}
+            />
+            <StatCard
+              label="High / Critical"
+              value={report.summary.highOrCritical}
+              icon={<AlertTriangle className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label="Review Overdue"
+              value={report.summary.reviewOverdue}
+              icon={<CalendarClock className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-6 items-start">
+            <HeatMap cells={report.heatMap} selected={cell} onSelect={setCell} />
+
+            <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200 p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                variant="select"
+                label="Service Line"
+                value={filter.serviceLine ?? ''}
+                onChange={(e) => updateFilter({ serviceLine: e.target.value || undefined })}
+                options={[
+                  { value: '', label: 'All service lines' },
+                  ...report.serviceLines.map((sl) => ({ value: sl.code, label: sl.name })),
+                ]}
+              />
+              <Input
+                variant="select"
+                label="Category"
+                value={filter.category ?? ''}
+                onChange={(e) => updateFilter({ category: (e.target.value || undefined) as RiskCategory | undefined })}
+                options={[
+                  { value: '', label: 'All categories' },
+                  ...CATEGORY_OPTIONS.map((option) => ({
+                    ...option,
+                    label: `${option.label} (${report.summary.byCategory[option.value as RiskCategory] ?? 0})`,
+                  })),
+                ]}
+              />
+              <Input
+                variant="select"
+                label="Status"
+                value={filter.status ?? 'ACTIVE'}
+                onChange={(e) => updateFilter({ status: e.target.value as RiskRegisterFilter['status'] })}
+                options={[
+                  { value: 'ACTIVE', label: 'Active' },
+                  ...STATUS_OPTIONS,
+                  { value: 'ALL', label: 'All' },
+                ]}
+              />
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200 overflow-x-auto">
+            <div className="inline-block min-w-full align-middle">
+              <div
+                className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+                style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: ENTRY_COLUMNS }}
+              >
+                <div>Risk</div>
+                <div>Category</div>
+                <div>Service Line</div>
+                <div>Owner</div>
+                <div className="text-right">Score</div>
+                <div>Status</div>
+                <div>Next Review</div>
+                <div className="text-right">Mitigations</div>
+              </div>
+
+              {entries.length === 0 ? (
+                <p className="text-sm text-forvis-gray-500 text-center py-8">No risks match the current filters</p>
+              ) : (
+                entries.map((risk, index) => {
+                  const expanded = expandedId === risk.id;
+                  const openActions = risk.mitigations.filter((m) => m.status !== 'COMPLETED').length;
+                  return (
+                    <div key={risk.id}>
+                      <div
+                        onClick={() => setExpandedId(expanded ? null : risk.id)}
+                        className={`grid gap-3 py-3 px-4 text-xs cursor-pointer transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                          index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+                        }`}
+                        style={{ gridTemplateColumns: ENTRY_COLUMNS }}
+                      >
+                        <div className="flex items-start gap-1">
+                          {expanded ? (
+                            <ChevronDown className="h-3 w-3 mt-0.5 text-forvis-gray-400 flex-shrink-0" />
+                          ) : (
+                            <ChevronRight className="h-3 w-3 mt-0.5 text-forvis-gray-400 flex-shrink-0" />
+                          )}
+                          <div>
+                            <div className="font-semibold text-forvis-gray-900">{risk.title}</div>
+                            {risk.client && <div className="text-forvis-gray-500">{risk.client.clientCode}</div>}
+                          </div>
+                        </div>
+                        <div className="text-forvis-gray-700">{RISK_CATEGORY_LABELS[risk.category]}</div>
+                        <div className="text-forvis-gray-700 truncate">{risk.serviceLineName ?? 'Firm-wide'}</div>
+                        <div className="text-forvis-gray-700 truncate">{risk.ownerName ?? '-'}</div>
+                        <div className="text-right">
+                          <Badge variant={LEVEL_BADGES[risk.level]}>{risk.score}</Badge>
+                        </div>
+                        <div>
+                          <Badge variant={STATUS_BADGES[risk.status]}>{RISK_STATUS_LABELS[risk.status]}</Badge>
+                        </div>
+                        <div
+                          className={risk.reviewOverdue ? 'font-semibold text-forvis-error-600' : 'text-forvis-gray-700'}
+                        >
+                          {formatDate(risk.nextReviewDate)}
+                        </div>
+                        <div className="text-right tabular-nums text-forvis-gray-700">
+                          {openActions} / {risk.mitigations.length}
+                        </div>
+                      </div>
+                      {expanded && <RiskDetail risk={risk} />}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
+      {showNewRisk && report && (
+        <NewRiskModal serviceLines={report.serviceLines} onClose={() => setShowNewRisk(false)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+/**
+ * Sector Analysis
+ *
+ * Fees billed by client industry or sector against the same period last
+ * year, with the fee mix over the last five fiscal years. Industries drill
+ * down into their sectors.
+ */
+
+import { useState } from 'react';
+import { ArrowLeft, Building2, ChevronRight, PieChart, Receipt, TrendingUp } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Banner, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { useSectorAnalysis } from '@/hooks/exco/useExcoReports';
+import type { ExcoPeriodFilter, SectorDimension, SectorRow } from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+const TABS: Array<{ id: SectorDimension; label: string }> = [
+  { id: 'industry', label: 'Industry' },
+  { id: 'sector', label: 'Sector' },
+];
+
+const SERIES_COLORS = ['#2E5AAC', '#5B93D7', '#A8803A', '#16A34A', '#DC2626', '#7C3AED', '#9CA3AF'];
+
+const SECTOR_COLUMNS = '2fr 120px 70px 120px 80px 70px 2fr';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+function growthClass(growth: number | null): string {
+  if (growth === null) return 'text-forvis-gray-500';
+  return growth < 0 ? 'text-forvis-error-600' : 'text-forvis-success-600';
+}
+
+function formatGrowth(growth: number | null): string {
+  if (growth === null) return '-';
+  return `${growth > 0 ? '+' : ''}${growth}%`;
+}
+
+function SectorTable({
+  rows,
+  firstColumn,
+  onSelect,
+}: {
+  rows: SectorRow[];
+  firstColumn: string;
+  onSelect?: (row: SectorRow) => void;
+}) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No fees billed in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: SECTOR_COLUMNS }}
+        >
+          <div>{firstColumn}</div>
+          <div className="text-right">Fees</div>
+          <div className="text-right">Share</div>
+          <div className="text-right">Last Year</div>
+          <div className="text-right">Growth</div>
+          <div className="text-right">Clients</div>
+          <div>Largest Client</div>
+        </div>
+        <div className="bg-white">
+          {rows.map((row, index) => (
+            <div
+              key={row.label}
+              onClick={onSelect ? () => onSelect(row) : undefined}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              } ${onSelect ? 'cursor-pointer' : ''}`}
+              style={{ gridTemplateColumns: SECTOR_COLUMNS }}
+            >
+              <div className="font-semibold text-forvis-gray-900 flex items-center gap-1 truncate">
+                {row.label}
+                {onSelect && <ChevronRight className="h-3 w-3 text-forvis-gray-400 flex-shrink-0" />}
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-900">{formatCurrency(row.fees)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{row.sharePercent}%</div>
+              <div className="text-right tabular-nums text-forvis-gray-600">{formatCurrency(row.priorFees)}</div>
+              <div className={`text-right tabular-nums font-semibold ${growthClass(row.growthPercent)}`}>
+                {formatGrowth(row.growthPercent)}
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-700">
+                {row.clientCount}
+                <span className="text-forvis-gray-400"> / {row.priorClientCount}</span>
+              </div>
+              <div className="min-w-0 text-forvis-gray-700">
+                {row.largestClientName ? (
+                  <span className="truncate block">
+                    {row.largestClientName}{' '}
+                    <span
+                      className={row.largestClientSharePercent >= 50 ? 'text-forvis-error-600 font-semibold' : 'text-forvis-gray-500'}
+                    >
+                      ({row.largestClientSharePercent}%)
+                    </span>
+                  </span>
+                ) : (
+                  '-'
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SectorAnalysis() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+  const [dimension, setDimension] = useState<SectorDimension>('industry');
+  const [industry, setIndustry] = useState<string | undefined>(undefined);
+
+  const { data: report, isLoading, error } = useSectorAnalysis(period, dimension, industry);
+
+  const trendData = report?.trend.map((year) => ({ label: year.label, ...year.shares })) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Sector Analysis</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `${report.period.label} compared with ${report.comparisonPeriod.label}`
+              : 'Fees billed by client industry and sector'}
+          </p>
+        </div>
+        <ExcoPeriodSelector
+          value={{ ...period, fiscalYear: period.fiscalYear ?? report?.period.fiscalYear }}
+          onChange={setPeriod}
+          fiscalYears={report?.fiscalYears ?? []}
+        />
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          {report.industry && (
+            <button
+              onClick={() => setIndustry(undefined)}
+              className="inline-flex items-center gap-2 text-sm font-medium text-forvis-blue-600 hover:text-forvis-blue-800"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              All industries
+              <span className="text-forvis-gray-500">/ {report.industry}</span>
+            </button>
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              label="Fees Billed"
+              value={formatCurrency(report.totals.fees)}
+              icon={<Receipt className="h-5 w-5" />}
+              gradientVariant={1}
+            />
+            <StatCard
+              label="Growth on Last Year"
+              value={formatGrowth(report.totals.growthPercent)}
+              icon={<TrendingUp className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label={report.dimension === 'industry' ? 'Industries' : 'Sectors'}
+              value={report.rows.filter((r) => r.fees > 0).length}
+              icon={<PieChart className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+            <StatCard
+              label="Clients Billed"
+              value={report.totals.clientCount}
+              icon={<Building2 className="h-5 w-5" />}
+              gradientVariant={4}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200 p-6">
+            <h2 className="text-sm font-semibold text-forvis-gray-900 mb-4">
+              Fee Mix by Fiscal Year - {report.industry ?? 'Firm'}
+            </h2>
+            {report.trendSeries.length === 0 ? (
+              <p className="text-sm text-forvis-gray-500 text-center py-8">No fees billed in this period</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={trendData} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis dataKey="label" stroke="#6B7280" style={{ fontSize: '12px' }} />
+                  <YAxis stroke="#6B7280" style={{ fontSize: '12px' }} tickFormatter={(value: number) => `${value}%`} />
+                  <Tooltip formatter={(value) => [`${value}%`]} />
+                  <Legend wrapperStyle={{ paddingTop: '20px' }} iconType="line" />
+                  {report.trendSeries.map((series, index) => (
+                    <Line
+                      key={series}
+                      type="monotone"
+                      dataKey={series}
+                      name={series}
+                      stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                      strokeWidth={2}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            {!report.industry && (
+              <div className="flex border-b border-forvis-gray-200 px-4">
+                {TABS.map((tab) => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setDimension(tab.id)}
+                    className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                      dimension === tab.id
+                        ? 'border-forvis-blue-600 text-forvis-blue-600'
+                        : 'border-transparent text-forvis-gray-600 hover:text-forvis-gray-900'
+                    }`}
+                  >
+                    By {tab.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            <SectorTable
+              rows={report.rows}
+              firstColumn={report.dimension === 'industry' ? 'Industry' : 'Sector'}
+              onSelect={
+                report.dimension === 'industry' && !report.industry ? (row) => setIndustry(row.label) : undefined
+              }
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+/**
+ * Service Line Performance
+ *
+ * League table of service lines or sub-service-line groups ranked on revenue,
+ * margin, recoverability, utilization, lock-up and review note turnaround,
+ * with the change against the same period last fiscal year and a 12-month
+ * revenue sparkline per row.
+ */
+
+import { useState } from 'react';
+import { Clock, Download, FileText, Percent, Timer } from 'lucide-react';
+import { Banner, Button, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { buildExcoPeriodParams, useServiceLineLeague } from '@/hooks/exco/useExcoReports';
+import {
+  LEAGUE_METRICS,
+  type ExcoPeriodFilter,
+  type LeagueLevel,
+  type LeagueMetric,
+  type LeagueMetricValue,
+  type LeagueTableRow,
+} from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+const METRICS = Object.keys(LEAGUE_METRICS) as LeagueMetric[];
+const LEAGUE_COLUMNS = `48px 2fr repeat(${METRICS.length}, 1fr) 96px`;
+
+const TABS: Array<{ id: LeagueLevel; label: string }> = [
+  { id: 'serviceLine', label: 'Service Line' },
+  { id: 'subServiceLineGroup', label: 'Sub-Service Line Group' },
+];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+function formatValue(metric: LeagueMetric, value: number | null): string {
+  if (value === null) return '-';
+  const { unit } = LEAGUE_METRICS[metric];
+  if (unit === 'currency') return formatCurrency(value);
+  if (unit === 'percent') return `${value.toFixed(1)}%`;
+  return `${Math.round(value)} days`;
+}
+
+/**
+ * Change against prior year - revenue as growth, percentages in points and
+ * days as a difference, coloured by whether the move is an improvement
+ */
+function DeltaIndicator({ metric, delta }: { metric: LeagueMetric; delta: number | null }) {
+  if (delta === null || Math.abs(delta) < 0.05) return null;
+
+  const improved = (delta > 0) === LEAGUE_METRICS[metric].higherIsBetter;
+  const unit = metric === 'revenue' ? '%' : LEAGUE_METRICS[metric].unit === 'percent' ? 'pp' : 'd';
+  return (
+    <span className={improved ? 'text-forvis-success-600' : 'text-forvis-error-600'}>
+      {delta > 0 ? '+' : ''}
+      {delta.toFixed(1)}
+      {unit}
+    </span>
+  );
+}
+
+function MetricCell({ metric, value }: { metric: LeagueMetric; value: LeagueMetricValue }) {
+  return (
+    <div className="text-right tabular-nums">
+      <div className="text-forvis-gray-900">{formatValue(metric, value.value)}</div>
+      <div className="text-forvis-gray-500 space-x-1">
+        <DeltaIndicator metric={metric} delta={value.delta} />
+        {value.rank !== null && <span>#{value.rank}</span>}
+      </div>
+    </div>
+  );
+}
+
+function Sparkline({ values }: { values: number[] }) {
+  if (values.length < 2) return null;
+
+  const width = 80;
+  const height = 24;
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const step = width / (values.length - 1);
+  const points = values.map((value, i) => `${i * step},${height - ((value - min) / range) * (height - 2) - 1}`).join(' ');
+
+  return (
+    <svg width={width} height={height} className="text-forvis-blue-600">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+function LeagueTable({ rows, level }: { rows: LeagueTableRow[]; level: LeagueLevel }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No service line activity in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: LEAGUE_COLUMNS }}
+        >
+          <div className="text-center">#</div>
+          <div>{level === 'serviceLine' ? 'Service Line' : 'Sub-Service Line Group'}</div>
+          {METRICS.map((metric) => (
+            <div key={metric} className="text-right">
+              {LEAGUE_METRICS[metric].label}
+            </div>
+          ))}
+          <div className="text-center">Revenue Trend</div>
+        </div>
+        <div className="bg-white">
+          {rows.map((row, index) => (
+            <div
+              key={row.key}
+              className={`grid gap-3 py-3 px-4 text-xs items-center ${index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'}`}
+              style={{ gridTemplateColumns: LEAGUE_COLUMNS }}
+            >
+              <div className="text-center text-sm font-semibold text-forvis-blue-600">{row.rank}</div>
+              <div>
+                <div className="font-semibold text-forvis-gray-900">{row.name}</div>
+                <div className="text-forvis-gray-500">
+                  {row.parentName ? `${row.parentName} - ` : ''}
+                  {row.averageRank !== null ? `average rank ${row.averageRank}` : 'unranked'}
+                </div>
+              </div>
+              {METRICS.map((metric) => (
+                <MetricCell key={metric} metric={metric} value={row.metrics[metric]} />
+              ))}
+              <div className="flex justify-center" title={row.trend.map((p) => `${p.label}: ${formatCurrency(p.revenue)}`).join('\n')}>
+                <Sparkline values={row.trend.map((point) => point.revenue)} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ServiceLineLeague() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+  const [level, setLevel] = useState<LeagueLevel>('serviceLine');
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const { data: report, isLoading, error } = useServiceLineLeague(period, level);
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      setExportError(null);
+
+      const params = buildExcoPeriodParams(period);
+      params.set('level', level);
+
+      const response = await fetch(`/api/exco/service-line-performance/export?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Export failed' }));
+        throw new Error(errorData.error || 'Export failed');
+      }
+
+      const contentDisposition = response.headers.get('Content-Disposition');
+      const fileName = /filename="([^"]+)"/.exec(contentDisposition ?? '')?.[1] ?? 'Service_Line_Performance.pdf';
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const totals = report?.totals;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Service Line Performance</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `${report.period.label} compared with ${report.comparisonPeriod.label} - lock-up as at ${new Date(report.period.asOfDate).toLocaleDateString('en-ZA')}`
+              : 'Service line league table'}
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <ExcoPeriodSelector
+            value={{ ...period, fiscalYear: period.fiscalYear ?? report?.period.fiscalYear }}
+            onChange={setPeriod}
+            fiscalYears={report?.fiscalYears ?? []}
+          />
+          <Button
+            variant="secondary"
+            onClick={handleExport}
+            loading={isExporting}
+            disabled={!report || isExporting}
+            icon={<Download className="h-4 w-4" />}
+          >
+            Download PDF
+          </Button>
+        </div>
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+      {exportError && <Banner variant="error" message={exportError} />}
+
+      {isLoading || !report || !totals ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              label="Net Revenue"
+              value={formatValue('revenue', totals.revenue.value)}
+              icon={<FileText className="h-5 w-5" />}
+              gradientVariant={1}
+            />
+            <StatCard
+              label="Margin"
+              value={formatValue('margin', totals.margin.value)}
+              icon={<Percent className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label="Lock-up Days"
+              value={formatValue('lockup', totals.lockup.value)}
+              icon={<Timer className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+            <StatCard
+              label="Review Note Turnaround"
+              value={formatValue('reviewTurnaround', totals.reviewTurnaround.value)}
+              icon={<Clock className="h-5 w-5" />}
+              gradientVariant={4}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="flex border-b border-forvis-gray-200 px-4">
+              {TABS.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setLevel(tab.id)}
+                  className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                    level === tab.id
+                      ? 'border-forvis-blue-600 text-forvis-blue-600'
+                      : 'border-transparent text-forvis-gray-600 hover:text-forvis-gray-900'
+                  }`}
+                >
+                  By {tab.label}
+                </button>
+              ))}
+              <span className="ml-auto self-center text-xs text-forvis-gray-500">
+                Ranked on the average of each metric&apos;s rank - change against {report.comparisonPeriod.label}
+              </span>
+            </div>
+            <LeagueTable rows={report.rows} level={report.level} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
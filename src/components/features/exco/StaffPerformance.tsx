@@ -0,0 +1,317 @@
+'use client';
+
+/**
+ * Staff Performance
+ *
+ * Per-employee utilization, task roles, planned vs actual hours and review
+ * notes for the staff the viewer leads, each compared with the firm-wide
+ * average for their grade.
+ */
+
+import { useMemo, useState } from 'react';
+import { ClipboardCheck, Clock, Percent, Users } from 'lucide-react';
+import { Badge, Banner, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { useStaffPerformance } from '@/hooks/exco/useExcoReports';
+import type { ExcoPeriodFilter, StaffGradeBenchmark, StaffPerformanceRow } from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+const STAFF_COLUMNS = '2fr 1.2fr 110px 1.5fr 130px 110px 110px';
+const GRADE_COLUMNS = '2fr 90px 110px 110px 110px 110px';
+
+const formatHours = (hours: number) => hours.toLocaleString('en-ZA', { maximumFractionDigits: 0 });
+
+const formatDays = (days: number | null) => (days === null ? '-' : `${days.toFixed(1)} days`);
+
+const formatVariance = (variance: number | null) =>
+  variance === null ? '-' : `${variance > 0 ? '+' : ''}${variance.toFixed(1)}%`;
+
+/**
+ * Difference from the grade average - lowerIsBetter flips the colour for
+ * review note rates and turnaround
+ */
+function PeerDelta({ delta, suffix, lowerIsBetter = false }: { delta: number | null; suffix: string; lowerIsBetter?: boolean }) {
+  if (delta === null || Math.abs(delta) < 0.05) return <span className="text-forvis-gray-400">at grade avg</span>;
+
+  const better = lowerIsBetter ? delta < 0 : delta > 0;
+  return (
+    <span className={better ? 'text-forvis-success-600' : 'text-forvis-error-600'}>
+      {delta > 0 ? '+' : ''}
+      {delta.toFixed(1)}
+      {suffix} vs grade
+    </span>
+  );
+}
+
+function StaffTable({ employees }: { employees: StaffPerformanceRow[] }) {
+  if (employees.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No staff activity in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: STAFF_COLUMNS }}
+        >
+          <div>Employee</div>
+          <div>Grade</div>
+          <div className="text-right">Utilization</div>
+          <div>Task Roles</div>
+          <div className="text-right">Planned vs Actual</div>
+          <div className="text-right">Review Notes</div>
+          <div className="text-right">To Addressed</div>
+        </div>
+        <div className="bg-white">
+          {employees.map((employee, index) => (
+            <div
+              key={employee.empCode}
+              className={`grid gap-3 py-3 px-4 text-xs ${index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'}`}
+              style={{ gridTemplateColumns: STAFF_COLUMNS }}
+            >
+              <div>
+                <div className="font-semibold text-forvis-gray-900">{employee.empName}</div>
+                <div className="text-forvis-gray-500">
+                  {employee.empCode} - {employee.officeCode} - {employee.serviceLineName}
+                </div>
+              </div>
+              <div className="text-forvis-gray-700">
+                <div>{employee.gradeDesc}</div>
+                {employee.utilizationPercentile !== null && (
+                  <div className="text-forvis-gray-500">P{employee.utilizationPercentile} utilization in grade</div>
+                )}
+              </div>
+              <div className="text-right tabular-nums">
+                <div className="text-forvis-gray-900">{employee.utilization.toFixed(1)}%</div>
+                <div className="text-forvis-gray-500">
+                  {formatHours(employee.chargeableHours)} / {formatHours(employee.availableHours)} hrs
+                </div>
+                <PeerDelta delta={employee.peerDelta.utilization} suffix="pp" />
+              </div>
+              <div className="flex flex-wrap gap-1 content-start">
+                {Object.entries(employee.taskRoles).length === 0 ? (
+                  <span className="text-forvis-gray-400">No assignments</span>
+                ) : (
+                  Object.entries(employee.taskRoles)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([role, count]) => (
+                      <Badge key={role} variant="blue">
+                        {role} {count}
+                      </Badge>
+                    ))
+                )}
+              </div>
+              <div className="text-right tabular-nums">
+                <div className="text-forvis-gray-900">
+                  {formatHours(employee.allocatedHours)} / {formatHours(employee.actualHours)} hrs
+                </div>
+                <div className="text-forvis-gray-500">{formatVariance(employee.planVariance)}</div>
+                {employee.planVariance !== null && <PeerDelta delta={employee.peerDelta.planVariance} suffix="pp" lowerIsBetter />}
+              </div>
+              <div className="text-right tabular-nums">
+                <div className="text-forvis-gray-900">{employee.reviewNotesRaised}</div>
+                <div className="text-forvis-gray-500">
+                  {employee.reviewNoteRate === null ? '-' : `${employee.reviewNoteRate.toFixed(1)} per 100 hrs`}
+                </div>
+                {employee.reviewNoteRate !== null && (
+                  <PeerDelta delta={employee.peerDelta.reviewNoteRate} suffix="" lowerIsBetter />
+                )}
+              </div>
+              <div className="text-right tabular-nums">
+                <div className="text-forvis-gray-900">{formatDays(employee.addressTurnaroundDays)}</div>
+                <div className="text-forvis-gray-500">{employee.reviewNotesAddressed} addressed</div>
+                {employee.addressTurnaroundDays !== null && (
+                  <PeerDelta delta={employee.peerDelta.addressTurnaroundDays} suffix="d" lowerIsBetter />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function GradeTable({ grades }: { grades: StaffGradeBenchmark[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: GRADE_COLUMNS }}
+        >
+          <div>Grade</div>
+          <div className="text-right">Staff</div>
+          <div className="text-right">Utilization</div>
+          <div className="text-right">Plan Variance</div>
+          <div className="text-right">Notes / 100 hrs</div>
+          <div className="text-right">To Addressed</div>
+        </div>
+        <div className="bg-white">
+          {grades.map((grade, index) => (
+            <div
+              key={grade.gradeCode}
+              className={`grid gap-3 py-2 px-4 text-xs tabular-nums ${index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'}`}
+              style={{ gridTemplateColumns: GRADE_COLUMNS }}
+            >
+              <div className="text-forvis-gray-900">{grade.gradeDesc}</div>
+              <div className="text-right">{grade.employeeCount}</div>
+              <div className="text-right">{grade.utilization.toFixed(1)}%</div>
+              <div className="text-right">{formatVariance(grade.planVariance)}</div>
+              <div className="text-right">{grade.reviewNoteRate === null ? '-' : grade.reviewNoteRate.toFixed(1)}</div>
+              <div className="text-right">{formatDays(grade.addressTurnaroundDays)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function StaffPerformance() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+  const [serviceLineFilter, setServiceLineFilter] = useState('');
+  const [gradeFilter, setGradeFilter] = useState('');
+  const [search, setSearch] = useState('');
+
+  const { data: report, isLoading, error } = useStaffPerformance(period);
+
+  const serviceLines = useMemo(() => {
+    const lines = new Map<string, string>();
+    report?.employees.forEach((e) => lines.set(e.serviceLineCode, e.serviceLineName));
+    return [...lines.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [report]);
+
+  const employees = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (report?.employees ?? []).filter(
+      (e) =>
+        (!serviceLineFilter || e.serviceLineCode === serviceLineFilter) &&
+        (!gradeFilter || e.gradeCode === gradeFilter) &&
+        (!term || e.empName.toLowerCase().includes(term) || e.empCode.toLowerCase().includes(term))
+    );
+  }, [report, serviceLineFilter, gradeFilter, search]);
+
+  const summary = useMemo(() => {
+    const chargeable = employees.reduce((sum, e) => sum + e.chargeableHours, 0);
+    const available = employees.reduce((sum, e) => sum + e.availableHours, 0);
+    const addressed = employees.reduce((sum, e) => sum + e.reviewNotesAddressed, 0);
+    const addressedDays = employees.reduce((sum, e) => sum + (e.addressTurnaroundDays ?? 0) * e.reviewNotesAddressed, 0);
+    return {
+      utilization: available > 0 ? (chargeable / available) * 100 : 0,
+      reviewNotes: employees.reduce((sum, e) => sum + e.reviewNotesRaised, 0),
+      turnaround: addressed > 0 ? addressedDays / addressed : null,
+    };
+  }, [employees]);
+
+  const selectClassName =
+    'px-3 py-2 text-sm bg-white text-forvis-gray-900 border border-forvis-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-forvis-blue-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Staff Performance</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `${report.period.label} - ${
+                  report.scope.allServiceLines
+                    ? 'all service lines'
+                    : report.scope.serviceLines.map((sl) => sl.name).join(', ')
+                }`
+              : 'Performance of the staff you lead'}
+          </p>
+          <p className="text-xs text-forvis-gray-500 mt-1">
+            Shows staff in the service lines your leader groups lead. Groups leading Country Management see
+            every service line.
+          </p>
+        </div>
+        <ExcoPeriodSelector
+          value={{ ...period, fiscalYear: period.fiscalYear ?? report?.period.fiscalYear }}
+          onChange={setPeriod}
+          fiscalYears={report?.fiscalYears ?? []}
+        />
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard label="Staff" value={employees.length} icon={<Users className="h-5 w-5" />} gradientVariant={1} />
+            <StatCard
+              label="Utilization"
+              value={`${summary.utilization.toFixed(1)}%`}
+              icon={<Percent className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label="Review Notes Raised"
+              value={summary.reviewNotes}
+              icon={<ClipboardCheck className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+            <StatCard
+              label="Avg Days to Addressed"
+              value={summary.turnaround === null ? '-' : summary.turnaround.toFixed(1)}
+              icon={<Clock className="h-5 w-5" />}
+              gradientVariant={4}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-forvis-gray-200">
+              <div>
+                <h2 className="text-sm font-semibold text-forvis-gray-900">Staff</h2>
+                <p className="text-xs text-forvis-gray-500">
+                  Planned vs actual uses task team allocations overlapping the period
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search staff..."
+                  className={selectClassName}
+                />
+                <select value={serviceLineFilter} onChange={(e) => setServiceLineFilter(e.target.value)} className={selectClassName}>
+                  <option value="">All service lines</option>
+                  {serviceLines.map(([code, name]) => (
+                    <option key={code} value={code}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+                <select value={gradeFilter} onChange={(e) => setGradeFilter(e.target.value)} className={selectClassName}>
+                  <option value="">All grades</option>
+                  {report.grades.map((grade) => (
+                    <option key={grade.gradeCode} value={grade.gradeCode}>
+                      {grade.gradeDesc}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <StaffTable employees={employees} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="px-4 py-3 border-b border-forvis-gray-200">
+              <h2 className="text-sm font-semibold text-forvis-gray-900">Grade Benchmarks</h2>
+              <p className="text-xs text-forvis-gray-500">Firm-wide averages each employee is compared with</p>
+            </div>
+            <GradeTable grades={report.grades} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+'use client';
+
+/**
+ * Utilization Report
+ *
+ * Firm-wide chargeable hours against capacity, by service line, office and
+ * grade. Selecting a service line drills down to its staff.
+ */
+
+import { useState } from 'react';
+import { ArrowLeft, ChevronRight, Clock, Percent, Users, Briefcase } from 'lucide-react';
+import { Banner, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { useUtilizationReport } from '@/hooks/exco/useExcoReports';
+import type { EmployeeUtilization, ExcoPeriodFilter, UtilizationBreakdownRow } from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+type BreakdownTab = 'serviceLine' | 'office' | 'grade';
+
+const TABS: Array<{ id: BreakdownTab; label: string }> = [
+  { id: 'serviceLine', label: 'Service Line' },
+  { id: 'office', label: 'Office' },
+  { id: 'grade', label: 'Grade' },
+];
+
+const BREAKDOWN_COLUMNS = '2fr 80px 110px 110px 110px 110px 90px 90px';
+const EMPLOYEE_COLUMNS = '2fr 80px 1fr 110px 110px 110px 110px 90px 90px';
+
+const formatHours = (hours: number) =>
+  new Intl.NumberFormat('en-ZA', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(hours);
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+function utilizationClass(utilization: number): string {
+  if (utilization >= 85) return 'text-forvis-success-600';
+  if (utilization >= 65) return 'text-forvis-blue-600';
+  return 'text-forvis-error-600';
+}
+
+function BreakdownTable({
+  rows,
+  firstColumn,
+  onSelect,
+}: {
+  rows: UtilizationBreakdownRow[];
+  firstColumn: string;
+  onSelect?: (row: UtilizationBreakdownRow) => void;
+}) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No staff in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: BREAKDOWN_COLUMNS }}
+        >
+          <div>{firstColumn}</div>
+          <div className="text-right">Staff</div>
+          <div className="text-right">Standard Hrs</div>
+          <div className="text-right">Non-Client Hrs</div>
+          <div className="text-right">Chargeable Hrs</div>
+          <div className="text-right">Chargeable Value</div>
+          <div className="text-right">Utilization</div>
+          <div className="text-right">Gross</div>
+        </div>
+        <div className="bg-white">
+          {rows.map((row, index) => (
+            <div
+              key={row.key}
+              onClick={onSelect ? () => onSelect(row) : undefined}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              } ${onSelect ? 'cursor-pointer' : ''}`}
+              style={{ gridTemplateColumns: BREAKDOWN_COLUMNS }}
+            >
+              <div className="font-semibold text-forvis-gray-900 flex items-center gap-1">
+                {row.label}
+                {onSelect && <ChevronRight className="h-3 w-3 text-forvis-gray-400" />}
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{row.employeeCount}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatHours(row.standardHours)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatHours(row.nonClientHours)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatHours(row.chargeableHours)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(row.chargeableValue)}</div>
+              <div className={`text-right tabular-nums font-semibold ${utilizationClass(row.utilization)}`}>
+                {row.utilization.toFixed(1)}%
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-600">{row.grossUtilization.toFixed(1)}%</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function EmployeeTable({ employees }: { employees: EmployeeUtilization[] }) {
+  if (employees.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No staff in this service line for the period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: EMPLOYEE_COLUMNS }}
+        >
+          <div>Employee</div>
+          <div>Office</div>
+          <div>Grade</div>
+          <div className="text-right">Standard Hrs</div>
+          <div className="text-right">Non-Client Hrs</div>
+          <div className="text-right">Chargeable Hrs</div>
+          <div className="text-right">Chargeable Value</div>
+          <div className="text-right">Utilization</div>
+          <div className="text-right">Gross</div>
+        </div>
+        <div className="bg-white">
+          {employees.map((employee, index) => (
+            <div
+              key={employee.empCode}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              }`}
+              style={{ gridTemplateColumns: EMPLOYEE_COLUMNS }}
+            >
+              <div>
+                <div className="font-semibold text-forvis-gray-900">{employee.empName}</div>
+                <div className="text-forvis-gray-500">{employee.empCode}</div>
+              </div>
+              <div className="text-forvis-gray-700">{employee.officeCode}</div>
+              <div className="text-forvis-gray-700 truncate">{employee.gradeDesc}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatHours(employee.standardHours)}</div>
+              <div
+                className="text-right tabular-nums text-forvis-gray-700"
+                title={Object.entries(employee.nonClientByType)
+                  .map(([type, hours]) => `${type}: ${formatHours(hours)}`)
+                  .join('\n')}
+              >
+                {formatHours(employee.nonClientHours)}
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatHours(employee.chargeableHours)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(employee.chargeableValue)}</div>
+              <div className={`text-right tabular-nums font-semibold ${utilizationClass(employee.utilization)}`}>
+                {employee.utilization.toFixed(1)}%
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-600">{employee.grossUtilization.toFixed(1)}%</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function UtilizationReport() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+  const [serviceLine, setServiceLine] = useState<string | undefined>(undefined);
+  const [activeTab, setActiveTab] = useState<BreakdownTab>('serviceLine');
+
+  const { data: report, isLoading, error } = useUtilizationReport(period, serviceLine);
+
+  const breakdownRows = report
+    ? activeTab === 'serviceLine'
+      ? report.byServiceLine
+      : activeTab === 'office'
+        ? report.byOffice
+        : report.byGrade
+    : [];
+
+  const tabs = serviceLine ? TABS.filter((tab) => tab.id !== 'serviceLine') : TABS;
+
+  const drillInto = (code: string | undefined) => {
+    setServiceLine(code);
+    setActiveTab(code ? 'office' : 'serviceLine');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Utilization Dashboard</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `${report.period.label} - ${report.period.workingDays} working days to ${new Date(report.period.asOfDate).toLocaleDateString('en-ZA')}`
+              : 'Chargeable hours against available capacity'}
+          </p>
+        </div>
+        <ExcoPeriodSelector
+          value={{ ...period, fiscalYear: period.fiscalYear ?? report?.period.fiscalYear }}
+          onChange={setPeriod}
+          fiscalYears={report?.fiscalYears ?? []}
+        />
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          {report.serviceLine && (
+            <button
+              onClick={() => drillInto(undefined)}
+              className="inline-flex items-center gap-2 text-sm font-medium text-forvis-blue-600 hover:text-forvis-blue-800"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              All service lines
+              <span className="text-forvis-gray-500">/ {report.serviceLine.name}</span>
+            </button>
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              label="Utilization"
+              value={`${report.totals.utilization.toFixed(1)}%`}
+              icon={<Percent className="h-5 w-5" />}
+              gradientVariant={1}
+            />
+            <StatCard
+              label="Chargeable Hours"
+              value={formatHours(report.totals.chargeableHours)}
+              icon={<Clock className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label="Available Hours"
+              value={formatHours(report.totals.availableHours)}
+              icon={<Briefcase className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+            <StatCard
+              label="Staff"
+              value={report.totals.employeeCount}
+              icon={<Users className="h-5 w-5" />}
+              gradientVariant={4}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="flex border-b border-forvis-gray-200 px-4">
+              {tabs.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                    activeTab === tab.id
+                      ? 'border-forvis-blue-600 text-forvis-blue-600'
+                      : 'border-transparent text-forvis-gray-600 hover:text-forvis-gray-900'
+                  }`}
+                >
+                  By {tab.label}
+                </button>
+              ))}
+            </div>
+            <BreakdownTable
+              rows={breakdownRows}
+              firstColumn={TABS.find((tab) => tab.id === activeTab)?.label ?? ''}
+              onSelect={activeTab === 'serviceLine' ? (row) => drillInto(row.key) : undefined}
+            />
+          </div>
+
+          {report.employees && (
+            <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+              <div className="px-4 py-3 border-b border-forvis-gray-200">
+                <h2 className="text-sm font-semibold text-forvis-gray-900">Staff - {report.serviceLine?.name}</h2>
+              </div>
+              <EmployeeTable employees={report.employees} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,427 @@
+'use client';
+
+/**
+ * Working Capital Report
+ *
+ * Monthly lock-up (WIP days + debtor days) for the firm or a service line,
+ * against the service line's target, with a period-end breakdown by service
+ * line, partner or client group and the clients with the highest lock-up.
+ */
+
+import { useState } from 'react';
+import { ArrowLeft, ChevronRight, Hourglass, Receipt, Target, Wallet, X } from 'lucide-react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Banner, Button, Input, LoadingSpinner, StatCard } from '@/components/ui';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import { useLockupReport, useSetLockupTarget } from '@/hooks/exco/useExcoReports';
+import type {
+  ExcoPeriodFilter,
+  LockupBreakdownRow,
+  LockupClientRow,
+  LockupDimension,
+  LockupServiceLineTarget,
+} from '@/types/exco';
+import { ExcoPeriodSelector } from './ExcoPeriodSelector';
+
+const TABS: Array<{ id: LockupDimension; label: string }> = [
+  { id: 'serviceLine', label: 'Service Line' },
+  { id: 'partner', label: 'Partner' },
+  { id: 'group', label: 'Client Group' },
+];
+
+const TOP_N_OPTIONS = [10, 20, 50].map((n) => ({ value: String(n), label: `Top ${n}` }));
+
+const BREAKDOWN_COLUMNS = '2fr 120px 120px 80px 80px 90px 90px 80px 90px';
+const CLIENT_COLUMNS = '2fr 1fr 120px 120px 80px 80px 90px 120px';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+function varianceClass(variance: number | null): string {
+  if (variance === null) return 'text-forvis-gray-500';
+  return variance > 0 ? 'text-forvis-error-600' : 'text-forvis-success-600';
+}
+
+function BreakdownTable({
+  rows,
+  firstColumn,
+  onSelect,
+}: {
+  rows: LockupBreakdownRow[];
+  firstColumn: string;
+  onSelect?: (row: LockupBreakdownRow) => void;
+}) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No WIP or debtors at period end</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: BREAKDOWN_COLUMNS }}
+        >
+          <div>{firstColumn}</div>
+          <div className="text-right">WIP</div>
+          <div className="text-right">Debtors</div>
+          <div className="text-right">WIP Days</div>
+          <div className="text-right">Debtor Days</div>
+          <div className="text-right">Lock-up</div>
+          <div className="text-right">Opening</div>
+          <div className="text-right">Target</div>
+          <div className="text-right">Variance</div>
+        </div>
+        <div className="bg-white">
+          {rows.map((row, index) => (
+            <div
+              key={row.key}
+              onClick={onSelect ? () => onSelect(row) : undefined}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              } ${onSelect ? 'cursor-pointer' : ''}`}
+              style={{ gridTemplateColumns: BREAKDOWN_COLUMNS }}
+            >
+              <div className="font-semibold text-forvis-gray-900 flex items-center gap-1 truncate">
+                {row.label}
+                {onSelect && <ChevronRight className="h-3 w-3 text-forvis-gray-400 flex-shrink-0" />}
+              </div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(row.wipBalance)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(row.debtorsBalance)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{row.wipDays}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{row.debtorDays}</div>
+              <div className="text-right tabular-nums font-semibold text-forvis-gray-900">{row.lockupDays}</div>
+              <div className="text-right tabular-nums text-forvis-gray-600">{row.openingLockupDays}</div>
+              <div className="text-right tabular-nums text-forvis-gray-600">{row.targetDays ?? '-'}</div>
+              <div className={`text-right tabular-nums font-semibold ${varianceClass(row.varianceDays)}`}>
+                {row.varianceDays === null ? '-' : `${row.varianceDays > 0 ? '+' : ''}${row.varianceDays}`}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ClientTable({ clients }: { clients: LockupClientRow[] }) {
+  if (clients.length === 0) {
+    return <p className="text-sm text-forvis-gray-500 text-center py-8">No clients with material lock-up</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-block min-w-full align-middle">
+        <div
+          className="grid gap-3 py-3 px-4 text-xs font-semibold text-white shadow-corporate"
+          style={{ background: GRADIENTS.primary.horizontal, gridTemplateColumns: CLIENT_COLUMNS }}
+        >
+          <div>Client</div>
+          <div>Group</div>
+          <div className="text-right">WIP</div>
+          <div className="text-right">Debtors</div>
+          <div className="text-right">WIP Days</div>
+          <div className="text-right">Debtor Days</div>
+          <div className="text-right">Lock-up</div>
+          <div className="text-right">Debtors 90+ Days</div>
+        </div>
+        <div className="bg-white">
+          {clients.map((client, index) => (
+            <div
+              key={client.clientCode}
+              className={`grid gap-3 py-3 px-4 text-xs transition-colors duration-200 hover:bg-forvis-blue-50 ${
+                index % 2 === 0 ? 'bg-white' : 'bg-forvis-gray-50'
+              }`}
+              style={{ gridTemplateColumns: CLIENT_COLUMNS }}
+            >
+              <div>
+                <div className="font-semibold text-forvis-gray-900 truncate">{client.clientName}</div>
+                <div className="text-forvis-gray-500">{client.clientCode}</div>
+              </div>
+              <div className="text-forvis-gray-700 truncate">{client.groupDesc}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(client.wipBalance)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{formatCurrency(client.debtorsBalance)}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{client.wipDays}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">{client.debtorDays}</div>
+              <div className="text-right tabular-nums font-semibold text-forvis-error-600">{client.lockupDays}</div>
+              <div className="text-right tabular-nums text-forvis-gray-700">
+                {formatCurrency(client.debtorAging.days91_120 + client.debtorAging.days120Plus)}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TargetRow({ serviceLine }: { serviceLine: LockupServiceLineTarget }) {
+  const setTarget = useSetLockupTarget();
+  const [value, setValue] = useState(serviceLine.targetDays?.toString() ?? '');
+
+  const targetDays = value.trim() ? Number(value) : null;
+  const isValid = targetDays === null || (Number.isInteger(targetDays) && targetDays >= 1 && targetDays <= 730);
+  const isChanged = targetDays !== serviceLine.targetDays;
+
+  return (
+    <div className="flex items-center gap-3 py-2">
+      <div className="flex-1 text-sm text-forvis-gray-900">{serviceLine.name}</div>
+      <div className="w-28">
+        <Input
+          type="number"
+          min={1}
+          max={730}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="No target"
+          error={setTarget.error instanceof Error ? setTarget.error.message : undefined}
+        />
+      </div>
+      <Button
+        size="sm"
+        variant="secondary"
+        disabled={!isValid || !isChanged}
+        loading={setTarget.isPending}
+        onClick={() => setTarget.mutate({ serviceLine: serviceLine.code, targetDays })}
+      >
+        Save
+      </Button>
+    </div>
+  );
+}
+
+function TargetsModal({ serviceLines, onClose }: { serviceLines: LockupServiceLineTarget[]; onClose: () => void }) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b border-forvis-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-forvis-gray-900">Lock-up Targets</h2>
+            <p className="text-xs text-forvis-gray-600 mt-1">Target lock-up days per service line - leave blank for none</p>
+          </div>
+          <button onClick={onClose} className="text-forvis-gray-400 hover:text-forvis-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto px-6 py-2 divide-y divide-forvis-gray-100">
+          {serviceLines.map((serviceLine) => (
+            <TargetRow key={serviceLine.code} serviceLine={serviceLine} />
+          ))}
+        </div>
+        <div className="px-6 py-4 border-t border-forvis-gray-200 flex justify-end">
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function WorkingCapitalReport() {
+  const [period, setPeriod] = useState<Partial<ExcoPeriodFilter>>({});
+  const [serviceLine, setServiceLine] = useState<string | undefined>(undefined);
+  const [dimension, setDimension] = useState<LockupDimension>('serviceLine');
+  const [topN, setTopN] = useState(10);
+  const [showTargets, setShowTargets] = useState(false);
+
+  const { data: report, isLoading, error } = useLockupReport(period, { dimension, serviceLine, topN });
+
+  const tabs = serviceLine ? TABS.filter((tab) => tab.id !== 'serviceLine') : TABS;
+  const targetDays = report?.serviceLine?.targetDays ?? null;
+
+  const scopeTo = (code: string | undefined) => {
+    setServiceLine(code);
+    setDimension(code ? 'partner' : 'serviceLine');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-forvis-gray-900">Working Capital & Lock-up</h1>
+          <p className="text-sm text-forvis-gray-600 mt-1">
+            {report
+              ? `${report.period.label} - WIP and debtor days to ${new Date(report.period.asOfDate).toLocaleDateString('en-ZA')}`
+              : 'WIP days and debtor days by month'}
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <Button variant="secondary" icon={<Target className="h-4 w-4" />} onClick={() => setShowTargets(true)} disabled={!report}>
+            Targets
+          </Button>
+          <ExcoPeriodSelector
+            value={{ ...period, fiscalYear: period.fiscalYear ?? report?.period.fiscalYear }}
+            onChange={setPeriod}
+            fiscalYears={report?.fiscalYears ?? []}
+          />
+        </div>
+      </div>
+
+      {error && <Banner variant="error" message={error instanceof Error ? error.message : 'Failed to load report'} />}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )
+      ) : (
+        <>
+          {report.serviceLine && (
+            <button
+              onClick={() => scopeTo(undefined)}
+              className="inline-flex items-center gap-2 text-sm font-medium text-forvis-blue-600 hover:text-forvis-blue-800"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              All service lines
+              <span className="text-forvis-gray-500">/ {report.serviceLine.name}</span>
+            </button>
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              label={targetDays !== null ? `Lock-up Days (target ${targetDays})` : 'Lock-up Days'}
+              value={report.totals.lockupDays}
+              icon={<Hourglass className="h-5 w-5" />}
+              gradientVariant={1}
+            />
+            <StatCard
+              label="WIP Days"
+              value={report.totals.wipDays}
+              icon={<Wallet className="h-5 w-5" />}
+              gradientVariant={2}
+            />
+            <StatCard
+              label="Debtor Days"
+              value={report.totals.debtorDays}
+              icon={<Receipt className="h-5 w-5" />}
+              gradientVariant={3}
+            />
+            <StatCard
+              label="Locked-up Balance"
+              value={formatCurrency(report.totals.wipBalance + report.totals.debtorsBalance)}
+              icon={<Target className="h-5 w-5" />}
+              gradientVariant={4}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200 p-6">
+            <h2 className="text-sm font-semibold text-forvis-gray-900 mb-4">
+              Monthly Lock-up - {report.serviceLine?.name ?? 'Firm'}
+            </h2>
+            {report.trend.length === 0 ? (
+              <p className="text-sm text-forvis-gray-500 text-center py-8">No activity in this period</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={report.trend} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis dataKey="label" stroke="#6B7280" style={{ fontSize: '12px' }} />
+                  <YAxis stroke="#6B7280" style={{ fontSize: '12px' }} />
+                  <Tooltip formatter={(value) => [`${value} days`]} />
+                  <Legend wrapperStyle={{ paddingTop: '20px' }} iconType="line" />
+                  <Line
+                    type="monotone"
+                    dataKey="lockupDays"
+                    name="Lock-up Days"
+                    stroke="#2E5AAC"
+                    strokeWidth={2}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="wipDays"
+                    name="WIP Days"
+                    stroke="#5B93D7"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="debtorDays"
+                    name="Debtor Days"
+                    stroke="#A8803A"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                  {targetDays !== null && (
+                    <ReferenceLine
+                      y={targetDays}
+                      stroke="#DC2626"
+                      strokeDasharray="5 5"
+                      strokeWidth={2}
+                      label={{ value: `Target ${targetDays}`, position: 'right', fill: '#DC2626', fontSize: 12 }}
+                    />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="flex border-b border-forvis-gray-200 px-4">
+              {tabs.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setDimension(tab.id)}
+                  className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                    dimension === tab.id
+                      ? 'border-forvis-blue-600 text-forvis-blue-600'
+                      : 'border-transparent text-forvis-gray-600 hover:text-forvis-gray-900'
+                  }`}
+                >
+                  By {tab.label}
+                </button>
+              ))}
+            </div>
+            <BreakdownTable
+              rows={report.rows}
+              firstColumn={TABS.find((tab) => tab.id === dimension)?.label ?? ''}
+              onSelect={
+                dimension === 'serviceLine'
+                  ? (row) => report.serviceLines.some((sl) => sl.code === row.key) && scopeTo(row.key)
+                  : undefined
+              }
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-corporate border border-forvis-gray-200">
+            <div className="px-4 py-3 border-b border-forvis-gray-200 flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-forvis-gray-900">Highest Lock-up Clients</h2>
+              <div className="w-32">
+                <Input
+                  variant="select"
+                  value={String(topN)}
+                  onChange={(e) => setTopN(Number(e.target.value))}
+                  options={TOP_N_OPTIONS}
+                />
+              </div>
+            </div>
+            <ClientTable clients={report.topClients} />
+          </div>
+        </>
+      )}
+
+      {showTargets && report && (
+        <TargetsModal serviceLines={report.serviceLines} onClose={() => setShowTargets(false)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * EXCO Reporting Feature Components
+ */
+
+export { ExcoPeriodSelector } from './ExcoPeriodSelector';
+export { UtilizationReport } from './UtilizationReport';
+export { PartnerScorecards } from './PartnerScorecards';
+export { RiskRegister } from './RiskRegister';
+export { WorkingCapitalReport } from './WorkingCapitalReport';
+export { BudgetForecast } from './BudgetForecast';
+export { ClientPortfolio } from './ClientPortfolio';
+export { SectorAnalysis } from './SectorAnalysis';
+export { ProfitAndLoss, FinancialPosition } from './FinancialStatements';
+export { NewBusinessReport } from './NewBusinessReport';
+export { PipelineOverview } from './PipelineOverview';
+export { ServiceLineLeague } from './ServiceLineLeague';
+export { StaffPerformance } from './StaffPerformance';
@@ -14,6 +14,7 @@ import {
   Calendar,
   FolderOpen,
   Activity,
+  Scale,
 } from 'lucide-react';
 import { formatServiceLineName, isSharedService } from '@/lib/utils/serviceLineUtils';
 
@@ -38,7 +39,7 @@ export function ServiceLineSelector() {
       return 'md:grid-cols-1 max-w-2xl mx-auto'; // Just Vault for simple services
     }
     if (serviceLine === 'qrm') {
-      return 'md:grid-cols-2'; // Monitoring + Vault for QRM
+      return 'md:grid-cols-3'; // Monitoring + Risk Scoring + Vault for QRM
     }
     if (serviceLine === 'business_dev') {
       return 'md:grid-cols-3'; // BD Pipeline + Company News + Vault
@@ -76,7 +77,7 @@ export function ServiceLineSelector() {
                 : serviceLine === 'country_management'
                 ? 'Access resource planning and executive reporting'
                 : serviceLine === 'qrm'
-                ? 'Access monitoring dashboards and document vault'
+                ? 'Access monitoring dashboards, the risk scoring model and document vault'
                 : 'Choose the type of tasks you want to view'}
             </p>
           </div>
@@ -149,6 +150,40 @@ export function ServiceLineSelector() {
               </Link>
             )}
 
+            {/* Risk Scoring Model Card - Only show for QRM service line */}
+            {serviceLine === 'qrm' && (
+              <Link
+                href={`/dashboard/qrm/risk-scoring`}
+                className="group block rounded-lg border border-forvis-gray-200 shadow-sm hover:shadow-md transition-all duration-200 relative overflow-hidden bg-gradient-dashboard-card"
+              >
+                {/* Hover gradient overlay */}
+                <div className="absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-gradient-dashboard-hover" />
+
+                <div className="p-4 relative z-[1]">
+                  <div className="flex items-center gap-3 mb-3">
+                    {/* Icon */}
+                    <div className="w-12 h-12 rounded-lg flex items-center justify-center flex-shrink-0 transition-transform duration-200 group-hover:scale-110 shadow-sm bg-gradient-icon-standard">
+                      <Scale className="h-6 w-6 text-white" />
+                    </div>
+
+                    {/* Title and Arrow */}
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-sm font-bold text-forvis-gray-900 truncate group-hover:text-forvis-blue-600 transition-colors duration-200">
+                        Risk Scoring Model
+                      </h3>
+                    </div>
+
+                    <ArrowRight className="h-4 w-4 text-forvis-blue-500 opacity-0 group-hover:opacity-100 group-hover:translate-x-1 transition-all duration-200 flex-shrink-0" />
+                  </div>
+
+                  {/* Description */}
+                  <p className="text-xs text-forvis-gray-600 line-clamp-2 leading-relaxed">
+                    Configure acceptance risk scoring and simulate changes before activating them
+                  </p>
+                </div>
+              </Link>
+            )}
+
             {/* BD Pipeline Card - Only show for Business Development service line */}
             {!isVaultOnly && serviceLine === 'business_dev' && (
               <Link
@@ -0,0 +1,434 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Clock, Download, FileText, Loader2, Send, Sparkles, XCircle } from 'lucide-react';
+import { MarkdownRenderer } from '@/components/shared/MarkdownRenderer';
+import { GRADIENTS } from '@/lib/design-system/gradients';
+import {
+  useEngagementLetterBuilder,
+  useGenerateEngagementLetter,
+  useSubmitEngagementLetter,
+} from '@/hooks/tasks/useEngagementLetterBuilder';
+import type { MergeFieldGroup, MergeFieldValue } from '@/types/engagementLetter';
+
+interface EngagementLetterBuilderProps {
+  taskId: number | string;
+  /** Content saved on the task from the last generation */
+  savedContent: string | null | undefined;
+  canManage: boolean;
+  isUploaded: boolean;
+  onGoToUpload: () => void;
+}
+
+const GROUP_LABELS: Record<MergeFieldGroup, string> = {
+  client: 'Client',
+  partner: 'Partner',
+  task: 'Engagement',
+  fees: 'Fees (from task budget)',
+  scope: 'Scope',
+  letter: 'Letter',
+};
+
+const inputClass =
+  'w-full px-3 py-1.5 text-sm border border-forvis-gray-300 rounded-lg focus:ring-2 focus:ring-forvis-blue-500 focus:border-forvis-blue-500';
+
+function MergeFieldInput({
+  field,
+  value,
+  onChange,
+}: {
+  field: MergeFieldValue;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  if (field.key === 'scopeOfServices') {
+    return <textarea rows={3} value={value} onChange={(e) => onChange(e.target.value)} className={inputClass} />;
+  }
+  return (
+    <input
+      type={field.type === 'date' ? 'date' : 'text'}
+      inputMode={field.type === 'currency' || field.type === 'number' ? 'decimal' : undefined}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={inputClass}
+    />
+  );
+}
+
+export function EngagementLetterBuilder({
+  taskId,
+  savedContent,
+  canManage,
+  isUploaded,
+  onGoToUpload,
+}: EngagementLetterBuilderProps) {
+  const { data: builder, isLoading, error: loadError } = useEngagementLetterBuilder(taskId);
+  const generateMutation = useGenerateEngagementLetter(taskId);
+  const submitMutation = useSubmitEngagementLetter(taskId);
+
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [clauseIds, setClauseIds] = useState<number[]>([]);
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  const [useAiAdaptation, setUseAiAdaptation] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [content, setContent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // Start from the last generated letter's choices, otherwise the defaults
+  useEffect(() => {
+    if (!builder) return;
+    const generated = builder.generated;
+    setTemplateId(generated?.templateId ?? builder.templates[0]?.id ?? null);
+    setClauseIds(generated ? generated.clauseIds : builder.clauses.filter((c) => c.isDefault).map((c) => c.id));
+    setOverrides(
+      generated
+        ? Object.fromEntries(
+            builder.mergeFields
+              .filter((f) => f.editable && generated.mergeFieldValues[f.key] !== undefined)
+              .filter((f) => generated.mergeFieldValues[f.key] !== (f.value ?? ''))
+              .map((f) => [f.key, generated.mergeFieldValues[f.key]!])
+          )
+        : {}
+    );
+  }, [builder]);
+
+  const fieldsByGroup = useMemo(() => {
+    const groups = new Map<MergeFieldGroup, MergeFieldValue[]>();
+    for (const field of builder?.mergeFields ?? []) {
+      groups.set(field.group, [...(groups.get(field.group) ?? []), field]);
+    }
+    return [...groups.entries()];
+  }, [builder]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-forvis-blue-600" />
+      </div>
+    );
+  }
+
+  if (loadError || !builder) {
+    return (
+      <div className="p-4 bg-forvis-error-50 border-2 border-forvis-error-200 rounded-lg">
+        <p className="text-sm text-forvis-error-800">
+          {loadError instanceof Error ? loadError.message : 'Failed to load engagement letter builder'}
+        </p>
+      </div>
+    );
+  }
+
+  const generated = builder.generated;
+  const approval = generated?.approval ?? null;
+  const letterContent = content ?? savedContent ?? null;
+  const showForm = !generated || isEditing;
+  const canSubmit = !!generated?.hasWordDocument && (!approval || approval.status === 'REJECTED');
+
+  const valueFor = (field: MergeFieldValue) => overrides[field.key] ?? field.value ?? '';
+
+  const toggleClause = (id: number) =>
+    setClauseIds((current) => (current.includes(id) ? current.filter((c) => c !== id) : [...current, id]));
+
+  const handleGenerate = async () => {
+    setError(null);
+    try {
+      const result = await generateMutation.mutateAsync({
+        templateId: templateId ?? undefined,
+        useAiAdaptation,
+        clauseIds,
+        mergeFieldOverrides: overrides,
+      });
+      setContent(result.content);
+      setIsEditing(false);
+      if (result.unresolvedFields.length > 0) {
+        setError(`The template uses unknown merge fields: ${result.unresolvedFields.join(', ')}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate engagement letter');
+    }
+  };
+
+  const handleSubmit = async () => {
+    setError(null);
+    try {
+      await submitMutation.mutateAsync();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit engagement letter for approval');
+    }
+  };
+
+  const handleDownloadWord = async () => {
+    setDownloadError(null);
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/engagement-letter/download?file=generated`);
+      if (!response.ok) {
+        throw new Error('Failed to download engagement letter');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      const contentDisposition = response.headers.get('Content-Disposition');
+      const filenameMatch = contentDisposition?.substring(0, 500).match(/filename="([^"]{1,255})"/);
+      a.download = filenameMatch?.[1] || 'engagement-letter.docx';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setDownloadError(err instanceof Error ? err.message : 'Failed to download engagement letter');
+    }
+  };
+
+  if (!canManage && !generated) {
+    return (
+      <div className="p-4 bg-yellow-50 border-2 border-yellow-200 rounded-lg">
+        <p className="text-sm text-yellow-800">
+          Only Partners and System Administrators can generate engagement letters.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="flex items-start p-4 bg-forvis-error-50 border-2 border-forvis-error-200 rounded-lg">
+          <XCircle className="h-5 w-5 text-forvis-error-600 mt-0.5 mr-3 flex-shrink-0" />
+          <p className="text-sm font-semibold text-forvis-error-800">{error}</p>
+        </div>
+      )}
+
+      {generated && !isEditing && (
+        <div className="space-y-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-sm font-medium text-green-700">Letter generated successfully</p>
+              <p className="text-xs text-forvis-gray-600 mt-1">
+                Generated {new Date(generated.generatedAt).toLocaleString('en-ZA')}
+                {generated.clauseIds.length > 0 && ` · ${generated.clauseIds.length} library clauses`}
+              </p>
+              {approval && (
+                <p className="mt-2 inline-flex items-center text-xs font-medium">
+                  {approval.status === 'PENDING' && (
+                    <span className="inline-flex items-center text-yellow-700">
+                      <Clock className="h-4 w-4 mr-1" />
+                      Awaiting partner approval
+                    </span>
+                  )}
+                  {approval.status === 'APPROVED' && (
+                    <span className="inline-flex items-center text-forvis-success-700">
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Approved by partner
+                    </span>
+                  )}
+                  {approval.status === 'REJECTED' && (
+                    <span className="inline-flex items-center text-forvis-error-700">
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Rejected - update and regenerate the letter
+                    </span>
+                  )}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {generated.hasWordDocument && (
+                <button
+                  onClick={handleDownloadWord}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-forvis-gray-700 bg-white border border-forvis-gray-300 rounded-lg hover:bg-forvis-gray-50 transition-colors"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Word
+                </button>
+              )}
+              {canManage && approval?.status !== 'PENDING' && approval?.status !== 'APPROVED' && (
+                <button
+                  onClick={() => setIsEditing(true)}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-forvis-gray-700 bg-white border border-forvis-gray-300 rounded-lg hover:bg-forvis-gray-50 transition-colors"
+                >
+                  <FileText className="h-4 w-4 mr-2" />
+                  Regenerate
+                </button>
+              )}
+              {canManage && canSubmit && (
+                <button
+                  onClick={handleSubmit}
+                  disabled={submitMutation.isPending}
+                  className="inline-flex items-center px-4 py-2 text-sm font-semibold text-white rounded-lg transition-all shadow-corporate hover:shadow-corporate-md disabled:opacity-50 disabled:cursor-not-allowed"
+                  style={{ background: GRADIENTS.icon.standard }}
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  {submitMutation.isPending ? 'Submitting...' : 'Submit for Approval'}
+                </button>
+              )}
+            </div>
+          </div>
+          {downloadError && <p className="text-xs text-forvis-error-700">{downloadError}</p>}
+          {!generated.hasWordDocument && (
+            <p className="text-xs text-yellow-700">
+              The Word document could not be created. Regenerate the letter before submitting it for approval.
+            </p>
+          )}
+          {letterContent && (
+            <div className="max-h-96 overflow-y-auto border-2 border-forvis-gray-200 rounded-lg p-4 bg-forvis-gray-50">
+              <MarkdownRenderer content={letterContent} />
+            </div>
+          )}
+          {!isUploaded && (
+            <div className="p-4 bg-blue-50 border-2 border-blue-200 rounded-lg">
+              <p className="text-sm text-blue-800">
+                <strong>Next step:</strong>{' '}
+                {approval?.status === 'APPROVED'
+                  ? 'Send the approved letter to the client for signature, then upload the signed version in the '
+                  : 'Submit the letter for partner approval. Once approved, have it signed by the client and upload the signed version in the '}
+                <button onClick={onGoToUpload} className="underline font-semibold hover:text-blue-900">
+                  Upload Letter
+                </button>{' '}
+                tab.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showForm && (
+        <>
+          <div>
+            <h3 className="text-lg font-semibold text-forvis-gray-900 mb-2">Generate from Template</h3>
+            <p className="text-sm text-forvis-gray-700">
+              Choose a template and clauses, review the merge fields, and generate a Word letter ready for partner
+              approval.
+            </p>
+          </div>
+
+          {/* Template */}
+          <div className="border-2 border-forvis-gray-200 rounded-lg p-4 space-y-2">
+            <h4 className="text-sm font-semibold text-forvis-gray-900">Template</h4>
+            {builder.templates.length === 0 ? (
+              <p className="text-sm text-forvis-gray-600">
+                No engagement letter templates are available for this service line.
+              </p>
+            ) : (
+              builder.templates.map((template) => (
+                <label key={template.id} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="engagementLetterTemplate"
+                    checked={templateId === template.id}
+                    onChange={() => setTemplateId(template.id)}
+                    className="mt-1 h-4 w-4 text-forvis-blue-600 border-forvis-gray-300"
+                  />
+                  <span>
+                    <span className="text-sm font-medium text-forvis-gray-900">{template.name}</span>
+                    {!template.serviceLine && <span className="ml-2 text-xs text-forvis-gray-500">All service lines</span>}
+                    {template.description && (
+                      <span className="block text-xs text-forvis-gray-600">{template.description}</span>
+                    )}
+                  </span>
+                </label>
+              ))
+            )}
+          </div>
+
+          {/* Clause library */}
+          {builder.clauses.length > 0 && (
+            <div className="border-2 border-forvis-gray-200 rounded-lg p-4 space-y-2">
+              <h4 className="text-sm font-semibold text-forvis-gray-900">Clauses</h4>
+              <p className="text-xs text-forvis-gray-600">Selected clauses are added after the template sections.</p>
+              {builder.clauses.map((clause) => (
+                <label key={clause.id} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={clauseIds.includes(clause.id)}
+                    onChange={() => toggleClause(clause.id)}
+                    className="mt-1 h-4 w-4 text-forvis-blue-600 border-forvis-gray-300 rounded"
+                  />
+                  <span className="text-sm text-forvis-gray-900">
+                    {clause.title}
+                    {clause.category && <span className="ml-2 text-xs text-forvis-gray-500">{clause.category}</span>}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {/* Merge fields */}
+          <div className="border-2 border-forvis-gray-200 rounded-lg p-4 space-y-4">
+            <h4 className="text-sm font-semibold text-forvis-gray-900">Merge Fields</h4>
+            {fieldsByGroup.map(([group, fields]) => (
+              <div key={group}>
+                <p className="text-xs font-semibold uppercase tracking-wide text-forvis-gray-500 mb-2">
+                  {GROUP_LABELS[group]}
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {fields.map((field) => (
+                    <div key={field.key} className={field.key === 'scopeOfServices' ? 'md:col-span-2' : undefined}>
+                      <label className="block text-xs font-medium text-forvis-gray-700 mb-1">
+                        {field.label}
+                        {field.required && <span className="text-forvis-error-600"> *</span>}
+                        <code className="ml-2 text-[10px] text-forvis-gray-400">{`{{${field.key}}}`}</code>
+                      </label>
+                      {field.editable ? (
+                        <MergeFieldInput
+                          field={field}
+                          value={valueFor(field)}
+                          onChange={(value) => setOverrides((current) => ({ ...current, [field.key]: value }))}
+                        />
+                      ) : (
+                        <p className={`text-sm ${field.display ? 'text-forvis-gray-900' : 'text-forvis-gray-400'}`}>
+                          {field.display || 'Not available'}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* AI Adaptation Option */}
+          <div className="flex items-start space-x-3 p-4 bg-purple-50 border-2 border-purple-200 rounded-lg">
+            <input
+              type="checkbox"
+              id="aiAdaptation"
+              checked={useAiAdaptation}
+              onChange={(e) => setUseAiAdaptation(e.target.checked)}
+              className="mt-1 h-4 w-4 text-purple-600 border-forvis-gray-300 rounded focus:ring-purple-500"
+            />
+            <div className="flex-1">
+              <label htmlFor="aiAdaptation" className="text-sm font-medium text-purple-900 flex items-center cursor-pointer">
+                <Sparkles className="h-5 w-5 mr-2" />
+                Use AI to customize sections
+              </label>
+              <p className="text-xs text-purple-700 mt-1">
+                AI will adapt marked sections to be specific to this client and task while maintaining the professional structure and tone.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleGenerate}
+              disabled={generateMutation.isPending || !templateId}
+              className="inline-flex items-center px-6 py-3 text-sm font-semibold text-white rounded-lg transition-all shadow-corporate hover:shadow-corporate-md disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ background: GRADIENTS.icon.standard }}
+            >
+              <FileText className="h-5 w-5 mr-2" />
+              {generateMutation.isPending ? 'Generating...' : 'Generate Letter'}
+            </button>
+            {isEditing && (
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-4 py-2 text-sm font-medium text-forvis-gray-700 bg-white border border-forvis-gray-300 rounded-lg hover:bg-forvis-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
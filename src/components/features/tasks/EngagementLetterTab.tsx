@@ -7,19 +7,17 @@ import {
   Upload,
   CheckCircle,
   AlertTriangle,
-  Sparkles,
   XCircle,
   Loader2
 } from 'lucide-react';
 import { Task } from '@/types';
-import { MarkdownRenderer } from '@/components/shared/MarkdownRenderer';
 import { useQueryClient } from '@tanstack/react-query';
 import { taskKeys } from '@/hooks/tasks/useTaskData';
 import { taskListKeys } from '@/hooks/tasks/useTasks';
 import { kanbanKeys } from '@/hooks/tasks/useKanbanBoard';
 import { clientKeys } from '@/hooks/clients/useClients';
 import { useCanApproveAcceptance } from '@/hooks/auth/usePermissions';
-import { TemplateSelector } from '@/components/features/templates/TemplateSelector';
+import { EngagementLetterBuilder } from './EngagementLetterBuilder';
 import { GRADIENTS } from '@/lib/design-system/gradients';
 
 interface EngagementLetterTabProps {
@@ -28,12 +26,6 @@ interface EngagementLetterTabProps {
   onUploadComplete: () => void;
 }
 
-interface SectionUsed {
-  id: number;
-  name: string;
-  wasAiAdapted?: boolean;
-}
-
 type TabType = 'upload' | 'generate';
 
 // Signature Indicator Component
@@ -69,17 +61,12 @@ function formatDate(date: Date | string | null | undefined): string {
 
 export function EngagementLetterTab({ task, currentUserRole, onUploadComplete }: EngagementLetterTabProps) {
   const [activeTab, setActiveTab] = useState<TabType>('upload');
-  const [isGenerating, setIsGenerating] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [isUploadingDpa, setIsUploadingDpa] = useState(false);
-  const [letterContent, setLetterContent] = useState<string | null>(null);
-  const [sectionsUsed, setSectionsUsed] = useState<SectionUsed[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [dpaError, setDpaError] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedDpaFile, setSelectedDpaFile] = useState<File | null>(null);
-  const [selectedTemplateId, setSelectedTemplateId] = useState<number | null>(null);
-  const [useAiAdaptation, setUseAiAdaptation] = useState(true);
   const [showReplaceConfirm, setShowReplaceConfirm] = useState(false);
   const [showDpaReplaceConfirm, setShowDpaReplaceConfirm] = useState(false);
   const [errorDetails, setErrorDetails] = useState<string[]>([]);
@@ -88,14 +75,7 @@ export function EngagementLetterTab({ task, currentUserRole, onUploadComplete }:
   const dpaFileInputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
 
-  // Load saved engagement letter content on mount
   useEffect(() => {
-    if (task.engagementLetterGenerated && task.engagementLetterContent) {
-      setLetterContent(task.engagementLetterContent);
-      if (task.engagementLetterTemplateId) {
-        setSelectedTemplateId(task.engagementLetterTemplateId);
-      }
-    }
     // Set default tab based on current state
     if (task.engagementLetterGenerated && !task.engagementLetterUploaded) {
       setActiveTab('generate');
@@ -104,41 +84,12 @@ export function EngagementLetterTab({ task, currentUserRole, onUploadComplete }:
 
   // Check if user can manage engagement letters (Partners and System Admins only)
   const { data: canManage = false, isLoading: isCheckingPermission } = useCanApproveAcceptance(task);
-  const isGenerated = task.engagementLetterGenerated || letterContent !== null;
+  const isGenerated = task.engagementLetterGenerated;
   const isUploaded = task.engagementLetterUploaded;
   const isDpaUploaded = task.dpaUploaded;
   const isFullyComplete = isUploaded && isDpaUploaded; // Both EL and DPA uploaded
   const acceptanceApproved = task.acceptanceApproved;
 
-  const handleGenerate = async () => {
-    setIsGenerating(true);
-    setError(null);
-
-    try {
-      const response = await fetch(`/api/tasks/${task.id}/engagement-letter/generate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          templateId: selectedTemplateId,
-          useAiAdaptation,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate engagement letter');
-      }
-
-      setLetterContent(data.data.content);
-      setSectionsUsed(data.data.sectionsUsed || []);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to generate engagement letter');
-    } finally {
-      setIsGenerating(false);
-    }
-  };
-
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -325,20 +276,6 @@ export function EngagementLetterTab({ task, currentUserRole, onUploadComplete }:
     }
   };
 
-  const handleDownload = () => {
-    if (!letterContent) return;
-
-    const blob = new Blob([letterContent], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `engagement-letter-${(task.name || 'task').replace(/\s+/g, '-')}.md`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
   const handleDownloadUploaded = async () => {
     try {
       const response = await fetch(`/api/tasks/${task.id}/engagement-letter/download`);
@@ -884,108 +821,13 @@ export function EngagementLetterTab({ task, currentUserRole, onUploadComplete }:
 
             {/* Generate Tab */}
             {activeTab === 'generate' && (
-              <div className="space-y-6">
-                {!letterContent ? (
-                  <>
-                    <div>
-                      <h3 className="text-lg font-semibold text-forvis-gray-900 mb-2">
-                        Generate from Template
-                      </h3>
-                      <p className="text-sm text-forvis-gray-700">
-                        Select a template and generate an engagement letter pre-filled with client and task information.
-                      </p>
-                    </div>
-                    
-                    {canManage ? (
-                      <>
-                        {/* Template Selection */}
-                        <div className="border-2 border-forvis-gray-200 rounded-lg p-4">
-                          <TemplateSelector
-                            serviceLine={task.serviceLine || task.ServLineCode}
-                            selectedTemplateId={selectedTemplateId}
-                            onSelect={setSelectedTemplateId}
-                          />
-                        </div>
-
-                        {/* AI Adaptation Option */}
-                        <div className="flex items-start space-x-3 p-4 bg-purple-50 border-2 border-purple-200 rounded-lg">
-                          <input
-                            type="checkbox"
-                            id="aiAdaptation"
-                            checked={useAiAdaptation}
-                            onChange={(e) => setUseAiAdaptation(e.target.checked)}
-                            className="mt-1 h-4 w-4 text-purple-600 border-forvis-gray-300 rounded focus:ring-purple-500"
-                          />
-                          <div className="flex-1">
-                            <label htmlFor="aiAdaptation" className="text-sm font-medium text-purple-900 flex items-center cursor-pointer">
-                              <Sparkles className="h-5 w-5 mr-2" />
-                              Use AI to customize sections
-                            </label>
-                            <p className="text-xs text-purple-700 mt-1">
-                              AI will adapt marked sections to be specific to this client and task while maintaining the professional structure and tone.
-                            </p>
-                          </div>
-                        </div>
-
-                        {/* Generate Button */}
-                        <button
-                          onClick={handleGenerate}
-                          disabled={isGenerating || !selectedTemplateId}
-                          className="inline-flex items-center px-6 py-3 text-sm font-semibold text-white rounded-lg transition-all shadow-corporate hover:shadow-corporate-md disabled:opacity-50 disabled:cursor-not-allowed"
-                          style={{ background: GRADIENTS.icon.standard }}
-                        >
-                          <FileText className="h-5 w-5 mr-2" />
-                          {isGenerating ? 'Generating...' : 'Generate Letter'}
-                        </button>
-                      </>
-                    ) : (
-                      <div className="p-4 bg-yellow-50 border-2 border-yellow-200 rounded-lg">
-                        <p className="text-sm text-yellow-800">
-                          Only Partners and System Administrators can generate engagement letters.
-                        </p>
-                      </div>
-                    )}
-                  </>
-                ) : (
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-sm font-medium text-green-700">
-                          Letter generated successfully
-                        </p>
-                        {sectionsUsed.length > 0 && (
-                          <p className="text-xs text-forvis-gray-600 mt-1">
-                            {sectionsUsed.length} sections included
-                            {sectionsUsed.some((s) => s.wasAiAdapted) && (
-                              <span className="ml-2 inline-flex items-center text-purple-600">
-                                <Sparkles className="h-3 w-3 mr-1" />
-                                AI-adapted
-                              </span>
-                            )}
-                          </p>
-                        )}
-                      </div>
-                      <button
-                        onClick={handleDownload}
-                        className="inline-flex items-center px-4 py-2 text-sm font-medium text-forvis-gray-700 bg-white border border-forvis-gray-300 rounded-lg hover:bg-forvis-gray-50 transition-colors"
-                      >
-                        <Download className="h-4 w-4 mr-2" />
-                        Download
-                      </button>
-                    </div>
-                    <div className="max-h-96 overflow-y-auto border-2 border-forvis-gray-200 rounded-lg p-4 bg-forvis-gray-50">
-                      <MarkdownRenderer content={letterContent} />
-                    </div>
-                    {!isUploaded && (
-                      <div className="p-4 bg-blue-50 border-2 border-blue-200 rounded-lg">
-                        <p className="text-sm text-blue-800">
-                          <strong>Next step:</strong> Download this letter, have it signed by the client, then upload the signed version in the <button onClick={() => setActiveTab('upload')} className="underline font-semibold hover:text-blue-900">Upload Letter</button> tab.
-                        </p>
-                      </div>
-                    )}
-                  </div>
-                )}
-              </div>
+              <EngagementLetterBuilder
+                taskId={task.id}
+                savedContent={task.engagementLetterContent}
+                canManage={canManage}
+                isUploaded={!!isUploaded}
+                onGoToUpload={() => setActiveTab('upload')}
+              />
             )}
           </div>
         </div>
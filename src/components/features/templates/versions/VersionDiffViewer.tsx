@@ -1,119 +1,101 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { X, ArrowLeft, ArrowRight } from 'lucide-react';
+import { X, ArrowLeft, ArrowRight, ArrowUpDown } from 'lucide-react';
 import { Button } from '@/components/ui';
-import { diffWords } from 'diff';
+import { useVersionComparison } from '@/hooks/templates/useTemplateVersions';
+import {
+  SectionComparison,
+  VersionDiffPart,
+  VersionHistoryItem,
+} from '@/lib/services/templates/templateVersionService';
+
+type VersionRef = number | 'current';
 
 interface VersionDiffViewerProps {
   templateId: number;
+  versions: VersionHistoryItem[];
+  /** Version the comparison starts from - compared against the current template by default */
   versionId: number;
   onClose: () => void;
 }
 
-interface VersionData {
-  id: number;
-  version: number;
-  name: string;
-  TemplateSectionVersion: Array<{
-    sectionKey: string;
-    title: string;
-    content: string;
-    order: number;
-  }>;
-}
+const STATUS_STYLES: Record<SectionComparison['status'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800' },
+  modified: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800' },
+  unchanged: { label: 'Same', className: 'bg-forvis-gray-100 text-forvis-gray-600' },
+};
+
+const parseRef = (value: string): VersionRef => (value === 'current' ? 'current' : Number(value));
 
 export function VersionDiffViewer({
   templateId,
+  versions,
   versionId,
   onClose,
 }: VersionDiffViewerProps) {
-  const [versionData, setVersionData] = useState<VersionData | null>(null);
-  const [currentTemplate, setCurrentTemplate] = useState<any>(null);
-  const [selectedSectionIndex, setSelectedSectionIndex] = useState(0);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string>('');
+  const [from, setFrom] = useState<VersionRef>(versionId);
+  const [to, setTo] = useState<VersionRef>('current');
+  const [selectedSectionKey, setSelectedSectionKey] = useState<string | null>(null);
+  const { comparison, isLoading, error } = useVersionComparison(templateId, from, to);
 
+  // Open on the first section that changed
   useEffect(() => {
-    fetchData();
-  }, [templateId, versionId]);
-
-  const fetchData = async () => {
-    try {
-      setIsLoading(true);
-
-      // Fetch version data
-      const versionResponse = await fetch(
-        `/api/admin/templates/${templateId}/versions/${versionId}`
-      );
-      if (!versionResponse.ok) throw new Error('Failed to fetch version');
-      const versionResult = await versionResponse.json();
-
-      // Fetch current template data
-      const templateResponse = await fetch(
-        `/api/admin/templates/${templateId}`
-      );
-      if (!templateResponse.ok) throw new Error('Failed to fetch template');
-      const templateResult = await templateResponse.json();
-
-      setVersionData(versionResult.data);
-      setCurrentTemplate(templateResult.data);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load data');
-    } finally {
-      setIsLoading(false);
+    if (!comparison) return;
+    const stillPresent = comparison.sections.some((s) => s.sectionKey === selectedSectionKey);
+    if (!stillPresent) {
+      const firstChanged = comparison.sections.find((s) => s.status !== 'unchanged' || s.moved);
+      setSelectedSectionKey((firstChanged ?? comparison.sections[0])?.sectionKey ?? null);
     }
-  };
-
-  if (isLoading) {
-    return (
-      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
-        <div className="bg-white rounded-lg p-8">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-forvis-blue-600 mx-auto" />
-          <p className="mt-4 text-sm text-forvis-gray-600">Loading comparison...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (error || !versionData || !currentTemplate) {
-    return (
-      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
-        <div className="bg-white rounded-lg p-8 max-w-md">
-          <p className="text-sm text-red-700">{error || 'Failed to load data'}</p>
-          <Button onClick={onClose} className="mt-4">
-            Close
-          </Button>
-        </div>
-      </div>
-    );
-  }
+  }, [comparison, selectedSectionKey]);
 
-  const versionSections = versionData.TemplateSectionVersion.sort(
-    (a, b) => a.order - b.order
-  );
-  const currentSections = (currentTemplate.TemplateSection || []).sort(
-    (a: any, b: any) => a.order - b.order
-  );
+  const options = [
+    { value: 'current', label: 'Current template' },
+    ...versions.map((v) => ({
+      value: String(v.id),
+      label: `Version ${v.version}${v.isActive ? ' (active)' : ''}`,
+    })),
+  ];
 
-  const selectedVersionSection = versionSections[selectedSectionIndex];
-  const selectedCurrentSection = currentSections.find(
-    (s: any) => s.sectionKey === selectedVersionSection?.sectionKey
-  );
+  const selected = comparison?.sections.find((s) => s.sectionKey === selectedSectionKey);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
       <div className="bg-white rounded-lg shadow-corporate-lg max-w-7xl w-full max-h-[90vh] flex flex-col">
         {/* Header */}
         <div
-          className="px-6 py-4 border-b border-forvis-gray-200 flex items-center justify-between"
+          className="px-6 py-4 border-b border-forvis-gray-200 flex items-center justify-between gap-4"
           style={{
             background: 'linear-gradient(to right, #2E5AAC, #25488A)',
           }}
         >
-          <h2 className="text-xl font-semibold text-white">
-            Compare Versions: v{versionData.version} vs Current
-          </h2>
+          <div className="flex items-center gap-3 text-white">
+            <h2 className="text-xl font-semibold">Compare</h2>
+            <select
+              value={String(from)}
+              onChange={(e) => setFrom(parseRef(e.target.value))}
+              className="rounded-md border-0 text-sm text-forvis-gray-900 py-1"
+            >
+              {options.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            <ArrowRight className="w-4 h-4" />
+            <select
+              value={String(to)}
+              onChange={(e) => setTo(parseRef(e.target.value))}
+              className="rounded-md border-0 text-sm text-forvis-gray-900 py-1"
+            >
+              {options.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </div>
           <button
             onClick={onClose}
             className="text-white hover:text-forvis-gray-200 transition-colors"
@@ -122,79 +104,123 @@ export function VersionDiffViewer({
           </button>
         </div>
 
-        {/* Content */}
-        <div className="flex-1 overflow-hidden flex">
-          {/* Section Navigator */}
-          <div className="w-64 border-r border-forvis-gray-200 overflow-y-auto p-4">
-            <h3 className="text-sm font-semibold text-forvis-gray-900 mb-2">
-              Sections
-            </h3>
-            <div className="space-y-1">
-              {versionSections.map((section, index) => (
-                <button
-                  key={section.sectionKey}
-                  onClick={() => setSelectedSectionIndex(index)}
-                  className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
-                    selectedSectionIndex === index
-                      ? 'bg-forvis-blue-100 text-forvis-blue-900 font-medium'
-                      : 'hover:bg-forvis-gray-100 text-forvis-gray-700'
-                  }`}
-                >
-                  {section.title}
-                </button>
+        {isLoading ? (
+          <div className="flex-1 flex flex-col items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-forvis-blue-600" />
+            <p className="mt-4 text-sm text-forvis-gray-600">Loading comparison...</p>
+          </div>
+        ) : error || !comparison ? (
+          <div className="flex-1 py-16 text-center">
+            <p className="text-sm text-red-700">{error || 'Failed to load comparison'}</p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="px-6 py-3 border-b border-forvis-gray-200 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-forvis-gray-700">
+              <span>{comparison.summary.modified} changed</span>
+              <span>{comparison.summary.added} added</span>
+              <span>{comparison.summary.removed} removed</span>
+              <span>{comparison.summary.moved} reordered</span>
+              <span>{comparison.summary.unchanged} unchanged</span>
+              {comparison.metadataChanges.map((change) => (
+                <span key={change.field} className="text-forvis-blue-700">
+                  {change.field}: &quot;{change.from ?? '-'}&quot; → &quot;{change.to ?? '-'}&quot;
+                </span>
               ))}
             </div>
-          </div>
 
-          {/* Diff View */}
-          <div className="flex-1 flex overflow-hidden">
-            {/* Version Column */}
-            <div className="flex-1 flex flex-col border-r border-forvis-gray-200">
-              <div className="px-4 py-3 bg-forvis-blue-50 border-b border-forvis-blue-200">
-                <div className="flex items-center gap-2">
-                  <ArrowLeft className="w-4 h-4 text-forvis-blue-600" />
-                  <h4 className="text-sm font-semibold text-forvis-blue-900">
-                    Version {versionData.version}
-                  </h4>
+            <div className="flex-1 overflow-hidden flex">
+              {/* Section Navigator */}
+              <div className="w-72 border-r border-forvis-gray-200 overflow-y-auto p-4">
+                <h3 className="text-sm font-semibold text-forvis-gray-900 mb-2">
+                  Sections
+                </h3>
+                <div className="space-y-1">
+                  {comparison.sections.map((section) => (
+                    <button
+                      key={section.sectionKey}
+                      onClick={() => setSelectedSectionKey(section.sectionKey)}
+                      className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                        selectedSectionKey === section.sectionKey
+                          ? 'bg-forvis-blue-100 text-forvis-blue-900 font-medium'
+                          : 'hover:bg-forvis-gray-100 text-forvis-gray-700'
+                      }`}
+                    >
+                      <span className="block truncate">{section.toTitle ?? section.fromTitle}</span>
+                      <span className="mt-1 flex items-center gap-1">
+                        <span
+                          className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${STATUS_STYLES[section.status].className}`}
+                        >
+                          {STATUS_STYLES[section.status].label}
+                        </span>
+                        {section.moved && (
+                          <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-purple-100 text-purple-800">
+                            <ArrowUpDown className="w-3 h-3 mr-0.5" />
+                            {section.fromPosition} → {section.toPosition}
+                          </span>
+                        )}
+                      </span>
+                    </button>
+                  ))}
                 </div>
               </div>
-              <div className="flex-1 overflow-y-auto p-4">
-                {selectedVersionSection && (
-                  <DiffContent
-                    content={selectedVersionSection.content}
-                    compareContent={selectedCurrentSection?.content || ''}
-                    isLeft={true}
-                  />
-                )}
-              </div>
-            </div>
 
-            {/* Current Column */}
-            <div className="flex-1 flex flex-col">
-              <div className="px-4 py-3 bg-green-50 border-b border-green-200">
-                <div className="flex items-center gap-2">
-                  <h4 className="text-sm font-semibold text-green-900">
-                    Current Template
-                  </h4>
-                  <ArrowRight className="w-4 h-4 text-green-600" />
-                </div>
-              </div>
-              <div className="flex-1 overflow-y-auto p-4">
-                {selectedCurrentSection && selectedVersionSection ? (
-                  <DiffContent
-                    content={selectedCurrentSection.content}
-                    compareContent={selectedVersionSection.content}
-                    isLeft={false}
-                  />
-                ) : (
-                  <div className="text-center py-8 text-sm text-forvis-gray-500">
-                    Section not found in current template
+              {/* Diff View */}
+              <div className="flex-1 flex flex-col overflow-hidden">
+                {selected && (selected.settingsChanged.length > 0 || selected.wordsAdded + selected.wordsRemoved > 0) && (
+                  <div className="px-4 py-2 border-b border-forvis-gray-200 text-xs text-forvis-gray-600">
+                    {selected.wordsAdded > 0 && <span className="mr-3 text-green-700">+{selected.wordsAdded} words</span>}
+                    {selected.wordsRemoved > 0 && <span className="mr-3 text-red-700">-{selected.wordsRemoved} words</span>}
+                    {selected.settingsChanged.length > 0 && <span>Settings changed: {selected.settingsChanged.join(', ')}</span>}
                   </div>
                 )}
+                <div className="flex-1 flex overflow-hidden">
+                  {/* From Column */}
+                  <div className="flex-1 flex flex-col border-r border-forvis-gray-200">
+                    <div className="px-4 py-3 bg-forvis-blue-50 border-b border-forvis-blue-200">
+                      <div className="flex items-center gap-2">
+                        <ArrowLeft className="w-4 h-4 text-forvis-blue-600" />
+                        <h4 className="text-sm font-semibold text-forvis-blue-900">
+                          {comparison.from.label}
+                        </h4>
+                      </div>
+                    </div>
+                    <div className="flex-1 overflow-y-auto p-4">
+                      {selected?.status === 'added' ? (
+                        <div className="text-center py-8 text-sm text-forvis-gray-500">
+                          Section not in {comparison.from.label.toLowerCase()}
+                        </div>
+                      ) : (
+                        selected && <DiffContent parts={selected.diff} side="from" />
+                      )}
+                    </div>
+                  </div>
+
+                  {/* To Column */}
+                  <div className="flex-1 flex flex-col">
+                    <div className="px-4 py-3 bg-green-50 border-b border-green-200">
+                      <div className="flex items-center gap-2">
+                        <h4 className="text-sm font-semibold text-green-900">
+                          {comparison.to.label}
+                        </h4>
+                        <ArrowRight className="w-4 h-4 text-green-600" />
+                      </div>
+                    </div>
+                    <div className="flex-1 overflow-y-auto p-4">
+                      {selected?.status === 'removed' ? (
+                        <div className="text-center py-8 text-sm text-forvis-gray-500">
+                          Section not in {comparison.to.label.toLowerCase()}
+                        </div>
+                      ) : (
+                        selected && <DiffContent parts={selected.diff} side="to" />
+                      )}
+                    </div>
+                  </div>
+                </div>
               </div>
             </div>
-          </div>
-        </div>
+          </>
+        )}
 
         {/* Footer */}
         <div className="px-6 py-4 border-t border-forvis-gray-200 flex justify-end">
@@ -206,38 +232,29 @@ export function VersionDiffViewer({
 }
 
 interface DiffContentProps {
-  content: string;
-  compareContent: string;
-  isLeft: boolean;
+  parts: VersionDiffPart[];
+  side: 'from' | 'to';
 }
 
-function DiffContent({ content, compareContent, isLeft }: DiffContentProps) {
-  const diff = diffWords(isLeft ? content : compareContent, isLeft ? compareContent : content);
-
+function DiffContent({ parts, side }: DiffContentProps) {
   return (
-    <div className="prose prose-sm max-w-none">
-      {diff.map((part, index) => {
-        if (part.added && !isLeft) {
-          return (
-            <span
-              key={index}
-              className="bg-green-100 text-green-900 px-1 rounded"
-            >
+    <div className="prose prose-sm max-w-none whitespace-pre-wrap">
+      {parts.map((part, index) => {
+        if (part.added) {
+          return side === 'to' ? (
+            <span key={index} className="bg-green-100 text-green-900 px-1 rounded">
               {part.value}
             </span>
-          );
+          ) : null;
         }
-        if (part.removed && isLeft) {
-          return (
+        if (part.removed) {
+          return side === 'from' ? (
             <span key={index} className="bg-red-100 text-red-900 px-1 rounded line-through">
               {part.value}
             </span>
-          );
-        }
-        if (!part.added && !part.removed) {
-          return <span key={index}>{part.value}</span>;
+          ) : null;
         }
-        return null;
+        return <span key={index}>{part.value}</span>;
       })}
     </div>
   );
@@ -11,10 +11,15 @@ import {
   ChevronDown,
   ChevronUp,
   GitCompare,
+  CopyPlus,
 } from 'lucide-react';
 import { Button } from '@/components/ui';
 import { VersionHistoryItem } from '@/lib/services/templates/templateVersionService';
-import { useActivateVersion, useRestoreVersion } from '@/hooks/templates/useTemplateVersions';
+import {
+  useActivateVersion,
+  useRestoreVersion,
+  useRestoreVersionAsNew,
+} from '@/hooks/templates/useTemplateVersions';
 
 interface VersionTimelineProps {
   versions: VersionHistoryItem[];
@@ -91,6 +96,10 @@ function VersionCard({
     templateId,
     version.id
   );
+  const { restoreVersionAsNew, isRestoringAsNew } = useRestoreVersionAsNew(
+    templateId,
+    version.id
+  );
 
   const handleActivate = async () => {
     if (
@@ -126,6 +135,23 @@ function VersionCard({
     }
   };
 
+  const handleRestoreAsNew = async () => {
+    if (
+      !window.confirm(
+        `Restore version ${version.version} as a new version? Its sections replace the current template and are saved straight away as the new active version. Earlier versions are kept.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await restoreVersionAsNew();
+      onRestored();
+    } catch (error) {
+      console.error('Failed to restore version as new version:', error);
+    }
+  };
+
   return (
     <div
       className={`relative rounded-lg border-2 ${
@@ -239,6 +265,15 @@ function VersionCard({
                   <RotateCcw className="w-4 h-4 mr-1" />
                   {isRestoring ? 'Restoring...' : 'Restore'}
                 </Button>
+                <Button
+                  onClick={handleRestoreAsNew}
+                  disabled={isRestoringAsNew}
+                  variant="secondary"
+                  size="sm"
+                >
+                  <CopyPlus className="w-4 h-4 mr-1" />
+                  {isRestoringAsNew ? 'Restoring...' : 'Restore as New'}
+                </Button>
               </>
             )}
             <Button onClick={onCompare} variant="secondary" size="sm">
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, Check, ChevronDown, ChevronUp } from 'lucide-react';
+import { Banner } from '@/components/ui';
+import { useVersionUsage } from '@/hooks/templates/useTemplateVersions';
+import { VersionUsageLetter } from '@/lib/services/templates/templateVersionService';
+
+interface VersionUsageReportProps {
+  templateId: number;
+}
+
+const formatDate = (date: Date | string | null) =>
+  date
+    ? new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+    : '-';
+
+export function VersionUsageReport({ templateId }: VersionUsageReportProps) {
+  const { usage, isLoading, error } = useVersionUsage(templateId);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (key: string) => {
+    const next = new Set(expanded);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setExpanded(next);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-forvis-blue-600" />
+      </div>
+    );
+  }
+
+  if (error || !usage) {
+    return <Banner variant="error" message={error || 'Failed to load version usage'} />;
+  }
+
+  const rows = [
+    ...usage.versions.map((v) => ({
+      key: String(v.versionId),
+      label: `v${v.version}`,
+      isActive: v.isActive,
+      outdated: !v.matchesActive,
+      letters: v.letters,
+    })),
+    ...(usage.unversioned.length > 0
+      ? [{
+          key: 'unversioned',
+          label: 'Before versioning',
+          isActive: false,
+          outdated: usage.activeVersion !== null,
+          letters: usage.unversioned,
+        }]
+      : []),
+  ];
+
+  return (
+    <div className="space-y-4">
+      {usage.outdatedLetterCount > 0 ? (
+        <Banner
+          variant="warning"
+          message={`${usage.outdatedLetterCount} engagement letter${usage.outdatedLetterCount !== 1 ? 's were' : ' was'} generated from wording that differs from the active version${usage.activeVersion !== null ? ` (v${usage.activeVersion})` : ''}.`}
+        />
+      ) : (
+        <p className="text-sm text-forvis-gray-600">
+          Every generated engagement letter uses the active wording.
+        </p>
+      )}
+
+      <div className="rounded-lg border-2 border-forvis-gray-200 divide-y divide-forvis-gray-200">
+        {rows.map((row) => (
+          <div key={row.key}>
+            <button
+              onClick={() => toggle(row.key)}
+              disabled={row.letters.length === 0}
+              className="w-full px-4 py-3 flex items-center justify-between text-left hover:bg-forvis-gray-50 disabled:hover:bg-white disabled:cursor-default"
+            >
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-semibold text-forvis-gray-900">{row.label}</span>
+                {row.isActive ? (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                    <Check className="w-3 h-3 mr-1" />
+                    Active
+                  </span>
+                ) : row.outdated ? (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    Outdated wording
+                  </span>
+                ) : (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-forvis-gray-100 text-forvis-gray-700">
+                    Same wording as active
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2 text-xs text-forvis-gray-600">
+                {row.letters.length} letter{row.letters.length !== 1 ? 's' : ''}
+                {row.letters.length > 0 &&
+                  (expanded.has(row.key) ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
+              </div>
+            </button>
+
+            {expanded.has(row.key) && <UsageLetters letters={row.letters} />}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function UsageLetters({ letters }: { letters: VersionUsageLetter[] }) {
+  return (
+    <div className="px-4 pb-3 overflow-x-auto">
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="text-left text-forvis-gray-500">
+            <th className="py-1 pr-4 font-medium">Task</th>
+            <th className="py-1 pr-4 font-medium">Client</th>
+            <th className="py-1 pr-4 font-medium">Generated</th>
+            <th className="py-1 pr-4 font-medium">By</th>
+            <th className="py-1 font-medium">Signed</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-forvis-gray-100">
+          {letters.map((letter) => (
+            <tr key={letter.taskId}>
+              <td className="py-1.5 pr-4">
+                <Link
+                  href={`/dashboard/tasks/${letter.taskId}`}
+                  className="text-forvis-blue-600 hover:text-forvis-blue-800"
+                >
+                  {letter.taskCode}
+                </Link>
+                <span className="ml-2 text-forvis-gray-700">{letter.taskName}</span>
+              </td>
+              <td className="py-1.5 pr-4 text-forvis-gray-700">
+                {letter.clientName ?? letter.clientCode ?? '-'}
+              </td>
+              <td className="py-1.5 pr-4 text-forvis-gray-700">{formatDate(letter.generatedAt)}</td>
+              <td className="py-1.5 pr-4 text-forvis-gray-700">{letter.generatedBy ?? '-'}</td>
+              <td className="py-1.5 text-forvis-gray-700">{letter.signed ? 'Yes' : 'No'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
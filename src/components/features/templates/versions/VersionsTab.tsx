@@ -1,12 +1,13 @@
 'use client';
 
 import { useState } from 'react';
-import { Plus, Filter } from 'lucide-react';
+import { Plus, Filter, BarChart3 } from 'lucide-react';
 import { Button, Banner } from '@/components/ui';
 import { useTemplateVersions } from '@/hooks/templates/useTemplateVersions';
 import { VersionTimeline } from './VersionTimeline';
 import { CreateVersionModal } from './CreateVersionModal';
 import { VersionDiffViewer } from './VersionDiffViewer';
+import { VersionUsageReport } from './VersionUsageReport';
 
 interface VersionsTabProps {
   templateId: number;
@@ -18,6 +19,7 @@ export function VersionsTab({ templateId }: VersionsTabProps) {
   const [showDiffModal, setShowDiffModal] = useState(false);
   const [compareVersionId, setCompareVersionId] = useState<number | null>(null);
   const [filterActiveOnly, setFilterActiveOnly] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string>('');
 
   const filteredVersions = filterActiveOnly
@@ -80,6 +82,14 @@ export function VersionsTab({ templateId }: VersionsTabProps) {
         </div>
 
         <div className="flex items-center gap-2">
+          <Button
+            onClick={() => setShowUsage(!showUsage)}
+            variant="secondary"
+            size="sm"
+          >
+            <BarChart3 className="w-4 h-4 mr-1" />
+            {showUsage ? 'Version History' : 'Usage Report'}
+          </Button>
           <Button
             onClick={() => setFilterActiveOnly(!filterActiveOnly)}
             variant="secondary"
@@ -101,8 +111,10 @@ export function VersionsTab({ templateId }: VersionsTabProps) {
         </div>
       </div>
 
-      {/* Version Timeline */}
-      {isLoading ? (
+      {/* Usage Report / Version Timeline */}
+      {showUsage ? (
+        <VersionUsageReport templateId={templateId} />
+      ) : isLoading ? (
         <div className="flex items-center justify-center py-12">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-forvis-blue-600" />
         </div>
@@ -144,6 +156,7 @@ export function VersionsTab({ templateId }: VersionsTabProps) {
       {showDiffModal && compareVersionId && (
         <VersionDiffViewer
           templateId={templateId}
+          versions={versions}
           versionId={compareVersionId}
           onClose={() => {
             setShowDiffModal(false);
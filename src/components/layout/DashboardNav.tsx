@@ -44,6 +44,9 @@ export default function DashboardNav() {
   const { hasFeature: hasToolsAccess } = useFeature(Feature.MANAGE_TOOLS);
   const { hasFeature: hasVaultManagementAccess } = useFeature(Feature.MANAGE_VAULT_DOCUMENTS);
   const { hasFeature: hasDatabaseAccess } = useFeature(Feature.MANAGE_DATABASE);
+  const { hasFeature: hasApprovalRoutesAccess } = useFeature(Feature.MANAGE_APPROVAL_ROUTES);
+  const { hasFeature: hasFinancialMappingAccess } = useFeature(Feature.MANAGE_FINANCIAL_MAPPING);
+  const { hasFeature: hasQuestionnaireAccess } = useFeature(Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES);
 
   // Fetch external links with React Query caching
   const { data: externalLinks = [] } = useExternalLinks();
@@ -172,6 +175,32 @@ export default function DashboardNav() {
       section: 'Content & Tools',
     });
   }
+  if (hasApprovalRoutesAccess) {
+    adminMenuItems.push({
+      label: 'Approval Routes',
+      href: '/dashboard/admin/approval-routes',
+      description: 'Design and version approval routes',
+      section: 'Content & Tools',
+    });
+  }
+
+  if (hasFinancialMappingAccess) {
+    adminMenuItems.push({
+      label: 'Financial Statement Mapping',
+      href: '/dashboard/admin/financial-statements',
+      description: 'Map GL accounts to statement lines',
+      section: 'Content & Tools',
+    });
+  }
+
+  if (hasQuestionnaireAccess) {
+    adminMenuItems.push({
+      label: 'Acceptance Questionnaires',
+      href: '/dashboard/admin/acceptance-questionnaires',
+      description: 'Edit and publish questionnaire versions',
+      section: 'Content & Tools',
+    });
+  }
   
   // Integration & Support section
   if (hasExternalLinksAccess) {
@@ -190,6 +219,20 @@ export default function DashboardNav() {
       section: 'Integration & Support',
     });
   }
+  if (hasDatabaseAccess) {
+    adminMenuItems.push({
+      label: 'Queue Management',
+      href: '/dashboard/admin/queues',
+      description: 'Monitor background jobs and replay failures',
+      section: 'Integration & Support',
+    });
+    adminMenuItems.push({
+      label: 'Scheduled Jobs',
+      href: '/dashboard/admin/schedules',
+      description: 'Pause, resume and trigger recurring jobs',
+      section: 'Integration & Support',
+    });
+  }
   if (hasAdminAccess) {
     adminMenuItems.push({
       label: 'Bug Reports',
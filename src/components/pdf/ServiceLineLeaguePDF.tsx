@@ -0,0 +1,203 @@
+import React from 'react';
+import { Document, Page, Text, View, StyleSheet, Svg, Polyline } from '@react-pdf/renderer';
+import { LEAGUE_METRICS, type LeagueMetric, type LeagueMetricValue, type ServiceLineLeagueReport } from '@/types/exco';
+import { formatAmount } from '../../lib/utils/formatters';
+
+const styles = StyleSheet.create({
+    page: {
+        padding: 30,
+        fontFamily: 'Helvetica',
+        fontSize: 10,
+        color: '#333',
+    },
+    header: {
+        marginBottom: 20,
+    },
+    title: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        marginBottom: 6,
+    },
+    subtitle: {
+        fontSize: 11,
+        color: '#666',
+    },
+    sectionTitle: {
+        fontSize: 14,
+        fontWeight: 'bold',
+        marginTop: 16,
+        marginBottom: 8,
+        color: '#2E5AAC', // Brand blue
+        borderBottomWidth: 1,
+        borderBottomColor: '#2E5AAC',
+        paddingBottom: 4,
+    },
+    table: {
+        width: '100%',
+        borderStyle: 'solid',
+        borderWidth: 1,
+        borderColor: '#bfbfbf',
+        marginBottom: 10,
+    },
+    tableRow: {
+        flexDirection: 'row',
+        borderBottomColor: '#bfbfbf',
+        borderBottomWidth: 1,
+        minHeight: 24,
+        alignItems: 'center',
+    },
+    tableHeader: {
+        backgroundColor: '#5B93D7',
+        color: '#fff',
+        fontWeight: 'bold',
+    },
+    tableFooter: {
+        backgroundColor: '#2E5AAC',
+        color: '#fff',
+        fontWeight: 'bold',
+    },
+    tableCell: {
+        padding: 4,
+        fontSize: 8,
+    },
+    textRight: {
+        textAlign: 'right',
+    },
+    textCenter: {
+        textAlign: 'center',
+    },
+    delta: {
+        fontSize: 7,
+    },
+    positive: {
+        color: '#15803D',
+    },
+    negative: {
+        color: '#B91C1C',
+    },
+    muted: {
+        color: '#666',
+        fontSize: 7,
+    },
+});
+
+const METRICS = Object.keys(LEAGUE_METRICS) as LeagueMetric[];
+const SPARKLINE_WIDTH = 60;
+const SPARKLINE_HEIGHT = 14;
+
+function formatValue(metric: LeagueMetric, value: number | null): string {
+    if (value === null) return '-';
+    const { unit } = LEAGUE_METRICS[metric];
+    if (unit === 'currency') return formatAmount(value);
+    if (unit === 'percent') return `${value.toFixed(1)}%`;
+    return `${Math.round(value)}d`;
+}
+
+function formatDelta(metric: LeagueMetric, delta: number | null): string {
+    if (delta === null) return '';
+    const sign = delta > 0 ? '+' : '';
+    const { unit } = LEAGUE_METRICS[metric];
+    if (metric === 'revenue') return `${sign}${delta.toFixed(1)}%`;
+    return unit === 'percent' ? `${sign}${delta.toFixed(1)}pp` : `${sign}${delta.toFixed(1)}d`;
+}
+
+function sparklinePoints(values: number[]): string {
+    if (values.length < 2) return '';
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min || 1;
+    const step = SPARKLINE_WIDTH / (values.length - 1);
+    return values
+        .map((value, i) => `${(i * step).toFixed(1)},${(SPARKLINE_HEIGHT - ((value - min) / range) * SPARKLINE_HEIGHT).toFixed(1)}`)
+        .join(' ');
+}
+
+const MetricCell: React.FC<{ metric: LeagueMetric; value: LeagueMetricValue; footer?: boolean }> = ({ metric, value, footer }) => {
+    const improved = value.delta !== null && value.delta !== 0 && (value.delta > 0) === LEAGUE_METRICS[metric].higherIsBetter;
+    return (
+        <View style={[styles.tableCell, { flex: 1.5 }]}>
+            <Text style={styles.textRight}>{formatValue(metric, value.value)}</Text>
+            <Text
+                style={[
+                    styles.textRight,
+                    styles.delta,
+                    ...(footer || value.delta === null || value.delta === 0 ? [] : [improved ? styles.positive : styles.negative]),
+                ]}
+            >
+                {formatDelta(metric, value.delta)}
+                {value.rank !== null ? `  #${value.rank}` : ''}
+            </Text>
+        </View>
+    );
+};
+
+interface ServiceLineLeaguePDFProps {
+    report: ServiceLineLeagueReport;
+}
+
+export const ServiceLineLeaguePDF: React.FC<ServiceLineLeaguePDFProps> = ({ report }) => {
+    const levelLabel = report.level === 'serviceLine' ? 'Service Lines' : 'Sub-Service Line Groups';
+
+    return (
+        <Document>
+            <Page size="A4" orientation="landscape" style={styles.page}>
+                <View style={styles.header}>
+                    <Text style={styles.title}>Service Line Performance</Text>
+                    <Text style={styles.subtitle}>
+                        {levelLabel} - {report.period.label} compared with {report.comparisonPeriod.label}
+                    </Text>
+                    <Text style={styles.subtitle}>Generated {new Date().toLocaleDateString('en-ZA')}</Text>
+                </View>
+
+                <Text style={styles.sectionTitle}>LEAGUE TABLE</Text>
+                <View style={styles.table}>
+                    <View style={[styles.tableRow, styles.tableHeader]} fixed>
+                        <Text style={[styles.tableCell, styles.textCenter, { flex: 0.5 }]}>#</Text>
+                        <Text style={[styles.tableCell, { flex: 3 }]}>
+                            {report.level === 'serviceLine' ? 'Service Line' : 'Sub-Service Line Group'}
+                        </Text>
+                        {METRICS.map((metric) => (
+                            <Text key={metric} style={[styles.tableCell, styles.textRight, { flex: 1.5 }]}>
+                                {LEAGUE_METRICS[metric].label}
+                            </Text>
+                        ))}
+                        <Text style={[styles.tableCell, styles.textCenter, { flex: 1.5 }]}>Revenue Trend</Text>
+                    </View>
+                    {report.rows.map((row) => (
+                        <View key={row.key} style={styles.tableRow} wrap={false}>
+                            <Text style={[styles.tableCell, styles.textCenter, { flex: 0.5 }]}>{row.rank}</Text>
+                            <View style={[styles.tableCell, { flex: 3 }]}>
+                                <Text>{row.name}</Text>
+                                {row.parentName && <Text style={styles.muted}>{row.parentName}</Text>}
+                                {row.averageRank !== null && <Text style={styles.muted}>Average rank {row.averageRank}</Text>}
+                            </View>
+                            {METRICS.map((metric) => (
+                                <MetricCell key={metric} metric={metric} value={row.metrics[metric]} />
+                            ))}
+                            <View style={[styles.tableCell, { flex: 1.5, alignItems: 'center' }]}>
+                                <Svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT}>
+                                    <Polyline
+                                        points={sparklinePoints(row.trend.map((point) => point.revenue))}
+                                        stroke="#2E5AAC"
+                                        strokeWidth={1}
+                                        fill="none"
+                                    />
+                                </Svg>
+                            </View>
+                        </View>
+                    ))}
+                    <View style={[styles.tableRow, styles.tableFooter]} wrap={false}>
+                        <Text style={[styles.tableCell, { flex: 3.5 }]}>FIRM</Text>
+                        {METRICS.map((metric) => (
+                            <MetricCell key={metric} metric={metric} value={report.totals[metric]} footer />
+                        ))}
+                        <Text style={[styles.tableCell, { flex: 1.5 }]} />
+                    </View>
+                </View>
+                <Text style={styles.muted}>
+                    Deltas compare with {report.comparisonPeriod.label}: revenue as growth, percentages in percentage points
+                    and days as a difference. Ranks are per metric (1 is best); the league position orders on the average rank.
+                </Text>
+            </Page>
+        </Document>
+    );
+};
@@ -0,0 +1,264 @@
+'use client';
+
+import { useState } from 'react';
+import { formatAmount } from '@/lib/utils/formatters';
+import type { AccountVariance, MappingStrategy, RollForwardReport } from '@/lib/tools/tax-calculation/types';
+import { useRollForwardPreview, useRollForwardTask } from '../hooks/useTaxCalculation';
+
+interface RollForwardModalProps {
+  isOpen: boolean;
+  taskId: string;
+  onClose: () => void;
+}
+
+function VarianceList({ title, items, emptyText }: { title: string; items: AccountVariance[]; emptyText: string }) {
+  return (
+    <div>
+      <h4 className="text-sm font-bold text-forvis-gray-800 mb-2">
+        {title} <span className="font-normal text-forvis-gray-500">({items.length})</span>
+      </h4>
+      {items.length === 0 ? (
+        <p className="text-xs text-forvis-gray-500">{emptyText}</p>
+      ) : (
+        <div className="max-h-40 overflow-y-auto border border-forvis-gray-200 rounded-lg divide-y divide-forvis-gray-100">
+          {items.map((item) => (
+            <div key={item.accountCode} className="grid grid-cols-12 gap-2 px-3 py-1.5 text-xs">
+              <div className="col-span-2 font-mono text-forvis-gray-700">{item.accountCode}</div>
+              <div className="col-span-4 text-forvis-gray-900 truncate">{item.accountName}</div>
+              <div className="col-span-4 text-forvis-gray-600 truncate">
+                {item.priorSarsItem && item.currentSarsItem
+                  ? `${item.currentSarsItem} → ${item.priorSarsItem}`
+                  : item.currentSarsItem ?? item.priorSarsItem}
+              </div>
+              <div className="col-span-2 text-right tabular-nums text-forvis-gray-900">
+                {formatAmount(item.currentBalance ?? item.priorBalance ?? 0)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReportSummary({ report }: { report: RollForwardReport }) {
+  const { accounts, adjustments, openingPositions } = report;
+  const skippedCounts = new Map<string, number>();
+  for (const { reason } of adjustments.skipped) {
+    skippedCounts.set(reason, (skippedCounts.get(reason) ?? 0) + 1);
+  }
+  const skippedByReason = Array.from(skippedCounts);
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="rounded-lg border-2 border-forvis-blue-200 bg-forvis-blue-50 p-3">
+          <p className="text-xs text-forvis-gray-600">Accounts</p>
+          <p className="text-lg font-bold text-forvis-blue-900">
+            {accounts.seeded ? `${accounts.created} created` : `${accounts.matched} matched`}
+          </p>
+        </div>
+        <div className="rounded-lg border-2 border-forvis-blue-200 bg-forvis-blue-50 p-3">
+          <p className="text-xs text-forvis-gray-600">Adjustments carried</p>
+          <p className="text-lg font-bold text-forvis-blue-900">{adjustments.carried.length}</p>
+        </div>
+        <div className="rounded-lg border-2 border-forvis-blue-200 bg-forvis-blue-50 p-3">
+          <p className="text-xs text-forvis-gray-600">Opening assessed loss</p>
+          <p className="text-lg font-bold text-forvis-blue-900">
+            {openingPositions.imported ? formatAmount(openingPositions.assessedLossBroughtForward) : '-'}
+          </p>
+        </div>
+      </div>
+
+      {accounts.seeded ? (
+        <p className="text-sm text-forvis-gray-700">
+          This task has no mapped accounts yet. The prior year&apos;s accounts will be created with their mappings and
+          prior year balances, ready for this year&apos;s trial balance.
+        </p>
+      ) : (
+        <>
+          <VarianceList title="New accounts" items={accounts.appeared} emptyText="No new accounts" />
+          <VarianceList title="Accounts no longer present" items={accounts.disappeared} emptyText="No accounts dropped" />
+          <VarianceList
+            title={report.mappingStrategy === 'PRIOR_YEAR' ? 'Mappings reset to prior year' : 'Mappings that differ from prior year'}
+            items={accounts.remapped}
+            emptyText="All matched accounts use the prior year mapping"
+          />
+        </>
+      )}
+
+      <div>
+        <h4 className="text-sm font-bold text-forvis-gray-800 mb-2">
+          Recurring adjustments <span className="font-normal text-forvis-gray-500">(proposed as suggestions)</span>
+        </h4>
+        {adjustments.carried.length === 0 ? (
+          <p className="text-xs text-forvis-gray-500">No recurring adjustments to carry forward</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto border border-forvis-gray-200 rounded-lg divide-y divide-forvis-gray-100">
+            {adjustments.carried.map((adj) => (
+              <div key={adj.sourceAdjustmentId} className="grid grid-cols-12 gap-2 px-3 py-1.5 text-xs">
+                <div className="col-span-2 font-medium text-forvis-gray-700">{adj.type}</div>
+                <div className="col-span-6 text-forvis-gray-900 truncate">{adj.description}</div>
+                <div className="col-span-2 text-right tabular-nums text-forvis-gray-500">{formatAmount(adj.priorAmount)}</div>
+                <div className="col-span-2 text-right tabular-nums font-medium text-forvis-gray-900">
+                  {formatAmount(adj.amount)}
+                  {adj.recalculated && <span className="ml-1 text-forvis-blue-600" title="Recalculated from this year's balance">*</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {skippedByReason.map(([reason, count]) => (
+          <p key={reason} className="text-xs text-forvis-gray-500 mt-1">
+            {count} adjustment{count === 1 ? '' : 's'} skipped - {reason.toLowerCase()}
+          </p>
+        ))}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-bold text-forvis-gray-800 mb-2">Opening positions</h4>
+        {openingPositions.imported ? (
+          <p className="text-xs text-forvis-gray-700">
+            Assessed loss brought forward {formatAmount(openingPositions.assessedLossBroughtForward)} and{' '}
+            {openingPositions.capitalAssets.length} asset{openingPositions.capitalAssets.length === 1 ? '' : 's'} with
+            remaining tax value
+          </p>
+        ) : (
+          <p className="text-xs text-forvis-gray-500">{openingPositions.note}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Roll a tax calculation task forward from the prior year's task
+ */
+export default function RollForwardModal({ isOpen, taskId, onClose }: RollForwardModalProps) {
+  const [sourceTaskId, setSourceTaskId] = useState<number | undefined>(undefined);
+  const [mappingStrategy, setMappingStrategy] = useState<MappingStrategy>('PRIOR_YEAR');
+  const [result, setResult] = useState<RollForwardReport | null>(null);
+
+  const { data, isLoading, error } = useRollForwardPreview(taskId, sourceTaskId, mappingStrategy, isOpen && !result);
+  const rollForward = useRollForwardTask(taskId);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setResult(null);
+    setSourceTaskId(undefined);
+    rollForward.reset();
+    onClose();
+  };
+
+  const handleRollForward = async () => {
+    try {
+      const report = await rollForward.mutateAsync({
+        sourceTaskId: sourceTaskId ?? data?.preview?.sourceTask.id,
+        mappingStrategy,
+      });
+      setResult(report);
+    } catch {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const errorMessage = (rollForward.error ?? error)?.message;
+  const report = result ?? data?.preview ?? null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-corporate-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto border-2 border-forvis-blue-700">
+        <div
+          className="p-6 sticky top-0 z-10 border-b-4 border-forvis-blue-900 shadow-corporate"
+          style={{ background: 'linear-gradient(to right, #2E5AAC, #25488A)' }}
+        >
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-white">Roll Forward from Prior Year</h2>
+            <button onClick={handleClose} className="text-white hover:text-gray-200 transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {errorMessage && (
+            <div className="bg-red-50 border-2 border-red-300 rounded-lg p-4 shadow-corporate">
+              <p className="text-sm font-medium text-red-800">{errorMessage}</p>
+            </div>
+          )}
+
+          {result && (
+            <div className="bg-green-50 border-2 border-green-300 rounded-lg p-4 shadow-corporate">
+              <p className="text-sm font-medium text-green-800">
+                Rolled forward from {result.sourceTask.TaskCode} ({result.sourceTask.taskYear}). Review the proposed
+                adjustments before approving them.
+              </p>
+            </div>
+          )}
+
+          {!result && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-bold text-gray-800 mb-2">Prior-year task</label>
+                <select
+                  value={sourceTaskId ?? data?.preview?.sourceTask.id ?? ''}
+                  onChange={(e) => setSourceTaskId(e.target.value ? Number(e.target.value) : undefined)}
+                  disabled={isLoading || !data?.candidates.length}
+                  className="w-full px-3 py-2 bg-white text-gray-900 border-2 border-forvis-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-forvis-blue-500"
+                >
+                  {!data?.candidates.length && <option value="">No prior-year tasks</option>}
+                  {data?.candidates.map((candidate) => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidate.taskYear} - {candidate.TaskCode} {candidate.TaskDesc} ({candidate.mappedAccountCount} accounts)
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-gray-800 mb-2">Account mappings</label>
+                <select
+                  value={mappingStrategy}
+                  onChange={(e) => setMappingStrategy(e.target.value as MappingStrategy)}
+                  className="w-full px-3 py-2 bg-white text-gray-900 border-2 border-forvis-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-forvis-blue-500"
+                >
+                  <option value="PRIOR_YEAR">Use prior year mappings</option>
+                  <option value="KEEP_CURRENT">Keep current mappings</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          {isLoading && !result ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-forvis-blue-600"></div>
+            </div>
+          ) : (
+            report && <ReportSummary report={report} />
+          )}
+
+          <div className="flex justify-end gap-3 pt-2 border-t border-forvis-gray-200">
+            <button
+              onClick={handleClose}
+              className="px-5 py-2.5 text-sm font-semibold bg-white text-forvis-blue-900 rounded-lg hover:bg-forvis-blue-50 transition-colors border-2 border-forvis-blue-300"
+            >
+              {result ? 'Close' : 'Cancel'}
+            </button>
+            {!result && (
+              <button
+                onClick={handleRollForward}
+                disabled={!data?.preview || rollForward.isPending}
+                className="px-5 py-2.5 text-sm font-semibold text-white rounded-lg shadow-corporate-md disabled:cursor-not-allowed disabled:opacity-60"
+                style={{ backgroundColor: '#2E5AAC' }}
+              >
+                {rollForward.isPending ? 'Rolling forward...' : 'Roll Forward'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
 'use client';
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  MappingStrategy,
+  RollForwardCandidate,
+  RollForwardReport,
+  TaxComputationOptions,
+  TaxComputationResult,
+} from '@/lib/tools/tax-calculation/types';
 
 // Query Keys
 export const taxCalculationKeys = {
@@ -9,6 +16,8 @@ export const taxCalculationKeys = {
   adjustments: (taskId: string) => [...taxCalculationKeys.all(taskId), 'adjustments'] as const,
   adjustment: (taskId: string, adjustmentId: string) =>
     [...taxCalculationKeys.adjustments(taskId), adjustmentId] as const,
+  rollForward: (taskId: string, sourceTaskId?: number, mappingStrategy?: string) =>
+    [...taxCalculationKeys.all(taskId), 'roll-forward', sourceTaskId ?? 'auto', mappingStrategy ?? 'PRIOR_YEAR'] as const,
 };
 
 export interface TaxAdjustment {
@@ -241,41 +250,77 @@ export function useGenerateTaxSuggestions(taskId: string) {
   });
 }
 
+/**
+ * Run the SARS income tax computation for a year of assessment
+ */
+export function useComputeTax(taskId: string) {
+  return useMutation<TaxComputationResult, Error, TaxComputationOptions>({
+    mutationFn: async (options) => {
+      const response = await fetch(`/api/tasks/${taskId}/tax-calculation/compute`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to compute tax');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+  });
+}
 
+/**
+ * Prior-year tasks and a preview of the roll-forward variance report
+ */
+export function useRollForwardPreview(
+  taskId: string,
+  sourceTaskId: number | undefined,
+  mappingStrategy: MappingStrategy,
+  enabled: boolean = true
+) {
+  return useQuery<{ candidates: RollForwardCandidate[]; preview: RollForwardReport | null }>({
+    queryKey: taxCalculationKeys.rollForward(taskId, sourceTaskId, mappingStrategy),
+    queryFn: async () => {
+      const searchParams = new URLSearchParams({ mappingStrategy });
+      if (sourceTaskId) searchParams.set('sourceTaskId', String(sourceTaskId));
+      const response = await fetch(`/api/tasks/${taskId}/tax-calculation/roll-forward?${searchParams}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to load roll-forward preview');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+    enabled: !!taskId && enabled,
+    staleTime: 0,
+  });
+}
 
+/**
+ * Roll the task forward from a prior-year task
+ */
+export function useRollForwardTask(taskId: string) {
+  const queryClient = useQueryClient();
 
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
+  return useMutation<RollForwardReport, Error, { sourceTaskId?: number; mappingStrategy: MappingStrategy }>({
+    mutationFn: async (data) => {
+      const response = await fetch(`/api/tasks/${taskId}/tax-calculation/roll-forward`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to roll forward task');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+    onSuccess: () => {
+      // Mapped accounts, adjustments and the computation all change
+      queryClient.invalidateQueries({ queryKey: ['tasks', taskId] });
+    },
+  });
+}
@@ -3,6 +3,7 @@ export { default as TaxAdjustmentCard } from './components/TaxAdjustmentCard';
 export { default as AddAdjustmentModal } from './components/AddAdjustmentModal';
 export { default as RemappingModal } from './components/RemappingModal';
 export { default as TaxCalculationReport } from './components/TaxCalculationReport';
+export { default as RollForwardModal } from './components/RollForwardModal';
 
 // Hooks
 export {
@@ -13,6 +14,9 @@ export {
   useUpdateAdjustmentDetails,
   useDeleteTaxAdjustment,
   useGenerateTaxSuggestions,
+  useComputeTax,
+  useRollForwardPreview,
+  useRollForwardTask,
   taxCalculationKeys,
 } from './hooks/useTaxCalculation';
 
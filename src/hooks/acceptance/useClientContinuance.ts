@@ -0,0 +1,97 @@
+/**
+ * React Query hooks for the annual client continuance
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+  ClientContinuanceDetail,
+  ClientContinuanceStatus,
+  ClientContinuanceSummary,
+  ContinuanceAnswerInput,
+} from '@/lib/services/acceptance/clientContinuanceService';
+import type { RiskAssessment } from '@/lib/services/acceptance/riskCalculation';
+
+export type ClientContinuanceState = Omit<ClientContinuanceStatus, 'continuance'> & {
+  continuance: ClientContinuanceDetail | null;
+};
+
+export const clientContinuanceKeys = {
+  all: ['client-continuance'] as const,
+  detail: (GSClientID: string) => [...clientContinuanceKeys.all, GSClientID] as const,
+};
+
+async function readJson<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(result?.error || fallbackMessage);
+  }
+  return result.data as T;
+}
+
+/**
+ * Fetch continuance status and the current cycle's assessment
+ */
+export function useClientContinuance(GSClientID: string | null | undefined) {
+  return useQuery({
+    queryKey: clientContinuanceKeys.detail(GSClientID || ''),
+    queryFn: async () => {
+      const response = await fetch(`/api/clients/${GSClientID}/continuance`);
+      return readJson<ClientContinuanceState>(response, 'Failed to fetch client continuance');
+    },
+    enabled: !!GSClientID,
+    staleTime: 1000 * 30,
+  });
+}
+
+/**
+ * Start a continuance assessment for the current cycle
+ */
+export function useStartClientContinuance(GSClientID: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/clients/${GSClientID}/continuance`, { method: 'POST' });
+      return readJson<ClientContinuanceSummary>(response, 'Failed to start client continuance');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clientContinuanceKeys.detail(GSClientID) });
+    },
+  });
+}
+
+/**
+ * Save continuance answers - returns the updated risk assessment
+ */
+export function useSaveContinuanceAnswers(GSClientID: string, continuanceId: number | undefined) {
+  return useMutation({
+    mutationFn: async (answers: ContinuanceAnswerInput[]) => {
+      const response = await fetch(`/api/clients/${GSClientID}/continuance/${continuanceId}/answers`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answers }),
+      });
+      return readJson<{ riskAssessment: RiskAssessment }>(response, 'Failed to save continuance answers');
+    },
+  });
+}
+
+/**
+ * Submit the continuance for approval
+ */
+export function useSubmitClientContinuance(GSClientID: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (continuanceId: number) => {
+      const response = await fetch(`/api/clients/${GSClientID}/continuance/${continuanceId}/submit`, {
+        method: 'POST',
+      });
+      return readJson<ClientContinuanceSummary & { approvalId: number }>(response, 'Failed to submit client continuance');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clientContinuanceKeys.detail(GSClientID) });
+      queryClient.invalidateQueries({ queryKey: ['approvals'] });
+    },
+  });
+}
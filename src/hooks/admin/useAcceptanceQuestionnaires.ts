@@ -0,0 +1,179 @@
+/**
+ * React Query hooks for the acceptance questionnaire builder (admin only)
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { QuestionSection } from '@/constants/acceptance-questions';
+import type { CreateQuestionnaireDraftInput, UpdateQuestionnaireDraftInput } from '@/lib/validation/schemas';
+
+export type VersionedQuestionnaireType = 'ACCEPTANCE_FULL' | 'ACCEPTANCE_LITE' | 'CONTINUANCE_FULL' | 'CONTINUANCE_LITE';
+export type QuestionnaireVersionStatus = 'DRAFT' | 'PUBLISHED';
+
+/**
+ * Questionnaire type as returned by the list endpoint (dates are serialized)
+ */
+export interface QuestionnaireSummary {
+  questionnaireType: VersionedQuestionnaireType;
+  label: string;
+  publishedVersion: { id: number; versionNumber: number; publishedAt: string } | null;
+  draftVersion: { id: number; versionNumber: number } | null;
+  versionCount: number;
+  builtInResponseCount: number;
+}
+
+export interface QuestionnaireVersionSummary {
+  id: number;
+  versionNumber: number;
+  status: QuestionnaireVersionStatus;
+  changeNote: string | null;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt: string | null;
+  questionCount: number;
+  responseCount: number;
+  createdBy: { id: string; name: string | null } | null;
+}
+
+export interface QuestionnaireHistory {
+  questionnaireType: VersionedQuestionnaireType;
+  label: string;
+  builtInResponseCount: number;
+  builtInQuestionCount: number;
+  versions: QuestionnaireVersionSummary[];
+}
+
+export interface QuestionnaireVersionDetail extends Omit<QuestionnaireVersionSummary, 'questionCount'> {
+  questionnaireType: VersionedQuestionnaireType;
+  sections: QuestionSection[];
+  validationErrors: string[];
+}
+
+/**
+ * Query keys for questionnaire builder data
+ */
+export const questionnaireKeys = {
+  all: ['admin-acceptance-questionnaires'] as const,
+  history: (type: VersionedQuestionnaireType) => ['admin-acceptance-questionnaires', type] as const,
+  version: (versionId: number) => ['admin-acceptance-questionnaires', 'versions', versionId] as const,
+};
+
+async function readJson(response: Response, fallback: string) {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || fallback);
+  }
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Fetch every editable questionnaire type
+ */
+export function useQuestionnaires() {
+  return useQuery<QuestionnaireSummary[]>({
+    queryKey: questionnaireKeys.all,
+    queryFn: async () =>
+      readJson(await fetch('/api/admin/acceptance-questionnaires'), 'Failed to fetch questionnaires'),
+  });
+}
+
+/**
+ * Fetch a type's version history
+ */
+export function useQuestionnaireHistory(type: VersionedQuestionnaireType) {
+  return useQuery<QuestionnaireHistory>({
+    queryKey: questionnaireKeys.history(type),
+    queryFn: async () =>
+      readJson(await fetch(`/api/admin/acceptance-questionnaires/${type}`), 'Failed to fetch questionnaire versions'),
+  });
+}
+
+/**
+ * Fetch a version with its sections
+ */
+export function useQuestionnaireVersion(versionId: number | null) {
+  return useQuery<QuestionnaireVersionDetail>({
+    queryKey: questionnaireKeys.version(versionId ?? 0),
+    queryFn: async () =>
+      readJson(
+        await fetch(`/api/admin/acceptance-questionnaires/versions/${versionId}`),
+        'Failed to fetch questionnaire version'
+      ),
+    enabled: versionId !== null,
+  });
+}
+
+/**
+ * Start a draft from the latest published version or an earlier one
+ */
+export function useCreateQuestionnaireDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      type,
+      ...params
+    }: CreateQuestionnaireDraftInput & { type: VersionedQuestionnaireType }): Promise<{ id: number; versionNumber: number }> =>
+      readJson(
+        await fetch(`/api/admin/acceptance-questionnaires/${type}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }),
+        'Failed to create draft'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: questionnaireKeys.all }),
+  });
+}
+
+/**
+ * Save a draft's sections
+ */
+export function useSaveQuestionnaireDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ versionId, ...params }: UpdateQuestionnaireDraftInput & { versionId: number }) =>
+      readJson(
+        await fetch(`/api/admin/acceptance-questionnaires/versions/${versionId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }),
+        'Failed to save draft'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: questionnaireKeys.all }),
+  });
+}
+
+/**
+ * Publish a draft so new responses use it
+ */
+export function usePublishQuestionnaireVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (versionId: number): Promise<{ versionNumber: number; questionsAdded: number }> =>
+      readJson(
+        await fetch(`/api/admin/acceptance-questionnaires/versions/${versionId}/publish`, { method: 'POST' }),
+        'Failed to publish version'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: questionnaireKeys.all }),
+  });
+}
+
+/**
+ * Discard a draft
+ */
+export function useDiscardQuestionnaireDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (versionId: number) =>
+      readJson(
+        await fetch(`/api/admin/acceptance-questionnaires/versions/${versionId}`, { method: 'DELETE' }),
+        'Failed to discard draft'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: questionnaireKeys.all }),
+  });
+}
@@ -0,0 +1,254 @@
+/**
+ * React Query hooks for the approval route designer (admin only)
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RouteConfig, RoutePreview, WorkflowType } from '@/types/approval';
+
+/**
+ * Route as returned by the list endpoint (dates are serialized)
+ */
+export interface ApprovalRouteSummary {
+  id: number;
+  workflowType: WorkflowType;
+  routeName: string;
+  description: string | null;
+  routeConfig: RouteConfig;
+  isActive: boolean;
+  isDefault: boolean;
+  activeVersion: number | null;
+  latestVersion: number | null;
+  updatedAt: string;
+}
+
+export interface ApprovalRouteVersion {
+  versionNumber: number;
+  routeConfig: RouteConfig;
+  changeNote: string | null;
+  createdAt: string;
+  activatedAt: string | null;
+  createdBy: { id: string; name: string | null } | null;
+}
+
+export interface ApprovalRouteDetail extends Omit<ApprovalRouteSummary, 'latestVersion'> {
+  createdAt: string;
+  versions: ApprovalRouteVersion[];
+}
+
+export interface RouteDesignerOptions {
+  leaderGroups: Array<{ name: string; memberCount: number }>;
+  serviceLines: Array<{ code: string; name: string }>;
+}
+
+export interface DryRunRecord {
+  workflowId: number;
+  title: string;
+  status: string;
+  createdAt: string;
+}
+
+interface CreateRouteParams {
+  workflowType: WorkflowType;
+  routeName: string;
+  description?: string;
+  routeConfig: RouteConfig;
+  changeNote?: string;
+  isDefault?: boolean;
+}
+
+interface UpdateRouteParams {
+  routeId: number;
+  description?: string;
+  isActive?: boolean;
+  isDefault?: boolean;
+}
+
+interface SaveVersionParams {
+  routeId: number;
+  routeConfig: RouteConfig;
+  changeNote?: string;
+  activate?: boolean;
+}
+
+interface PreviewRouteParams {
+  workflowType: WorkflowType;
+  workflowId: number;
+  routeConfig: RouteConfig;
+}
+
+/**
+ * Query keys for approval route data
+ */
+export const approvalRouteKeys = {
+  all: ['admin-approval-routes'] as const,
+  detail: (routeId: number) => ['admin-approval-routes', routeId] as const,
+  options: ['admin-approval-routes', 'options'] as const,
+  records: (workflowType: WorkflowType, search: string) =>
+    ['admin-approval-routes', 'records', workflowType, search] as const,
+};
+
+async function readJson(response: Response, fallback: string) {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || fallback);
+  }
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Fetch all approval routes
+ */
+export function useApprovalRoutes() {
+  return useQuery<ApprovalRouteSummary[]>({
+    queryKey: approvalRouteKeys.all,
+    queryFn: async () => readJson(await fetch('/api/admin/approval-routes'), 'Failed to fetch approval routes'),
+  });
+}
+
+/**
+ * Fetch a route with its version history
+ */
+export function useApprovalRoute(routeId: number | null) {
+  return useQuery<ApprovalRouteDetail>({
+    queryKey: approvalRouteKeys.detail(routeId ?? 0),
+    queryFn: async () =>
+      readJson(await fetch(`/api/admin/approval-routes/${routeId}`), 'Failed to fetch approval route'),
+    enabled: routeId !== null,
+  });
+}
+
+/**
+ * Leader groups and service lines for the step editor
+ */
+export function useRouteDesignerOptions() {
+  return useQuery<RouteDesignerOptions>({
+    queryKey: approvalRouteKeys.options,
+    queryFn: async () =>
+      readJson(await fetch('/api/admin/approval-routes/options'), 'Failed to fetch route designer options'),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Recent workflow records to dry-run a route against
+ */
+export function useDryRunRecords(workflowType: WorkflowType, search: string) {
+  return useQuery<DryRunRecord[]>({
+    queryKey: approvalRouteKeys.records(workflowType, search),
+    queryFn: async () => {
+      const params = new URLSearchParams({ workflowType });
+      if (search) params.set('search', search);
+      return readJson(
+        await fetch(`/api/admin/approval-routes/records?${params.toString()}`),
+        'Failed to fetch workflow records'
+      );
+    },
+  });
+}
+
+/**
+ * Create a route (its configuration becomes version 1)
+ */
+export function useCreateApprovalRoute() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: CreateRouteParams): Promise<ApprovalRouteSummary & { warnings: string[] }> =>
+      readJson(
+        await fetch('/api/admin/approval-routes', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }),
+        'Failed to create approval route'
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: approvalRouteKeys.all });
+    },
+  });
+}
+
+/**
+ * Update a route's description, active flag or default flag
+ */
+export function useUpdateApprovalRoute() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ routeId, ...updates }: UpdateRouteParams) =>
+      readJson(
+        await fetch(`/api/admin/approval-routes/${routeId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        }),
+        'Failed to update approval route'
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: approvalRouteKeys.all });
+    },
+  });
+}
+
+/**
+ * Save the designer's configuration as a new version
+ */
+export function useSaveRouteVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      routeId,
+      ...body
+    }: SaveVersionParams): Promise<{ versionNumber: number; isActive: boolean; warnings: string[] }> =>
+      readJson(
+        await fetch(`/api/admin/approval-routes/${routeId}/versions`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+        'Failed to save route version'
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: approvalRouteKeys.all });
+    },
+  });
+}
+
+/**
+ * Make a saved version the route's live configuration
+ */
+export function useActivateRouteVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ routeId, versionNumber }: { routeId: number; versionNumber: number }) =>
+      readJson(
+        await fetch(`/api/admin/approval-routes/${routeId}/versions/${versionNumber}/activate`, {
+          method: 'POST',
+        }),
+        'Failed to activate route version'
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: approvalRouteKeys.all });
+    },
+  });
+}
+
+/**
+ * Dry-run an unsaved configuration against an existing workflow record
+ */
+export function usePreviewRoute() {
+  return useMutation({
+    mutationFn: async (params: PreviewRouteParams): Promise<RoutePreview> =>
+      readJson(
+        await fetch('/api/admin/approval-routes/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }),
+        'Failed to preview route'
+      ),
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * React Query hooks for the engagement letter clause library
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+  CreateEngagementLetterClauseInput,
+  UpdateEngagementLetterClauseInput,
+} from '@/lib/validation/schemas';
+import type { EngagementLetterClause } from '@/types/engagementLetter';
+
+/**
+ * Query keys for the clause library
+ */
+export const engagementLetterClauseKeys = {
+  all: ['admin', 'engagement-letter-clauses'] as const,
+};
+
+async function readJson(response: Response, fallback: string) {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || fallback);
+  }
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Fetch every clause, including inactive ones
+ */
+export function useEngagementLetterClauses() {
+  return useQuery<EngagementLetterClause[]>({
+    queryKey: engagementLetterClauseKeys.all,
+    queryFn: async () =>
+      readJson(await fetch('/api/admin/engagement-letter-clauses'), 'Failed to fetch clauses'),
+  });
+}
+
+/**
+ * Add a clause to the library
+ */
+export function useCreateEngagementLetterClause() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: CreateEngagementLetterClauseInput): Promise<EngagementLetterClause> =>
+      readJson(
+        await fetch('/api/admin/engagement-letter-clauses', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }),
+        'Failed to create clause'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: engagementLetterClauseKeys.all }),
+  });
+}
+
+/**
+ * Update a clause
+ */
+export function useUpdateEngagementLetterClause() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ clauseId, ...params }: UpdateEngagementLetterClauseInput & { clauseId: number }) =>
+      readJson(
+        await fetch(`/api/admin/engagement-letter-clauses/${clauseId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }),
+        'Failed to save clause'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: engagementLetterClauseKeys.all }),
+  });
+}
+
+/**
+ * Delete a clause
+ */
+export function useDeleteEngagementLetterClause() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (clauseId: number) =>
+      readJson(
+        await fetch(`/api/admin/engagement-letter-clauses/${clauseId}`, { method: 'DELETE' }),
+        'Failed to delete clause'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: engagementLetterClauseKeys.all }),
+  });
+}
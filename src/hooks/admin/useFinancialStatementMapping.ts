@@ -0,0 +1,159 @@
+/**
+ * React Query hooks for the financial statement mapping (admin only)
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { CreateStatementLineInput, CreateStatementMappingInput, UpdateStatementLineInput } from '@/lib/validation/schemas';
+import type { FinancialStatementType, StatementAccount, StatementLineConfig } from '@/types/exco';
+import { excoKeys } from '@/hooks/exco/useExcoReports';
+
+/**
+ * Query keys for financial statement mapping data
+ */
+export const statementMappingKeys = {
+  all: ['admin-financial-statements'] as const,
+  lines: ['admin-financial-statements', 'lines'] as const,
+  accounts: (statement: FinancialStatementType, search: string, unmappedOnly: boolean) =>
+    ['admin-financial-statements', 'accounts', statement, search, unmappedOnly] as const,
+};
+
+async function readJson(response: Response, fallback: string) {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || fallback);
+  }
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Mapping changes move accounts between lines - refresh the account list and the statements
+ */
+function useInvalidateMapping() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: statementMappingKeys.all });
+    queryClient.invalidateQueries({ queryKey: [...excoKeys.all, 'financial-statements'] });
+  };
+}
+
+/**
+ * Fetch statement lines with their mapping rules
+ */
+export function useStatementLines() {
+  return useQuery<StatementLineConfig[]>({
+    queryKey: statementMappingKeys.lines,
+    queryFn: async () =>
+      readJson(await fetch('/api/admin/financial-statements/lines'), 'Failed to fetch statement lines'),
+  });
+}
+
+/**
+ * Fetch the chart of accounts with each account's line
+ */
+export function useStatementAccounts(statement: FinancialStatementType, search: string, unmappedOnly: boolean) {
+  return useQuery<StatementAccount[]>({
+    queryKey: statementMappingKeys.accounts(statement, search, unmappedOnly),
+    queryFn: async () => {
+      const params = new URLSearchParams({ statement });
+      if (search) params.set('search', search);
+      if (unmappedOnly) params.set('unmappedOnly', 'true');
+      return readJson(
+        await fetch(`/api/admin/financial-statements/accounts?${params.toString()}`),
+        'Failed to fetch accounts'
+      );
+    },
+  });
+}
+
+/**
+ * Add a statement line
+ */
+export function useCreateStatementLine() {
+  const invalidate = useInvalidateMapping();
+
+  return useMutation({
+    mutationFn: async (params: CreateStatementLineInput): Promise<StatementLineConfig> =>
+      readJson(
+        await fetch('/api/admin/financial-statements/lines', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }),
+        'Failed to create statement line'
+      ),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Rename, move, reorder or (de)activate a statement line
+ */
+export function useUpdateStatementLine() {
+  const invalidate = useInvalidateMapping();
+
+  return useMutation({
+    mutationFn: async ({ lineId, ...updates }: UpdateStatementLineInput & { lineId: number }): Promise<StatementLineConfig> =>
+      readJson(
+        await fetch(`/api/admin/financial-statements/lines/${lineId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        }),
+        'Failed to update statement line'
+      ),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Delete a statement line and its mapping rules
+ */
+export function useDeleteStatementLine() {
+  const invalidate = useInvalidateMapping();
+
+  return useMutation({
+    mutationFn: async (lineId: number) =>
+      readJson(
+        await fetch(`/api/admin/financial-statements/lines/${lineId}`, { method: 'DELETE' }),
+        'Failed to delete statement line'
+      ),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Map an account, account prefix or GL category to a line
+ */
+export function useAddStatementMapping() {
+  const invalidate = useInvalidateMapping();
+
+  return useMutation({
+    mutationFn: async ({ lineId, ...rule }: CreateStatementMappingInput & { lineId: number }): Promise<StatementLineConfig> =>
+      readJson(
+        await fetch(`/api/admin/financial-statements/lines/${lineId}/mappings`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(rule),
+        }),
+        'Failed to add mapping rule'
+      ),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Remove a mapping rule
+ */
+export function useDeleteStatementMapping() {
+  const invalidate = useInvalidateMapping();
+
+  return useMutation({
+    mutationFn: async ({ lineId, mappingId }: { lineId: number; mappingId: number }): Promise<StatementLineConfig> =>
+      readJson(
+        await fetch(`/api/admin/financial-statements/lines/${lineId}/mappings/${mappingId}`, { method: 'DELETE' }),
+        'Failed to remove mapping rule'
+      ),
+    onSuccess: invalidate,
+  });
+}
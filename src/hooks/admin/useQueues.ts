@@ -0,0 +1,201 @@
+/**
+ * React Query hooks for the background job queue dashboard (admin only)
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+  QueueStats,
+  QueueStatsSnapshot,
+  ListableJobStatus,
+  JobStatus,
+  BulkJobResult,
+  WorkerStatus,
+} from '@/lib/queue/QueueService';
+
+export interface QueueSummary {
+  name: string;
+  stats: QueueStats;
+}
+
+export interface QueueOverview {
+  redisAvailable: boolean;
+  queues: QueueSummary[];
+  workers: WorkerStatus[];
+}
+
+export interface QueueDetail {
+  name: string;
+  stats: QueueStats;
+  history: QueueStatsSnapshot[];
+}
+
+/**
+ * Job record as returned over JSON (dates are serialized)
+ */
+export interface QueueJob {
+  id: string;
+  type: string;
+  data: unknown;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  updatedAt?: string;
+  status: JobStatus;
+  error?: string;
+}
+
+export interface QueueJobPage {
+  jobs: QueueJob[];
+  missing: string[];
+  total: number;
+  totalPages: number;
+}
+
+interface FailedJobsAction {
+  queueName: string;
+  jobIds?: string[];
+  all?: boolean;
+}
+
+/**
+ * Query keys for queue data
+ */
+export const queueKeys = {
+  all: ['admin-queues'] as const,
+  detail: (queueName: string) => ['admin-queues', queueName] as const,
+  jobs: (queueName: string, status: ListableJobStatus, page: number) =>
+    ['admin-queues', queueName, 'jobs', status, page] as const,
+  job: (queueName: string, jobId: string) => ['admin-queues', queueName, 'job', jobId] as const,
+};
+
+/**
+ * Fetch all queues with current stats (polled every 30 seconds)
+ */
+export function useQueues() {
+  return useQuery<QueueOverview>({
+    queryKey: queueKeys.all,
+    queryFn: async () => {
+      const response = await fetch('/api/admin/queues');
+      if (!response.ok) throw new Error('Failed to fetch queues');
+      const result = await response.json();
+      return result.data;
+    },
+    refetchInterval: 30000,
+  });
+}
+
+/**
+ * Fetch stats and trend history for a single queue
+ */
+export function useQueueDetail(queueName: string | null) {
+  return useQuery<QueueDetail>({
+    queryKey: queueKeys.detail(queueName ?? ''),
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/queues/${encodeURIComponent(queueName!)}`);
+      if (!response.ok) throw new Error('Failed to fetch queue details');
+      const result = await response.json();
+      return result.data;
+    },
+    enabled: !!queueName,
+    refetchInterval: 60000,
+  });
+}
+
+/**
+ * Fetch a page of jobs for a queue in the given state
+ */
+export function useQueueJobs(
+  queueName: string | null,
+  status: ListableJobStatus,
+  page: number,
+  limit: number = 25
+) {
+  return useQuery<QueueJobPage>({
+    queryKey: queueKeys.jobs(queueName ?? '', status, page),
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        status,
+        page: String(page),
+        limit: String(limit),
+      });
+      const response = await fetch(
+        `/api/admin/queues/${encodeURIComponent(queueName!)}/jobs?${params.toString()}`
+      );
+      if (!response.ok) throw new Error('Failed to fetch jobs');
+      const result = await response.json();
+      return {
+        jobs: result.data.jobs,
+        missing: result.data.missing,
+        total: result.meta.total,
+        totalPages: result.meta.totalPages,
+      };
+    },
+    enabled: !!queueName,
+  });
+}
+
+/**
+ * Fetch a single job's full record
+ */
+export function useQueueJob(queueName: string | null, jobId: string | null) {
+  return useQuery<QueueJob>({
+    queryKey: queueKeys.job(queueName ?? '', jobId ?? ''),
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/admin/queues/${encodeURIComponent(queueName!)}/jobs/${encodeURIComponent(jobId!)}`
+      );
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch job');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+    enabled: !!queueName && !!jobId,
+  });
+}
+
+/**
+ * Shared mutation factory for dead-letter actions
+ */
+function useFailedJobsMutation(action: 'retry' | 'purge') {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ queueName, jobIds, all }: FailedJobsAction): Promise<BulkJobResult> => {
+      const response = await fetch(
+        `/api/admin/queues/${encodeURIComponent(queueName)}/failed/${action}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(all ? { all: true } : { jobIds }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to ${action} jobs`);
+      }
+
+      const result = await response.json();
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queueKeys.all });
+    },
+  });
+}
+
+/**
+ * Re-enqueue dead-lettered jobs
+ */
+export function useRetryFailedJobs() {
+  return useFailedJobsMutation('retry');
+}
+
+/**
+ * Permanently delete dead-lettered jobs
+ */
+export function usePurgeFailedJobs() {
+  return useFailedJobsMutation('purge');
+}
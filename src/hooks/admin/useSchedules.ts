@@ -0,0 +1,155 @@
+/**
+ * React Query hooks for recurring job schedules (admin only)
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+  ScheduleRunTrigger,
+  ScheduleRunStatus,
+  ScheduleRunResult,
+} from '@/lib/queue/JobScheduler';
+
+/**
+ * Schedule run as returned over JSON (dates are serialized)
+ */
+export interface JobScheduleRun {
+  id: number;
+  scheduledFor: string;
+  triggeredAt: string;
+  trigger: ScheduleRunTrigger;
+  status: ScheduleRunStatus;
+  jobId: string | null;
+  error: string | null;
+  finishedAt: string | null;
+  triggeredBy?: { id: string; name: string | null; email: string } | null;
+}
+
+export interface JobSchedule {
+  id: number;
+  name: string;
+  description: string | null;
+  cronExpression: string;
+  queueName: string;
+  jobType: string;
+  enabled: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  updatedAt: string;
+  lastRun: JobScheduleRun | null;
+}
+
+export interface ScheduleOverview {
+  redisAvailable: boolean;
+  schedules: JobSchedule[];
+}
+
+export interface ScheduleRunPage {
+  runs: JobScheduleRun[];
+  total: number;
+  totalPages: number;
+}
+
+interface UpdateScheduleParams {
+  scheduleId: number;
+  enabled?: boolean;
+  cronExpression?: string;
+}
+
+/**
+ * Query keys for schedule data
+ */
+export const scheduleKeys = {
+  all: ['admin-schedules'] as const,
+  runs: (scheduleId: number, page: number) => ['admin-schedules', scheduleId, 'runs', page] as const,
+};
+
+/**
+ * Fetch all schedules with their latest run (polled every 30 seconds)
+ */
+export function useSchedules() {
+  return useQuery<ScheduleOverview>({
+    queryKey: scheduleKeys.all,
+    queryFn: async () => {
+      const response = await fetch('/api/admin/schedules');
+      if (!response.ok) throw new Error('Failed to fetch schedules');
+      const result = await response.json();
+      return result.data;
+    },
+    refetchInterval: 30000,
+  });
+}
+
+/**
+ * Fetch a page of run history for a schedule
+ */
+export function useScheduleRuns(scheduleId: number | null, page: number, limit: number = 25) {
+  return useQuery<ScheduleRunPage>({
+    queryKey: scheduleKeys.runs(scheduleId ?? 0, page),
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+      const response = await fetch(`/api/admin/schedules/${scheduleId}/runs?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch schedule runs');
+      const result = await response.json();
+      return {
+        runs: result.data,
+        total: result.meta.total,
+        totalPages: result.meta.totalPages,
+      };
+    },
+    enabled: scheduleId !== null,
+  });
+}
+
+/**
+ * Pause/resume a schedule or change its cron expression
+ */
+export function useUpdateSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ scheduleId, ...updates }: UpdateScheduleParams) => {
+      const response = await fetch(`/api/admin/schedules/${scheduleId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update schedule');
+      }
+
+      const result = await response.json();
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: scheduleKeys.all });
+    },
+  });
+}
+
+/**
+ * Run a schedule immediately
+ */
+export function useTriggerSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (scheduleId: number): Promise<ScheduleRunResult> => {
+      const response = await fetch(`/api/admin/schedules/${scheduleId}/trigger`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to trigger schedule');
+      }
+
+      const result = await response.json();
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: scheduleKeys.all });
+    },
+  });
+}
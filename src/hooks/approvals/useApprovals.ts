@@ -5,6 +5,7 @@
 
 import { useQuery, type UseQueryResult } from '@tanstack/react-query';
 import type { ApprovalsResponse, ApprovalsCountResponse } from '@/types/approvals';
+import type { OverdueApprovalStep } from '@/types/approval';
 
 /**
  * Fetch all pending or archived approvals for the current user
@@ -63,3 +64,30 @@ export function useApprovalsCount(): UseQueryResult<number> {
     staleTime: 30000,
   });
 }
+
+/**
+ * Fetch overdue approval steps the current user is involved in
+ * (as approver, escalation target or requester), with SLA history
+ */
+export function useOverdueApprovals(): UseQueryResult<OverdueApprovalStep[]> {
+  return useQuery<OverdueApprovalStep[]>({
+    queryKey: ['approvals', 'overdue'],
+    queryFn: async () => {
+      const response = await fetch('/api/approvals/overdue', {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch overdue approvals');
+      }
+
+      const data = await response.json();
+      return data.data;
+    },
+    refetchInterval: 300000, // SLA state only changes on the nightly run
+    staleTime: 60000,
+  });
+}
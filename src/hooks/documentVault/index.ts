@@ -3,6 +3,7 @@ export {
   useDocument, 
   useDocumentCategories, 
   useDownloadDocument, 
-  useSearchDocuments 
+  useSearchDocuments,
+  useSimilarDocuments,
 } from './useDocuments';
 export { useDocumentTypes } from './useDocumentTypes';
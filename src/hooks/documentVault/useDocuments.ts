@@ -1,5 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { VaultDocumentListItemDTO, VaultDocumentDetailDTO, VaultDocumentFilters } from '@/types/documentVault';
+import type {
+  VaultDocumentDetailDTO,
+  VaultDocumentFilters,
+  VaultSearchParams,
+  VaultSearchResponse,
+  VaultSimilarDocumentsResponse,
+} from '@/types/documentVault';
 
 /**
  * Hook to fetch document list
@@ -126,22 +132,49 @@ export function useDownloadApprovalDocument(documentId: number) {
 
 /**
  * Hook to search documents
+ * Ranked full-text search with facet filters and highlighted snippets
  */
-export function useSearchDocuments(query: string, enabled: boolean = true) {
+export function useSearchDocuments(params: VaultSearchParams, enabled: boolean = true) {
   return useQuery({
-    queryKey: ['documentSearch', query],
+    queryKey: ['documentSearch', params],
     queryFn: async () => {
-      const params = new URLSearchParams({ query });
-      
-      const response = await fetch(`/api/document-vault/search?${params}`);
-      if (!response.ok) throw new Error('Failed to search documents');
-      
-      const data = await response.json();
-      if (!data.success) throw new Error(data.error || 'Failed to search documents');
-      
-      return data.data;
+      const searchParams = new URLSearchParams({ query: params.query });
+      params.categoryIds?.forEach((id) => searchParams.append('categoryId', String(id)));
+      params.documentTypes?.forEach((type) => searchParams.append('documentType', type));
+      params.serviceLines?.forEach((code) => searchParams.append('serviceLine', code));
+      params.effectiveYears?.forEach((year) => searchParams.append('effectiveYear', year));
+      if (params.sort) searchParams.append('sort', params.sort);
+      if (params.page) searchParams.append('page', String(params.page));
+      if (params.limit) searchParams.append('limit', String(params.limit));
+
+      const response = await fetch(`/api/document-vault/search?${searchParams}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.success) throw new Error(data.error || 'Failed to search documents');
+
+      return data.data as VaultSearchResponse;
     },
     staleTime: 2 * 60 * 1000, // 2 minutes
-    enabled: enabled && query.length >= 2,
+    enabled: enabled && params.query.trim().length >= 2,
+    placeholderData: (previous) => previous,
+  });
+}
+
+/**
+ * Hook to fetch documents with similar wording
+ */
+export function useSimilarDocuments(documentId: number | string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['documentSimilar', documentId],
+    queryFn: async () => {
+      const response = await fetch(`/api/document-vault/${documentId}/similar`);
+      if (!response.ok) throw new Error('Failed to fetch similar documents');
+
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Failed to fetch similar documents');
+
+      return data.data as VaultSimilarDocumentsResponse;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    enabled: enabled && !!documentId,
   });
 }
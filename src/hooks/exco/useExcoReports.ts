@@ -0,0 +1,413 @@
+/**
+ * React Query hooks for EXCO reporting
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { LockupTargetInput } from '@/lib/validation/schemas';
+import type {
+  BudgetForecastReport,
+  ClientPortfolioReport,
+  ExcoPeriodFilter,
+  FinancialStatementReport,
+  FinancialStatementType,
+  LeagueLevel,
+  LockupDimension,
+  LockupReport,
+  LockupServiceLineTarget,
+  NewBusinessReport,
+  PartnerScorecardReport,
+  PipelineReport,
+  SectorAnalysisReport,
+  SectorDimension,
+  ServiceLineLeagueReport,
+  StaffPerformanceReport,
+  StatementEntryPage,
+  UtilizationReport,
+} from '@/types/exco';
+
+export interface LockupReportOptions {
+  dimension: LockupDimension;
+  serviceLine?: string;
+  topN?: number;
+}
+
+export interface BudgetForecastOptions {
+  serviceLine?: string;
+  budgetCode?: string;
+}
+
+export interface StatementEntriesOptions {
+  statement: FinancialStatementType;
+  drillKey: string;
+  range: 'MONTH' | 'QTD' | 'YTD';
+  page: number;
+}
+
+export const excoKeys = {
+  all: ['exco'] as const,
+  utilization: (period: Partial<ExcoPeriodFilter>, serviceLine?: string) =>
+    [...excoKeys.all, 'utilization', period, serviceLine ?? null] as const,
+  partnerScorecards: (period: Partial<ExcoPeriodFilter>) => [...excoKeys.all, 'partner-scorecards', period] as const,
+  lockup: (period: Partial<ExcoPeriodFilter>, options?: LockupReportOptions) =>
+    [...excoKeys.all, 'lockup', period, options ?? null] as const,
+  budgetForecast: (period: Partial<ExcoPeriodFilter>, options?: BudgetForecastOptions) =>
+    [...excoKeys.all, 'budget-forecast', period, options ?? null] as const,
+  clientPortfolio: (period: Partial<ExcoPeriodFilter>) => [...excoKeys.all, 'client-portfolio', period] as const,
+  sectorAnalysis: (period: Partial<ExcoPeriodFilter>, dimension: SectorDimension, industry?: string) =>
+    [...excoKeys.all, 'sector-analysis', period, dimension, industry ?? null] as const,
+  incomeStatement: (period: Partial<ExcoPeriodFilter>, budgetCode?: string) =>
+    [...excoKeys.all, 'financial-statements', 'income-statement', period, budgetCode ?? null] as const,
+  balanceSheet: (period: Partial<ExcoPeriodFilter>) =>
+    [...excoKeys.all, 'financial-statements', 'balance-sheet', period] as const,
+  statementEntries: (period: Partial<ExcoPeriodFilter>, options: StatementEntriesOptions | null) =>
+    [...excoKeys.all, 'financial-statements', 'entries', period, options] as const,
+  newBusiness: (period: Partial<ExcoPeriodFilter>) => [...excoKeys.all, 'new-business', period] as const,
+  pipeline: (period: Partial<ExcoPeriodFilter>) => [...excoKeys.all, 'pipeline', period] as const,
+  serviceLineLeague: (period: Partial<ExcoPeriodFilter>, level: LeagueLevel) =>
+    [...excoKeys.all, 'service-line-performance', period, level] as const,
+  staffPerformance: (period: Partial<ExcoPeriodFilter>) => [...excoKeys.all, 'staff-performance', period] as const,
+};
+
+/**
+ * Build query string for EXCO period filters
+ */
+export function buildExcoPeriodParams(period: Partial<ExcoPeriodFilter>): URLSearchParams {
+  const params = new URLSearchParams();
+  if (period.fiscalYear) params.set('fiscalYear', period.fiscalYear.toString());
+  if (period.fiscalQuarter) params.set('fiscalQuarter', period.fiscalQuarter.toString());
+  if (period.fiscalMonth) params.set('fiscalMonth', period.fiscalMonth.toString());
+  return params;
+}
+
+/**
+ * Fetch firm-wide utilization, optionally drilled into a master service line
+ */
+export function useUtilizationReport(period: Partial<ExcoPeriodFilter>, serviceLine?: string) {
+  return useQuery<UtilizationReport>({
+    queryKey: excoKeys.utilization(period, serviceLine),
+    queryFn: async () => {
+      const params = buildExcoPeriodParams(period);
+      if (serviceLine) params.set('serviceLine', serviceLine);
+
+      const response = await fetch(`/api/exco/utilization?${params}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch utilization report');
+      }
+
+      const data = await response.json();
+      return data.data as UtilizationReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch partner scorecards with prior fiscal year comparison
+ */
+export function usePartnerScorecards(period: Partial<ExcoPeriodFilter>) {
+  return useQuery<PartnerScorecardReport>({
+    queryKey: excoKeys.partnerScorecards(period),
+    queryFn: async () => {
+      const response = await fetch(`/api/exco/partner-scorecards?${buildExcoPeriodParams(period)}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch partner scorecards');
+      }
+
+      const data = await response.json();
+      return data.data as PartnerScorecardReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch monthly lock-up with period-end breakdown and worst clients
+ */
+export function useLockupReport(period: Partial<ExcoPeriodFilter>, options: LockupReportOptions) {
+  return useQuery<LockupReport>({
+    queryKey: excoKeys.lockup(period, options),
+    queryFn: async () => {
+      const params = buildExcoPeriodParams(period);
+      params.set('dimension', options.dimension);
+      if (options.serviceLine) params.set('serviceLine', options.serviceLine);
+      if (options.topN) params.set('topN', options.topN.toString());
+
+      const response = await fetch(`/api/exco/working-capital?${params}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch lock-up report');
+      }
+
+      const data = await response.json();
+      return data.data as LockupReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Set or clear a service line's lock-up target
+ */
+export function useSetLockupTarget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: LockupTargetInput) => {
+      const response = await fetch('/api/exco/working-capital/targets', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to save target' }));
+        throw new Error(error.error || 'Failed to save lock-up target');
+      }
+
+      const result = await response.json();
+      return result.data as LockupServiceLineTarget;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...excoKeys.all, 'lockup'] });
+    },
+  });
+}
+
+/**
+ * Fetch GL budget vs actual and forecast billings with task overrun projections
+ */
+export function useBudgetForecast(period: Partial<ExcoPeriodFilter>, options: BudgetForecastOptions = {}) {
+  return useQuery<BudgetForecastReport>({
+    queryKey: excoKeys.budgetForecast(period, options),
+    queryFn: async () => {
+      const params = buildExcoPeriodParams(period);
+      if (options.serviceLine) params.set('serviceLine', options.serviceLine);
+      if (options.budgetCode) params.set('budgetCode', options.budgetCode);
+
+      const response = await fetch(`/api/exco/budget-forecast?${params}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch budget forecast');
+      }
+
+      const data = await response.json();
+      return data.data as BudgetForecastReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch fee concentration, client churn and cross-sell coverage
+ */
+export function useClientPortfolio(period: Partial<ExcoPeriodFilter>) {
+  return useQuery<ClientPortfolioReport>({
+    queryKey: excoKeys.clientPortfolio(period),
+    queryFn: async () => {
+      const response = await fetch(`/api/exco/client-portfolio?${buildExcoPeriodParams(period)}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch client portfolio');
+      }
+
+      const data = await response.json();
+      return data.data as ClientPortfolioReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch fees by industry or sector, optionally drilled into an industry
+ */
+export function useSectorAnalysis(period: Partial<ExcoPeriodFilter>, dimension: SectorDimension, industry?: string) {
+  return useQuery<SectorAnalysisReport>({
+    queryKey: excoKeys.sectorAnalysis(period, dimension, industry),
+    queryFn: async () => {
+      const params = buildExcoPeriodParams(period);
+      params.set('dimension', dimension);
+      if (industry) params.set('industry', industry);
+
+      const response = await fetch(`/api/exco/sector-analysis?${params}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch sector analysis');
+      }
+
+      const data = await response.json();
+      return data.data as SectorAnalysisReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch the income statement against GL budget and prior year
+ */
+export function useIncomeStatement(period: Partial<ExcoPeriodFilter>, budgetCode?: string) {
+  return useQuery<FinancialStatementReport>({
+    queryKey: excoKeys.incomeStatement(period, budgetCode),
+    queryFn: async () => {
+      const params = buildExcoPeriodParams(period);
+      if (budgetCode) params.set('budgetCode', budgetCode);
+
+      const response = await fetch(`/api/exco/financial-statements/income-statement?${params}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch income statement');
+      }
+
+      const data = await response.json();
+      return data.data as FinancialStatementReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch the balance sheet against the prior year
+ */
+export function useBalanceSheet(period: Partial<ExcoPeriodFilter>) {
+  return useQuery<FinancialStatementReport>({
+    queryKey: excoKeys.balanceSheet(period),
+    queryFn: async () => {
+      const params = buildExcoPeriodParams(period);
+
+      const response = await fetch(`/api/exco/financial-statements/balance-sheet?${params}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch balance sheet');
+      }
+
+      const data = await response.json();
+      return data.data as FinancialStatementReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch the GL entries behind a statement line (disabled until a line is selected)
+ */
+export function useStatementEntries(period: Partial<ExcoPeriodFilter>, options: StatementEntriesOptions | null) {
+  return useQuery<StatementEntryPage>({
+    queryKey: excoKeys.statementEntries(period, options),
+    queryFn: async () => {
+      const params = buildExcoPeriodParams(period);
+      if (options) {
+        params.set('statement', options.statement);
+        params.set('drillKey', options.drillKey);
+        params.set('range', options.range);
+        params.set('page', options.page.toString());
+      }
+
+      const response = await fetch(`/api/exco/financial-statements/entries?${params}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch entries' }));
+        throw new Error(error.error || 'Failed to fetch ledger entries');
+      }
+
+      const data = await response.json();
+      return data.data as StatementEntryPage;
+    },
+    enabled: options !== null,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch won and lost opportunities, win rates and fees billed on won clients
+ */
+export function useNewBusiness(period: Partial<ExcoPeriodFilter>) {
+  return useQuery<NewBusinessReport>({
+    queryKey: excoKeys.newBusiness(period),
+    queryFn: async () => {
+      const response = await fetch(`/api/exco/new-business?${buildExcoPeriodParams(period)}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch new business report');
+      }
+
+      const data = await response.json();
+      return data.data as NewBusinessReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch open pipeline coverage, stage velocity and ageing
+ */
+export function usePipeline(period: Partial<ExcoPeriodFilter>) {
+  return useQuery<PipelineReport>({
+    queryKey: excoKeys.pipeline(period),
+    queryFn: async () => {
+      const response = await fetch(`/api/exco/pipeline?${buildExcoPeriodParams(period)}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch pipeline');
+      }
+
+      const data = await response.json();
+      return data.data as PipelineReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch the service line league table at master or sub-service-line group level
+ */
+export function useServiceLineLeague(period: Partial<ExcoPeriodFilter>, level: LeagueLevel) {
+  return useQuery<ServiceLineLeagueReport>({
+    queryKey: excoKeys.serviceLineLeague(period, level),
+    queryFn: async () => {
+      const params = buildExcoPeriodParams(period);
+      params.set('level', level);
+
+      const response = await fetch(`/api/exco/service-line-performance?${params}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch service line performance');
+      }
+
+      const data = await response.json();
+      return data.data as ServiceLineLeagueReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Fetch staff performance for the employees the current user leads
+ */
+export function useStaffPerformance(period: Partial<ExcoPeriodFilter>) {
+  return useQuery<StaffPerformanceReport>({
+    queryKey: excoKeys.staffPerformance(period),
+    queryFn: async () => {
+      const response = await fetch(`/api/exco/staff-performance?${buildExcoPeriodParams(period)}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch report' }));
+        throw new Error(error.error || 'Failed to fetch staff performance');
+      }
+
+      const data = await response.json();
+      return data.data as StaffPerformanceReport;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
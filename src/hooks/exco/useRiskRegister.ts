@@ -0,0 +1,121 @@
+/**
+ * React Query hooks for the EXCO risk register
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+  CreateRiskEntryInput,
+  CreateRiskMitigationInput,
+  UpdateRiskEntryInput,
+  UpdateRiskMitigationInput,
+} from '@/lib/validation/schemas';
+import type { RiskRegisterFilter, RiskRegisterItem, RiskRegisterReport, RiskSyncResult } from '@/types/exco';
+import { excoKeys } from './useExcoReports';
+
+export const riskRegisterKeys = {
+  all: [...excoKeys.all, 'risk-register'] as const,
+  list: (filter: RiskRegisterFilter) => [...riskRegisterKeys.all, filter] as const,
+};
+
+async function readJson<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(result?.error || fallbackMessage);
+  }
+  return result.data as T;
+}
+
+function sendJson(url: string, method: string, body?: unknown): Promise<Response> {
+  return fetch(url, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+}
+
+/**
+ * Fetch risk register entries, heat map and summary
+ */
+export function useRiskRegister(filter: RiskRegisterFilter) {
+  return useQuery({
+    queryKey: riskRegisterKeys.list(filter),
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filter.serviceLine) params.set('serviceLine', filter.serviceLine);
+      if (filter.category) params.set('category', filter.category);
+      if (filter.status) params.set('status', filter.status);
+
+      const response = await fetch(`/api/exco/risk-register?${params}`);
+      return readJson<RiskRegisterReport>(response, 'Failed to fetch risk register');
+    },
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Shared invalidation - any change can move the heat map and summary
+ */
+function useRiskMutation<TVariables, TResult>(mutationFn: (variables: TVariables) => Promise<TResult>) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: riskRegisterKeys.all });
+    },
+  });
+}
+
+export function useCreateRisk() {
+  return useRiskMutation(async (data: CreateRiskEntryInput) => {
+    const response = await sendJson('/api/exco/risk-register', 'POST', data);
+    return readJson<RiskRegisterItem>(response, 'Failed to create risk');
+  });
+}
+
+export function useUpdateRisk() {
+  return useRiskMutation(async ({ riskId, data }: { riskId: number; data: UpdateRiskEntryInput }) => {
+    const response = await sendJson(`/api/exco/risk-register/${riskId}`, 'PATCH', data);
+    return readJson<RiskRegisterItem>(response, 'Failed to update risk');
+  });
+}
+
+export function useDeleteRisk() {
+  return useRiskMutation(async (riskId: number) => {
+    const response = await sendJson(`/api/exco/risk-register/${riskId}`, 'DELETE');
+    return readJson<{ deleted: boolean }>(response, 'Failed to delete risk');
+  });
+}
+
+export function useAddRiskMitigation() {
+  return useRiskMutation(async ({ riskId, data }: { riskId: number; data: CreateRiskMitigationInput }) => {
+    const response = await sendJson(`/api/exco/risk-register/${riskId}/mitigations`, 'POST', data);
+    return readJson<RiskRegisterItem>(response, 'Failed to add mitigation');
+  });
+}
+
+export function useUpdateRiskMitigation() {
+  return useRiskMutation(
+    async ({ riskId, mitigationId, data }: { riskId: number; mitigationId: number; data: UpdateRiskMitigationInput }) => {
+      const response = await sendJson(`/api/exco/risk-register/${riskId}/mitigations/${mitigationId}`, 'PATCH', data);
+      return readJson<RiskRegisterItem>(response, 'Failed to update mitigation');
+    }
+  );
+}
+
+export function useDeleteRiskMitigation() {
+  return useRiskMutation(async ({ riskId, mitigationId }: { riskId: number; mitigationId: number }) => {
+    const response = await sendJson(`/api/exco/risk-register/${riskId}/mitigations/${mitigationId}`, 'DELETE');
+    return readJson<RiskRegisterItem>(response, 'Failed to delete mitigation');
+  });
+}
+
+/**
+ * Seed risks from current signals now
+ */
+export function useSyncRiskRegister() {
+  return useRiskMutation<void, RiskSyncResult>(async () => {
+    const response = await sendJson('/api/exco/risk-register/sync', 'POST');
+    return readJson<RiskSyncResult>(response, 'Failed to sync risk register');
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * React Query hooks for risk scoring model configuration and simulation
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { CreateRiskScoringModelInput, UpdateRiskScoringModelInput } from '@/lib/validation/schemas';
+import type {
+  RiskScoringModelDetail,
+  RiskScoringModelSummary,
+  RiskScoringOptions,
+  RiskSimulationResult,
+} from '@/types/riskScoring';
+
+/**
+ * Query keys for risk scoring data
+ */
+export const riskScoringKeys = {
+  all: ['qrm', 'risk-scoring'] as const,
+  models: () => [...riskScoringKeys.all, 'models'] as const,
+  model: (modelId: number) => [...riskScoringKeys.all, 'models', modelId] as const,
+  options: () => [...riskScoringKeys.all, 'options'] as const,
+};
+
+async function readJson(response: Response, fallback: string) {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || fallback);
+  }
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Fetch every scoring model, active first
+ */
+export function useRiskScoringModels() {
+  return useQuery<RiskScoringModelSummary[]>({
+    queryKey: riskScoringKeys.models(),
+    queryFn: async () => readJson(await fetch('/api/qrm/risk-scoring/models'), 'Failed to fetch scoring models'),
+  });
+}
+
+/**
+ * Fetch a model with its configuration and last simulation
+ */
+export function useRiskScoringModel(modelId: number | null) {
+  return useQuery<RiskScoringModelDetail>({
+    queryKey: riskScoringKeys.model(modelId ?? 0),
+    queryFn: async () =>
+      readJson(await fetch(`/api/qrm/risk-scoring/models/${modelId}`), 'Failed to fetch scoring model'),
+    enabled: modelId !== null,
+  });
+}
+
+/**
+ * Fetch the questionnaires and service lines the model editor configures
+ */
+export function useRiskScoringOptions() {
+  return useQuery<RiskScoringOptions>({
+    queryKey: riskScoringKeys.options(),
+    queryFn: async () => readJson(await fetch('/api/qrm/risk-scoring/options'), 'Failed to fetch scoring options'),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * Start a draft from the active model or an earlier one
+ */
+export function useCreateRiskScoringModel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: CreateRiskScoringModelInput): Promise<{ id: number; name: string }> =>
+      readJson(
+        await fetch('/api/qrm/risk-scoring/models', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }),
+        'Failed to create scoring model'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: riskScoringKeys.all }),
+  });
+}
+
+/**
+ * Save a draft's name, description or configuration
+ */
+export function useUpdateRiskScoringModel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ modelId, ...params }: UpdateRiskScoringModelInput & { modelId: number }) =>
+      readJson(
+        await fetch(`/api/qrm/risk-scoring/models/${modelId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }),
+        'Failed to save scoring model'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: riskScoringKeys.all }),
+  });
+}
+
+/**
+ * Re-score historical client acceptances under a draft
+ */
+export function useSimulateRiskScoringModel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (modelId: number): Promise<RiskSimulationResult> =>
+      readJson(
+        await fetch(`/api/qrm/risk-scoring/models/${modelId}/simulate`, { method: 'POST' }),
+        'Failed to run simulation'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: riskScoringKeys.all }),
+  });
+}
+
+/**
+ * Make a simulated draft the active model
+ */
+export function useActivateRiskScoringModel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (modelId: number) =>
+      readJson(
+        await fetch(`/api/qrm/risk-scoring/models/${modelId}/activate`, { method: 'POST' }),
+        'Failed to activate scoring model'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: riskScoringKeys.all }),
+  });
+}
+
+/**
+ * Delete a draft
+ */
+export function useDeleteRiskScoringModel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (modelId: number) =>
+      readJson(
+        await fetch(`/api/qrm/risk-scoring/models/${modelId}`, { method: 'DELETE' }),
+        'Failed to delete scoring model'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: riskScoringKeys.all }),
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * React Query hooks for generating a task's engagement letter from a template
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { GenerateEngagementLetterInput } from '@/lib/validation/schemas';
+import type { EngagementLetterBuilderData, GenerateEngagementLetterResult } from '@/types/engagementLetter';
+import { taskKeys } from './useTaskData';
+
+/**
+ * Query keys for the engagement letter builder
+ */
+export const engagementLetterBuilderKeys = {
+  builder: (taskId: string | number) => [...taskKeys.detail(String(taskId)), 'engagement-letter-builder'] as const,
+};
+
+async function readJson(response: Response, fallback: string) {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || fallback);
+  }
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Fetch templates, clauses, merge fields and the current generated letter
+ */
+export function useEngagementLetterBuilder(taskId: string | number, enabled = true) {
+  return useQuery<EngagementLetterBuilderData>({
+    queryKey: engagementLetterBuilderKeys.builder(taskId),
+    queryFn: async () =>
+      readJson(
+        await fetch(`/api/tasks/${taskId}/engagement-letter/generate`),
+        'Failed to load engagement letter builder'
+      ),
+    enabled,
+  });
+}
+
+/**
+ * Generate the letter and its Word document
+ * Invalidates the task so engagementLetterGenerated/content refresh.
+ */
+export function useGenerateEngagementLetter(taskId: string | number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: GenerateEngagementLetterInput): Promise<GenerateEngagementLetterResult> =>
+      readJson(
+        await fetch(`/api/tasks/${taskId}/engagement-letter/generate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }),
+        'Failed to generate engagement letter'
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: taskKeys.detail(String(taskId)) }),
+  });
+}
+
+/**
+ * Submit the generated letter for partner approval
+ */
+export function useSubmitEngagementLetter(taskId: string | number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<{ approvalId: number; status: string }> =>
+      readJson(
+        await fetch(`/api/tasks/${taskId}/engagement-letter/submit`, { method: 'POST' }),
+        'Failed to submit engagement letter for approval'
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: engagementLetterBuilderKeys.builder(taskId) });
+      queryClient.invalidateQueries({ queryKey: ['approvals'] });
+    },
+  });
+}
@@ -279,6 +279,7 @@ export function useUpdateAdjustmentDetails(taskId: string, adjustmentId: string)
       amount?: number;
       sarsSection?: string;
       notes?: string;
+      isRecurring?: boolean;
       status?: string;
     }) => {
       const response = await fetch(
@@ -1,5 +1,9 @@
-import { useState, useEffect } from 'react';
-import { VersionHistoryItem } from '@/lib/services/templates/templateVersionService';
+import { useState, useEffect, useCallback } from 'react';
+import {
+  TemplateVersionUsage,
+  VersionComparison,
+  VersionHistoryItem,
+} from '@/lib/services/templates/templateVersionService';
 
 export function useTemplateVersions(templateId: number) {
   const [versions, setVersions] = useState<VersionHistoryItem[]>([]);
@@ -167,3 +171,139 @@ export function useRestoreVersion(templateId: number, versionId: number) {
     error,
   };
 }
+
+export function useRestoreVersionAsNew(templateId: number, versionId: number) {
+  const [isRestoringAsNew, setIsRestoringAsNew] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const restoreVersionAsNew = async (changeNotes?: string) => {
+    setIsRestoringAsNew(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/templates/${templateId}/versions/${versionId}`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'restore_as_new', changeNotes }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to restore version');
+      }
+
+      const data = await response.json();
+      return data.data;
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to restore version';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsRestoringAsNew(false);
+    }
+  };
+
+  return {
+    restoreVersionAsNew,
+    isRestoringAsNew,
+    error,
+  };
+}
+
+/**
+ * Compare two versions - either side may be 'current' for the unversioned template
+ */
+export function useVersionComparison(
+  templateId: number,
+  from: number | 'current',
+  to: number | 'current'
+) {
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchComparison = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/admin/templates/${templateId}/versions/compare?from=${from}&to=${to}`
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Failed to compare versions');
+        }
+
+        const data = await response.json();
+        if (!cancelled) setComparison(data.data);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to compare versions');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchComparison();
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, from, to]);
+
+  return {
+    comparison,
+    isLoading,
+    error,
+  };
+}
+
+export function useVersionUsage(templateId: number) {
+  const [usage, setUsage] = useState<TemplateVersionUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/templates/${templateId}/versions/usage`
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch version usage');
+      }
+
+      const data = await response.json();
+      setUsage(data.data);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to fetch version usage';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  return {
+    usage,
+    isLoading,
+    error,
+    refetch: fetchUsage,
+  };
+}
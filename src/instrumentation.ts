@@ -0,0 +1,24 @@
+/**
+ * Next.js Instrumentation
+ * Runs once per server process on startup
+ */
+
+export async function register() {
+  // Queue workers need Node APIs and are opt-in per replica
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.QUEUE_WORKERS_ENABLED !== 'true') {
+    return;
+  }
+
+  const { startWorkers, stopWorkers } = await import('@/lib/queue/workers');
+  const { logger } = await import('@/lib/utils/logger');
+
+  await startWorkers();
+
+  // Let in-flight jobs finish before the container exits
+  const shutdown = async (signal: string) => {
+    logger.info('Stopping queue workers', { signal });
+    await stopWorkers();
+  };
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+}
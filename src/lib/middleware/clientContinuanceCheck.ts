@@ -0,0 +1,41 @@
+/**
+ * Client Continuance Middleware
+ * Enforcement checks for the annual client continuance
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { formatDate } from '@/lib/utils/taskUtils';
+import { getClientContinuanceStatus } from '@/lib/services/acceptance/clientContinuanceService';
+
+/**
+ * Check the client's continuance is not overdue before allowing task creation
+ * Clients without an approved acceptance are left to the client acceptance check
+ */
+export async function enforceClientContinuanceForTaskCreation(
+  clientId: number
+): Promise<void> {
+  const status = await getClientContinuanceStatus(clientId);
+
+  if (!status.required || !status.isOverdue) {
+    return;
+  }
+
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { clientCode: true, clientNameFull: true },
+  });
+
+  const pendingApproval = status.continuance?.status === 'SUBMITTED';
+
+  throw new AppError(
+    403,
+    `The annual Client Continuance for ${client?.clientNameFull || client?.clientCode || 'this client'} was due on ${formatDate(status.dueDate)}. ${
+      pendingApproval
+        ? 'Tasks can be created once the submitted continuance has been approved.'
+        : 'Please complete the Client Continuance assessment first.'
+    }`,
+    ErrorCodes.FORBIDDEN,
+    { clientId, clientCode: client?.clientCode, continuanceId: status.continuance?.id ?? null }
+  );
+}
@@ -73,11 +73,17 @@ export const SERVICE_LINE_ROLE_FEATURES: Record<ServiceLineRole, Feature[]> = {
     Feature.MANAGE_EXTERNAL_LINKS,
     Feature.MANAGE_TOOLS,
     Feature.MANAGE_DATABASE,
+    Feature.MANAGE_APPROVAL_ROUTES,
+    Feature.MANAGE_FINANCIAL_MAPPING,
+    Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES,
 
     // Document Vault
     Feature.ACCESS_DOCUMENT_VAULT,
     Feature.MANAGE_VAULT_DOCUMENTS,
 
+    // QRM
+    Feature.MANAGE_RISK_SCORING,
+
     // Advanced
     Feature.USE_AI_TOOLS,
     Feature.EXPORT_REPORTS,
@@ -54,6 +54,9 @@ export enum Feature {
   MANAGE_TOOLS = 'manage_tools',
   ACCESS_BUG_REPORTS = 'access_bug_reports',
   MANAGE_DATABASE = 'manage_database',
+  MANAGE_APPROVAL_ROUTES = 'manage_approval_routes',
+  MANAGE_FINANCIAL_MAPPING = 'manage_financial_mapping',
+  MANAGE_ACCEPTANCE_QUESTIONNAIRES = 'manage_acceptance_questionnaires',
 
   // Document Vault
   ACCESS_DOCUMENT_VAULT = 'access_document_vault',
@@ -62,6 +65,7 @@ export enum Feature {
   // QRM (Quality & Risk Management)
   ACCESS_QRM = 'access_qrm',
   VIEW_QRM_MONITORING = 'view_qrm_monitoring',
+  MANAGE_RISK_SCORING = 'manage_risk_scoring',
 
   // Advanced
   USE_AI_TOOLS = 'use_ai_tools',
@@ -124,6 +128,9 @@ export const FEATURE_CATEGORIES = {
     Feature.MANAGE_TOOLS,
     Feature.ACCESS_BUG_REPORTS,
     Feature.MANAGE_DATABASE,
+    Feature.MANAGE_APPROVAL_ROUTES,
+    Feature.MANAGE_FINANCIAL_MAPPING,
+    Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES,
   ],
   DOCUMENT_VAULT: [
     Feature.ACCESS_DOCUMENT_VAULT,
@@ -132,6 +139,7 @@ export const FEATURE_CATEGORIES = {
   QRM: [
     Feature.ACCESS_QRM,
     Feature.VIEW_QRM_MONITORING,
+    Feature.MANAGE_RISK_SCORING,
   ],
   ADVANCED: [
     Feature.USE_AI_TOOLS,
@@ -184,12 +192,16 @@ export const FEATURE_DESCRIPTIONS: Record<Feature, string> = {
   [Feature.MANAGE_TOOLS]: 'Create and manage tools and their assignments',
   [Feature.ACCESS_BUG_REPORTS]: 'View and manage user-reported bugs',
   [Feature.MANAGE_DATABASE]: 'Manage database operations and maintenance',
+  [Feature.MANAGE_APPROVAL_ROUTES]: 'Configure approval routes and approver groups',
+  [Feature.MANAGE_FINANCIAL_MAPPING]: 'Map GL accounts to financial statement lines',
+  [Feature.MANAGE_ACCEPTANCE_QUESTIONNAIRES]: 'Edit and publish acceptance questionnaire versions',
 
   [Feature.ACCESS_DOCUMENT_VAULT]: 'Access the document vault',
   [Feature.MANAGE_VAULT_DOCUMENTS]: 'Upload, archive, and manage vault documents',
 
   [Feature.ACCESS_QRM]: 'Access QRM (Quality & Risk Management) features',
   [Feature.VIEW_QRM_MONITORING]: 'View QRM monitoring dashboards and statistics',
+  [Feature.MANAGE_RISK_SCORING]: 'Configure and simulate the acceptance risk scoring model',
 
   [Feature.USE_AI_TOOLS]: 'Use AI-powered tools and features',
   [Feature.EXPORT_REPORTS]: 'Export reports and data',
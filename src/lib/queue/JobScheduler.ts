@@ -0,0 +1,304 @@
+/**
+ * Job Scheduler
+ *
+ * Fires cron-style recurring jobs (stored in the JobSchedule table) onto the
+ * Redis-backed queue. The scheduler only enqueues - the job itself is run by
+ * whichever worker consumes the schedule's queue.
+ *
+ * Every worker replica runs a scheduler. De-duplication relies on the unique
+ * (scheduleId, scheduledFor) key on JobScheduleRun: replicas race to insert the
+ * run row for an occurrence and only the winner enqueues the job.
+ *
+ * Missed occurrences (e.g. while all replicas were down) are not replayed - a
+ * late schedule fires once and then moves on to its next future occurrence.
+ *
+ * The run id travels in the job data so the worker can record the outcome
+ * (COMPLETED or FAILED) on the run once the job has actually run.
+ *
+ * Usage:
+ * ```typescript
+ * jobScheduler.start();
+ * await jobScheduler.triggerNow(scheduleId, user.id);
+ * jobScheduler.stop();
+ * ```
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { isRedisAvailable } from '@/lib/cache/redisClient';
+import { logger } from '@/lib/utils/logger';
+import { queue } from './QueueService';
+import { getNextRunTime } from './cron';
+
+export type ScheduleRunTrigger = 'SCHEDULE' | 'MANUAL';
+export type ScheduleRunStatus = 'ENQUEUED' | 'COMPLETED' | 'FAILED';
+
+/**
+ * Data passed to the job for every scheduled run
+ * The schedule's stored payload is merged over these fields
+ */
+export interface ScheduledJobData {
+  scheduleId: number;
+  runId: number;
+  scheduleName: string;
+  scheduledFor: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Result of firing a schedule
+ */
+export interface ScheduleRunResult {
+  runId: number;
+  status: ScheduleRunStatus;
+  jobId: string | null;
+  error: string | null;
+}
+
+interface DueSchedule {
+  id: number;
+  name: string;
+  cronExpression: string;
+  queueName: string;
+  jobType: string;
+  payload: string | null;
+}
+
+const TICK_INTERVAL_MS = 30000;
+const MAX_SCHEDULES_PER_TICK = 50;
+
+const DUE_SCHEDULE_SELECT = {
+  id: true,
+  name: true,
+  cronExpression: true,
+  queueName: true,
+  jobType: true,
+  payload: true,
+} as const;
+
+/**
+ * Compute the next occurrence for a schedule, or null if the expression is invalid
+ * An invalid expression leaves the schedule idle rather than failing every tick
+ */
+export function computeNextRunAt(cronExpression: string, after: Date = new Date()): Date | null {
+  try {
+    return getNextRunTime(cronExpression, after);
+  } catch (error) {
+    logger.error('Invalid cron expression on job schedule', { cronExpression, error });
+    return null;
+  }
+}
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+class JobScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  /**
+   * Start polling for due schedules
+   */
+  start(): void {
+    if (this.timer) {
+      logger.warn('Job scheduler is already running');
+      return;
+    }
+
+    void this.tick();
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, TICK_INTERVAL_MS);
+
+    logger.info('Job scheduler started', { tickIntervalMs: TICK_INTERVAL_MS });
+  }
+
+  /**
+   * Stop polling for due schedules
+   */
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    logger.info('Job scheduler stopped');
+  }
+
+  /**
+   * Fire every enabled schedule whose next run is due
+   * Skipped entirely while Redis is down so occurrences are not consumed without a job
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking || !isRedisAvailable()) return;
+    this.ticking = true;
+
+    try {
+      await this.initializeNextRuns(now);
+
+      const due = await prisma.jobSchedule.findMany({
+        where: { enabled: true, nextRunAt: { lte: now } },
+        select: { ...DUE_SCHEDULE_SELECT, nextRunAt: true },
+        orderBy: { nextRunAt: 'asc' },
+        take: MAX_SCHEDULES_PER_TICK,
+      });
+
+      for (const schedule of due) {
+        await this.fireScheduled(schedule, schedule.nextRunAt!, now);
+      }
+    } catch (error) {
+      logger.error('Job scheduler tick failed', { error });
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Fire a schedule immediately, outside its cron cadence
+   * Does not change the schedule's next run
+   */
+  async triggerNow(scheduleId: number, userId: string): Promise<ScheduleRunResult | null> {
+    const schedule = await prisma.jobSchedule.findUnique({
+      where: { id: scheduleId },
+      select: DUE_SCHEDULE_SELECT,
+    });
+
+    if (!schedule) return null;
+
+    const now = new Date();
+    const run = await prisma.jobScheduleRun.create({
+      data: {
+        scheduleId,
+        scheduledFor: now,
+        trigger: 'MANUAL',
+        triggeredById: userId,
+      },
+      select: { id: true },
+    });
+
+    await prisma.jobSchedule.update({
+      where: { id: scheduleId },
+      data: { lastRunAt: now },
+    });
+
+    return this.enqueueRun(schedule, run.id, now);
+  }
+
+  /**
+   * Record how a run's job finished
+   * Called by the worker after every attempt; a retry that succeeds replaces
+   * an earlier FAILED outcome
+   */
+  async recordRunOutcome(runId: number, error: string | null): Promise<void> {
+    try {
+      await prisma.jobScheduleRun.update({
+        where: { id: runId },
+        data: { status: error ? 'FAILED' : 'COMPLETED', finishedAt: new Date(), error },
+      });
+    } catch (updateError) {
+      // Bookkeeping only - never fail the job because the run row could not be updated
+      logger.error('Failed to record schedule run outcome', { runId, error: updateError });
+    }
+  }
+
+  /**
+   * Schedules created outside the app (e.g. seed SQL) or just resumed have no
+   * next run yet - compute it from now
+   */
+  private async initializeNextRuns(now: Date): Promise<void> {
+    const pending = await prisma.jobSchedule.findMany({
+      where: { enabled: true, nextRunAt: null },
+      select: { id: true, cronExpression: true },
+      take: MAX_SCHEDULES_PER_TICK,
+    });
+
+    for (const schedule of pending) {
+      const nextRunAt = computeNextRunAt(schedule.cronExpression, now);
+      if (!nextRunAt) continue;
+
+      await prisma.jobSchedule.updateMany({
+        where: { id: schedule.id, nextRunAt: null },
+        data: { nextRunAt },
+      });
+    }
+  }
+
+  /**
+   * Claim and fire one occurrence of a schedule
+   */
+  private async fireScheduled(schedule: DueSchedule, scheduledFor: Date, now: Date): Promise<void> {
+    let runId: number;
+
+    try {
+      const run = await prisma.jobScheduleRun.create({
+        data: { scheduleId: schedule.id, scheduledFor, trigger: 'SCHEDULE' },
+        select: { id: true },
+      });
+      runId = run.id;
+    } catch (error) {
+      // Another replica already claimed this occurrence
+      if (isUniqueConstraintError(error)) return;
+      throw error;
+    }
+
+    // Advance from now rather than from scheduledFor so downtime does not cause a burst of catch-up runs
+    await prisma.jobSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: scheduledFor },
+      data: {
+        lastRunAt: now,
+        nextRunAt: computeNextRunAt(schedule.cronExpression, now),
+      },
+    });
+
+    await this.enqueueRun(schedule, runId, scheduledFor);
+  }
+
+  /**
+   * Enqueue the job for a claimed run and record the outcome on the run
+   */
+  private async enqueueRun(
+    schedule: DueSchedule,
+    runId: number,
+    scheduledFor: Date
+  ): Promise<ScheduleRunResult> {
+    let jobId: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const payload = schedule.payload ? (JSON.parse(schedule.payload) as Record<string, unknown>) : {};
+      const data: ScheduledJobData = {
+        ...payload,
+        scheduleId: schedule.id,
+        runId,
+        scheduleName: schedule.name,
+        scheduledFor: scheduledFor.toISOString(),
+      };
+
+      jobId = await queue.enqueue(schedule.queueName, schedule.jobType, data);
+    } catch (enqueueError) {
+      error = enqueueError instanceof Error ? enqueueError.message : 'Unknown error';
+      logger.error('Failed to enqueue scheduled job', { scheduleId: schedule.id, name: schedule.name, error });
+    }
+
+    const status: ScheduleRunStatus = jobId ? 'ENQUEUED' : 'FAILED';
+
+    await prisma.jobScheduleRun.update({
+      where: { id: runId },
+      data: { status, jobId, error },
+    });
+
+    logger.info('Scheduled job fired', {
+      scheduleId: schedule.id,
+      name: schedule.name,
+      queueName: schedule.queueName,
+      jobType: schedule.jobType,
+      jobId,
+      status,
+    });
+
+    return { runId, status, jobId, error };
+  }
+}
+
+// Singleton instance
+export const jobScheduler = new JobScheduler();
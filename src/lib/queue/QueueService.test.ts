@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/cache/redisClient', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  const redis = new RedisMock();
+  return { getRedisClient: () => redis, isRedisAvailable: () => true };
+});
+
+import { getRedisClient } from '@/lib/cache/redisClient';
+import { QueueService } from './QueueService';
+
+const QUEUE = 'test';
+const VISIBILITY_TIMEOUT_MS = 60000;
+
+describe('QueueService leases', () => {
+  let queue: QueueService;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 0, 1, 9, 0, 0));
+    await getRedisClient()!.flushall();
+    queue = new QueueService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Stall the current holder past the visibility timeout, reclaim, then re-dequeue once the retry backoff is over */
+  async function reclaimAndRedequeue() {
+    vi.advanceTimersByTime(VISIBILITY_TIMEOUT_MS + 1);
+    expect(await queue.cleanupStuckJobs(QUEUE, VISIBILITY_TIMEOUT_MS)).toBe(1);
+    vi.advanceTimersByTime(5000);
+    return queue.dequeue(QUEUE);
+  }
+
+  it('gives each dequeue its own lease token', async () => {
+    const jobId = await queue.enqueue(QUEUE, 'work', { n: 1 });
+    const first = await queue.dequeue(QUEUE);
+
+    expect(first?.id).toBe(jobId);
+    expect(first?.leaseToken).toBeTruthy();
+    expect(await queue.heartbeat(QUEUE, jobId, first!.leaseToken)).toBe(true);
+
+    const second = await reclaimAndRedequeue();
+
+    expect(second?.id).toBe(jobId);
+    expect(second?.leaseToken).toBeTruthy();
+    expect(second?.leaseToken).not.toBe(first?.leaseToken);
+  });
+
+  it('refuses heartbeat, complete and retry from a worker whose job was reclaimed and re-dequeued', async () => {
+    const jobId = await queue.enqueue(QUEUE, 'work', { n: 1 });
+    const stale = await queue.dequeue(QUEUE);
+    const current = await reclaimAndRedequeue();
+
+    expect(await queue.heartbeat(QUEUE, jobId, stale!.leaseToken)).toBe(false);
+    expect(await queue.complete(QUEUE, jobId, stale!.leaseToken)).toBe(false);
+    expect(await queue.retry(QUEUE, jobId, 'late failure', stale!.leaseToken)).toBe(false);
+
+    // The second run is untouched: still processing, one attempt used by the reclaim
+    const job = await queue.getJob(QUEUE, jobId);
+    expect(job?.status).toBe('processing');
+    expect(job?.attempts).toBe(1);
+    expect((await queue.getStats(QUEUE)).processing).toBe(1);
+
+    expect(await queue.heartbeat(QUEUE, jobId, current!.leaseToken)).toBe(true);
+    expect(await queue.complete(QUEUE, jobId, current!.leaseToken)).toBe(true);
+    expect(await queue.getJob(QUEUE, jobId)).toBeNull();
+    expect((await queue.getStats(QUEUE)).processing).toBe(0);
+  });
+
+  it('lets the lease holder retry the job', async () => {
+    const jobId = await queue.enqueue(QUEUE, 'work', { n: 1 });
+    const job = await queue.dequeue(QUEUE);
+
+    expect(await queue.retry(QUEUE, jobId, 'boom', job!.leaseToken)).toBe(true);
+
+    const stats = await queue.getStats(QUEUE);
+    expect(stats.pending).toBe(1);
+    expect(stats.processing).toBe(0);
+    expect((await queue.getJob(QUEUE, jobId))?.attempts).toBe(1);
+    // The lease ends with the retry
+    expect(await queue.heartbeat(QUEUE, jobId, job!.leaseToken)).toBe(false);
+  });
+});
@@ -10,6 +10,10 @@
  * - Dead letter queue for failed jobs
  * - Priority queue support
  * - Job status tracking
+ * - Visibility timeouts: processing jobs must heartbeat or are returned to pending
+ * - Lease tokens: each dequeue gets its own token, so a worker whose job was
+ *   reclaimed and handed to another worker cannot heartbeat, complete or retry it
+ * - Worker liveness registry for the admin dashboard
  * 
  * Usage:
  * ```typescript
@@ -23,7 +27,7 @@
  * const job = await queue.dequeue('documents');
  * if (job) {
  *   await processJob(job);
- *   await queue.complete('documents', job.id);
+ *   await queue.complete('documents', job.id, job.leaseToken);
  * }
  * ```
  */
@@ -50,6 +54,8 @@ export interface Job<T = any> {
   updatedAt?: Date;
   status: JobStatus;
   error?: string;
+  /** Token for this dequeue - only set on jobs returned by dequeue */
+  leaseToken?: string;
 }
 
 /**
@@ -71,6 +77,114 @@ export interface QueueStats {
   total: number;
 }
 
+/**
+ * Point-in-time queue statistics used for trend charts
+ */
+export interface QueueStatsSnapshot extends QueueStats {
+  timestamp: string;
+}
+
+/**
+ * Job states that are held in a Redis set or sorted set and can be listed
+ */
+export type ListableJobStatus = Exclude<JobStatus, 'completed'>;
+
+/**
+ * Result of a bulk operation on failed jobs
+ */
+export interface BulkJobResult {
+  affected: number;
+  skipped: string[];
+}
+
+/**
+ * Liveness record for a running worker
+ */
+export interface WorkerInfo {
+  workerId: string;
+  name: string;
+  queueName: string;
+  host: string;
+  pid: number;
+  startedAt: string;
+  lastHeartbeatAt: string;
+  currentJobId: string | null;
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Worker record as shown in admin views
+ */
+export interface WorkerStatus extends WorkerInfo {
+  stale: boolean;
+}
+
+/**
+ * Queues that always appear in admin views, even before their first job
+ */
+export const KNOWN_QUEUES = ['documents', 'emails', 'scheduled'] as const;
+
+/**
+ * How long stats snapshots are kept for trend charts (24 hours)
+ */
+const STATS_HISTORY_RETENTION_MS = 86400000;
+
+/**
+ * Default visibility timeout for processing jobs (5 minutes)
+ * A job whose worker has not heartbeated within this window is considered abandoned
+ */
+export const DEFAULT_VISIBILITY_TIMEOUT_MS = 300000;
+
+/**
+ * Workers that have not reported within this window are shown as stale (2 minutes)
+ */
+const WORKER_STALE_AFTER_MS = 120000;
+
+/**
+ * Stale worker records are pruned after this window (1 hour)
+ */
+const WORKER_PRUNE_AFTER_MS = 3600000;
+
+/**
+ * Extend a job's visibility timeout if the caller still holds its lease
+ * KEYS: processing, heartbeats, leases
+ * ARGV: jobId, leaseToken ('' = no lease, only require the job to be processing), now
+ */
+const HEARTBEAT_SCRIPT = `
+if ARGV[2] ~= '' then
+  if redis.call('HGET', KEYS[3], ARGV[1]) ~= ARGV[2] then return 0 end
+elseif redis.call('SISMEMBER', KEYS[1], ARGV[1]) == 0 then
+  return 0
+end
+redis.call('ZADD', KEYS[2], ARGV[3], ARGV[1])
+return 1
+`;
+
+/**
+ * Release a processing job if the caller still holds its lease, then delete it
+ * (complete), dead-letter it (failed) or return it to pending (pending)
+ * KEYS: processing, heartbeats, leases, job, pending, failed
+ * ARGV: jobId, leaseToken ('' = unconditional), outcome, job JSON, TTL seconds, pending score
+ */
+const RELEASE_SCRIPT = `
+if ARGV[2] ~= '' and redis.call('HGET', KEYS[3], ARGV[1]) ~= ARGV[2] then return 0 end
+redis.call('SREM', KEYS[1], ARGV[1])
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('HDEL', KEYS[3], ARGV[1])
+if ARGV[3] == 'complete' then
+  redis.call('DEL', KEYS[4])
+else
+  redis.call('SET', KEYS[4], ARGV[4], 'EX', ARGV[5])
+  if ARGV[3] == 'failed' then
+    redis.call('SADD', KEYS[6], ARGV[1])
+  else
+    redis.call('ZADD', KEYS[5], ARGV[6], ARGV[1])
+  end
+end
+return 1
+`;
+
 export class QueueService {
   private redis = getRedisClient();
 
@@ -186,20 +300,19 @@ export class QueueService {
       const job = JSON.parse(jobData) as Job<T>;
       job.status = 'processing';
       job.updatedAt = new Date();
+      const leaseToken = randomBytes(16).toString('hex');
 
-      // Add to processing set
-      await this.redis.sadd(`queue:${queueName}:processing`, jobId);
-      
-      // Update job status
-      await this.redis.set(
-        `queue:${queueName}:job:${jobId}`,
-        JSON.stringify(job),
-        'EX',
-        86400
-      );
+      // Add to processing set, take the lease and start the visibility timeout clock
+      await this.redis
+        .multi()
+        .sadd(`queue:${queueName}:processing`, jobId)
+        .hset(`queue:${queueName}:leases`, jobId, leaseToken)
+        .zadd(`queue:${queueName}:heartbeats`, Date.now(), jobId)
+        .set(`queue:${queueName}:job:${jobId}`, JSON.stringify(job), 'EX', 86400)
+        .exec();
 
       logger.debug('Job dequeued', { queueName, jobId, type: job.type });
-      return job;
+      return { ...job, leaseToken };
     } catch (error) {
       logger.error('Error dequeuing job', { queueName, error });
       return null;
@@ -211,22 +324,60 @@ export class QueueService {
    * 
    * @param queueName - Name of the queue
    * @param jobId - Job ID
+   * @param leaseToken - Lease from dequeue; when given, the job is only completed if the lease is still held
+   * @returns False if the lease was lost (the job was reclaimed and belongs to another run)
    */
-  async complete(queueName: string, jobId: string): Promise<void> {
+  async complete(queueName: string, jobId: string, leaseToken?: string): Promise<boolean> {
     if (!this.redis || !isRedisAvailable()) {
-      return;
+      return true;
     }
 
     try {
-      // Remove from processing set
-      await this.redis.srem(`queue:${queueName}:processing`, jobId);
-      
       // Delete job data (or could move to completed set with shorter TTL)
-      await this.redis.del(`queue:${queueName}:job:${jobId}`);
-      
+      const released = await this.release(queueName, jobId, leaseToken, 'complete');
+      if (!released) {
+        logger.warn('Job lease lost - not completing', { queueName, jobId });
+        return false;
+      }
+
       logger.info('Job completed', { queueName, jobId });
+      return true;
     } catch (error) {
       logger.error('Error completing job', { queueName, jobId, error });
+      return true;
+    }
+  }
+
+  /**
+   * Extend the visibility timeout of a job that is still being processed
+   * Workers should call this periodically while a job is running
+   * 
+   * @param queueName - Name of the queue
+   * @param jobId - Job ID
+   * @param leaseToken - Lease from dequeue; without one, only checks the job is still processing
+   * @returns False if the lease was lost (e.g. the job was reclaimed, possibly re-dequeued)
+   */
+  async heartbeat(queueName: string, jobId: string, leaseToken?: string): Promise<boolean> {
+    if (!this.redis || !isRedisAvailable()) {
+      return true;
+    }
+
+    try {
+      const extended = await this.redis.eval(
+        HEARTBEAT_SCRIPT,
+        3,
+        `queue:${queueName}:processing`,
+        `queue:${queueName}:heartbeats`,
+        `queue:${queueName}:leases`,
+        jobId,
+        leaseToken ?? '',
+        Date.now()
+      );
+      return extended === 1;
+    } catch (error) {
+      logger.error('Error recording job heartbeat', { queueName, jobId, error });
+      // Assume we still own the job - a transient Redis error should not abort work
+      return true;
     }
   }
 
@@ -236,17 +387,19 @@ export class QueueService {
    * @param queueName - Name of the queue
    * @param jobId - Job ID
    * @param error - Error message
+   * @param leaseToken - Lease from dequeue; when given, the job is only retried if the lease is still held
+   * @returns False if the lease was lost (the job was reclaimed and belongs to another run)
    */
-  async retry(queueName: string, jobId: string, error?: string): Promise<void> {
+  async retry(queueName: string, jobId: string, error?: string, leaseToken?: string): Promise<boolean> {
     if (!this.redis || !isRedisAvailable()) {
-      return;
+      return true;
     }
 
     try {
       const jobData = await this.redis.get(`queue:${queueName}:job:${jobId}`);
       if (!jobData) {
         logger.warn('Job not found for retry', { queueName, jobId });
-        return;
+        return true;
       }
 
       const job = JSON.parse(jobData) as Job;
@@ -259,14 +412,18 @@ export class QueueService {
       if (job.attempts >= job.maxAttempts) {
         // Move to dead letter queue (failed permanently)
         job.status = 'failed';
-        await this.redis.sadd(`queue:${queueName}:failed`, jobId);
-        await this.redis.srem(`queue:${queueName}:processing`, jobId);
-        await this.redis.set(
-          `queue:${queueName}:job:${jobId}`,
+        const released = await this.release(
+          queueName,
+          jobId,
+          leaseToken,
+          'failed',
           JSON.stringify(job),
-          'EX',
           86400 * 7 // Keep failed jobs for 7 days
         );
+        if (!released) {
+          logger.warn('Job lease lost - not retrying', { queueName, jobId });
+          return false;
+        }
         
         logger.error('Job failed permanently', { queueName, jobId, attempts: job.attempts, error });
       } else {
@@ -274,21 +431,60 @@ export class QueueService {
         const delay = Math.min(1000 * Math.pow(2, job.attempts), 60000); // Max 60s
         job.status = 'pending';
         
-        await this.redis.set(`queue:${queueName}:job:${jobId}`, JSON.stringify(job), 'EX', 86400);
-        await this.redis.zadd(
-          `queue:${queueName}:pending`,
-          Date.now() + delay,
-          jobId
+        const released = await this.release(
+          queueName,
+          jobId,
+          leaseToken,
+          'pending',
+          JSON.stringify(job),
+          86400,
+          Date.now() + delay
         );
-        await this.redis.srem(`queue:${queueName}:processing`, jobId);
+        if (!released) {
+          logger.warn('Job lease lost - not retrying', { queueName, jobId });
+          return false;
+        }
         
         logger.warn('Job retry scheduled', { queueName, jobId, attempt: job.attempts, delayMs: delay });
       }
+      return true;
     } catch (error) {
       logger.error('Error retrying job', { queueName, jobId, error });
+      return true;
     }
   }
 
+  /**
+   * Atomically release a processing job (lease check plus every key update)
+   */
+  private async release(
+    queueName: string,
+    jobId: string,
+    leaseToken: string | undefined,
+    outcome: 'complete' | 'failed' | 'pending',
+    jobJson: string = '',
+    ttlSeconds: number = 0,
+    pendingScore: number = 0
+  ): Promise<boolean> {
+    const released = await this.redis!.eval(
+      RELEASE_SCRIPT,
+      6,
+      `queue:${queueName}:processing`,
+      `queue:${queueName}:heartbeats`,
+      `queue:${queueName}:leases`,
+      `queue:${queueName}:job:${jobId}`,
+      `queue:${queueName}:pending`,
+      `queue:${queueName}:failed`,
+      jobId,
+      leaseToken ?? '',
+      outcome,
+      jobJson,
+      ttlSeconds,
+      pendingScore
+    );
+    return released === 1;
+  }
+
   /**
    * Get queue statistics
    * 
@@ -345,14 +541,280 @@ export class QueueService {
   }
 
   /**
-   * Clean up stuck jobs (jobs in processing for too long)
-   * Should be run periodically
+   * List all queue names that currently have jobs in Redis
+   * Known queues are always included so they show up with zero counts
+   * 
+   * @returns Sorted list of queue names
+   */
+  async listQueues(): Promise<string[]> {
+    const names = new Set<string>(KNOWN_QUEUES);
+
+    if (!this.redis || !isRedisAvailable()) {
+      return Array.from(names).sort();
+    }
+
+    try {
+      const pattern = /^queue:(.+):(pending|processing|failed)$/;
+      let cursor = '0';
+
+      do {
+        const [nextCursor, keys] = await this.redis.scan(cursor, 'MATCH', 'queue:*', 'COUNT', 200);
+        cursor = nextCursor;
+
+        for (const key of keys) {
+          const match = key.match(pattern);
+          if (match?.[1] && !match[1].includes(':job:')) {
+            names.add(match[1]);
+          }
+        }
+      } while (cursor !== '0');
+    } catch (error) {
+      logger.error('Error listing queues', { error });
+    }
+
+    return Array.from(names).sort();
+  }
+
+  /**
+   * List jobs in a given state, newest activity first
    * 
    * @param queueName - Name of the queue
-   * @param timeoutMs - Timeout in milliseconds (default: 1 hour)
-   * @returns Number of jobs cleaned up
+   * @param status - Job state to list
+   * @param offset - Number of jobs to skip
+   * @param limit - Maximum number of jobs to return
+   * @returns Jobs with their data plus the total number of job IDs in that state
    */
-  async cleanupStuckJobs(queueName: string, timeoutMs: number = 3600000): Promise<number> {
+  async getJobs<T = unknown>(
+    queueName: string,
+    status: ListableJobStatus,
+    offset: number = 0,
+    limit: number = 50
+  ): Promise<{ jobs: Job<T>[]; total: number; missing: string[] }> {
+    if (!this.redis || !isRedisAvailable()) {
+      return { jobs: [], total: 0, missing: [] };
+    }
+
+    try {
+      let jobIds: string[];
+      let total: number;
+
+      if (status === 'pending') {
+        // Sorted by score (ready time / priority)
+        [jobIds, total] = await Promise.all([
+          this.redis.zrange(`queue:${queueName}:pending`, offset, offset + limit - 1),
+          this.redis.zcard(`queue:${queueName}:pending`),
+        ]);
+      } else {
+        // Sets are unordered, so sort IDs for stable pagination
+        const allIds = (await this.redis.smembers(`queue:${queueName}:${status}`)).sort();
+        total = allIds.length;
+        jobIds = allIds.slice(offset, offset + limit);
+      }
+
+      if (jobIds.length === 0) {
+        return { jobs: [], total, missing: [] };
+      }
+
+      const jobData = await this.redis.mget(
+        ...jobIds.map(jobId => `queue:${queueName}:job:${jobId}`)
+      );
+
+      const jobs: Job<T>[] = [];
+      const missing: string[] = [];
+
+      jobIds.forEach((jobId, index) => {
+        const raw = jobData[index];
+        if (raw) {
+          jobs.push(JSON.parse(raw) as Job<T>);
+        } else {
+          // Job data expired but the ID is still referenced
+          missing.push(jobId);
+        }
+      });
+
+      return { jobs, total, missing };
+    } catch (error) {
+      logger.error('Error listing jobs', { queueName, status, error });
+      return { jobs: [], total: 0, missing: [] };
+    }
+  }
+
+  /**
+   * Re-enqueue dead-lettered jobs with a fresh attempt budget
+   * 
+   * @param queueName - Name of the queue
+   * @param jobIds - Failed job IDs to replay (all failed jobs if omitted)
+   * @returns Number of jobs replayed and IDs that could not be replayed
+   */
+  async replayFailed(queueName: string, jobIds?: string[]): Promise<BulkJobResult> {
+    if (!this.redis || !isRedisAvailable()) {
+      return { affected: 0, skipped: jobIds ?? [] };
+    }
+
+    try {
+      const failedIds = await this.redis.smembers(`queue:${queueName}:failed`);
+      const failedSet = new Set(failedIds);
+      const targetIds = jobIds ?? failedIds;
+      const skipped: string[] = [];
+      let affected = 0;
+
+      for (const jobId of targetIds) {
+        if (!failedSet.has(jobId)) {
+          skipped.push(jobId);
+          continue;
+        }
+
+        const jobData = await this.redis.get(`queue:${queueName}:job:${jobId}`);
+        if (!jobData) {
+          // Job data expired - drop the dangling reference
+          await this.redis.srem(`queue:${queueName}:failed`, jobId);
+          skipped.push(jobId);
+          continue;
+        }
+
+        const job = JSON.parse(jobData) as Job;
+        job.attempts = 0;
+        job.status = 'pending';
+        job.updatedAt = new Date();
+
+        await this.redis
+          .multi()
+          .set(`queue:${queueName}:job:${jobId}`, JSON.stringify(job), 'EX', 86400)
+          .zadd(`queue:${queueName}:pending`, Date.now(), jobId)
+          .srem(`queue:${queueName}:failed`, jobId)
+          .exec();
+
+        affected++;
+      }
+
+      logger.warn('Failed jobs replayed', { queueName, affected, skipped: skipped.length });
+      return { affected, skipped };
+    } catch (error) {
+      logger.error('Error replaying failed jobs', { queueName, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete dead-lettered jobs
+   * 
+   * @param queueName - Name of the queue
+   * @param jobIds - Failed job IDs to purge (all failed jobs if omitted)
+   * @returns Number of jobs purged and IDs that were not in the failed set
+   */
+  async purgeFailed(queueName: string, jobIds?: string[]): Promise<BulkJobResult> {
+    if (!this.redis || !isRedisAvailable()) {
+      return { affected: 0, skipped: jobIds ?? [] };
+    }
+
+    try {
+      const failedIds = await this.redis.smembers(`queue:${queueName}:failed`);
+      const failedSet = new Set(failedIds);
+      const targetIds = jobIds ?? failedIds;
+      const toPurge = targetIds.filter(jobId => failedSet.has(jobId));
+      const skipped = targetIds.filter(jobId => !failedSet.has(jobId));
+
+      if (toPurge.length > 0) {
+        const multi = this.redis.multi();
+        for (const jobId of toPurge) {
+          multi.del(`queue:${queueName}:job:${jobId}`);
+        }
+        multi.srem(`queue:${queueName}:failed`, ...toPurge);
+        await multi.exec();
+      }
+
+      logger.warn('Failed jobs purged', { queueName, affected: toPurge.length, skipped: skipped.length });
+      return { affected: toPurge.length, skipped };
+    } catch (error) {
+      logger.error('Error purging failed jobs', { queueName, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a stats snapshot for trend charts
+   * Snapshots are throttled so frequent polling does not flood the history
+   * 
+   * @param queueName - Name of the queue
+   * @param minIntervalMs - Minimum time between snapshots (default: 1 minute)
+   * @returns True if a snapshot was written
+   */
+  async recordStatsSnapshot(queueName: string, minIntervalMs: number = 60000): Promise<boolean> {
+    if (!this.redis || !isRedisAvailable()) {
+      return false;
+    }
+
+    try {
+      // Only one caller per interval gets to write a snapshot
+      const acquired = await this.tryAcquireLock(`${queueName}:stats`, minIntervalMs);
+      if (!acquired) {
+        return false;
+      }
+
+      const stats = await this.getStats(queueName);
+      const now = Date.now();
+      const snapshot: QueueStatsSnapshot = {
+        ...stats,
+        timestamp: new Date(now).toISOString(),
+      };
+
+      await this.redis
+        .multi()
+        .zadd(`queue:${queueName}:stats`, now, JSON.stringify(snapshot))
+        .zremrangebyscore(`queue:${queueName}:stats`, '-inf', now - STATS_HISTORY_RETENTION_MS)
+        .exec();
+
+      return true;
+    } catch (error) {
+      logger.error('Error recording queue stats snapshot', { queueName, error });
+      return false;
+    }
+  }
+
+  /**
+   * Get recorded stats snapshots, oldest first
+   * 
+   * @param queueName - Name of the queue
+   * @param sinceMs - Only return snapshots newer than this many milliseconds (default: 24 hours)
+   * @returns Stats snapshots
+   */
+  async getStatsHistory(
+    queueName: string,
+    sinceMs: number = STATS_HISTORY_RETENTION_MS
+  ): Promise<QueueStatsSnapshot[]> {
+    if (!this.redis || !isRedisAvailable()) {
+      return [];
+    }
+
+    try {
+      const entries = await this.redis.zrangebyscore(
+        `queue:${queueName}:stats`,
+        Date.now() - sinceMs,
+        '+inf'
+      );
+
+      return entries.map(entry => JSON.parse(entry) as QueueStatsSnapshot);
+    } catch (error) {
+      logger.error('Error getting queue stats history', { queueName, error });
+      return [];
+    }
+  }
+
+  /**
+   * Return abandoned jobs to the pending set
+   * A processing job is abandoned when its worker has not heartbeated within the
+   * visibility timeout (e.g. the container died mid-job). Reclaiming counts as an
+   * attempt, so jobs that keep killing their worker end up in the dead letter queue.
+   * Should be run periodically (the worker supervisor does this automatically)
+   * 
+   * @param queueName - Name of the queue
+   * @param visibilityTimeoutMs - Visibility timeout in milliseconds (default: 5 minutes)
+   * @returns Number of jobs reclaimed
+   */
+  async cleanupStuckJobs(
+    queueName: string,
+    visibilityTimeoutMs: number = DEFAULT_VISIBILITY_TIMEOUT_MS
+  ): Promise<number> {
     if (!this.redis || !isRedisAvailable()) {
       return 0;
     }
@@ -364,18 +826,37 @@ export class QueueService {
 
       for (const jobId of processingJobIds) {
         const job = await this.getJob(queueName, jobId);
-        if (!job || !job.updatedAt) continue;
+        if (!job) {
+          // Job data expired while processing - drop the dangling reference
+          await this.redis.srem(`queue:${queueName}:processing`, jobId);
+          await this.redis.zrem(`queue:${queueName}:heartbeats`, jobId);
+          await this.redis.hdel(`queue:${queueName}:leases`, jobId);
+          continue;
+        }
 
-        const jobAge = now - new Date(job.updatedAt).getTime();
-        if (jobAge > timeoutMs) {
-          // Job is stuck, retry it
-          await this.retry(queueName, jobId, 'Job timeout - stuck in processing');
-          cleanedUp++;
+        // Jobs dequeued before heartbeats existed fall back to their last update
+        const lastHeartbeat = await this.redis.zscore(`queue:${queueName}:heartbeats`, jobId);
+        const lastSeen = lastHeartbeat !== null
+          ? Number(lastHeartbeat)
+          : job.updatedAt ? new Date(job.updatedAt).getTime() : 0;
+
+        if (now - lastSeen > visibilityTimeoutMs) {
+          // Revoke the lease seen here, so a late heartbeat or result from the stalled worker is refused
+          const leaseToken = await this.redis.hget(`queue:${queueName}:leases`, jobId);
+          const reclaimed = await this.retry(
+            queueName,
+            jobId,
+            'Visibility timeout - worker stopped heartbeating',
+            leaseToken ?? undefined
+          );
+          if (reclaimed) {
+            cleanedUp++;
+          }
         }
       }
 
       if (cleanedUp > 0) {
-        logger.warn('Cleaned up stuck jobs', { queueName, count: cleanedUp });
+        logger.warn('Reclaimed abandoned jobs', { queueName, count: cleanedUp });
       }
 
       return cleanedUp;
@@ -385,6 +866,103 @@ export class QueueService {
     }
   }
 
+  /**
+   * Try to acquire a short-lived lock shared by all replicas
+   * Used so periodic maintenance only runs on one replica per interval
+   * 
+   * @param lockName - Lock name
+   * @param ttlMs - Lock lifetime in milliseconds
+   * @returns True if this caller acquired the lock (or Redis is unavailable)
+   */
+  async tryAcquireLock(lockName: string, ttlMs: number): Promise<boolean> {
+    if (!this.redis || !isRedisAvailable()) {
+      // Single-instance fallback - nothing to coordinate with
+      return true;
+    }
+
+    try {
+      const acquired = await this.redis.set(`queue:lock:${lockName}`, '1', 'PX', ttlMs, 'NX');
+      return acquired === 'OK';
+    } catch (error) {
+      logger.error('Error acquiring queue lock', { lockName, error });
+      return false;
+    }
+  }
+
+  /**
+   * Record a worker liveness heartbeat
+   * 
+   * @param info - Current worker state
+   */
+  async recordWorkerHeartbeat(info: WorkerInfo): Promise<void> {
+    if (!this.redis || !isRedisAvailable()) {
+      return;
+    }
+
+    try {
+      await this.redis.hset('queue:workers', info.workerId, JSON.stringify(info));
+    } catch (error) {
+      logger.error('Error recording worker heartbeat', { workerId: info.workerId, error });
+    }
+  }
+
+  /**
+   * Remove a worker from the liveness registry (on graceful shutdown)
+   * 
+   * @param workerId - Worker ID
+   */
+  async removeWorker(workerId: string): Promise<void> {
+    if (!this.redis || !isRedisAvailable()) {
+      return;
+    }
+
+    try {
+      await this.redis.hdel('queue:workers', workerId);
+    } catch (error) {
+      logger.error('Error removing worker', { workerId, error });
+    }
+  }
+
+  /**
+   * Get all known workers across replicas
+   * Workers that stopped reporting long ago are pruned
+   * 
+   * @returns Worker records with a stale flag
+   */
+  async getWorkers(): Promise<WorkerStatus[]> {
+    if (!this.redis || !isRedisAvailable()) {
+      return [];
+    }
+
+    try {
+      const entries = await this.redis.hgetall('queue:workers');
+      const now = Date.now();
+      const workers: WorkerStatus[] = [];
+      const pruned: string[] = [];
+
+      for (const [workerId, raw] of Object.entries(entries)) {
+        const info = JSON.parse(raw) as WorkerInfo;
+        const age = now - new Date(info.lastHeartbeatAt).getTime();
+
+        if (age > WORKER_PRUNE_AFTER_MS) {
+          pruned.push(workerId);
+          continue;
+        }
+
+        workers.push({ ...info, stale: age > WORKER_STALE_AFTER_MS });
+      }
+
+      if (pruned.length > 0) {
+        await this.redis.hdel('queue:workers', ...pruned);
+      }
+
+      return workers.sort((a, b) => a.name.localeCompare(b.name) || a.host.localeCompare(b.host));
+    } catch (error) {
+      logger.error('Error getting workers', { error });
+      return [];
+    }
+  }
+
   /**
    * Clear all jobs from a queue (use with caution!)
    * 
@@ -413,6 +991,8 @@ export class QueueService {
       multi.del(`queue:${queueName}:pending`);
       multi.del(`queue:${queueName}:processing`);
       multi.del(`queue:${queueName}:failed`);
+      multi.del(`queue:${queueName}:heartbeats`);
+      multi.del(`queue:${queueName}:leases`);
       
       await multi.exec();
       
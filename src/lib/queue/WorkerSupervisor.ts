@@ -0,0 +1,307 @@
+/**
+ * Worker Supervisor
+ *
+ * Runs the polling loop for every registered queue worker so individual workers
+ * only need to provide a job handler.
+ *
+ * Responsibilities:
+ * - Dequeue jobs and invoke the registered handler
+ * - Complete jobs on success, retry (with backoff / dead-lettering) on failure
+ * - Heartbeat in-flight jobs so they are not reclaimed while still running
+ * - Periodically reclaim abandoned jobs (one replica per interval)
+ * - Publish worker liveness for the admin queue dashboard
+ *
+ * Usage:
+ * ```typescript
+ * workerSupervisor.register({
+ *   name: 'document-extraction',
+ *   queueName: 'documents',
+ *   handler: async (job) => { ... }, // throw to trigger a retry
+ * });
+ *
+ * await workerSupervisor.start();
+ * // ...
+ * await workerSupervisor.stop();
+ * ```
+ */
+
+import { hostname } from 'os';
+import { queue, Job, WorkerInfo, DEFAULT_VISIBILITY_TIMEOUT_MS } from './QueueService';
+import { logger } from '@/lib/utils/logger';
+
+/**
+ * Definition of a queue worker
+ */
+export interface WorkerDefinition<T = unknown> {
+  /** Unique worker name (e.g. 'document-extraction') */
+  name: string;
+  /** Queue to consume */
+  queueName: string;
+  /** Job handler - resolve to complete the job, throw to retry it */
+  handler: (job: Job<T>) => Promise<void>;
+  /** Delay between polls when the queue is empty (default: 1 second) */
+  pollIntervalMs?: number;
+  /** Time without a heartbeat before an in-flight job is reclaimed (default: 5 minutes) */
+  visibilityTimeoutMs?: number;
+  /** How often in-flight jobs heartbeat (default: 30 seconds) */
+  heartbeatIntervalMs?: number;
+}
+
+/**
+ * Runtime state for a registered worker
+ */
+interface WorkerState {
+  definition: WorkerDefinition;
+  info: WorkerInfo;
+  loop: Promise<void> | null;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30000;
+const ERROR_BACKOFF_MS = 5000;
+const RECLAIM_INTERVAL_MS = 60000;
+const LIVENESS_INTERVAL_MS = 30000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class WorkerSupervisor {
+  private workers: Map<string, WorkerState> = new Map();
+  private isRunning = false;
+  private reclaimTimer: NodeJS.Timeout | null = null;
+  private livenessTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Register a worker
+   * Workers registered while the supervisor is running are started immediately
+   */
+  register<T>(definition: WorkerDefinition<T>): void {
+    if (this.workers.has(definition.name)) {
+      throw new Error(`Worker "${definition.name}" is already registered`);
+    }
+
+    const now = new Date().toISOString();
+    const state: WorkerState = {
+      definition: definition as WorkerDefinition,
+      info: {
+        workerId: `${hostname()}:${process.pid}:${definition.name}`,
+        name: definition.name,
+        queueName: definition.queueName,
+        host: hostname(),
+        pid: process.pid,
+        startedAt: now,
+        lastHeartbeatAt: now,
+        currentJobId: null,
+        processed: 0,
+        failed: 0,
+      },
+      loop: null,
+    };
+
+    this.workers.set(definition.name, state);
+
+    if (this.isRunning) {
+      this.startWorker(state);
+    }
+  }
+
+  /**
+   * Start all registered workers plus the reclaim and liveness timers
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('Worker supervisor is already running');
+      return;
+    }
+
+    this.isRunning = true;
+
+    for (const state of this.workers.values()) {
+      this.startWorker(state);
+    }
+
+    // Reclaim once on startup so jobs orphaned by a previous container are picked up quickly
+    await this.reclaimAbandonedJobs();
+    this.reclaimTimer = setInterval(() => {
+      void this.reclaimAbandonedJobs();
+    }, RECLAIM_INTERVAL_MS);
+
+    await this.publishLiveness();
+    this.livenessTimer = setInterval(() => {
+      void this.publishLiveness();
+    }, LIVENESS_INTERVAL_MS);
+
+    logger.info('Worker supervisor started', {
+      workers: Array.from(this.workers.keys()),
+    });
+  }
+
+  /**
+   * Stop all workers
+   * In-flight jobs are allowed to finish before this resolves
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+
+    if (this.reclaimTimer) clearInterval(this.reclaimTimer);
+    if (this.livenessTimer) clearInterval(this.livenessTimer);
+    this.reclaimTimer = null;
+    this.livenessTimer = null;
+
+    const states = Array.from(this.workers.values());
+    await Promise.all(states.map(state => state.loop));
+
+    await Promise.all(states.map(state => {
+      state.loop = null;
+      return queue.removeWorker(state.info.workerId);
+    }));
+
+    logger.info('Worker supervisor stopped');
+  }
+
+  /**
+   * Local status of registered workers
+   */
+  getStatus(): { running: boolean; workers: WorkerInfo[] } {
+    return {
+      running: this.isRunning,
+      workers: Array.from(this.workers.values()).map(state => ({ ...state.info })),
+    };
+  }
+
+  private startWorker(state: WorkerState): void {
+    if (state.loop) return;
+
+    state.info.startedAt = new Date().toISOString();
+    state.loop = this.runLoop(state);
+    logger.info('Worker started', { worker: state.definition.name, queueName: state.definition.queueName });
+  }
+
+  /**
+   * Polling loop for a single worker
+   */
+  private async runLoop(state: WorkerState): Promise<void> {
+    const { name, queueName, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS } = state.definition;
+
+    while (this.isRunning) {
+      try {
+        const job = await queue.dequeue(queueName);
+
+        if (!job) {
+          await sleep(pollIntervalMs);
+          continue;
+        }
+
+        await this.processJob(state, job);
+      } catch (error) {
+        logger.error('Worker loop error', { worker: name, queueName, error });
+        // Wait a bit before retrying to avoid tight error loops
+        await sleep(ERROR_BACKOFF_MS);
+      }
+    }
+
+    logger.info('Worker stopped', { worker: name, queueName });
+  }
+
+  /**
+   * Run a single job with heartbeats, completing or retrying it afterwards
+   * Heartbeats, complete and retry all carry the job's lease token. A job
+   * reclaimed while its handler was running belongs to whoever dequeues it next,
+   * so the stale result is refused and this worker leaves the job alone
+   */
+  private async processJob(state: WorkerState, job: Job): Promise<void> {
+    const {
+      name,
+      queueName,
+      handler,
+      heartbeatIntervalMs = DEFAULT_HEARTBEAT_INTERVAL_MS,
+    } = state.definition;
+
+    state.info.currentJobId = job.id;
+    let owned = true;
+
+    const heartbeat = setInterval(() => {
+      void queue.heartbeat(queueName, job.id, job.leaseToken).then(stillOwned => {
+        if (!stillOwned && owned) {
+          owned = false;
+          logger.warn('Job was reclaimed while still running', { worker: name, queueName, jobId: job.id });
+        }
+      });
+    }, heartbeatIntervalMs);
+
+    try {
+      await handler(job);
+      clearInterval(heartbeat);
+      if (!(await queue.complete(queueName, job.id, job.leaseToken))) {
+        logger.warn('Skipping result of reclaimed job', { worker: name, queueName, jobId: job.id });
+      }
+      state.info.processed++;
+    } catch (error) {
+      clearInterval(heartbeat);
+      state.info.failed++;
+      logger.error('Job handler failed', {
+        worker: name,
+        queueName,
+        jobId: job.id,
+        attempt: job.attempts + 1,
+        error,
+      });
+      const retried = await queue.retry(
+        queueName,
+        job.id,
+        error instanceof Error ? error.message : 'Unknown error',
+        job.leaseToken
+      );
+      if (!retried) {
+        logger.warn('Skipping result of reclaimed job', { worker: name, queueName, jobId: job.id });
+      }
+    } finally {
+      clearInterval(heartbeat);
+      state.info.currentJobId = null;
+    }
+  }
+
+  /**
+   * Return abandoned jobs to pending for every queue with a registered worker
+   * Guarded by a shared lock so only one replica reclaims per interval
+   */
+  private async reclaimAbandonedJobs(): Promise<void> {
+    // Use the longest visibility timeout configured for each queue
+    const timeouts = new Map<string, number>();
+    for (const { definition } of this.workers.values()) {
+      const timeout = definition.visibilityTimeoutMs ?? DEFAULT_VISIBILITY_TIMEOUT_MS;
+      timeouts.set(definition.queueName, Math.max(timeouts.get(definition.queueName) ?? 0, timeout));
+    }
+
+    for (const [queueName, timeout] of timeouts) {
+      try {
+        const acquired = await queue.tryAcquireLock(`reclaim:${queueName}`, RECLAIM_INTERVAL_MS);
+        if (acquired) {
+          await queue.cleanupStuckJobs(queueName, timeout);
+        }
+      } catch (error) {
+        logger.error('Error reclaiming abandoned jobs', { queueName, error });
+      }
+    }
+  }
+
+  /**
+   * Publish liveness for all local workers
+   */
+  private async publishLiveness(): Promise<void> {
+    const now = new Date().toISOString();
+
+    await Promise.all(
+      Array.from(this.workers.values()).map(state => {
+        state.info.lastHeartbeatAt = now;
+        return queue.recordWorkerHeartbeat({ ...state.info });
+      })
+    );
+  }
+}
+
+// Singleton instance
+export const workerSupervisor = new WorkerSupervisor();
@@ -0,0 +1,184 @@
+/**
+ * Cron Expressions
+ *
+ * Minimal parser for standard 5-field cron expressions used by job schedules:
+ *
+ * ```
+ * ┌───────────── minute (0-59)
+ * │ ┌─────────── hour (0-23)
+ * │ │ ┌───────── day of month (1-31)
+ * │ │ │ ┌─────── month (1-12)
+ * │ │ │ │ ┌───── day of week (0-6, Sunday = 0; 7 is also accepted as Sunday)
+ * * * * * *
+ * ```
+ *
+ * Each field supports `*`, single values, ranges (`1-5`), lists (`1,15`) and
+ * steps (`*\/15`, `8-18/2`). Expressions are evaluated in UTC.
+ *
+ * As with standard cron, when both day of month and day of week are restricted
+ * a time matches if EITHER field matches.
+ */
+
+interface CronField {
+  values: Set<number>;
+  /** True when the field was `*` (or `*\/n`), i.e. not restricted by the user */
+  wildcard: boolean;
+}
+
+export interface ParsedCron {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+/** Give up looking for a next run after this many years (e.g. `0 0 31 2 *`) */
+const MAX_SEARCH_YEARS = 5;
+
+function parseNumber(value: string, fieldName: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${fieldName} value "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseField(expression: string, index: number): CronField {
+  const range = FIELD_RANGES[index]!;
+  const values = new Set<number>();
+  let wildcard = false;
+
+  for (const part of expression.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (!rangePart || rest.length > 0) {
+      throw new Error(`Invalid ${range.name} field "${expression}"`);
+    }
+
+    const step = stepPart === undefined ? 1 : parseNumber(stepPart, range.name);
+    if (step < 1) {
+      throw new Error(`Invalid ${range.name} step "${stepPart}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      wildcard = true;
+      start = range.min;
+      end = range.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseNumber(from ?? '', range.name);
+      end = parseNumber(to ?? '', range.name);
+    } else {
+      start = parseNumber(rangePart, range.name);
+      // "5/15" means "every 15 starting at 5"
+      end = stepPart === undefined ? start : range.max;
+    }
+
+    if (start < range.min || end > range.max || start > end) {
+      throw new Error(`${range.name} must be between ${range.min} and ${range.max} (got "${rangePart}")`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard };
+}
+
+/**
+ * Parse a cron expression
+ * @throws Error with a descriptive message if the expression is invalid
+ */
+export function parseCronExpression(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields (minute hour day-of-month month day-of-week)');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, index)
+  ) as [CronField, CronField, CronField, CronField, CronField];
+
+  // Normalise Sunday to 0
+  if (daysOfWeek.values.delete(7)) {
+    daysOfWeek.values.add(0);
+  }
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.values.has(date.getUTCDate());
+  const dowMatch = cron.daysOfWeek.values.has(date.getUTCDay());
+
+  if (cron.daysOfMonth.wildcard && cron.daysOfWeek.wildcard) return true;
+  if (cron.daysOfMonth.wildcard) return dowMatch;
+  if (cron.daysOfWeek.wildcard) return domMatch;
+  return domMatch || dowMatch;
+}
+
+/**
+ * Get the first time strictly after `after` that matches the expression
+ * @throws Error if the expression is invalid or never matches
+ */
+export function getNextRunTime(expression: string | ParsedCron, after: Date = new Date()): Date {
+  const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const limit = after.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  // Skip whole months / days / hours at a time rather than testing every minute
+  while (candidate.getUTCFullYear() <= limit) {
+    if (!cron.months.values.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.values.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.values.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  throw new Error('Cron expression never matches');
+}
@@ -0,0 +1,44 @@
+import { workerSupervisor } from '../WorkerSupervisor';
+import { jobScheduler } from '../JobScheduler';
+import { documentWorker } from './documentWorker';
+import { emailWorker } from './emailWorker';
+import { scheduledTaskWorker } from './scheduledTaskWorker';
+
+let initialized = false;
+
+/**
+ * Register all queue workers with the supervisor
+ * New worker types only need a WorkerDefinition added here
+ */
+export function initializeWorkers() {
+  if (initialized) return;
+
+  // Register Document Extraction Worker
+  workerSupervisor.register(documentWorker);
+
+  // Register Email Notification Worker
+  workerSupervisor.register(emailWorker);
+
+  // Register Scheduled Task Worker
+  workerSupervisor.register(scheduledTaskWorker);
+
+  initialized = true;
+}
+
+/**
+ * Register and start all workers and the recurring job scheduler
+ * Call this during application startup
+ */
+export async function startWorkers(): Promise<void> {
+  initializeWorkers();
+  await workerSupervisor.start();
+  jobScheduler.start();
+}
+
+/**
+ * Stop the scheduler and all workers, letting in-flight jobs finish
+ */
+export async function stopWorkers(): Promise<void> {
+  jobScheduler.stop();
+  await workerSupervisor.stop();
+}
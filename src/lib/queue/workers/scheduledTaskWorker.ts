@@ -0,0 +1,100 @@
+/**
+ * Scheduled Task Worker
+ *
+ * Runs maintenance jobs fired by the job scheduler (see `../JobScheduler.ts`)
+ * onto the 'scheduled' queue. Each job type maps to one handler below; a
+ * JobSchedule row with queueName 'scheduled' and a matching jobType is all
+ * that is needed to run it on a cron cadence.
+ *
+ * Registered with the worker supervisor in `./index.ts`, which owns the
+ * polling loop, heartbeats and retries.
+ */
+
+import type { Job } from '../QueueService';
+import { jobScheduler, type ScheduledJobData } from '../JobScheduler';
+import type { WorkerDefinition } from '../WorkerSupervisor';
+import { runAllCleanup } from '@/lib/services/acceptance/cleanup';
+import { generateDueContinuances } from '@/lib/services/acceptance/clientContinuanceService';
+import { processApprovalSlas } from '@/lib/services/approvals/approvalSlaService';
+import { syncRiskRegister } from '@/lib/services/exco/riskRegisterService';
+import { sendFilingDeadlineReminders } from '@/lib/services/notifications/filingDeadlineReminders';
+import { logger } from '@/lib/utils/logger';
+
+export const SCHEDULED_QUEUE = 'scheduled';
+
+type ScheduledTaskHandler = (data: ScheduledJobData) => Promise<unknown>;
+
+/**
+ * Handlers by job type
+ */
+const SCHEDULED_TASK_HANDLERS: Record<string, ScheduledTaskHandler> = {
+  'acceptance-cleanup': () => runAllCleanup(),
+  'filing-deadline-reminders': (data) => {
+    const reminderDays = Array.isArray(data.reminderDays)
+      ? data.reminderDays.filter((day): day is number => Number.isInteger(day) && day >= 0)
+      : undefined;
+    return sendFilingDeadlineReminders(reminderDays);
+  },
+  'approval-sla': () => processApprovalSlas(),
+  'client-continuance': (data) => {
+    const leadDays = typeof data.leadDays === 'number' && Number.isInteger(data.leadDays) && data.leadDays >= 0
+      ? data.leadDays
+      : undefined;
+    return generateDueContinuances(leadDays);
+  },
+  'risk-register-sync': () => syncRiskRegister(),
+};
+
+/**
+ * Job types the scheduled worker can run
+ */
+export const SCHEDULED_TASK_TYPES = Object.keys(SCHEDULED_TASK_HANDLERS);
+
+/**
+ * Process a scheduled task job and record the outcome on its schedule run
+ * Throws on failure so the supervisor retries the job
+ */
+async function processScheduledTask(job: Job<ScheduledJobData>): Promise<void> {
+  const handler = SCHEDULED_TASK_HANDLERS[job.type];
+  if (!handler) {
+    throw new Error(`No scheduled task handler for job type "${job.type}"`);
+  }
+
+  logger.info('Processing scheduled task', {
+    jobId: job.id,
+    jobType: job.type,
+    scheduleName: job.data.scheduleName,
+    scheduledFor: job.data.scheduledFor,
+    attempt: job.attempts + 1,
+  });
+
+  // Jobs enqueued before run ids were added to the payload have no run to update
+  const runId = typeof job.data.runId === 'number' ? job.data.runId : null;
+
+  let result: unknown;
+  try {
+    result = await handler(job.data);
+  } catch (error) {
+    if (runId !== null) {
+      await jobScheduler.recordRunOutcome(runId, error instanceof Error ? error.message : 'Unknown error');
+    }
+    throw error;
+  }
+
+  if (runId !== null) {
+    await jobScheduler.recordRunOutcome(runId, null);
+  }
+
+  logger.info('Scheduled task completed', { jobId: job.id, jobType: job.type, result });
+}
+
+/**
+ * Scheduled task worker definition
+ */
+export const scheduledTaskWorker: WorkerDefinition<ScheduledJobData> = {
+  name: 'scheduled-tasks',
+  queueName: SCHEDULED_QUEUE,
+  handler: processScheduledTask,
+  pollIntervalMs: 5000,
+  visibilityTimeoutMs: 10 * 60 * 1000,
+};
@@ -11,6 +11,8 @@ import {
   type AcceptanceQuestionDef 
 } from '@/constants/acceptance-questions';
 import type { ClientAcceptance, ClientAcceptanceAnswer } from '@/types';
+import { calculateClientAcceptanceRisk } from './riskCalculation';
+import { getClientScoringContext } from './riskScoringService';
 import type { CompanyResearchResult } from '@/lib/services/bd/companyResearchAgent';
 
 export interface ClientAcceptanceStatus {
@@ -439,8 +441,8 @@ export async function submitClientAcceptance(
 
   await saveClientAcceptanceAnswersBatch(clientId, answersToSave, userId);
 
-  // Calculate risk score
-  const riskResult = calculateClientRiskScore(answers, allQuestions);
+  // Calculate risk score with the active scoring model
+  const riskResult = calculateClientAcceptanceRisk(answers, allQuestions, await getClientScoringContext(clientId));
 
   // Update acceptance with completion data and pending team selections
   const updated = await prisma.clientAcceptance.update({
@@ -711,15 +713,17 @@ export async function getClientAcceptance(
 
 /**
  * Ensure questions exist in database (optimized with bulk operations)
+ * Also used by client continuance for the CONTINUANCE_* questionnaires
  */
-async function ensureQuestionsExist(
-  questions: AcceptanceQuestionDef[]
+export async function ensureQuestionsExist(
+  questions: AcceptanceQuestionDef[],
+  questionnaireType: string = 'CLIENT_ACCEPTANCE'
 ): Promise<void> {
   const now = new Date();
   
   // First, try bulk create for new questions (skip duplicates)
   const questionData = questions.map((question) => ({
-    questionnaireType: 'CLIENT_ACCEPTANCE',
+    questionnaireType,
     sectionKey: question.sectionKey,
     questionKey: question.questionKey,
     questionText: question.questionText,
@@ -751,7 +755,7 @@ async function ensureQuestionsExist(
     questions.map((question) =>
       prisma.acceptanceQuestion.updateMany({
         where: {
-          questionnaireType: 'CLIENT_ACCEPTANCE',
+          questionnaireType,
           questionKey: question.questionKey,
         },
         data: {
@@ -771,49 +775,3 @@ async function ensureQuestionsExist(
     )
   );
 }
-
-/**
- * Calculate client risk score
- */
-function calculateClientRiskScore(
-  answers: Record<string, { answer: string; comment?: string }>,
-  questions: AcceptanceQuestionDef[]
-): { score: number; rating: string; summary: string } {
-  let totalRisk = 0;
-  let maxPossibleRisk = 0;
-  const highRiskItems: string[] = [];
-
-  for (const question of questions) {
-    const answer = answers[question.questionKey]?.answer;
-    if (!answer || question.riskWeight === 0) continue;
-
-    maxPossibleRisk += question.riskWeight * 10;
-
-    // Check if answer is high risk
-    if (
-      question.highRiskAnswers &&
-      question.highRiskAnswers.includes(answer)
-    ) {
-      totalRisk += question.riskWeight * 10;
-      highRiskItems.push(question.questionText);
-    }
-  }
-
-  const score = maxPossibleRisk > 0 ? (totalRisk / maxPossibleRisk) * 100 : 0;
-
-  let rating: string;
-  if (score < 30) {
-    rating = 'LOW';
-  } else if (score < 60) {
-    rating = 'MEDIUM';
-  } else {
-    rating = 'HIGH';
-  }
-
-  const summary =
-    highRiskItems.length > 0
-      ? `Risk Rating: ${rating} (${score.toFixed(1)}%). High-risk factors: ${highRiskItems.slice(0, 3).join('; ')}${highRiskItems.length > 3 ? ` and ${highRiskItems.length - 3} more` : ''}.`
-      : `Risk Rating: ${rating} (${score.toFixed(1)}%). No significant high-risk factors identified.`;
-
-  return { score, rating, summary };
-}
@@ -0,0 +1,659 @@
+/**
+ * Client Continuance Service
+ * Annual re-assessment of accepted clients
+ *
+ * A client's continuance falls due CONTINUANCE_POLICY_MONTHS after its last
+ * review - the client acceptance approval, or the last approved continuance
+ * (ClientAcceptance.lastReviewedAt). The 'client-continuance' scheduled job
+ * creates the assessment ahead of the due date; it is answered with the
+ * CONTINUANCE_* questionnaires, scored with calculateRiskAssessment and
+ * approved through the CONTINUANCE workflow. Once the due date passes without
+ * an approved continuance, new tasks are blocked (see clientContinuanceCheck.ts).
+ */
+
+import { addDays, addMonths, subMonths } from 'date-fns';
+import { prisma } from '@/lib/db/prisma';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { logger } from '@/lib/utils/logger';
+import type { QuestionnaireType, QuestionSection } from '@/constants/acceptance-questions';
+import { calculateRiskAssessment, type RiskAssessment } from './riskCalculation';
+import { getClientScoringContext } from './riskScoringService';
+import { validateQuestionnaireResponses } from './questionnaireService';
+import {
+  getLatestPublishedVersionId,
+  getVersionQuestions,
+  getVersionSections,
+} from './questionnaireVersionService';
+import { ensureQuestionsExist } from './clientAcceptanceService';
+import { NotificationType } from '@/types/notification';
+import { notificationService } from '@/lib/services/notifications/notificationService';
+import { createContinuanceDueNotification } from '@/lib/services/notifications/templates';
+import type { Prisma } from '@prisma/client';
+
+/** Months an acceptance or continuance stays current */
+export const CONTINUANCE_POLICY_MONTHS = 12;
+
+/** Days before the due date that the scheduled job creates the assessment */
+export const DEFAULT_CONTINUANCE_LEAD_DAYS = 30;
+
+const CLIENT_BATCH_SIZE = 500;
+
+export type ContinuanceStatus = 'PENDING' | 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+export type ContinuanceSource = 'AUTO' | 'MANUAL';
+
+const OPEN_STATUSES: ContinuanceStatus[] = ['PENDING', 'SUBMITTED'];
+
+export interface ClientContinuanceSummary {
+  id: number;
+  status: ContinuanceStatus;
+  source: ContinuanceSource;
+  questionnaireType: QuestionnaireType;
+  dueDate: Date;
+  riskRating: string | null;
+  overallRiskScore: number | null;
+  completedAt: Date | null;
+  completedBy: string | null;
+  approvedAt: Date | null;
+  approvedBy: string | null;
+  approvalId: number | null;
+  validUntil: Date | null;
+}
+
+export interface ClientContinuanceStatus {
+  /** Continuance only applies once the client acceptance has been approved */
+  required: boolean;
+  lastReviewedAt: Date | null;
+  dueDate: Date | null;
+  isOverdue: boolean;
+  /** Latest continuance for the current cycle */
+  continuance: ClientContinuanceSummary | null;
+}
+
+export interface ContinuanceAnswerInput {
+  questionKey: string;
+  answer: string;
+  comment?: string;
+}
+
+export interface ClientContinuanceDetail extends ClientContinuanceSummary {
+  clientId: number;
+  riskSummary: string | null;
+  /** Sections of the questionnaire version the continuance is pinned to */
+  sections: QuestionSection[];
+  answers: ContinuanceAnswerInput[];
+}
+
+export interface ContinuanceGenerationResult {
+  clientsChecked: number;
+  created: number;
+  notified: number;
+}
+
+const CONTINUANCE_SUMMARY_SELECT = {
+  id: true,
+  status: true,
+  source: true,
+  questionnaireType: true,
+  dueDate: true,
+  riskRating: true,
+  overallRiskScore: true,
+  completedAt: true,
+  completedBy: true,
+  approvedAt: true,
+  approvedBy: true,
+  approvalId: true,
+  validUntil: true,
+} satisfies Prisma.ClientContinuanceSelect;
+
+/**
+ * Start of the current continuance cycle for an approved acceptance
+ */
+function getLastReviewDate(acceptance: { approvedAt: Date | null; lastReviewedAt: Date | null }): Date | null {
+  return acceptance.lastReviewedAt ?? acceptance.approvedAt;
+}
+
+/**
+ * Date a continuance is due for a client last reviewed on the given date
+ */
+export function getContinuanceDueDate(lastReviewedAt: Date): Date {
+  return addMonths(lastReviewedAt, CONTINUANCE_POLICY_MONTHS);
+}
+
+/**
+ * Pick the continuance questionnaire
+ * Standalone clients (group code equals client code) that were not rated high
+ * risk on their last assessment get the lite questionnaire, matching the task
+ * level continuance rules in questionnaireService
+ */
+function determineContinuanceQuestionnaireType(
+  client: { clientCode: string; groupCode: string },
+  lastRiskRating: string | null
+): QuestionnaireType {
+  const isStandalone = client.groupCode === client.clientCode;
+  return isStandalone && lastRiskRating !== 'HIGH' ? 'CONTINUANCE_LITE' : 'CONTINUANCE_FULL';
+}
+
+function toSummary(continuance: Prisma.ClientContinuanceGetPayload<{ select: typeof CONTINUANCE_SUMMARY_SELECT }>): ClientContinuanceSummary {
+  return {
+    ...continuance,
+    status: continuance.status as ContinuanceStatus,
+    source: continuance.source as ContinuanceSource,
+    questionnaireType: continuance.questionnaireType as QuestionnaireType,
+  };
+}
+
+/**
+ * Get continuance status for a client
+ */
+export async function getClientContinuanceStatus(clientId: number): Promise<ClientContinuanceStatus> {
+  const acceptance = await prisma.clientAcceptance.findUnique({
+    where: { clientId },
+    select: { approvedAt: true, lastReviewedAt: true },
+  });
+
+  const lastReviewedAt = acceptance ? getLastReviewDate(acceptance) : null;
+  if (!lastReviewedAt) {
+    return { required: false, lastReviewedAt: null, dueDate: null, isOverdue: false, continuance: null };
+  }
+
+  const dueDate = getContinuanceDueDate(lastReviewedAt);
+  const continuance = await prisma.clientContinuance.findFirst({
+    where: { clientId, dueDate },
+    orderBy: { createdAt: 'desc' },
+    select: CONTINUANCE_SUMMARY_SELECT,
+  });
+
+  return {
+    required: true,
+    lastReviewedAt,
+    dueDate,
+    isOverdue: new Date() >= dueDate,
+    continuance: continuance ? toSummary(continuance) : null,
+  };
+}
+
+/**
+ * Check if a client is past its continuance due date
+ * Approving the continuance starts a new cycle, so an approved continuance is never overdue
+ */
+export async function isClientContinuanceOverdue(clientId: number): Promise<boolean> {
+  const status = await getClientContinuanceStatus(clientId);
+  return status.isOverdue;
+}
+
+/**
+ * Create a continuance assessment for the client's current cycle
+ */
+export async function startClientContinuance(
+  clientId: number,
+  source: ContinuanceSource
+): Promise<ClientContinuanceSummary> {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: {
+      id: true,
+      clientCode: true,
+      groupCode: true,
+      ClientAcceptance: {
+        select: { approvedAt: true, lastReviewedAt: true, riskRating: true },
+      },
+    },
+  });
+
+  if (!client) {
+    throw new AppError(404, 'Client not found', ErrorCodes.NOT_FOUND);
+  }
+
+  const lastReviewedAt = client.ClientAcceptance ? getLastReviewDate(client.ClientAcceptance) : null;
+  if (!lastReviewedAt) {
+    throw new AppError(
+      400,
+      'Client continuance requires an approved Client Acceptance',
+      ErrorCodes.VALIDATION_ERROR
+    );
+  }
+
+  const open = await prisma.clientContinuance.findFirst({
+    where: { clientId, status: { in: OPEN_STATUSES } },
+    select: { id: true },
+  });
+  if (open) {
+    throw new AppError(409, 'A continuance assessment is already in progress for this client', ErrorCodes.CONFLICT);
+  }
+
+  const lastContinuance = await prisma.clientContinuance.findFirst({
+    where: { clientId, status: 'APPROVED' },
+    orderBy: { approvedAt: 'desc' },
+    select: { riskRating: true },
+  });
+
+  const questionnaireType = determineContinuanceQuestionnaireType(
+    client,
+    lastContinuance?.riskRating ?? client.ClientAcceptance?.riskRating ?? null
+  );
+
+  // Pin to the latest published version so later edits to the questionnaire
+  // do not change what this continuance is answered and scored against
+  const continuance = await prisma.clientContinuance.create({
+    data: {
+      clientId,
+      questionnaireType,
+      questionnaireVersionId: await getLatestPublishedVersionId(questionnaireType),
+      status: 'PENDING',
+      source,
+      dueDate: getContinuanceDueDate(lastReviewedAt),
+    },
+    select: CONTINUANCE_SUMMARY_SELECT,
+  });
+
+  logger.info('Client continuance started', { clientId, continuanceId: continuance.id, source });
+
+  return toSummary(continuance);
+}
+
+/**
+ * Get a continuance with its answers keyed by question
+ */
+export async function getClientContinuanceWithAnswers(continuanceId: number): Promise<ClientContinuanceDetail | null> {
+  const continuance = await prisma.clientContinuance.findUnique({
+    where: { id: continuanceId },
+    select: {
+      ...CONTINUANCE_SUMMARY_SELECT,
+      clientId: true,
+      riskSummary: true,
+      questionnaireVersionId: true,
+      ClientContinuanceAnswer: {
+        select: {
+          answer: true,
+          comment: true,
+          AcceptanceQuestion: { select: { questionKey: true } },
+        },
+      },
+    },
+  });
+
+  if (!continuance) return null;
+
+  const { ClientContinuanceAnswer, ...rest } = continuance;
+  return {
+    ...toSummary(rest),
+    clientId: rest.clientId,
+    riskSummary: rest.riskSummary,
+    sections: await getVersionSections(rest.questionnaireType as QuestionnaireType, rest.questionnaireVersionId),
+    answers: ClientContinuanceAnswer.map((a) => ({
+      questionKey: a.AcceptanceQuestion.questionKey,
+      answer: a.answer || '',
+      comment: a.comment || undefined,
+    })),
+  };
+}
+
+/**
+ * Load a continuance that can still be answered
+ */
+async function getEditableContinuance(clientId: number, continuanceId: number) {
+  const continuance = await prisma.clientContinuance.findFirst({
+    where: { id: continuanceId, clientId },
+    select: { id: true, status: true, questionnaireType: true, questionnaireVersionId: true },
+  });
+
+  if (!continuance) {
+    throw new AppError(404, 'Continuance assessment not found', ErrorCodes.NOT_FOUND);
+  }
+
+  if (continuance.status !== 'PENDING') {
+    throw new AppError(
+      409,
+      `Cannot modify a continuance that is ${continuance.status.toLowerCase()}`,
+      ErrorCodes.CONFLICT
+    );
+  }
+
+  return { ...continuance, questionnaireType: continuance.questionnaireType as QuestionnaireType };
+}
+
+/**
+ * Score all saved answers of a continuance against its pinned version
+ */
+async function assessContinuance(
+  clientId: number,
+  continuance: { id: number; questionnaireType: QuestionnaireType; questionnaireVersionId: number | null }
+): Promise<{ answers: ContinuanceAnswerInput[]; riskAssessment: RiskAssessment }> {
+  const saved = await prisma.clientContinuanceAnswer.findMany({
+    where: { continuanceId: continuance.id },
+    select: {
+      answer: true,
+      comment: true,
+      AcceptanceQuestion: { select: { questionKey: true } },
+    },
+  });
+
+  const answers = saved.map((a) => ({
+    questionKey: a.AcceptanceQuestion.questionKey,
+    answer: a.answer || '',
+    comment: a.comment || undefined,
+  }));
+
+  return {
+    answers,
+    riskAssessment: calculateRiskAssessment(
+      await getVersionQuestions(continuance.questionnaireType, continuance.questionnaireVersionId),
+      answers,
+      await getClientScoringContext(clientId)
+    ),
+  };
+}
+
+/**
+ * Save continuance answers and re-score the assessment
+ */
+export async function saveClientContinuanceAnswers(
+  clientId: number,
+  continuanceId: number,
+  answers: ContinuanceAnswerInput[]
+): Promise<RiskAssessment> {
+  const continuance = await getEditableContinuance(clientId, continuanceId);
+
+  // Published versions create their question rows on publish
+  const questionDefs = await getVersionQuestions(continuance.questionnaireType, continuance.questionnaireVersionId);
+  if (continuance.questionnaireVersionId === null) {
+    await ensureQuestionsExist(questionDefs, continuance.questionnaireType);
+  }
+
+  // Only accept answers to questions in the pinned version
+  const versionKeys = new Set(questionDefs.map((q) => q.questionKey));
+  const questions = await prisma.acceptanceQuestion.findMany({
+    where: {
+      questionnaireType: continuance.questionnaireType,
+      questionKey: { in: answers.map((a) => a.questionKey).filter((key) => versionKeys.has(key)) },
+    },
+    select: { id: true, questionKey: true },
+  });
+  const questionIdMap = new Map(questions.map((q) => [q.questionKey, q.id]));
+
+  await prisma.$transaction(async (tx) => {
+    for (const answerData of answers) {
+      const questionId = questionIdMap.get(answerData.questionKey);
+      if (!questionId) {
+        logger.warn('Continuance question not found', { questionKey: answerData.questionKey });
+        continue;
+      }
+
+      await tx.clientContinuanceAnswer.upsert({
+        where: { continuanceId_questionId: { continuanceId, questionId } },
+        create: {
+          continuanceId,
+          questionId,
+          answer: answerData.answer,
+          comment: answerData.comment || null,
+        },
+        update: {
+          answer: answerData.answer,
+          comment: answerData.comment || null,
+        },
+      });
+    }
+  });
+
+  const { riskAssessment } = await assessContinuance(clientId, continuance);
+
+  await prisma.clientContinuance.update({
+    where: { id: continuanceId },
+    data: {
+      riskRating: riskAssessment.riskRating,
+      overallRiskScore: riskAssessment.overallRiskScore,
+      riskSummary: riskAssessment.riskSummary,
+    },
+  });
+
+  return riskAssessment;
+}
+
+/**
+ * Validate and submit a continuance for approval
+ * The caller creates the CONTINUANCE approval and links it with linkContinuanceApproval
+ */
+export async function submitClientContinuance(
+  clientId: number,
+  continuanceId: number,
+  userId: string
+): Promise<ClientContinuanceSummary> {
+  const continuance = await getEditableContinuance(clientId, continuanceId);
+  const { answers, riskAssessment } = await assessContinuance(clientId, continuance);
+
+  const validation = validateQuestionnaireResponses(
+    continuance.questionnaireType,
+    answers,
+    await getVersionQuestions(continuance.questionnaireType, continuance.questionnaireVersionId)
+  );
+  if (!validation.isValid) {
+    throw new AppError(
+      400,
+      `Continuance questionnaire is incomplete: ${validation.errors.join('; ')}`,
+      ErrorCodes.VALIDATION_ERROR
+    );
+  }
+
+  const updated = await prisma.clientContinuance.update({
+    where: { id: continuanceId },
+    data: {
+      status: 'SUBMITTED',
+      completedAt: new Date(),
+      completedBy: userId,
+      riskRating: riskAssessment.riskRating,
+      overallRiskScore: riskAssessment.overallRiskScore,
+      riskSummary: riskAssessment.riskSummary,
+    },
+    select: CONTINUANCE_SUMMARY_SELECT,
+  });
+
+  return toSummary(updated);
+}
+
+/**
+ * Return a submitted continuance to PENDING when its approval could not be created
+ */
+export async function revertContinuanceSubmission(continuanceId: number): Promise<void> {
+  await prisma.clientContinuance.updateMany({
+    where: { id: continuanceId, status: 'SUBMITTED', approvalId: null },
+    data: { status: 'PENDING', completedAt: null, completedBy: null },
+  });
+}
+
+/**
+ * Link a submitted continuance to its approval
+ */
+export async function linkContinuanceApproval(continuanceId: number, approvalId: number): Promise<void> {
+  await prisma.clientContinuance.update({
+    where: { id: continuanceId },
+    data: { approvalId },
+  });
+}
+
+/**
+ * Approve a continuance (CONTINUANCE workflow completion handler)
+ * Starts the client's next cycle by moving the acceptance review date and validity forward
+ */
+export async function approveClientContinuance(
+  continuanceId: number,
+  userId: string,
+  approvalId: number,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const continuance = await tx.clientContinuance.findUnique({
+    where: { id: continuanceId },
+    select: { id: true, clientId: true, status: true },
+  });
+
+  if (!continuance) {
+    throw new AppError(404, 'Continuance assessment not found', ErrorCodes.NOT_FOUND);
+  }
+
+  if (continuance.status === 'APPROVED') {
+    logger.info('Client continuance already approved, skipping', { continuanceId });
+    return;
+  }
+
+  const now = new Date();
+  const validUntil = getContinuanceDueDate(now);
+
+  await tx.clientContinuance.update({
+    where: { id: continuanceId },
+    data: {
+      status: 'APPROVED',
+      approvedAt: now,
+      approvedBy: userId,
+      approvalId,
+      validUntil,
+    },
+  });
+
+  await tx.clientAcceptance.update({
+    where: { clientId: continuance.clientId },
+    data: {
+      lastReviewedAt: now,
+      validUntil,
+      updatedAt: now,
+    },
+  });
+}
+
+/**
+ * Mark a continuance as rejected (CONTINUANCE workflow rejection handler)
+ * The client stays due; a new continuance can be started once the issues are resolved
+ */
+export async function rejectClientContinuance(
+  continuanceId: number,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  await tx.clientContinuance.updateMany({
+    where: { id: continuanceId, status: 'SUBMITTED' },
+    data: { status: 'REJECTED' },
+  });
+}
+
+/**
+ * Find the user account of an employee (Employee.WinLogon = User.email)
+ */
+async function findUserIdForEmployee(empCode: string | null): Promise<string | null> {
+  if (!empCode) return null;
+
+  const employee = await prisma.employee.findFirst({
+    where: { EmpCode: empCode },
+    select: { WinLogon: true },
+  });
+  if (!employee?.WinLogon) return null;
+
+  const user = await prisma.user.findFirst({
+    where: { email: { equals: employee.WinLogon } },
+    select: { id: true },
+  });
+  return user?.id ?? null;
+}
+
+/**
+ * Create continuance assessments for clients due within the lead window
+ * Run nightly by the 'client-continuance' scheduled job. Clients with an open
+ * continuance, or whose continuance for the current cycle was rejected, are
+ * skipped. The client partner is notified of each new assessment.
+ *
+ * @param leadDays - Days before the due date to create the assessment
+ */
+export async function generateDueContinuances(
+  leadDays: number = DEFAULT_CONTINUANCE_LEAD_DAYS
+): Promise<ContinuanceGenerationResult> {
+  // Last reviewed on or before this date => due within the lead window
+  const reviewedBefore = subMonths(addDays(new Date(), leadDays), CONTINUANCE_POLICY_MONTHS);
+
+  let clientsChecked = 0;
+  let created = 0;
+  let notified = 0;
+
+  // Page by id so every due client is reached, however many there are
+  let cursor = 0;
+  for (;;) {
+    const acceptances = await prisma.clientAcceptance.findMany({
+      where: {
+        id: { gt: cursor },
+        approvedAt: { not: null },
+        OR: [
+          { lastReviewedAt: { lte: reviewedBefore } },
+          { lastReviewedAt: null, approvedAt: { lte: reviewedBefore } },
+        ],
+        Client: {
+          ClientContinuance: { none: { status: { in: OPEN_STATUSES } } },
+        },
+      },
+      select: {
+        id: true,
+        clientId: true,
+        approvedAt: true,
+        lastReviewedAt: true,
+        Client: {
+          select: {
+            clientCode: true,
+            clientNameFull: true,
+            clientPartner: true,
+            ClientContinuance: {
+              where: { status: 'REJECTED' },
+              orderBy: { createdAt: 'desc' },
+              take: 1,
+              select: { dueDate: true },
+            },
+          },
+        },
+      },
+      orderBy: { id: 'asc' },
+      take: CLIENT_BATCH_SIZE,
+    });
+    if (acceptances.length === 0) break;
+    cursor = acceptances[acceptances.length - 1]!.id;
+    clientsChecked += acceptances.length;
+
+    for (const acceptance of acceptances) {
+      const lastReviewedAt = getLastReviewDate(acceptance)!;
+      const dueDate = getContinuanceDueDate(lastReviewedAt);
+      const rejected = acceptance.Client.ClientContinuance[0];
+      if (rejected && rejected.dueDate.getTime() === dueDate.getTime()) {
+        continue;
+      }
+
+      try {
+        const continuance = await startClientContinuance(acceptance.clientId, 'AUTO');
+        created++;
+
+        const partnerUserId = await findUserIdForEmployee(acceptance.Client.clientPartner);
+        if (partnerUserId) {
+          const template = createContinuanceDueNotification(
+            acceptance.Client.clientNameFull || acceptance.Client.clientCode,
+            acceptance.Client.clientCode,
+            dueDate
+          );
+          await notificationService.createNotification(
+            partnerUserId,
+            NotificationType.CONTINUANCE_DUE,
+            template.title,
+            template.message,
+            undefined,
+            template.actionUrl,
+            undefined,
+            { clientId: acceptance.clientId, continuanceId: continuance.id, dueDate: dueDate.toISOString() }
+          );
+          notified++;
+        }
+      } catch (error) {
+        // One client failing should not stop the run
+        logger.error('Failed to generate client continuance', { clientId: acceptance.clientId, error });
+      }
+    }
+  }
+
+  logger.info('Client continuance generation completed', {
+    leadDays,
+    clientsChecked,
+    created,
+    notified,
+  });
+
+  return { clientsChecked, created, notified };
+}
@@ -5,6 +5,7 @@
 
 import { prisma } from '@/lib/db/prisma';
 import {
+  AcceptanceQuestionDef,
   QuestionnaireType,
   getQuestionnaireDefinition,
   getAllQuestions,
@@ -152,11 +153,15 @@ async function checkLiteEligibility(task: {
 /**
  * Get the questionnaire structure with sections and questions
  * Uses caching for improved performance
+ * @param versionId - Version the response is pinned to, or null for the built-in definition
  */
-export async function getQuestionnaireStructure(type: QuestionnaireType): Promise<QuestionSection[]> {
+export async function getQuestionnaireStructure(
+  type: QuestionnaireType,
+  versionId: number | null = null
+): Promise<QuestionSection[]> {
   // Dynamic import to avoid circular dependencies
-  const { getCachedQuestionnaireStructure } = await import('./cache');
-  return getCachedQuestionnaireStructure(type);
+  const { getVersionSections } = await import('./questionnaireVersionService');
+  return getVersionSections(type, versionId);
 }
 
 /**
@@ -203,12 +208,13 @@ function validateQuestionAnswer(
 /**
  * Validate questionnaire responses
  * Refactored to reduce cognitive complexity
+ * @param questions - Questions of the pinned version, defaults to the built-in definition
  */
 export function validateQuestionnaireResponses(
   type: QuestionnaireType,
-  answers: { questionKey: string; answer: string }[]
+  answers: { questionKey: string; answer: string }[],
+  questions: AcceptanceQuestionDef[] = getAllQuestions(type)
 ): { isValid: boolean; errors: string[] } {
-  const questions = getAllQuestions(type);
   const errors: string[] = [];
   const answerMap = new Map(answers.map((a) => [a.questionKey, a.answer]));
 
@@ -256,12 +262,14 @@ export async function getOrCreateResponse(
     return existing;
   }
 
-  // Create new response
+  // Create new response, pinned to the latest published version
+  const { getLatestPublishedVersionId } = await import('./questionnaireVersionService');
   return await prisma.clientAcceptanceResponse.create({
     data: {
       taskId,
       clientId: clientInternalId,
       questionnaireType,
+      questionnaireVersionId: await getLatestPublishedVersionId(questionnaireType),
     },
     include: {
       AcceptanceAnswer: {
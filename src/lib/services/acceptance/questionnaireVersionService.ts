@@ -0,0 +1,475 @@
+/**
+ * Questionnaire Version Service
+ * Admin-editable, versioned definitions of the task acceptance questionnaires
+ *
+ * A questionnaire type has at most one DRAFT, which administrators edit, and
+ * any number of PUBLISHED versions, which never change. New responses are
+ * pinned to the latest published version when they are created, and every
+ * later read - structure, completion, risk score, required-question checks -
+ * uses the pinned version. Responses without a version (everything created
+ * before versioning, or while a type has no published version) use the
+ * built-in definition in constants/acceptance-questions.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import type {
+  AcceptanceQuestionDef,
+  QuestionnaireType,
+  QuestionSection,
+} from '@/constants/acceptance-questions';
+import type { QuestionnaireSectionInput } from '@/lib/validation/schemas';
+import { getCachedQuestionnaireStructure } from './cache';
+
+/**
+ * Questionnaire types that can be edited - client-level acceptance and
+ * continuance still use the built-in definitions
+ */
+export const VERSIONED_QUESTIONNAIRE_TYPES = [
+  'ACCEPTANCE_FULL',
+  'ACCEPTANCE_LITE',
+  'CONTINUANCE_FULL',
+  'CONTINUANCE_LITE',
+] as const;
+
+export type VersionedQuestionnaireType = (typeof VERSIONED_QUESTIONNAIRE_TYPES)[number];
+
+export const QUESTIONNAIRE_LABELS: Record<VersionedQuestionnaireType, string> = {
+  ACCEPTANCE_FULL: 'Engagement Acceptance',
+  ACCEPTANCE_LITE: 'Engagement Acceptance (Lite)',
+  CONTINUANCE_FULL: 'Engagement Continuance',
+  CONTINUANCE_LITE: 'Engagement Continuance (Lite)',
+};
+
+// Published versions are immutable, so their parsed definitions never go stale
+const publishedVersionCache = new Map<number, QuestionSection[]>();
+
+const choiceFieldTypes = new Set(['RADIO', 'SELECT']);
+
+/**
+ * Check a questionnaire type string against the editable types
+ */
+export function isVersionedQuestionnaireType(type: string): type is VersionedQuestionnaireType {
+  return (VERSIONED_QUESTIONNAIRE_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Copy sections, setting each question's sectionKey and order from its position
+ */
+function normalizeSections(sections: QuestionnaireSectionInput[]): QuestionSection[] {
+  return sections.map((section) => ({
+    ...section,
+    questions: section.questions.map((question, index) => ({
+      ...question,
+      sectionKey: section.key,
+      order: index + 1,
+    })),
+  }));
+}
+
+/**
+ * Find everything that would make a questionnaire unusable
+ * Returns one message per problem, empty when the definition is valid
+ */
+export function validateQuestionnaireDefinition(sections: QuestionSection[]): string[] {
+  const errors: string[] = [];
+  const sectionKeys = new Set<string>();
+  const questions = new Map<string, AcceptanceQuestionDef>();
+
+  for (const section of sections) {
+    if (sectionKeys.has(section.key)) {
+      errors.push(`Section key "${section.key}" is used more than once`);
+    }
+    sectionKeys.add(section.key);
+
+    for (const question of section.questions) {
+      if (questions.has(question.questionKey)) {
+        errors.push(`Question key "${question.questionKey}" is used more than once`);
+      }
+      questions.set(question.questionKey, question);
+    }
+  }
+
+  for (const question of questions.values()) {
+    const options = question.options ?? [];
+    const label = `Question "${question.questionKey}"`;
+
+    if (choiceFieldTypes.has(question.fieldType) && options.length < 2) {
+      errors.push(`${label} needs at least two options`);
+    }
+    if (!choiceFieldTypes.has(question.fieldType) && options.length > 0) {
+      errors.push(`${label} has options but is not a choice question`);
+    }
+
+    const unknownHighRisk = (question.highRiskAnswers ?? []).filter((answer) => !options.includes(answer));
+    if (unknownHighRisk.length > 0) {
+      errors.push(`${label} marks ${unknownHighRisk.map((a) => `"${a}"`).join(', ')} high risk but they are not options`);
+    }
+
+    const rule = question.conditionalDisplay;
+    if (rule) {
+      const parent = questions.get(rule.dependsOn);
+      if (!parent) {
+        errors.push(`${label} depends on "${rule.dependsOn}", which does not exist`);
+      } else if (parent.questionKey === question.questionKey) {
+        errors.push(`${label} cannot depend on itself`);
+      } else if (!(parent.options ?? []).includes(rule.requiredAnswer)) {
+        errors.push(`${label} shows on "${rule.requiredAnswer}", which is not an option of "${rule.dependsOn}"`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * @throws AppError 400 listing every problem if the definition is invalid
+ */
+function assertValidDefinition(sections: QuestionSection[]): void {
+  const errors = validateQuestionnaireDefinition(sections);
+  if (errors.length > 0) {
+    throw new AppError(
+      400,
+      `Invalid questionnaire: ${errors.join('; ')}`,
+      ErrorCodes.VALIDATION_ERROR,
+      { errors }
+    );
+  }
+}
+
+/**
+ * Latest published version of a type, or null if it only has the built-in definition
+ */
+export async function getLatestPublishedVersionId(type: string): Promise<number | null> {
+  if (!isVersionedQuestionnaireType(type)) {
+    return null;
+  }
+
+  const latest = await prisma.acceptanceQuestionnaireVersion.findFirst({
+    where: { questionnaireType: type, status: 'PUBLISHED' },
+    orderBy: { versionNumber: 'desc' },
+    select: { id: true },
+  });
+
+  return latest?.id ?? null;
+}
+
+/**
+ * Sections a response was answered against
+ * @param versionId - Pinned version, or null for the built-in definition
+ * @throws AppError 404 if the version no longer exists
+ */
+export async function getVersionSections(
+  type: QuestionnaireType,
+  versionId: number | null
+): Promise<QuestionSection[]> {
+  if (versionId === null) {
+    return getCachedQuestionnaireStructure(type);
+  }
+
+  const cached = publishedVersionCache.get(versionId);
+  if (cached) {
+    return cached;
+  }
+
+  const version = await prisma.acceptanceQuestionnaireVersion.findUnique({
+    where: { id: versionId },
+    select: { status: true, definition: true },
+  });
+
+  if (!version) {
+    throw new AppError(404, 'Questionnaire version not found', ErrorCodes.NOT_FOUND);
+  }
+
+  const sections = JSON.parse(version.definition) as QuestionSection[];
+  if (version.status === 'PUBLISHED') {
+    publishedVersionCache.set(versionId, sections);
+  }
+  return sections;
+}
+
+/**
+ * Flat list of the questions a response was answered against
+ */
+export async function getVersionQuestions(
+  type: QuestionnaireType,
+  versionId: number | null
+): Promise<AcceptanceQuestionDef[]> {
+  const sections = await getVersionSections(type, versionId);
+  return sections.flatMap((section) => section.questions);
+}
+
+/**
+ * Summary of every editable type for the builder's landing view
+ */
+export async function listQuestionnaires() {
+  const [versions, builtInUsage, builtInContinuances] = await Promise.all([
+    prisma.acceptanceQuestionnaireVersion.findMany({
+      where: { questionnaireType: { in: [...VERSIONED_QUESTIONNAIRE_TYPES] } },
+      orderBy: { versionNumber: 'desc' },
+      select: { id: true, questionnaireType: true, versionNumber: true, status: true, publishedAt: true },
+    }),
+    prisma.clientAcceptanceResponse.groupBy({
+      by: ['questionnaireType'],
+      where: { questionnaireVersionId: null },
+      _count: { _all: true },
+    }),
+    prisma.clientContinuance.groupBy({
+      by: ['questionnaireType'],
+      where: { questionnaireVersionId: null },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return VERSIONED_QUESTIONNAIRE_TYPES.map((type) => {
+    const ofType = versions.filter((v) => v.questionnaireType === type);
+    const published = ofType.find((v) => v.status === 'PUBLISHED') ?? null;
+    const draft = ofType.find((v) => v.status === 'DRAFT') ?? null;
+
+    return {
+      questionnaireType: type,
+      label: QUESTIONNAIRE_LABELS[type],
+      publishedVersion: published
+        ? { id: published.id, versionNumber: published.versionNumber, publishedAt: published.publishedAt }
+        : null,
+      draftVersion: draft ? { id: draft.id, versionNumber: draft.versionNumber } : null,
+      versionCount: ofType.length,
+      builtInResponseCount:
+        (builtInUsage.find((u) => u.questionnaireType === type)?._count._all ?? 0) +
+        (builtInContinuances.find((u) => u.questionnaireType === type)?._count._all ?? 0),
+    };
+  });
+}
+
+/**
+ * Version history of a type, newest first, with how many responses use each
+ */
+export async function listQuestionnaireVersions(type: VersionedQuestionnaireType) {
+  const [versions, builtInResponses, builtInContinuances] = await Promise.all([
+    prisma.acceptanceQuestionnaireVersion.findMany({
+      where: { questionnaireType: type },
+      orderBy: { versionNumber: 'desc' },
+      select: {
+        id: true,
+        versionNumber: true,
+        status: true,
+        changeNote: true,
+        createdAt: true,
+        updatedAt: true,
+        publishedAt: true,
+        definition: true,
+        User: { select: { id: true, name: true } },
+        _count: { select: { ClientAcceptanceResponse: true, ClientContinuance: true } },
+      },
+    }),
+    prisma.clientAcceptanceResponse.count({
+      where: { questionnaireType: type, questionnaireVersionId: null },
+    }),
+    prisma.clientContinuance.count({
+      where: { questionnaireType: type, questionnaireVersionId: null },
+    }),
+  ]);
+
+  return {
+    questionnaireType: type,
+    label: QUESTIONNAIRE_LABELS[type],
+    builtInResponseCount: builtInResponses + builtInContinuances,
+    builtInQuestionCount: getCachedQuestionnaireStructure(type).flatMap((s) => s.questions).length,
+    versions: versions.map(({ definition, User, _count, ...version }) => ({
+      ...version,
+      questionCount: (JSON.parse(definition) as QuestionSection[]).flatMap((s) => s.questions).length,
+      responseCount: _count.ClientAcceptanceResponse + _count.ClientContinuance,
+      createdBy: User,
+    })),
+  };
+}
+
+/**
+ * A single version with its sections
+ * @throws AppError 404 if the version does not exist
+ */
+export async function getQuestionnaireVersion(versionId: number) {
+  const version = await prisma.acceptanceQuestionnaireVersion.findUnique({
+    where: { id: versionId },
+    select: {
+      id: true,
+      questionnaireType: true,
+      versionNumber: true,
+      status: true,
+      definition: true,
+      changeNote: true,
+      createdAt: true,
+      updatedAt: true,
+      publishedAt: true,
+      User: { select: { id: true, name: true } },
+      _count: { select: { ClientAcceptanceResponse: true, ClientContinuance: true } },
+    },
+  });
+
+  if (!version) {
+    throw new AppError(404, 'Questionnaire version not found', ErrorCodes.NOT_FOUND);
+  }
+
+  const { definition, User, _count, ...rest } = version;
+  return {
+    ...rest,
+    sections: JSON.parse(definition) as QuestionSection[],
+    responseCount: _count.ClientAcceptanceResponse + _count.ClientContinuance,
+    createdBy: User,
+  };
+}
+
+/**
+ * @throws AppError 404 if the version does not exist, 409 if it is published
+ */
+async function getDraft(versionId: number) {
+  const version = await prisma.acceptanceQuestionnaireVersion.findUnique({
+    where: { id: versionId },
+    select: { id: true, questionnaireType: true, versionNumber: true, status: true, definition: true },
+  });
+
+  if (!version) {
+    throw new AppError(404, 'Questionnaire version not found', ErrorCodes.NOT_FOUND);
+  }
+  if (version.status !== 'DRAFT') {
+    throw new AppError(
+      409,
+      `Version ${version.versionNumber} is published and cannot be changed. Start a new draft instead`,
+      ErrorCodes.CONFLICT
+    );
+  }
+
+  return version;
+}
+
+/**
+ * Start the type's draft as a copy of an existing version
+ * Copies fromVersionId when given (to roll back to an earlier version),
+ * otherwise the latest published version, otherwise the built-in definition.
+ * @throws AppError 409 if the type already has a draft
+ */
+export async function createQuestionnaireDraft(
+  type: VersionedQuestionnaireType,
+  createdById: string,
+  options: { fromVersionId?: number; changeNote?: string } = {}
+) {
+  const versions = await prisma.acceptanceQuestionnaireVersion.findMany({
+    where: { questionnaireType: type },
+    orderBy: { versionNumber: 'desc' },
+    select: { id: true, versionNumber: true, status: true },
+  });
+
+  const existingDraft = versions.find((v) => v.status === 'DRAFT');
+  if (existingDraft) {
+    throw new AppError(
+      409,
+      `Version ${existingDraft.versionNumber} is already a draft. Publish or discard it first`,
+      ErrorCodes.CONFLICT
+    );
+  }
+
+  let sourceId = versions.find((v) => v.status === 'PUBLISHED')?.id ?? null;
+  if (options.fromVersionId !== undefined) {
+    if (!versions.some((v) => v.id === options.fromVersionId)) {
+      throw new AppError(404, `Version not found for ${QUESTIONNAIRE_LABELS[type]}`, ErrorCodes.NOT_FOUND);
+    }
+    sourceId = options.fromVersionId;
+  }
+
+  const sections = await getVersionSections(type, sourceId);
+
+  return prisma.acceptanceQuestionnaireVersion.create({
+    data: {
+      questionnaireType: type,
+      versionNumber: (versions[0]?.versionNumber ?? 0) + 1,
+      definition: JSON.stringify(sections),
+      changeNote: options.changeNote ?? null,
+      createdById,
+    },
+    select: { id: true, questionnaireType: true, versionNumber: true, status: true },
+  });
+}
+
+/**
+ * Replace a draft's sections
+ * Saving does not validate cross-question rules so half-finished edits can be
+ * kept; they are enforced when the draft is published.
+ */
+export async function updateQuestionnaireDraft(
+  versionId: number,
+  sections: QuestionnaireSectionInput[],
+  changeNote?: string
+) {
+  const draft = await getDraft(versionId);
+
+  return prisma.acceptanceQuestionnaireVersion.update({
+    where: { id: draft.id },
+    data: {
+      definition: JSON.stringify(normalizeSections(sections)),
+      ...(changeNote !== undefined && { changeNote }),
+    },
+    select: { id: true, questionnaireType: true, versionNumber: true, status: true, updatedAt: true },
+  });
+}
+
+/**
+ * Publish a draft so new responses are pinned to it
+ * Answers reference AcceptanceQuestion rows by key, so rows are created for
+ * questions the type has never had. Existing rows are left alone - the
+ * version snapshot, not the row, is what responses are shown and scored with.
+ * @throws AppError 400 if the definition is invalid
+ */
+export async function publishQuestionnaireVersion(versionId: number) {
+  const draft = await getDraft(versionId);
+  const sections = JSON.parse(draft.definition) as QuestionSection[];
+  assertValidDefinition(sections);
+
+  const questions = sections.flatMap((section) => section.questions);
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.acceptanceQuestion.findMany({
+      where: { questionnaireType: draft.questionnaireType },
+      select: { questionKey: true },
+    });
+    const existingKeys = new Set(existing.map((q) => q.questionKey));
+    const now = new Date();
+
+    const missing = questions.filter((q) => !existingKeys.has(q.questionKey));
+    if (missing.length > 0) {
+      await tx.acceptanceQuestion.createMany({
+        data: missing.map((question) => ({
+          questionnaireType: draft.questionnaireType,
+          sectionKey: question.sectionKey,
+          questionKey: question.questionKey,
+          questionText: question.questionText,
+          description: question.description || null,
+          fieldType: question.fieldType,
+          options: question.options ? JSON.stringify(question.options) : null,
+          required: question.required,
+          order: question.order,
+          riskWeight: question.riskWeight,
+          highRiskAnswers: question.highRiskAnswers ? JSON.stringify(question.highRiskAnswers) : null,
+          createdAt: now,
+          updatedAt: now,
+        })),
+      });
+    }
+
+    const published = await tx.acceptanceQuestionnaireVersion.update({
+      where: { id: draft.id },
+      data: { status: 'PUBLISHED', publishedAt: now },
+      select: { id: true, questionnaireType: true, versionNumber: true, status: true, publishedAt: true },
+    });
+
+    return { ...published, questionsAdded: missing.length };
+  });
+}
+
+/**
+ * Delete a draft that should not be published
+ */
+export async function discardQuestionnaireDraft(versionId: number) {
+  const draft = await getDraft(versionId);
+  await prisma.acceptanceQuestionnaireVersion.delete({ where: { id: draft.id } });
+  return draft;
+}
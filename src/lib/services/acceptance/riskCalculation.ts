@@ -1,11 +1,25 @@
 /**
  * Risk Calculation and Assessment Logic
  * Calculates risk scores based on questionnaire answers
+ *
+ * Scoring follows a RiskScoringModel configuration - section weights, graded
+ * answer scores, knockout answers and rating thresholds. Without one the
+ * default configuration applies, where each high-risk answer scores its full
+ * risk weight.
  */
 
 import { AcceptanceQuestionDef } from '@/constants/acceptance-questions';
+import {
+  DEFAULT_RISK_SCORING_CONFIG,
+  type RiskRating,
+  type RiskScoringConfig,
+  type RiskScoringContext,
+  type RiskThresholds,
+} from '@/types/riskScoring';
 
-export type RiskRating = 'LOW' | 'MEDIUM' | 'HIGH';
+export type { RiskRating };
+
+const DEFAULT_SCORING: RiskScoringContext = { config: DEFAULT_RISK_SCORING_CONFIG, serviceLine: null };
 
 export interface RiskAssessment {
   overallRiskScore: number; // 0-100 percentage
@@ -13,6 +27,7 @@ export interface RiskAssessment {
   riskSummary: string;
   sectionRisks: SectionRisk[];
   highRiskQuestions: HighRiskQuestion[];
+  knockoutQuestions: HighRiskQuestion[]; // Answers that rated the assessment HIGH outright
 }
 
 export interface SectionRisk {
@@ -40,11 +55,16 @@ export interface Answer {
 
 /**
  * Calculate overall risk assessment from questionnaire answers
+ * @param scoring - Scoring model and service line, defaults to the original fixed scoring
  */
 export function calculateRiskAssessment(
   questions: AcceptanceQuestionDef[],
-  answers: Answer[]
+  answers: Answer[],
+  scoring: RiskScoringContext = DEFAULT_SCORING
 ): RiskAssessment {
+  const { config } = scoring;
+  const thresholds = getScoringThresholds(config, scoring.serviceLine);
+
   // Create answer lookup map
   const answerMap = new Map(answers.map((a) => [a.questionKey, a]));
 
@@ -52,34 +72,32 @@ export function calculateRiskAssessment(
   const questionRisks: Array<{
     question: AcceptanceQuestionDef;
     answer: Answer | undefined;
-    isHighRisk: boolean;
-    contributedRisk: number;
+    answerScore: number;
+    isKnockout: boolean;
   }> = [];
 
   let totalPossibleRisk = 0;
   let totalActualRisk = 0;
 
   for (const question of questions) {
+    const weight = getQuestionWeight(question, config);
     // Skip non-scored questions (placeholders, buttons, etc.)
-    if (question.fieldType === 'PLACEHOLDER' || question.fieldType === 'BUTTON' || question.riskWeight === 0) {
+    if (question.fieldType === 'PLACEHOLDER' || question.fieldType === 'BUTTON' || weight === 0) {
       continue;
     }
 
     const answer = answerMap.get(question.questionKey);
-    totalPossibleRisk += question.riskWeight;
-
-    // Check if this answer is high risk
-    const isHighRisk = checkIfHighRisk(question, answer?.answer);
-    const contributedRisk = isHighRisk ? question.riskWeight : 0;
+    totalPossibleRisk += weight;
 
+    const answerScore = getAnswerScore(question, answer?.answer, config);
     questionRisks.push({
       question,
       answer,
-      isHighRisk,
-      contributedRisk,
+      answerScore,
+      isKnockout: isKnockoutAnswer(question, answer?.answer, config),
     });
 
-    totalActualRisk += contributedRisk;
+    totalActualRisk += weight * answerScore;
   }
 
   // Calculate overall risk score (0-100)
@@ -87,29 +105,35 @@ export function calculateRiskAssessment(
     ? Math.round((totalActualRisk / totalPossibleRisk) * 100) 
     : 0;
 
+  const toRiskQuestion = (qr: (typeof questionRisks)[number]): HighRiskQuestion => ({
+    questionKey: qr.question.questionKey,
+    questionText: qr.question.questionText,
+    answer: qr.answer!.answer,
+    riskWeight: qr.question.riskWeight,
+    sectionKey: qr.question.sectionKey,
+  });
+
+  // Knockout answers rate the assessment HIGH whatever the score
+  const knockoutQuestions = questionRisks.filter((qr) => qr.isKnockout).map(toRiskQuestion);
+
   // Determine risk rating
-  const riskRating = getRiskRating(overallRiskScore);
+  const riskRating = knockoutQuestions.length > 0 ? 'HIGH' : getRiskRating(overallRiskScore, thresholds);
 
   // Calculate section-level risks
-  const sectionRisks = calculateSectionRisks(questions, answers);
+  const sectionRisks = calculateSectionRisks(questions, answers, config, thresholds);
 
-  // Identify high-risk questions
+  // Identify questions whose answers carry risk
   const highRiskQuestions: HighRiskQuestion[] = questionRisks
-    .filter((qr) => qr.isHighRisk && qr.answer)
-    .map((qr) => ({
-      questionKey: qr.question.questionKey,
-      questionText: qr.question.questionText,
-      answer: qr.answer!.answer,
-      riskWeight: qr.question.riskWeight,
-      sectionKey: qr.question.sectionKey,
-    }));
+    .filter((qr) => (qr.answerScore > 0 || qr.isKnockout) && qr.answer)
+    .map(toRiskQuestion);
 
   // Generate risk summary
   const riskSummary = generateRiskSummary(
     riskRating,
     overallRiskScore,
     highRiskQuestions.length,
-    sectionRisks
+    sectionRisks,
+    knockoutQuestions
   );
 
   return {
@@ -118,9 +142,63 @@ export function calculateRiskAssessment(
     riskSummary,
     sectionRisks,
     highRiskQuestions,
+    knockoutQuestions,
   };
 }
 
+/**
+ * Thresholds for a service line, falling back to the model's defaults
+ */
+export function getScoringThresholds(config: RiskScoringConfig, serviceLine: string | null): RiskThresholds {
+  return (serviceLine && config.serviceLineThresholds[serviceLine]) || config.thresholds;
+}
+
+/**
+ * Question's risk weight after its section weight
+ */
+function getQuestionWeight(question: AcceptanceQuestionDef, config: RiskScoringConfig): number {
+  return question.riskWeight * (config.sectionWeights[question.sectionKey] ?? 1);
+}
+
+/**
+ * Share (0-1) of a question's weight an answer contributes
+ * Graded scores from the model win; otherwise high-risk answers score 1
+ */
+function getAnswerScore(
+  question: AcceptanceQuestionDef,
+  answer: string | undefined,
+  config: RiskScoringConfig
+): number {
+  if (!answer) return 0;
+
+  const graded = config.answerScores[question.questionKey];
+  if (graded) {
+    const normalizedAnswer = answer.trim().toLowerCase();
+    const match = Object.entries(graded).find(([option]) => option.toLowerCase() === normalizedAnswer);
+    return match ? Math.min(1, Math.max(0, match[1])) : 0;
+  }
+
+  return checkIfHighRisk(question, answer) ? 1 : 0;
+}
+
+/**
+ * Check if an answer is one of the model's automatic-HIGH answers
+ */
+function isKnockoutAnswer(
+  question: AcceptanceQuestionDef,
+  answer: string | undefined,
+  config: RiskScoringConfig
+): boolean {
+  if (!answer) return false;
+
+  const normalizedAnswer = answer.trim().toLowerCase();
+  return config.knockouts.some(
+    (knockout) =>
+      knockout.questionKey === question.questionKey &&
+      knockout.answers.some((a) => a.toLowerCase() === normalizedAnswer)
+  );
+}
+
 /**
  * Check if an answer to a question indicates high risk
  */
@@ -139,10 +217,13 @@ function checkIfHighRisk(question: AcceptanceQuestionDef, answer: string | undef
 /**
  * Convert risk score to risk rating
  */
-export function getRiskRating(score: number): RiskRating {
-  if (score <= 30) {
+export function getRiskRating(
+  score: number,
+  thresholds: RiskThresholds = DEFAULT_RISK_SCORING_CONFIG.thresholds
+): RiskRating {
+  if (score <= thresholds.lowMax) {
     return 'LOW';
-  } else if (score <= 60) {
+  } else if (score <= thresholds.mediumMax) {
     return 'MEDIUM';
   } else {
     return 'HIGH';
@@ -154,14 +235,16 @@ export function getRiskRating(score: number): RiskRating {
  */
 function calculateSectionRisks(
   questions: AcceptanceQuestionDef[],
-  answers: Answer[]
+  answers: Answer[],
+  config: RiskScoringConfig,
+  thresholds: RiskThresholds
 ): SectionRisk[] {
   const answerMap = new Map(answers.map((a) => [a.questionKey, a]));
 
   // Group questions by section
   const sectionMap = new Map<string, AcceptanceQuestionDef[]>();
   for (const question of questions) {
-    if (question.riskWeight === 0) continue; // Skip non-scored questions
+    if (getQuestionWeight(question, config) === 0) continue; // Skip non-scored questions
 
     if (!sectionMap.has(question.sectionKey)) {
       sectionMap.set(question.sectionKey, []);
@@ -178,13 +261,14 @@ function calculateSectionRisks(
     let highRiskCount = 0;
 
     for (const question of sectionQuestions) {
-      totalPossibleRisk += question.riskWeight;
+      const weight = getQuestionWeight(question, config);
+      totalPossibleRisk += weight;
 
       const answer = answerMap.get(question.questionKey);
-      const isHighRisk = checkIfHighRisk(question, answer?.answer);
+      const answerScore = getAnswerScore(question, answer?.answer, config);
 
-      if (isHighRisk) {
-        totalActualRisk += question.riskWeight;
+      if (answerScore > 0) {
+        totalActualRisk += weight * answerScore;
         highRiskCount++;
       }
     }
@@ -197,7 +281,7 @@ function calculateSectionRisks(
       sectionKey,
       sectionTitle: getSectionTitle(sectionKey),
       riskScore,
-      riskRating: getRiskRating(riskScore),
+      riskRating: getRiskRating(riskScore, thresholds),
       questionCount: sectionQuestions.length,
       highRiskCount,
     });
@@ -231,7 +315,8 @@ function generateRiskSummary(
   riskRating: RiskRating,
   overallRiskScore: number,
   highRiskQuestionCount: number,
-  sectionRisks: SectionRisk[]
+  sectionRisks: SectionRisk[],
+  knockoutQuestions: HighRiskQuestion[]
 ): string {
   const lines: string[] = [];
 
@@ -239,6 +324,14 @@ function generateRiskSummary(
   lines.push(`Overall Risk Rating: ${riskRating} (${overallRiskScore}%)`);
   lines.push('');
 
+  if (knockoutQuestions.length > 0) {
+    lines.push('**Automatically rated HIGH:**');
+    for (const question of knockoutQuestions) {
+      lines.push(`- ${question.questionText}: ${question.answer}`);
+    }
+    lines.push('');
+  }
+
   if (riskRating === 'LOW') {
     lines.push('This engagement presents a low risk profile. Standard acceptance procedures and safeguards should be sufficient.');
   } else if (riskRating === 'MEDIUM') {
@@ -298,6 +391,37 @@ function generateRiskSummary(
   return lines.join('\n');
 }
 
+/**
+ * Score a client acceptance
+ * Only answered questions count towards the possible risk, so optional
+ * questions left blank do not dilute the score.
+ */
+export function calculateClientAcceptanceRisk(
+  answers: Record<string, { answer: string; comment?: string }>,
+  questions: AcceptanceQuestionDef[],
+  scoring: RiskScoringContext = DEFAULT_SCORING
+): { score: number; rating: RiskRating; summary: string; knockoutQuestions: HighRiskQuestion[] } {
+  const answered = questions.filter((question) => answers[question.questionKey]?.answer);
+  const assessment = calculateRiskAssessment(
+    answered,
+    answered.map((question) => ({ questionKey: question.questionKey, ...answers[question.questionKey]! })),
+    scoring
+  );
+
+  const { overallRiskScore: score, riskRating: rating, highRiskQuestions, knockoutQuestions } = assessment;
+  const highRiskItems = highRiskQuestions.map((q) => q.questionText);
+  const knockoutNote = knockoutQuestions.length > 0
+    ? ` Automatically rated HIGH: ${knockoutQuestions.map((q) => q.questionText).join('; ')}.`
+    : '';
+
+  const summary =
+    highRiskItems.length > 0
+      ? `Risk Rating: ${rating} (${score.toFixed(1)}%). High-risk factors: ${highRiskItems.slice(0, 3).join('; ')}${highRiskItems.length > 3 ? ` and ${highRiskItems.length - 3} more` : ''}.${knockoutNote}`
+      : `Risk Rating: ${rating} (${score.toFixed(1)}%). No significant high-risk factors identified.`;
+
+  return { score, rating, summary, knockoutQuestions };
+}
+
 /**
  * Validate that all required questions have been answered
  */
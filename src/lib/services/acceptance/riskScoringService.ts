@@ -0,0 +1,448 @@
+/**
+ * Risk Scoring Model Service
+ * Configurable scoring of acceptance and continuance questionnaires
+ *
+ * QRM edits a DRAFT model, simulates it against completed client acceptances
+ * and then activates it. Activating retires the previous ACTIVE model, so at
+ * most one model scores questionnaires at a time; without one the default
+ * configuration applies. Saved scores are not recalculated - a questionnaire
+ * picks up the active model the next time it is scored.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { CLIENT_ACCEPTANCE_QUESTIONNAIRE, type QuestionSection } from '@/constants/acceptance-questions';
+import {
+  DEFAULT_RISK_SCORING_CONFIG,
+  type RiskRating,
+  type RiskScoringConfig,
+  type RiskScoringContext,
+  type RiskScoringOptions,
+  type RiskSimulationChange,
+  type RiskSimulationResult,
+  type RiskSimulationServiceLine,
+} from '@/types/riskScoring';
+import type { CreateRiskScoringModelInput, UpdateRiskScoringModelInput } from '@/lib/validation/schemas';
+import { loadServiceLineMap, serviceLineName, UNMAPPED_SERVICE_LINE } from '@/lib/services/exco/excoServiceLines';
+import { calculateClientAcceptanceRisk } from './riskCalculation';
+import {
+  getLatestPublishedVersionId,
+  getVersionSections,
+  QUESTIONNAIRE_LABELS,
+  VERSIONED_QUESTIONNAIRE_TYPES,
+} from './questionnaireVersionService';
+
+const SIMULATION_BATCH_SIZE = 500;
+const MAX_SIMULATION_CHANGES = 500;
+const RATING_ORDER: Record<RiskRating, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+const modelSelect = {
+  id: true,
+  name: true,
+  description: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+  activatedAt: true,
+  simulatedAt: true,
+  User: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Parse a stored configuration, filling anything missing from the defaults
+ */
+function parseConfig(json: string): RiskScoringConfig {
+  return { ...DEFAULT_RISK_SCORING_CONFIG, ...(JSON.parse(json) as Partial<RiskScoringConfig>) };
+}
+
+/**
+ * The active model, or null when scoring uses the default configuration
+ */
+export async function getActiveRiskScoringModel(): Promise<{ id: number; name: string; config: RiskScoringConfig } | null> {
+  const active = await prisma.riskScoringModel.findFirst({
+    where: { status: 'ACTIVE' },
+    orderBy: { activatedAt: 'desc' },
+    select: { id: true, name: true, config: true },
+  });
+
+  return active ? { ...active, config: parseConfig(active.config) } : null;
+}
+
+async function getScoringContext(servLineCode: string | null | undefined): Promise<RiskScoringContext> {
+  const [active, external] = await Promise.all([
+    getActiveRiskScoringModel(),
+    servLineCode
+      ? prisma.serviceLineExternal.findFirst({
+          where: { ServLineCode: servLineCode, masterCode: { not: null } },
+          select: { masterCode: true },
+        })
+      : null,
+  ]);
+
+  return {
+    config: active?.config ?? DEFAULT_RISK_SCORING_CONFIG,
+    serviceLine: external?.masterCode ?? null,
+  };
+}
+
+/**
+ * Active model for a client - thresholds follow the client partner's service line
+ */
+export async function getClientScoringContext(clientId: number): Promise<RiskScoringContext> {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { clientPartner: true },
+  });
+
+  const partner = client
+    ? await prisma.employee.findFirst({
+        where: { EmpCode: client.clientPartner },
+        orderBy: { Active: 'desc' }, // 'Yes' before 'No'
+        select: { ServLineCode: true },
+      })
+    : null;
+
+  return getScoringContext(partner?.ServLineCode);
+}
+
+/**
+ * Active model for a task - thresholds follow the task's service line
+ */
+export async function getTaskScoringContext(taskId: number): Promise<RiskScoringContext> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { ServLineCode: true },
+  });
+
+  return getScoringContext(task?.ServLineCode);
+}
+
+/**
+ * Every model, active first then newest
+ */
+export async function listRiskScoringModels() {
+  const models = await prisma.riskScoringModel.findMany({
+    orderBy: [{ createdAt: 'desc' }],
+    select: modelSelect,
+  });
+
+  return models
+    .map(({ User, ...model }) => ({ ...model, createdBy: User }))
+    .sort((a, b) => Number(b.status === 'ACTIVE') - Number(a.status === 'ACTIVE'));
+}
+
+/**
+ * A model with its configuration and last simulation
+ * @throws AppError 404 if the model does not exist
+ */
+export async function getRiskScoringModel(modelId: number) {
+  const model = await prisma.riskScoringModel.findUnique({
+    where: { id: modelId },
+    select: { ...modelSelect, config: true, simulationSummary: true },
+  });
+
+  if (!model) {
+    throw new AppError(404, 'Risk scoring model not found', ErrorCodes.NOT_FOUND);
+  }
+
+  const { User, config, simulationSummary, ...rest } = model;
+  return {
+    ...rest,
+    createdBy: User,
+    config: parseConfig(config),
+    simulation: simulationSummary ? (JSON.parse(simulationSummary) as RiskSimulationResult) : null,
+  };
+}
+
+/**
+ * @throws AppError 404 if the model does not exist, 409 if it is not a draft
+ */
+async function getDraftModel(modelId: number) {
+  const model = await prisma.riskScoringModel.findUnique({
+    where: { id: modelId },
+    select: { id: true, name: true, status: true, config: true, simulatedAt: true },
+  });
+
+  if (!model) {
+    throw new AppError(404, 'Risk scoring model not found', ErrorCodes.NOT_FOUND);
+  }
+  if (model.status !== 'DRAFT') {
+    throw new AppError(
+      409,
+      `"${model.name}" is ${model.status.toLowerCase()} and cannot be changed. Copy it into a new draft instead`,
+      ErrorCodes.CONFLICT
+    );
+  }
+
+  return model;
+}
+
+/**
+ * Start a draft model as a copy of another model, or of the active model
+ */
+export async function createRiskScoringModel(input: CreateRiskScoringModelInput, createdById: string) {
+  let config = DEFAULT_RISK_SCORING_CONFIG;
+
+  if (input.fromModelId !== undefined) {
+    const source = await prisma.riskScoringModel.findUnique({
+      where: { id: input.fromModelId },
+      select: { config: true },
+    });
+    if (!source) {
+      throw new AppError(404, 'Risk scoring model to copy not found', ErrorCodes.NOT_FOUND);
+    }
+    config = parseConfig(source.config);
+  } else {
+    config = (await getActiveRiskScoringModel())?.config ?? DEFAULT_RISK_SCORING_CONFIG;
+  }
+
+  return prisma.riskScoringModel.create({
+    data: {
+      name: input.name,
+      description: input.description ?? null,
+      config: JSON.stringify(config),
+      createdById,
+    },
+    select: { id: true, name: true, status: true },
+  });
+}
+
+/**
+ * Update a draft - configuration changes clear its simulation
+ */
+export async function updateRiskScoringModel(modelId: number, input: UpdateRiskScoringModelInput) {
+  const draft = await getDraftModel(modelId);
+
+  return prisma.riskScoringModel.update({
+    where: { id: draft.id },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.config !== undefined && {
+        config: JSON.stringify(input.config),
+        simulationSummary: null,
+        simulatedAt: null,
+      }),
+    },
+    select: { id: true, name: true, status: true, updatedAt: true },
+  });
+}
+
+/**
+ * Delete a draft that will not be activated
+ */
+export async function deleteRiskScoringModel(modelId: number) {
+  const draft = await getDraftModel(modelId);
+  await prisma.riskScoringModel.delete({ where: { id: draft.id } });
+  return draft;
+}
+
+/**
+ * Re-score every completed client acceptance under a draft model
+ * Records are compared with the same answers scored under the active model,
+ * so the result shows the effect of the model alone. The summary is saved on
+ * the draft and must exist before it can be activated.
+ */
+export async function simulateRiskScoringModel(modelId: number): Promise<RiskSimulationResult> {
+  const draft = await getDraftModel(modelId);
+  const proposed = parseConfig(draft.config);
+
+  const [active, serviceLineMap] = await Promise.all([getActiveRiskScoringModel(), loadServiceLineMap()]);
+  const current = active?.config ?? DEFAULT_RISK_SCORING_CONFIG;
+  const questions = CLIENT_ACCEPTANCE_QUESTIONNAIRE.flatMap((section) => section.questions);
+
+  const matrix = {
+    LOW: { LOW: 0, MEDIUM: 0, HIGH: 0 },
+    MEDIUM: { LOW: 0, MEDIUM: 0, HIGH: 0 },
+    HIGH: { LOW: 0, MEDIUM: 0, HIGH: 0 },
+  };
+  const byServiceLine = new Map<string, RiskSimulationServiceLine>();
+  const changes: RiskSimulationChange[] = [];
+  let total = 0;
+  let knockoutCount = 0;
+  let cursor = 0;
+
+  for (;;) {
+    const batch = await prisma.clientAcceptance.findMany({
+      where: { completedAt: { not: null }, id: { gt: cursor } },
+      orderBy: { id: 'asc' },
+      take: SIMULATION_BATCH_SIZE,
+      select: {
+        id: true,
+        Client: { select: { clientCode: true, clientNameFull: true, clientPartner: true } },
+        ClientAcceptanceAnswer: {
+          select: { answer: true, comment: true, AcceptanceQuestion: { select: { questionKey: true } } },
+        },
+      },
+    });
+    if (batch.length === 0) break;
+    cursor = batch[batch.length - 1]!.id;
+
+    const partners = await prisma.employee.findMany({
+      where: { EmpCode: { in: [...new Set(batch.map((a) => a.Client.clientPartner))] } },
+      orderBy: { Active: 'asc' }, // 'Yes' rows last so they win below
+      select: { EmpCode: true, ServLineCode: true },
+    });
+    const partnerServiceLine = new Map(
+      partners.map((p) => [p.EmpCode, serviceLineMap.masterByExternal.get(p.ServLineCode) ?? null])
+    );
+
+    for (const acceptance of batch) {
+      const answers = Object.fromEntries(
+        acceptance.ClientAcceptanceAnswer.map((a) => [
+          a.AcceptanceQuestion.questionKey,
+          { answer: a.answer || '', comment: a.comment || undefined },
+        ])
+      );
+      const serviceLine = partnerServiceLine.get(acceptance.Client.clientPartner) ?? null;
+
+      const before = calculateClientAcceptanceRisk(answers, questions, { config: current, serviceLine });
+      const after = calculateClientAcceptanceRisk(answers, questions, { config: proposed, serviceLine });
+
+      total++;
+      matrix[before.rating][after.rating]++;
+      if (after.knockoutQuestions.length > 0) knockoutCount++;
+
+      const key = serviceLine ?? UNMAPPED_SERVICE_LINE;
+      const group = byServiceLine.get(key) ?? {
+        serviceLine: key,
+        serviceLineName: serviceLineName(serviceLineMap, key),
+        total: 0,
+        changed: 0,
+        increased: 0,
+        decreased: 0,
+      };
+      group.total++;
+
+      if (before.rating !== after.rating) {
+        const increased = RATING_ORDER[after.rating] > RATING_ORDER[before.rating];
+        group.changed++;
+        group[increased ? 'increased' : 'decreased']++;
+        changes.push({
+          clientAcceptanceId: acceptance.id,
+          clientCode: acceptance.Client.clientCode,
+          clientName: acceptance.Client.clientNameFull,
+          serviceLine,
+          currentScore: before.score,
+          currentRating: before.rating,
+          proposedScore: after.score,
+          proposedRating: after.rating,
+          knockouts: after.knockoutQuestions.map((q) => q.questionKey),
+        });
+      }
+      byServiceLine.set(key, group);
+    }
+  }
+
+  const increased = changes.filter((c) => RATING_ORDER[c.proposedRating] > RATING_ORDER[c.currentRating]).length;
+  const result: RiskSimulationResult = {
+    simulatedAt: new Date().toISOString(),
+    activeModelName: active?.name ?? null,
+    total,
+    changed: changes.length,
+    increased,
+    decreased: changes.length - increased,
+    knockoutCount,
+    matrix,
+    byServiceLine: [...byServiceLine.values()].sort((a, b) => b.changed - a.changed || b.total - a.total),
+    // Biggest rating moves first
+    changes: changes
+      .sort(
+        (a, b) =>
+          Math.abs(RATING_ORDER[b.proposedRating] - RATING_ORDER[b.currentRating]) -
+            Math.abs(RATING_ORDER[a.proposedRating] - RATING_ORDER[a.currentRating]) ||
+          Math.abs(b.proposedScore - b.currentScore) - Math.abs(a.proposedScore - a.currentScore)
+      )
+      .slice(0, MAX_SIMULATION_CHANGES),
+  };
+
+  await prisma.riskScoringModel.update({
+    where: { id: draft.id },
+    data: { simulationSummary: JSON.stringify(result), simulatedAt: new Date(result.simulatedAt) },
+  });
+
+  return result;
+}
+
+/**
+ * Make a simulated draft the active model, retiring the current one
+ * @throws AppError 409 if the draft has not been simulated since it last changed
+ */
+export async function activateRiskScoringModel(modelId: number) {
+  const draft = await getDraftModel(modelId);
+  if (!draft.simulatedAt) {
+    throw new AppError(
+      409,
+      `Simulate "${draft.name}" before activating it`,
+      ErrorCodes.CONFLICT
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const retired = await tx.riskScoringModel.findMany({
+      where: { status: 'ACTIVE' },
+      select: { id: true, name: true },
+    });
+
+    await tx.riskScoringModel.updateMany({
+      where: { status: 'ACTIVE' },
+      data: { status: 'RETIRED' },
+    });
+
+    const activated = await tx.riskScoringModel.update({
+      where: { id: draft.id },
+      data: { status: 'ACTIVE', activatedAt: new Date() },
+      select: { id: true, name: true, status: true, activatedAt: true },
+    });
+
+    return { ...activated, retired };
+  });
+}
+
+/**
+ * Questionnaires and service lines the model editor configures
+ * Task questionnaires show their latest published version.
+ */
+export async function getRiskScoringOptions(): Promise<RiskScoringOptions> {
+  const toQuestionnaire = (questionnaireType: string, label: string, sections: QuestionSection[]) => ({
+    questionnaireType,
+    label,
+    sections: sections.map((section) => ({
+      key: section.key,
+      title: section.title,
+      questions: section.questions
+        .filter((q) => q.fieldType !== 'PLACEHOLDER' && q.fieldType !== 'BUTTON')
+        .map((q) => ({
+          questionKey: q.questionKey,
+          questionText: q.questionText,
+          options: q.options ?? [],
+          riskWeight: q.riskWeight,
+          highRiskAnswers: q.highRiskAnswers ?? [],
+        })),
+    })),
+  });
+
+  const taskQuestionnaires = await Promise.all(
+    VERSIONED_QUESTIONNAIRE_TYPES.map(async (type) =>
+      toQuestionnaire(
+        type,
+        QUESTIONNAIRE_LABELS[type],
+        await getVersionSections(type, await getLatestPublishedVersionId(type))
+      )
+    )
+  );
+
+  const serviceLines = await prisma.serviceLineMaster.findMany({
+    where: { active: true },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    select: { code: true, name: true },
+  });
+
+  return {
+    questionnaires: [
+      toQuestionnaire('CLIENT_ACCEPTANCE', 'Client Acceptance', CLIENT_ACCEPTANCE_QUESTIONNAIRE),
+      ...taskQuestionnaires,
+    ],
+    serviceLines,
+  };
+}
@@ -79,7 +79,10 @@ interface InvoiceBalance {
  * - Positive amounts = invoices/debits (increase balance)
  * - Negative amounts = payments/credits (decrease balance)
  */
-function matchPaymentsToInvoices(transactions: DebtorTransactionRecord[]): Map<string, InvoiceBalance> {
+function matchPaymentsToInvoices(
+  transactions: DebtorTransactionRecord[],
+  asOfDate: Date = new Date()
+): Map<string, InvoiceBalance> {
   const invoiceData = new Map<string, {
     invoiceDate: Date | null;
     totalAmount: number;
@@ -126,7 +129,7 @@ function matchPaymentsToInvoices(transactions: DebtorTransactionRecord[]): Map<s
   
   // Convert to InvoiceBalance format
   const invoices = new Map<string, InvoiceBalance>();
-  const today = new Date();
+  const today = asOfDate;
   
   // Find invoices that have matching write-offs under different invoice numbers
   // If we have an invoice with amount X and another with amount -X, both should be excluded
@@ -178,7 +181,10 @@ function matchPaymentsToInvoices(transactions: DebtorTransactionRecord[]): Map<s
  * Ages all invoices with positive net balance based on invoice date
  * Uses 30-day intervals: 0-30 (current), 31-60, 61-90, 91-120, 120+
  */
-function calculateAgingBucketsFromInvoices(invoices: Map<string, InvoiceBalance>): AgingBuckets {
+function calculateAgingBucketsFromInvoices(
+  invoices: Map<string, InvoiceBalance>,
+  asOfDate: Date = new Date()
+): AgingBuckets {
   const aging: AgingBuckets = {
     current: 0,
     days31_60: 0,
@@ -187,7 +193,7 @@ function calculateAgingBucketsFromInvoices(invoices: Map<string, InvoiceBalance>
     days120Plus: 0,
   };
   
-  const today = new Date();
+  const today = asOfDate;
   
   invoices.forEach((invoice) => {
     const balance = invoice.netBalance;
@@ -222,15 +228,17 @@ function calculateAgingBucketsFromInvoices(invoices: Map<string, InvoiceBalance>
  * 
  * @param transactions - All transactions for grouping by invoice
  * @param invoices - Map of matched invoices with net balances (from matchPaymentsToInvoices)
+ * @param asOfDate - Date outstanding invoices are aged to (defaults to today)
  */
 function calculatePaymentMetrics(
   transactions: DebtorTransactionRecord[],
-  invoices: Map<string, InvoiceBalance>
+  invoices: Map<string, InvoiceBalance>,
+  asOfDate: Date = new Date()
 ): {
   avgPaymentDaysPaid: number | null;
   avgPaymentDaysOutstanding: number;
 } {
-  const today = new Date();
+  const today = asOfDate;
   
   // Group all transactions by InvNumber with chronological ordering
   const transactionsByInvoice = new Map<string, DebtorTransactionRecord[]>();
@@ -365,16 +373,19 @@ export function aggregateDebtorsByServiceLine(
  * Aggregate overall debtor data from all transactions
  * 
  * @param transactions - Array of debtor transaction records
+ * @param asOfDate - Date balances are aged to; pass a period end for historical
+ *   positions (transactions must already be limited to that date)
  * @returns Overall aggregated debtor metrics
  */
 export function aggregateOverallDebtorData(
-  transactions: DebtorTransactionRecord[]
+  transactions: DebtorTransactionRecord[],
+  asOfDate: Date = new Date()
 ): DebtorMetrics {
   // Match payments to invoices to get net balances
-  const invoices = matchPaymentsToInvoices(transactions);
+  const invoices = matchPaymentsToInvoices(transactions, asOfDate);
   
   // Calculate aging from net invoice balances
-  const aging = calculateAgingBucketsFromInvoices(invoices);
+  const aging = calculateAgingBucketsFromInvoices(invoices, asOfDate);
   
   // Calculate total balance from net invoice balances (only unpaid/partially paid)
   let totalBalance = 0;
@@ -383,7 +394,7 @@ export function aggregateOverallDebtorData(
   });
   
   // Calculate payment metrics
-  const paymentMetrics = calculatePaymentMetrics(transactions, invoices);
+  const paymentMetrics = calculatePaymentMetrics(transactions, invoices, asOfDate);
 
   return {
     totalBalance,
@@ -14,9 +14,9 @@ import type {
   DelegationConfig,
   WorkflowType,
   RouteConfig,
-  RouteStepConfig,
 } from '@/types/approval';
-import type { Approval, ApprovalStep } from '@prisma/client';
+import type { Approval, ApprovalStep, Prisma } from '@prisma/client';
+import { buildRouteContext, resolveRouteSteps } from './routeResolver';
 
 export class ApprovalService {
   /**
@@ -37,6 +37,12 @@ export class ApprovalService {
 
       const routeConfig: RouteConfig = JSON.parse(route.routeConfig);
 
+      // Registry fields for the workflow record, overridden by caller context
+      const context = {
+        ...(await this.getRegistryContext(config.workflowType, config.workflowId)),
+        ...(config.context || {}),
+      };
+
       // Create approval and steps in a transaction
       const { approval, steps } = await prisma.$transaction(async (tx) => {
         // Create the approval
@@ -59,11 +65,11 @@ export class ApprovalService {
           tx,
           newApproval.id,
           routeConfig,
-          config.context || {}
+          context
         );
 
         // Set the first pending step as current
-        const firstPendingStep = steps.find((s) => s.status === 'PENDING');
+        const firstPendingStep = this.getNextPendingStep(steps);
         if (firstPendingStep) {
           await tx.approval.update({
             where: { id: newApproval.id },
@@ -86,11 +92,13 @@ export class ApprovalService {
         select: { name: true },
       });
 
+      // Sequential routes only notify the first stage; later stages are
+      // notified as earlier ones complete
       await this.sendApprovalNotifications(
         approval,
-        steps,
+        routeConfig.requiresAllSteps ? this.getActionableSteps(steps) : steps,
         requestedByUser?.name || 'A user',
-        config.context || {}
+        context
       );
 
       return approval;
@@ -100,75 +108,58 @@ export class ApprovalService {
     }
   }
 
+  /**
+   * Build route context from the workflow registry
+   * Fails soft so a missing record or registry error falls back to caller context
+   */
+  private async getRegistryContext(
+    workflowType: WorkflowType,
+    workflowId: number
+  ): Promise<Record<string, unknown>> {
+    try {
+      return await buildRouteContext(workflowType, workflowId);
+    } catch (error) {
+      logger.warn('Could not build route context from workflow registry', {
+        workflowType,
+        workflowId,
+        error,
+      });
+      return {};
+    }
+  }
+
   /**
    * Create approval steps from route configuration
    */
   private async createStepsFromRoute(
-    tx: any,
+    tx: Prisma.TransactionClient,
     approvalId: number,
     routeConfig: RouteConfig,
     context: Record<string, unknown>
   ): Promise<ApprovalStep[]> {
+    const { steps: resolvedSteps } = await resolveRouteSteps(tx, routeConfig, context);
     const steps: ApprovalStep[] = [];
 
-    for (const stepConfig of routeConfig.steps) {
-      // Evaluate condition if present
-      if (stepConfig.condition && !this.evaluateCondition(stepConfig.condition, context)) {
-        logger.debug('Skipping step due to condition', { stepConfig, context });
-        continue;
-      }
+    // Steps outside the first stage start their SLA clock when their stage becomes active
+    const requiredOrders = resolvedSteps.filter((s) => s.isRequired).map((s) => s.stepOrder);
+    const firstStage = requiredOrders.length > 0 ? Math.min(...requiredOrders) : null;
+    const now = new Date();
 
-      // Resolve assigned user based on step type
-      let assignedToUserId: string | null = null;
-
-      if (stepConfig.stepType === 'USER' && stepConfig.assignedToUserIdPath) {
-        // Resolve user ID from context path
-        assignedToUserId = this.resolvePathValue(context, stepConfig.assignedToUserIdPath);
-        
-        // If it's an employee code, find the user via Employee.WinLogon → User.email
-        if (assignedToUserId && !assignedToUserId.startsWith('user_')) {
-          // First, find the employee to get their WinLogon (email)
-          const employee = await tx.employee.findFirst({
-            where: { EmpCode: assignedToUserId },
-            select: { WinLogon: true, EmpNameFull: true },
-          });
-          
-          if (employee?.WinLogon) {
-            // Then find the user with that email
-            const user = await tx.user.findFirst({
-              where: { email: employee.WinLogon.toLowerCase() },
-              select: { id: true },
-            });
-            
-            if (user) {
-              assignedToUserId = user.id;
-            } else {
-              logger.warn('Employee has no user account', {
-                empCode: assignedToUserId,
-                empName: employee.EmpNameFull,
-                winLogon: employee.WinLogon,
-              });
-              assignedToUserId = null;
-            }
-          } else {
-            logger.warn('Employee not found or has no WinLogon', {
-              empCode: assignedToUserId,
-            });
-            assignedToUserId = null;
-          }
-        }
-      }
+    for (const resolved of resolvedSteps) {
+      const isActive = !routeConfig.requiresAllSteps || !resolved.isRequired || resolved.stepOrder === firstStage;
 
       const step = await tx.approvalStep.create({
         data: {
           approvalId,
-          stepOrder: stepConfig.stepOrder,
-          stepType: stepConfig.stepType,
-          isRequired: stepConfig.isRequired ?? true,
-          assignedToUserId,
-          assignedToRole: stepConfig.assignedToRole,
-          assignedToCondition: stepConfig.condition || null,
+          stepOrder: resolved.stepOrder,
+          stepType: resolved.stepType,
+          isRequired: resolved.isRequired,
+          parallelMode: resolved.parallelMode,
+          assignedToUserId: resolved.assignedToUserId,
+          assignedToRole: resolved.assignedToRole,
+          assignedToCondition: resolved.condition,
           status: 'PENDING',
+          activatedAt: isActive ? now : null,
         },
       });
 
@@ -380,6 +371,7 @@ export class ApprovalService {
               status: 'PENDING',
               OR: [
                 { assignedToUserId: userId },
+                { isDelegated: true, delegatedToUserId: userId },
                 ...(delegatedUserIds.length > 0
                   ? [{ assignedToUserId: { in: delegatedUserIds } }]
                   : []),
@@ -422,6 +414,18 @@ export class ApprovalService {
         ],
       });
 
+      // Sequential routes: hide approvals until the user's stage is active
+      const actionableIds = new Set([userId, ...delegatedUserIds]);
+      const activeApprovals = approvals.filter(
+        (approval) =>
+          !approval.requiresAllSteps ||
+          this.getActionableSteps(approval.ApprovalStep).some(
+            (s) =>
+              (s.assignedToUserId !== null && actionableIds.has(s.assignedToUserId)) ||
+              (s.isDelegated && s.delegatedToUserId === userId)
+          )
+      );
+
       // Fallback path: Get CLIENT_ACCEPTANCE approvals where assignedToUserId is NULL
       // and user's employee code matches the pendingPartnerCode
       let clientAcceptanceApprovals: any[] = [];
@@ -526,8 +530,8 @@ export class ApprovalService {
       }
 
       // Merge approvals (remove duplicates)
-      const allApprovals = [...approvals];
-      const existingIds = new Set(approvals.map((a) => a.id));
+      const allApprovals = [...activeApprovals];
+      const existingIds = new Set(activeApprovals.map((a) => a.id));
       
       for (const approval of clientAcceptanceApprovals) {
         if (!existingIds.has(approval.id)) {
@@ -567,6 +571,8 @@ export class ApprovalService {
 
   /**
    * Approve a specific step
+   * On sequential routes only steps in the active stage can be approved, and
+   * approving an ANY_OF step skips the rest of its stage
    */
   async approveStep(
     stepId: number,
@@ -574,7 +580,7 @@ export class ApprovalService {
     comment?: string
   ): Promise<ApprovalActionResult> {
     try {
-      return await prisma.$transaction(async (tx) => {
+      const { result, activatedSteps } = await prisma.$transaction(async (tx) => {
         // Get the step
         const step = await tx.approvalStep.findUnique({
           where: { id: stepId },
@@ -587,9 +593,32 @@ export class ApprovalService {
           throw new AppError(404, 'Approval step not found', ErrorCodes.NOT_FOUND);
         }
 
+        if (step.status !== 'PENDING') {
+          throw new AppError(409, `This step is already ${step.status.toLowerCase()}`, ErrorCodes.CONFLICT);
+        }
+
+        const requiresAllSteps = step.Approval.requiresAllSteps;
+        const stepsBefore = await tx.approvalStep.findMany({
+          where: { approvalId: step.approvalId },
+        });
+        const activeStageBefore = this.getActiveStageOrder(stepsBefore);
+
         // Verify user has permission
         await this.verifyStepPermission(step, userId);
 
+        if (
+          requiresAllSteps &&
+          step.isRequired &&
+          activeStageBefore !== null &&
+          step.stepOrder > activeStageBefore
+        ) {
+          throw new AppError(
+            409,
+            'Earlier approval steps must be completed before this step',
+            ErrorCodes.CONFLICT
+          );
+        }
+
         // Update the step
         await tx.approvalStep.update({
           where: { id: stepId },
@@ -601,18 +630,28 @@ export class ApprovalService {
           },
         });
 
+        // First approval in an ANY_OF stage completes it
+        if (step.parallelMode === 'ANY_OF') {
+          await tx.approvalStep.updateMany({
+            where: {
+              approvalId: step.approvalId,
+              stepOrder: step.stepOrder,
+              status: 'PENDING',
+              id: { not: stepId },
+            },
+            data: { status: 'SKIPPED' },
+          });
+        }
+
         // Check if approval is complete
         const allSteps = await tx.approvalStep.findMany({
           where: { approvalId: step.approvalId },
         });
 
-        const requiresAllSteps = step.Approval.requiresAllSteps;
         const isComplete = this.checkApprovalComplete(allSteps, requiresAllSteps);
 
         // Find next pending step
-        const nextStep = allSteps
-          .filter((s) => s.status === 'PENDING')
-          .sort((a, b) => a.stepOrder - b.stepOrder)[0];
+        const nextStep = this.getNextPendingStep(allSteps);
 
         // Update approval status
         const updatedApproval = await tx.approval.update({
@@ -645,21 +684,69 @@ export class ApprovalService {
           );
         }
 
+        // Steps whose stage became active with this approval
+        const activeStageAfter = this.getActiveStageOrder(allSteps);
+        const stageAdvanced =
+          requiresAllSteps && !isComplete && activeStageAfter !== null && activeStageAfter !== activeStageBefore;
+
+        if (stageAdvanced) {
+          await tx.approvalStep.updateMany({
+            where: {
+              approvalId: step.approvalId,
+              stepOrder: activeStageAfter,
+              status: 'PENDING',
+              activatedAt: null,
+            },
+            data: { activatedAt: new Date() },
+          });
+        }
+
         return {
-          success: true,
-          approval: updatedApproval,
-          workflowType: step.Approval.workflowType,
-          workflowId: step.Approval.workflowId,
-          nextStep: nextStep || null,
-          isComplete,
+          result: {
+            success: true,
+            approval: updatedApproval,
+            workflowType: step.Approval.workflowType,
+            workflowId: step.Approval.workflowId,
+            nextStep: nextStep || null,
+            isComplete,
+          },
+          activatedSteps: stageAdvanced
+            ? allSteps.filter((s) => s.status === 'PENDING' && s.stepOrder === activeStageAfter)
+            : [],
         };
       });
+
+      if (activatedSteps.length > 0) {
+        await this.notifyActivatedSteps(result.approval, activatedSteps);
+      }
+
+      return result;
     } catch (error) {
       logger.error('Error approving step', { stepId, userId, error });
       throw error;
     }
   }
 
+  /**
+   * Notify approvers in a stage that has just become active
+   */
+  private async notifyActivatedSteps(approval: Approval, steps: ApprovalStep[]): Promise<void> {
+    try {
+      const [requestedByUser, context] = await Promise.all([
+        prisma.user.findUnique({
+          where: { id: approval.requestedById },
+          select: { name: true },
+        }),
+        this.getRegistryContext(approval.workflowType as WorkflowType, approval.workflowId),
+      ]);
+
+      await this.sendApprovalNotifications(approval, steps, requestedByUser?.name || 'A user', context);
+    } catch (error) {
+      // Don't throw - the approval itself has been recorded
+      logger.error('Failed to notify next approval stage', { approvalId: approval.id, error });
+    }
+  }
+
   /**
    * Reject a specific step
    */
@@ -713,6 +800,15 @@ export class ApprovalService {
           userId,
         });
 
+        await this.executeWorkflowRejectionHandler(
+          {
+            id: step.Approval.id,
+            workflowType: step.Approval.workflowType,
+            workflowId: step.Approval.workflowId,
+          },
+          tx
+        );
+
         return {
           success: true,
           approval: updatedApproval,
@@ -770,6 +866,19 @@ export class ApprovalService {
           break;
         }
         
+        case 'CONTINUANCE': {
+          const { approveClientContinuance } = await import('@/lib/services/acceptance/clientContinuanceService');
+
+          // Marks the continuance approved and starts the client's next continuance cycle
+          await approveClientContinuance(approval.workflowId, approverId, approval.id, tx);
+
+          logger.info('Executed CONTINUANCE completion handler', {
+            approvalId: approval.id,
+            workflowId: approval.workflowId,
+          });
+          break;
+        }
+
         // Other workflow types can be added here as needed
         default:
           // No specific handler for this workflow type
@@ -789,6 +898,28 @@ export class ApprovalService {
     }
   }
 
+  /**
+   * Execute workflow-specific rejection handlers
+   * Called when an approval is rejected, inside the rejection's transaction.
+   * Errors propagate so the rejection rolls back rather than leaving the
+   * workflow item out of step with its approval.
+   */
+  private async executeWorkflowRejectionHandler(
+    approval: { id: number; workflowType: string; workflowId: number },
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    switch (approval.workflowType) {
+      case 'CONTINUANCE': {
+        const { rejectClientContinuance } = await import('@/lib/services/acceptance/clientContinuanceService');
+        await rejectClientContinuance(approval.workflowId, tx);
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
   /**
    * Create or update delegation
    */
@@ -964,8 +1095,8 @@ export class ApprovalService {
     const requiredSteps = steps.filter((s) => s.isRequired);
     
     if (requiresAllSteps) {
-      // All required steps must be approved
-      return requiredSteps.every((s) => s.status === 'APPROVED');
+      // All required steps must be approved (or skipped by an ANY_OF sibling's approval)
+      return requiredSteps.every((s) => s.status === 'APPROVED' || s.status === 'SKIPPED');
     } else {
       // At least one required step must be approved
       return requiredSteps.some((s) => s.status === 'APPROVED');
@@ -973,37 +1104,34 @@ export class ApprovalService {
   }
 
   /**
-   * Evaluate a condition expression
+   * Lowest stepOrder that still has a pending required step
+   * Stages with only optional steps never block later stages
    */
-  private evaluateCondition(
-    condition: string,
-    context: Record<string, unknown>
-  ): boolean {
-    try {
-      // Simple evaluation - in production, use a proper expression evaluator
-      const func = new Function('context', `return ${condition}`);
-      return func(context);
-    } catch (error) {
-      logger.warn('Error evaluating condition', { condition, context, error });
-      return false;
-    }
+  private getActiveStageOrder(steps: ApprovalStep[]): number | null {
+    const pendingRequired = steps.filter((s) => s.status === 'PENDING' && s.isRequired);
+    if (pendingRequired.length === 0) return null;
+    return Math.min(...pendingRequired.map((s) => s.stepOrder));
   }
 
   /**
-   * Resolve a value from a JSON path
+   * Pending steps that can be acted on now (active stage plus optional steps)
    */
-  private resolvePathValue(obj: Record<string, unknown>, path: string): string | null {
-    const parts = path.split('.');
-    let current: any = obj;
-
-    for (const part of parts) {
-      if (current === null || current === undefined) {
-        return null;
-      }
-      current = current[part];
-    }
+  private getActionableSteps(steps: ApprovalStep[]): ApprovalStep[] {
+    const activeStage = this.getActiveStageOrder(steps);
+    return steps.filter(
+      (s) => s.status === 'PENDING' && (!s.isRequired || s.stepOrder === activeStage)
+    );
+  }
 
-    return typeof current === 'string' ? current : null;
+  /**
+   * First pending step in the active stage (falls back to the first pending step)
+   */
+  private getNextPendingStep(steps: ApprovalStep[]): ApprovalStep | undefined {
+    const activeStage = this.getActiveStageOrder(steps);
+    const pending = steps
+      .filter((s) => s.status === 'PENDING')
+      .sort((a, b) => a.stepOrder - b.stepOrder || a.id - b.id);
+    return pending.find((s) => s.stepOrder === activeStage) ?? pending[0];
   }
 }
 
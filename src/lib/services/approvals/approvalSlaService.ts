@@ -0,0 +1,377 @@
+/**
+ * Approval SLA Service
+ * Reminds approvers about overdue steps and escalates them within the approver's leader group
+ *
+ * Thresholds come from ApprovalSlaPolicy (one row per workflow type) and are
+ * counted in business days from when the step became actionable:
+ * 1. After reminderBusinessDays the current approver is reminded
+ * 2. After a further escalationBusinessDays the step is delegated to the next
+ *    member of the original approver's leader group, up to maxEscalations hops
+ *
+ * Escalation uses the step's delegation fields, so the original approver can
+ * still act on the step. Run nightly by the 'approval-sla' scheduled job.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { businessDaysElapsed } from '@/lib/utils/dateUtils';
+import { NotificationType } from '@/types/notification';
+import { notificationService } from '@/lib/services/notifications/notificationService';
+import {
+  createApprovalEscalatedNotification,
+  createApprovalReminderNotification,
+} from '@/lib/services/notifications/templates';
+import { invalidateApprovalsCache } from '@/lib/services/cache/cacheInvalidation';
+import type { ApprovalSlaPolicy, Prisma } from '@prisma/client';
+import type {
+  ApprovalSlaEventType,
+  ApprovalStepType,
+  OverdueApprovalStep,
+  WorkflowType,
+} from '@/types/approval';
+
+const STEP_BATCH_SIZE = 500;
+
+export interface ApprovalSlaRunResult {
+  stepsChecked: number;
+  reminders: number;
+  escalations: number;
+  unescalated: number;
+}
+
+/**
+ * Pending steps of pending approvals that the SLA clock applies to
+ * Steps created outside the route resolver (no parallelMode) are active from creation;
+ * routed steps only once their stage is active (activatedAt set)
+ */
+function slaStepWhere(workflowTypes: string[]): Prisma.ApprovalStepWhereInput {
+  return {
+    status: 'PENDING',
+    Approval: { status: 'PENDING', workflowType: { in: workflowTypes } },
+    OR: [
+      { activatedAt: { not: null } },
+      { activatedAt: null, parallelMode: null },
+    ],
+  };
+}
+
+/**
+ * Find who a step escalates to on a given hop
+ * Members of the original approver's leader group are taken in the order they
+ * were added, starting after the approver and wrapping round
+ */
+async function findEscalationTarget(
+  assigneeUserId: string,
+  hop: number
+): Promise<{ userId: string; leaderGroupId: number } | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: assigneeUserId },
+    select: { email: true },
+  });
+  if (!user?.email) return null;
+
+  const employee = await prisma.employee.findFirst({
+    where: { WinLogon: { equals: user.email } },
+    select: { id: true },
+  });
+  if (!employee) return null;
+
+  const membership = await prisma.leaderGroupMember.findFirst({
+    where: { employeeId: employee.id },
+    orderBy: { leaderGroupId: 'asc' },
+    select: { leaderGroupId: true },
+  });
+  if (!membership) return null;
+
+  const members = await prisma.leaderGroupMember.findMany({
+    where: { leaderGroupId: membership.leaderGroupId },
+    orderBy: { id: 'asc' },
+    select: { employeeId: true, Employee: { select: { WinLogon: true } } },
+  });
+
+  const position = members.findIndex((m) => m.employeeId === employee.id);
+  const rotated = [...members.slice(position + 1), ...members.slice(0, position)];
+  const emails = rotated
+    .map((m) => m.Employee.WinLogon?.toLowerCase())
+    .filter((email): email is string => !!email);
+
+  if (emails.length === 0) return null;
+
+  const users = await prisma.user.findMany({
+    where: { email: { in: emails } },
+    select: { id: true, email: true },
+  });
+  const userIdByEmail = new Map(users.map((u) => [u.email.toLowerCase(), u.id]));
+
+  const candidates = emails
+    .map((email) => userIdByEmail.get(email))
+    .filter((id): id is string => !!id && id !== assigneeUserId);
+
+  const target = candidates[hop - 1];
+  return target ? { userId: target, leaderGroupId: membership.leaderGroupId } : null;
+}
+
+async function recordEvent(
+  approvalStepId: number,
+  eventType: ApprovalSlaEventType,
+  businessDaysWaiting: number,
+  details: { fromUserId?: string | null; toUserId?: string | null; leaderGroupId?: number | null }
+): Promise<void> {
+  await prisma.approvalStepSlaEvent.create({
+    data: {
+      approvalStepId,
+      eventType,
+      businessDaysWaiting,
+      fromUserId: details.fromUserId ?? null,
+      toUserId: details.toUserId ?? null,
+      leaderGroupId: details.leaderGroupId ?? null,
+    },
+  });
+}
+
+/**
+ * Send due reminders and escalations for all pending approval steps
+ * Each step gets at most one action per run; a step reminded today is
+ * escalated on a later run at the earliest.
+ */
+export async function processApprovalSlas(now: Date = new Date()): Promise<ApprovalSlaRunResult> {
+  const result: ApprovalSlaRunResult = { stepsChecked: 0, reminders: 0, escalations: 0, unescalated: 0 };
+
+  const policies = await prisma.approvalSlaPolicy.findMany({ where: { isActive: true } });
+  if (policies.length === 0) return result;
+
+  const policyByType = new Map(policies.map((p) => [p.workflowType, p]));
+
+  // Steps that still have a reminder or escalation to come under their policy
+  const where: Prisma.ApprovalStepWhereInput = {
+    AND: [
+      slaStepWhere(policies.map((p) => p.workflowType)),
+      {
+        OR: policies.map((p) => ({
+          Approval: { workflowType: p.workflowType },
+          OR: [{ reminderSentAt: null }, { escalationLevel: { lt: p.maxEscalations } }],
+        })),
+      },
+    ],
+  };
+
+  // Page by id so every open step is checked, however many there are
+  let cursor = 0;
+  for (;;) {
+    const steps = await prisma.approvalStep.findMany({
+      where: { AND: [where, { id: { gt: cursor } }] },
+      select: {
+        id: true,
+        assignedToUserId: true,
+        isDelegated: true,
+        delegatedToUserId: true,
+        activatedAt: true,
+        reminderSentAt: true,
+        escalationLevel: true,
+        escalatedAt: true,
+        createdAt: true,
+        Approval: { select: { id: true, title: true, workflowType: true, requestedById: true } },
+        User_ApprovalStep_assignedToUserIdToUser: { select: { name: true, email: true } },
+      },
+      orderBy: { id: 'asc' },
+      take: STEP_BATCH_SIZE,
+    });
+    if (steps.length === 0) break;
+    cursor = steps[steps.length - 1]!.id;
+
+    for (const step of steps) {
+      const policy = policyByType.get(step.Approval.workflowType) as ApprovalSlaPolicy;
+      const waiting = businessDaysElapsed(step.activatedAt ?? step.createdAt, now);
+      const currentApproverId = (step.isDelegated && step.delegatedToUserId) || step.assignedToUserId;
+      result.stepsChecked++;
+
+      try {
+        if (!step.reminderSentAt) {
+          if (waiting < policy.reminderBusinessDays) continue;
+
+          if (currentApproverId) {
+            const template = createApprovalReminderNotification(step.Approval.title, waiting);
+            await notificationService.createNotification(
+              currentApproverId,
+              NotificationType.APPROVAL_REMINDER,
+              template.title,
+              template.message,
+              undefined,
+              template.actionUrl,
+              undefined,
+              { approvalId: step.Approval.id, stepId: step.id, businessDaysWaiting: waiting }
+            );
+          }
+
+          await prisma.approvalStep.update({ where: { id: step.id }, data: { reminderSentAt: now } });
+          await recordEvent(step.id, 'REMINDER', waiting, { toUserId: currentApproverId });
+          result.reminders++;
+          continue;
+        }
+
+        if (step.escalationLevel >= policy.maxEscalations) continue;
+
+        const sinceLastAction = businessDaysElapsed(step.escalatedAt ?? step.reminderSentAt, now);
+        if (sinceLastAction < policy.escalationBusinessDays) continue;
+
+        const target = step.assignedToUserId
+          ? await findEscalationTarget(step.assignedToUserId, step.escalationLevel + 1)
+          : null;
+
+        if (!target) {
+          // Nobody to escalate to - stop trying for this step
+          await prisma.approvalStep.update({
+            where: { id: step.id },
+            data: { escalationLevel: policy.maxEscalations, escalatedAt: now },
+          });
+          await recordEvent(step.id, 'NO_ESCALATION_TARGET', waiting, { fromUserId: currentApproverId });
+          result.unescalated++;
+          continue;
+        }
+
+        await prisma.approvalStep.update({
+          where: { id: step.id },
+          data: {
+            isDelegated: true,
+            delegatedToUserId: target.userId,
+            escalationLevel: step.escalationLevel + 1,
+            escalatedAt: now,
+          },
+        });
+        await recordEvent(step.id, 'ESCALATED', waiting, {
+          fromUserId: currentApproverId,
+          toUserId: target.userId,
+          leaderGroupId: target.leaderGroupId,
+        });
+
+        const assignee = step.User_ApprovalStep_assignedToUserIdToUser;
+        const template = createApprovalEscalatedNotification(
+          step.Approval.title,
+          assignee?.name || assignee?.email || 'the assigned approver',
+          waiting
+        );
+        await notificationService.createNotification(
+          target.userId,
+          NotificationType.APPROVAL_ESCALATED,
+          template.title,
+          template.message,
+          undefined,
+          template.actionUrl,
+          undefined,
+          { approvalId: step.Approval.id, stepId: step.id, escalationLevel: step.escalationLevel + 1 }
+        );
+        result.escalations++;
+      } catch (error) {
+        logger.error('Failed to apply approval SLA to step', { stepId: step.id, error });
+      }
+    }
+  }
+
+  if (result.escalations > 0) {
+    await invalidateApprovalsCache();
+  }
+
+  logger.info('Approval SLA run complete', { ...result });
+  return result;
+}
+
+/**
+ * Overdue pending steps the user is involved in (approver, escalation target or requester)
+ * A step is overdue once it has waited at least its policy's reminder threshold
+ */
+export async function getOverdueApprovals(userId: string, now: Date = new Date()): Promise<OverdueApprovalStep[]> {
+  const policies = await prisma.approvalSlaPolicy.findMany({ where: { isActive: true } });
+  if (policies.length === 0) return [];
+
+  const policyByType = new Map(policies.map((p) => [p.workflowType, p]));
+  const userSelect = { select: { id: true, name: true } };
+
+  const steps = [];
+  let cursor = 0;
+  for (;;) {
+    const batch = await prisma.approvalStep.findMany({
+      where: {
+        AND: [
+          slaStepWhere(policies.map((p) => p.workflowType)),
+          { id: { gt: cursor } },
+          {
+            OR: [
+              { assignedToUserId: userId },
+              { delegatedToUserId: userId },
+              { Approval: { requestedById: userId } },
+            ],
+          },
+        ],
+      },
+      select: {
+        id: true,
+        stepOrder: true,
+        stepType: true,
+        isDelegated: true,
+        activatedAt: true,
+        escalationLevel: true,
+        createdAt: true,
+        Approval: {
+          select: {
+            id: true,
+            title: true,
+            workflowType: true,
+            User_Approval_requestedByIdToUser: userSelect,
+          },
+        },
+        User_ApprovalStep_assignedToUserIdToUser: userSelect,
+        User_ApprovalStep_delegatedToUserIdToUser: userSelect,
+        ApprovalStepSlaEvent: {
+          select: {
+            id: true,
+            eventType: true,
+            businessDaysWaiting: true,
+            createdAt: true,
+            User_ApprovalStepSlaEvent_fromUserIdToUser: userSelect,
+            User_ApprovalStepSlaEvent_toUserIdToUser: userSelect,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: { id: 'asc' },
+      take: STEP_BATCH_SIZE,
+    });
+    if (batch.length === 0) break;
+    cursor = batch[batch.length - 1]!.id;
+    steps.push(...batch);
+  }
+
+  return steps
+    .map((step) => {
+      const policy = policyByType.get(step.Approval.workflowType) as ApprovalSlaPolicy;
+      const activatedAt = step.activatedAt ?? step.createdAt;
+      const assignedTo = step.User_ApprovalStep_assignedToUserIdToUser;
+
+      return {
+        stepId: step.id,
+        approvalId: step.Approval.id,
+        workflowType: step.Approval.workflowType as WorkflowType,
+        title: step.Approval.title,
+        stepOrder: step.stepOrder,
+        stepType: step.stepType as ApprovalStepType,
+        requestedBy: step.Approval.User_Approval_requestedByIdToUser,
+        assignedTo,
+        currentApprover: (step.isDelegated && step.User_ApprovalStep_delegatedToUserIdToUser) || assignedTo,
+        activatedAt,
+        businessDaysWaiting: businessDaysElapsed(activatedAt, now),
+        reminderBusinessDays: policy.reminderBusinessDays,
+        escalationBusinessDays: policy.escalationBusinessDays,
+        escalationLevel: step.escalationLevel,
+        history: step.ApprovalStepSlaEvent.map((event) => ({
+          id: event.id,
+          eventType: event.eventType as ApprovalSlaEventType,
+          businessDaysWaiting: event.businessDaysWaiting,
+          createdAt: event.createdAt,
+          fromUser: event.User_ApprovalStepSlaEvent_fromUserIdToUser,
+          toUser: event.User_ApprovalStepSlaEvent_toUserIdToUser,
+        })),
+      };
+    })
+    .filter((step) => step.businessDaysWaiting >= step.reminderBusinessDays)
+    .sort((a, b) => b.businessDaysWaiting - a.businessDaysWaiting);
+}
@@ -0,0 +1,228 @@
+/**
+ * Route Conditions
+ * Safe evaluation of approval route step conditions against workflow context
+ *
+ * Conditions are either structured:
+ *   { field: 'riskRating', operator: 'eq', value: 'HIGH' }
+ *   { all: [...] } | { any: [...] } | { not: {...} }
+ *
+ * or the legacy string form stored in existing routes:
+ *   "context.requiresDualApproval === true"
+ *   "context.riskLevel > 3 && context.clientType === 'LISTED'"
+ *
+ * Legacy strings are parsed into the structured form rather than executed,
+ * so only comparisons of a context field against a literal are supported.
+ */
+
+import type { ConditionOperator, RouteCondition } from '@/types/approval';
+
+type StructuredCondition = Exclude<RouteCondition, string>;
+
+const OPERATORS: ConditionOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'exists'];
+
+const LEGACY_OPERATORS: Record<string, ConditionOperator> = {
+  '===': 'eq',
+  '==': 'eq',
+  '!==': 'neq',
+  '!=': 'neq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+const FIELD_PATTERN = /^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*$/;
+const COMPARISON_PATTERN = /^context\.([\w.]+)\s*(===|!==|==|!=|>=|<=|>|<)\s*(.+)$/;
+
+/**
+ * Parse a literal from a legacy condition
+ */
+function parseLiteral(raw: string): unknown {
+  const value = raw.trim();
+
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === 'null') return null;
+  if (value === 'undefined') return undefined;
+
+  const quoted = value.match(/^'([^']*)'$/) ?? value.match(/^"([^"]*)"$/);
+  if (quoted) return quoted[1];
+
+  throw new Error(`Unsupported literal "${value}"`);
+}
+
+/**
+ * Parse a single legacy comparison (or bare / negated field check)
+ */
+function parseLegacyComparison(expression: string): StructuredCondition {
+  const trimmed = expression.trim();
+
+  const comparison = trimmed.match(COMPARISON_PATTERN);
+  if (comparison) {
+    const [, field, operator, literal] = comparison;
+    return {
+      field: field!,
+      operator: LEGACY_OPERATORS[operator!]!,
+      value: parseLiteral(literal!),
+    };
+  }
+
+  // "context.flag" / "!context.flag"
+  const truthy = trimmed.match(/^(!?)context\.([\w.]+)$/);
+  if (truthy) {
+    const condition: StructuredCondition = { field: truthy[2]!, operator: 'eq', value: true };
+    return truthy[1] ? { not: condition } : condition;
+  }
+
+  throw new Error(`Unsupported condition "${trimmed}" - expected "context.<field> <operator> <value>"`);
+}
+
+/**
+ * Convert a legacy string condition to the structured form
+ * `&&` binds tighter than `||`; parentheses are not supported
+ * @throws Error if the expression is outside the supported subset
+ */
+export function parseLegacyCondition(expression: string): StructuredCondition {
+  if (/[()]/.test(expression.replace(/'[^']*'|"[^"]*"/g, ''))) {
+    throw new Error('Parentheses are not supported in string conditions - use { all } / { any } instead');
+  }
+
+  const anyOf = expression.split('||').map((clause) => {
+    const allOf = clause.split('&&').map(parseLegacyComparison);
+    return allOf.length === 1 ? allOf[0]! : { all: allOf };
+  });
+
+  return anyOf.length === 1 ? anyOf[0]! : { any: anyOf };
+}
+
+/**
+ * Resolve a dot path from the context (a leading "context." is ignored)
+ */
+export function resolveContextValue(context: Record<string, unknown>, path: string): unknown {
+  const parts = path.replace(/^context\./, '').split('.');
+  let current: unknown = context;
+
+  for (const part of parts) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+
+  return current;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+function compare(actual: unknown, operator: ConditionOperator, expected: unknown): boolean {
+  switch (operator) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const a = toNumber(actual);
+      const b = toNumber(expected);
+      if (a === null || b === null) return false;
+      if (operator === 'gt') return a > b;
+      if (operator === 'gte') return a >= b;
+      if (operator === 'lt') return a < b;
+      return a <= b;
+    }
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'notIn':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'exists': {
+      const present = actual !== undefined && actual !== null;
+      return expected === false ? !present : present;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a condition against the route context
+ * Invalid conditions evaluate to false so a bad config never silently adds approvers
+ */
+export function evaluateCondition(condition: RouteCondition, context: Record<string, unknown>): boolean {
+  try {
+    const structured = typeof condition === 'string' ? parseLegacyCondition(condition) : condition;
+
+    if ('all' in structured) return structured.all.every((c) => evaluateCondition(c, context));
+    if ('any' in structured) return structured.any.some((c) => evaluateCondition(c, context));
+    if ('not' in structured) return !evaluateCondition(structured.not, context);
+
+    return compare(resolveContextValue(context, structured.field), structured.operator, structured.value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a condition, returning human-readable errors
+ * @param location - Prefix for error messages (e.g. "Step 2")
+ */
+export function validateCondition(condition: unknown, location: string): string[] {
+  if (typeof condition === 'string') {
+    try {
+      parseLegacyCondition(condition);
+      return [];
+    } catch (error) {
+      return [`${location}: ${error instanceof Error ? error.message : 'Invalid condition'}`];
+    }
+  }
+
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    return [`${location}: condition must be a string or an object`];
+  }
+
+  const record = condition as Record<string, unknown>;
+
+  for (const key of ['all', 'any'] as const) {
+    if (key in record) {
+      const children = record[key];
+      if (!Array.isArray(children) || children.length === 0) {
+        return [`${location}: "${key}" must be a non-empty array`];
+      }
+      return children.flatMap((child, index) => validateCondition(child, `${location}.${key}[${index}]`));
+    }
+  }
+
+  if ('not' in record) {
+    return validateCondition(record.not, `${location}.not`);
+  }
+
+  const errors: string[] = [];
+  const { field, operator, value } = record;
+
+  if (typeof field !== 'string' || !FIELD_PATTERN.test(field.replace(/^context\./, ''))) {
+    errors.push(`${location}: "field" must be a dot path such as "riskRating" or "client.code"`);
+  }
+
+  if (typeof operator !== 'string' || !OPERATORS.includes(operator as ConditionOperator)) {
+    errors.push(`${location}: "operator" must be one of ${OPERATORS.join(', ')}`);
+  } else if ((operator === 'in' || operator === 'notIn') && !Array.isArray(value)) {
+    errors.push(`${location}: "${operator}" requires an array value`);
+  } else if (['gt', 'gte', 'lt', 'lte'].includes(operator) && toNumber(value) === null) {
+    errors.push(`${location}: "${operator}" requires a numeric value`);
+  }
+
+  return errors;
+}
+
+/**
+ * Serialize a condition for storage on ApprovalStep.assignedToCondition
+ */
+export function serializeCondition(condition: RouteCondition): string {
+  return typeof condition === 'string' ? condition : JSON.stringify(condition);
+}
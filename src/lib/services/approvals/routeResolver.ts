@@ -0,0 +1,407 @@
+/**
+ * Route Resolver
+ * Turns an ApprovalRoute.routeConfig into concrete approval steps for a workflow record
+ *
+ * - Steps sharing a stepOrder form a stage; stages run in ascending stepOrder
+ * - A stage's parallelMode decides whether every step (ALL_OF) or the first
+ *   approval (ANY_OF) completes it
+ * - Conditional steps are only created when their condition holds for the
+ *   route context (registry fields for the workflow record + caller context)
+ * - LEADER_GROUP steps expand into one step per group member with a user account
+ * - SERVICE_LINE_LEADER steps expand into one step per service line administrator
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { RouteConfigSchema } from '@/lib/validation/schemas';
+import { evaluateCondition, resolveContextValue, serializeCondition, validateCondition } from './routeConditions';
+import { fetchWorkflowData, getWorkflowRegistry } from './workflowRegistry';
+import type {
+  ParallelMode,
+  ResolvedRouteStep,
+  RouteConfig,
+  RoutePreview,
+  RouteStepConfig,
+  RouteValidationResult,
+  SkippedRouteStep,
+  WorkflowType,
+} from '@/types/approval';
+
+type RouteDb = Prisma.TransactionClient | typeof prisma;
+
+const DEFAULT_PARALLEL_MODE: ParallelMode = 'ALL_OF';
+
+/**
+ * Service line role whose holders lead a master service line
+ */
+const SERVICE_LINE_LEADER_ROLE = 'ADMINISTRATOR';
+
+/**
+ * Group steps by stepOrder, in ascending order
+ */
+function groupByStage<T extends { stepOrder: number }>(steps: T[]): Array<[number, T[]]> {
+  const stages = new Map<number, T[]>();
+  for (const step of steps) {
+    const stage = stages.get(step.stepOrder) ?? [];
+    stage.push(step);
+    stages.set(step.stepOrder, stage);
+  }
+  return [...stages.entries()].sort(([a], [b]) => a - b);
+}
+
+/**
+ * Validate a route configuration before it is saved
+ * Structural problems and unknown leader groups are errors; configurations
+ * that will work but probably not as intended are warnings.
+ */
+export async function validateRouteConfig(raw: unknown, db: RouteDb = prisma): Promise<RouteValidationResult> {
+  const parsed = RouteConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.errors.map((e) => `${e.path.join('.') || 'routeConfig'}: ${e.message}`),
+      warnings: [],
+    };
+  }
+
+  const config = parsed.data as RouteConfig;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  config.steps.forEach((step, index) => {
+    const location = `Step ${index + 1} (order ${step.stepOrder})`;
+
+    if (step.stepType === 'USER') {
+      if (!step.assignedToUserIdPath && !step.assignedToUserId) {
+        errors.push(`${location}: USER steps need assignedToUserIdPath or assignedToUserId`);
+      } else if (step.assignedToUserIdPath && step.assignedToUserId) {
+        errors.push(`${location}: USER steps take either assignedToUserIdPath or assignedToUserId, not both`);
+      }
+    }
+    if (step.stepType === 'ROLE') {
+      if (!step.assignedToRole) {
+        errors.push(`${location}: ROLE steps need assignedToRole`);
+      } else {
+        warnings.push(`${location}: ROLE steps are not assigned to a user, so no one is notified`);
+      }
+    }
+    if (step.stepType === 'LEADER_GROUP' && !step.leaderGroupName) {
+      errors.push(`${location}: LEADER_GROUP steps need leaderGroupName`);
+    }
+    if (step.stepType === 'SERVICE_LINE_LEADER' && !step.serviceLine && !step.serviceLinePath) {
+      errors.push(`${location}: SERVICE_LINE_LEADER steps need serviceLine or serviceLinePath`);
+    }
+    if (step.stepType === 'CONDITIONAL' && step.condition === undefined) {
+      errors.push(`${location}: CONDITIONAL steps need a condition`);
+    }
+    if (step.condition !== undefined) {
+      errors.push(...validateCondition(step.condition, location));
+    }
+  });
+
+  for (const [stepOrder, stageSteps] of groupByStage(config.steps)) {
+    const modes = new Set(stageSteps.map((s) => s.parallelMode ?? DEFAULT_PARALLEL_MODE));
+    if (modes.size > 1) {
+      errors.push(`Stage ${stepOrder}: steps sharing a stepOrder must use the same parallelMode`);
+    }
+  }
+
+  if (config.steps.every((s) => s.condition !== undefined)) {
+    warnings.push('Every step is conditional - approvals where no condition holds will have no approvers');
+  }
+
+  if (!config.requiresAllSteps && config.steps.some((s) => s.parallelMode)) {
+    warnings.push('parallelMode has no effect when requiresAllSteps is false - any required approval completes the route');
+  }
+
+  const groupNames = [...new Set(config.steps.flatMap((s) => (s.leaderGroupName ? [s.leaderGroupName] : [])))];
+  if (groupNames.length > 0) {
+    const groups = await db.leaderGroup.findMany({
+      where: { name: { in: groupNames } },
+      select: { name: true },
+    });
+    const found = new Set(groups.map((g) => g.name));
+    for (const name of groupNames) {
+      if (!found.has(name)) {
+        errors.push(`Leader group "${name}" does not exist`);
+      }
+    }
+  }
+
+  const userIds = [...new Set(config.steps.flatMap((s) => (s.assignedToUserId ? [s.assignedToUserId] : [])))];
+  if (userIds.length > 0) {
+    const users = await db.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true },
+    });
+    const found = new Set(users.map((u) => u.id));
+    for (const id of userIds) {
+      if (!found.has(id)) {
+        errors.push(`User "${id}" does not exist`);
+      }
+    }
+  }
+
+  const serviceLines = [...new Set(config.steps.flatMap((s) => (s.serviceLine ? [s.serviceLine] : [])))];
+  if (serviceLines.length > 0) {
+    const masters = await db.serviceLineMaster.findMany({
+      where: { code: { in: serviceLines } },
+      select: { code: true, active: true },
+    });
+    const byCode = new Map(masters.map((m) => [m.code, m]));
+    for (const code of serviceLines) {
+      const master = byCode.get(code);
+      if (!master) {
+        errors.push(`Service line "${code}" does not exist`);
+      } else if (!master.active) {
+        warnings.push(`Service line "${code}" is inactive`);
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Resolve a USER step's assignee from the context
+ * Context values may be user IDs or employee codes (Employee.WinLogon → User.email)
+ */
+async function resolveUserAssignee(
+  db: RouteDb,
+  stepConfig: RouteStepConfig,
+  context: Record<string, unknown>
+): Promise<{ userId: string | null; warning?: string }> {
+  if (stepConfig.assignedToUserId) {
+    return { userId: stepConfig.assignedToUserId };
+  }
+
+  const value = stepConfig.assignedToUserIdPath
+    ? resolveContextValue(context, stepConfig.assignedToUserIdPath)
+    : undefined;
+
+  if (typeof value !== 'string' || value.trim() === '') {
+    return { userId: null, warning: `No value at context.${stepConfig.assignedToUserIdPath}` };
+  }
+
+  if (value.startsWith('user_')) {
+    return { userId: value };
+  }
+
+  const employee = await db.employee.findFirst({
+    where: { EmpCode: value },
+    select: { WinLogon: true, EmpNameFull: true },
+  });
+
+  if (!employee?.WinLogon) {
+    logger.warn('Employee not found or has no WinLogon', { empCode: value });
+    return { userId: null, warning: `Employee ${value} not found or has no login` };
+  }
+
+  const user = await db.user.findFirst({
+    where: { email: employee.WinLogon.toLowerCase() },
+    select: { id: true },
+  });
+
+  if (!user) {
+    logger.warn('Employee has no user account', {
+      empCode: value,
+      empName: employee.EmpNameFull,
+      winLogon: employee.WinLogon,
+    });
+    return { userId: null, warning: `${employee.EmpNameFull || value} has no user account` };
+  }
+
+  return { userId: user.id };
+}
+
+/**
+ * Resolve the members of a leader group to user IDs
+ */
+async function resolveLeaderGroupUsers(db: RouteDb, groupName: string): Promise<string[]> {
+  const group = await db.leaderGroup.findUnique({
+    where: { name: groupName },
+    select: {
+      LeaderGroupMember: {
+        select: { Employee: { select: { WinLogon: true } } },
+      },
+    },
+  });
+
+  const emails = (group?.LeaderGroupMember ?? [])
+    .map((m) => m.Employee.WinLogon?.toLowerCase())
+    .filter((email): email is string => !!email);
+
+  if (emails.length === 0) return [];
+
+  const users = await db.user.findMany({
+    where: { email: { in: emails } },
+    select: { id: true },
+  });
+
+  return [...new Set(users.map((u) => u.id))];
+}
+
+/**
+ * Resolve the leaders (service line administrators) of a master service line to user IDs
+ */
+async function resolveServiceLineLeaders(db: RouteDb, masterCode: string): Promise<string[]> {
+  const assignments = await db.serviceLineUser.findMany({
+    where: { masterCode, role: SERVICE_LINE_LEADER_ROLE },
+    select: { userId: true },
+  });
+
+  return [...new Set(assignments.map((a) => a.userId))];
+}
+
+/**
+ * Resolve a route configuration into concrete steps for a context
+ */
+export async function resolveRouteSteps(
+  db: RouteDb,
+  routeConfig: RouteConfig,
+  context: Record<string, unknown>
+): Promise<{ steps: ResolvedRouteStep[]; skipped: SkippedRouteStep[] }> {
+  const steps: ResolvedRouteStep[] = [];
+  const skipped: SkippedRouteStep[] = [];
+
+  for (const stepConfig of routeConfig.steps) {
+    const label = stepConfig.label ?? stepConfig.leaderGroupName ?? stepConfig.serviceLine ?? null;
+    const condition = stepConfig.condition !== undefined ? serializeCondition(stepConfig.condition) : null;
+
+    if (stepConfig.condition !== undefined && !evaluateCondition(stepConfig.condition, context)) {
+      logger.debug('Skipping step due to condition', { stepOrder: stepConfig.stepOrder, condition });
+      skipped.push({ stepOrder: stepConfig.stepOrder, stepType: stepConfig.stepType, label, condition: condition! });
+      continue;
+    }
+
+    const base = {
+      stepOrder: stepConfig.stepOrder,
+      stepType: stepConfig.stepType,
+      label,
+      isRequired: stepConfig.isRequired ?? true,
+      parallelMode: stepConfig.parallelMode ?? DEFAULT_PARALLEL_MODE,
+      assignedToRole: stepConfig.assignedToRole ?? null,
+      condition,
+    };
+
+    if (stepConfig.stepType === 'LEADER_GROUP' && stepConfig.leaderGroupName) {
+      const userIds = await resolveLeaderGroupUsers(db, stepConfig.leaderGroupName);
+      if (userIds.length === 0) {
+        logger.warn('Leader group has no members with user accounts', { leaderGroupName: stepConfig.leaderGroupName });
+        steps.push({
+          ...base,
+          assignedToUserId: null,
+          warning: `Leader group "${stepConfig.leaderGroupName}" has no members with user accounts`,
+        });
+      } else {
+        steps.push(...userIds.map((userId) => ({ ...base, assignedToUserId: userId })));
+      }
+      continue;
+    }
+
+    if (stepConfig.stepType === 'SERVICE_LINE_LEADER') {
+      const pathValue = stepConfig.serviceLinePath
+        ? resolveContextValue(context, stepConfig.serviceLinePath)
+        : undefined;
+      const masterCode = stepConfig.serviceLine ?? (typeof pathValue === 'string' ? pathValue : null);
+
+      if (!masterCode) {
+        steps.push({ ...base, assignedToUserId: null, warning: `No value at context.${stepConfig.serviceLinePath}` });
+        continue;
+      }
+
+      const userIds = await resolveServiceLineLeaders(db, masterCode);
+      if (userIds.length === 0) {
+        logger.warn('Service line has no leaders with user accounts', { serviceLine: masterCode });
+        steps.push({ ...base, assignedToUserId: null, warning: `Service line ${masterCode} has no leaders` });
+      } else {
+        steps.push(...userIds.map((userId) => ({ ...base, assignedToUserId: userId })));
+      }
+      continue;
+    }
+
+    if (stepConfig.stepType === 'USER' && (stepConfig.assignedToUserIdPath || stepConfig.assignedToUserId)) {
+      const { userId, warning } = await resolveUserAssignee(db, stepConfig, context);
+      steps.push({ ...base, assignedToUserId: userId, ...(warning ? { warning } : {}) });
+      continue;
+    }
+
+    steps.push({ ...base, assignedToUserId: null });
+  }
+
+  return { steps, skipped };
+}
+
+/**
+ * Build the route context for a workflow record from its registry entry
+ * Returns an empty context for workflows without getRouteContext
+ * @throws AppError 404 if the workflow record does not exist
+ */
+export async function buildRouteContext(
+  workflowType: WorkflowType,
+  workflowId: number
+): Promise<Record<string, unknown>> {
+  const registry = getWorkflowRegistry(workflowType);
+  const data = await fetchWorkflowData(workflowType, workflowId);
+
+  if (!data) {
+    throw new AppError(404, `${registry.name} ${workflowId} not found`, ErrorCodes.NOT_FOUND);
+  }
+
+  return registry.getRouteContext ? await registry.getRouteContext(data) : {};
+}
+
+/**
+ * Preview the steps a route configuration resolves to for a workflow record
+ */
+export async function previewRoute(
+  workflowType: WorkflowType,
+  workflowId: number,
+  rawConfig: unknown
+): Promise<RoutePreview> {
+  const validation = await validateRouteConfig(rawConfig);
+  const context = await buildRouteContext(workflowType, workflowId);
+
+  if (!validation.valid) {
+    return {
+      workflowType,
+      workflowId,
+      requiresAllSteps: false,
+      context,
+      stages: [],
+      skipped: [],
+      validation,
+    };
+  }
+
+  const routeConfig = rawConfig as RouteConfig;
+  const { steps, skipped } = await resolveRouteSteps(prisma, routeConfig, context);
+
+  const userIds = [...new Set(steps.flatMap((s) => (s.assignedToUserId ? [s.assignedToUserId] : [])))];
+  const users = userIds.length > 0
+    ? await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, name: true, email: true },
+      })
+    : [];
+  const usersById = new Map(users.map((u) => [u.id, u]));
+
+  return {
+    workflowType,
+    workflowId,
+    requiresAllSteps: routeConfig.requiresAllSteps,
+    context,
+    stages: groupByStage(steps).map(([stepOrder, stageSteps]) => ({
+      stepOrder,
+      parallelMode: stageSteps[0]?.parallelMode ?? DEFAULT_PARALLEL_MODE,
+      steps: stageSteps.map((step) => ({
+        ...step,
+        assignedToUser: step.assignedToUserId ? usersById.get(step.assignedToUserId) ?? null : null,
+      })),
+    })),
+    skipped,
+    validation,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Route Version Service
+ * Versioned editing of approval route configurations
+ *
+ * Every saved configuration is kept as an ApprovalRouteVersion. Activating a
+ * version copies it into ApprovalRoute.routeConfig, which is what new
+ * approvals are routed with; approvals already in progress keep their steps.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import type { RouteConfigInput } from '@/lib/validation/schemas';
+import { validateRouteConfig } from './routeResolver';
+import type { RouteValidationResult } from '@/types/approval';
+
+/**
+ * Validate a configuration, throwing with every error in the message
+ * @throws AppError 400 if the configuration is invalid
+ */
+export async function assertValidRouteConfig(routeConfig: unknown): Promise<RouteValidationResult> {
+  const validation = await validateRouteConfig(routeConfig);
+  if (!validation.valid) {
+    throw new AppError(
+      400,
+      `Invalid route configuration: ${validation.errors.join('; ')}`,
+      ErrorCodes.VALIDATION_ERROR,
+      validation
+    );
+  }
+  return validation;
+}
+
+/**
+ * Save a configuration as the route's next version
+ */
+export async function createRouteVersion(
+  tx: Prisma.TransactionClient,
+  routeId: number,
+  routeConfig: RouteConfigInput,
+  createdById: string,
+  changeNote?: string
+) {
+  const latest = await tx.approvalRouteVersion.findFirst({
+    where: { routeId },
+    orderBy: { versionNumber: 'desc' },
+    select: { versionNumber: true },
+  });
+
+  return tx.approvalRouteVersion.create({
+    data: {
+      routeId,
+      versionNumber: (latest?.versionNumber ?? 0) + 1,
+      routeConfig: JSON.stringify(routeConfig),
+      changeNote: changeNote ?? null,
+      createdById,
+    },
+  });
+}
+
+/**
+ * Make a version the route's live configuration
+ * @throws AppError 404 if the version does not exist
+ */
+export async function activateRouteVersion(
+  tx: Prisma.TransactionClient,
+  routeId: number,
+  versionNumber: number
+) {
+  const version = await tx.approvalRouteVersion.findUnique({
+    where: { routeId_versionNumber: { routeId, versionNumber } },
+    select: { id: true, routeConfig: true },
+  });
+
+  if (!version) {
+    throw new AppError(404, `Version ${versionNumber} of this route not found`, ErrorCodes.NOT_FOUND);
+  }
+
+  await tx.approvalRouteVersion.update({
+    where: { id: version.id },
+    data: { activatedAt: new Date() },
+  });
+
+  return tx.approvalRoute.update({
+    where: { id: routeId },
+    data: { routeConfig: version.routeConfig, activeVersion: versionNumber },
+  });
+}
+
+/**
+ * Reject status changes that would leave a workflow type without a default route
+ * Approvals created without a route name use the active default route, so the
+ * default must stay active and can only be replaced, never removed.
+ * @throws AppError 409 / 400 if the change is not allowed
+ */
+export function assertRouteStatusChange(
+  existing: { workflowType: string; routeName: string; isActive: boolean; isDefault: boolean },
+  change: { isActive?: boolean; isDefault?: boolean }
+): void {
+  if (existing.isDefault && change.isActive === false) {
+    throw new AppError(
+      409,
+      `"${existing.routeName}" is the default ${existing.workflowType} route. Make another route the default before deactivating it`,
+      ErrorCodes.CONFLICT
+    );
+  }
+
+  if (existing.isDefault && change.isDefault === false) {
+    throw new AppError(
+      409,
+      `${existing.workflowType} needs a default route. Make another route the default instead`,
+      ErrorCodes.CONFLICT
+    );
+  }
+
+  if (change.isDefault && !(change.isActive ?? existing.isActive)) {
+    throw new AppError(400, 'Inactive routes cannot be the default', ErrorCodes.VALIDATION_ERROR);
+  }
+}
@@ -7,6 +7,111 @@ import { UserCog, CheckCircle, FileText, Shield, MessageSquare, RefreshCw, Folde
 import { prisma } from '@/lib/db/prisma';
 import type { WorkflowRegistryEntry, WorkflowType } from '@/types/approval';
 
+/**
+ * Master service line of an employee (Employee.ServLineCode → ServiceLineExternal.masterCode)
+ * Lets routes send approvals to the leaders of the client partner's service line
+ */
+async function getEmployeeMasterServiceLine(empCode: string | null | undefined): Promise<string | null> {
+  if (!empCode) return null;
+
+  const employee = await prisma.employee.findFirst({
+    where: { EmpCode: empCode },
+    select: { ServLineCode: true },
+  });
+  if (!employee) return null;
+
+  const mapping = await prisma.serviceLineExternal.findFirst({
+    where: { ServLineCode: employee.ServLineCode, masterCode: { not: null } },
+    select: { masterCode: true },
+  });
+
+  return mapping?.masterCode ?? null;
+}
+
+/**
+ * Change request with the client fields used for display and routing
+ */
+async function fetchChangeRequest(workflowId: number) {
+  return await prisma.clientPartnerManagerChangeRequest.findUnique({
+    where: { id: workflowId },
+    include: {
+      Client: {
+        select: {
+          GSClientID: true,
+          clientCode: true,
+          clientNameFull: true,
+          groupCode: true,
+          clientPartner: true,
+        },
+      },
+      User_ClientPartnerManagerChangeRequest_requestedByIdToUser: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  });
+}
+
+type ChangeRequestRecord = NonNullable<Awaited<ReturnType<typeof fetchChangeRequest>>>;
+
+/**
+ * Client acceptance with the client fields used for display and routing
+ */
+async function fetchClientAcceptance(workflowId: number) {
+  return await prisma.clientAcceptance.findUnique({
+    where: { id: workflowId },
+    include: {
+      Client: {
+        select: {
+          id: true,
+          GSClientID: true,
+          clientCode: true,
+          clientNameFull: true,
+          groupCode: true,
+          groupDesc: true,
+          clientPartner: true,
+        },
+      },
+    },
+  });
+}
+
+type ClientAcceptanceRecord = NonNullable<Awaited<ReturnType<typeof fetchClientAcceptance>>>;
+
+/**
+ * Client continuance with the client fields used for display and routing
+ */
+async function fetchContinuance(workflowId: number) {
+  return await prisma.clientContinuance.findUnique({
+    where: { id: workflowId },
+    include: {
+      Client: {
+        select: {
+          id: true,
+          GSClientID: true,
+          clientCode: true,
+          clientNameFull: true,
+          groupCode: true,
+          clientPartner: true,
+        },
+      },
+    },
+  });
+}
+
+type ContinuanceRecord = NonNullable<Awaited<ReturnType<typeof fetchContinuance>>>;
+
+/**
+ * Continuance risk rating on the 1-5 risk level scale
+ */
+const CONTINUANCE_RISK_LEVELS: Record<string, number> = {
+  LOW: 1,
+  MEDIUM: 3,
+  HIGH: 5,
+};
+
 /**
  * Workflow Registry
  * Maps workflow types to their configuration
@@ -16,27 +121,7 @@ export const WORKFLOW_REGISTRY: Record<WorkflowType, WorkflowRegistryEntry> = {
     name: 'Client Partner/Manager Change',
     icon: UserCog,
     defaultRoute: 'dual-approval',
-    fetchData: async (workflowId: number) => {
-      return await prisma.clientPartnerManagerChangeRequest.findUnique({
-        where: { id: workflowId },
-        include: {
-          Client: {
-            select: {
-              GSClientID: true,
-              clientCode: true,
-              clientNameFull: true,
-              groupCode: true,
-            },
-          },
-          User_ClientPartnerManagerChangeRequest_requestedByIdToUser: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-        },
-      });
-    },
+    fetchData: fetchChangeRequest,
     getDisplayTitle: (data: any) => {
       const changeType = data?.changeType === 'PARTNER' ? 'Client Partner' : 'Client Manager';
       const clientName = data?.Client?.clientNameFull || data?.Client?.clientCode || 'Unknown';
@@ -45,29 +130,34 @@ export const WORKFLOW_REGISTRY: Record<WorkflowType, WorkflowRegistryEntry> = {
     getDisplayDescription: (data: any) => {
       return `Change from ${data?.currentEmployeeName || data?.currentEmployeeCode} to ${data?.proposedEmployeeName || data?.proposedEmployeeCode}`;
     },
+    getRouteContext: async (data: unknown) => {
+      const request = data as ChangeRequestRecord | null;
+
+      // Active engagement count lets routes escalate changes on larger clients
+      const clientActiveTaskCount = request?.Client?.GSClientID
+        ? await prisma.task.count({ where: { GSClientID: request.Client.GSClientID, Active: 'Yes' } })
+        : 0;
+
+      return {
+        changeType: request?.changeType,
+        requiresDualApproval: request?.requiresDualApproval ?? false,
+        proposedEmployeeCode: request?.proposedEmployeeCode,
+        currentEmployeeCode: request?.currentEmployeeCode,
+        clientId: request?.clientId,
+        clientCode: request?.Client?.clientCode,
+        groupCode: request?.Client?.groupCode,
+        clientPartnerCode: request?.Client?.clientPartner,
+        clientPartnerServiceLine: await getEmployeeMasterServiceLine(request?.Client?.clientPartner),
+        clientActiveTaskCount,
+      };
+    },
   },
 
   CLIENT_ACCEPTANCE: {
     name: 'Client Acceptance',
     icon: Building,
     defaultRoute: 'client-partner-approval',
-    fetchData: async (workflowId: number) => {
-      return await prisma.clientAcceptance.findUnique({
-        where: { id: workflowId },
-        include: {
-          Client: {
-            select: {
-              id: true,
-              GSClientID: true,
-              clientCode: true,
-              clientNameFull: true,
-              groupCode: true,
-              groupDesc: true,
-            },
-          },
-        },
-      });
-    },
+    fetchData: fetchClientAcceptance,
     getDisplayTitle: (data: any) => {
       const clientName = data?.Client?.clientNameFull || data?.Client?.clientCode || 'Unknown Client';
       return `Client Acceptance for ${clientName}`;
@@ -77,6 +167,21 @@ export const WORKFLOW_REGISTRY: Record<WorkflowType, WorkflowRegistryEntry> = {
       const score = data?.overallRiskScore ? ` (${data.overallRiskScore.toFixed(1)}%)` : '';
       return `Risk Rating: ${riskRating}${score}`;
     },
+    getRouteContext: async (data: unknown) => {
+      const acceptance = data as ClientAcceptanceRecord | null;
+      const clientPartnerCode = acceptance?.pendingPartnerCode || acceptance?.Client?.clientPartner;
+
+      return {
+        riskRating: acceptance?.riskRating,
+        overallRiskScore: acceptance?.overallRiskScore,
+        clientPartnerCode,
+        clientPartnerServiceLine: await getEmployeeMasterServiceLine(clientPartnerCode),
+        hasPendingTeamChanges: !!(acceptance?.pendingPartnerCode || acceptance?.pendingManagerCode || acceptance?.pendingInchargeCode),
+        clientId: acceptance?.clientId,
+        clientCode: acceptance?.Client?.clientCode,
+        groupCode: acceptance?.Client?.groupCode,
+      };
+    },
   },
 
   ACCEPTANCE: {
@@ -118,20 +223,35 @@ export const WORKFLOW_REGISTRY: Record<WorkflowType, WorkflowRegistryEntry> = {
   CONTINUANCE: {
     name: 'Client Continuance',
     icon: RefreshCw,
-    defaultRoute: 'partner-approval',
-    fetchData: async (workflowId: number) => {
-      // Placeholder - implement when continuance workflow is created
-      return {
-        id: workflowId,
-        clientId: 0,
-        riskLevel: 0,
-      };
-    },
+    defaultRoute: 'risk-based-approval',
+    fetchData: fetchContinuance,
     getDisplayTitle: (data: any) => {
-      return `Client Continuance Review`;
+      const clientName = data?.Client?.clientNameFull || data?.Client?.clientCode || 'Unknown Client';
+      return `Client Continuance for ${clientName}`;
     },
     getDisplayDescription: (data: any) => {
-      return `Continuance assessment for existing client`;
+      const riskRating = data?.riskRating || 'Pending';
+      const score = data?.overallRiskScore != null ? ` (${data.overallRiskScore.toFixed(0)}%)` : '';
+      const type = data?.questionnaireType === 'CONTINUANCE_LITE' ? 'Lite' : 'Full';
+      return `${type} continuance - Risk Rating: ${riskRating}${score}`;
+    },
+    getRouteContext: async (data: unknown) => {
+      const continuance = data as ContinuanceRecord | null;
+      const clientPartnerCode = continuance?.Client?.clientPartner;
+
+      return {
+        riskRating: continuance?.riskRating,
+        // 1-5 scale used by the seeded risk-based route (LOW 1, MEDIUM 3, HIGH 5)
+        riskLevel: continuance?.riskRating ? CONTINUANCE_RISK_LEVELS[continuance.riskRating] ?? null : null,
+        overallRiskScore: continuance?.overallRiskScore,
+        questionnaireType: continuance?.questionnaireType,
+        isOverdue: continuance?.dueDate ? new Date(continuance.dueDate) <= new Date() : false,
+        clientPartnerCode,
+        clientPartnerServiceLine: await getEmployeeMasterServiceLine(clientPartnerCode),
+        clientId: continuance?.clientId,
+        clientCode: continuance?.Client?.clientCode,
+        groupCode: continuance?.Client?.groupCode,
+      };
     },
   },
 
@@ -158,6 +278,10 @@ export const WORKFLOW_REGISTRY: Record<WorkflowType, WorkflowRegistryEntry> = {
               filePath: true,
               uploadedAt: true,
               uploadedBy: true,
+              // Letters generated from a template are approved before signing
+              generatedFilePath: true,
+              generatedAt: true,
+              generatedBy: true,
             },
           },
         },
@@ -264,6 +264,9 @@ export async function createOpportunity(data: {
       assignedTo: data.assignedTo,
       createdBy: data.createdBy,
       updatedAt: new Date(),
+      BDStageHistory: {
+        create: { stageId: data.stageId, status: 'OPEN' },
+      },
     },
     include: {
       Client: {
@@ -299,6 +302,7 @@ export async function createOpportunity(data: {
 
 /**
  * Update an opportunity
+ * Stage and status changes are recorded in the stage history.
  */
 export async function updateOpportunity(
   opportunityId: number,
@@ -318,9 +322,24 @@ export async function updateOpportunity(
     assignedTo: string;
   }>
 ): Promise<OpportunityWithRelations> {
+  let stageChange: { stageId: number; status: string } | null = null;
+  if (data.stageId !== undefined || data.status !== undefined) {
+    const current = await prisma.bDOpportunity.findUnique({
+      where: { id: opportunityId },
+      select: { stageId: true, status: true },
+    });
+    if (current) {
+      const next = { stageId: data.stageId ?? current.stageId, status: data.status ?? current.status };
+      if (next.stageId !== current.stageId || next.status !== current.status) stageChange = next;
+    }
+  }
+
   const opportunity = await prisma.bDOpportunity.update({
     where: { id: opportunityId },
-    data,
+    data: {
+      ...data,
+      ...(stageChange && { BDStageHistory: { create: stageChange } }),
+    },
     include: {
       Client: {
         select: {
@@ -200,6 +200,20 @@ export async function invalidateWorkflowCache(
         break;
       }
       
+      case 'CONTINUANCE': {
+        // Approving a continuance moves the client acceptance validity forward
+        const continuance = await prisma.clientContinuance.findUnique({
+          where: { id: workflowId },
+          select: { clientId: true },
+        });
+
+        if (continuance) {
+          await invalidateClientAcceptanceCache(continuance.clientId);
+          logger.debug('Client continuance workflow cache invalidated', { workflowId, clientId: continuance.clientId });
+        }
+        break;
+      }
+
       case 'ENGAGEMENT_LETTER':
       case 'DPA':
       case 'ACCEPTANCE': {
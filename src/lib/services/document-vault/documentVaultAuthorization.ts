@@ -3,6 +3,7 @@
  * Handles authorization checks for vault document operations
  */
 
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db/prisma';
 import { SystemRole } from '@/types';
 import type { VaultDocumentScope } from '@/types/documentVault';
@@ -116,6 +117,49 @@ export async function canViewDocument(
   }
 }
 
+/**
+ * Build a Prisma filter matching the documents a user can view
+ * Same rules as canViewDocument, for queries that load many documents at once
+ * 
+ * @param userId - User ID to check
+ * @returns Where clause to combine with other VaultDocument filters
+ */
+export async function getViewableDocumentFilter(
+  userId: string
+): Promise<Prisma.VaultDocumentWhereInput> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+
+    // SYSTEM_ADMIN can view every global and service line document
+    if (user?.role === SystemRole.SYSTEM_ADMIN) {
+      return { scope: { in: ['GLOBAL', 'SERVICE_LINE'] } };
+    }
+
+    const serviceLineAssignments = await prisma.serviceLineUser.findMany({
+      where: { userId },
+      select: { masterCode: true },
+      distinct: ['masterCode'],
+    });
+    const masterCodes = serviceLineAssignments
+      .map(sl => sl.masterCode)
+      .filter((code): code is string => code !== null)
+      .sort();
+
+    return {
+      OR: [
+        { scope: 'GLOBAL' },
+        { scope: 'SERVICE_LINE', serviceLine: { in: masterCodes } },
+      ],
+    };
+  } catch (error) {
+    console.error('Error building viewable document filter:', error);
+    return { scope: 'GLOBAL' };
+  }
+}
+
 /**
  * Check if a user can archive a specific document
  * Same rules as canManageVaultDocuments, but scoped to the document's service line
@@ -213,6 +213,18 @@ export async function invalidateDocumentVaultCache(
   }
 }
 
+/**
+ * Invalidate cached search results only
+ * Call this after the search index changes outside a document mutation
+ */
+export async function invalidateSearchCache(): Promise<void> {
+  try {
+    await cache.invalidatePattern(`${DOCUMENT_VAULT_CACHE_PREFIX}:search:*`);
+  } catch (error) {
+    logger.error('Failed to invalidate search cache', { error });
+  }
+}
+
 /**
  * Invalidate all categories cache
  * Call this after: create, update, delete category operations
@@ -0,0 +1,992 @@
+/**
+ * Document Vault Search Service
+ * Ranked full-text search over published vault documents with phrase and
+ * boolean queries, facets and highlighted snippets, plus "similar documents"
+ * from a locally computed embedding (no external AI call)
+ *
+ * The index (VaultDocumentSearchIndex) stores one row per document holding
+ * field-weighted term frequencies and a hashed embedding vector. Queries are
+ * evaluated in memory against the rows of documents the user can view, so
+ * ranking statistics never leak documents from other service lines.
+ */
+
+import crypto from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { canViewDocument, getViewableDocumentFilter } from './documentVaultAuthorization';
+import {
+  cacheSearchResults,
+  getCachedSearchResults,
+  invalidateSearchCache,
+} from './documentVaultCache';
+import type { VaultSearchInput } from '@/lib/validation/schemas';
+import type {
+  VaultDocumentScope,
+  VaultDocumentType,
+  VaultSearchFacetBucket,
+  VaultSearchFacets,
+  VaultSearchHighlightSegment,
+  VaultSearchResponse,
+  VaultSearchResultDTO,
+  VaultSimilarDocumentsResponse,
+} from '@/types/documentVault';
+
+/** Bump when tokenizing, weighting or the embedding changes - older rows are rebuilt */
+const INDEX_VERSION = 1;
+
+const SIMILARITY_INDEX_ENABLED = process.env.VAULT_SIMILARITY_INDEX_ENABLED !== 'false';
+const EMBEDDING_DIMENSIONS = 256;
+const MIN_SIMILARITY = 0.15;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const PHRASE_BONUS = 1.5;
+
+/** Documents indexed on demand per search, so a large backlog can't stall one request */
+const LAZY_INDEX_BATCH = 25;
+
+const SNIPPET_WINDOW_TOKENS = 30;
+
+/** Relative weight of a term depending on where it appears */
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2.5,
+  description: 1.5,
+  aiSummary: 1.5,
+  aiKeyPoints: 1.5,
+  aiExtractedText: 1,
+} as const;
+
+type IndexedField = keyof typeof FIELD_WEIGHTS;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'during', 'each', 'for', 'from', 'further',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how',
+  'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my',
+  'no', 'nor', 'not', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own',
+  'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too',
+  'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while',
+  'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours',
+]);
+
+// =============================================================================
+// Tokenizing
+// =============================================================================
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Light English stemmer - folds plurals and -ing/-ed/-e endings so that
+ * "policies"/"policy" and "approve"/"approved"/"approving" match
+ */
+function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let w = word;
+  if (w.endsWith('ies') && w.length > 4) {
+    w = `${w.slice(0, -3)}y`;
+  } else if (w.endsWith('sses')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  if (w.endsWith('ing') && w.length > 5) {
+    w = w.slice(0, -3);
+  } else if (w.endsWith('ed') && w.length > 4) {
+    w = w.slice(0, -2);
+  }
+
+  if (w.endsWith('e') && w.length > 4) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+function normalizeWord(word: string): string {
+  return word
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Split text into stemmed terms, keeping character offsets for highlighting
+ * Stopwords and single letters are dropped
+ */
+function tokenizeWithOffsets(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const word = normalizeWord(match[0]);
+    if (STOPWORDS.has(word) || (word.length < 2 && !/\d/.test(word))) continue;
+    tokens.push({ term: stem(word), start: match.index, end: match.index + match[0].length });
+  }
+
+  return tokens;
+}
+
+function tokenize(text: string): string[] {
+  return tokenizeWithOffsets(text).map((t) => t.term);
+}
+
+function parseJsonArray(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// =============================================================================
+// Indexing
+// =============================================================================
+
+const INDEX_SOURCE_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  tags: true,
+  aiSummary: true,
+  aiKeyPoints: true,
+  aiExtractedText: true,
+} satisfies Prisma.VaultDocumentSelect;
+
+type IndexSource = Prisma.VaultDocumentGetPayload<{ select: typeof INDEX_SOURCE_SELECT }>;
+
+function getFieldTexts(document: IndexSource): Record<IndexedField, string> {
+  return {
+    title: document.title,
+    tags: parseJsonArray(document.tags).join('\n'),
+    description: document.description ?? '',
+    aiSummary: document.aiSummary ?? '',
+    aiKeyPoints: parseJsonArray(document.aiKeyPoints).join('\n'),
+    aiExtractedText: document.aiExtractedText ?? '',
+  };
+}
+
+/** FNV-1a 32-bit hash, used for feature hashing into the embedding */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashed bag of terms and adjacent term pairs, log-scaled and L2-normalised
+ * Cosine similarity between two vectors is then a plain dot product
+ */
+function computeEmbedding(fieldTokens: Record<IndexedField, string[]>): number[] | null {
+  const features = new Map<string, number>();
+  for (const field of Object.keys(FIELD_WEIGHTS) as IndexedField[]) {
+    const tokens = fieldTokens[field];
+    const weight = FIELD_WEIGHTS[field];
+    tokens.forEach((term, i) => {
+      features.set(term, (features.get(term) ?? 0) + weight);
+      if (i > 0) {
+        const pair = `${tokens[i - 1]} ${term}`;
+        features.set(pair, (features.get(pair) ?? 0) + weight / 2);
+      }
+    });
+  }
+
+  if (features.size === 0) return null;
+
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const [feature, count] of features) {
+    const hash = hashFeature(feature);
+    const sign = (hash >>> 16) & 1 ? 1 : -1;
+    vector[hash % EMBEDDING_DIMENSIONS]! += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) return null;
+  return vector.map((v) => Math.round((v / norm) * 10000) / 10000);
+}
+
+/**
+ * Build or refresh the search index row for one document
+ * Skips the write when the indexed text is unchanged
+ *
+ * @returns true if the index row was written
+ */
+export async function indexVaultDocument(documentId: number): Promise<boolean> {
+  const document = await prisma.vaultDocument.findUnique({
+    where: { id: documentId },
+    select: INDEX_SOURCE_SELECT,
+  });
+
+  if (!document) {
+    throw new AppError(404, 'Document not found', ErrorCodes.NOT_FOUND);
+  }
+
+  const fieldTexts = getFieldTexts(document);
+  const contentHash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ fieldTexts, similarity: SIMILARITY_INDEX_ENABLED }))
+    .digest('hex');
+
+  const existing = await prisma.vaultDocumentSearchIndex.findUnique({
+    where: { documentId },
+    select: { contentHash: true, indexVersion: true },
+  });
+  if (existing?.contentHash === contentHash && existing.indexVersion === INDEX_VERSION) {
+    return false;
+  }
+
+  const fieldTokens = {} as Record<IndexedField, string[]>;
+  const termFrequencies: Record<string, number> = {};
+  let tokenCount = 0;
+
+  for (const field of Object.keys(FIELD_WEIGHTS) as IndexedField[]) {
+    const tokens = tokenize(fieldTexts[field]);
+    fieldTokens[field] = tokens;
+    for (const term of tokens) {
+      termFrequencies[term] = (termFrequencies[term] ?? 0) + FIELD_WEIGHTS[field];
+    }
+    tokenCount += tokens.length * FIELD_WEIGHTS[field];
+  }
+
+  const embedding = SIMILARITY_INDEX_ENABLED ? computeEmbedding(fieldTokens) : null;
+
+  const data = {
+    contentHash,
+    indexVersion: INDEX_VERSION,
+    tokenCount: Math.round(tokenCount),
+    termFrequencies: JSON.stringify(termFrequencies),
+    embedding: embedding ? JSON.stringify(embedding) : null,
+    indexedAt: new Date(),
+  };
+
+  await prisma.vaultDocumentSearchIndex.upsert({
+    where: { documentId },
+    create: { documentId, ...data },
+    update: data,
+  });
+
+  return true;
+}
+
+/**
+ * Refresh a document's index after it changes, without failing the caller
+ * Call this after: publish, metadata edits and AI extraction
+ */
+export async function refreshVaultDocumentIndex(documentId: number): Promise<void> {
+  try {
+    const changed = await indexVaultDocument(documentId);
+    if (changed) {
+      await invalidateSearchCache();
+    }
+  } catch (error) {
+    logger.error('Failed to index vault document for search', { documentId, error });
+  }
+}
+
+/**
+ * Rebuild the search index for every document that isn't archived
+ * Unchanged documents are skipped unless force is set
+ */
+export async function rebuildVaultSearchIndex(
+  options: { force?: boolean } = {}
+): Promise<{ indexed: number; unchanged: number; failed: number }> {
+  if (options.force) {
+    await prisma.vaultDocumentSearchIndex.deleteMany({});
+  }
+
+  const documents = await prisma.vaultDocument.findMany({
+    where: { status: { not: 'ARCHIVED' } },
+    select: { id: true },
+    orderBy: { id: 'asc' },
+  });
+
+  const result = { indexed: 0, unchanged: 0, failed: 0 };
+  for (const { id } of documents) {
+    try {
+      if (await indexVaultDocument(id)) {
+        result.indexed++;
+      } else {
+        result.unchanged++;
+      }
+    } catch (error) {
+      result.failed++;
+      logger.error('Failed to index vault document during rebuild', { documentId: id, error });
+    }
+  }
+
+  await invalidateSearchCache();
+  logger.info('Rebuilt document vault search index', result);
+
+  return result;
+}
+
+// =============================================================================
+// Query parsing
+// =============================================================================
+
+interface QueryClause {
+  kind: 'term' | 'prefix' | 'phrase';
+  /** Stemmed terms - a single entry for term and prefix clauses */
+  terms: string[];
+  negated: boolean;
+}
+
+/** Groups are OR-ed together, clauses inside a group are AND-ed */
+type ParsedQuery = QueryClause[][];
+
+/**
+ * Parse a search query
+ * - Words are required by default: `leave policy`
+ * - `OR` between words or phrases: `leave OR absence`
+ * - `"quoted phrase"` matches the words next to each other
+ * - `NOT word` or `-word` excludes documents
+ * - `word*` matches any word starting with it
+ * `AND` binds tighter than `OR`, so `a b OR c` means (a AND b) OR c
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const groups: ParsedQuery = [[]];
+  const pattern = /(-?)"([^"]*)"?|(\S+)/g;
+  let negateNext = false;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const isPhrase = match[2] !== undefined;
+    let raw = isPhrase ? match[2]! : match[3]!;
+    let negated = negateNext || match[1] === '-';
+    negateNext = false;
+
+    if (!isPhrase) {
+      if (raw === 'OR' || raw === '|') {
+        if (groups[groups.length - 1]!.length > 0) groups.push([]);
+        continue;
+      }
+      if (raw === 'AND' || raw === '&') continue;
+      if (raw === 'NOT') {
+        negateNext = true;
+        continue;
+      }
+      if (raw.startsWith('-') && raw.length > 1) {
+        negated = true;
+        raw = raw.slice(1);
+      }
+    }
+
+    const group = groups[groups.length - 1]!;
+
+    if (!isPhrase && raw.endsWith('*')) {
+      const prefix = normalizeWord(raw.replace(/\*+$/, '')).replace(/[^\p{L}\p{N}]/gu, '');
+      if (prefix.length >= 2) {
+        group.push({ kind: 'prefix', terms: [prefix], negated });
+      }
+      continue;
+    }
+
+    // Hyphenated or dotted words ("IFRS-16") tokenize to several terms and match as a phrase
+    const terms = tokenize(raw);
+    if (terms.length === 0) continue;
+    group.push({ kind: isPhrase || terms.length > 1 ? 'phrase' : 'term', terms, negated });
+  }
+
+  const usable = groups.filter((group) => group.some((clause) => !clause.negated));
+  if (usable.length === 0) {
+    throw new AppError(
+      400,
+      'Search needs at least one word to look for (common words such as "the" are ignored)',
+      ErrorCodes.VALIDATION_ERROR
+    );
+  }
+
+  return usable;
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+const SEARCH_DOCUMENT_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  documentType: true,
+  scope: true,
+  serviceLine: true,
+  aiSummary: true,
+  tags: true,
+  publishedAt: true,
+  effectiveDate: true,
+  VaultDocumentCategory: {
+    select: { id: true, name: true, icon: true, color: true },
+  },
+  VaultDocumentType: {
+    select: { name: true },
+  },
+  ServiceLineMaster: {
+    select: { name: true },
+  },
+  SearchIndex: {
+    select: { indexVersion: true, tokenCount: true, termFrequencies: true, indexedAt: true },
+  },
+} satisfies Prisma.VaultDocumentSelect;
+
+type SearchDocument = Prisma.VaultDocumentGetPayload<{ select: typeof SEARCH_DOCUMENT_SELECT }>;
+
+interface IndexedDocument {
+  document: SearchDocument;
+  terms: Map<string, number>;
+  tokenCount: number;
+}
+
+/** Parsed term maps keyed by document, reused while the index row is unchanged */
+const termMapCache = new Map<number, { indexedAt: number; terms: Map<string, number> }>();
+
+function getTermMap(documentId: number, index: { termFrequencies: string; indexedAt: Date }) {
+  const indexedAt = index.indexedAt.getTime();
+  const cached = termMapCache.get(documentId);
+  if (cached && cached.indexedAt === indexedAt) return cached.terms;
+
+  const terms = new Map(Object.entries(JSON.parse(index.termFrequencies) as Record<string, number>));
+  termMapCache.set(documentId, { indexedAt, terms });
+  return terms;
+}
+
+/**
+ * Load the published documents the user can view, indexing any that are
+ * missing from the index or were indexed by an older version
+ */
+async function loadSearchCorpus(viewable: Prisma.VaultDocumentWhereInput): Promise<IndexedDocument[]> {
+  const where: Prisma.VaultDocumentWhereInput = { AND: [viewable, { status: 'PUBLISHED' }] };
+  let documents = await prisma.vaultDocument.findMany({ where, select: SEARCH_DOCUMENT_SELECT });
+
+  const stale = documents.filter((d) => !d.SearchIndex || d.SearchIndex.indexVersion !== INDEX_VERSION);
+  if (stale.length > 0) {
+    const batch = stale.slice(0, LAZY_INDEX_BATCH);
+    for (const { id } of batch) {
+      await refreshVaultDocumentIndex(id);
+    }
+    if (stale.length > batch.length) {
+      logger.warn('Document vault search index is behind, run a rebuild', {
+        pending: stale.length - batch.length,
+      });
+    }
+    documents = await prisma.vaultDocument.findMany({ where, select: SEARCH_DOCUMENT_SELECT });
+  }
+
+  return documents
+    .filter((d) => d.SearchIndex && d.SearchIndex.indexVersion === INDEX_VERSION)
+    .map((d) => ({
+      document: d,
+      terms: getTermMap(d.id, d.SearchIndex!),
+      tokenCount: d.SearchIndex!.tokenCount,
+    }));
+}
+
+/** Weighted frequency of a clause's terms in a document (prefixes summed over every match) */
+function termFrequency(clause: QueryClause, term: string, terms: Map<string, number>): number {
+  if (clause.kind !== 'prefix') return terms.get(term) ?? 0;
+
+  let total = 0;
+  for (const [key, tf] of terms) {
+    if (key.startsWith(term)) total += tf;
+  }
+  return total;
+}
+
+function containsAllTerms(clause: QueryClause, terms: Map<string, number>): boolean {
+  return clause.terms.every((term) => termFrequency(clause, term, terms) > 0);
+}
+
+function containsSequence(tokens: string[], sequence: string[]): boolean {
+  outer: for (let i = 0; i <= tokens.length - sequence.length; i++) {
+    for (let j = 0; j < sequence.length; j++) {
+      if (tokens[i + j] !== sequence[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Evaluate the query against one document
+ * phraseHits holds the phrases confirmed in the document's text - without it,
+ * phrases are assumed to match when all their words are present
+ */
+function matchesQuery(
+  parsed: ParsedQuery,
+  terms: Map<string, number>,
+  phraseHits?: Set<QueryClause>
+): boolean {
+  return parsed.some((group) =>
+    group.every((clause) => {
+      let present = containsAllTerms(clause, terms);
+      if (present && clause.kind === 'phrase') {
+        if (phraseHits) {
+          present = phraseHits.has(clause);
+        } else if (clause.negated) {
+          // Can't exclude on a phrase until the text has been checked
+          return true;
+        }
+      }
+      return clause.negated ? !present : present;
+    })
+  );
+}
+
+/**
+ * Check which phrase clauses really appear in each candidate's text
+ * Phrases never span two fields
+ */
+async function findPhraseHits(
+  parsed: ParsedQuery,
+  candidates: IndexedDocument[]
+): Promise<Map<number, Set<QueryClause>>> {
+  const phrases = parsed.flat().filter((clause) => clause.kind === 'phrase');
+  const hits = new Map<number, Set<QueryClause>>();
+  if (phrases.length === 0) return hits;
+
+  const toCheck = candidates.filter((c) => phrases.some((clause) => containsAllTerms(clause, c.terms)));
+  if (toCheck.length === 0) return hits;
+
+  const sources = await prisma.vaultDocument.findMany({
+    where: { id: { in: toCheck.map((c) => c.document.id) } },
+    select: INDEX_SOURCE_SELECT,
+  });
+
+  for (const source of sources) {
+    const fieldTokens = Object.values(getFieldTexts(source)).map(tokenize);
+    const found = new Set<QueryClause>();
+    for (const clause of phrases) {
+      if (fieldTokens.some((tokens) => containsSequence(tokens, clause.terms))) {
+        found.add(clause);
+      }
+    }
+    hits.set(source.id, found);
+  }
+
+  return hits;
+}
+
+/** Okapi BM25 over the positive clauses the document contains, plus a bonus for exact phrases */
+function scoreDocument(
+  parsed: ParsedQuery,
+  candidate: IndexedDocument,
+  phraseHits: Set<QueryClause> | undefined,
+  idf: (clause: QueryClause, term: string) => number,
+  averageLength: number
+): number {
+  const lengthNorm = 1 - BM25_B + BM25_B * (candidate.tokenCount / (averageLength || 1));
+  let score = 0;
+
+  for (const clause of parsed.flat()) {
+    if (clause.negated) continue;
+    let clauseScore = 0;
+    for (const term of clause.terms) {
+      const tf = termFrequency(clause, term, candidate.terms);
+      if (tf === 0) continue;
+      clauseScore += idf(clause, term) * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+    }
+    if (clause.kind === 'phrase' && phraseHits?.has(clause)) {
+      clauseScore *= PHRASE_BONUS;
+    }
+    score += clauseScore;
+  }
+
+  return score;
+}
+
+type FacetKey = 'category' | 'documentType' | 'serviceLine' | 'effectiveDate';
+
+function effectiveYear(document: SearchDocument): string {
+  return document.effectiveDate ? String(document.effectiveDate.getUTCFullYear()) : 'none';
+}
+
+function passesFilters(document: SearchDocument, filters: VaultSearchInput, except?: FacetKey): boolean {
+  if (except !== 'category' && filters.categoryIds.length > 0 && !filters.categoryIds.includes(document.VaultDocumentCategory.id)) {
+    return false;
+  }
+  if (except !== 'documentType' && filters.documentTypes.length > 0 && !filters.documentTypes.includes(document.documentType)) {
+    return false;
+  }
+  if (except !== 'serviceLine' && filters.serviceLines.length > 0) {
+    // Global documents are listed under "Firm-wide"
+    if (!filters.serviceLines.includes(document.serviceLine ?? 'GLOBAL')) return false;
+  }
+  if (except !== 'effectiveDate') {
+    if (filters.effectiveYears.length > 0 && !filters.effectiveYears.includes(effectiveYear(document))) {
+      return false;
+    }
+    if (filters.effectiveFrom || filters.effectiveTo) {
+      if (!document.effectiveDate) return false;
+      const date = document.effectiveDate.toISOString().slice(0, 10);
+      if (filters.effectiveFrom && date < filters.effectiveFrom) return false;
+      if (filters.effectiveTo && date > filters.effectiveTo) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Facet counts for the documents matching the query
+ * Each facet ignores its own selection, so picking one category still shows
+ * how many results the other categories would give
+ */
+function buildFacets(matched: SearchDocument[], filters: VaultSearchInput): VaultSearchFacets {
+  const count = (
+    key: FacetKey,
+    bucketOf: (d: SearchDocument) => { value: string; label: string },
+    selected: string[]
+  ): VaultSearchFacetBucket[] => {
+    const buckets = new Map<string, VaultSearchFacetBucket>();
+    for (const document of matched) {
+      if (!passesFilters(document, filters, key)) continue;
+      const { value, label } = bucketOf(document);
+      const bucket = buckets.get(value) ?? { value, label, count: 0, selected: selected.includes(value) };
+      bucket.count++;
+      buckets.set(value, bucket);
+    }
+    // Keep selected values visible even when nothing matches them any more
+    for (const value of selected) {
+      if (!buckets.has(value)) buckets.set(value, { value, label: value, count: 0, selected: true });
+    }
+    return Array.from(buckets.values());
+  };
+
+  const byCount = (a: VaultSearchFacetBucket, b: VaultSearchFacetBucket) =>
+    b.count - a.count || a.label.localeCompare(b.label);
+
+  return {
+    categories: count(
+      'category',
+      (d) => ({ value: String(d.VaultDocumentCategory.id), label: d.VaultDocumentCategory.name }),
+      filters.categoryIds.map(String)
+    ).sort(byCount),
+    documentTypes: count(
+      'documentType',
+      (d) => ({ value: d.documentType, label: d.VaultDocumentType.name }),
+      filters.documentTypes
+    ).sort(byCount),
+    serviceLines: count(
+      'serviceLine',
+      (d) => ({
+        value: d.serviceLine ?? 'GLOBAL',
+        label: d.serviceLine ? d.ServiceLineMaster?.name ?? d.serviceLine : 'Firm-wide',
+      }),
+      filters.serviceLines
+    ).sort(byCount),
+    effectiveYears: count(
+      'effectiveDate',
+      (d) => {
+        const year = effectiveYear(d);
+        return { value: year, label: year === 'none' ? 'No effective date' : year };
+      },
+      filters.effectiveYears
+    ).sort((a, b) => (a.value === 'none' ? 1 : b.value === 'none' ? -1 : b.value.localeCompare(a.value))),
+  };
+}
+
+/**
+ * Split text into plain and highlighted segments
+ * A token is highlighted when it matches a positive term or prefix of the query
+ */
+function highlight(
+  text: string,
+  isMatch: (term: string) => boolean,
+  range?: { start: number; end: number }
+): VaultSearchHighlightSegment[] {
+  const start = range?.start ?? 0;
+  const end = range?.end ?? text.length;
+  const segments: VaultSearchHighlightSegment[] = [];
+  let cursor = start;
+
+  for (const token of tokenizeWithOffsets(text.slice(start, end))) {
+    if (!isMatch(token.term)) continue;
+    if (token.start + start > cursor) {
+      segments.push({ text: text.slice(cursor, token.start + start), highlight: false });
+    }
+    segments.push({ text: text.slice(token.start + start, token.end + start), highlight: true });
+    cursor = token.end + start;
+  }
+  if (cursor < end) {
+    segments.push({ text: text.slice(cursor, end), highlight: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Pick the window of text with the most distinct query matches
+ * Falls back to the start of the text when nothing matches
+ */
+function buildSnippet(text: string, isMatch: (term: string) => boolean): VaultSearchHighlightSegment[] {
+  const tokens = tokenizeWithOffsets(text);
+  if (tokens.length === 0) return [];
+
+  let bestStart = 0;
+  let bestHits = -1;
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isMatch(tokens[i]!.term)) continue;
+    const distinct = new Set<string>();
+    for (let j = i; j < Math.min(i + SNIPPET_WINDOW_TOKENS, tokens.length); j++) {
+      if (isMatch(tokens[j]!.term)) distinct.add(tokens[j]!.term);
+    }
+    if (distinct.size > bestHits) {
+      bestHits = distinct.size;
+      // Start a few words before the first match for context
+      bestStart = Math.max(0, i - 5);
+    }
+  }
+
+  const start = bestStart === 0 ? 0 : tokens[bestStart]!.start;
+  const end = tokens[Math.min(bestStart + SNIPPET_WINDOW_TOKENS, tokens.length) - 1]!.end;
+
+  const segments = highlight(text, isMatch, { start, end });
+  if (segments.length > 0) {
+    segments[0] = { ...segments[0]!, text: segments[0]!.text.trimStart() };
+  }
+  if (start > 0) segments.unshift({ text: '… ', highlight: false });
+  if (end < text.length) segments.push({ text: ' …', highlight: false });
+
+  return segments;
+}
+
+function buildSearchCacheKey(viewable: Prisma.VaultDocumentWhereInput, params: VaultSearchInput): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ viewable, params }))
+    .digest('hex');
+}
+
+/**
+ * Search published vault documents the user can view
+ * Results are ranked with BM25 (or newest first), filtered by the selected
+ * facets and returned with highlighted title and text snippets
+ */
+export async function searchVaultDocuments(
+  userId: string,
+  params: VaultSearchInput
+): Promise<VaultSearchResponse> {
+  const parsed = parseSearchQuery(params.query);
+  const viewable = await getViewableDocumentFilter(userId);
+
+  // Cache per access filter so users never see results from another user's service lines
+  const cacheKey = buildSearchCacheKey(viewable, params);
+  const cached = (await getCachedSearchResults(cacheKey)) as VaultSearchResponse | null;
+  if (cached) return cached;
+
+  const corpus = await loadSearchCorpus(viewable);
+
+  // First pass on the index alone, then confirm phrases against the text
+  const candidates = corpus.filter((c) => matchesQuery(parsed, c.terms));
+  const phraseHits = await findPhraseHits(parsed, candidates);
+  const matched = candidates.filter((c) => matchesQuery(parsed, c.terms, phraseHits.get(c.document.id) ?? new Set()));
+
+  // Ranking statistics come from the documents the user can view
+  const averageLength = corpus.reduce((sum, c) => sum + c.tokenCount, 0) / (corpus.length || 1);
+  const idfCache = new Map<string, number>();
+  const idf = (clause: QueryClause, term: string) => {
+    const key = `${clause.kind}:${term}`;
+    let value = idfCache.get(key);
+    if (value === undefined) {
+      const df = corpus.filter((c) => termFrequency(clause, term, c.terms) > 0).length;
+      value = Math.log(1 + (corpus.length - df + 0.5) / (df + 0.5));
+      idfCache.set(key, value);
+    }
+    return value;
+  };
+
+  const facets = buildFacets(matched.map((c) => c.document), params);
+
+  const filtered = matched
+    .filter((c) => passesFilters(c.document, params))
+    .map((c) => ({
+      candidate: c,
+      score: scoreDocument(parsed, c, phraseHits.get(c.document.id), idf, averageLength),
+    }));
+
+  if (params.sort === 'newest') {
+    const dateOf = (d: SearchDocument) => (d.effectiveDate ?? d.publishedAt)?.getTime() ?? 0;
+    filtered.sort((a, b) => dateOf(b.candidate.document) - dateOf(a.candidate.document) || b.score - a.score);
+  } else {
+    filtered.sort((a, b) => b.score - a.score || a.candidate.document.title.localeCompare(b.candidate.document.title));
+  }
+
+  const total = filtered.length;
+  const page = filtered.slice((params.page - 1) * params.limit, params.page * params.limit);
+
+  // Snippets need the full text, so only load it for the page being returned
+  const positive = parsed.flat().filter((clause) => !clause.negated);
+  const exactTerms = new Set(positive.filter((c) => c.kind !== 'prefix').flatMap((c) => c.terms));
+  const prefixes = positive.filter((c) => c.kind === 'prefix').map((c) => c.terms[0]!);
+  const isMatch = (term: string) => exactTerms.has(term) || prefixes.some((p) => term.startsWith(p));
+
+  const sources = page.length
+    ? await prisma.vaultDocument.findMany({
+        where: { id: { in: page.map((r) => r.candidate.document.id) } },
+        select: INDEX_SOURCE_SELECT,
+      })
+    : [];
+  const sourceById = new Map(sources.map((s) => [s.id, s]));
+
+  const results: VaultSearchResultDTO[] = page.map(({ candidate, score }) => {
+    const doc = candidate.document;
+    const source = sourceById.get(doc.id);
+    const snippetText = [source?.aiExtractedText, source?.aiSummary, source?.description]
+      .find((text) => text && tokenizeWithOffsets(text).some((t) => isMatch(t.term)))
+      ?? source?.aiSummary ?? source?.description ?? '';
+
+    return {
+      id: doc.id,
+      title: doc.title,
+      description: doc.description,
+      documentType: doc.documentType as VaultDocumentType,
+      category: doc.VaultDocumentCategory,
+      scope: doc.scope as VaultDocumentScope,
+      serviceLine: doc.serviceLine,
+      aiSummary: doc.aiSummary,
+      tags: doc.tags ? parseJsonArray(doc.tags) : null,
+      publishedAt: doc.publishedAt,
+      effectiveDate: doc.effectiveDate,
+      score: Math.round(score * 100) / 100,
+      titleSegments: highlight(doc.title, isMatch),
+      snippet: buildSnippet(snippetText, isMatch),
+    };
+  });
+
+  const response: VaultSearchResponse = {
+    query: params.query,
+    results,
+    facets,
+    pagination: {
+      page: params.page,
+      limit: params.limit,
+      total,
+      totalPages: Math.ceil(total / params.limit),
+    },
+  };
+
+  await cacheSearchResults(cacheKey, response);
+
+  return response;
+}
+
+// =============================================================================
+// Similar documents
+// =============================================================================
+
+function parseEmbedding(value: string | null): number[] | null {
+  if (!value) return null;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.length === EMBEDDING_DIMENSIONS ? (parsed as number[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find published documents with similar wording to a document, using the
+ * cosine similarity of their local embeddings
+ */
+export async function findSimilarVaultDocuments(
+  userId: string,
+  documentId: number,
+  limit: number = 5
+): Promise<VaultSimilarDocumentsResponse> {
+  const source = await prisma.vaultDocument.findUnique({
+    where: { id: documentId },
+    select: { id: true, scope: true, serviceLine: true },
+  });
+
+  if (!source) {
+    throw new AppError(404, 'Document not found', ErrorCodes.NOT_FOUND);
+  }
+
+  const hasAccess = await canViewDocument(userId, {
+    scope: source.scope as VaultDocumentScope,
+    serviceLine: source.serviceLine,
+  });
+  if (!hasAccess) {
+    throw new AppError(403, 'Access denied', ErrorCodes.FORBIDDEN);
+  }
+
+  if (!SIMILARITY_INDEX_ENABLED) {
+    return { enabled: false, documents: [] };
+  }
+
+  let sourceIndex = await prisma.vaultDocumentSearchIndex.findUnique({
+    where: { documentId },
+    select: { embedding: true, indexVersion: true },
+  });
+  if (!sourceIndex?.embedding || sourceIndex.indexVersion !== INDEX_VERSION) {
+    await refreshVaultDocumentIndex(documentId);
+    sourceIndex = await prisma.vaultDocumentSearchIndex.findUnique({
+      where: { documentId },
+      select: { embedding: true, indexVersion: true },
+    });
+  }
+
+  const sourceVector = parseEmbedding(sourceIndex?.embedding ?? null);
+  if (!sourceVector) {
+    return { enabled: true, documents: [] };
+  }
+
+  const viewable = await getViewableDocumentFilter(userId);
+  const others = await prisma.vaultDocument.findMany({
+    where: {
+      AND: [viewable, { status: 'PUBLISHED' }, { id: { not: documentId } }],
+      SearchIndex: { is: { indexVersion: INDEX_VERSION, embedding: { not: null } } },
+    },
+    select: {
+      id: true,
+      title: true,
+      documentType: true,
+      scope: true,
+      serviceLine: true,
+      aiSummary: true,
+      effectiveDate: true,
+      VaultDocumentCategory: {
+        select: { id: true, name: true, icon: true, color: true },
+      },
+      SearchIndex: { select: { embedding: true } },
+    },
+  });
+
+  const documents = others
+    .map((doc) => {
+      const vector = parseEmbedding(doc.SearchIndex?.embedding ?? null);
+      const similarity = vector ? vector.reduce((sum, v, i) => sum + v * sourceVector[i]!, 0) : 0;
+      return { doc, similarity };
+    })
+    .filter((r) => r.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ doc, similarity }) => ({
+      id: doc.id,
+      title: doc.title,
+      documentType: doc.documentType as VaultDocumentType,
+      category: doc.VaultDocumentCategory,
+      scope: doc.scope as VaultDocumentScope,
+      serviceLine: doc.serviceLine,
+      aiSummary: doc.aiSummary,
+      effectiveDate: doc.effectiveDate,
+      similarity: Math.round(similarity * 100) / 100,
+    }));
+
+  return { enabled: true, documents };
+}
@@ -6,6 +6,7 @@
 import { prisma } from '@/lib/db/prisma';
 import { logger } from '@/lib/utils/logger';
 import { invalidateDocumentVaultCache } from './documentVaultCache';
+import { refreshVaultDocumentIndex } from './documentVaultSearch';
 import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
 
 /**
@@ -44,6 +45,8 @@ export async function handleVaultDocumentApprovalComplete(
         },
       });
 
+      await refreshVaultDocumentIndex(documentId);
+
       logger.info('Document published after approval', {
         documentId,
         title: document.title,
@@ -126,6 +129,10 @@ export async function syncDocumentWithApproval(documentId: number): Promise<void
         },
       });
 
+      if (newStatus === 'PUBLISHED') {
+        await refreshVaultDocumentIndex(documentId);
+      }
+
       await invalidateDocumentVaultCache(documentId, document.serviceLine || undefined);
 
       logger.info('Document status synced with approval', {
@@ -4,6 +4,7 @@ export {
   canArchiveDocument,
   getUserAdminServiceLines,
   getUserAccessibleServiceLines,
+  getViewableDocumentFilter,
 } from './documentVaultAuthorization';
 
 export {
@@ -14,3 +15,11 @@ export {
   cacheDocumentDetail,
   cacheCategories,
 } from './documentVaultCache';
+
+export {
+  searchVaultDocuments,
+  findSimilarVaultDocuments,
+  indexVaultDocument,
+  refreshVaultDocumentIndex,
+  rebuildVaultSearchIndex,
+} from './documentVaultSearch';
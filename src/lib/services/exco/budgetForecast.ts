@@ -0,0 +1,697 @@
+/**
+ * Budget vs Actual Forecasting
+ *
+ * Projects remaining fee recovery on every active task with a budget and
+ * compares projected billings with the GL fee budget by fiscal month.
+ *
+ * Task budget: the practice system budget (TaskBudget) where there is one,
+ * otherwise the in-app budget - team allocated hours at charge-out rate plus
+ * planned disbursements (TaskBudgetDisbursement) and planned fees
+ * (TaskBudgetFee).
+ *
+ * Projection (as at today):
+ * - Burn rate is time and disbursements recorded over the last 90 days
+ * - Projected chargeable = actual + burn rate x days to the budget due date
+ *   (or another 30 days for tasks still active past their due date)
+ * - Projected fees = projected chargeable x recovery to date (time, disbursements
+ *   and adjustments over time and disbursements), or the budgeted recovery
+ *   percentage before any time is recorded
+ * - Remaining fee recovery = projected fees less fees billed
+ *
+ * A task is flagged when projected chargeable exceeds its budget by more than
+ * 10%. The overrun is split into hours, rate, disbursement and schedule
+ * drivers, largest first.
+ *
+ * Remaining recovery is forecast into the months of planned fees
+ * (TaskBudgetFee), then spread evenly to the due date.
+ *
+ * GL budgets (GLBudgets) are read as fiscal year / fiscal month. Fee income
+ * accounts are income statement accounts whose GL category mentions fees,
+ * income or revenue; accounts map to service lines through
+ * ServiceLineExternal.GLPrefix.
+ */
+
+import { Prisma } from '@prisma/client';
+import { addMonths, differenceInCalendarDays, eachMonthOfInterval, format, subDays } from 'date-fns';
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { getFiscalMonth } from '@/lib/utils/fiscalPeriod';
+import { getWipAmountCaseExpression } from '@/lib/utils/sql';
+import type {
+  BudgetForecastMonth,
+  BudgetForecastReport,
+  BudgetForecastServiceLineRow,
+  BudgetForecastTotals,
+  ExcoPeriodFilter,
+  ForecastDriver,
+  TaskForecast,
+} from '@/types/exco';
+import { num, percentage, REPORT_CACHE_TTL, round } from './excoMath';
+import { getExcoFiscalYears, resolveExcoPeriod } from './excoPeriod';
+import { loadServiceLineMap, serviceLineName, UNMAPPED_SERVICE_LINE } from './excoServiceLines';
+
+const REPORT_CACHE_KEY = `${CACHE_PREFIXES.ANALYTICS}exco:budget-forecast:`;
+const BURN_WINDOW_DAYS = 90;
+const OVERDUE_RUNOFF_DAYS = 30;
+const OVERRUN_TOLERANCE = 0.1;
+/** Months to spread recovery over when a task has no future due date */
+const RESIDUAL_SPREAD_MONTHS = 3;
+const MAX_TASKS = 200;
+const FEE_INCOME_CATEGORY_PATTERNS = ['%FEE%', '%INCOME%', '%REVENUE%'];
+
+interface TaskBudgetRow {
+  taskId: number;
+  TaskCode: string;
+  TaskDesc: string;
+  ServLineCode: string;
+  TaskPartnerName: string;
+  clientCode: string | null;
+  clientNameFull: string | null;
+  budgetTime: unknown;
+  budgetDisb: unknown;
+  budgetHours: unknown;
+  budgetFees: unknown;
+  recoveryPerc: number | null;
+  startDate: Date | null;
+  dueDate: Date | null;
+  TaskDateOpen: Date;
+  plannedFees: unknown;
+  lastFeeDate: Date | null;
+  plannedDisb: unknown;
+  teamHours: unknown;
+  teamTime: unknown;
+  actualTime: unknown;
+  actualHours: unknown;
+  actualDisb: unknown;
+  actualAdj: unknown;
+  feesBilled: unknown;
+  wipBalance: unknown;
+  recentTime: unknown;
+  recentHours: unknown;
+  recentDisb: unknown;
+  postDueChargeable: unknown;
+}
+
+interface PlannedFeeRow {
+  taskId: number;
+  expectedDate: Date;
+  amount: unknown;
+}
+
+interface MonthlyFeeRow {
+  ServLineCode: string;
+  year: number;
+  month: number;
+  fees: unknown;
+}
+
+interface GlBudgetRow {
+  PeriodNumber: number;
+  Account: string;
+  budget: unknown;
+}
+
+const formatRand = (amount: number) => `R${Math.round(amount).toLocaleString('en-ZA')}`;
+
+function emptyTotals(): BudgetForecastTotals {
+  return { glBudget: 0, actualFees: 0, forecastFees: 0, variance: 0 };
+}
+
+/**
+ * Split a projected overrun into its drivers
+ */
+function overrunDrivers(
+  row: TaskBudgetRow,
+  budget: { hours: number; time: number; disb: number; chargeable: number },
+  projected: { hours: number; disb: number; chargeable: number },
+  dueDate: Date | null,
+  today: Date
+): ForecastDriver[] {
+  const drivers: ForecastDriver[] = [];
+  const actualHours = num(row.actualHours);
+  const actualTime = num(row.actualTime);
+  const budgetRate = budget.hours > 0 ? budget.time / budget.hours : 0;
+
+  if (budget.hours > 0 && projected.hours > budget.hours) {
+    drivers.push({
+      type: 'HOURS',
+      impact: round((projected.hours - budget.hours) * budgetRate),
+      explanation: `Projected ${Math.round(projected.hours)} hours against ${Math.round(budget.hours)} budgeted (${Math.round(
+        ((projected.hours - budget.hours) / budget.hours) * 100
+      )}% over)`,
+    });
+  }
+
+  if (budgetRate > 0 && actualHours > 0) {
+    const actualRate = actualTime / actualHours;
+    if (actualRate > budgetRate) {
+      drivers.push({
+        type: 'RATE',
+        impact: round((actualRate - budgetRate) * projected.hours),
+        explanation: `Average rate ${formatRand(actualRate)}/h against ${formatRand(budgetRate)}/h budgeted - more senior staff mix than planned`,
+      });
+    }
+  }
+
+  if (projected.disb > budget.disb && projected.disb > 0) {
+    drivers.push({
+      type: 'DISBURSEMENTS',
+      impact: round(projected.disb - budget.disb),
+      explanation: `Disbursements projected at ${formatRand(projected.disb)} against ${formatRand(budget.disb)} budgeted`,
+    });
+  }
+
+  const postDue = num(row.postDueChargeable);
+  if (dueDate && dueDate < today && postDue > 0) {
+    drivers.push({
+      type: 'SCHEDULE',
+      impact: round(postDue),
+      explanation: `${formatRand(postDue)} recorded since the ${format(dueDate, 'dd MMM yyyy')} due date and still active`,
+    });
+  }
+
+  if (drivers.length === 0) {
+    const monthlyBurn = ((num(row.recentTime) + num(row.recentDisb)) / BURN_WINDOW_DAYS) * 30;
+    drivers.push({
+      type: 'BURN_RATE',
+      impact: round(projected.chargeable - budget.chargeable),
+      explanation: `Current burn of ${formatRand(monthlyBurn)} a month projects ${formatRand(projected.chargeable)} against a ${formatRand(
+        budget.chargeable
+      )} budget`,
+    });
+  }
+
+  return drivers.filter((d) => d.impact > 0).sort((a, b) => b.impact - a.impact);
+}
+
+/**
+ * Project a task's outturn from its budget, actuals and burn rate
+ */
+function forecastTask(row: TaskBudgetRow, serviceLineCode: string, serviceLineLabel: string, today: Date): TaskForecast {
+  const hasExternalBudget = num(row.budgetTime) + num(row.budgetDisb) + num(row.budgetFees) > 0;
+
+  const budgetTime = hasExternalBudget ? num(row.budgetTime) : num(row.teamTime);
+  const budgetDisb = hasExternalBudget ? num(row.budgetDisb) : num(row.plannedDisb);
+  const budgetHours = hasExternalBudget ? num(row.budgetHours) : num(row.teamHours);
+  const budgetFees = hasExternalBudget ? num(row.budgetFees) : num(row.plannedFees);
+  const budgetChargeable = budgetTime + budgetDisb;
+
+  const actualTime = num(row.actualTime);
+  const actualDisb = num(row.actualDisb);
+  const actualHours = num(row.actualHours);
+  const actualChargeable = actualTime + actualDisb;
+  const feesBilled = num(row.feesBilled);
+
+  const startDate = row.startDate ?? row.TaskDateOpen;
+  const dueDate = row.dueDate ?? row.lastFeeDate;
+  const remainingDays = dueDate
+    ? dueDate > today
+      ? differenceInCalendarDays(dueDate, today)
+      : OVERDUE_RUNOFF_DAYS
+    : 0;
+
+  // Without a due date, assume the task finishes on budget unless it is already over
+  const projectedChargeable = dueDate
+    ? actualChargeable + ((num(row.recentTime) + num(row.recentDisb)) / BURN_WINDOW_DAYS) * remainingDays
+    : Math.max(actualChargeable, budgetChargeable);
+  const projectedHours = dueDate
+    ? actualHours + (num(row.recentHours) / BURN_WINDOW_DAYS) * remainingDays
+    : Math.max(actualHours, budgetHours);
+  const projectedDisb = dueDate ? actualDisb + (num(row.recentDisb) / BURN_WINDOW_DAYS) * remainingDays : actualDisb;
+
+  const recoveryRate =
+    actualChargeable > 0
+      ? Math.max(0, (actualChargeable + num(row.actualAdj)) / actualChargeable)
+      : (row.recoveryPerc ?? 100) / 100;
+  const projectedFees = projectedChargeable * recoveryRate;
+
+  const overrunAmount = budgetChargeable > 0 ? projectedChargeable - budgetChargeable : 0;
+  const overrun = budgetChargeable > 0 && projectedChargeable > budgetChargeable * (1 + OVERRUN_TOLERANCE);
+
+  const periodDays = dueDate ? differenceInCalendarDays(dueDate, startDate) : 0;
+  const elapsedPercent =
+    dueDate && periodDays > 0
+      ? Math.min(100, Math.max(0, percentage(differenceInCalendarDays(today, startDate), periodDays)))
+      : null;
+
+  return {
+    taskId: row.taskId,
+    taskCode: row.TaskCode,
+    taskDesc: row.TaskDesc,
+    clientCode: row.clientCode,
+    clientName: row.clientNameFull,
+    serviceLineCode,
+    serviceLineName: serviceLineLabel,
+    partnerName: row.TaskPartnerName,
+    dueDate: dueDate?.toISOString() ?? null,
+    budgetHours: round(budgetHours),
+    budgetChargeable: round(budgetChargeable),
+    budgetFees: round(budgetFees),
+    actualHours: round(actualHours),
+    actualChargeable: round(actualChargeable),
+    feesBilled: round(feesBilled),
+    wipBalance: round(num(row.wipBalance)),
+    burnPercent: percentage(actualChargeable, budgetChargeable),
+    elapsedPercent,
+    projectedChargeable: round(projectedChargeable),
+    projectedFees: round(projectedFees),
+    remainingFeeRecovery: round(Math.max(0, projectedFees - feesBilled)),
+    overrun,
+    overrunAmount: round(Math.max(0, overrunAmount)),
+    drivers: overrun
+      ? overrunDrivers(
+          row,
+          { hours: budgetHours, time: budgetTime, disb: budgetDisb, chargeable: budgetChargeable },
+          { hours: projectedHours, disb: projectedDisb, chargeable: projectedChargeable },
+          dueDate,
+          today
+        )
+      : [],
+  };
+}
+
+/**
+ * Spread a task's remaining recovery over its planned fee dates, then evenly to the due date
+ */
+function allocateRecovery(
+  task: TaskForecast,
+  plannedFees: PlannedFeeRow[],
+  today: Date,
+  allocate: (monthKey: string, amount: number) => void
+): void {
+  let remaining = task.remainingFeeRecovery;
+  if (remaining <= 0) return;
+
+  const scheduledTotal = plannedFees.reduce((sum, fee) => sum + num(fee.amount), 0);
+  if (scheduledTotal > 0) {
+    const scale = Math.min(1, remaining / scheduledTotal);
+    for (const fee of plannedFees) {
+      allocate(format(fee.expectedDate, 'yyyy-MM'), num(fee.amount) * scale);
+    }
+    remaining -= scheduledTotal * scale;
+  }
+  if (remaining <= 0.005) return;
+
+  const dueDate = task.dueDate ? new Date(task.dueDate) : null;
+  const spreadEnd = dueDate && dueDate > today ? dueDate : addMonths(today, RESIDUAL_SPREAD_MONTHS - 1);
+  const months = eachMonthOfInterval({ start: today, end: spreadEnd });
+  for (const month of months) {
+    allocate(format(month, 'yyyy-MM'), remaining / months.length);
+  }
+}
+
+/**
+ * Map GL accounts to master service lines by the longest matching GL prefix
+ */
+async function loadGlPrefixMap(): Promise<Array<{ prefix: string; masterCode: string }>> {
+  const rows = await prisma.serviceLineExternal.findMany({
+    where: { GLPrefix: { not: null }, masterCode: { not: null } },
+    select: { GLPrefix: true, masterCode: true },
+  });
+
+  return rows
+    .filter((r) => r.GLPrefix!.trim())
+    .map((r) => ({ prefix: r.GLPrefix!.trim(), masterCode: r.masterCode! }))
+    .sort((a, b) => b.prefix.length - a.prefix.length);
+}
+
+/**
+ * GL fee income budget by master service line and fiscal month
+ * Income budgets may be held as credits, so each account is taken at its absolute value.
+ */
+export async function loadGlFeeBudgets(
+  fiscalYear: number,
+  fiscalMonths: number[],
+  budgetCode: string
+): Promise<Array<{ fiscalMonth: number; serviceLine: string; budget: number }>> {
+  if (fiscalMonths.length === 0) return [];
+
+  const [glPrefixes, rows] = await Promise.all([
+    loadGlPrefixMap(),
+    prisma.$queryRaw<GlBudgetRow[]>`
+      SELECT gb.PeriodNumber, acc.Account, ABS(SUM(ISNULL(gb.BudgetAmount, 0))) AS budget
+      FROM GLBudgets gb
+      CROSS APPLY (
+        SELECT TOP 1 g.Account, g.BS, g.Category, g.CatDesc
+        FROM GL g
+        WHERE g.GSAccountID = gb.GSAccountID
+      ) acc
+      WHERE gb.PeriodYear = ${fiscalYear}
+        AND gb.PeriodNumber IN (${Prisma.join(fiscalMonths)})
+        AND gb.BudgetCode = ${budgetCode}
+        AND acc.BS = 0
+        AND (${Prisma.join(
+          FEE_INCOME_CATEGORY_PATTERNS.map((p) => Prisma.sql`acc.Category LIKE ${p} OR acc.CatDesc LIKE ${p}`),
+          ' OR '
+        )})
+      GROUP BY gb.PeriodNumber, acc.Account
+    `,
+  ]);
+
+  return rows.map((row) => ({
+    fiscalMonth: row.PeriodNumber,
+    serviceLine: glPrefixes.find((p) => row.Account.startsWith(p.prefix))?.masterCode ?? UNMAPPED_SERVICE_LINE,
+    budget: num(row.budget),
+  }));
+}
+
+/**
+ * Build the budget vs actual forecast for a fiscal period
+ *
+ * @param filter - Fiscal period the GL budget comparison covers
+ * @param serviceLine - Optional master service line to scope the report to
+ * @param budgetCode - GL budget version; defaults to the first for the year
+ */
+export async function getBudgetForecast(
+  filter: ExcoPeriodFilter,
+  serviceLine?: string,
+  budgetCode?: string
+): Promise<BudgetForecastReport> {
+  const cacheKey = `${REPORT_CACHE_KEY}${filter.fiscalYear}:${filter.fiscalQuarter ?? ''}:${filter.fiscalMonth ?? ''}:${serviceLine ?? ''}:${budgetCode ?? ''}`;
+  const cached = await cache.get<BudgetForecastReport>(cacheKey);
+  if (cached) return cached;
+
+  const [period, fiscalYears, serviceLineMap, budgetCodeRows] = await Promise.all([
+    resolveExcoPeriod(filter),
+    getExcoFiscalYears(),
+    loadServiceLineMap(),
+    prisma.gLBudgets.findMany({
+      where: { PeriodYear: filter.fiscalYear },
+      distinct: ['BudgetCode'],
+      select: { BudgetCode: true },
+      orderBy: { BudgetCode: 'asc' },
+    }),
+  ]);
+
+  const { masterByExternal } = serviceLineMap;
+  if (serviceLine && !serviceLineMap.masterNames.has(serviceLine)) {
+    throw new AppError(404, 'Service line not found', ErrorCodes.NOT_FOUND, { serviceLine });
+  }
+
+  const budgetCodes = budgetCodeRows.map((r) => r.BudgetCode);
+  if (budgetCode && !budgetCodes.includes(budgetCode)) {
+    throw new AppError(404, 'GL budget not found for this fiscal year', ErrorCodes.NOT_FOUND, { budgetCode });
+  }
+  const selectedBudgetCode = budgetCode ?? budgetCodes[0] ?? null;
+
+  const externalCodes = serviceLine
+    ? [...masterByExternal].filter(([, master]) => master === serviceLine).map(([code]) => code)
+    : null;
+  const masterFor = (code: string) => masterByExternal.get(code) ?? UNMAPPED_SERVICE_LINE;
+
+  const today = new Date();
+  const start = new Date(period.startDate);
+  const end = new Date(period.endDate);
+  const actualsTo = new Date(Math.min(end.getTime(), today.getTime()));
+  const currentMonthKey = format(today, 'yyyy-MM');
+  const periodMonths = eachMonthOfInterval({ start, end });
+  const fiscalMonths = periodMonths.map((m) => getFiscalMonth(m));
+
+  const taskFilter = externalCodes
+    ? externalCodes.length > 0
+      ? Prisma.sql`AND t.ServLineCode IN (${Prisma.join(externalCodes)})`
+      : Prisma.sql`AND 1 = 0`
+    : Prisma.empty;
+  const wipServiceLineFilter = externalCodes
+    ? externalCodes.length > 0
+      ? Prisma.sql`AND TaskServLine IN (${Prisma.join(externalCodes)})`
+      : Prisma.sql`AND 1 = 0`
+    : Prisma.empty;
+
+  // Sequential to keep the WIP scans off each other
+  const taskRows = await prisma.$queryRaw<TaskBudgetRow[]>`
+    WITH ExternalBudget AS (
+      SELECT
+        GSTaskID,
+        SUM(ISNULL(EstChgTime, 0)) AS budgetTime,
+        SUM(ISNULL(EstChgDisb, 0)) AS budgetDisb,
+        SUM(ISNULL(EstChgHours, 0)) AS budgetHours,
+        SUM(ISNULL(EstFeeTime, 0) + ISNULL(EstFeeDisb, 0)) AS budgetFees,
+        MAX(EstRecoveryPerc) AS recoveryPerc,
+        MIN(BudStartDate) AS startDate,
+        MAX(BudDueDate) AS dueDate
+      FROM TaskBudget
+      WHERE GSTaskID IS NOT NULL
+      GROUP BY GSTaskID
+    ),
+    PlannedFees AS (
+      SELECT taskId, SUM(amount) AS plannedFees, MAX(expectedDate) AS lastFeeDate
+      FROM TaskBudgetFee
+      GROUP BY taskId
+    ),
+    PlannedDisb AS (
+      SELECT taskId, SUM(amount) AS plannedDisb
+      FROM TaskBudgetDisbursement
+      GROUP BY taskId
+    ),
+    TeamBudget AS (
+      SELECT tt.taskId, SUM(tt.allocatedHours) AS teamHours, SUM(tt.allocatedHours * e.RateValue) AS teamTime
+      FROM TaskTeam tt
+      INNER JOIN [User] u ON u.id = tt.userId
+      INNER JOIN (
+        SELECT WinLogon, MAX(RateValue) AS RateValue
+        FROM Employee
+        WHERE Active = 'Yes' AND WinLogon IS NOT NULL
+        GROUP BY WinLogon
+      ) e ON e.WinLogon = u.email
+      WHERE tt.allocatedHours > 0
+      GROUP BY tt.taskId
+    ),
+    BudgetTasks AS (
+      SELECT t.id, t.GSTaskID, t.GSClientID, t.TaskCode, t.TaskDesc, t.ServLineCode, t.TaskPartnerName, t.TaskDateOpen
+      FROM Task t
+      WHERE t.Active = 'Yes'
+        ${taskFilter}
+        AND (
+          EXISTS (SELECT 1 FROM ExternalBudget b WHERE b.GSTaskID = t.GSTaskID)
+          OR EXISTS (SELECT 1 FROM PlannedFees f WHERE f.taskId = t.id)
+          OR EXISTS (SELECT 1 FROM PlannedDisb d WHERE d.taskId = t.id)
+          OR EXISTS (SELECT 1 FROM TeamBudget tb WHERE tb.taskId = t.id)
+        )
+    ),
+    Actuals AS (
+      SELECT
+        w.GSTaskID,
+        SUM(CASE WHEN w.TType = 'T' THEN ISNULL(w.Amount, 0) ELSE 0 END) AS actualTime,
+        SUM(CASE WHEN w.TType = 'T' THEN w.Hour ELSE 0 END) AS actualHours,
+        SUM(CASE WHEN w.TType = 'D' THEN ISNULL(w.Amount, 0) ELSE 0 END) AS actualDisb,
+        SUM(CASE WHEN w.TType = 'ADJ' THEN ISNULL(w.Amount, 0) ELSE 0 END) AS actualAdj,
+        SUM(CASE WHEN w.TType = 'F' THEN ISNULL(w.Amount, 0) ELSE 0 END) AS feesBilled,
+        SUM(${getWipAmountCaseExpression()}) AS wipBalance,
+        SUM(CASE WHEN w.TType = 'T' AND w.TranDate > ${subDays(today, BURN_WINDOW_DAYS)} THEN ISNULL(w.Amount, 0) ELSE 0 END) AS recentTime,
+        SUM(CASE WHEN w.TType = 'T' AND w.TranDate > ${subDays(today, BURN_WINDOW_DAYS)} THEN w.Hour ELSE 0 END) AS recentHours,
+        SUM(CASE WHEN w.TType = 'D' AND w.TranDate > ${subDays(today, BURN_WINDOW_DAYS)} THEN ISNULL(w.Amount, 0) ELSE 0 END) AS recentDisb,
+        SUM(CASE WHEN w.TType IN ('T', 'D') AND w.TranDate > b.dueDate THEN ISNULL(w.Amount, 0) ELSE 0 END) AS postDueChargeable
+      FROM WIPTransactions w
+      INNER JOIN BudgetTasks bt ON bt.GSTaskID = w.GSTaskID
+      LEFT JOIN ExternalBudget b ON b.GSTaskID = w.GSTaskID
+      WHERE w.TranDate <= ${today}
+      GROUP BY w.GSTaskID
+    )
+    SELECT
+      bt.id AS taskId,
+      bt.TaskCode,
+      bt.TaskDesc,
+      bt.ServLineCode,
+      bt.TaskPartnerName,
+      bt.TaskDateOpen,
+      c.clientCode,
+      c.clientNameFull,
+      b.budgetTime, b.budgetDisb, b.budgetHours, b.budgetFees, b.recoveryPerc, b.startDate, b.dueDate,
+      f.plannedFees, f.lastFeeDate,
+      d.plannedDisb,
+      tb.teamHours, tb.teamTime,
+      a.actualTime, a.actualHours, a.actualDisb, a.actualAdj, a.feesBilled, a.wipBalance,
+      a.recentTime, a.recentHours, a.recentDisb, a.postDueChargeable
+    FROM BudgetTasks bt
+    LEFT JOIN Client c ON c.GSClientID = bt.GSClientID
+    LEFT JOIN ExternalBudget b ON b.GSTaskID = bt.GSTaskID
+    LEFT JOIN PlannedFees f ON f.taskId = bt.id
+    LEFT JOIN PlannedDisb d ON d.taskId = bt.id
+    LEFT JOIN TeamBudget tb ON tb.taskId = bt.id
+    LEFT JOIN Actuals a ON a.GSTaskID = bt.GSTaskID
+  `;
+
+  const taskIds = taskRows.map((r) => r.taskId);
+  const plannedFeeRows =
+    taskIds.length > 0
+      ? await prisma.taskBudgetFee.findMany({
+          where: { taskId: { in: taskIds }, expectedDate: { gt: today } },
+          select: { taskId: true, expectedDate: true, amount: true },
+        })
+      : [];
+
+  const monthlyFees = await prisma.$queryRaw<MonthlyFeeRow[]>`
+    SELECT
+      TaskServLine AS ServLineCode,
+      YEAR(TranDate) AS year,
+      MONTH(TranDate) AS month,
+      SUM(ISNULL(Amount, 0)) AS fees
+    FROM WIPTransactions
+    WHERE TType = 'F'
+      AND TranDate >= ${start}
+      AND TranDate <= ${actualsTo}
+      ${wipServiceLineFilter}
+    GROUP BY TaskServLine, YEAR(TranDate), MONTH(TranDate)
+  `;
+
+  const glBudgets = selectedBudgetCode ? await loadGlFeeBudgets(filter.fiscalYear, fiscalMonths, selectedBudgetCode) : [];
+
+  // Per service line monthly figures
+  const monthKeys = periodMonths.map((m) => format(m, 'yyyy-MM'));
+  const monthKeyByFiscalMonth = new Map(fiscalMonths.map((fm, i) => [fm, monthKeys[i]!]));
+  const figures = new Map<string, Map<string, BudgetForecastTotals>>();
+  const figure = (code: string, monthKey: string): BudgetForecastTotals | null => {
+    if (!monthKeys.includes(monthKey)) return null;
+    let months = figures.get(code);
+    if (!months) {
+      months = new Map();
+      figures.set(code, months);
+    }
+    let totals = months.get(monthKey);
+    if (!totals) {
+      totals = emptyTotals();
+      months.set(monthKey, totals);
+    }
+    return totals;
+  };
+
+  for (const row of monthlyFees) {
+    const f = figure(masterFor(row.ServLineCode), `${row.year}-${String(row.month).padStart(2, '0')}`);
+    if (f) f.actualFees += num(row.fees);
+  }
+
+  for (const row of glBudgets) {
+    if (serviceLine && row.serviceLine !== serviceLine) continue;
+    const monthKey = monthKeyByFiscalMonth.get(row.fiscalMonth);
+    const f = monthKey ? figure(row.serviceLine, monthKey) : null;
+    if (f) f.glBudget += row.budget;
+  }
+
+  // Task projections
+  const plannedByTask = new Map<number, PlannedFeeRow[]>();
+  for (const fee of plannedFeeRows) {
+    const list = plannedByTask.get(fee.taskId);
+    if (list) list.push(fee);
+    else plannedByTask.set(fee.taskId, [fee]);
+  }
+
+  const forecasts = taskRows.map((row) => {
+    const code = masterFor(row.ServLineCode);
+    return forecastTask(row, code, serviceLineName(serviceLineMap, code), today);
+  });
+
+  for (const task of forecasts) {
+    allocateRecovery(task, plannedByTask.get(task.taskId) ?? [], today, (monthKey, amount) => {
+      if (monthKey < currentMonthKey) return;
+      const f = figure(task.serviceLineCode, monthKey);
+      if (f) f.forecastFees += amount;
+    });
+  }
+
+  // Roll up to months and service lines
+  const months: BudgetForecastMonth[] = periodMonths.map((month, i) => {
+    const monthKey = monthKeys[i]!;
+    const totals = emptyTotals();
+    for (const serviceLineMonths of figures.values()) {
+      const f = serviceLineMonths.get(monthKey);
+      if (!f) continue;
+      totals.glBudget += f.glBudget;
+      totals.actualFees += f.actualFees;
+      totals.forecastFees += f.forecastFees;
+    }
+    return {
+      month: monthKey,
+      label: format(month, 'MMM yyyy'),
+      glBudget: round(totals.glBudget),
+      actualFees: round(totals.actualFees),
+      forecastFees: round(totals.forecastFees),
+      variance: round(totals.actualFees + totals.forecastFees - totals.glBudget),
+    };
+  });
+
+  const totals = months.reduce((acc, m) => {
+    acc.glBudget += m.glBudget;
+    acc.actualFees += m.actualFees;
+    acc.forecastFees += m.forecastFees;
+    acc.variance += m.variance;
+    return acc;
+  }, emptyTotals());
+
+  const serviceLineCodes = new Set([...figures.keys(), ...forecasts.map((t) => t.serviceLineCode)]);
+  const byServiceLine: BudgetForecastServiceLineRow[] = [...serviceLineCodes].map((code) => {
+    const row: BudgetForecastServiceLineRow = {
+      code,
+      name: serviceLineName(serviceLineMap, code),
+      ...emptyTotals(),
+      taskCount: 0,
+      overrunCount: 0,
+      budgetFees: 0,
+      projectedFees: 0,
+      remainingFeeRecovery: 0,
+      wipBalance: 0,
+    };
+    for (const f of figures.get(code)?.values() ?? []) {
+      row.glBudget += f.glBudget;
+      row.actualFees += f.actualFees;
+      row.forecastFees += f.forecastFees;
+    }
+    for (const task of forecasts) {
+      if (task.serviceLineCode !== code) continue;
+      row.taskCount += 1;
+      if (task.overrun) row.overrunCount += 1;
+      row.budgetFees += task.budgetFees;
+      row.projectedFees += task.projectedFees;
+      row.remainingFeeRecovery += task.remainingFeeRecovery;
+      row.wipBalance += task.wipBalance;
+    }
+    row.variance = row.actualFees + row.forecastFees - row.glBudget;
+
+    for (const key of [
+      'glBudget',
+      'actualFees',
+      'forecastFees',
+      'variance',
+      'budgetFees',
+      'projectedFees',
+      'remainingFeeRecovery',
+      'wipBalance',
+    ] as const) {
+      row[key] = round(row[key]);
+    }
+    return row;
+  });
+  byServiceLine.sort((a, b) => b.glBudget - a.glBudget || b.projectedFees - a.projectedFees);
+
+  const tasks = [...forecasts]
+    .sort(
+      (a, b) =>
+        Number(b.overrun) - Number(a.overrun) ||
+        b.overrunAmount - a.overrunAmount ||
+        b.remainingFeeRecovery - a.remainingFeeRecovery
+    )
+    .slice(0, MAX_TASKS);
+
+  const report: BudgetForecastReport = {
+    period,
+    serviceLine: serviceLine ? { code: serviceLine, name: serviceLineName(serviceLineMap, serviceLine) } : null,
+    budgetCode: selectedBudgetCode,
+    budgetCodes,
+    months,
+    totals: {
+      glBudget: round(totals.glBudget),
+      actualFees: round(totals.actualFees),
+      forecastFees: round(totals.forecastFees),
+      variance: round(totals.variance),
+    },
+    byServiceLine,
+    tasks,
+    taskCount: forecasts.length,
+    overrunCount: forecasts.filter((t) => t.overrun).length,
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
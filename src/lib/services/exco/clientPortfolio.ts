@@ -0,0 +1,353 @@
+/**
+ * Client Portfolio Analysis
+ *
+ * Fee concentration, client churn and cross-sell coverage for a fiscal
+ * period, compared with the same period in the prior fiscal year:
+ * - Fees: WIP fee transactions (TType 'F') by client
+ * - Concentration: share of fees billed to the 10 and 20 largest clients,
+ *   and to the 10 largest client groups
+ * - Churn: a client is active in a period when time, disbursements or fees
+ *   are recorded on any of its tasks (task status history isn't kept). Lost
+ *   clients were active in the prior period but not this one; for the
+ *   current period that includes clients not yet served this year.
+ * - Cross-sell: master service lines with activity per client group
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import type {
+  ClientPortfolioReport,
+  CrossSellBucket,
+  CrossSellCoverage,
+  CrossSellGroupRow,
+  CrossSellServiceLineRow,
+  ExcoPeriodFilter,
+  PortfolioChurn,
+  PortfolioChurnClient,
+  PortfolioClientRow,
+  PortfolioConcentration,
+} from '@/types/exco';
+import { percentage, REPORT_CACHE_TTL, round } from './excoMath';
+import { getExcoFiscalYears, resolveExcoPeriod } from './excoPeriod';
+import { loadServiceLineMap, serviceLineName, UNMAPPED_SERVICE_LINE, type ExcoServiceLineMap } from './excoServiceLines';
+
+const TOP_CLIENTS = 20;
+const CHURN_LIST_SIZE = 20;
+const TOP_GROUPS = 20;
+/** Groups served by this many service lines or more share the last bucket */
+const MAX_CROSS_SELL_BUCKET = 4;
+
+interface ClientActivityRow {
+  clientId: number;
+  clientCode: string;
+  clientNameFull: string | null;
+  groupCode: string;
+  groupDesc: string;
+  industry: string | null;
+  ServLineCode: string;
+  fees: unknown;
+  priorFees: unknown;
+  activeCurrent: number;
+  activePrior: number;
+}
+
+interface ClientPosition {
+  clientId: number;
+  clientCode: string;
+  clientName: string;
+  groupCode: string;
+  groupDesc: string;
+  industry: string | null;
+  fees: number;
+  priorFees: number;
+  activeCurrent: boolean;
+  activePrior: boolean;
+  currentServiceLines: Set<string>;
+  priorServiceLines: Set<string>;
+}
+
+/**
+ * Share of total fees held by the largest n entries
+ */
+function topShare(fees: number[], n: number): number {
+  const total = fees.reduce((sum, f) => sum + f, 0);
+  const top = [...fees]
+    .sort((a, b) => b - a)
+    .slice(0, n)
+    .reduce((sum, f) => sum + f, 0);
+  return percentage(top, total);
+}
+
+/**
+ * Client activity and fees for the period and its comparison, one row per
+ * client and external service line
+ */
+async function loadClientPositions(
+  start: Date,
+  end: Date,
+  priorStart: Date,
+  priorEnd: Date,
+  serviceLineMap: ExcoServiceLineMap
+): Promise<ClientPosition[]> {
+  const rows = await prisma.$queryRaw<ClientActivityRow[]>`
+    SELECT
+      c.id AS clientId,
+      c.clientCode,
+      c.clientNameFull,
+      c.groupCode,
+      c.groupDesc,
+      COALESCE(NULLIF(c.forvisMazarsIndustry, ''), NULLIF(c.industry, '')) AS industry,
+      a.ServLineCode,
+      a.fees,
+      a.priorFees,
+      a.activeCurrent,
+      a.activePrior
+    FROM (
+      SELECT
+        GSClientID,
+        TaskServLine AS ServLineCode,
+        SUM(CASE WHEN TType = 'F' AND TranDate >= ${start} THEN ISNULL(Amount, 0) ELSE 0 END) AS fees,
+        SUM(CASE WHEN TType = 'F' AND TranDate <= ${priorEnd} THEN ISNULL(Amount, 0) ELSE 0 END) AS priorFees,
+        MAX(CASE WHEN TranDate >= ${start} THEN 1 ELSE 0 END) AS activeCurrent,
+        MAX(CASE WHEN TranDate <= ${priorEnd} THEN 1 ELSE 0 END) AS activePrior
+      FROM WIPTransactions
+      WHERE GSClientID IS NOT NULL
+        AND TType IN ('T', 'D', 'F')
+        AND (
+          (TranDate >= ${start} AND TranDate <= ${end})
+          OR (TranDate >= ${priorStart} AND TranDate <= ${priorEnd})
+        )
+      GROUP BY GSClientID, TaskServLine
+    ) a
+    INNER JOIN Client c ON c.GSClientID = a.GSClientID
+  `;
+
+  const clients = new Map<number, ClientPosition>();
+  for (const row of rows) {
+    let client = clients.get(row.clientId);
+    if (!client) {
+      client = {
+        clientId: row.clientId,
+        clientCode: row.clientCode,
+        clientName: row.clientNameFull ?? row.clientCode,
+        groupCode: row.groupCode,
+        groupDesc: row.groupDesc,
+        industry: row.industry,
+        fees: 0,
+        priorFees: 0,
+        activeCurrent: false,
+        activePrior: false,
+        currentServiceLines: new Set(),
+        priorServiceLines: new Set(),
+      };
+      clients.set(row.clientId, client);
+    }
+
+    const master = serviceLineMap.masterByExternal.get(row.ServLineCode) ?? UNMAPPED_SERVICE_LINE;
+    client.fees += Number(row.fees);
+    client.priorFees += Number(row.priorFees);
+    if (Number(row.activeCurrent) === 1) {
+      client.activeCurrent = true;
+      client.currentServiceLines.add(master);
+    }
+    if (Number(row.activePrior) === 1) {
+      client.activePrior = true;
+      client.priorServiceLines.add(master);
+    }
+  }
+
+  return [...clients.values()];
+}
+
+function buildConcentration(clients: ClientPosition[]): PortfolioConcentration {
+  const groupFees = new Map<string, number>();
+  for (const client of clients) {
+    groupFees.set(client.groupCode, (groupFees.get(client.groupCode) ?? 0) + client.fees);
+  }
+
+  const fees = clients.map((c) => c.fees).filter((f) => f > 0);
+  const priorFees = clients.map((c) => c.priorFees).filter((f) => f > 0);
+
+  return {
+    totalFees: round(fees.reduce((sum, f) => sum + f, 0)),
+    priorTotalFees: round(priorFees.reduce((sum, f) => sum + f, 0)),
+    clientCount: fees.length,
+    top10SharePercent: topShare(fees, 10),
+    top20SharePercent: topShare(fees, 20),
+    priorTop10SharePercent: topShare(priorFees, 10),
+    priorTop20SharePercent: topShare(priorFees, 20),
+    groupTop10SharePercent: topShare(
+      [...groupFees.values()].filter((f) => f > 0),
+      10
+    ),
+  };
+}
+
+function buildTopClients(clients: ClientPosition[], totalFees: number): PortfolioClientRow[] {
+  let cumulative = 0;
+  return clients
+    .filter((c) => c.fees > 0)
+    .sort((a, b) => b.fees - a.fees)
+    .slice(0, TOP_CLIENTS)
+    .map((client) => {
+      cumulative += client.fees;
+      return {
+        clientId: client.clientId,
+        clientCode: client.clientCode,
+        clientName: client.clientName,
+        groupDesc: client.groupDesc,
+        industry: client.industry,
+        fees: round(client.fees),
+        priorFees: round(client.priorFees),
+        sharePercent: percentage(client.fees, totalFees),
+        cumulativeSharePercent: percentage(cumulative, totalFees),
+        serviceLineCount: client.currentServiceLines.size,
+      };
+    });
+}
+
+function buildChurn(clients: ClientPosition[], serviceLineMap: ExcoServiceLineMap): PortfolioChurn {
+  const toChurnClient = (client: ClientPosition, fees: number, serviceLines: Set<string>): PortfolioChurnClient => ({
+    clientId: client.clientId,
+    clientCode: client.clientCode,
+    clientName: client.clientName,
+    groupDesc: client.groupDesc,
+    fees: round(fees),
+    serviceLines: [...serviceLines].map((code) => serviceLineName(serviceLineMap, code)).sort(),
+  });
+
+  const lost = clients.filter((c) => c.activePrior && !c.activeCurrent);
+  const gained = clients.filter((c) => c.activeCurrent && !c.activePrior);
+  const priorActive = clients.filter((c) => c.activePrior).length;
+  const retained = priorActive - lost.length;
+
+  return {
+    priorActiveClients: priorActive,
+    currentActiveClients: clients.filter((c) => c.activeCurrent).length,
+    retainedClients: retained,
+    lostClients: lost.length,
+    newClients: gained.length,
+    retentionPercent: percentage(retained, priorActive),
+    lostFees: round(lost.reduce((sum, c) => sum + c.priorFees, 0)),
+    lost: lost
+      .sort((a, b) => b.priorFees - a.priorFees)
+      .slice(0, CHURN_LIST_SIZE)
+      .map((c) => toChurnClient(c, c.priorFees, c.priorServiceLines)),
+    gained: gained
+      .sort((a, b) => b.fees - a.fees)
+      .slice(0, CHURN_LIST_SIZE)
+      .map((c) => toChurnClient(c, c.fees, c.currentServiceLines)),
+  };
+}
+
+function buildCrossSell(clients: ClientPosition[], serviceLineMap: ExcoServiceLineMap): CrossSellCoverage {
+  const groups = new Map<string, { groupDesc: string; clients: number; fees: number; serviceLines: Set<string> }>();
+  for (const client of clients) {
+    if (!client.activeCurrent) continue;
+    let group = groups.get(client.groupCode);
+    if (!group) {
+      group = { groupDesc: client.groupDesc, clients: 0, fees: 0, serviceLines: new Set() };
+      groups.set(client.groupCode, group);
+    }
+    group.clients += 1;
+    group.fees += client.fees;
+    for (const code of client.currentServiceLines) {
+      if (code !== UNMAPPED_SERVICE_LINE) group.serviceLines.add(code);
+    }
+  }
+
+  // Groups only served under unmapped service lines can't be counted
+  const served = [...groups.entries()].filter(([, g]) => g.serviceLines.size > 0);
+
+  const buckets: CrossSellBucket[] = Array.from({ length: MAX_CROSS_SELL_BUCKET }, (_, i) => ({
+    serviceLineCount: i + 1,
+    label: i + 1 === MAX_CROSS_SELL_BUCKET ? `${i + 1}+ service lines` : `${i + 1} service line${i === 0 ? '' : 's'}`,
+    groupCount: 0,
+    fees: 0,
+  }));
+  const byServiceLine = new Map<string, { groups: number; shared: number }>();
+
+  for (const [, group] of served) {
+    const bucket = buckets[Math.min(group.serviceLines.size, MAX_CROSS_SELL_BUCKET) - 1]!;
+    bucket.groupCount += 1;
+    bucket.fees += group.fees;
+
+    for (const code of group.serviceLines) {
+      const entry = byServiceLine.get(code) ?? { groups: 0, shared: 0 };
+      entry.groups += 1;
+      if (group.serviceLines.size > 1) entry.shared += 1;
+      byServiceLine.set(code, entry);
+    }
+  }
+
+  const serviceLines: CrossSellServiceLineRow[] = [...byServiceLine.entries()]
+    .map(([code, entry]) => ({
+      code,
+      name: serviceLineName(serviceLineMap, code),
+      groupCount: entry.groups,
+      sharedGroupPercent: percentage(entry.shared, entry.groups),
+    }))
+    .sort((a, b) => b.groupCount - a.groupCount);
+
+  const topGroups: CrossSellGroupRow[] = served
+    .sort(([, a], [, b]) => b.fees - a.fees)
+    .slice(0, TOP_GROUPS)
+    .map(([groupCode, group]) => ({
+      groupCode,
+      groupDesc: group.groupDesc,
+      clientCount: group.clients,
+      fees: round(group.fees),
+      serviceLines: [...group.serviceLines].map((code) => serviceLineName(serviceLineMap, code)).sort(),
+    }));
+
+  const totalServiceLines = served.reduce((sum, [, g]) => sum + g.serviceLines.size, 0);
+
+  return {
+    groupCount: served.length,
+    averageServiceLines: served.length > 0 ? Math.round((totalServiceLines / served.length) * 10) / 10 : 0,
+    singleServiceLinePercent: percentage(buckets[0]!.groupCount, served.length),
+    buckets: buckets.map((b) => ({ ...b, fees: round(b.fees) })),
+    serviceLines,
+    topGroups,
+  };
+}
+
+/**
+ * Build the client portfolio report for a fiscal period with prior-year comparison
+ */
+export async function getClientPortfolioReport(filter: ExcoPeriodFilter): Promise<ClientPortfolioReport> {
+  const cacheKey = `${CACHE_PREFIXES.ANALYTICS}exco:client-portfolio:${filter.fiscalYear}:${filter.fiscalQuarter ?? ''}:${filter.fiscalMonth ?? ''}`;
+  const cached = await cache.get<ClientPortfolioReport>(cacheKey);
+  if (cached) return cached;
+
+  const [period, comparisonPeriod, fiscalYears, serviceLineMap] = await Promise.all([
+    resolveExcoPeriod(filter),
+    resolveExcoPeriod({ ...filter, fiscalYear: filter.fiscalYear - 1 }),
+    getExcoFiscalYears(),
+    loadServiceLineMap(),
+  ]);
+
+  const clients = await loadClientPositions(
+    new Date(period.startDate),
+    new Date(period.asOfDate),
+    new Date(comparisonPeriod.startDate),
+    new Date(comparisonPeriod.endDate),
+    serviceLineMap
+  );
+
+  const concentration = buildConcentration(clients);
+
+  const report: ClientPortfolioReport = {
+    period,
+    comparisonPeriod,
+    concentration,
+    topClients: buildTopClients(clients, concentration.totalFees),
+    churn: buildChurn(clients, serviceLineMap),
+    crossSell: buildCrossSell(clients, serviceLineMap),
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
+
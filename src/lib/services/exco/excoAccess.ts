@@ -0,0 +1,31 @@
+/**
+ * EXCO Reporting Access
+ *
+ * EXCO reports are firm-wide and only available to Country Management users
+ * (and system administrators).
+ */
+
+import type { SessionUser } from '@/lib/services/auth/types';
+import { getUserServiceLines } from '@/lib/services/service-lines/serviceLineService';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+
+/**
+ * Check whether a user can view EXCO reports
+ */
+export async function hasExcoAccess(user: SessionUser): Promise<boolean> {
+  if (user.systemRole === 'SYSTEM_ADMIN') {
+    return true;
+  }
+
+  const userServiceLines = await getUserServiceLines(user.id);
+  return userServiceLines.some((sl) => sl.serviceLine === 'COUNTRY_MANAGEMENT');
+}
+
+/**
+ * Throw 403 unless the user can view EXCO reports
+ */
+export async function requireExcoAccess(user: SessionUser): Promise<void> {
+  if (!(await hasExcoAccess(user))) {
+    throw new AppError(403, 'EXCO reporting requires Country Management access', ErrorCodes.FORBIDDEN);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * EXCO Report Helpers
+ *
+ * Number handling and cache lifetime shared by the EXCO report services.
+ */
+
+/** How long firm-wide EXCO reports stay cached, in seconds */
+export const REPORT_CACHE_TTL = 10 * 60; // 10 minutes
+
+/**
+ * Raw query money and decimal columns as numbers (null counts as 0)
+ */
+export function num(value: unknown): number {
+  return value === null || value === undefined ? 0 : Number(value);
+}
+
+/**
+ * Round to 2 decimal places
+ */
+export function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Percentage to 1 decimal place, 0 when the denominator is not positive
+ */
+export function percentage(numerator: number, denominator: number): number {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 10 : 0;
+}
@@ -0,0 +1,120 @@
+/**
+ * EXCO Reporting Periods
+ *
+ * Resolves fiscal year / quarter / month selections against the FiscalPeriod
+ * table so EXCO reports use the same period boundaries and labels as the
+ * rest of the reporting. Falls back to the fiscal period utilities when the
+ * table has no rows for the requested year.
+ */
+
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { calculateBusinessDays } from '@/lib/utils/dateUtils';
+import {
+  formatFiscalPeriod,
+  getCurrentFiscalPeriod,
+  getFiscalMonthRange,
+  getFiscalQuarterRange,
+  getFiscalYearRange,
+} from '@/lib/utils/fiscalPeriod';
+import type { ExcoFiscalYearOption, ExcoPeriodFilter, ExcoReportPeriod } from '@/types/exco';
+
+export const ExcoPeriodQuerySchema = z.object({
+  fiscalYear: z.coerce.number().int().min(1999).max(2050).optional(),
+  fiscalQuarter: z.coerce.number().int().min(1).max(4).optional(),
+  fiscalMonth: z.coerce.number().int().min(1).max(12).optional(),
+});
+
+/**
+ * Parse period query parameters, defaulting to the current fiscal year
+ */
+export function parseExcoPeriodParams(searchParams: URLSearchParams): ExcoPeriodFilter {
+  const parsed = ExcoPeriodQuerySchema.parse({
+    fiscalYear: searchParams.get('fiscalYear') || undefined,
+    fiscalQuarter: searchParams.get('fiscalQuarter') || undefined,
+    fiscalMonth: searchParams.get('fiscalMonth') || undefined,
+  });
+
+  return {
+    fiscalYear: parsed.fiscalYear ?? getCurrentFiscalPeriod().fiscalYear,
+    // Most specific filter wins
+    fiscalMonth: parsed.fiscalMonth,
+    fiscalQuarter: parsed.fiscalMonth ? undefined : parsed.fiscalQuarter,
+  };
+}
+
+/**
+ * Resolve a period filter to dates, label and working days
+ * Working days run to today for the current (incomplete) period.
+ */
+export async function resolveExcoPeriod(filter: ExcoPeriodFilter): Promise<ExcoReportPeriod> {
+  const { fiscalYear, fiscalQuarter, fiscalMonth } = filter;
+
+  const rows = await prisma.fiscalPeriod.findMany({
+    where: {
+      fiscalYear,
+      ...(fiscalMonth !== undefined ? { fiscalMonth } : {}),
+      ...(fiscalQuarter !== undefined ? { fiscalQuarter } : {}),
+    },
+    select: { startDate: true, endDate: true, periodName: true, quarterName: true },
+    orderBy: { fiscalMonth: 'asc' },
+  });
+
+  let startDate: Date;
+  let endDate: Date;
+  let label: string;
+
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+  if (first && last) {
+    startDate = first.startDate;
+    endDate = last.endDate;
+    label =
+      fiscalMonth !== undefined
+        ? first.periodName
+        : fiscalQuarter !== undefined
+          ? `${first.quarterName} FY${fiscalYear}`
+          : `FY${fiscalYear}`;
+  } else {
+    const range =
+      fiscalMonth !== undefined
+        ? getFiscalMonthRange(fiscalYear, fiscalMonth)
+        : fiscalQuarter !== undefined
+          ? getFiscalQuarterRange(fiscalYear, fiscalQuarter)
+          : getFiscalYearRange(fiscalYear);
+    startDate = range.start;
+    endDate = range.end;
+    label = formatFiscalPeriod(fiscalYear, fiscalQuarter, fiscalMonth);
+  }
+
+  const now = new Date();
+  const asOfDate = endDate > now && startDate <= now ? now : endDate;
+
+  return {
+    fiscalYear,
+    fiscalQuarter: fiscalQuarter ?? null,
+    fiscalMonth: fiscalMonth ?? null,
+    label,
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    asOfDate: asOfDate.toISOString(),
+    workingDays: startDate > now ? 0 : calculateBusinessDays(startDate, asOfDate),
+  };
+}
+
+/**
+ * Fiscal years available for selection, most recent first
+ */
+export async function getExcoFiscalYears(): Promise<ExcoFiscalYearOption[]> {
+  const currentFiscalYear = getCurrentFiscalPeriod().fiscalYear;
+
+  const years = await prisma.fiscalPeriod.groupBy({
+    by: ['fiscalYear'],
+    where: { fiscalYear: { lte: currentFiscalYear } },
+    orderBy: { fiscalYear: 'desc' },
+  });
+
+  const fiscalYears = years.length > 0 ? years.map((y) => y.fiscalYear) : [currentFiscalYear];
+
+  return fiscalYears.map((fiscalYear) => ({ fiscalYear, label: `FY${fiscalYear}` }));
+}
@@ -0,0 +1,42 @@
+/**
+ * EXCO Service Line Mapping
+ *
+ * Firm-wide reports group external service line codes under their master
+ * service lines.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+
+export const UNMAPPED_SERVICE_LINE = 'UNMAPPED';
+
+export interface ExcoServiceLineMap {
+  masterByExternal: Map<string, string>;
+  masterNames: Map<string, string>;
+}
+
+/**
+ * Map external service line codes to master service lines
+ */
+export async function loadServiceLineMap(): Promise<ExcoServiceLineMap> {
+  const [externals, masters] = await Promise.all([
+    prisma.serviceLineExternal.findMany({
+      where: { ServLineCode: { not: null }, masterCode: { not: null } },
+      select: { ServLineCode: true, masterCode: true },
+    }),
+    prisma.serviceLineMaster.findMany({
+      select: { code: true, name: true },
+    }),
+  ]);
+
+  return {
+    masterByExternal: new Map(externals.map((e) => [e.ServLineCode!, e.masterCode!])),
+    masterNames: new Map(masters.map((m) => [m.code, m.name])),
+  };
+}
+
+/**
+ * Display name for a master service line code
+ */
+export function serviceLineName(map: ExcoServiceLineMap, code: string): string {
+  return code === UNMAPPED_SERVICE_LINE ? 'Unmapped' : map.masterNames.get(code) ?? code;
+}
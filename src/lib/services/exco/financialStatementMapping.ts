@@ -0,0 +1,327 @@
+/**
+ * Financial Statement Mapping
+ *
+ * Maps GL accounts to configurable income statement and balance sheet
+ * lines. A line's rules match accounts by exact account number, account
+ * prefix or GL category; the most specific rule wins (account, then the
+ * longest prefix, then category). Rules only apply to accounts on the same
+ * statement as their line, and inactive lines are ignored. Accounts no rule
+ * matches are reported under their GL category.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import type { SessionUser } from '@/lib/services/auth/types';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import type {
+  CreateStatementLineInput,
+  CreateStatementMappingInput,
+  UpdateStatementLineInput,
+} from '@/lib/validation/schemas';
+import {
+  STATEMENT_SECTIONS,
+  type FinancialStatementType,
+  type StatementAccount,
+  type StatementLineConfig,
+  type StatementMappingType,
+  type StatementSection,
+} from '@/types/exco';
+
+export const FINANCIAL_STATEMENT_CACHE_KEY = `${CACHE_PREFIXES.ANALYTICS}exco:financial-statements:`;
+
+const MAX_ACCOUNTS = 500;
+
+export interface StatementAccountKey {
+  account: string;
+  category: string;
+  /** Balance sheet account */
+  bs: boolean;
+}
+
+export interface StatementMapping {
+  lines: StatementLineConfig[];
+  /** Active line an account maps to, or null */
+  resolve: (account: StatementAccountKey) => StatementLineConfig | null;
+}
+
+export function statementFor(bs: boolean): FinancialStatementType {
+  return bs ? 'BALANCE_SHEET' : 'INCOME_STATEMENT';
+}
+
+const lineSelect = {
+  id: true,
+  section: true,
+  name: true,
+  sortOrder: true,
+  active: true,
+  FinancialStatementMapping: {
+    select: { id: true, matchType: true, pattern: true },
+    orderBy: [{ matchType: 'asc' as const }, { pattern: 'asc' as const }],
+  },
+};
+
+function toLineConfig(line: {
+  id: number;
+  section: string;
+  name: string;
+  sortOrder: number;
+  active: boolean;
+  FinancialStatementMapping: Array<{ id: number; matchType: string; pattern: string }>;
+}): StatementLineConfig {
+  return {
+    id: line.id,
+    section: line.section as StatementSection,
+    name: line.name,
+    sortOrder: line.sortOrder,
+    active: line.active,
+    mappings: line.FinancialStatementMapping.map((m) => ({
+      id: m.id,
+      matchType: m.matchType as StatementMappingType,
+      pattern: m.pattern,
+    })),
+  };
+}
+
+/**
+ * All lines with their mapping rules, in presentation order
+ */
+export async function listStatementLines(): Promise<StatementLineConfig[]> {
+  const lines = await prisma.financialStatementLine.findMany({
+    select: lineSelect,
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }, { id: 'asc' }],
+  });
+
+  const sectionOrder = Object.keys(STATEMENT_SECTIONS);
+  return lines
+    .map(toLineConfig)
+    .sort((a, b) => sectionOrder.indexOf(a.section) - sectionOrder.indexOf(b.section));
+}
+
+/**
+ * Load the mapping rules and build an account resolver
+ */
+export async function loadStatementMapping(): Promise<StatementMapping> {
+  const lines = await listStatementLines();
+
+  const byStatement = new Map<
+    FinancialStatementType,
+    { accounts: Map<string, StatementLineConfig>; prefixes: Array<[string, StatementLineConfig]>; categories: Map<string, StatementLineConfig> }
+  >();
+  for (const statement of ['INCOME_STATEMENT', 'BALANCE_SHEET'] as const) {
+    byStatement.set(statement, { accounts: new Map(), prefixes: [], categories: new Map() });
+  }
+
+  for (const line of lines) {
+    if (!line.active) continue;
+    const rules = byStatement.get(STATEMENT_SECTIONS[line.section].statement)!;
+    for (const mapping of line.mappings) {
+      if (mapping.matchType === 'ACCOUNT') rules.accounts.set(mapping.pattern, line);
+      else if (mapping.matchType === 'PREFIX') rules.prefixes.push([mapping.pattern, line]);
+      else rules.categories.set(mapping.pattern, line);
+    }
+  }
+  for (const rules of byStatement.values()) {
+    rules.prefixes.sort(([a], [b]) => b.length - a.length);
+  }
+
+  return {
+    lines,
+    resolve: ({ account, category, bs }) => {
+      const rules = byStatement.get(statementFor(bs))!;
+      const trimmed = account.trim();
+      return (
+        rules.accounts.get(trimmed) ??
+        rules.prefixes.find(([prefix]) => trimmed.startsWith(prefix))?.[1] ??
+        rules.categories.get(category.trim()) ??
+        null
+      );
+    },
+  };
+}
+
+async function invalidateStatements(): Promise<void> {
+  await cache.invalidatePattern(`${FINANCIAL_STATEMENT_CACHE_KEY}*`);
+}
+
+async function getLineOrThrow(lineId: number) {
+  const line = await prisma.financialStatementLine.findUnique({ where: { id: lineId }, select: lineSelect });
+  if (!line) {
+    throw new AppError(404, 'Statement line not found', ErrorCodes.NOT_FOUND, { lineId });
+  }
+  return line;
+}
+
+/**
+ * Add a line to a statement section
+ */
+export async function createStatementLine(
+  data: CreateStatementLineInput,
+  user: SessionUser
+): Promise<StatementLineConfig> {
+  const sortOrder =
+    data.sortOrder ??
+    ((
+      await prisma.financialStatementLine.aggregate({
+        where: { section: data.section },
+        _max: { sortOrder: true },
+      })
+    )._max.sortOrder ?? -10) + 10;
+
+  const line = await prisma.financialStatementLine.create({
+    data: {
+      section: data.section,
+      name: data.name,
+      sortOrder,
+      createdBy: user.name || user.email,
+    },
+    select: lineSelect,
+  });
+
+  await invalidateStatements();
+  return toLineConfig(line);
+}
+
+/**
+ * Rename, move, reorder or (de)activate a line
+ * A line can't move between statements while it has mapping rules - they
+ * would stop matching the accounts they were written for.
+ */
+export async function updateStatementLine(lineId: number, data: UpdateStatementLineInput): Promise<StatementLineConfig> {
+  const existing = await getLineOrThrow(lineId);
+
+  if (
+    data.section &&
+    STATEMENT_SECTIONS[data.section].statement !== STATEMENT_SECTIONS[existing.section as StatementSection].statement &&
+    existing.FinancialStatementMapping.length > 0
+  ) {
+    throw new AppError(
+      400,
+      'Remove the mapping rules before moving a line to the other statement',
+      ErrorCodes.VALIDATION_ERROR
+    );
+  }
+
+  const line = await prisma.financialStatementLine.update({
+    where: { id: lineId },
+    data: {
+      section: data.section,
+      name: data.name,
+      sortOrder: data.sortOrder,
+      active: data.active,
+    },
+    select: lineSelect,
+  });
+
+  await invalidateStatements();
+  return toLineConfig(line);
+}
+
+/**
+ * Delete a line and its mapping rules - its accounts fall back to their GL category
+ */
+export async function deleteStatementLine(lineId: number): Promise<void> {
+  await getLineOrThrow(lineId);
+  await prisma.financialStatementLine.delete({ where: { id: lineId } });
+  await invalidateStatements();
+}
+
+/**
+ * Add a mapping rule to a line
+ */
+export async function addStatementMapping(
+  lineId: number,
+  data: CreateStatementMappingInput,
+  user: SessionUser
+): Promise<StatementLineConfig> {
+  await getLineOrThrow(lineId);
+
+  const existing = await prisma.financialStatementMapping.findUnique({
+    where: { matchType_pattern: { matchType: data.matchType, pattern: data.pattern } },
+    select: { FinancialStatementLine: { select: { name: true } } },
+  });
+  if (existing) {
+    throw new AppError(
+      409,
+      `${data.pattern} is already mapped to ${existing.FinancialStatementLine.name}`,
+      ErrorCodes.CONFLICT,
+      { matchType: data.matchType, pattern: data.pattern }
+    );
+  }
+
+  await prisma.financialStatementMapping.create({
+    data: {
+      lineId,
+      matchType: data.matchType,
+      pattern: data.pattern,
+      createdBy: user.name || user.email,
+    },
+  });
+
+  await invalidateStatements();
+  return toLineConfig(await getLineOrThrow(lineId));
+}
+
+/**
+ * Remove a mapping rule from a line
+ */
+export async function deleteStatementMapping(lineId: number, mappingId: number): Promise<StatementLineConfig> {
+  const mapping = await prisma.financialStatementMapping.findFirst({
+    where: { id: mappingId, lineId },
+    select: { id: true },
+  });
+  if (!mapping) {
+    throw new AppError(404, 'Mapping rule not found', ErrorCodes.NOT_FOUND, { lineId, mappingId });
+  }
+
+  await prisma.financialStatementMapping.delete({ where: { id: mappingId } });
+
+  await invalidateStatements();
+  return toLineConfig(await getLineOrThrow(lineId));
+}
+
+/**
+ * Chart of accounts with the line each account resolves to
+ *
+ * @param statement - Statement the accounts report on
+ * @param search - Account number, description or GL category contains
+ * @param unmappedOnly - Only accounts no rule matches
+ */
+export async function listStatementAccounts(
+  statement: FinancialStatementType,
+  search?: string,
+  unmappedOnly = false
+): Promise<StatementAccount[]> {
+  const [mapping, accounts] = await Promise.all([
+    loadStatementMapping(),
+    prisma.accounts.findMany({
+      where: {
+        BS: statement === 'BALANCE_SHEET',
+        ...(search
+          ? { OR: [{ Account: { contains: search } }, { AccDesc: { contains: search } }, { Category: { contains: search } }] }
+          : {}),
+      },
+      select: { GSAccountID: true, Account: true, AccDesc: true, Category: true, CatDesc: true, BS: true },
+      orderBy: [{ Account: 'asc' }, { id: 'asc' }],
+    }),
+  ]);
+
+  const result: StatementAccount[] = [];
+  for (const account of accounts) {
+    const line = mapping.resolve({ account: account.Account, category: account.Category, bs: account.BS });
+    if (unmappedOnly && line) continue;
+
+    result.push({
+      gsAccountId: account.GSAccountID,
+      account: account.Account,
+      description: account.AccDesc,
+      category: account.Category,
+      categoryDesc: account.CatDesc,
+      statement: statementFor(account.BS),
+      lineId: line?.id ?? null,
+      lineName: line?.name ?? null,
+    });
+    if (result.length >= MAX_ACCOUNTS) break;
+  }
+
+  return result;
+}
@@ -0,0 +1,702 @@
+/**
+ * Financial Statements
+ *
+ * Income statement and balance sheet drawn from the general ledger (GL) for
+ * a fiscal month, with accounts grouped into lines by the financial
+ * statement mapping (see financialStatementMapping).
+ *
+ * Income statement: month, quarter to date and year to date movements
+ * against the GL budget (GLBudgets, fiscal year / fiscal month) and the same
+ * period last year.
+ *
+ * Balance sheet: balances at the month end and at the start of the fiscal
+ * year against the same dates last year. Profit for the year to date is
+ * added to equity so the statement balances before year-end close.
+ *
+ * Entries are dated by EntryDate and read as debit positive (Amount, or
+ * Debit less Credit where Amount is empty). GL budgets are assumed to carry
+ * the same sign as the ledger. Credit sections (income, equity and
+ * liabilities) are presented with credits as positive.
+ */
+
+import { Prisma } from '@prisma/client';
+import { addDays, startOfDay, subDays } from 'date-fns';
+import { prisma } from '@/lib/db/prisma';
+import { cache } from '@/lib/services/cache/CacheService';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { getCurrentFiscalPeriod } from '@/lib/utils/fiscalPeriod';
+import {
+  STATEMENT_SECTIONS,
+  type ExcoPeriodFilter,
+  type ExcoReportPeriod,
+  type FinancialStatementReport,
+  type FinancialStatementType,
+  type StatementAmounts,
+  type StatementColumn,
+  type StatementEntryPage,
+  type StatementRow,
+  type StatementSection,
+} from '@/types/exco';
+import { REPORT_CACHE_TTL, round } from './excoMath';
+import { getExcoFiscalYears, resolveExcoPeriod } from './excoPeriod';
+import { FINANCIAL_STATEMENT_CACHE_KEY, loadStatementMapping, type StatementMapping } from './financialStatementMapping';
+
+const ENTRY_PAGE_SIZE = 50;
+const UNMAPPED_SECTION = 'UNMAPPED';
+const PROFIT_FOR_YEAR_KEY = 'PROFIT_FOR_YEAR';
+
+/** Debit positive entry amount */
+const ENTRY_AMOUNT = Prisma.raw('ISNULL(g.Amount, ISNULL(g.Debit, 0) - ISNULL(g.Credit, 0))');
+
+export type StatementEntryRange = 'MONTH' | 'QTD' | 'YTD';
+
+interface AccountBalanceRow {
+  gsAccountId: string;
+  account: string;
+  category: string;
+  /** Raw (debit positive) amount per column, current then prior year */
+  current: number[];
+  prior: number[];
+  budget: number[];
+}
+
+interface IncomeStatementRow {
+  gsAccountId: string;
+  account: string;
+  category: string;
+  month: unknown;
+  qtd: unknown;
+  ytd: unknown;
+  priorMonth: unknown;
+  priorQtd: unknown;
+  priorYtd: unknown;
+}
+
+interface BudgetRow {
+  gsAccountId: string;
+  account: string;
+  category: string;
+  month: unknown;
+  qtd: unknown;
+  ytd: unknown;
+}
+
+interface BalanceSheetRow {
+  gsAccountId: string;
+  account: string;
+  category: string;
+  closing: unknown;
+  opening: unknown;
+  priorClosing: unknown;
+  priorOpening: unknown;
+}
+
+interface StatementPeriods {
+  fiscalMonth: number;
+  month: ExcoReportPeriod;
+  /** Start of the quarter, year and prior-year equivalents */
+  qtdStart: Date;
+  ytdStart: Date;
+  monthStart: Date;
+  /** Exclusive end of the month */
+  end: Date;
+  priorMonthStart: Date;
+  priorQtdStart: Date;
+  priorYtdStart: Date;
+  priorEnd: Date;
+}
+
+/** Row accumulator - raw amounts per column */
+interface LineTotals {
+  label: string;
+  section: StatementSection | typeof UNMAPPED_SECTION;
+  sortOrder: number;
+  drillKey: string | null;
+  current: number[];
+  prior: number[];
+  budget: number[];
+}
+
+function exclusiveEnd(isoDate: string): Date {
+  return addDays(startOfDay(new Date(isoDate)), 1);
+}
+
+function addInto(target: number[], source: number[]): void {
+  source.forEach((value, index) => {
+    target[index] = (target[index] ?? 0) + value;
+  });
+}
+
+/**
+ * Month the statement is drawn to - the selected month, the last month of
+ * the selected quarter, the current month for the current fiscal year or the
+ * year end
+ */
+export function resolveStatementMonth(filter: ExcoPeriodFilter): number {
+  if (filter.fiscalMonth) return filter.fiscalMonth;
+  if (filter.fiscalQuarter) return filter.fiscalQuarter * 3;
+  const current = getCurrentFiscalPeriod();
+  return filter.fiscalYear === current.fiscalYear ? current.fiscalMonth : 12;
+}
+
+async function resolveStatementPeriods(fiscalYear: number, fiscalMonth: number): Promise<StatementPeriods> {
+  const fiscalQuarter = Math.ceil(fiscalMonth / 3);
+  const [month, quarter, year, priorMonth, priorQuarter, priorYear] = await Promise.all([
+    resolveExcoPeriod({ fiscalYear, fiscalMonth }),
+    resolveExcoPeriod({ fiscalYear, fiscalQuarter }),
+    resolveExcoPeriod({ fiscalYear }),
+    resolveExcoPeriod({ fiscalYear: fiscalYear - 1, fiscalMonth }),
+    resolveExcoPeriod({ fiscalYear: fiscalYear - 1, fiscalQuarter }),
+    resolveExcoPeriod({ fiscalYear: fiscalYear - 1 }),
+  ]);
+
+  return {
+    fiscalMonth,
+    month,
+    monthStart: new Date(month.startDate),
+    qtdStart: new Date(quarter.startDate),
+    ytdStart: new Date(year.startDate),
+    end: exclusiveEnd(month.endDate),
+    priorMonthStart: new Date(priorMonth.startDate),
+    priorQtdStart: new Date(priorQuarter.startDate),
+    priorYtdStart: new Date(priorYear.startDate),
+    priorEnd: exclusiveEnd(priorMonth.endDate),
+  };
+}
+
+/**
+ * Group account balances into statement lines
+ * Active lines are always listed; unmapped accounts are grouped by GL category.
+ */
+function groupIntoLines(
+  statement: FinancialStatementType,
+  mapping: StatementMapping,
+  accounts: AccountBalanceRow[],
+  columnCount: number
+): { lines: LineTotals[]; unmappedAccounts: number } {
+  const empty = () => new Array<number>(columnCount).fill(0);
+  const lines = new Map<string, LineTotals>();
+
+  for (const line of mapping.lines) {
+    if (!line.active || STATEMENT_SECTIONS[line.section].statement !== statement) continue;
+    lines.set(`L${line.id}`, {
+      label: line.name,
+      section: line.section,
+      sortOrder: line.sortOrder,
+      drillKey: `L${line.id}`,
+      current: empty(),
+      prior: empty(),
+      budget: empty(),
+    });
+  }
+
+  let unmappedAccounts = 0;
+  for (const account of accounts) {
+    const line = mapping.resolve({
+      account: account.account,
+      category: account.category,
+      bs: statement === 'BALANCE_SHEET',
+    });
+
+    let totals = line ? lines.get(`L${line.id}`) : undefined;
+    if (!totals) {
+      unmappedAccounts += 1;
+      const key = `C${account.category.trim()}`;
+      totals = lines.get(key);
+      if (!totals) {
+        totals = {
+          label: `GL category ${account.category.trim() || '(none)'}`,
+          section: UNMAPPED_SECTION,
+          sortOrder: 0,
+          drillKey: key,
+          current: empty(),
+          prior: empty(),
+          budget: empty(),
+        };
+        lines.set(key, totals);
+      }
+    }
+
+    addInto(totals.current, account.current);
+    addInto(totals.prior, account.prior);
+    addInto(totals.budget, account.budget);
+  }
+
+  return {
+    lines: [...lines.values()].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label)),
+    unmappedAccounts,
+  };
+}
+
+function toAmounts(
+  raw: { current: number[]; prior: number[]; budget: number[] },
+  creditPositive: boolean,
+  hasBudget: boolean
+): StatementAmounts[] {
+  const sign = creditPositive ? -1 : 1;
+  return raw.current.map((value, index) => {
+    const actual = round(sign * value);
+    const priorYear = round(sign * (raw.prior[index] ?? 0));
+    const budget = hasBudget ? round(sign * (raw.budget[index] ?? 0)) : null;
+    return {
+      actual,
+      budget,
+      priorYear,
+      budgetVariance: budget === null ? null : round(actual - budget),
+      priorYearVariance: round(actual - priorYear),
+    };
+  });
+}
+
+/**
+ * Build statement rows - lines and a total per section, with subtotals
+ * after the sections listed in `subtotals`
+ */
+function buildRows(
+  statement: FinancialStatementType,
+  lines: LineTotals[],
+  columnCount: number,
+  hasBudget: boolean,
+  subtotals: Array<{ after: StatementSection | typeof UNMAPPED_SECTION; key: string; label: string; creditPositive: boolean; sections: Array<StatementSection | typeof UNMAPPED_SECTION> }>,
+  unmappedAfter: StatementSection,
+  unmappedCreditPositive: boolean
+): StatementRow[] {
+  const empty = () => new Array<number>(columnCount).fill(0);
+  const sectionTotals = new Map<string, { current: number[]; prior: number[]; budget: number[] }>();
+  const rows: StatementRow[] = [];
+
+  const sections: Array<StatementSection | typeof UNMAPPED_SECTION> = [];
+  for (const section of Object.keys(STATEMENT_SECTIONS) as StatementSection[]) {
+    if (STATEMENT_SECTIONS[section].statement !== statement) continue;
+    sections.push(section);
+    if (section === unmappedAfter) sections.push(UNMAPPED_SECTION);
+  }
+
+  for (const section of sections) {
+    const sectionLines = lines.filter((l) => l.section === section);
+    const creditPositive = section === UNMAPPED_SECTION ? unmappedCreditPositive : STATEMENT_SECTIONS[section].creditPositive;
+    const total = { current: empty(), prior: empty(), budget: empty() };
+
+    if (sectionLines.length > 0) {
+      for (const line of sectionLines) {
+        addInto(total.current, line.current);
+        addInto(total.prior, line.prior);
+        addInto(total.budget, line.budget);
+        rows.push({
+          type: 'LINE',
+          key: line.drillKey ?? PROFIT_FOR_YEAR_KEY,
+          label: line.label,
+          section,
+          creditPositive,
+          drillKey: line.drillKey,
+          amounts: toAmounts(line, creditPositive, hasBudget),
+        });
+      }
+      rows.push({
+        type: 'SECTION_TOTAL',
+        key: `TOTAL_${section}`,
+        label: section === UNMAPPED_SECTION ? 'Total Unmapped Accounts' : `Total ${STATEMENT_SECTIONS[section].label}`,
+        section,
+        creditPositive,
+        drillKey: null,
+        amounts: toAmounts(total, creditPositive, hasBudget),
+      });
+    }
+    sectionTotals.set(section, total);
+
+    for (const subtotal of subtotals.filter((s) => s.after === section)) {
+      const sum = { current: empty(), prior: empty(), budget: empty() };
+      for (const included of subtotal.sections) {
+        const totals = sectionTotals.get(included);
+        if (!totals) continue;
+        addInto(sum.current, totals.current);
+        addInto(sum.prior, totals.prior);
+        addInto(sum.budget, totals.budget);
+      }
+      rows.push({
+        type: 'SUBTOTAL',
+        key: subtotal.key,
+        label: subtotal.label,
+        section: null,
+        creditPositive: subtotal.creditPositive,
+        drillKey: null,
+        amounts: toAmounts(sum, subtotal.creditPositive, hasBudget),
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Build the income statement for a fiscal month
+ *
+ * @param budgetCode - GL budget version; defaults to the first for the year
+ */
+export async function getIncomeStatement(filter: ExcoPeriodFilter, budgetCode?: string): Promise<FinancialStatementReport> {
+  const fiscalMonth = resolveStatementMonth(filter);
+  const cacheKey = `${FINANCIAL_STATEMENT_CACHE_KEY}income:${filter.fiscalYear}:${fiscalMonth}:${budgetCode ?? ''}`;
+  const cached = await cache.get<FinancialStatementReport>(cacheKey);
+  if (cached) return cached;
+
+  const [periods, mapping, fiscalYears, budgetCodeRows] = await Promise.all([
+    resolveStatementPeriods(filter.fiscalYear, fiscalMonth),
+    loadStatementMapping(),
+    getExcoFiscalYears(),
+    prisma.gLBudgets.findMany({
+      where: { PeriodYear: filter.fiscalYear },
+      distinct: ['BudgetCode'],
+      select: { BudgetCode: true },
+      orderBy: { BudgetCode: 'asc' },
+    }),
+  ]);
+
+  const budgetCodes = budgetCodeRows.map((r) => r.BudgetCode);
+  if (budgetCode && !budgetCodes.includes(budgetCode)) {
+    throw new AppError(404, 'GL budget not found for this fiscal year', ErrorCodes.NOT_FOUND, { budgetCode });
+  }
+  const selectedBudgetCode = budgetCode ?? budgetCodes[0] ?? null;
+
+  const { monthStart, qtdStart, ytdStart, end, priorMonthStart, priorQtdStart, priorYtdStart, priorEnd } = periods;
+  const quarterFirstMonth = (Math.ceil(fiscalMonth / 3) - 1) * 3 + 1;
+
+  // Sequential to keep the ledger scans off each other
+  const actualRows = await prisma.$queryRaw<IncomeStatementRow[]>`
+    SELECT
+      g.GSAccountID AS gsAccountId,
+      MAX(g.Account) AS account,
+      MAX(g.Category) AS category,
+      SUM(CASE WHEN g.EntryDate >= ${monthStart} AND g.EntryDate < ${end} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS month,
+      SUM(CASE WHEN g.EntryDate >= ${qtdStart} AND g.EntryDate < ${end} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS qtd,
+      SUM(CASE WHEN g.EntryDate >= ${ytdStart} AND g.EntryDate < ${end} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS ytd,
+      SUM(CASE WHEN g.EntryDate >= ${priorMonthStart} AND g.EntryDate < ${priorEnd} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS priorMonth,
+      SUM(CASE WHEN g.EntryDate >= ${priorQtdStart} AND g.EntryDate < ${priorEnd} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS priorQtd,
+      SUM(CASE WHEN g.EntryDate >= ${priorYtdStart} AND g.EntryDate < ${priorEnd} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS priorYtd
+    FROM GL g
+    WHERE g.BS = 0
+      AND (
+        (g.EntryDate >= ${ytdStart} AND g.EntryDate < ${end})
+        OR (g.EntryDate >= ${priorYtdStart} AND g.EntryDate < ${priorEnd})
+      )
+    GROUP BY g.GSAccountID
+  `;
+
+  const budgetRows = selectedBudgetCode
+    ? await prisma.$queryRaw<BudgetRow[]>`
+        SELECT
+          gb.GSAccountID AS gsAccountId,
+          MAX(a.Account) AS account,
+          MAX(a.Category) AS category,
+          SUM(CASE WHEN gb.PeriodNumber = ${fiscalMonth} THEN ISNULL(gb.BudgetAmount, 0) ELSE 0 END) AS month,
+          SUM(CASE WHEN gb.PeriodNumber >= ${quarterFirstMonth} THEN ISNULL(gb.BudgetAmount, 0) ELSE 0 END) AS qtd,
+          SUM(ISNULL(gb.BudgetAmount, 0)) AS ytd
+        FROM GLBudgets gb
+        INNER JOIN Accounts a ON a.GSAccountID = gb.GSAccountID
+        WHERE gb.PeriodYear = ${filter.fiscalYear}
+          AND gb.PeriodNumber <= ${fiscalMonth}
+          AND gb.BudgetCode = ${selectedBudgetCode}
+          AND a.BS = 0
+        GROUP BY gb.GSAccountID
+      `
+    : [];
+
+  const accounts = new Map<string, AccountBalanceRow>();
+  const accountRow = (row: { gsAccountId: string; account: string; category: string }) => {
+    let account = accounts.get(row.gsAccountId);
+    if (!account) {
+      account = { gsAccountId: row.gsAccountId, account: row.account, category: row.category, current: [0, 0, 0], prior: [0, 0, 0], budget: [0, 0, 0] };
+      accounts.set(row.gsAccountId, account);
+    }
+    return account;
+  };
+  for (const row of actualRows) {
+    const account = accountRow(row);
+    account.current = [Number(row.month), Number(row.qtd), Number(row.ytd)];
+    account.prior = [Number(row.priorMonth), Number(row.priorQtd), Number(row.priorYtd)];
+  }
+  for (const row of budgetRows) {
+    accountRow(row).budget = [Number(row.month), Number(row.qtd), Number(row.ytd)];
+  }
+
+  const { lines, unmappedAccounts } = groupIntoLines('INCOME_STATEMENT', mapping, [...accounts.values()], 3);
+  const hasBudget = selectedBudgetCode !== null;
+
+  const rows = buildRows(
+    'INCOME_STATEMENT',
+    lines,
+    3,
+    hasBudget,
+    [
+      { after: 'COST_OF_SALES', key: 'GROSS_PROFIT', label: 'Gross Profit', creditPositive: true, sections: ['REVENUE', 'COST_OF_SALES'] },
+      {
+        after: 'OPERATING_EXPENSES',
+        key: 'OPERATING_PROFIT',
+        label: 'Operating Profit',
+        creditPositive: true,
+        sections: ['REVENUE', 'COST_OF_SALES', 'OTHER_INCOME', 'OPERATING_EXPENSES'],
+      },
+      {
+        after: UNMAPPED_SECTION,
+        key: 'PROFIT_BEFORE_TAX',
+        label: 'Profit Before Tax',
+        creditPositive: true,
+        sections: ['REVENUE', 'COST_OF_SALES', 'OTHER_INCOME', 'OPERATING_EXPENSES', 'FINANCE_COSTS', UNMAPPED_SECTION],
+      },
+      {
+        after: 'TAXATION',
+        key: 'NET_PROFIT',
+        label: 'Net Profit',
+        creditPositive: true,
+        sections: ['REVENUE', 'COST_OF_SALES', 'OTHER_INCOME', 'OPERATING_EXPENSES', 'FINANCE_COSTS', UNMAPPED_SECTION, 'TAXATION'],
+      },
+    ],
+    'FINANCE_COSTS',
+    true
+  );
+
+  const endDate = periods.month.endDate;
+  const columns: StatementColumn[] = [
+    { key: 'MONTH', label: periods.month.label, startDate: periods.month.startDate, endDate },
+    { key: 'QTD', label: `Q${Math.ceil(fiscalMonth / 3)} to date`, startDate: qtdStart.toISOString(), endDate },
+    { key: 'YTD', label: `FY${filter.fiscalYear} to date`, startDate: ytdStart.toISOString(), endDate },
+  ];
+
+  const report: FinancialStatementReport = {
+    statement: 'INCOME_STATEMENT',
+    fiscalYear: filter.fiscalYear,
+    fiscalMonth,
+    periodLabel: periods.month.label,
+    budgetCode: selectedBudgetCode,
+    budgetCodes,
+    columns,
+    rows,
+    unmappedAccounts,
+    outOfBalance: null,
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
+
+/**
+ * Build the balance sheet at a fiscal month end
+ */
+export async function getBalanceSheet(filter: ExcoPeriodFilter): Promise<FinancialStatementReport> {
+  const fiscalMonth = resolveStatementMonth(filter);
+  const cacheKey = `${FINANCIAL_STATEMENT_CACHE_KEY}balance:${filter.fiscalYear}:${fiscalMonth}`;
+  const cached = await cache.get<FinancialStatementReport>(cacheKey);
+  if (cached) return cached;
+
+  const [periods, mapping, fiscalYears] = await Promise.all([
+    resolveStatementPeriods(filter.fiscalYear, fiscalMonth),
+    loadStatementMapping(),
+    getExcoFiscalYears(),
+  ]);
+  const { ytdStart, end, priorYtdStart, priorEnd } = periods;
+
+  // Sequential to keep the ledger scans off each other
+  const balanceRows = await prisma.$queryRaw<BalanceSheetRow[]>`
+    SELECT
+      g.GSAccountID AS gsAccountId,
+      MAX(g.Account) AS account,
+      MAX(g.Category) AS category,
+      SUM(${ENTRY_AMOUNT}) AS closing,
+      SUM(CASE WHEN g.EntryDate < ${ytdStart} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS opening,
+      SUM(CASE WHEN g.EntryDate < ${priorEnd} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS priorClosing,
+      SUM(CASE WHEN g.EntryDate < ${priorYtdStart} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS priorOpening
+    FROM GL g
+    WHERE g.BS = 1
+      AND g.EntryDate < ${end}
+    GROUP BY g.GSAccountID
+  `;
+
+  const [profit] = await prisma.$queryRaw<Array<{ ytd: unknown; priorYtd: unknown }>>`
+    SELECT
+      SUM(CASE WHEN g.EntryDate >= ${ytdStart} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS ytd,
+      SUM(CASE WHEN g.EntryDate < ${priorEnd} THEN ${ENTRY_AMOUNT} ELSE 0 END) AS priorYtd
+    FROM GL g
+    WHERE g.BS = 0
+      AND (
+        (g.EntryDate >= ${ytdStart} AND g.EntryDate < ${end})
+        OR (g.EntryDate >= ${priorYtdStart} AND g.EntryDate < ${priorEnd})
+      )
+  `;
+  const profitYtd = Number(profit?.ytd ?? 0);
+  const priorProfitYtd = Number(profit?.priorYtd ?? 0);
+
+  const accounts: AccountBalanceRow[] = balanceRows.map((row) => ({
+    gsAccountId: row.gsAccountId,
+    account: row.account,
+    category: row.category,
+    current: [Number(row.closing), Number(row.opening)],
+    prior: [Number(row.priorClosing), Number(row.priorOpening)],
+    budget: [0, 0],
+  }));
+
+  const { lines, unmappedAccounts } = groupIntoLines('BALANCE_SHEET', mapping, accounts, 2);
+
+  // Income statement accounts are only closed off to equity at year end
+  lines.push({
+    label: 'Profit for the year to date',
+    section: 'EQUITY',
+    sortOrder: Number.MAX_SAFE_INTEGER,
+    drillKey: null,
+    current: [profitYtd, 0],
+    prior: [priorProfitYtd, 0],
+    budget: [0, 0],
+  });
+
+  const rows = buildRows(
+    'BALANCE_SHEET',
+    lines,
+    2,
+    false,
+    [
+      { after: 'CURRENT_ASSETS', key: 'TOTAL_ASSETS', label: 'Total Assets', creditPositive: false, sections: ['NON_CURRENT_ASSETS', 'CURRENT_ASSETS'] },
+      {
+        after: 'CURRENT_LIABILITIES',
+        key: 'TOTAL_EQUITY_AND_LIABILITIES',
+        label: 'Total Equity and Liabilities',
+        creditPositive: true,
+        sections: ['EQUITY', 'NON_CURRENT_LIABILITIES', 'CURRENT_LIABILITIES'],
+      },
+    ],
+    'CURRENT_LIABILITIES',
+    false
+  );
+
+  const closingBalance = accounts.reduce((sum, a) => sum + (a.current[0] ?? 0), 0);
+  const outOfBalance = round(closingBalance + profitYtd);
+
+  const openingDate = subDays(ytdStart, 1).toISOString();
+  const columns: StatementColumn[] = [
+    { key: 'CLOSING', label: periods.month.label, startDate: ytdStart.toISOString(), endDate: periods.month.endDate },
+    { key: 'OPENING', label: `Start of FY${filter.fiscalYear}`, startDate: openingDate, endDate: openingDate },
+  ];
+
+  const report: FinancialStatementReport = {
+    statement: 'BALANCE_SHEET',
+    fiscalYear: filter.fiscalYear,
+    fiscalMonth,
+    periodLabel: periods.month.label,
+    budgetCode: null,
+    budgetCodes: [],
+    columns,
+    rows,
+    unmappedAccounts,
+    outOfBalance: Math.abs(outOfBalance) < 0.01 ? 0 : outOfBalance,
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
+
+/**
+ * GL entries behind a statement line
+ * Balance sheet lines show the movement for the year to date.
+ *
+ * @param drillKey - `L<lineId>` or `C<category>` for unmapped accounts
+ */
+export async function getStatementEntries(
+  statement: FinancialStatementType,
+  drillKey: string,
+  filter: ExcoPeriodFilter,
+  range: StatementEntryRange,
+  page: number
+): Promise<StatementEntryPage> {
+  const fiscalMonth = resolveStatementMonth(filter);
+  const [periods, mapping] = await Promise.all([
+    resolveStatementPeriods(filter.fiscalYear, fiscalMonth),
+    loadStatementMapping(),
+  ]);
+
+  const bs = statement === 'BALANCE_SHEET';
+  let label: string;
+  if (drillKey.startsWith('L')) {
+    const line = mapping.lines.find((l) => `L${l.id}` === drillKey);
+    if (!line || !line.active || STATEMENT_SECTIONS[line.section].statement !== statement) {
+      throw new AppError(404, 'Statement line not found', ErrorCodes.NOT_FOUND, { drillKey });
+    }
+    label = line.name;
+  } else {
+    label = `GL category ${drillKey.slice(1)}`;
+  }
+
+  const chart = await prisma.accounts.findMany({
+    where: { BS: bs },
+    select: { GSAccountID: true, Account: true, Category: true },
+  });
+  const accountIds = chart
+    .filter((account) => {
+      const line = mapping.resolve({ account: account.Account, category: account.Category, bs });
+      return line ? `L${line.id}` === drillKey : `C${account.Category.trim()}` === drillKey;
+    })
+    .map((account) => account.GSAccountID);
+
+  const start =
+    bs || range === 'YTD' ? periods.ytdStart : range === 'QTD' ? periods.qtdStart : periods.monthStart;
+  const end = periods.end;
+  const startDate = start.toISOString();
+  const endDate = periods.month.endDate;
+
+  if (accountIds.length === 0) {
+    return { label, startDate, endDate, entries: [], total: 0, totalAmount: 0, page: 1, totalPages: 0 };
+  }
+
+  const accountFilter = Prisma.sql`g.GSAccountID IN (${Prisma.join(accountIds)})`;
+  const [summary] = await prisma.$queryRaw<Array<{ total: number; totalAmount: unknown }>>`
+    SELECT COUNT(*) AS total, SUM(${ENTRY_AMOUNT}) AS totalAmount
+    FROM GL g
+    WHERE ${accountFilter}
+      AND g.EntryDate >= ${start}
+      AND g.EntryDate < ${end}
+  `;
+  const total = Number(summary?.total ?? 0);
+  const totalPages = Math.ceil(total / ENTRY_PAGE_SIZE);
+  const currentPage = Math.min(Math.max(page, 1), Math.max(totalPages, 1));
+
+  const entries = await prisma.gL.findMany({
+    where: { GSAccountID: { in: accountIds }, EntryDate: { gte: start, lt: end } },
+    select: {
+      id: true,
+      EntryDate: true,
+      Account: true,
+      AccDesc: true,
+      Reference: true,
+      Narration: true,
+      SourceBatch: true,
+      EntryGroup: true,
+      OfficeCode: true,
+      Amount: true,
+      Debit: true,
+      Credit: true,
+    },
+    orderBy: [{ EntryDate: 'desc' }, { id: 'desc' }],
+    skip: (currentPage - 1) * ENTRY_PAGE_SIZE,
+    take: ENTRY_PAGE_SIZE,
+  });
+
+  return {
+    label,
+    startDate,
+    endDate,
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      entryDate: entry.EntryDate?.toISOString() ?? null,
+      account: entry.Account,
+      accountDesc: entry.AccDesc,
+      reference: entry.Reference,
+      narration: entry.Narration,
+      sourceBatch: entry.SourceBatch,
+      entryGroup: entry.EntryGroup,
+      officeCode: entry.OfficeCode,
+      amount: round(entry.Amount ?? (entry.Debit ?? 0) - (entry.Credit ?? 0)),
+    })),
+    total,
+    totalAmount: round(Number(summary?.totalAmount ?? 0)),
+    page: currentPage,
+    totalPages,
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * New Business Report
+ *
+ * Won and lost BD opportunities for a fiscal period, compared with the same
+ * period in the prior fiscal year, and a quarter-over-quarter trend:
+ * - Close date: when the opportunity last moved into its won or lost status
+ *   in the stage history, or its conversion / last update date for
+ *   opportunities closed before the history was kept
+ * - Win rate: won over won and lost in the period
+ * - Cycle: days from creation to the win
+ * - Fee attribution: fees (WIP TType 'F') billed to date on the won client's
+ *   tasks in the opportunity's master service line since the win. A fee goes
+ *   to the client's latest win in that service line on or before it, so
+ *   repeat wins don't double count.
+ */
+
+import { differenceInCalendarDays } from 'date-fns';
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import { getFiscalQuarter, getFiscalYear } from '@/lib/utils/fiscalPeriod';
+import type {
+  ExcoPeriodFilter,
+  ExcoReportPeriod,
+  NewBusinessQuarter,
+  NewBusinessReport,
+  NewBusinessServiceLineRow,
+  NewBusinessWin,
+} from '@/types/exco';
+import { num, percentage, REPORT_CACHE_TTL, round } from './excoMath';
+import { getExcoFiscalYears, resolveExcoPeriod } from './excoPeriod';
+import { loadServiceLineMap, serviceLineName, UNMAPPED_SERVICE_LINE } from './excoServiceLines';
+
+const TREND_QUARTERS = 8;
+const MAX_WINS = 50;
+
+interface ClientFeeRow {
+  GSClientID: string;
+  ServLineCode: string;
+  tranDate: Date;
+  fees: unknown;
+}
+
+interface ClosedOpportunity {
+  id: number;
+  title: string;
+  clientName: string | null;
+  gsClientId: string | null;
+  serviceLine: string;
+  value: number;
+  status: 'WON' | 'LOST';
+  createdAt: Date;
+  closedAt: Date;
+  attributedFees: number;
+}
+
+function growth(current: number, prior: number): number | null {
+  return prior > 0 ? Math.round(((current - prior) / prior) * 1000) / 10 : null;
+}
+
+/**
+ * The eight fiscal quarters to the one holding the period's as-at date
+ */
+async function resolveTrendQuarters(period: ExcoReportPeriod): Promise<ExcoReportPeriod[]> {
+  const asOf = new Date(period.asOfDate);
+  let fiscalYear = getFiscalYear(asOf);
+  let fiscalQuarter = getFiscalQuarter(asOf);
+
+  const filters: ExcoPeriodFilter[] = [];
+  for (let i = 0; i < TREND_QUARTERS; i++) {
+    filters.unshift({ fiscalYear, fiscalQuarter });
+    fiscalQuarter -= 1;
+    if (fiscalQuarter === 0) {
+      fiscalQuarter = 4;
+      fiscalYear -= 1;
+    }
+  }
+
+  return Promise.all(filters.map((f) => resolveExcoPeriod(f)));
+}
+
+/**
+ * Opportunities won or lost since a date, with their close date
+ */
+async function loadClosedOpportunities(since: Date): Promise<ClosedOpportunity[]> {
+  // A close date can't be after the last update
+  const opportunities = await prisma.bDOpportunity.findMany({
+    where: { status: { in: ['WON', 'LOST'] }, updatedAt: { gte: since } },
+    select: {
+      id: true,
+      title: true,
+      companyName: true,
+      serviceLine: true,
+      value: true,
+      status: true,
+      createdAt: true,
+      updatedAt: true,
+      convertedAt: true,
+      Client: { select: { GSClientID: true, clientNameFull: true } },
+      BDStageHistory: {
+        select: { status: true, enteredAt: true },
+        orderBy: [{ enteredAt: 'asc' }, { id: 'asc' }],
+      },
+    },
+  });
+
+  const closed: ClosedOpportunity[] = [];
+  for (const opp of opportunities) {
+    let closedAt: Date | null = null;
+    let previousStatus: string | null = null;
+    for (const entry of opp.BDStageHistory) {
+      if (entry.status === opp.status && previousStatus !== opp.status) closedAt = entry.enteredAt;
+      previousStatus = entry.status;
+    }
+    closedAt ??= opp.convertedAt ?? opp.updatedAt;
+    if (closedAt < since) continue;
+
+    closed.push({
+      id: opp.id,
+      title: opp.title,
+      clientName: opp.Client?.clientNameFull ?? opp.companyName,
+      gsClientId: opp.Client?.GSClientID ?? null,
+      serviceLine: opp.serviceLine,
+      value: opp.value || 0,
+      status: opp.status as 'WON' | 'LOST',
+      createdAt: opp.createdAt,
+      closedAt,
+      attributedFees: 0,
+    });
+  }
+
+  return closed;
+}
+
+/**
+ * Attribute fees billed on won clients to their wins
+ */
+async function attributeFees(
+  closed: ClosedOpportunity[],
+  since: Date,
+  masterFor: (servLineCode: string) => string
+): Promise<void> {
+  // Latest wins first, per client and service line
+  const winsByClientLine = new Map<string, ClosedOpportunity[]>();
+  for (const opp of closed) {
+    if (opp.status !== 'WON' || !opp.gsClientId) continue;
+    const key = `${opp.gsClientId.toLowerCase()}:${opp.serviceLine}`;
+    winsByClientLine.set(key, [...(winsByClientLine.get(key) ?? []), opp]);
+  }
+  if (winsByClientLine.size === 0) return;
+  for (const wins of winsByClientLine.values()) {
+    wins.sort((a, b) => b.closedAt.getTime() - a.closedAt.getTime());
+  }
+
+  const fees = await prisma.$queryRaw<ClientFeeRow[]>`
+    SELECT
+      w.GSClientID,
+      w.TaskServLine AS ServLineCode,
+      CAST(w.TranDate AS date) AS tranDate,
+      SUM(ISNULL(w.Amount, 0)) AS fees
+    FROM WIPTransactions w
+    WHERE w.TType = 'F'
+      AND w.TranDate >= ${since}
+      AND w.GSClientID IN (
+        SELECT c.GSClientID
+        FROM BDOpportunity o
+        JOIN Client c ON c.id = o.clientId
+        WHERE o.status = 'WON' AND o.updatedAt >= ${since}
+      )
+    GROUP BY w.GSClientID, w.TaskServLine, CAST(w.TranDate AS date)
+  `;
+
+  for (const row of fees) {
+    const wins = winsByClientLine.get(`${row.GSClientID.toLowerCase()}:${masterFor(row.ServLineCode)}`);
+    const win = wins?.find((w) => differenceInCalendarDays(row.tranDate, w.closedAt) >= 0);
+    if (win) win.attributedFees += num(row.fees);
+  }
+}
+
+function summarise(opportunities: ClosedOpportunity[]) {
+  const won = opportunities.filter((o) => o.status === 'WON');
+  const lostCount = opportunities.length - won.length;
+  return {
+    won,
+    wonCount: won.length,
+    wonValue: won.reduce((sum, o) => sum + o.value, 0),
+    lostCount,
+    winRatePercent: percentage(won.length, opportunities.length),
+    attributedFees: won.reduce((sum, o) => sum + o.attributedFees, 0),
+  };
+}
+
+function inRange(date: Date, start: Date, end: Date): boolean {
+  return date >= start && date <= end;
+}
+
+/**
+ * Build the new business report for a fiscal period with prior-year comparison
+ */
+export async function getNewBusinessReport(filter: ExcoPeriodFilter): Promise<NewBusinessReport> {
+  const cacheKey = `${CACHE_PREFIXES.ANALYTICS}exco:new-business:${filter.fiscalYear}:${filter.fiscalQuarter ?? ''}:${filter.fiscalMonth ?? ''}`;
+  const cached = await cache.get<NewBusinessReport>(cacheKey);
+  if (cached) return cached;
+
+  const [period, comparisonPeriod, fiscalYears, serviceLineMap] = await Promise.all([
+    resolveExcoPeriod(filter),
+    resolveExcoPeriod({ ...filter, fiscalYear: filter.fiscalYear - 1 }),
+    getExcoFiscalYears(),
+    loadServiceLineMap(),
+  ]);
+  const quarters = await resolveTrendQuarters(period);
+
+  const start = new Date(period.startDate);
+  const asOf = new Date(period.asOfDate);
+  const priorStart = new Date(comparisonPeriod.startDate);
+  const priorEnd = new Date(comparisonPeriod.endDate);
+  const trendStart = new Date(quarters[0]!.startDate);
+  const since = trendStart < priorStart ? trendStart : priorStart;
+
+  const closed = await loadClosedOpportunities(since);
+  await attributeFees(
+    closed,
+    since,
+    (code) => serviceLineMap.masterByExternal.get(code) ?? UNMAPPED_SERVICE_LINE
+  );
+  const created = await prisma.bDOpportunity.findMany({
+    where: { createdAt: { gte: trendStart, lte: asOf } },
+    select: { createdAt: true, value: true },
+  });
+
+  const current = summarise(closed.filter((o) => inRange(o.closedAt, start, asOf)));
+  const prior = summarise(closed.filter((o) => inRange(o.closedAt, priorStart, priorEnd)));
+  const totalCycleDays = current.won.reduce((sum, o) => sum + differenceInCalendarDays(o.closedAt, o.createdAt), 0);
+
+  const byServiceLine = new Map<string, ClosedOpportunity[]>();
+  for (const opp of closed) {
+    if (!inRange(opp.closedAt, start, asOf)) continue;
+    byServiceLine.set(opp.serviceLine, [...(byServiceLine.get(opp.serviceLine) ?? []), opp]);
+  }
+  const serviceLines: NewBusinessServiceLineRow[] = [...byServiceLine.entries()]
+    .map(([code, opportunities]) => {
+      const s = summarise(opportunities);
+      return {
+        code,
+        name: serviceLineName(serviceLineMap, code),
+        wonCount: s.wonCount,
+        wonValue: round(s.wonValue),
+        lostCount: s.lostCount,
+        winRatePercent: s.winRatePercent,
+        attributedFees: round(s.attributedFees),
+      };
+    })
+    .sort((a, b) => b.wonValue - a.wonValue);
+
+  const wins: NewBusinessWin[] = [...current.won]
+    .sort((a, b) => b.value - a.value)
+    .slice(0, MAX_WINS)
+    .map((o) => ({
+      opportunityId: o.id,
+      title: o.title,
+      clientName: o.clientName,
+      serviceLine: serviceLineName(serviceLineMap, o.serviceLine),
+      value: round(o.value),
+      wonDate: o.closedAt.toISOString(),
+      cycleDays: differenceInCalendarDays(o.closedAt, o.createdAt),
+      attributedFees: round(o.attributedFees),
+      realisationPercent: o.value > 0 ? percentage(o.attributedFees, o.value) : null,
+    }));
+
+  const trend: NewBusinessQuarter[] = quarters.map((quarter) => {
+    const qStart = new Date(quarter.startDate);
+    const qEnd = new Date(quarter.asOfDate);
+    const s = summarise(closed.filter((o) => inRange(o.closedAt, qStart, qEnd)));
+    const quarterCreated = created.filter((o) => inRange(o.createdAt, qStart, qEnd));
+    return {
+      fiscalYear: quarter.fiscalYear,
+      fiscalQuarter: quarter.fiscalQuarter!,
+      label: quarter.label,
+      createdCount: quarterCreated.length,
+      createdValue: round(quarterCreated.reduce((sum, o) => sum + (o.value || 0), 0)),
+      wonCount: s.wonCount,
+      wonValue: round(s.wonValue),
+      lostCount: s.lostCount,
+      winRatePercent: s.winRatePercent,
+      attributedFees: round(s.attributedFees),
+    };
+  });
+
+  const report: NewBusinessReport = {
+    period,
+    comparisonPeriod,
+    summary: {
+      wonCount: current.wonCount,
+      wonValue: round(current.wonValue),
+      priorWonCount: prior.wonCount,
+      priorWonValue: round(prior.wonValue),
+      wonValueGrowthPercent: growth(current.wonValue, prior.wonValue),
+      lostCount: current.lostCount,
+      winRatePercent: current.winRatePercent,
+      priorWinRatePercent: prior.winRatePercent,
+      averageDealValue: current.wonCount > 0 ? round(current.wonValue / current.wonCount) : 0,
+      averageCycleDays: current.wonCount > 0 ? Math.round(totalCycleDays / current.wonCount) : 0,
+      attributedFees: round(current.attributedFees),
+      realisationPercent: percentage(current.attributedFees, current.wonValue),
+    },
+    serviceLines,
+    wins,
+    trend,
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
@@ -0,0 +1,407 @@
+/**
+ * Partner Performance Scorecards
+ *
+ * Per-partner metrics for a fiscal period, compared with the same period in
+ * the prior fiscal year:
+ * - Fees billed: WIP fee transactions (TType 'F') on tasks where the partner
+ *   is TaskPartner
+ * - WIP: latest WIPAging snapshot on or before the period end, by TaskPartner
+ * - Debtors: DrsTransactions where the partner is the Biller, matched and aged
+ *   at period end using the same invoice matching as the debtor analytics
+ * - Recoverability: receipts in the period over the opening debtors balance,
+ *   as in My Reports > Recoverability
+ * - New clients: BD opportunities converted in the period, by client partner
+ * - Review notes: notes open on the partner's tasks at period end
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import {
+  aggregateOverallDebtorData,
+  type DebtorTransactionRecord,
+} from '@/lib/services/analytics/debtorAggregation';
+import type {
+  ExcoPeriodFilter,
+  ExcoReportPeriod,
+  PartnerPeriodMetrics,
+  PartnerScorecard,
+  PartnerScorecardReport,
+} from '@/types/exco';
+import { percentage, REPORT_CACHE_TTL, round } from './excoMath';
+import { getExcoFiscalYears, resolveExcoPeriod } from './excoPeriod';
+import { loadServiceLineMap, serviceLineName, UNMAPPED_SERVICE_LINE } from './excoServiceLines';
+
+const PARTNER_CATEGORIES = ['CARL', 'LOCAL', 'DIR'];
+const OPEN_REVIEW_NOTE_STATUSES = ['OPEN', 'IN_PROGRESS', 'ADDRESSED'];
+
+interface DebtorInvoiceRow {
+  Biller: string;
+  InvNumber: string;
+  ServLineCode: string;
+  netTotal: number | null;
+  invoicedTotal: number | null;
+  invoiceDate: Date | null;
+  lastDate: Date;
+}
+
+interface DebtorSummaryRow {
+  Biller: string;
+  openingBalance: number | null;
+  receipts: number | null;
+  billings12Months: number | null;
+}
+
+interface ReviewNoteRow {
+  TaskPartner: string;
+  openCount: number;
+  overdueCount: number;
+}
+
+function debtorDays(balance: number, billings12Months: number): number {
+  return billings12Months > 0 ? Math.round((balance / billings12Months) * 365) : 0;
+}
+
+function emptyMetrics(): PartnerPeriodMetrics {
+  return {
+    feesBilled: 0,
+    wipBalance: 0,
+    wipProvision: 0,
+    netWip: 0,
+    wipAging: { current: 0, days30: 0, days60: 0, days90: 0, days120: 0, days150: 0, days180: 0 },
+    debtorsBalance: 0,
+    debtorAging: { current: 0, days31_60: 0, days61_90: 0, days91_120: 0, days120Plus: 0 },
+    debtorDays: 0,
+    billings12Months: 0,
+    openingDebtors: 0,
+    receipts: 0,
+    recoverability: 0,
+    newClients: 0,
+    newClientValue: 0,
+    openReviewNotes: 0,
+    overdueReviewNotes: 0,
+  };
+}
+
+function hasActivity(metrics: PartnerPeriodMetrics): boolean {
+  return (
+    metrics.feesBilled !== 0 ||
+    metrics.wipBalance !== 0 ||
+    metrics.debtorsBalance !== 0 ||
+    metrics.receipts !== 0 ||
+    metrics.newClients > 0 ||
+    metrics.openReviewNotes > 0
+  );
+}
+
+/**
+ * Rebuild debtor records from per-invoice totals
+ * One debit at the first invoice date plus one net movement at the last
+ * transaction date gives the same balances, invoice dates and days-to-pay
+ * as the full transaction history without loading every row.
+ */
+function toDebtorRecords(rows: DebtorInvoiceRow[]): DebtorTransactionRecord[] {
+  const records: DebtorTransactionRecord[] = [];
+  const record = (row: DebtorInvoiceRow, TranDate: Date, Total: number): DebtorTransactionRecord => ({
+    TranDate,
+    Total,
+    EntryType: null,
+    InvNumber: row.InvNumber,
+    Reference: null,
+    Narration: null,
+    ServLineCode: row.ServLineCode,
+    updatedAt: TranDate,
+  });
+
+  for (const row of rows) {
+    const invoiced = row.invoicedTotal ?? 0;
+    const movement = (row.netTotal ?? 0) - invoiced;
+    if (invoiced > 0 && row.invoiceDate) records.push(record(row, row.invoiceDate, invoiced));
+    if (movement !== 0) records.push(record(row, row.lastDate, movement));
+  }
+
+  return records;
+}
+
+/**
+ * Calculate scorecard metrics for every partner for one period
+ */
+async function loadPeriodMetrics(
+  period: ExcoReportPeriod,
+  partnerCodes: string[]
+): Promise<Map<string, PartnerPeriodMetrics>> {
+  const start = new Date(period.startDate);
+  const asOf = new Date(period.asOfDate);
+  const metrics = new Map<string, PartnerPeriodMetrics>(partnerCodes.map((code) => [code, emptyMetrics()]));
+
+  if (partnerCodes.length === 0 || start > asOf) return metrics;
+
+  const wipSnapshot = await prisma.wIPAging.aggregate({
+    where: { PeriodEnd: { lte: asOf } },
+    _max: { PeriodRef: true },
+  });
+  const periodRef = wipSnapshot._max.PeriodRef;
+
+  const [fees, wip, debtorInvoices, debtorSummary, conversions, reviewNotes] = await Promise.all([
+    prisma.wIPTransactions.groupBy({
+      by: ['TaskPartner'],
+      where: { TType: 'F', TranDate: { gte: start, lte: asOf }, TaskPartner: { in: partnerCodes } },
+      _sum: { Amount: true },
+    }),
+    periodRef !== null
+      ? prisma.wIPAging.groupBy({
+          by: ['TaskPartner'],
+          where: { PeriodRef: periodRef, TaskPartner: { in: partnerCodes } },
+          _sum: {
+            Curr: true,
+            Bal30: true,
+            Bal60: true,
+            Bal90: true,
+            Bal120: true,
+            Bal150: true,
+            Bal180: true,
+            BalWip: true,
+            Provision: true,
+            NettWip: true,
+          },
+        })
+      : Promise.resolve([]),
+    prisma.$queryRaw<DebtorInvoiceRow[]>`
+      SELECT
+        Biller,
+        InvNumber,
+        MIN(ServLineCode) AS ServLineCode,
+        SUM(ISNULL(Total, 0)) AS netTotal,
+        SUM(CASE WHEN Total > 0 THEN Total ELSE 0 END) AS invoicedTotal,
+        MIN(CASE WHEN Total > 0 THEN TranDate END) AS invoiceDate,
+        MAX(TranDate) AS lastDate
+      FROM DrsTransactions
+      WHERE Biller IN (${Prisma.join(partnerCodes)})
+        AND InvNumber IS NOT NULL
+        AND TranDate <= ${asOf}
+      GROUP BY Biller, InvNumber
+    `,
+    prisma.$queryRaw<DebtorSummaryRow[]>`
+      SELECT
+        Biller,
+        SUM(CASE WHEN TranDate < ${start} THEN ISNULL(Total, 0) ELSE 0 END) AS openingBalance,
+        SUM(CASE WHEN TranDate >= ${start} AND Total < 0 THEN -Total ELSE 0 END) AS receipts,
+        SUM(CASE WHEN TranDate > DATEADD(YEAR, -1, ${asOf}) AND Total > 0 THEN Total ELSE 0 END) AS billings12Months
+      FROM DrsTransactions
+      WHERE Biller IN (${Prisma.join(partnerCodes)})
+        AND TranDate <= ${asOf}
+      GROUP BY Biller
+    `,
+    prisma.bDOpportunity.findMany({
+      where: { convertedAt: { gte: start, lte: asOf } },
+      select: { convertedToClientId: true, clientId: true, value: true },
+    }),
+    prisma.$queryRaw<ReviewNoteRow[]>`
+      SELECT
+        t.TaskPartner,
+        COUNT(*) AS openCount,
+        SUM(CASE WHEN rn.dueDate < ${asOf} THEN 1 ELSE 0 END) AS overdueCount
+      FROM ReviewNote rn
+      INNER JOIN Task t ON t.id = rn.taskId
+      WHERE t.TaskPartner IN (${Prisma.join(partnerCodes)})
+        AND rn.createdAt <= ${asOf}
+        AND (
+          rn.status IN (${Prisma.join(OPEN_REVIEW_NOTE_STATUSES)})
+          OR rn.clearedAt > ${asOf}
+          OR rn.rejectedAt > ${asOf}
+        )
+      GROUP BY t.TaskPartner
+    `,
+  ]);
+
+  for (const row of fees) {
+    const m = metrics.get(row.TaskPartner);
+    if (m) m.feesBilled = round(row._sum.Amount ?? 0);
+  }
+
+  for (const row of wip) {
+    const m = metrics.get(row.TaskPartner);
+    if (!m) continue;
+    const sum = row._sum;
+    m.wipBalance = round(sum.BalWip ?? 0);
+    m.wipProvision = round(sum.Provision ?? 0);
+    m.netWip = round(sum.NettWip ?? 0);
+    m.wipAging = {
+      current: round(sum.Curr ?? 0),
+      days30: round(sum.Bal30 ?? 0),
+      days60: round(sum.Bal60 ?? 0),
+      days90: round(sum.Bal90 ?? 0),
+      days120: round(sum.Bal120 ?? 0),
+      days150: round(sum.Bal150 ?? 0),
+      days180: round(sum.Bal180 ?? 0),
+    };
+  }
+
+  // Debtors - match and age each biller's invoices at the period end
+  const invoicesByBiller = new Map<string, DebtorInvoiceRow[]>();
+  for (const row of debtorInvoices) {
+    const list = invoicesByBiller.get(row.Biller);
+    if (list) list.push(row);
+    else invoicesByBiller.set(row.Biller, [row]);
+  }
+
+  for (const [biller, rows] of invoicesByBiller) {
+    const m = metrics.get(biller);
+    if (!m) continue;
+    const debtors = aggregateOverallDebtorData(toDebtorRecords(rows), asOf);
+    m.debtorsBalance = round(debtors.totalBalance);
+    m.debtorAging = {
+      current: round(debtors.aging.current),
+      days31_60: round(debtors.aging.days31_60),
+      days61_90: round(debtors.aging.days61_90),
+      days91_120: round(debtors.aging.days91_120),
+      days120Plus: round(debtors.aging.days120Plus),
+    };
+  }
+
+  for (const row of debtorSummary) {
+    const m = metrics.get(row.Biller);
+    if (!m) continue;
+    m.billings12Months = round(row.billings12Months ?? 0);
+    m.openingDebtors = round(row.openingBalance ?? 0);
+    m.receipts = round(row.receipts ?? 0);
+    m.recoverability = percentage(m.receipts, m.openingDebtors);
+    m.debtorDays = debtorDays(m.debtorsBalance, m.billings12Months);
+  }
+
+  // New clients - attributed to the converted client's partner
+  const convertedClientIds = [
+    ...new Set(conversions.map((c) => c.convertedToClientId ?? c.clientId).filter((id): id is number => id !== null)),
+  ];
+  const clients = convertedClientIds.length
+    ? await prisma.client.findMany({
+        where: { id: { in: convertedClientIds } },
+        select: { id: true, clientPartner: true },
+      })
+    : [];
+  const partnerByClient = new Map(clients.map((c) => [c.id, c.clientPartner]));
+  const countedClients = new Set<number>();
+
+  for (const conversion of conversions) {
+    const clientId = conversion.convertedToClientId ?? conversion.clientId;
+    if (clientId === null) continue;
+    const m = metrics.get(partnerByClient.get(clientId) ?? '');
+    if (!m) continue;
+    if (!countedClients.has(clientId)) {
+      countedClients.add(clientId);
+      m.newClients += 1;
+    }
+    m.newClientValue = round(m.newClientValue + (conversion.value ?? 0));
+  }
+
+  for (const row of reviewNotes) {
+    const m = metrics.get(row.TaskPartner);
+    if (!m) continue;
+    m.openReviewNotes = Number(row.openCount);
+    m.overdueReviewNotes = Number(row.overdueCount);
+  }
+
+  return metrics;
+}
+
+/**
+ * Firm totals - ratios are recalculated from the summed balances
+ */
+function totalMetrics(rows: PartnerPeriodMetrics[]): PartnerPeriodMetrics {
+  const totals = emptyMetrics();
+
+  for (const m of rows) {
+    totals.feesBilled += m.feesBilled;
+    totals.wipBalance += m.wipBalance;
+    totals.wipProvision += m.wipProvision;
+    totals.netWip += m.netWip;
+    for (const key of Object.keys(totals.wipAging) as Array<keyof typeof totals.wipAging>) {
+      totals.wipAging[key] += m.wipAging[key];
+    }
+    totals.debtorsBalance += m.debtorsBalance;
+    for (const key of Object.keys(totals.debtorAging) as Array<keyof typeof totals.debtorAging>) {
+      totals.debtorAging[key] += m.debtorAging[key];
+    }
+    totals.billings12Months += m.billings12Months;
+    totals.openingDebtors += m.openingDebtors;
+    totals.receipts += m.receipts;
+    totals.newClients += m.newClients;
+    totals.newClientValue += m.newClientValue;
+    totals.openReviewNotes += m.openReviewNotes;
+    totals.overdueReviewNotes += m.overdueReviewNotes;
+  }
+
+  totals.recoverability = percentage(totals.receipts, totals.openingDebtors);
+  totals.debtorDays = debtorDays(totals.debtorsBalance, totals.billings12Months);
+  return totals;
+}
+
+/**
+ * Build partner scorecards for a fiscal period with prior-year comparison
+ */
+export async function getPartnerScorecards(filter: ExcoPeriodFilter): Promise<PartnerScorecardReport> {
+  const cacheKey = `${CACHE_PREFIXES.ANALYTICS}exco:partner-scorecards:${filter.fiscalYear}:${filter.fiscalQuarter ?? ''}:${filter.fiscalMonth ?? ''}`;
+  const cached = await cache.get<PartnerScorecardReport>(cacheKey);
+  if (cached) return cached;
+
+  const [period, comparisonPeriod, fiscalYears, serviceLineMap] = await Promise.all([
+    resolveExcoPeriod(filter),
+    resolveExcoPeriod({ ...filter, fiscalYear: filter.fiscalYear - 1 }),
+    getExcoFiscalYears(),
+    loadServiceLineMap(),
+  ]);
+
+  const partnerRows = await prisma.employee.findMany({
+    where: {
+      EmpCatCode: { in: PARTNER_CATEGORIES },
+      OR: [{ Active: 'Yes' }, { EmpDateLeft: { gte: new Date(comparisonPeriod.startDate) } }],
+    },
+    select: { EmpCode: true, EmpNameFull: true, OfficeCode: true, ServLineCode: true },
+    orderBy: [{ Active: 'desc' }, { id: 'asc' }],
+  });
+
+  // Employee codes can repeat across re-hires - the active row wins
+  const partners = new Map<string, (typeof partnerRows)[number]>();
+  for (const row of partnerRows) {
+    if (!partners.has(row.EmpCode)) partners.set(row.EmpCode, row);
+  }
+  const partnerCodes = [...partners.keys()];
+
+  // Sequential to keep the DrsTransactions scans off each other
+  const current = await loadPeriodMetrics(period, partnerCodes);
+  const prior = await loadPeriodMetrics(comparisonPeriod, partnerCodes);
+
+  const scorecards: PartnerScorecard[] = [];
+  for (const [empCode, partner] of partners) {
+    const currentMetrics = current.get(empCode) ?? emptyMetrics();
+    const priorMetrics = prior.get(empCode) ?? emptyMetrics();
+    if (!hasActivity(currentMetrics) && !hasActivity(priorMetrics)) continue;
+
+    const masterCode = serviceLineMap.masterByExternal.get(partner.ServLineCode) ?? UNMAPPED_SERVICE_LINE;
+    scorecards.push({
+      empCode,
+      empName: partner.EmpNameFull,
+      officeCode: partner.OfficeCode,
+      serviceLineCode: masterCode,
+      serviceLineName: serviceLineName(serviceLineMap, masterCode),
+      current: currentMetrics,
+      prior: priorMetrics,
+    });
+  }
+
+  scorecards.sort((a, b) => b.current.feesBilled - a.current.feesBilled || a.empName.localeCompare(b.empName));
+
+  const report: PartnerScorecardReport = {
+    period,
+    comparisonPeriod,
+    partners: scorecards,
+    totals: {
+      current: totalMetrics(scorecards.map((s) => s.current)),
+      prior: totalMetrics(scorecards.map((s) => s.prior)),
+    },
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
@@ -0,0 +1,321 @@
+/**
+ * Pipeline Overview
+ *
+ * Firm-wide view of the open BD pipeline (as at today) against the fee
+ * target for a fiscal period:
+ * - Weighted value: value x the opportunity's probability, or its stage's
+ *   probability when it has none
+ * - Coverage: weighted value of open opportunities expected to close by the
+ *   end of the period (overdue ones included) over the revenue gap - the GL
+ *   fee budget for the period less fees billed to date (WIP TType 'F').
+ *   Opportunity service lines are master service line codes.
+ * - Velocity: days between consecutive stage entries in the stage history,
+ *   for opportunities that moved on during the period
+ * - Ageing: days since the opportunity was created and since it entered its
+ *   current stage
+ */
+
+import { differenceInCalendarDays, eachMonthOfInterval } from 'date-fns';
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import { getFiscalMonth } from '@/lib/utils/fiscalPeriod';
+import type {
+  ExcoPeriodFilter,
+  PipelineAgedOpportunity,
+  PipelineAgeingBucket,
+  PipelineCoverage,
+  PipelineReport,
+  PipelineServiceLineRow,
+  PipelineStageRow,
+  PipelineTransition,
+} from '@/types/exco';
+import { loadGlFeeBudgets } from './budgetForecast';
+import { num, REPORT_CACHE_TTL, round } from './excoMath';
+import { getExcoFiscalYears, resolveExcoPeriod } from './excoPeriod';
+import { loadServiceLineMap, serviceLineName, UNMAPPED_SERVICE_LINE } from './excoServiceLines';
+
+/** Open opportunities this long in one stage need attention */
+const STALLED_STAGE_DAYS = 90;
+const MAX_ATTENTION = 25;
+const AGEING_BUCKETS: Array<{ label: string; maxDays: number }> = [
+  { label: '0-30 days', maxDays: 30 },
+  { label: '31-90 days', maxDays: 90 },
+  { label: '91-180 days', maxDays: 180 },
+  { label: 'Over 180 days', maxDays: Infinity },
+];
+
+interface ServiceLineFeeRow {
+  ServLineCode: string;
+  fees: unknown;
+}
+
+interface CoverageTotals {
+  targetFees: number;
+  billedFees: number;
+  closingValue: number;
+  closingWeightedValue: number;
+}
+
+function average(total: number, count: number): number {
+  return count > 0 ? Math.round(total / count) : 0;
+}
+
+function toCoverage(totals: CoverageTotals): PipelineCoverage {
+  const revenueGap = Math.max(totals.targetFees - totals.billedFees, 0);
+  return {
+    targetFees: round(totals.targetFees),
+    billedFees: round(totals.billedFees),
+    revenueGap: round(revenueGap),
+    closingValue: round(totals.closingValue),
+    closingWeightedValue: round(totals.closingWeightedValue),
+    coveragePercent: revenueGap > 0 ? Math.round((totals.closingWeightedValue / revenueGap) * 1000) / 10 : null,
+  };
+}
+
+/**
+ * Stage-to-stage moves from the stage history
+ * Status-only changes within a stage aren't moves.
+ */
+async function loadStageMoves(start: Date, end: Date) {
+  const history = await prisma.bDStageHistory.findMany({
+    select: {
+      opportunityId: true,
+      enteredAt: true,
+      BDStage: { select: { name: true } },
+    },
+    orderBy: [{ opportunityId: 'asc' }, { enteredAt: 'asc' }, { id: 'asc' }],
+  });
+
+  const moves: Array<{ fromStage: string; toStage: string; days: number }> = [];
+  let current: { opportunityId: number; stage: string; enteredAt: Date } | null = null;
+  for (const row of history) {
+    if (!current || current.opportunityId !== row.opportunityId) {
+      current = { opportunityId: row.opportunityId, stage: row.BDStage.name, enteredAt: row.enteredAt };
+      continue;
+    }
+    if (row.BDStage.name === current.stage) continue;
+
+    if (row.enteredAt >= start && row.enteredAt <= end) {
+      moves.push({
+        fromStage: current.stage,
+        toStage: row.BDStage.name,
+        days: Math.max(differenceInCalendarDays(row.enteredAt, current.enteredAt), 0),
+      });
+    }
+    current = { opportunityId: row.opportunityId, stage: row.BDStage.name, enteredAt: row.enteredAt };
+  }
+
+  return moves;
+}
+
+/**
+ * Build the pipeline overview for a fiscal period
+ */
+export async function getPipelineReport(filter: ExcoPeriodFilter): Promise<PipelineReport> {
+  const cacheKey = `${CACHE_PREFIXES.ANALYTICS}exco:pipeline:${filter.fiscalYear}:${filter.fiscalQuarter ?? ''}:${filter.fiscalMonth ?? ''}`;
+  const cached = await cache.get<PipelineReport>(cacheKey);
+  if (cached) return cached;
+
+  const [period, fiscalYears, serviceLineMap, budgetCodeRow] = await Promise.all([
+    resolveExcoPeriod(filter),
+    getExcoFiscalYears(),
+    loadServiceLineMap(),
+    prisma.gLBudgets.findFirst({
+      where: { PeriodYear: filter.fiscalYear },
+      select: { BudgetCode: true },
+      orderBy: { BudgetCode: 'asc' },
+    }),
+  ]);
+
+  const start = new Date(period.startDate);
+  const end = new Date(period.endDate);
+  const asOf = new Date(period.asOfDate);
+  const today = new Date();
+  const budgetCode = budgetCodeRow?.BudgetCode ?? null;
+  const fiscalMonths = eachMonthOfInterval({ start, end }).map((m) => getFiscalMonth(m));
+
+  const opportunities = await prisma.bDOpportunity.findMany({
+    where: { status: 'OPEN' },
+    select: {
+      id: true,
+      title: true,
+      companyName: true,
+      serviceLine: true,
+      value: true,
+      probability: true,
+      expectedCloseDate: true,
+      createdAt: true,
+      Client: { select: { clientNameFull: true } },
+      BDStage: { select: { name: true, order: true, probability: true } },
+      BDStageHistory: {
+        select: { enteredAt: true },
+        orderBy: [{ enteredAt: 'desc' }, { id: 'desc' }],
+        take: 1,
+      },
+    },
+  });
+
+  // Sequential to keep the WIP and GL scans off each other
+  const fees = await prisma.$queryRaw<ServiceLineFeeRow[]>`
+    SELECT TaskServLine AS ServLineCode, SUM(ISNULL(Amount, 0)) AS fees
+    FROM WIPTransactions
+    WHERE TType = 'F'
+      AND TranDate >= ${start}
+      AND TranDate <= ${asOf}
+    GROUP BY TaskServLine
+  `;
+  const budgets = budgetCode ? await loadGlFeeBudgets(filter.fiscalYear, fiscalMonths, budgetCode) : [];
+  const moves = await loadStageMoves(start, asOf);
+
+  const emptyCoverage = (): CoverageTotals => ({ targetFees: 0, billedFees: 0, closingValue: 0, closingWeightedValue: 0 });
+  const coverageByServiceLine = new Map<string, CoverageTotals & { openCount: number; totalValue: number; weightedValue: number }>();
+  const serviceLineTotals = (code: string) => {
+    let totals = coverageByServiceLine.get(code);
+    if (!totals) {
+      totals = { ...emptyCoverage(), openCount: 0, totalValue: 0, weightedValue: 0 };
+      coverageByServiceLine.set(code, totals);
+    }
+    return totals;
+  };
+  const firm = emptyCoverage();
+
+  for (const row of budgets) {
+    serviceLineTotals(row.serviceLine).targetFees += row.budget;
+    firm.targetFees += row.budget;
+  }
+  for (const row of fees) {
+    const code = serviceLineMap.masterByExternal.get(row.ServLineCode) ?? UNMAPPED_SERVICE_LINE;
+    serviceLineTotals(code).billedFees += num(row.fees);
+    firm.billedFees += num(row.fees);
+  }
+
+  const stages = new Map<string, { order: number; count: number; value: number; weightedValue: number; currentDays: number; exits: number; exitDays: number }>();
+  const stageTotals = (name: string, order: number) => {
+    let totals = stages.get(name);
+    if (!totals) {
+      totals = { order, count: 0, value: 0, weightedValue: 0, currentDays: 0, exits: 0, exitDays: 0 };
+      stages.set(name, totals);
+    }
+    totals.order = Math.min(totals.order, order);
+    return totals;
+  };
+
+  const ageing = AGEING_BUCKETS.map((b) => ({ label: b.label, count: 0, value: 0, weightedValue: 0 }));
+  const attention: PipelineAgedOpportunity[] = [];
+  let totalValue = 0;
+  let weightedValue = 0;
+  let totalAgeDays = 0;
+  let overdueCount = 0;
+
+  for (const opp of opportunities) {
+    const value = opp.value || 0;
+    const weighted = value * ((opp.probability || opp.BDStage.probability) / 100);
+    const daysOpen = Math.max(differenceInCalendarDays(today, opp.createdAt), 0);
+    const daysInStage = Math.max(differenceInCalendarDays(today, opp.BDStageHistory[0]?.enteredAt ?? opp.createdAt), 0);
+    const overdue = opp.expectedCloseDate !== null && opp.expectedCloseDate < today;
+
+    totalValue += value;
+    weightedValue += weighted;
+    totalAgeDays += daysOpen;
+    if (overdue) overdueCount += 1;
+
+    const serviceLine = serviceLineTotals(opp.serviceLine);
+    serviceLine.openCount += 1;
+    serviceLine.totalValue += value;
+    serviceLine.weightedValue += weighted;
+    if (opp.expectedCloseDate && opp.expectedCloseDate <= end) {
+      serviceLine.closingValue += value;
+      serviceLine.closingWeightedValue += weighted;
+      firm.closingValue += value;
+      firm.closingWeightedValue += weighted;
+    }
+
+    const stage = stageTotals(opp.BDStage.name, opp.BDStage.order);
+    stage.count += 1;
+    stage.value += value;
+    stage.weightedValue += weighted;
+    stage.currentDays += daysInStage;
+
+    const bucket = ageing[AGEING_BUCKETS.findIndex((b) => daysOpen <= b.maxDays)]!;
+    bucket.count += 1;
+    bucket.value += value;
+    bucket.weightedValue += weighted;
+
+    if (overdue || daysInStage > STALLED_STAGE_DAYS) {
+      attention.push({
+        opportunityId: opp.id,
+        title: opp.title,
+        clientName: opp.Client?.clientNameFull ?? opp.companyName,
+        serviceLine: serviceLineName(serviceLineMap, opp.serviceLine),
+        stageName: opp.BDStage.name,
+        value: round(value),
+        daysOpen,
+        daysInStage,
+        expectedCloseDate: opp.expectedCloseDate?.toISOString() ?? null,
+        overdue,
+      });
+    }
+  }
+
+  const transitions = new Map<string, PipelineTransition & { totalDays: number }>();
+  for (const move of moves) {
+    // Closed stages aren't in the open pipeline; order them after it
+    const stage = stageTotals(move.fromStage, Number.MAX_SAFE_INTEGER);
+    stage.exits += 1;
+    stage.exitDays += move.days;
+
+    const key = `${move.fromStage}\u0000${move.toStage}`;
+    const transition = transitions.get(key) ?? { fromStage: move.fromStage, toStage: move.toStage, count: 0, averageDays: 0, totalDays: 0 };
+    transition.count += 1;
+    transition.totalDays += move.days;
+    transitions.set(key, transition);
+  }
+
+  const stageRows: PipelineStageRow[] = [...stages.entries()]
+    .map(([name, s]) => ({
+      name,
+      order: s.order,
+      count: s.count,
+      value: round(s.value),
+      weightedValue: round(s.weightedValue),
+      averageCurrentDays: average(s.currentDays, s.count),
+      averageDaysInStage: s.exits > 0 ? average(s.exitDays, s.exits) : null,
+      exits: s.exits,
+    }))
+    .sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
+
+  const serviceLines: PipelineServiceLineRow[] = [...coverageByServiceLine.entries()]
+    .map(([code, s]) => ({
+      code,
+      name: serviceLineName(serviceLineMap, code),
+      openCount: s.openCount,
+      totalValue: round(s.totalValue),
+      weightedValue: round(s.weightedValue),
+      ...toCoverage(s),
+    }))
+    .sort((a, b) => b.targetFees - a.targetFees || b.weightedValue - a.weightedValue);
+
+  const report: PipelineReport = {
+    period,
+    budgetCode,
+    summary: {
+      openCount: opportunities.length,
+      totalValue: round(totalValue),
+      weightedValue: round(weightedValue),
+      averageAgeDays: average(totalAgeDays, opportunities.length),
+      overdueCount,
+      ...toCoverage(firm),
+    },
+    stages: stageRows,
+    transitions: [...transitions.values()]
+      .map(({ totalDays, ...t }) => ({ ...t, averageDays: average(totalDays, t.count) }))
+      .sort((a, b) => b.count - a.count),
+    serviceLines,
+    ageing: ageing.map((b): PipelineAgeingBucket => ({ ...b, value: round(b.value), weightedValue: round(b.weightedValue) })),
+    attention: attention.sort((a, b) => b.value - a.value).slice(0, MAX_ATTENTION),
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
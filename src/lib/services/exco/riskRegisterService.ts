@@ -0,0 +1,662 @@
+/**
+ * Risk Register Service
+ *
+ * Firm risk register for EXCO risk & compliance. Risks are raised manually or
+ * seeded from signals the app already holds:
+ * - High-risk approved client acceptances on active clients
+ * - Team members on active tasks with independence still unconfirmed after
+ *   the grace period
+ * - Engagement letters missing a signature, or generated and never uploaded
+ * - Open filings past their deadline
+ *
+ * Each signal has a stable source key so it is only seeded once. Seeded
+ * entries are closed automatically when their signal clears; a seeded entry
+ * the owner has closed stays closed.
+ */
+
+import { addDays, subDays } from 'date-fns';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import type { SessionUser } from '@/lib/services/auth/types';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { logger } from '@/lib/utils/logger';
+import type {
+  CreateRiskEntryInput,
+  CreateRiskMitigationInput,
+  UpdateRiskEntryInput,
+  UpdateRiskMitigationInput,
+} from '@/lib/validation/schemas';
+import type {
+  RiskCategory,
+  RiskHeatMapCell,
+  RiskLevel,
+  RiskMitigationStatus,
+  RiskRegisterFilter,
+  RiskRegisterItem,
+  RiskRegisterReport,
+  RiskSource,
+  RiskStatus,
+  RiskSyncResult,
+} from '@/types/exco';
+import { loadServiceLineMap, serviceLineName, type ExcoServiceLineMap } from './excoServiceLines';
+
+/** Days between reviews when no next review date is given */
+export const RISK_REVIEW_INTERVAL_DAYS = 90;
+
+/** Days a team member has to confirm independence before it is a risk */
+const INDEPENDENCE_GRACE_DAYS = 30;
+
+/** Days a generated engagement letter may go without a signed upload */
+const ENGAGEMENT_LETTER_GRACE_DAYS = 30;
+
+const OPEN_FILING_STATUSES = ['PENDING', 'IN_PROGRESS'];
+const SYSTEM_USER = 'SYSTEM';
+
+const riskSelect = {
+  id: true,
+  title: true,
+  description: true,
+  category: true,
+  source: true,
+  status: true,
+  serviceLine: true,
+  ownerEmpCode: true,
+  ownerName: true,
+  likelihood: true,
+  impact: true,
+  lastReviewedAt: true,
+  lastReviewedBy: true,
+  nextReviewDate: true,
+  closedAt: true,
+  createdAt: true,
+  Client: { select: { id: true, clientCode: true, clientNameFull: true } },
+  Task: { select: { id: true, TaskCode: true, TaskDesc: true } },
+  RiskMitigation: {
+    select: {
+      id: true,
+      action: true,
+      ownerEmpCode: true,
+      ownerName: true,
+      dueDate: true,
+      status: true,
+      completedAt: true,
+    },
+    orderBy: [{ dueDate: 'asc' }, { id: 'asc' }],
+  },
+} satisfies Prisma.RiskRegisterEntrySelect;
+
+type RiskRecord = Prisma.RiskRegisterEntryGetPayload<{ select: typeof riskSelect }>;
+
+interface RiskSignal {
+  sourceKey: string;
+  category: RiskCategory;
+  title: string;
+  description: string;
+  serviceLine: string | null;
+  clientId: number | null;
+  taskId: number | null;
+  ownerEmpCode: string | null;
+  likelihood: number;
+  impact: number;
+}
+
+/**
+ * Risk level from likelihood x impact on the 5x5 matrix
+ */
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= 20) return 'CRITICAL';
+  if (score >= 10) return 'HIGH';
+  if (score >= 5) return 'MEDIUM';
+  return 'LOW';
+}
+
+function toRiskItem(risk: RiskRecord, serviceLines: ExcoServiceLineMap, now: Date): RiskRegisterItem {
+  const score = risk.likelihood * risk.impact;
+
+  return {
+    id: risk.id,
+    title: risk.title,
+    description: risk.description,
+    category: risk.category as RiskCategory,
+    source: risk.source as RiskSource,
+    status: risk.status as RiskStatus,
+    serviceLine: risk.serviceLine,
+    serviceLineName: risk.serviceLine ? serviceLineName(serviceLines, risk.serviceLine) : null,
+    client: risk.Client,
+    task: risk.Task ? { id: risk.Task.id, taskCode: risk.Task.TaskCode, taskDesc: risk.Task.TaskDesc } : null,
+    ownerEmpCode: risk.ownerEmpCode,
+    ownerName: risk.ownerName,
+    likelihood: risk.likelihood,
+    impact: risk.impact,
+    score,
+    level: getRiskLevel(score),
+    lastReviewedAt: risk.lastReviewedAt?.toISOString() ?? null,
+    lastReviewedBy: risk.lastReviewedBy,
+    nextReviewDate: risk.nextReviewDate?.toISOString() ?? null,
+    reviewOverdue: risk.status !== 'CLOSED' && !!risk.nextReviewDate && risk.nextReviewDate < now,
+    closedAt: risk.closedAt?.toISOString() ?? null,
+    createdAt: risk.createdAt.toISOString(),
+    mitigations: risk.RiskMitigation.map((m) => ({
+      id: m.id,
+      action: m.action,
+      ownerEmpCode: m.ownerEmpCode,
+      ownerName: m.ownerName,
+      dueDate: m.dueDate?.toISOString() ?? null,
+      status: m.status as RiskMitigationStatus,
+      completedAt: m.completedAt?.toISOString() ?? null,
+    })),
+  };
+}
+
+/**
+ * Resolve an employee code to the owner fields stored on a risk or mitigation
+ */
+async function resolveOwner(
+  empCode: string | null | undefined
+): Promise<{ ownerEmpCode: string | null; ownerName: string | null } | undefined> {
+  if (empCode === undefined) return undefined;
+  if (empCode === null) return { ownerEmpCode: null, ownerName: null };
+
+  const employee = await prisma.employee.findFirst({
+    where: { EmpCode: empCode },
+    select: { EmpCode: true, EmpNameFull: true },
+    orderBy: { Active: 'desc' },
+  });
+  if (!employee) {
+    throw new AppError(400, 'Owner not found', ErrorCodes.VALIDATION_ERROR, { ownerEmpCode: empCode });
+  }
+
+  return { ownerEmpCode: employee.EmpCode, ownerName: employee.EmpNameFull };
+}
+
+async function getRiskOrThrow(riskId: number): Promise<RiskRecord> {
+  const risk = await prisma.riskRegisterEntry.findUnique({ where: { id: riskId }, select: riskSelect });
+  if (!risk) {
+    throw new AppError(404, 'Risk not found', ErrorCodes.NOT_FOUND, { riskId });
+  }
+  return risk;
+}
+
+async function toItem(riskId: number): Promise<RiskRegisterItem> {
+  const [risk, serviceLines] = await Promise.all([getRiskOrThrow(riskId), loadServiceLineMap()]);
+  return toRiskItem(risk, serviceLines, new Date());
+}
+
+/**
+ * Risk register entries with heat map and summary
+ * The heat map and summary cover active risks for the service line filter,
+ * regardless of the category and status filters on the list.
+ */
+export async function getRiskRegister(filter: RiskRegisterFilter): Promise<RiskRegisterReport> {
+  const status = filter.status ?? 'ACTIVE';
+  const serviceLineWhere: Prisma.RiskRegisterEntryWhereInput = filter.serviceLine
+    ? { serviceLine: filter.serviceLine }
+    : {};
+
+  const [records, active, serviceLines] = await Promise.all([
+    prisma.riskRegisterEntry.findMany({
+      where: {
+        ...serviceLineWhere,
+        ...(filter.category ? { category: filter.category } : {}),
+        ...(status === 'ACTIVE' ? { status: { not: 'CLOSED' } } : status === 'ALL' ? {} : { status }),
+      },
+      select: riskSelect,
+      orderBy: [{ updatedAt: 'desc' }],
+    }),
+    prisma.riskRegisterEntry.findMany({
+      where: { ...serviceLineWhere, status: { not: 'CLOSED' } },
+      select: { category: true, likelihood: true, impact: true, nextReviewDate: true },
+    }),
+    loadServiceLineMap(),
+  ]);
+
+  const now = new Date();
+  const entries = records
+    .map((record) => toRiskItem(record, serviceLines, now))
+    .sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt));
+
+  const heatMap: RiskHeatMapCell[] = [];
+  for (let likelihood = 5; likelihood >= 1; likelihood--) {
+    for (let impact = 1; impact <= 5; impact++) {
+      heatMap.push({
+        likelihood,
+        impact,
+        count: active.filter((r) => r.likelihood === likelihood && r.impact === impact).length,
+      });
+    }
+  }
+
+  const byCategory: Partial<Record<RiskCategory, number>> = {};
+  for (const risk of active) {
+    const category = risk.category as RiskCategory;
+    byCategory[category] = (byCategory[category] ?? 0) + 1;
+  }
+
+  return {
+    entries,
+    heatMap,
+    summary: {
+      active: active.length,
+      highOrCritical: active.filter((r) => r.likelihood * r.impact >= 10).length,
+      reviewOverdue: active.filter((r) => r.nextReviewDate && r.nextReviewDate < now).length,
+      byCategory,
+    },
+    serviceLines: [...serviceLines.masterNames.entries()]
+      .map(([code, name]) => ({ code, name }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Raise a risk manually
+ */
+export async function createRiskEntry(data: CreateRiskEntryInput, user: SessionUser): Promise<RiskRegisterItem> {
+  const owner = await resolveOwner(data.ownerEmpCode);
+
+  const risk = await prisma.riskRegisterEntry.create({
+    data: {
+      title: data.title,
+      description: data.description,
+      category: data.category,
+      source: 'MANUAL',
+      serviceLine: data.serviceLine ?? null,
+      clientId: data.clientId ?? null,
+      taskId: data.taskId ?? null,
+      ...owner,
+      likelihood: data.likelihood,
+      impact: data.impact,
+      nextReviewDate: data.nextReviewDate ?? addDays(new Date(), RISK_REVIEW_INTERVAL_DAYS),
+      createdBy: user.name || user.email,
+    },
+    select: { id: true },
+  });
+
+  return toItem(risk.id);
+}
+
+/**
+ * Update a risk's details, scoring, status or review dates
+ */
+export async function updateRiskEntry(
+  riskId: number,
+  data: UpdateRiskEntryInput,
+  user: SessionUser
+): Promise<RiskRegisterItem> {
+  const existing = await getRiskOrThrow(riskId);
+  const owner = await resolveOwner(data.ownerEmpCode);
+  const now = new Date();
+  const userName = user.name || user.email;
+
+  const closing = data.status === 'CLOSED' && existing.status !== 'CLOSED';
+  const reopening = data.status !== undefined && data.status !== 'CLOSED' && existing.status === 'CLOSED';
+
+  await prisma.riskRegisterEntry.update({
+    where: { id: riskId },
+    data: {
+      title: data.title,
+      description: data.description,
+      category: data.category,
+      status: data.status,
+      serviceLine: data.serviceLine,
+      ...owner,
+      likelihood: data.likelihood,
+      impact: data.impact,
+      ...(data.reviewed
+        ? {
+            lastReviewedAt: now,
+            lastReviewedBy: userName,
+            nextReviewDate: data.nextReviewDate ?? addDays(now, RISK_REVIEW_INTERVAL_DAYS),
+          }
+        : { nextReviewDate: data.nextReviewDate }),
+      ...(closing ? { closedAt: now, closedBy: userName } : {}),
+      ...(reopening ? { closedAt: null, closedBy: null } : {}),
+    },
+  });
+
+  return toItem(riskId);
+}
+
+/**
+ * Delete a manually raised risk
+ * Seeded risks are closed instead so the signal is not seeded again.
+ */
+export async function deleteRiskEntry(riskId: number): Promise<void> {
+  const existing = await getRiskOrThrow(riskId);
+  if (existing.source === 'AUTO') {
+    throw new AppError(400, 'Risks seeded from signals cannot be deleted - close them instead', ErrorCodes.VALIDATION_ERROR);
+  }
+
+  await prisma.riskRegisterEntry.delete({ where: { id: riskId } });
+}
+
+/**
+ * Add a mitigating action to a risk
+ * An open risk moves to MITIGATING once it has an action.
+ */
+export async function addRiskMitigation(
+  riskId: number,
+  data: CreateRiskMitigationInput,
+  user: SessionUser
+): Promise<RiskRegisterItem> {
+  const existing = await getRiskOrThrow(riskId);
+  const owner = await resolveOwner(data.ownerEmpCode);
+
+  await prisma.$transaction([
+    prisma.riskMitigation.create({
+      data: {
+        riskId,
+        action: data.action,
+        ...owner,
+        dueDate: data.dueDate ?? null,
+        createdBy: user.name || user.email,
+      },
+    }),
+    ...(existing.status === 'OPEN'
+      ? [prisma.riskRegisterEntry.update({ where: { id: riskId }, data: { status: 'MITIGATING' } })]
+      : []),
+  ]);
+
+  return toItem(riskId);
+}
+
+async function getMitigationOrThrow(riskId: number, mitigationId: number) {
+  const mitigation = await prisma.riskMitigation.findFirst({
+    where: { id: mitigationId, riskId },
+    select: { id: true, status: true },
+  });
+  if (!mitigation) {
+    throw new AppError(404, 'Mitigation not found', ErrorCodes.NOT_FOUND, { riskId, mitigationId });
+  }
+  return mitigation;
+}
+
+/**
+ * Update a mitigating action
+ */
+export async function updateRiskMitigation(
+  riskId: number,
+  mitigationId: number,
+  data: UpdateRiskMitigationInput
+): Promise<RiskRegisterItem> {
+  const existing = await getMitigationOrThrow(riskId, mitigationId);
+  const owner = await resolveOwner(data.ownerEmpCode);
+
+  const completing = data.status === 'COMPLETED' && existing.status !== 'COMPLETED';
+  const reopening = data.status !== undefined && data.status !== 'COMPLETED' && existing.status === 'COMPLETED';
+
+  await prisma.riskMitigation.update({
+    where: { id: mitigationId },
+    data: {
+      action: data.action,
+      ...owner,
+      dueDate: data.dueDate,
+      status: data.status,
+      ...(completing ? { completedAt: new Date() } : {}),
+      ...(reopening ? { completedAt: null } : {}),
+    },
+  });
+
+  return toItem(riskId);
+}
+
+/**
+ * Remove a mitigating action
+ */
+export async function deleteRiskMitigation(riskId: number, mitigationId: number): Promise<RiskRegisterItem> {
+  await getMitigationOrThrow(riskId, mitigationId);
+  await prisma.riskMitigation.delete({ where: { id: mitigationId } });
+  return toItem(riskId);
+}
+
+// Signals
+
+function clientLabel(client: { clientCode: string; clientNameFull: string | null } | null): string {
+  return client ? `${client.clientNameFull || client.clientCode} (${client.clientCode})` : 'No client';
+}
+
+async function collectAcceptanceSignals(partnerServiceLines: Map<string, string | null>): Promise<RiskSignal[]> {
+  const acceptances = await prisma.clientAcceptance.findMany({
+    where: { riskRating: 'HIGH', approvedAt: { not: null }, Client: { active: 'Yes' } },
+    select: {
+      clientId: true,
+      overallRiskScore: true,
+      Client: { select: { clientCode: true, clientNameFull: true, clientPartner: true } },
+    },
+  });
+
+  return acceptances.map((acceptance) => ({
+    sourceKey: `ACCEPTANCE:${acceptance.clientId}`,
+    category: 'CLIENT_ACCEPTANCE',
+    title: `High-risk client: ${clientLabel(acceptance.Client)}`,
+    description:
+      acceptance.overallRiskScore !== null
+        ? `Client acceptance was approved with a HIGH risk rating (score ${acceptance.overallRiskScore.toFixed(1)}).`
+        : 'Client acceptance was approved with a HIGH risk rating.',
+    serviceLine: partnerServiceLines.get(acceptance.Client.clientPartner) ?? null,
+    clientId: acceptance.clientId,
+    taskId: null,
+    ownerEmpCode: acceptance.Client.clientPartner,
+    likelihood: 3,
+    impact: 4,
+  }));
+}
+
+async function collectIndependenceSignals(serviceLines: ExcoServiceLineMap): Promise<RiskSignal[]> {
+  const unconfirmed: Prisma.TaskTeamWhereInput = {
+    createdAt: { lte: subDays(new Date(), INDEPENDENCE_GRACE_DAYS) },
+    OR: [
+      { TaskIndependenceConfirmation: { is: null } },
+      { TaskIndependenceConfirmation: { is: { confirmed: false } } },
+    ],
+  };
+
+  const tasks = await prisma.task.findMany({
+    where: { Active: 'Yes', TaskTeam: { some: unconfirmed } },
+    select: {
+      id: true,
+      TaskCode: true,
+      TaskDesc: true,
+      TaskPartner: true,
+      ServLineCode: true,
+      Client: { select: { id: true, clientCode: true, clientNameFull: true } },
+      _count: { select: { TaskTeam: { where: unconfirmed } } },
+    },
+  });
+
+  return tasks.map((task) => ({
+    sourceKey: `INDEPENDENCE:${task.id}`,
+    category: 'INDEPENDENCE',
+    title: `Independence not confirmed: ${task.TaskDesc} (${task.TaskCode})`,
+    description: `${task._count.TaskTeam} team member(s) on ${clientLabel(task.Client)} have not confirmed independence ${INDEPENDENCE_GRACE_DAYS} days after joining the task.`,
+    serviceLine: serviceLines.masterByExternal.get(task.ServLineCode) ?? null,
+    clientId: task.Client?.id ?? null,
+    taskId: task.id,
+    ownerEmpCode: task.TaskPartner,
+    likelihood: 3,
+    impact: 5,
+  }));
+}
+
+async function collectEngagementLetterSignals(serviceLines: ExcoServiceLineMap): Promise<RiskSignal[]> {
+  const letters = await prisma.taskEngagementLetter.findMany({
+    where: {
+      Task: { Active: 'Yes' },
+      OR: [
+        { uploaded: true, OR: [{ elHasClientSignature: false }, { elHasPartnerSignature: false }] },
+        {
+          uploaded: false,
+          generated: true,
+          generatedAt: { lte: subDays(new Date(), ENGAGEMENT_LETTER_GRACE_DAYS) },
+        },
+      ],
+    },
+    select: {
+      uploaded: true,
+      elHasClientSignature: true,
+      elHasPartnerSignature: true,
+      Task: {
+        select: {
+          id: true,
+          TaskCode: true,
+          TaskDesc: true,
+          TaskPartner: true,
+          ServLineCode: true,
+          Client: { select: { id: true, clientCode: true, clientNameFull: true } },
+        },
+      },
+    },
+  });
+
+  return letters.map(({ Task: task, ...letter }) => {
+    const missing = [
+      letter.elHasClientSignature === false ? 'client' : null,
+      letter.elHasPartnerSignature === false ? 'partner' : null,
+    ].filter(Boolean);
+
+    return {
+      sourceKey: `ENGAGEMENT_LETTER:${task.id}`,
+      category: 'ENGAGEMENT_LETTER',
+      title: `Unsigned engagement letter: ${task.TaskDesc} (${task.TaskCode})`,
+      description: letter.uploaded
+        ? `The uploaded engagement letter for ${clientLabel(task.Client)} is missing the ${missing.join(' and ')} signature.`
+        : `An engagement letter was generated for ${clientLabel(task.Client)} more than ${ENGAGEMENT_LETTER_GRACE_DAYS} days ago but no signed copy has been uploaded.`,
+      serviceLine: serviceLines.masterByExternal.get(task.ServLineCode) ?? null,
+      clientId: task.Client?.id ?? null,
+      taskId: task.id,
+      ownerEmpCode: task.TaskPartner,
+      likelihood: 3,
+      impact: 3,
+    };
+  });
+}
+
+async function collectFilingSignals(serviceLines: ExcoServiceLineMap): Promise<RiskSignal[]> {
+  const filings = await prisma.filingStatus.findMany({
+    where: {
+      status: { in: OPEN_FILING_STATUSES },
+      deadline: { lt: new Date() },
+      Task: { Active: 'Yes' },
+    },
+    select: {
+      id: true,
+      filingType: true,
+      deadline: true,
+      Task: {
+        select: {
+          id: true,
+          TaskCode: true,
+          TaskDesc: true,
+          TaskPartner: true,
+          ServLineCode: true,
+          Client: { select: { id: true, clientCode: true, clientNameFull: true } },
+        },
+      },
+    },
+  });
+
+  return filings.map((filing) => ({
+    sourceKey: `FILING:${filing.id}`,
+    category: 'FILING_DEADLINE',
+    title: `Overdue filing: ${filing.filingType} - ${filing.Task.TaskDesc} (${filing.Task.TaskCode})`,
+    description: `${filing.filingType} for ${clientLabel(filing.Task.Client)} was due on ${filing.deadline!.toISOString().split('T')[0]} and has not been submitted.`,
+    serviceLine: serviceLines.masterByExternal.get(filing.Task.ServLineCode) ?? null,
+    clientId: filing.Task.Client?.id ?? null,
+    taskId: filing.Task.id,
+    ownerEmpCode: filing.Task.TaskPartner,
+    likelihood: 4,
+    impact: 3,
+  }));
+}
+
+/**
+ * Seed risks from current signals and close seeded risks whose signal cleared
+ * A seeded risk the sync closed is reopened when its signal comes back; one a
+ * user closed stays closed. Each signal has at most one AUTO entry (filtered
+ * unique index on sourceKey).
+ * Run nightly by the 'risk-register-sync' scheduled job and on demand from the
+ * risk register.
+ */
+export async function syncRiskRegister(): Promise<RiskSyncResult> {
+  const serviceLines = await loadServiceLineMap();
+
+  const partners = await prisma.employee.findMany({
+    where: { Active: 'Yes', EmpCatCode: { in: ['CARL', 'LOCAL', 'DIR'] } },
+    select: { EmpCode: true, ServLineCode: true },
+  });
+  const partnerServiceLines = new Map(
+    partners.map((p) => [p.EmpCode, serviceLines.masterByExternal.get(p.ServLineCode) ?? null])
+  );
+
+  const signals = (
+    await Promise.all([
+      collectAcceptanceSignals(partnerServiceLines),
+      collectIndependenceSignals(serviceLines),
+      collectEngagementLetterSignals(serviceLines),
+      collectFilingSignals(serviceLines),
+    ])
+  ).flat();
+
+  const existing = await prisma.riskRegisterEntry.findMany({
+    where: { source: 'AUTO' },
+    select: { id: true, sourceKey: true, status: true, closedBy: true },
+  });
+  const existingKeys = new Set(existing.map((e) => e.sourceKey));
+  const signalKeys = new Set(signals.map((s) => s.sourceKey));
+
+  const newSignals = signals.filter((s) => !existingKeys.has(s.sourceKey));
+
+  const ownerCodes = [...new Set(newSignals.map((s) => s.ownerEmpCode).filter((c): c is string => !!c))];
+  const owners = ownerCodes.length
+    ? await prisma.employee.findMany({
+        where: { EmpCode: { in: ownerCodes } },
+        select: { EmpCode: true, EmpNameFull: true },
+        orderBy: { Active: 'asc' },
+      })
+    : [];
+  // Active rows are read last so they win for re-hired employee codes
+  const ownerNames = new Map(owners.map((o) => [o.EmpCode, o.EmpNameFull]));
+
+  const now = new Date();
+  if (newSignals.length > 0) {
+    await prisma.riskRegisterEntry.createMany({
+      data: newSignals.map((signal) => ({
+        ...signal,
+        source: 'AUTO',
+        ownerName: signal.ownerEmpCode ? ownerNames.get(signal.ownerEmpCode) ?? null : null,
+        nextReviewDate: addDays(now, RISK_REVIEW_INTERVAL_DAYS),
+        createdBy: SYSTEM_USER,
+      })),
+    });
+  }
+
+  const reopenedIds = existing
+    .filter((e) => e.status === 'CLOSED' && e.closedBy === SYSTEM_USER && e.sourceKey && signalKeys.has(e.sourceKey))
+    .map((e) => e.id);
+
+  if (reopenedIds.length > 0) {
+    await prisma.riskRegisterEntry.updateMany({
+      where: { id: { in: reopenedIds } },
+      data: {
+        status: 'OPEN',
+        closedAt: null,
+        closedBy: null,
+        nextReviewDate: addDays(now, RISK_REVIEW_INTERVAL_DAYS),
+      },
+    });
+  }
+
+  const clearedIds = existing
+    .filter((e) => e.status !== 'CLOSED' && e.sourceKey && !signalKeys.has(e.sourceKey))
+    .map((e) => e.id);
+
+  if (clearedIds.length > 0) {
+    await prisma.riskRegisterEntry.updateMany({
+      where: { id: { in: clearedIds } },
+      data: { status: 'CLOSED', closedAt: now, closedBy: SYSTEM_USER },
+    });
+  }
+
+  const result = { created: newSignals.length, reopened: reopenedIds.length, closed: clearedIds.length };
+  logger.info('Risk register synced', { ...result, signals: signals.length });
+  return result;
+}
@@ -0,0 +1,204 @@
+/**
+ * Sector Analysis
+ *
+ * Fees billed (WIP fee transactions, TType 'F') by client industry or sector
+ * for a fiscal period against the same period in the prior fiscal year, with
+ * the fee mix over the last five fiscal years.
+ *
+ * Clients are classified by their forvis mazars industry / sector where set,
+ * otherwise by the practice system's. Drilling into an industry breaks it
+ * down by sector.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import { getFiscalYear, getFiscalYearRange } from '@/lib/utils/fiscalPeriod';
+import type { ExcoPeriodFilter, SectorAnalysisReport, SectorDimension, SectorRow, SectorTrendYear } from '@/types/exco';
+import { percentage, REPORT_CACHE_TTL, round } from './excoMath';
+import { getExcoFiscalYears, resolveExcoPeriod } from './excoPeriod';
+
+const TREND_YEARS = 5;
+/** Sectors charted individually in the trend - the rest are 'Other' */
+const TREND_SERIES = 6;
+const OTHER_SERIES = 'Other';
+
+const SECTOR_COLUMNS: Record<SectorDimension, Prisma.Sql> = {
+  industry: Prisma.raw(`COALESCE(NULLIF(c.forvisMazarsIndustry, ''), NULLIF(c.industry, ''), 'Unclassified')`),
+  sector: Prisma.raw(`COALESCE(NULLIF(c.forvisMazarsSector, ''), NULLIF(c.sector, ''), 'Unclassified')`),
+};
+
+interface SectorClientRow {
+  label: string;
+  clientCode: string;
+  clientNameFull: string | null;
+  fees: unknown;
+  priorFees: unknown;
+}
+
+interface SectorMonthRow {
+  label: string;
+  year: number;
+  month: number;
+  fees: unknown;
+}
+
+function growth(current: number, prior: number): number | null {
+  return prior > 0 ? Math.round(((current - prior) / prior) * 1000) / 10 : null;
+}
+
+/**
+ * Build the sector analysis for a fiscal period
+ *
+ * @param dimension - Classify clients by industry or sector
+ * @param industry - Industry to drill into; rows are then its sectors
+ */
+export async function getSectorAnalysis(
+  filter: ExcoPeriodFilter,
+  dimension: SectorDimension,
+  industry?: string
+): Promise<SectorAnalysisReport> {
+  const effectiveDimension: SectorDimension = industry ? 'sector' : dimension;
+  const cacheKey = `${CACHE_PREFIXES.ANALYTICS}exco:sector-analysis:${filter.fiscalYear}:${filter.fiscalQuarter ?? ''}:${filter.fiscalMonth ?? ''}:${effectiveDimension}:${industry ?? ''}`;
+  const cached = await cache.get<SectorAnalysisReport>(cacheKey);
+  if (cached) return cached;
+
+  const [period, comparisonPeriod, fiscalYears] = await Promise.all([
+    resolveExcoPeriod(filter),
+    resolveExcoPeriod({ ...filter, fiscalYear: filter.fiscalYear - 1 }),
+    getExcoFiscalYears(),
+  ]);
+
+  const column = SECTOR_COLUMNS[effectiveDimension];
+  const industryFilter = industry ? Prisma.sql`AND ${SECTOR_COLUMNS.industry} = ${industry}` : Prisma.empty;
+
+  const start = new Date(period.startDate);
+  const asOf = new Date(period.asOfDate);
+  const priorStart = new Date(comparisonPeriod.startDate);
+  const priorEnd = new Date(comparisonPeriod.endDate);
+
+  // Sequential to keep the transaction scans off each other
+  const clientRows = await prisma.$queryRaw<SectorClientRow[]>`
+    SELECT
+      ${column} AS label,
+      c.clientCode,
+      c.clientNameFull,
+      SUM(CASE WHEN w.TranDate >= ${start} THEN ISNULL(w.Amount, 0) ELSE 0 END) AS fees,
+      SUM(CASE WHEN w.TranDate <= ${priorEnd} THEN ISNULL(w.Amount, 0) ELSE 0 END) AS priorFees
+    FROM WIPTransactions w
+    INNER JOIN Client c ON c.GSClientID = w.GSClientID
+    WHERE w.TType = 'F'
+      AND (
+        (w.TranDate >= ${start} AND w.TranDate <= ${asOf})
+        OR (w.TranDate >= ${priorStart} AND w.TranDate <= ${priorEnd})
+      )
+      ${industryFilter}
+    GROUP BY ${column}, c.clientCode, c.clientNameFull
+  `;
+
+  const trendStart = getFiscalYearRange(filter.fiscalYear - (TREND_YEARS - 1)).start;
+  const trendEnd = new Date(Math.min(getFiscalYearRange(filter.fiscalYear).end.getTime(), Date.now()));
+  const monthRows = await prisma.$queryRaw<SectorMonthRow[]>`
+    SELECT
+      ${column} AS label,
+      YEAR(w.TranDate) AS year,
+      MONTH(w.TranDate) AS month,
+      SUM(ISNULL(w.Amount, 0)) AS fees
+    FROM WIPTransactions w
+    INNER JOIN Client c ON c.GSClientID = w.GSClientID
+    WHERE w.TType = 'F'
+      AND w.TranDate >= ${trendStart}
+      AND w.TranDate <= ${trendEnd}
+      ${industryFilter}
+    GROUP BY ${column}, YEAR(w.TranDate), MONTH(w.TranDate)
+  `;
+
+  // Period comparison by sector
+  const sectors = new Map<
+    string,
+    { fees: number; priorFees: number; clients: number; priorClients: number; largest: { name: string; fees: number } | null }
+  >();
+  for (const row of clientRows) {
+    const fees = Number(row.fees);
+    const priorFees = Number(row.priorFees);
+    let sector = sectors.get(row.label);
+    if (!sector) {
+      sector = { fees: 0, priorFees: 0, clients: 0, priorClients: 0, largest: null };
+      sectors.set(row.label, sector);
+    }
+    sector.fees += fees;
+    sector.priorFees += priorFees;
+    if (fees > 0) sector.clients += 1;
+    if (priorFees > 0) sector.priorClients += 1;
+    if (fees > (sector.largest?.fees ?? 0)) {
+      sector.largest = { name: row.clientNameFull ?? row.clientCode, fees };
+    }
+  }
+
+  const totalFees = [...sectors.values()].reduce((sum, s) => sum + s.fees, 0);
+  const totalPriorFees = [...sectors.values()].reduce((sum, s) => sum + s.priorFees, 0);
+
+  const rows: SectorRow[] = [...sectors.entries()]
+    .map(([label, s]) => ({
+      label,
+      fees: round(s.fees),
+      sharePercent: percentage(s.fees, totalFees),
+      priorFees: round(s.priorFees),
+      growthPercent: growth(s.fees, s.priorFees),
+      clientCount: s.clients,
+      priorClientCount: s.priorClients,
+      largestClientName: s.largest?.name ?? null,
+      largestClientSharePercent: s.largest ? percentage(s.largest.fees, s.fees) : 0,
+    }))
+    .sort((a, b) => b.fees - a.fees || b.priorFees - a.priorFees);
+
+  // Fee mix by fiscal year
+  const trendSeries = rows
+    .filter((r) => r.fees > 0)
+    .slice(0, TREND_SERIES)
+    .map((r) => r.label);
+  const charted = new Set(trendSeries);
+
+  const years = new Map<number, Map<string, number>>();
+  for (let fy = filter.fiscalYear - (TREND_YEARS - 1); fy <= filter.fiscalYear; fy++) {
+    years.set(fy, new Map());
+  }
+  for (const row of monthRows) {
+    const fiscalYear = getFiscalYear(new Date(row.year, row.month - 1, 1));
+    const year = years.get(fiscalYear);
+    if (!year) continue;
+    const series = charted.has(row.label) ? row.label : OTHER_SERIES;
+    year.set(series, (year.get(series) ?? 0) + Number(row.fees));
+  }
+
+  const trend: SectorTrendYear[] = [...years.entries()].map(([fiscalYear, fees]) => {
+    const yearTotal = [...fees.values()].reduce((sum, f) => sum + f, 0);
+    const shares: Record<string, number> = {};
+    for (const series of [...trendSeries, OTHER_SERIES]) {
+      shares[series] = percentage(fees.get(series) ?? 0, yearTotal);
+    }
+    return { fiscalYear, label: `FY${fiscalYear}`, totalFees: round(yearTotal), shares };
+  });
+
+  const hasOther = trend.some((year) => (year.shares[OTHER_SERIES] ?? 0) > 0);
+
+  const report: SectorAnalysisReport = {
+    period,
+    comparisonPeriod,
+    dimension: effectiveDimension,
+    industry: industry ?? null,
+    totals: {
+      fees: round(totalFees),
+      priorFees: round(totalPriorFees),
+      growthPercent: growth(totalFees, totalPriorFees),
+      clientCount: rows.reduce((sum, r) => sum + r.clientCount, 0),
+    },
+    rows,
+    trendSeries: hasOther ? [...trendSeries, OTHER_SERIES] : trendSeries,
+    trend,
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
@@ -0,0 +1,404 @@
+/**
+ * Service Line Performance League Table
+ *
+ * Ranks master service lines, or sub-service-line groups
+ * (ServiceLineExternal.SubServlineGroupCode), for a fiscal period and
+ * compares each metric with the same period in the prior fiscal year:
+ * - Net revenue: WIP time and adjustments, as in My Reports
+ * - Margin: net revenue less cost over net revenue
+ * - Recoverability: debtor receipts in the period over the opening debtors
+ *   balance, as in the partner scorecards
+ * - Utilization: chargeable over available hours of the employees in the
+ *   service line, as in the utilization report
+ * - Lock-up: WIP days + debtor days at the period end, as in the working
+ *   capital report
+ * - Review note turnaround: average days from raising to clearing for notes
+ *   cleared in the period, by task service line
+ *
+ * Each metric is ranked (1 is best) and rows are ordered on the average of
+ * their ranks. Rows carry a monthly trend of revenue, margin and lock-up for
+ * the 12 months to the period end.
+ */
+
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import {
+  LEAGUE_METRICS,
+  type ExcoPeriodFilter,
+  type LeagueLevel,
+  type LeagueMetric,
+  type LeagueMetricValue,
+  type LeagueTableRow,
+  type LeagueTrendPoint,
+  type LockupMetrics,
+  type ServiceLineLeagueReport,
+} from '@/types/exco';
+import { num, percentage, REPORT_CACHE_TTL, round } from './excoMath';
+import { getExcoFiscalYears, resolveExcoPeriod } from './excoPeriod';
+import { loadServiceLineMap, serviceLineName, UNMAPPED_SERVICE_LINE } from './excoServiceLines';
+import { loadServiceLineLockup, sumLockupMetrics } from './lockupReport';
+import { loadEmployeeUtilization } from './utilizationReport';
+
+const TREND_MONTHS = 12;
+
+interface WipMonthRow {
+  ServLineCode: string;
+  month: Date;
+  revenue: unknown;
+  cost: unknown;
+}
+
+interface DebtorRow {
+  ServLineCode: string;
+  openingBalance: unknown;
+  receipts: unknown;
+  priorOpeningBalance: unknown;
+  priorReceipts: unknown;
+}
+
+interface ReviewNoteRow {
+  ServLineCode: string;
+  clearedCount: number;
+  clearedDays: number | null;
+  priorClearedCount: number;
+  priorClearedDays: number | null;
+}
+
+interface UnitFigures {
+  revenue: number;
+  cost: number;
+  openingDebtors: number;
+  receipts: number;
+  chargeableHours: number;
+  availableHours: number;
+  employees: number;
+  lockup: LockupMetrics[];
+  clearedNotes: number;
+  clearedDays: number;
+}
+
+interface Unit {
+  name: string;
+  parentName: string | null;
+  current: UnitFigures;
+  prior: UnitFigures;
+  months: Map<string, { revenue: number; cost: number; lockup: LockupMetrics[] }>;
+}
+
+function emptyFigures(): UnitFigures {
+  return {
+    revenue: 0,
+    cost: 0,
+    openingDebtors: 0,
+    receipts: 0,
+    chargeableHours: 0,
+    availableHours: 0,
+    employees: 0,
+    lockup: [],
+    clearedNotes: 0,
+    clearedDays: 0,
+  };
+}
+
+function margin(revenue: number, cost: number): number | null {
+  return revenue > 0 ? percentage(revenue - cost, revenue) : null;
+}
+
+function metricValues(figures: UnitFigures): Record<LeagueMetric, number | null> {
+  return {
+    revenue: round(figures.revenue),
+    margin: margin(figures.revenue, figures.cost),
+    recoverability: figures.openingDebtors > 0 ? percentage(figures.receipts, figures.openingDebtors) : null,
+    utilization: figures.employees > 0 ? percentage(figures.chargeableHours, figures.availableHours) : null,
+    lockup: figures.lockup.length > 0 ? sumLockupMetrics(figures.lockup).lockupDays : null,
+    reviewTurnaround: figures.clearedNotes > 0 ? Math.round((figures.clearedDays / figures.clearedNotes) * 10) / 10 : null,
+  };
+}
+
+function compare(metric: LeagueMetric, value: number | null, prior: number | null): LeagueMetricValue {
+  let delta: number | null = null;
+  if (value !== null && prior !== null) {
+    if (metric === 'revenue') delta = prior > 0 ? Math.round(((value - prior) / prior) * 1000) / 10 : null;
+    else delta = Math.round((value - prior) * 10) / 10;
+  }
+  return { value, prior, delta, rank: null };
+}
+
+/**
+ * Rank each metric across rows, then order rows on their average rank
+ */
+function rankRows(rows: LeagueTableRow[]): LeagueTableRow[] {
+  for (const metric of Object.keys(LEAGUE_METRICS) as LeagueMetric[]) {
+    const { higherIsBetter } = LEAGUE_METRICS[metric];
+    const ranked = rows
+      .filter((row) => row.metrics[metric].value !== null)
+      .sort((a, b) => {
+        const diff = a.metrics[metric].value! - b.metrics[metric].value!;
+        return higherIsBetter ? -diff : diff;
+      });
+
+    // Equal values share a rank
+    ranked.forEach((row, index) => {
+      const previous = ranked[index - 1];
+      row.metrics[metric].rank =
+        previous && previous.metrics[metric].value === row.metrics[metric].value
+          ? previous.metrics[metric].rank
+          : index + 1;
+    });
+  }
+
+  for (const row of rows) {
+    const ranks = Object.values(row.metrics)
+      .map((m) => m.rank)
+      .filter((rank): rank is number => rank !== null);
+    row.averageRank = ranks.length > 0 ? Math.round((ranks.reduce((sum, r) => sum + r, 0) / ranks.length) * 10) / 10 : null;
+  }
+
+  return rows
+    .sort(
+      (a, b) =>
+        (a.averageRank ?? Infinity) - (b.averageRank ?? Infinity) ||
+        (b.metrics.revenue.value ?? 0) - (a.metrics.revenue.value ?? 0)
+    )
+    .map((row, index) => ({ ...row, rank: index + 1 }));
+}
+
+/**
+ * Build the service line league table for a fiscal period
+ *
+ * @param filter - Fiscal period
+ * @param level - Rank master service lines or sub-service-line groups
+ */
+export async function getServiceLineLeague(
+  filter: ExcoPeriodFilter,
+  level: LeagueLevel
+): Promise<ServiceLineLeagueReport> {
+  const cacheKey = `${CACHE_PREFIXES.ANALYTICS}exco:service-line-league:${filter.fiscalYear}:${filter.fiscalQuarter ?? ''}:${filter.fiscalMonth ?? ''}:${level}`;
+  const cached = await cache.get<ServiceLineLeagueReport>(cacheKey);
+  if (cached) return cached;
+
+  const [period, comparisonPeriod, fiscalYears, serviceLineMap, externals] = await Promise.all([
+    resolveExcoPeriod(filter),
+    resolveExcoPeriod({ ...filter, fiscalYear: filter.fiscalYear - 1 }),
+    getExcoFiscalYears(),
+    loadServiceLineMap(),
+    prisma.serviceLineExternal.findMany({
+      where: { ServLineCode: { not: null } },
+      select: { ServLineCode: true, masterCode: true, SubServlineGroupCode: true, SubServlineGroupDesc: true },
+    }),
+  ]);
+
+  const start = new Date(period.startDate);
+  const asOf = new Date(period.asOfDate);
+  const priorStart = new Date(comparisonPeriod.startDate);
+  const priorEnd = new Date(comparisonPeriod.endDate);
+  const trendStart = startOfMonth(subMonths(asOf, TREND_MONTHS - 1));
+  const windowStart = priorStart < trendStart ? priorStart : trendStart;
+
+  // External service line code -> league unit
+  const unitByExternal = new Map<string, { key: string; name: string; parentName: string | null }>();
+  for (const external of externals) {
+    const masterCode = external.masterCode ?? UNMAPPED_SERVICE_LINE;
+    if (level === 'serviceLine') {
+      unitByExternal.set(external.ServLineCode!, {
+        key: masterCode,
+        name: serviceLineName(serviceLineMap, masterCode),
+        parentName: null,
+      });
+    } else if (external.SubServlineGroupCode) {
+      unitByExternal.set(external.ServLineCode!, {
+        key: external.SubServlineGroupCode,
+        name: external.SubServlineGroupDesc || external.SubServlineGroupCode,
+        parentName: serviceLineName(serviceLineMap, masterCode),
+      });
+    }
+  }
+
+  const units = new Map<string, Unit>();
+  const unitFor = (servLineCode: string): Unit => {
+    const mapped = unitByExternal.get(servLineCode) ?? { key: UNMAPPED_SERVICE_LINE, name: 'Unmapped', parentName: null };
+    let unit = units.get(mapped.key);
+    if (!unit) {
+      unit = { name: mapped.name, parentName: mapped.parentName, current: emptyFigures(), prior: emptyFigures(), months: new Map() };
+      units.set(mapped.key, unit);
+    }
+    return unit;
+  };
+  const unitMonth = (unit: Unit, month: string) => {
+    let figures = unit.months.get(month);
+    if (!figures) {
+      figures = { revenue: 0, cost: 0, lockup: [] };
+      unit.months.set(month, figures);
+    }
+    return figures;
+  };
+
+  const inCurrent = (date: Date) => date >= startOfMonth(start) && date <= asOf;
+  const inPrior = (date: Date) => date >= startOfMonth(priorStart) && date <= priorEnd;
+  const trendMonths = Array.from({ length: TREND_MONTHS }, (_, i) => format(subMonths(asOf, TREND_MONTHS - 1 - i), 'yyyy-MM'));
+
+  // Sequential to keep the transaction scans off each other
+  const wipMonths = await prisma.$queryRaw<WipMonthRow[]>`
+    SELECT
+      TaskServLine AS ServLineCode,
+      DATEFROMPARTS(YEAR(TranDate), MONTH(TranDate), 1) AS month,
+      SUM(CASE WHEN TType IN ('T', 'ADJ') THEN ISNULL(Amount, 0) ELSE 0 END) AS revenue,
+      SUM(CASE WHEN TType != 'P' THEN ISNULL(Cost, 0) ELSE 0 END) AS cost
+    FROM WIPTransactions
+    WHERE TranDate >= ${windowStart}
+      AND TranDate <= ${asOf}
+    GROUP BY TaskServLine, DATEFROMPARTS(YEAR(TranDate), MONTH(TranDate), 1)
+  `;
+  const debtors = await prisma.$queryRaw<DebtorRow[]>`
+    SELECT
+      ServLineCode,
+      SUM(CASE WHEN TranDate < ${start} THEN ISNULL(Total, 0) ELSE 0 END) AS openingBalance,
+      SUM(CASE WHEN TranDate >= ${start} AND Total < 0 THEN -Total ELSE 0 END) AS receipts,
+      SUM(CASE WHEN TranDate < ${priorStart} THEN ISNULL(Total, 0) ELSE 0 END) AS priorOpeningBalance,
+      SUM(CASE WHEN TranDate >= ${priorStart} AND TranDate <= ${priorEnd} AND Total < 0 THEN -Total ELSE 0 END) AS priorReceipts
+    FROM DrsTransactions
+    WHERE TranDate <= ${asOf}
+    GROUP BY ServLineCode
+  `;
+  const lockup = await loadServiceLineLockup(windowStart, asOf);
+  const reviewNotes = await prisma.$queryRaw<ReviewNoteRow[]>`
+    SELECT
+      t.ServLineCode,
+      SUM(CASE WHEN rn.clearedAt >= ${start} THEN 1 ELSE 0 END) AS clearedCount,
+      SUM(CASE WHEN rn.clearedAt >= ${start} THEN DATEDIFF(day, rn.createdAt, rn.clearedAt) ELSE 0 END) AS clearedDays,
+      SUM(CASE WHEN rn.clearedAt <= ${priorEnd} THEN 1 ELSE 0 END) AS priorClearedCount,
+      SUM(CASE WHEN rn.clearedAt <= ${priorEnd} THEN DATEDIFF(day, rn.createdAt, rn.clearedAt) ELSE 0 END) AS priorClearedDays
+    FROM ReviewNote rn
+    INNER JOIN Task t ON t.id = rn.taskId
+    WHERE rn.clearedAt IS NOT NULL
+      AND (
+        (rn.clearedAt >= ${start} AND rn.clearedAt <= ${asOf})
+        OR (rn.clearedAt >= ${priorStart} AND rn.clearedAt <= ${priorEnd})
+      )
+    GROUP BY t.ServLineCode
+  `;
+  const utilization = await loadEmployeeUtilization(period, serviceLineMap);
+  const priorUtilization = await loadEmployeeUtilization(comparisonPeriod, serviceLineMap);
+
+  for (const row of wipMonths) {
+    const unit = unitFor(row.ServLineCode);
+    const revenue = num(row.revenue);
+    const cost = num(row.cost);
+    if (inCurrent(row.month)) {
+      unit.current.revenue += revenue;
+      unit.current.cost += cost;
+    }
+    if (inPrior(row.month)) {
+      unit.prior.revenue += revenue;
+      unit.prior.cost += cost;
+    }
+    const month = format(row.month, 'yyyy-MM');
+    if (trendMonths.includes(month)) {
+      const figures = unitMonth(unit, month);
+      figures.revenue += revenue;
+      figures.cost += cost;
+    }
+  }
+
+  for (const row of debtors) {
+    const unit = unitFor(row.ServLineCode);
+    unit.current.openingDebtors += num(row.openingBalance);
+    unit.current.receipts += num(row.receipts);
+    unit.prior.openingDebtors += num(row.priorOpeningBalance);
+    unit.prior.receipts += num(row.priorReceipts);
+  }
+
+  // Lock-up months are month-end dates
+  const closingMonth = format(asOf, 'yyyy-MM');
+  const priorClosingMonth = format(priorEnd, 'yyyy-MM');
+  for (const row of lockup) {
+    const unit = unitFor(row.servLineCode);
+    const month = row.month.slice(0, 7);
+    if (month === closingMonth) unit.current.lockup.push(row.metrics);
+    if (month === priorClosingMonth) unit.prior.lockup.push(row.metrics);
+    if (trendMonths.includes(month)) unitMonth(unit, month).lockup.push(row.metrics);
+  }
+
+  for (const row of reviewNotes) {
+    const unit = unitFor(row.ServLineCode);
+    unit.current.clearedNotes += Number(row.clearedCount);
+    unit.current.clearedDays += Number(row.clearedDays ?? 0);
+    unit.prior.clearedNotes += Number(row.priorClearedCount);
+    unit.prior.clearedDays += Number(row.priorClearedDays ?? 0);
+  }
+
+  for (const [figures, employees] of [
+    ['current', utilization],
+    ['prior', priorUtilization],
+  ] as const) {
+    for (const { servLineCode, employee } of employees) {
+      const unit = unitFor(servLineCode)[figures];
+      unit.chargeableHours += employee.chargeableHours;
+      unit.availableHours += employee.availableHours;
+      unit.employees += 1;
+    }
+  }
+
+  const toMetrics = (current: UnitFigures, prior: UnitFigures) => {
+    const values = metricValues(current);
+    const priorValues = metricValues(prior);
+    return Object.fromEntries(
+      (Object.keys(LEAGUE_METRICS) as LeagueMetric[]).map((metric) => [
+        metric,
+        compare(metric, values[metric], priorValues[metric]),
+      ])
+    ) as Record<LeagueMetric, LeagueMetricValue>;
+  };
+
+  const rows: LeagueTableRow[] = [...units.entries()]
+    .filter(([, unit]) => unit.current.revenue !== 0 || unit.current.lockup.length > 0 || unit.current.employees > 0)
+    .map(([key, unit]) => ({
+      key,
+      name: unit.name,
+      parentName: unit.parentName,
+      rank: 0,
+      averageRank: null,
+      metrics: toMetrics(unit.current, unit.prior),
+      trend: trendMonths.map((month): LeagueTrendPoint => {
+        const figures = unit.months.get(month);
+        return {
+          month,
+          label: format(new Date(`${month}-01T00:00:00`), 'MMM yy'),
+          revenue: round(figures?.revenue ?? 0),
+          margin: figures ? margin(figures.revenue, figures.cost) : null,
+          lockup: figures && figures.lockup.length > 0 ? sumLockupMetrics(figures.lockup).lockupDays : null,
+        };
+      }),
+    }));
+
+  const firm = { current: emptyFigures(), prior: emptyFigures() };
+  for (const unit of units.values()) {
+    for (const side of ['current', 'prior'] as const) {
+      const target = firm[side];
+      const source = unit[side];
+      target.revenue += source.revenue;
+      target.cost += source.cost;
+      target.openingDebtors += source.openingDebtors;
+      target.receipts += source.receipts;
+      target.chargeableHours += source.chargeableHours;
+      target.availableHours += source.availableHours;
+      target.employees += source.employees;
+      target.lockup.push(...source.lockup);
+      target.clearedNotes += source.clearedNotes;
+      target.clearedDays += source.clearedDays;
+    }
+  }
+
+  const report: ServiceLineLeagueReport = {
+    period,
+    comparisonPeriod,
+    level,
+    rows: rankRows(rows),
+    totals: toMetrics(firm.current, firm.prior),
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
@@ -0,0 +1,325 @@
+/**
+ * Staff Performance Analytics
+ *
+ * Per-employee metrics for a fiscal period:
+ * - Chargeable and available hours as in the utilization report
+ * - Task roles and planned vs actual hours from TaskTeam assignments that
+ *   overlap the period (undated assignments count while the task is active)
+ * - Review notes assigned to the employee: raised in the period, per 100
+ *   chargeable hours, and average days to ADDRESSED
+ *
+ * Each employee is compared with the firm-wide average for their grade
+ * (EmpCatCode). Employees are matched to their user account through
+ * Employee.WinLogon, as in the budget forecast team rates.
+ *
+ * Rows are only returned to the employee's leaders: members of a leader
+ * group that leads the employee's master service line (assigned to the group
+ * on the admin Leaders page). Groups that lead Country Management see every
+ * service line.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import type { SessionUser } from '@/lib/services/auth/types';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import type {
+  ExcoFiscalYearOption,
+  ExcoPeriodFilter,
+  ExcoReportPeriod,
+  StaffGradeBenchmark,
+  StaffPeerMetric,
+  StaffPerformanceMetrics,
+  StaffPerformanceReport,
+  StaffPerformanceRow,
+} from '@/types/exco';
+import { num, percentage, REPORT_CACHE_TTL, round } from './excoMath';
+import { getExcoFiscalYears, resolveExcoPeriod } from './excoPeriod';
+import { loadServiceLineMap, serviceLineName, type ExcoServiceLineMap } from './excoServiceLines';
+import { loadEmployeeUtilization } from './utilizationReport';
+
+const FIRM_WIDE_SERVICE_LINE = 'COUNTRY_MANAGEMENT';
+const PEER_METRICS: StaffPeerMetric[] = ['utilization', 'planVariance', 'reviewNoteRate', 'addressTurnaroundDays'];
+
+interface TeamRoleRow {
+  EmpCode: string;
+  role: string;
+  taskCount: number;
+  allocatedHours: unknown;
+  actualHours: unknown;
+}
+
+interface ReviewNoteRow {
+  EmpCode: string;
+  raisedCount: number;
+  addressedCount: number;
+  addressedDays: number | null;
+}
+
+interface StaffTotals {
+  chargeableHours: number;
+  availableHours: number;
+  allocatedHours: number;
+  actualHours: number;
+  reviewNotesRaised: number;
+  reviewNotesAddressed: number;
+  addressedDays: number;
+}
+
+interface FirmStaffPerformance {
+  period: ExcoReportPeriod;
+  employees: StaffPerformanceRow[];
+  grades: StaffGradeBenchmark[];
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+function emptyTotals(): StaffTotals {
+  return {
+    chargeableHours: 0,
+    availableHours: 0,
+    allocatedHours: 0,
+    actualHours: 0,
+    reviewNotesRaised: 0,
+    reviewNotesAddressed: 0,
+    addressedDays: 0,
+  };
+}
+
+function toMetrics(totals: StaffTotals): StaffPerformanceMetrics {
+  return {
+    chargeableHours: round(totals.chargeableHours),
+    availableHours: round(totals.availableHours),
+    utilization: percentage(totals.chargeableHours, totals.availableHours),
+    allocatedHours: round(totals.allocatedHours),
+    actualHours: round(totals.actualHours),
+    planVariance:
+      totals.allocatedHours > 0 ? Math.round((totals.actualHours / totals.allocatedHours - 1) * 1000) / 10 : null,
+    reviewNotesRaised: totals.reviewNotesRaised,
+    reviewNoteRate:
+      totals.chargeableHours > 0 ? Math.round((totals.reviewNotesRaised / totals.chargeableHours) * 100 * 10) / 10 : null,
+    addressTurnaroundDays:
+      totals.reviewNotesAddressed > 0 ? Math.round((totals.addressedDays / totals.reviewNotesAddressed) * 10) / 10 : null,
+  };
+}
+
+/**
+ * Resolve the master service lines a user leads: those linked to any leader
+ * group the user's employee record belongs to
+ * Throws 403 unless the user is a leader group member (or system admin) whose
+ * groups lead at least one service line
+ */
+async function resolveLeaderScope(user: SessionUser): Promise<{ allServiceLines: boolean; masterCodes: string[] }> {
+  if (user.systemRole === 'SYSTEM_ADMIN') {
+    return { allServiceLines: true, masterCodes: [] };
+  }
+
+  const groups = await prisma.leaderGroup.findMany({
+    where: { LeaderGroupMember: { some: { Employee: { WinLogon: user.email } } } },
+    select: { LeaderGroupServiceLine: { select: { masterCode: true } } },
+  });
+  if (groups.length === 0) {
+    throw new AppError(403, 'Staff performance is only available to leader group members', ErrorCodes.FORBIDDEN);
+  }
+
+  const masterCodes = [...new Set(groups.flatMap((g) => g.LeaderGroupServiceLine.map((sl) => sl.masterCode)))];
+  if (masterCodes.length === 0) {
+    throw new AppError(
+      403,
+      'Your leader groups do not lead any service lines. Ask an administrator to assign them on the Leaders page',
+      ErrorCodes.FORBIDDEN
+    );
+  }
+
+  return { allServiceLines: masterCodes.includes(FIRM_WIDE_SERVICE_LINE), masterCodes };
+}
+
+/**
+ * Build every employee's metrics and the grade benchmarks for a period
+ * Cached firm-wide - leader scoping is applied per request
+ */
+async function loadFirmStaffPerformance(
+  filter: ExcoPeriodFilter,
+  serviceLineMap: ExcoServiceLineMap
+): Promise<FirmStaffPerformance> {
+  const cacheKey = `${CACHE_PREFIXES.ANALYTICS}exco:staff-performance:${filter.fiscalYear}:${filter.fiscalQuarter ?? ''}:${filter.fiscalMonth ?? ''}`;
+  const cached = await cache.get<FirmStaffPerformance>(cacheKey);
+  if (cached) return cached;
+
+  const [period, fiscalYears] = await Promise.all([resolveExcoPeriod(filter), getExcoFiscalYears()]);
+  const start = new Date(period.startDate);
+  const end = new Date(period.endDate);
+  const asOf = new Date(period.asOfDate);
+
+  // Sequential to keep the timesheet and review note scans off each other
+  const utilization = await loadEmployeeUtilization(period, serviceLineMap);
+  const teamRoles = await prisma.$queryRaw<TeamRoleRow[]>`
+    SELECT
+      e.EmpCode,
+      tt.role,
+      COUNT(*) AS taskCount,
+      SUM(ISNULL(tt.allocatedHours, 0)) AS allocatedHours,
+      SUM(CASE WHEN tt.allocatedHours IS NOT NULL THEN ISNULL(tt.actualHours, 0) ELSE 0 END) AS actualHours
+    FROM TaskTeam tt
+    INNER JOIN Task t ON t.id = tt.taskId
+    INNER JOIN [User] u ON u.id = tt.userId
+    INNER JOIN (
+      SELECT WinLogon, MAX(EmpCode) AS EmpCode
+      FROM Employee
+      WHERE WinLogon IS NOT NULL
+      GROUP BY WinLogon
+    ) e ON e.WinLogon = u.email
+    WHERE (
+      (tt.startDate IS NOT NULL AND tt.startDate <= ${end} AND (tt.endDate IS NULL OR tt.endDate >= ${start}))
+      OR (tt.startDate IS NULL AND t.Active = 'Yes')
+    )
+    GROUP BY e.EmpCode, tt.role
+  `;
+  const reviewNotes = await prisma.$queryRaw<ReviewNoteRow[]>`
+    SELECT
+      e.EmpCode,
+      SUM(CASE WHEN rn.createdAt >= ${start} AND rn.createdAt <= ${asOf} THEN 1 ELSE 0 END) AS raisedCount,
+      SUM(CASE WHEN rn.addressedAt >= ${start} AND rn.addressedAt <= ${asOf} THEN 1 ELSE 0 END) AS addressedCount,
+      SUM(CASE WHEN rn.addressedAt >= ${start} AND rn.addressedAt <= ${asOf} THEN DATEDIFF(day, rn.createdAt, rn.addressedAt) ELSE 0 END) AS addressedDays
+    FROM ReviewNote rn
+    INNER JOIN [User] u ON u.id = rn.assignedTo
+    INNER JOIN (
+      SELECT WinLogon, MAX(EmpCode) AS EmpCode
+      FROM Employee
+      WHERE WinLogon IS NOT NULL
+      GROUP BY WinLogon
+    ) e ON e.WinLogon = u.email
+    WHERE (rn.createdAt >= ${start} AND rn.createdAt <= ${asOf})
+      OR (rn.addressedAt >= ${start} AND rn.addressedAt <= ${asOf})
+    GROUP BY e.EmpCode
+  `;
+
+  const rolesByEmp = new Map<string, { roles: Record<string, number>; allocatedHours: number; actualHours: number }>();
+  for (const row of teamRoles) {
+    const entry = rolesByEmp.get(row.EmpCode) ?? { roles: {}, allocatedHours: 0, actualHours: 0 };
+    entry.roles[row.role] = (entry.roles[row.role] ?? 0) + Number(row.taskCount);
+    entry.allocatedHours += num(row.allocatedHours);
+    entry.actualHours += num(row.actualHours);
+    rolesByEmp.set(row.EmpCode, entry);
+  }
+  const notesByEmp = new Map(reviewNotes.map((r) => [r.EmpCode, r]));
+
+  const gradeTotals = new Map<string, { gradeDesc: string; employeeCount: number; totals: StaffTotals }>();
+  const employees: Array<{ row: StaffPerformanceRow; totals: StaffTotals }> = [];
+
+  for (const { employee } of utilization) {
+    const roles = rolesByEmp.get(employee.empCode);
+    const notes = notesByEmp.get(employee.empCode);
+    const totals: StaffTotals = {
+      chargeableHours: employee.chargeableHours,
+      availableHours: employee.availableHours,
+      allocatedHours: roles?.allocatedHours ?? 0,
+      actualHours: roles?.actualHours ?? 0,
+      reviewNotesRaised: Number(notes?.raisedCount ?? 0),
+      reviewNotesAddressed: Number(notes?.addressedCount ?? 0),
+      addressedDays: Number(notes?.addressedDays ?? 0),
+    };
+
+    const grade = gradeTotals.get(employee.gradeCode) ?? {
+      gradeDesc: employee.gradeDesc,
+      employeeCount: 0,
+      totals: emptyTotals(),
+    };
+    grade.employeeCount += 1;
+    for (const key of Object.keys(totals) as Array<keyof StaffTotals>) {
+      grade.totals[key] += totals[key];
+    }
+    gradeTotals.set(employee.gradeCode, grade);
+
+    employees.push({
+      totals,
+      row: {
+        ...toMetrics(totals),
+        empCode: employee.empCode,
+        empName: employee.empName,
+        officeCode: employee.officeCode,
+        gradeCode: employee.gradeCode,
+        gradeDesc: employee.gradeDesc,
+        serviceLineCode: employee.serviceLineCode,
+        serviceLineName: serviceLineName(serviceLineMap, employee.serviceLineCode),
+        chargeableValue: employee.chargeableValue,
+        taskRoles: roles?.roles ?? {},
+        reviewNotesAddressed: totals.reviewNotesAddressed,
+        peerDelta: { utilization: null, planVariance: null, reviewNoteRate: null, addressTurnaroundDays: null },
+        utilizationPercentile: null,
+      },
+    });
+  }
+
+  const grades: StaffGradeBenchmark[] = [...gradeTotals.entries()]
+    .map(([gradeCode, grade]) => ({
+      gradeCode,
+      gradeDesc: grade.gradeDesc,
+      employeeCount: grade.employeeCount,
+      ...toMetrics(grade.totals),
+    }))
+    .sort((a, b) => a.gradeDesc.localeCompare(b.gradeDesc));
+  const gradeByCode = new Map(grades.map((g) => [g.gradeCode, g]));
+
+  // Utilization of each grade's members, for percentiles
+  const gradeUtilization = new Map<string, number[]>();
+  for (const { row } of employees) {
+    const list = gradeUtilization.get(row.gradeCode);
+    if (list) list.push(row.utilization);
+    else gradeUtilization.set(row.gradeCode, [row.utilization]);
+  }
+
+  for (const { row } of employees) {
+    const grade = gradeByCode.get(row.gradeCode)!;
+    for (const metric of PEER_METRICS) {
+      const value = row[metric];
+      const peer = grade[metric];
+      row.peerDelta[metric] = value !== null && peer !== null ? Math.round((value - peer) * 10) / 10 : null;
+    }
+
+    const peers = gradeUtilization.get(row.gradeCode) ?? [];
+    if (peers.length > 1) {
+      const below = peers.filter((u) => u < row.utilization).length;
+      row.utilizationPercentile = Math.round((below / (peers.length - 1)) * 100);
+    }
+  }
+
+  const report: FirmStaffPerformance = {
+    period,
+    employees: employees.map((e) => e.row).sort((a, b) => a.empName.localeCompare(b.empName)),
+    grades,
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
+
+/**
+ * Build staff performance for a fiscal period, limited to the employees the
+ * user leads
+ *
+ * @param filter - Fiscal period
+ * @param user - Viewer - must be a leader group member or system admin
+ */
+export async function getStaffPerformance(
+  filter: ExcoPeriodFilter,
+  user: SessionUser
+): Promise<StaffPerformanceReport> {
+  const serviceLineMap = await loadServiceLineMap();
+  const scope = await resolveLeaderScope(user);
+  const firm = await loadFirmStaffPerformance(filter, serviceLineMap);
+
+  const employees = scope.allServiceLines
+    ? firm.employees
+    : firm.employees.filter((e) => scope.masterCodes.includes(e.serviceLineCode));
+
+  return {
+    period: firm.period,
+    scope: {
+      allServiceLines: scope.allServiceLines,
+      serviceLines: scope.masterCodes.map((code) => ({ code, name: serviceLineName(serviceLineMap, code) })),
+    },
+    employees,
+    grades: firm.grades,
+    fiscalYears: firm.fiscalYears,
+  };
+}
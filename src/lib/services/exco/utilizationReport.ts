@@ -0,0 +1,249 @@
+/**
+ * Staff Utilization Report
+ *
+ * Chargeable hours per employee come from the GS_TSChargeable timesheet feed,
+ * falling back to WIP time transactions (TType 'T') for employees with no
+ * timesheet rows in the period. Chargeable value comes from WIP time where
+ * available, otherwise the timesheet value.
+ *
+ * Capacity is 8 hours per working day between the later of the period start
+ * and the employee's start date, and the earlier of the period end (or today)
+ * and their leaving date. Non-client allocations (leave, training, etc.) are
+ * pro-rated by working days into the period and deducted to give available
+ * hours.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import { calculateAvailableHours, calculateBusinessDays } from '@/lib/utils/dateUtils';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import type {
+  EmployeeUtilization,
+  ExcoPeriodFilter,
+  ExcoReportPeriod,
+  UtilizationBreakdownRow,
+  UtilizationMetrics,
+  UtilizationReport,
+} from '@/types/exco';
+import { percentage, REPORT_CACHE_TTL, round } from './excoMath';
+import { getExcoFiscalYears, resolveExcoPeriod } from './excoPeriod';
+import { loadServiceLineMap, serviceLineName, UNMAPPED_SERVICE_LINE, type ExcoServiceLineMap } from './excoServiceLines';
+
+function maxDate(a: Date, b: Date): Date {
+  return a > b ? a : b;
+}
+
+function minDate(a: Date, b: Date): Date {
+  return a < b ? a : b;
+}
+
+function summarize(employees: EmployeeUtilization[]): UtilizationMetrics {
+  const totals = employees.reduce(
+    (acc, e) => {
+      acc.standardHours += e.standardHours;
+      acc.nonClientHours += e.nonClientHours;
+      acc.availableHours += e.availableHours;
+      acc.chargeableHours += e.chargeableHours;
+      acc.chargeableValue += e.chargeableValue;
+      return acc;
+    },
+    { standardHours: 0, nonClientHours: 0, availableHours: 0, chargeableHours: 0, chargeableValue: 0 }
+  );
+
+  return {
+    employeeCount: employees.length,
+    standardHours: round(totals.standardHours),
+    nonClientHours: round(totals.nonClientHours),
+    availableHours: round(totals.availableHours),
+    chargeableHours: round(totals.chargeableHours),
+    chargeableValue: round(totals.chargeableValue),
+    utilization: percentage(totals.chargeableHours, totals.availableHours),
+    grossUtilization: percentage(totals.chargeableHours, totals.standardHours),
+  };
+}
+
+function breakdown(
+  employees: EmployeeUtilization[],
+  keyOf: (e: EmployeeUtilization) => string,
+  labelOf: (key: string, e: EmployeeUtilization) => string
+): UtilizationBreakdownRow[] {
+  const groups = new Map<string, { label: string; employees: EmployeeUtilization[] }>();
+
+  for (const employee of employees) {
+    const key = keyOf(employee);
+    const group = groups.get(key);
+    if (group) group.employees.push(employee);
+    else groups.set(key, { label: labelOf(key, employee), employees: [employee] });
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, label: group.label, ...summarize(group.employees) }))
+    .sort((a, b) => b.utilization - a.utilization || a.label.localeCompare(b.label));
+}
+
+/**
+ * Utilization per employee for a period, with each employee's external
+ * service line code
+ * When serviceLine (master code) is given, only that service line's
+ * employees are included.
+ */
+export async function loadEmployeeUtilization(
+  period: ExcoReportPeriod,
+  serviceLineMap: ExcoServiceLineMap,
+  serviceLine?: string
+): Promise<Array<{ servLineCode: string; employee: EmployeeUtilization }>> {
+  const { masterByExternal } = serviceLineMap;
+  const start = new Date(period.startDate);
+  const end = new Date(period.endDate);
+  const asOf = new Date(period.asOfDate);
+
+  const [employeeRows, timesheetHours, wipTime, allocations] = await Promise.all([
+    prisma.employee.findMany({
+      where: {
+        AND: [
+          { OR: [{ Active: 'Yes' }, { EmpDateLeft: { gte: start } }] },
+          { OR: [{ EmpDateStarted: null }, { EmpDateStarted: { lte: end } }] },
+        ],
+      },
+      select: {
+        id: true,
+        EmpCode: true,
+        EmpNameFull: true,
+        OfficeCode: true,
+        ServLineCode: true,
+        EmpCatCode: true,
+        EmpCatDesc: true,
+        EmpDateStarted: true,
+        EmpDateLeft: true,
+        Active: true,
+      },
+      orderBy: [{ Active: 'desc' }, { id: 'asc' }],
+    }),
+    prisma.gS_TSChargeable.groupBy({
+      by: ['EmpCode'],
+      where: { TSDate: { gte: start, lte: end } },
+      _sum: { TSHour: true, TSValue: true },
+    }),
+    prisma.wIPTransactions.groupBy({
+      by: ['EmpCode'],
+      where: { TType: 'T', TranDate: { gte: start, lte: end }, EmpCode: { not: null } },
+      _sum: { Hour: true, Amount: true },
+    }),
+    prisma.nonClientAllocation.findMany({
+      where: { startDate: { lte: end }, endDate: { gte: start } },
+      select: { employeeId: true, eventType: true, startDate: true, endDate: true, allocatedHours: true },
+    }),
+  ]);
+
+  const timesheetByEmp = new Map(timesheetHours.map((t) => [t.EmpCode, t._sum]));
+  const wipByEmp = new Map(wipTime.map((w) => [w.EmpCode!, w._sum]));
+
+  const allocationsByEmployee = new Map<number, typeof allocations>();
+  for (const allocation of allocations) {
+    const list = allocationsByEmployee.get(allocation.employeeId);
+    if (list) list.push(allocation);
+    else allocationsByEmployee.set(allocation.employeeId, [allocation]);
+  }
+
+  const seen = new Set<string>();
+  const employees: Array<{ servLineCode: string; employee: EmployeeUtilization }> = [];
+
+  for (const emp of employeeRows) {
+    // Employee codes can repeat across re-hires - the active row wins
+    if (seen.has(emp.EmpCode)) continue;
+    seen.add(emp.EmpCode);
+
+    const masterCode = masterByExternal.get(emp.ServLineCode) ?? UNMAPPED_SERVICE_LINE;
+    if (serviceLine && masterCode !== serviceLine) continue;
+
+    const capacityStart = emp.EmpDateStarted ? maxDate(start, emp.EmpDateStarted) : start;
+    const capacityEnd = emp.EmpDateLeft ? minDate(asOf, emp.EmpDateLeft) : asOf;
+    const standardHours = capacityStart <= capacityEnd && start <= asOf ? calculateAvailableHours(capacityStart, capacityEnd) : 0;
+
+    const nonClientByType: Record<string, number> = {};
+    let nonClientHours = 0;
+    for (const allocation of allocationsByEmployee.get(emp.id) ?? []) {
+      const allocationDays = calculateBusinessDays(allocation.startDate, allocation.endDate);
+      const overlapStart = maxDate(allocation.startDate, capacityStart);
+      const overlapEnd = minDate(allocation.endDate, capacityEnd);
+      if (allocationDays === 0 || overlapStart > overlapEnd) continue;
+
+      const hours = (Number(allocation.allocatedHours) * calculateBusinessDays(overlapStart, overlapEnd)) / allocationDays;
+      nonClientHours += hours;
+      nonClientByType[allocation.eventType] = round((nonClientByType[allocation.eventType] ?? 0) + hours);
+    }
+    nonClientHours = Math.min(nonClientHours, standardHours);
+
+    const timesheet = timesheetByEmp.get(emp.EmpCode);
+    const wip = wipByEmp.get(emp.EmpCode);
+    const chargeableHours = timesheet?.TSHour ?? wip?.Hour ?? 0;
+    const chargeableValue = wip?.Amount ?? timesheet?.TSValue ?? 0;
+
+    if (standardHours === 0 && chargeableHours === 0) continue;
+
+    const availableHours = standardHours - nonClientHours;
+    employees.push({
+      servLineCode: emp.ServLineCode,
+      employee: {
+        empCode: emp.EmpCode,
+        empName: emp.EmpNameFull,
+        officeCode: emp.OfficeCode,
+        gradeCode: emp.EmpCatCode,
+        gradeDesc: emp.EmpCatDesc,
+        serviceLineCode: masterCode,
+        standardHours: round(standardHours),
+        nonClientHours: round(nonClientHours),
+        availableHours: round(availableHours),
+        chargeableHours: round(chargeableHours),
+        chargeableValue: round(chargeableValue),
+        utilization: percentage(chargeableHours, availableHours),
+        grossUtilization: percentage(chargeableHours, standardHours),
+        nonClientByType,
+      },
+    });
+  }
+
+  return employees;
+}
+
+/**
+ * Build the firm-wide utilization report for a fiscal period
+ * When serviceLine (master code) is given, the report is scoped to that
+ * service line and includes per-employee rows.
+ */
+export async function getUtilizationReport(
+  filter: ExcoPeriodFilter,
+  serviceLine?: string
+): Promise<UtilizationReport> {
+  const cacheKey = `${CACHE_PREFIXES.ANALYTICS}exco:utilization:${filter.fiscalYear}:${filter.fiscalQuarter ?? ''}:${filter.fiscalMonth ?? ''}:${serviceLine ?? 'all'}`;
+  const cached = await cache.get<UtilizationReport>(cacheKey);
+  if (cached) return cached;
+
+  const [period, fiscalYears, serviceLineMap] = await Promise.all([
+    resolveExcoPeriod(filter),
+    getExcoFiscalYears(),
+    loadServiceLineMap(),
+  ]);
+
+  if (serviceLine && !serviceLineMap.masterNames.has(serviceLine) && serviceLine !== UNMAPPED_SERVICE_LINE) {
+    throw new AppError(404, 'Service line not found', ErrorCodes.NOT_FOUND, { serviceLine });
+  }
+
+  const employees = (await loadEmployeeUtilization(period, serviceLineMap, serviceLine)).map((e) => e.employee);
+
+  const report: UtilizationReport = {
+    period,
+    serviceLine: serviceLine ? { code: serviceLine, name: serviceLineName(serviceLineMap, serviceLine) } : null,
+    totals: summarize(employees),
+    byServiceLine: breakdown(employees, (e) => e.serviceLineCode, (key) => serviceLineName(serviceLineMap, key)),
+    byOffice: breakdown(employees, (e) => e.officeCode, (key) => key),
+    byGrade: breakdown(employees, (e) => e.gradeCode, (_key, e) => e.gradeDesc),
+    employees: serviceLine
+      ? employees.sort((a, b) => b.utilization - a.utilization || a.empName.localeCompare(b.empName))
+      : null,
+    fiscalYears,
+  };
+
+  await cache.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
@@ -1,4 +1,5 @@
 import ExcelJS from 'exceljs';
+import type { PartnerPeriodMetrics, PartnerScorecardReport } from '@/types/exco';
 
 interface TaxAdjustment {
   id: number;
@@ -175,6 +176,223 @@ export class ExcelExporter {
     worksheet.getColumn(2).width = 20;
   }
 
+  /**
+   * Export EXCO partner scorecards to Excel workbook
+   */
+  static async exportPartnerScorecards(report: PartnerScorecardReport): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Tax Mapper';
+    workbook.lastModifiedBy = 'Tax Mapper';
+    workbook.created = new Date();
+    workbook.modified = new Date();
+
+    // Sheet 1: Scorecards with prior-year comparison
+    this.addPartnerScorecardSheet(workbook, report);
+
+    // Sheet 2: WIP ageing
+    this.addPartnerWipAgingSheet(workbook, report);
+
+    // Sheet 3: Debtors ageing
+    this.addPartnerDebtorAgingSheet(workbook, report);
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  /**
+   * Create Partner Scorecards sheet
+   */
+  private static addPartnerScorecardSheet(workbook: ExcelJS.Workbook, report: PartnerScorecardReport) {
+    const worksheet = workbook.addWorksheet('Scorecards');
+    const period = report.period.label;
+    const prior = report.comparisonPeriod.label;
+
+    worksheet.addRow(['PARTNER SCORECARDS']);
+    worksheet.addRow(['Period:', `${period} compared with ${prior}`]);
+    worksheet.addRow(['Date:', new Date().toLocaleDateString()]);
+    worksheet.addRow([]);
+
+    const header = worksheet.addRow([
+      'Partner Code',
+      'Partner',
+      'Service Line',
+      'Office',
+      `Fees Billed ${period}`,
+      `Fees Billed ${prior}`,
+      'Fees Change %',
+      `Net WIP ${period}`,
+      `Net WIP ${prior}`,
+      `Debtors ${period}`,
+      `Debtors ${prior}`,
+      `Debtor Days ${period}`,
+      `Debtor Days ${prior}`,
+      `Recoverability % ${period}`,
+      `Recoverability % ${prior}`,
+      `New Clients ${period}`,
+      `New Clients ${prior}`,
+      'Open Review Notes',
+      'Overdue Review Notes',
+    ]);
+    header.font = { bold: true };
+
+    const addMetricsRow = (
+      code: string,
+      name: string,
+      serviceLine: string,
+      office: string,
+      current: PartnerPeriodMetrics,
+      previous: PartnerPeriodMetrics
+    ) =>
+      worksheet.addRow([
+        code,
+        name,
+        serviceLine,
+        office,
+        current.feesBilled,
+        previous.feesBilled,
+        previous.feesBilled !== 0
+          ? Math.round(((current.feesBilled - previous.feesBilled) / Math.abs(previous.feesBilled)) * 1000) / 10
+          : null,
+        current.netWip,
+        previous.netWip,
+        current.debtorsBalance,
+        previous.debtorsBalance,
+        current.debtorDays,
+        previous.debtorDays,
+        current.recoverability,
+        previous.recoverability,
+        current.newClients,
+        previous.newClients,
+        current.openReviewNotes,
+        current.overdueReviewNotes,
+      ]);
+
+    report.partners.forEach((p) => {
+      addMetricsRow(p.empCode, p.empName, p.serviceLineName, p.officeCode, p.current, p.prior);
+    });
+
+    const totalRow = addMetricsRow('', 'TOTAL', '', '', report.totals.current, report.totals.prior);
+    totalRow.font = { bold: true };
+
+    [5, 6, 8, 9, 10, 11].forEach((col) => {
+      worksheet.getColumn(col).numFmt = '#,##0.00';
+    });
+
+    worksheet.getColumn(1).width = 14;
+    worksheet.getColumn(2).width = 30;
+    worksheet.getColumn(3).width = 24;
+    worksheet.getColumn(4).width = 10;
+    for (let col = 5; col <= 19; col++) {
+      worksheet.getColumn(col).width = 18;
+    }
+  }
+
+  /**
+   * Create Partner WIP Ageing sheet
+   */
+  private static addPartnerWipAgingSheet(workbook: ExcelJS.Workbook, report: PartnerScorecardReport) {
+    const worksheet = workbook.addWorksheet('WIP Ageing');
+
+    worksheet.addRow(['WIP AGEING BY PARTNER']);
+    worksheet.addRow(['As at:', new Date(report.period.asOfDate).toLocaleDateString()]);
+    worksheet.addRow([]);
+
+    const header = worksheet.addRow([
+      'Partner Code',
+      'Partner',
+      'Current',
+      '30 Days',
+      '60 Days',
+      '90 Days',
+      '120 Days',
+      '150 Days',
+      '180+ Days',
+      'Gross WIP',
+      'Provision',
+      'Net WIP',
+    ]);
+    header.font = { bold: true };
+
+    const addAgingRow = (code: string, name: string, m: PartnerPeriodMetrics) =>
+      worksheet.addRow([
+        code,
+        name,
+        m.wipAging.current,
+        m.wipAging.days30,
+        m.wipAging.days60,
+        m.wipAging.days90,
+        m.wipAging.days120,
+        m.wipAging.days150,
+        m.wipAging.days180,
+        m.wipBalance,
+        m.wipProvision,
+        m.netWip,
+      ]);
+
+    report.partners.forEach((p) => addAgingRow(p.empCode, p.empName, p.current));
+    addAgingRow('', 'TOTAL', report.totals.current).font = { bold: true };
+
+    worksheet.getColumn(1).width = 14;
+    worksheet.getColumn(2).width = 30;
+    for (let col = 3; col <= 12; col++) {
+      worksheet.getColumn(col).width = 15;
+      worksheet.getColumn(col).numFmt = '#,##0.00';
+    }
+  }
+
+  /**
+   * Create Partner Debtors Ageing sheet
+   */
+  private static addPartnerDebtorAgingSheet(workbook: ExcelJS.Workbook, report: PartnerScorecardReport) {
+    const worksheet = workbook.addWorksheet('Debtors Ageing');
+
+    worksheet.addRow(['DEBTORS AGEING BY PARTNER']);
+    worksheet.addRow(['As at:', new Date(report.period.asOfDate).toLocaleDateString()]);
+    worksheet.addRow([]);
+
+    const header = worksheet.addRow([
+      'Partner Code',
+      'Partner',
+      '0-30 Days',
+      '31-60 Days',
+      '61-90 Days',
+      '91-120 Days',
+      '120+ Days',
+      'Total Debtors',
+      'Opening Debtors',
+      'Receipts',
+      'Recoverability %',
+      'Debtor Days',
+    ]);
+    header.font = { bold: true };
+
+    const addAgingRow = (code: string, name: string, m: PartnerPeriodMetrics) =>
+      worksheet.addRow([
+        code,
+        name,
+        m.debtorAging.current,
+        m.debtorAging.days31_60,
+        m.debtorAging.days61_90,
+        m.debtorAging.days91_120,
+        m.debtorAging.days120Plus,
+        m.debtorsBalance,
+        m.openingDebtors,
+        m.receipts,
+        m.recoverability,
+        m.debtorDays,
+      ]);
+
+    report.partners.forEach((p) => addAgingRow(p.empCode, p.empName, p.current));
+    addAgingRow('', 'TOTAL', report.totals.current).font = { bold: true };
+
+    worksheet.getColumn(1).width = 14;
+    worksheet.getColumn(2).width = 30;
+    for (let col = 3; col <= 12; col++) {
+      worksheet.getColumn(col).width = 15;
+      if (col <= 10) worksheet.getColumn(col).numFmt = '#,##0.00';
+    }
+  }
+
   /**
    * Generate filename for export
    */
@@ -183,5 +401,13 @@ export class ExcelExporter {
     const sanitizedName = taskName.replace(/[^a-zA-Z0-9]/g, '_');
     return `Tax_Computation_${sanitizedName}_${date}.xlsx`;
   }
-}
 
+  /**
+   * Generate filename for report exports
+   */
+  static generateReportFileName(reportName: string, periodLabel: string): string {
+    const date = new Date().toISOString().split('T')[0];
+    const sanitizedPeriod = periodLabel.replace(/[^a-zA-Z0-9]/g, '_');
+    return `${reportName}_${sanitizedPeriod}_${date}.xlsx`;
+  }
+}
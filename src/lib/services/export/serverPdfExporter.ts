@@ -1,7 +1,9 @@
 import React from 'react';
-import { pdf } from '@react-pdf/renderer';
+import { pdf, type DocumentProps } from '@react-pdf/renderer';
 import { ReportingPackPDF } from '../../../components/pdf/ReportingPackPDF';
+import { ServiceLineLeaguePDF } from '../../../components/pdf/ServiceLineLeaguePDF';
 import { AITaxReportData } from '@/lib/tools/tax-opinion/services/aiTaxReportGenerator';
+import type { ServiceLineLeagueReport } from '@/types/exco';
 
 export interface MappedAccount {
   accountCode: string;
@@ -53,3 +55,8 @@ export async function generateReportingPackPDF(
   ).toBlob();
 }
 
+export async function generateServiceLineLeaguePDF(report: ServiceLineLeagueReport): Promise<Blob> {
+  return await pdf(
+    React.createElement(ServiceLineLeaguePDF, { report }) as unknown as React.ReactElement<DocumentProps>
+  ).toBlob();
+}
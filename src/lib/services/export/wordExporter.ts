@@ -16,6 +16,13 @@ export interface WordExportOptions {
   clientName?: string;
 }
 
+export interface WordLetterOptions {
+  title: string;
+  sections: Array<{ title: string; content: string }>;
+  clientName?: string;
+  date?: Date;
+}
+
 export class WordExporter {
   /**
    * Generate Word document from opinion sections
@@ -228,6 +235,83 @@ export class WordExporter {
     return runs;
   }
 
+  /**
+   * Generate a letter - sections run on without a title page, contents or page breaks
+   * Markdown headings (#) in section content become Word headings.
+   */
+  static async exportLetter(options: WordLetterOptions): Promise<Buffer> {
+    const { title, sections, clientName, date = new Date() } = options;
+
+    const doc = new Document({
+      sections: [
+        {
+          properties: {},
+          children: [
+            new Paragraph({
+              text: date.toLocaleDateString('en-ZA', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+              }),
+              spacing: { after: 200 },
+            }),
+            ...(clientName
+              ? [new Paragraph({ children: [new TextRun({ text: clientName, bold: true })], spacing: { after: 200 } })]
+              : []),
+            new Paragraph({
+              text: title,
+              heading: HeadingLevel.HEADING_1,
+              spacing: { after: 300 },
+            }),
+            ...sections.flatMap((section) => this.generateLetterSection(section)),
+          ],
+        },
+      ],
+    });
+
+    return await Packer.toBuffer(doc);
+  }
+
+  /**
+   * Word paragraphs for one letter section
+   */
+  private static generateLetterSection(section: { title: string; content: string }): Paragraph[] {
+    const paragraphs: Paragraph[] = [];
+    const content = section.content.trim();
+
+    // Template sections usually open with their own heading
+    if (section.title && !content.startsWith('#')) {
+      paragraphs.push(
+        new Paragraph({
+          text: section.title,
+          heading: HeadingLevel.HEADING_2,
+          spacing: { before: 300, after: 150 },
+        })
+      );
+    }
+
+    content.split('\n\n').forEach((para) => {
+      const text = para.trim();
+      if (!text) return;
+
+      const heading = text.match(/^(#{1,3})\s+(.{1,300})$/);
+      paragraphs.push(
+        heading
+          ? new Paragraph({
+              text: heading[2],
+              heading: heading[1]!.length === 1 ? HeadingLevel.HEADING_2 : HeadingLevel.HEADING_3,
+              spacing: { before: 300, after: 150 },
+            })
+          : new Paragraph({
+              children: this.parseContentWithFormatting(text),
+              spacing: { after: 200 },
+            })
+      );
+    });
+
+    return paragraphs;
+  }
+
   /**
    * Export opinion to Word buffer
    */
@@ -0,0 +1,89 @@
+/**
+ * Filing Deadline Reminders
+ * Notifies task teams about open filings whose deadline is approaching
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { NotificationType } from '@/types/notification';
+import { ServiceLineRole } from '@/types';
+
+/** Filing statuses that still need work */
+const OPEN_FILING_STATUSES = ['PENDING', 'IN_PROGRESS'];
+
+const MAX_FILINGS_PER_RUN = 500;
+
+/**
+ * Send reminders for open filings due exactly N days from today (UTC)
+ * Reminding on specific offsets (rather than "within N days") means a nightly
+ * run sends each reminder once instead of every night.
+ *
+ * @param reminderDays - Days before the deadline to remind on (default: 7 and 1)
+ * @returns Number of notifications created
+ */
+export async function sendFilingDeadlineReminders(reminderDays: number[] = [7, 1]): Promise<number> {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  let created = 0;
+
+  for (const days of reminderDays) {
+    const dayStart = new Date(today);
+    dayStart.setUTCDate(dayStart.getUTCDate() + days);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setUTCDate(dayEnd.getUTCDate() + 1);
+
+    const filings = await prisma.filingStatus.findMany({
+      where: {
+        status: { in: OPEN_FILING_STATUSES },
+        deadline: { gte: dayStart, lt: dayEnd },
+      },
+      select: {
+        id: true,
+        taskId: true,
+        filingType: true,
+        deadline: true,
+        Task: {
+          select: {
+            TaskDesc: true,
+            TaskTeam: {
+              where: { role: { not: ServiceLineRole.VIEWER } },
+              select: { userId: true },
+            },
+          },
+        },
+      },
+      take: MAX_FILINGS_PER_RUN,
+    });
+
+    const notifications = filings.flatMap((filing) =>
+      filing.Task.TaskTeam.map((member) => ({
+        userId: member.userId,
+        taskId: filing.taskId,
+        type: NotificationType.FILING_DEADLINE_REMINDER,
+        title: 'Filing Deadline Approaching',
+        message: `${filing.filingType} for ${filing.Task.TaskDesc} is due in ${days} day${days === 1 ? '' : 's'}`,
+        actionUrl: `/dashboard/tasks/${filing.taskId}`,
+        isRead: false,
+        metadata: JSON.stringify({
+          filingId: filing.id,
+          deadline: filing.deadline?.toISOString(),
+          daysRemaining: days,
+        }),
+      }))
+    );
+
+    if (notifications.length > 0) {
+      await prisma.inAppNotification.createMany({ data: notifications });
+      created += notifications.length;
+    }
+
+    logger.info('Filing deadline reminders sent', {
+      daysRemaining: days,
+      filings: filings.length,
+      notifications: notifications.length,
+    });
+  }
+
+  return created;
+}
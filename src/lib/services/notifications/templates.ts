@@ -1,5 +1,5 @@
 import { ROUTES } from '@/constants/routes';
-import { formatRole } from '@/lib/utils/taskUtils';
+import { formatDate, formatRole } from '@/lib/utils/taskUtils';
 import { buildTaskUrl } from '@/lib/utils/taskUrlBuilder';
 
 /**
@@ -356,3 +356,46 @@ export function createApprovalAssignedNotification(
   };
 }
 
+/**
+ * Reminder to an approver whose step is past its SLA
+ */
+export function createApprovalReminderNotification(
+  workflowTitle: string,
+  businessDaysWaiting: number
+): NotificationTemplate {
+  return {
+    title: 'Approval Overdue',
+    message: `"${workflowTitle}" has been waiting for your approval for ${businessDaysWaiting} business day${businessDaysWaiting === 1 ? '' : 's'}.`,
+    actionUrl: '/dashboard/approvals',
+  };
+}
+
+/**
+ * Notification to the leader an overdue approval was escalated to
+ */
+export function createApprovalEscalatedNotification(
+  workflowTitle: string,
+  originalApproverName: string,
+  businessDaysWaiting: number
+): NotificationTemplate {
+  return {
+    title: 'Approval Escalated to You',
+    message: `"${workflowTitle}" was escalated to you after waiting ${businessDaysWaiting} business days for ${originalApproverName}.`,
+    actionUrl: '/dashboard/approvals',
+  };
+}
+
+/**
+ * Notification to the client partner that an annual continuance has been created
+ */
+export function createContinuanceDueNotification(
+  clientName: string,
+  clientCode: string,
+  dueDate: Date
+): NotificationTemplate {
+  return {
+    title: 'Client Continuance Due',
+    message: `The annual continuance for ${clientName} (${clientCode}) is due by ${formatDate(dueDate)}. New tasks will be blocked for this client after that date until the continuance is approved.`,
+    actionUrl: ROUTES.DASHBOARD.ROOT,
+  };
+}
@@ -0,0 +1,361 @@
+/**
+ * Account mapping suggestions learned from reviewed MappedAccount rows
+ *
+ * New trial balance lines are compared with accounts the firm has already
+ * mapped - first for the same client, then across all clients - using token
+ * and character trigram similarity on the account name (and the account code
+ * within the same client). The mappings of the closest matches vote for a
+ * sarsItem; the share of the vote times the best similarity is the confidence.
+ * Lines below MAPPING_CONFIDENCE_THRESHOLD should be sent to AI mapping.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { cache, CACHE_PREFIXES } from '@/lib/services/cache/CacheService';
+import { mappingGuide } from '@/lib/services/tasks/mappingGuide';
+import { determineSectionAndSubsection } from '@/lib/tools/tax-opinion/services/sectionMapper';
+
+export const MAPPING_CONFIDENCE_THRESHOLD = 0.75;
+
+const MIN_SIMILARITY = 0.45;
+const SAME_CLIENT_WEIGHT = 2;
+const CODE_MATCH_WEIGHT = 1.5;
+const MAX_CLIENT_HISTORY = 5000;
+const MAX_FIRM_HISTORY = 20000;
+const FIRM_CORPUS_TTL = 60 * 60; // 1 hour
+const MAX_EVIDENCE = 3;
+const MAX_ALTERNATIVES = 3;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'at', 'by', 'acc', 'account', 'ac']);
+
+export interface MappingSuggestionInput {
+  accountCode: string;
+  accountName: string;
+  /** 'Income Statement' or 'Balance Sheet' from the trial balance */
+  section?: string;
+  balance?: number;
+}
+
+export interface MappingEvidence {
+  accountName: string;
+  accountCode: string | null;
+  sarsItem: string;
+  similarity: number;
+  occurrences: number;
+  source: 'CLIENT_HISTORY' | 'FIRM_HISTORY';
+  taskCode: string | null;
+  taskYear: number | null;
+}
+
+export interface MappingSuggestion {
+  accountCode: string;
+  accountName: string;
+  sarsItem: string | null;
+  section: string | null;
+  subsection: string | null;
+  confidence: number;
+  reason: string;
+  evidence: MappingEvidence[];
+  alternatives: Array<{ sarsItem: string; confidence: number }>;
+}
+
+interface CorpusEntry {
+  accountName: string;
+  accountCode: string | null;
+  sarsItem: string;
+  section: string;
+  occurrences: number;
+  source: MappingEvidence['source'];
+  taskCode: string | null;
+  taskYear: number | null;
+}
+
+interface IndexedEntry extends CorpusEntry {
+  tokens: Set<string>;
+  trigrams: Set<string>;
+}
+
+interface CorpusIndex {
+  entries: IndexedEntry[];
+  byToken: Map<string, number[]>;
+}
+
+// Only suggest items that exist on the IT14 mapping guide
+const VALID_SARS_ITEMS = new Set(
+  [...Object.values(mappingGuide.balanceSheet), ...Object.values(mappingGuide.incomeStatement)].flatMap((items) =>
+    items.map((item) => item.sarsItem)
+  )
+);
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function tokenize(name: string): Set<string> {
+  return new Set(
+    normalizeName(name)
+      .split(' ')
+      .filter((token) => token.length > 1 && !STOP_WORDS.has(token) && !/^\d+$/.test(token))
+  );
+}
+
+function trigrams(name: string): Set<string> {
+  const padded = `  ${normalizeName(name)} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let count = 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  for (const value of small) {
+    if (large.has(value)) count++;
+  }
+  return count;
+}
+
+/**
+ * Name similarity in [0, 1] - blend of trigram Dice and token Jaccard
+ */
+function nameSimilarity(
+  query: { tokens: Set<string>; trigrams: Set<string> },
+  entry: { tokens: Set<string>; trigrams: Set<string> }
+): number {
+  const trigramTotal = query.trigrams.size + entry.trigrams.size;
+  const dice = trigramTotal > 0 ? (2 * overlap(query.trigrams, entry.trigrams)) / trigramTotal : 0;
+
+  const shared = overlap(query.tokens, entry.tokens);
+  const union = query.tokens.size + entry.tokens.size - shared;
+  const jaccard = union > 0 ? shared / union : 0;
+
+  return 0.6 * dice + 0.4 * jaccard;
+}
+
+function buildIndex(entries: CorpusEntry[]): CorpusIndex {
+  const indexed: IndexedEntry[] = [];
+  const byToken = new Map<string, number[]>();
+
+  for (const entry of entries) {
+    if (!VALID_SARS_ITEMS.has(entry.sarsItem)) continue;
+
+    const position = indexed.length;
+    const tokens = tokenize(entry.accountName);
+    indexed.push({ ...entry, tokens, trigrams: trigrams(entry.accountName) });
+
+    for (const token of tokens) {
+      const list = byToken.get(token);
+      if (list) list.push(position);
+      else byToken.set(token, [position]);
+    }
+  }
+
+  return { entries: indexed, byToken };
+}
+
+/**
+ * Mappings used by this client on other tasks, most recent first
+ */
+async function loadClientHistory(GSClientID: string, excludeTaskId?: number): Promise<CorpusEntry[]> {
+  const rows = await prisma.mappedAccount.findMany({
+    where: {
+      Task: { GSClientID },
+      ...(excludeTaskId ? { taskId: { not: excludeTaskId } } : {}),
+    },
+    select: {
+      accountCode: true,
+      accountName: true,
+      sarsItem: true,
+      section: true,
+      Task: { select: { TaskCode: true, taskYear: true } },
+    },
+    orderBy: { updatedAt: 'desc' },
+    take: MAX_CLIENT_HISTORY,
+  });
+
+  // Collapse repeats of the same account/mapping, keeping the latest task
+  const grouped = new Map<string, CorpusEntry>();
+  for (const row of rows) {
+    const key = `${row.accountCode}|${normalizeName(row.accountName)}|${row.sarsItem}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.occurrences++;
+      continue;
+    }
+    grouped.set(key, {
+      accountName: row.accountName,
+      accountCode: row.accountCode,
+      sarsItem: row.sarsItem,
+      section: row.section,
+      occurrences: 1,
+      source: 'CLIENT_HISTORY',
+      taskCode: row.Task.TaskCode,
+      taskYear: row.Task.taskYear,
+    });
+  }
+
+  return [...grouped.values()];
+}
+
+/**
+ * Firm-wide mapping frequencies by account name (cached)
+ */
+async function loadFirmHistory(): Promise<CorpusEntry[]> {
+  const cacheKey = `${CACHE_PREFIXES.TASK}mapping-corpus`;
+  const cached = await cache.get<CorpusEntry[]>(cacheKey);
+  if (cached) return cached;
+
+  const groups = await prisma.mappedAccount.groupBy({
+    by: ['accountName', 'sarsItem', 'section'],
+    _count: { _all: true },
+    orderBy: { _count: { accountName: 'desc' } },
+    take: MAX_FIRM_HISTORY,
+  });
+
+  const entries: CorpusEntry[] = groups.map((group) => ({
+    accountName: group.accountName,
+    accountCode: null,
+    sarsItem: group.sarsItem,
+    section: group.section,
+    occurrences: group._count._all,
+    source: 'FIRM_HISTORY',
+    taskCode: null,
+    taskYear: null,
+  }));
+
+  await cache.set(cacheKey, entries, FIRM_CORPUS_TTL);
+  return entries;
+}
+
+function roundConfidence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function describe(sarsItem: string, evidence: MappingEvidence[]): string {
+  const top = evidence[0];
+  if (!top) return 'No similar accounts have been mapped before';
+
+  const total = evidence.reduce((sum, e) => sum + e.occurrences, 0);
+  const where =
+    top.source === 'CLIENT_HISTORY'
+      ? `for this client${top.taskCode ? ` (e.g. "${top.accountName}" on ${top.taskCode}${top.taskYear ? ` ${top.taskYear}` : ''})` : ''}`
+      : `across the firm (e.g. "${top.accountName}")`;
+
+  return `Similar accounts were mapped to "${sarsItem}" ${total} time${total === 1 ? '' : 's'} ${where}`;
+}
+
+function suggestOne(
+  input: MappingSuggestionInput,
+  indexes: CorpusIndex[]
+): MappingSuggestion {
+  const query = { tokens: tokenize(input.accountName), trigrams: trigrams(input.accountName) };
+  const code = input.accountCode.trim().toUpperCase();
+  const section = input.section?.trim().toLowerCase();
+
+  const votes = new Map<string, { weight: number; bestSimilarity: number; evidence: MappingEvidence[] }>();
+  let totalWeight = 0;
+
+  for (const index of indexes) {
+    const candidates = new Set<number>();
+    for (const token of query.tokens) {
+      for (const position of index.byToken.get(token) ?? []) candidates.add(position);
+    }
+
+    for (const position of candidates) {
+      const entry = index.entries[position]!;
+      if (section && entry.section.toLowerCase() !== section) continue;
+
+      const codeMatch = entry.accountCode !== null && entry.accountCode.trim().toUpperCase() === code;
+      const similarity = codeMatch ? Math.max(nameSimilarity(query, entry), 0.9) : nameSimilarity(query, entry);
+      if (similarity < MIN_SIMILARITY) continue;
+
+      const weight =
+        similarity ** 2 *
+        Math.log2(1 + entry.occurrences) *
+        (entry.source === 'CLIENT_HISTORY' ? SAME_CLIENT_WEIGHT : 1) *
+        (codeMatch ? CODE_MATCH_WEIGHT : 1);
+
+      totalWeight += weight;
+      const vote = votes.get(entry.sarsItem) ?? { weight: 0, bestSimilarity: 0, evidence: [] };
+      vote.weight += weight;
+      vote.bestSimilarity = Math.max(vote.bestSimilarity, similarity);
+      vote.evidence.push({
+        accountName: entry.accountName,
+        accountCode: entry.accountCode,
+        sarsItem: entry.sarsItem,
+        similarity: roundConfidence(similarity),
+        occurrences: entry.occurrences,
+        source: entry.source,
+        taskCode: entry.taskCode,
+        taskYear: entry.taskYear,
+      });
+      votes.set(entry.sarsItem, vote);
+    }
+  }
+
+  const ranked = [...votes.entries()]
+    .map(([sarsItem, vote]) => ({
+      sarsItem,
+      confidence: roundConfidence((vote.weight / totalWeight) * vote.bestSimilarity),
+      evidence: vote.evidence
+        .sort((a, b) => b.similarity - a.similarity || b.occurrences - a.occurrences)
+        .slice(0, MAX_EVIDENCE),
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const best = ranked[0];
+  if (!best) {
+    return {
+      accountCode: input.accountCode,
+      accountName: input.accountName,
+      sarsItem: null,
+      section: null,
+      subsection: null,
+      confidence: 0,
+      reason: describe('', []),
+      evidence: [],
+      alternatives: [],
+    };
+  }
+
+  const placement = determineSectionAndSubsection(best.sarsItem, input.balance ?? 0);
+
+  return {
+    accountCode: input.accountCode,
+    accountName: input.accountName,
+    sarsItem: best.sarsItem,
+    section: placement.section,
+    subsection: placement.subsection,
+    confidence: best.confidence,
+    reason: describe(best.sarsItem, best.evidence),
+    evidence: best.evidence,
+    alternatives: ranked
+      .slice(1, MAX_ALTERNATIVES + 1)
+      .map(({ sarsItem, confidence }) => ({ sarsItem, confidence })),
+  };
+}
+
+/**
+ * Suggest sarsItem mappings for trial balance lines from historical mappings
+ * Client history (when the task has a client) outweighs firm-wide history.
+ */
+export async function suggestAccountMappings(
+  accounts: MappingSuggestionInput[],
+  context: { GSClientID?: string | null; excludeTaskId?: number } = {}
+): Promise<MappingSuggestion[]> {
+  if (accounts.length === 0) return [];
+
+  const [clientHistory, firmHistory] = await Promise.all([
+    context.GSClientID ? loadClientHistory(context.GSClientID, context.excludeTaskId) : Promise.resolve([]),
+    loadFirmHistory(),
+  ]);
+
+  const indexes = [buildIndex(clientHistory), buildIndex(firmHistory)];
+
+  return accounts.map((account) => suggestOne(account, indexes));
+}
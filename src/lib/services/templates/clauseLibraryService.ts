@@ -0,0 +1,73 @@
+/**
+ * Engagement Letter Clause Library Service
+ * Admin CRUD for the optional clauses partners add to generated engagement letters
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import type {
+  CreateEngagementLetterClauseInput,
+  UpdateEngagementLetterClauseInput,
+} from '@/lib/validation/schemas';
+
+/**
+ * Get every clause, including inactive ones, grouped by service line
+ */
+export async function getClauses(filter?: { serviceLine?: string; active?: boolean }) {
+  return prisma.engagementLetterClause.findMany({
+    where: {
+      ...(filter?.serviceLine && { serviceLine: filter.serviceLine }),
+      ...(filter?.active !== undefined && { active: filter.active }),
+    },
+    orderBy: [{ serviceLine: 'asc' }, { sortOrder: 'asc' }, { title: 'asc' }],
+  });
+}
+
+/**
+ * Add a clause to the library
+ * A null service line offers the clause on every engagement letter.
+ */
+export async function createClause(data: CreateEngagementLetterClauseInput, createdById: string) {
+  return prisma.engagementLetterClause.create({
+    data: {
+      title: data.title,
+      content: data.content,
+      category: data.category ?? null,
+      serviceLine: data.serviceLine ?? null,
+      isDefault: data.isDefault,
+      active: data.active,
+      sortOrder: data.sortOrder,
+      createdById,
+    },
+  });
+}
+
+/**
+ * Update a clause
+ * Letters already generated keep the text they were generated with.
+ * @throws AppError 404 if the clause does not exist
+ */
+export async function updateClause(id: number, data: UpdateEngagementLetterClauseInput) {
+  const existing = await prisma.engagementLetterClause.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) {
+    throw new AppError(404, 'Clause not found', ErrorCodes.NOT_FOUND);
+  }
+
+  return prisma.engagementLetterClause.update({
+    where: { id },
+    data,
+  });
+}
+
+/**
+ * Delete a clause
+ * @throws AppError 404 if the clause does not exist
+ */
+export async function deleteClause(id: number) {
+  const existing = await prisma.engagementLetterClause.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) {
+    throw new AppError(404, 'Clause not found', ErrorCodes.NOT_FOUND);
+  }
+
+  await prisma.engagementLetterClause.delete({ where: { id } });
+}
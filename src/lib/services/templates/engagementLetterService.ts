@@ -0,0 +1,519 @@
+/**
+ * Engagement Letter Builder Service
+ * Generates engagement letters from templates, typed merge fields and library clauses
+ *
+ * The generated Word document is stored against the task's TaskEngagementLetter
+ * (generatedFilePath) so partner approval can start from it. The signed letter
+ * is still uploaded separately into filePath.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { logger } from '@/lib/utils/logger';
+import { approvalService } from '@/lib/services/approvals/approvalService';
+import { uploadEngagementLetter } from '@/lib/services/documents/blobStorage';
+import { WordExporter } from '@/lib/services/export/wordExporter';
+import { canApproveEngagementLetter } from '@/lib/services/tasks/taskAuthorization';
+import type { TaskId } from '@/types/branded';
+import type { GenerateEngagementLetterInput } from '@/lib/validation/schemas';
+import type {
+  EngagementLetterApprovalStatus,
+  EngagementLetterBuilderData,
+  EngagementLetterClause,
+  GenerateEngagementLetterResult,
+  MergeFieldDefinition,
+  MergeFieldType,
+  MergeFieldValue,
+} from '@/types/engagementLetter';
+import { applyMergeFields, generateFromTemplate, getBestTemplateForTask, getTaskContext } from './templateGenerator';
+import { getApplicableTemplates } from './templateService';
+
+/**
+ * Merge fields every engagement letter template and clause can use as {{key}}
+ * The original placeholders (taskName, clientName, currentDate, ...) keep working.
+ */
+export const ENGAGEMENT_LETTER_MERGE_FIELDS: MergeFieldDefinition[] = [
+  { key: 'clientName', label: 'Client name', type: 'text', group: 'client', editable: false, required: true },
+  { key: 'clientCode', label: 'Client code', type: 'text', group: 'client', editable: false, required: true },
+  { key: 'clientGroup', label: 'Client group', type: 'text', group: 'client', editable: false, required: false },
+  { key: 'clientIndustry', label: 'Industry', type: 'text', group: 'client', editable: false, required: false },
+  { key: 'partnerName', label: 'Engagement partner', type: 'text', group: 'partner', editable: true, required: true },
+  { key: 'partnerEmail', label: 'Partner email', type: 'text', group: 'partner', editable: true, required: false },
+  { key: 'managerName', label: 'Engagement manager', type: 'text', group: 'partner', editable: true, required: false },
+  { key: 'taskName', label: 'Engagement', type: 'text', group: 'task', editable: false, required: true },
+  { key: 'taskCode', label: 'Task code', type: 'text', group: 'task', editable: false, required: false },
+  { key: 'serviceLineName', label: 'Service line', type: 'text', group: 'task', editable: false, required: false },
+  { key: 'engagementStartDate', label: 'Start date', type: 'date', group: 'task', editable: true, required: false },
+  { key: 'engagementDueDate', label: 'Due date', type: 'date', group: 'task', editable: true, required: false },
+  { key: 'professionalFees', label: 'Professional fees', type: 'currency', group: 'fees', editable: true, required: false },
+  { key: 'disbursements', label: 'Disbursements', type: 'currency', group: 'fees', editable: true, required: false },
+  { key: 'totalFees', label: 'Total fee estimate', type: 'currency', group: 'fees', editable: true, required: true },
+  { key: 'estimatedHours', label: 'Estimated hours', type: 'number', group: 'fees', editable: true, required: false },
+  { key: 'scopeOfServices', label: 'Scope of services', type: 'text', group: 'scope', editable: true, required: true },
+  { key: 'letterDate', label: 'Letter date', type: 'date', group: 'letter', editable: true, required: true },
+];
+
+const NUMERIC_VALUE = /^-?\d+(\.\d+)?$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Text merged into the letter for a raw value
+ */
+function formatMergeValue(type: MergeFieldType, value: string | null): string {
+  if (value === null || value === '') return '';
+
+  switch (type) {
+    case 'currency':
+      return new Intl.NumberFormat('en-ZA', { style: 'currency', currency: 'ZAR' }).format(Number(value));
+    case 'number':
+      return new Intl.NumberFormat('en-ZA', { maximumFractionDigits: 2 }).format(Number(value));
+    case 'date':
+      return new Date(value).toLocaleDateString('en-ZA', { year: 'numeric', month: 'long', day: 'numeric' });
+    default:
+      return value;
+  }
+}
+
+/**
+ * Check a partner's replacement value against the field's type
+ * @throws AppError 400 for unknown or read-only fields and badly typed values
+ */
+function validateOverrides(overrides: Record<string, string>): Record<string, string> {
+  const errors: string[] = [];
+  const cleaned: Record<string, string> = {};
+
+  for (const [key, raw] of Object.entries(overrides)) {
+    const field = ENGAGEMENT_LETTER_MERGE_FIELDS.find((f) => f.key === key);
+    const value = raw.trim();
+
+    if (!field) {
+      errors.push(`Unknown merge field "${key}"`);
+    } else if (!field.editable) {
+      errors.push(`${field.label} comes from the task and cannot be changed`);
+    } else if ((field.type === 'currency' || field.type === 'number') && value !== '') {
+      const numeric = value.replace(/[\s,]/g, '');
+      if (NUMERIC_VALUE.test(numeric)) cleaned[key] = numeric;
+      else errors.push(`${field.label} must be a number`);
+    } else if (field.type === 'date' && value !== '') {
+      if (ISO_DATE.test(value) && !Number.isNaN(Date.parse(value))) cleaned[key] = value;
+      else errors.push(`${field.label} must be a date (YYYY-MM-DD)`);
+    } else {
+      cleaned[key] = value;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AppError(400, errors.join('; '), ErrorCodes.VALIDATION_ERROR, { errors });
+  }
+  return cleaned;
+}
+
+const toIsoDate = (date: Date | null | undefined) => (date ? date.toISOString().slice(0, 10) : null);
+const toAmount = (value: number | null | undefined) => (value != null ? String(Math.round(value * 100) / 100) : null);
+
+/**
+ * Task with everything the merge fields are resolved from
+ * @throws AppError 404 if the task does not exist, 400 if it has no client
+ */
+async function loadLetterTask(taskId: number) {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: {
+      id: true,
+      TaskCode: true,
+      TaskDesc: true,
+      TaskPartner: true,
+      TaskPartnerName: true,
+      TaskManagerName: true,
+      ServLineCode: true,
+      ServLineDesc: true,
+      TaskDateOpen: true,
+      Client: {
+        select: { clientCode: true, clientNameFull: true, groupDesc: true, industry: true },
+      },
+      TaskBudget: {
+        orderBy: { updatedAt: 'desc' },
+        take: 1,
+        select: {
+          EstFeeTime: true,
+          EstFeeDisb: true,
+          EstChgHours: true,
+          BudStartDate: true,
+          BudDueDate: true,
+        },
+      },
+    },
+  });
+
+  if (!task) {
+    throw new AppError(404, 'Task not found', ErrorCodes.NOT_FOUND);
+  }
+  if (!task.Client) {
+    throw new AppError(400, 'Engagement letters are only available for client tasks', ErrorCodes.VALIDATION_ERROR);
+  }
+
+  const [partner, external] = await Promise.all([
+    prisma.employee.findFirst({
+      where: { EmpCode: task.TaskPartner },
+      orderBy: { Active: 'desc' }, // 'Yes' before 'No'
+      select: { EmpNameFull: true, WinLogon: true },
+    }),
+    prisma.serviceLineExternal.findFirst({
+      where: { ServLineCode: task.ServLineCode, masterCode: { not: null } },
+      select: { masterCode: true },
+    }),
+  ]);
+
+  const masterServiceLine = external?.masterCode
+    ? await prisma.serviceLineMaster.findUnique({
+        where: { code: external.masterCode },
+        select: { code: true, name: true },
+      })
+    : null;
+
+  return { task, client: task.Client, partner, masterServiceLine };
+}
+
+/**
+ * Generating and submitting follow the upload rules: partners/administrators of the
+ * task's service line, and only once client acceptance is approved
+ * @throws AppError 403 without permission, 400 before acceptance approval
+ */
+export async function assertCanPrepareEngagementLetter(userId: string, taskId: TaskId): Promise<void> {
+  if (!(await canApproveEngagementLetter(userId, taskId))) {
+    throw new AppError(
+      403,
+      'Only Partners and System Administrators can generate engagement letters',
+      ErrorCodes.FORBIDDEN
+    );
+  }
+
+  const acceptance = await prisma.taskAcceptance.findUnique({
+    where: { taskId },
+    select: { acceptanceApproved: true },
+  });
+  if (!acceptance?.acceptanceApproved) {
+    throw new AppError(
+      400,
+      'Client acceptance must be approved before generating engagement letter',
+      ErrorCodes.VALIDATION_ERROR
+    );
+  }
+}
+
+/**
+ * Resolve every merge field for a task, with a partner's replacements applied
+ */
+function resolveMergeFields(
+  { task, client, partner, masterServiceLine }: Awaited<ReturnType<typeof loadLetterTask>>,
+  overrides: Record<string, string> = {}
+): MergeFieldValue[] {
+  const budget = task.TaskBudget[0];
+  const values: Record<string, string | null> = {
+    clientName: client.clientNameFull || client.clientCode,
+    clientCode: client.clientCode,
+    clientGroup: client.groupDesc || null,
+    clientIndustry: client.industry,
+    partnerName: partner?.EmpNameFull || task.TaskPartnerName || null,
+    partnerEmail: partner?.WinLogon || null,
+    managerName: task.TaskManagerName || null,
+    taskName: task.TaskDesc,
+    taskCode: task.TaskCode,
+    serviceLineName: masterServiceLine?.name ?? task.ServLineDesc,
+    engagementStartDate: toIsoDate(budget?.BudStartDate ?? task.TaskDateOpen),
+    engagementDueDate: toIsoDate(budget?.BudDueDate),
+    professionalFees: toAmount(budget?.EstFeeTime),
+    disbursements: toAmount(budget?.EstFeeDisb),
+    totalFees: null,
+    estimatedHours: toAmount(budget?.EstChgHours),
+    scopeOfServices: task.TaskDesc,
+    letterDate: toIsoDate(new Date()),
+    ...overrides,
+  };
+
+  // Total follows the (possibly replaced) fee lines unless it was replaced itself
+  if (!overrides.totalFees && (values.professionalFees || values.disbursements)) {
+    values.totalFees = toAmount(Number(values.professionalFees || 0) + Number(values.disbursements || 0));
+  }
+
+  return ENGAGEMENT_LETTER_MERGE_FIELDS.map((field) => {
+    const value = values[field.key] || null;
+    return { ...field, value, display: formatMergeValue(field.type, value) };
+  });
+}
+
+/**
+ * Active clauses for every service line plus those for the given master service line
+ */
+async function listApplicableClauses(serviceLine: string | null): Promise<EngagementLetterClause[]> {
+  const clauses = await prisma.engagementLetterClause.findMany({
+    where: {
+      active: true,
+      OR: [{ serviceLine: null }, ...(serviceLine ? [{ serviceLine }] : [])],
+    },
+    orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
+    select: {
+      id: true,
+      title: true,
+      content: true,
+      category: true,
+      serviceLine: true,
+      isDefault: true,
+      active: true,
+      sortOrder: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  return clauses.map((clause) => ({
+    ...clause,
+    createdAt: clause.createdAt.toISOString(),
+    updatedAt: clause.updatedAt.toISOString(),
+  }));
+}
+
+/**
+ * Templates, clauses, merge fields and the current generated letter for a task
+ */
+export async function getEngagementLetterBuilder(taskId: number): Promise<EngagementLetterBuilderData> {
+  const loaded = await loadLetterTask(taskId);
+  const serviceLine = loaded.masterServiceLine?.code ?? null;
+
+  const [templates, clauses, letter] = await Promise.all([
+    getApplicableTemplates('ENGAGEMENT_LETTER', serviceLine ?? undefined),
+    listApplicableClauses(serviceLine),
+    prisma.taskEngagementLetter.findUnique({
+      where: { taskId },
+      select: {
+        generated: true,
+        generatedAt: true,
+        generatedBy: true,
+        generatedFilePath: true,
+        generatedClauseIds: true,
+        mergeFieldValues: true,
+        templateId: true,
+        templateVersionId: true,
+        Approval: { select: { id: true, status: true, requestedAt: true } },
+      },
+    }),
+  ]);
+
+  return {
+    serviceLine,
+    templates: templates.map((t) => ({ id: t.id, name: t.name, description: t.description, serviceLine: t.serviceLine })),
+    clauses,
+    mergeFields: resolveMergeFields(loaded),
+    generated:
+      letter?.generated && letter.generatedAt
+        ? {
+            templateId: letter.templateId,
+            templateVersionId: letter.templateVersionId,
+            generatedAt: letter.generatedAt.toISOString(),
+            generatedBy: letter.generatedBy,
+            hasWordDocument: !!letter.generatedFilePath,
+            clauseIds: letter.generatedClauseIds ? (JSON.parse(letter.generatedClauseIds) as number[]) : [],
+            mergeFieldValues: letter.mergeFieldValues
+              ? (JSON.parse(letter.mergeFieldValues) as Record<string, string>)
+              : {},
+            approval: letter.Approval
+              ? {
+                  id: letter.Approval.id,
+                  status: letter.Approval.status as EngagementLetterApprovalStatus,
+                  requestedAt: letter.Approval.requestedAt.toISOString(),
+                }
+              : null,
+          }
+        : null,
+  };
+}
+
+/**
+ * Generate a task's engagement letter and store it as a Word document
+ * Replaces any earlier generated letter unless it is waiting for or has
+ * received partner approval.
+ * @throws AppError 400 when required merge fields are empty, 409 once submitted for approval
+ */
+export async function generateEngagementLetter(
+  taskId: number,
+  userId: string,
+  input: GenerateEngagementLetterInput
+): Promise<GenerateEngagementLetterResult> {
+  const existing = await prisma.taskEngagementLetter.findUnique({
+    where: { taskId },
+    select: { Approval: { select: { status: true } } },
+  });
+  if (existing?.Approval?.status === 'PENDING') {
+    throw new AppError(
+      409,
+      'The generated letter is waiting for approval and cannot be regenerated',
+      ErrorCodes.CONFLICT
+    );
+  }
+  if (existing?.Approval?.status === 'APPROVED') {
+    throw new AppError(
+      409,
+      'The generated letter has been approved and cannot be regenerated',
+      ErrorCodes.CONFLICT
+    );
+  }
+
+  const loaded = await loadLetterTask(taskId);
+  const serviceLine = loaded.masterServiceLine?.code ?? null;
+  const mergeFields = resolveMergeFields(loaded, validateOverrides(input.mergeFieldOverrides ?? {}));
+
+  const missing = mergeFields.filter((f) => f.required && !f.value);
+  if (missing.length > 0) {
+    throw new AppError(
+      400,
+      `Fill in ${missing.map((f) => f.label).join(', ')} before generating the letter`,
+      ErrorCodes.VALIDATION_ERROR,
+      { missingFields: missing.map((f) => f.key) }
+    );
+  }
+
+  const templateId = input.templateId ?? (await getBestTemplateForTask(taskId, 'ENGAGEMENT_LETTER'));
+  if (!templateId) {
+    throw new AppError(404, 'No engagement letter template available for this task', ErrorCodes.NOT_FOUND);
+  }
+
+  // Only clauses offered for the task's service line can be included
+  const clauseIds = input.clauseIds ?? [];
+  const clauses = (await listApplicableClauses(serviceLine)).filter((c) => clauseIds.includes(c.id));
+  if (clauses.length !== new Set(clauseIds).size) {
+    throw new AppError(400, 'One or more clauses are not available for this task', ErrorCodes.VALIDATION_ERROR);
+  }
+
+  const taskContext = {
+    ...(await getTaskContext(taskId)),
+    partnerName: mergeFields.find((f) => f.key === 'partnerName')?.display,
+    mergeFields: Object.fromEntries(mergeFields.map((f) => [f.key, f.display])),
+  };
+  const useAiAdaptation = input.useAiAdaptation ?? true;
+  const generated = await generateFromTemplate(templateId, taskContext, useAiAdaptation);
+
+  const sections = [
+    ...generated.sections,
+    ...clauses.map((clause) => ({
+      sectionKey: `clause_${clause.id}`,
+      title: clause.title,
+      content: applyMergeFields(clause.content, taskContext),
+    })),
+  ];
+  const content = sections.map((s) => s.content).join('\n\n');
+  const unresolvedFields = [...new Set([...content.matchAll(/\{\{([a-zA-Z_][a-zA-Z0-9_]*)\}\}/g)].map((m) => m[1]!))];
+
+  // A failed Word upload still leaves the letter content usable in the tab
+  let generatedFilePath: string | null = null;
+  try {
+    const buffer = await WordExporter.exportLetter({
+      title: 'Engagement Letter',
+      clientName: taskContext.mergeFields.clientName,
+      date: new Date(mergeFields.find((f) => f.key === 'letterDate')!.value!),
+      sections,
+    });
+    generatedFilePath = await uploadEngagementLetter(
+      buffer,
+      `engagement-letter-${loaded.client.clientCode}-${loaded.task.TaskCode}.docx`,
+      taskId
+    );
+  } catch (error) {
+    logger.error('Failed to store generated engagement letter document', { taskId, error });
+  }
+
+  const letterData = {
+    generated: true,
+    content,
+    templateId,
+    templateVersionId: generated.versionId ?? null,
+    generatedBy: userId,
+    generatedAt: new Date(),
+    generatedFilePath,
+    generatedClauseIds: JSON.stringify(clauses.map((c) => c.id)),
+    mergeFieldValues: JSON.stringify(Object.fromEntries(mergeFields.map((f) => [f.key, f.value ?? '']))),
+    approvalId: null,
+  };
+
+  await prisma.taskEngagementLetter.upsert({
+    where: { taskId },
+    create: { taskId, ...letterData },
+    update: letterData,
+  });
+
+  return {
+    content,
+    generated: true,
+    sectionsUsed: [
+      ...generated.sectionsUsed,
+      ...clauses.map((c) => ({ sectionKey: `clause_${c.id}`, title: c.title, wasAiAdapted: false })),
+    ],
+    clausesUsed: clauses.map((c) => ({ id: c.id, title: c.title })),
+    templateId,
+    templateVersionId: generated.versionId,
+    version: generated.version,
+    aiAdaptationUsed: useAiAdaptation,
+    hasWordDocument: !!generatedFilePath,
+    unresolvedFields,
+  };
+}
+
+/**
+ * Start partner approval of the generated letter
+ * @throws AppError 400 without a generated Word document, 409 if an approval is pending or done
+ */
+export async function submitEngagementLetterForApproval(taskId: number, userId: string) {
+  const letter = await prisma.taskEngagementLetter.findUnique({
+    where: { taskId },
+    select: {
+      id: true,
+      generatedFilePath: true,
+      Approval: { select: { status: true } },
+      Task: {
+        select: {
+          TaskDesc: true,
+          TaskCode: true,
+          TaskPartner: true,
+          Client: { select: { clientCode: true, clientNameFull: true } },
+        },
+      },
+    },
+  });
+
+  if (!letter?.generatedFilePath) {
+    throw new AppError(400, 'Generate the engagement letter before submitting it for approval', ErrorCodes.VALIDATION_ERROR);
+  }
+  if (letter.Approval && letter.Approval.status !== 'REJECTED') {
+    throw new AppError(
+      409,
+      letter.Approval.status === 'PENDING'
+        ? 'The generated letter is already waiting for approval'
+        : 'The generated letter has already been approved',
+      ErrorCodes.CONFLICT
+    );
+  }
+
+  const { Task: task } = letter;
+  const clientName = task.Client?.clientNameFull || task.Client?.clientCode || 'Unknown';
+
+  const approval = await approvalService.createApproval({
+    workflowType: 'ENGAGEMENT_LETTER',
+    workflowId: taskId,
+    title: `Engagement Letter for ${task.TaskDesc || task.TaskCode}`,
+    description: `Client: ${clientName} - generated letter`,
+    requestedById: userId,
+    context: {
+      taskId,
+      taskPartnerCode: task.TaskPartner,
+      clientCode: task.Client?.clientCode,
+      clientName,
+      generated: true,
+    },
+  });
+
+  await prisma.taskEngagementLetter.update({
+    where: { id: letter.id },
+    data: { approvalId: approval.id },
+  });
+
+  return { approvalId: approval.id, status: approval.status };
+}
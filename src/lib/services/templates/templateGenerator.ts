@@ -16,6 +16,8 @@ export interface TaskContext {
   clientCode?: string;
   clientName?: string;
   partnerName?: string;
+  /** Engagement letter merge field values - override the defaults above */
+  mergeFields?: Record<string, string>;
 }
 
 export interface GeneratedTemplate {
@@ -25,6 +27,11 @@ export interface GeneratedTemplate {
     title: string;
     wasAiAdapted: boolean;
   }>;
+  sections: Array<{
+    sectionKey: string;
+    title: string;
+    content: string;
+  }>;
   versionId?: number;  // Version ID used for generation (for audit trail)
   version?: number;    // Version number used
 }
@@ -125,6 +132,7 @@ export async function generateFromTemplate(
           title: s.title,
           wasAiAdapted: s.wasAiAdapted,
         })),
+        sections: processedSections.map(({ sectionKey, title, content }) => ({ sectionKey, title, content })),
         versionId: activeVersion.id,
         version: activeVersion.version,
       };
@@ -221,6 +229,7 @@ export async function generateFromTemplate(
         title: s.title,
         wasAiAdapted: s.wasAiAdapted,
       })),
+      sections: processedSections.map(({ sectionKey, title, content }) => ({ sectionKey, title, content })),
     };
   } catch (error) {
     logger.error('Error generating from template:', error);
@@ -306,9 +315,17 @@ function buildContextData(context: TaskContext): Record<string, string> {
     clientCode: context.clientCode || '',
     partnerName: context.partnerName || '',
     currentDate,
+    ...context.mergeFields,
   };
 }
 
+/**
+ * Replace {{placeholders}} in content outside a template, e.g. library clauses
+ */
+export function applyMergeFields(content: string, context: TaskContext): string {
+  return replacePlaceholders(content, buildContextData(context));
+}
+
 /**
  * Replace placeholders in content with actual values
  * Logs warnings for unknown placeholders (not in data context)
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { findMovedSections } from './templateVersionService';
+
+describe('findMovedSections', () => {
+  it('flags nothing when the order is unchanged', () => {
+    expect(findMovedSections(['a', 'b', 'c'], ['a', 'b', 'c'])).toEqual(new Set());
+  });
+
+  it('flags only the section moved to the end', () => {
+    expect(findMovedSections(['a', 'b', 'c', 'd'], ['b', 'c', 'd', 'a'])).toEqual(new Set(['a']));
+  });
+
+  it('flags only the section moved to the start', () => {
+    expect(findMovedSections(['a', 'b', 'c', 'd', 'e'], ['e', 'a', 'b', 'c', 'd'])).toEqual(new Set(['e']));
+  });
+
+  it('flags one side of a swap', () => {
+    expect(findMovedSections(['a', 'b', 'c'], ['a', 'c', 'b']).size).toBe(1);
+  });
+
+  it('flags every section outside the longest shared order', () => {
+    expect(findMovedSections(['a', 'b', 'c', 'd', 'e', 'f'], ['f', 'b', 'c', 'a', 'd', 'e'])).toEqual(
+      new Set(['f', 'a'])
+    );
+  });
+});
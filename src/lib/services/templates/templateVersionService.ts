@@ -3,7 +3,10 @@
  * Manages template versioning including creation, activation, and history
  */
 
+import type { Prisma } from '@prisma/client';
+import { diffWords } from 'diff';
 import { prisma } from '@/lib/db/prisma';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
 import { logger } from '@/lib/utils/logger';
 
 export interface CreateVersionData {
@@ -57,119 +60,124 @@ export interface VersionHistoryItem {
  * Deactivates previous active version and creates new active version
  */
 export async function createNewVersion(data: CreateVersionData): Promise<TemplateVersionWithSections> {
-  return await prisma.$transaction(async (tx) => {
-    // Get current template with sections
-    const template = await tx.template.findUnique({
-      where: { id: data.templateId },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        type: true,
-        serviceLine: true,
-        TemplateSection: {
-          select: {
-            sectionKey: true,
-            title: true,
-            content: true,
-            isRequired: true,
-            isAiAdaptable: true,
-            order: true,
-            applicableServiceLines: true,
-            applicableProjectTypes: true,
-          },
-          orderBy: { order: 'asc' },
+  return await prisma.$transaction((tx) => createVersionInTransaction(tx, data));
+}
+
+async function createVersionInTransaction(
+  tx: Prisma.TransactionClient,
+  data: CreateVersionData
+): Promise<TemplateVersionWithSections> {
+  // Get current template with sections
+  const template = await tx.template.findUnique({
+    where: { id: data.templateId },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      type: true,
+      serviceLine: true,
+      TemplateSection: {
+        select: {
+          sectionKey: true,
+          title: true,
+          content: true,
+          isRequired: true,
+          isAiAdaptable: true,
+          order: true,
+          applicableServiceLines: true,
+          applicableProjectTypes: true,
         },
+        orderBy: { order: 'asc' },
       },
-    });
+    },
+  });
 
-    if (!template) {
-      throw new Error('Template not found');
-    }
+  if (!template) {
+    throw new Error('Template not found');
+  }
 
-    // Get next version number
-    const latestVersion = await tx.templateVersion.findFirst({
-      where: { templateId: data.templateId },
-      orderBy: { version: 'desc' },
-      select: { version: true },
-    });
+  // Get next version number
+  const latestVersion = await tx.templateVersion.findFirst({
+    where: { templateId: data.templateId },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
 
-    const nextVersion = (latestVersion?.version || 0) + 1;
+  const nextVersion = (latestVersion?.version || 0) + 1;
 
-    // Deactivate all previous versions
-    await tx.templateVersion.updateMany({
-      where: { templateId: data.templateId, isActive: true },
-      data: { isActive: false },
-    });
+  // Deactivate all previous versions
+  await tx.templateVersion.updateMany({
+    where: { templateId: data.templateId, isActive: true },
+    data: { isActive: false },
+  });
 
-    // Create new version
-    const newVersion = await tx.templateVersion.create({
-      data: {
-        templateId: data.templateId,
-        version: nextVersion,
-        name: template.name,
-        description: template.description,
-        type: template.type,
-        serviceLine: template.serviceLine,
-        isActive: true,
-        createdBy: data.createdBy,
-        changeNotes: data.changeNotes,
-        TemplateSectionVersion: {
-          create: template.TemplateSection.map((section) => ({
-            sectionKey: section.sectionKey,
-            title: section.title,
-            content: section.content,
-            isRequired: section.isRequired,
-            isAiAdaptable: section.isAiAdaptable,
-            order: section.order,
-            applicableServiceLines: section.applicableServiceLines,
-            applicableProjectTypes: section.applicableProjectTypes,
-          })),
-        },
+  // Create new version
+  const newVersion = await tx.templateVersion.create({
+    data: {
+      templateId: data.templateId,
+      version: nextVersion,
+      name: template.name,
+      description: template.description,
+      type: template.type,
+      serviceLine: template.serviceLine,
+      isActive: true,
+      createdBy: data.createdBy,
+      changeNotes: data.changeNotes,
+      TemplateSectionVersion: {
+        create: template.TemplateSection.map((section) => ({
+          sectionKey: section.sectionKey,
+          title: section.title,
+          content: section.content,
+          isRequired: section.isRequired,
+          isAiAdaptable: section.isAiAdaptable,
+          order: section.order,
+          applicableServiceLines: section.applicableServiceLines,
+          applicableProjectTypes: section.applicableProjectTypes,
+        })),
       },
-      select: {
-        id: true,
-        templateId: true,
-        version: true,
-        name: true,
-        description: true,
-        type: true,
-        serviceLine: true,
-        isActive: true,
-        createdBy: true,
-        createdAt: true,
-        changeNotes: true,
-        TemplateSectionVersion: {
-          select: {
-            id: true,
-            sectionKey: true,
-            title: true,
-            content: true,
-            isRequired: true,
-            isAiAdaptable: true,
-            order: true,
-            applicableServiceLines: true,
-            applicableProjectTypes: true,
-          },
-          orderBy: { order: 'asc' },
+    },
+    select: {
+      id: true,
+      templateId: true,
+      version: true,
+      name: true,
+      description: true,
+      type: true,
+      serviceLine: true,
+      isActive: true,
+      createdBy: true,
+      createdAt: true,
+      changeNotes: true,
+      TemplateSectionVersion: {
+        select: {
+          id: true,
+          sectionKey: true,
+          title: true,
+          content: true,
+          isRequired: true,
+          isAiAdaptable: true,
+          order: true,
+          applicableServiceLines: true,
+          applicableProjectTypes: true,
         },
+        orderBy: { order: 'asc' },
       },
-    });
-
-    // Update template currentVersion
-    await tx.template.update({
-      where: { id: data.templateId },
-      data: { currentVersion: nextVersion },
-    });
+    },
+  });
 
-    logger.info('Created template version', {
-      templateId: data.templateId,
-      version: nextVersion,
-      sectionCount: template.TemplateSection.length,
-    });
+  // Update template currentVersion
+  await tx.template.update({
+    where: { id: data.templateId },
+    data: { currentVersion: nextVersion },
+  });
 
-    return newVersion;
+  logger.info('Created template version', {
+    templateId: data.templateId,
+    version: nextVersion,
+    sectionCount: template.TemplateSection.length,
   });
+
+  return newVersion;
 }
 
 /**
@@ -322,76 +330,476 @@ export async function activateVersion(versionId: number): Promise<void> {
  * This allows editing an old version by making it the current template state
  */
 export async function restoreVersion(versionId: number, restoredBy: string): Promise<void> {
-  await prisma.$transaction(async (tx) => {
-    // Get version with sections
-    const version = await tx.templateVersion.findUnique({
-      where: { id: versionId },
+  await prisma.$transaction((tx) => restoreVersionInTransaction(tx, versionId, restoredBy));
+}
+
+async function restoreVersionInTransaction(
+  tx: Prisma.TransactionClient,
+  versionId: number,
+  restoredBy: string
+): Promise<{ templateId: number; version: number }> {
+  // Get version with sections
+  const version = await tx.templateVersion.findUnique({
+    where: { id: versionId },
+    select: {
+      templateId: true,
+      version: true,
+      name: true,
+      description: true,
+      type: true,
+      serviceLine: true,
+      TemplateSectionVersion: {
+        select: {
+          sectionKey: true,
+          title: true,
+          content: true,
+          isRequired: true,
+          isAiAdaptable: true,
+          order: true,
+          applicableServiceLines: true,
+          applicableProjectTypes: true,
+        },
+        orderBy: { order: 'asc' },
+      },
+    },
+  });
+
+  if (!version) {
+    throw new Error('Version not found');
+  }
+
+  // Delete current sections
+  await tx.templateSection.deleteMany({
+    where: { templateId: version.templateId },
+  });
+
+  // Restore sections from version
+  await tx.templateSection.createMany({
+    data: version.TemplateSectionVersion.map((section) => ({
+      templateId: version.templateId,
+      sectionKey: section.sectionKey,
+      title: section.title,
+      content: section.content,
+      isRequired: section.isRequired,
+      isAiAdaptable: section.isAiAdaptable,
+      order: section.order,
+      applicableServiceLines: section.applicableServiceLines,
+      applicableProjectTypes: section.applicableProjectTypes,
+    })),
+  });
+
+  // Update template metadata
+  await tx.template.update({
+    where: { id: version.templateId },
+    data: {
+      name: version.name,
+      description: version.description,
+      type: version.type,
+      serviceLine: version.serviceLine,
+    },
+  });
+
+  logger.info('Restored template from version', {
+    templateId: version.templateId,
+    versionId,
+    version: version.version,
+    restoredBy,
+    sectionCount: version.TemplateSectionVersion.length,
+  });
+
+  return { templateId: version.templateId, version: version.version };
+}
+
+/**
+ * Restore a version as a new active version
+ * Copies the version's sections back to the template and snapshots them straight
+ * away, so earlier versions and the letters generated from them are untouched.
+ * @throws AppError 404 if the version does not belong to the template
+ */
+export async function restoreVersionAsNew(
+  templateId: number,
+  versionId: number,
+  restoredBy: string,
+  changeNotes?: string
+): Promise<TemplateVersionWithSections> {
+  return await prisma.$transaction(async (tx) => {
+    const source = await tx.templateVersion.findFirst({
+      where: { id: versionId, templateId },
+      select: { id: true },
+    });
+    if (!source) {
+      throw new AppError(404, 'Version not found', ErrorCodes.NOT_FOUND);
+    }
+
+    const restored = await restoreVersionInTransaction(tx, versionId, restoredBy);
+
+    return createVersionInTransaction(tx, {
+      templateId,
+      changeNotes: changeNotes || `Restored from version ${restored.version}`,
+      createdBy: restoredBy,
+    });
+  });
+}
+
+export interface VersionDiffPart {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+export interface SectionComparison {
+  sectionKey: string;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  /** Section changed position relative to the sections both sides share */
+  moved: boolean;
+  fromTitle: string | null;
+  toTitle: string | null;
+  fromPosition: number | null;
+  toPosition: number | null;
+  /** Non-content settings that changed (required, AI adaptable, applicability) */
+  settingsChanged: string[];
+  wordsAdded: number;
+  wordsRemoved: number;
+  diff: VersionDiffPart[];
+}
+
+export interface VersionComparison {
+  templateId: number;
+  from: { versionId: number | null; version: number | null; label: string };
+  to: { versionId: number | null; version: number | null; label: string };
+  metadataChanges: Array<{ field: string; from: string | null; to: string | null }>;
+  sections: SectionComparison[];
+  summary: { added: number; removed: number; modified: number; moved: number; unchanged: number };
+}
+
+interface SectionSnapshot {
+  sectionKey: string;
+  title: string;
+  content: string;
+  isRequired: boolean;
+  isAiAdaptable: boolean;
+  order: number;
+  applicableServiceLines: string | null;
+  applicableProjectTypes: string | null;
+}
+
+interface TemplateSnapshot {
+  versionId: number | null;
+  version: number | null;
+  label: string;
+  name: string;
+  description: string | null;
+  type: string;
+  serviceLine: string | null;
+  sections: SectionSnapshot[];
+}
+
+const SECTION_SNAPSHOT_SELECT = {
+  sectionKey: true,
+  title: true,
+  content: true,
+  isRequired: true,
+  isAiAdaptable: true,
+  order: true,
+  applicableServiceLines: true,
+  applicableProjectTypes: true,
+} as const;
+
+/**
+ * A version's snapshot, or the template's current (unversioned) sections
+ * @throws AppError 404 if the template or version does not exist
+ */
+async function loadSnapshot(templateId: number, ref: number | 'current'): Promise<TemplateSnapshot> {
+  if (ref === 'current') {
+    const template = await prisma.template.findUnique({
+      where: { id: templateId },
       select: {
-        templateId: true,
-        version: true,
         name: true,
         description: true,
         type: true,
         serviceLine: true,
-        TemplateSectionVersion: {
-          select: {
-            sectionKey: true,
-            title: true,
-            content: true,
-            isRequired: true,
-            isAiAdaptable: true,
-            order: true,
-            applicableServiceLines: true,
-            applicableProjectTypes: true,
-          },
-          orderBy: { order: 'asc' },
-        },
+        TemplateSection: { select: SECTION_SNAPSHOT_SELECT, orderBy: { order: 'asc' } },
       },
     });
+    if (!template) {
+      throw new AppError(404, 'Template not found', ErrorCodes.NOT_FOUND);
+    }
+    const { TemplateSection, ...metadata } = template;
+    return { versionId: null, version: null, label: 'Current template', ...metadata, sections: TemplateSection };
+  }
 
-    if (!version) {
-      throw new Error('Version not found');
+  const version = await prisma.templateVersion.findFirst({
+    where: { id: ref, templateId },
+    select: {
+      id: true,
+      version: true,
+      name: true,
+      description: true,
+      type: true,
+      serviceLine: true,
+      TemplateSectionVersion: { select: SECTION_SNAPSHOT_SELECT, orderBy: { order: 'asc' } },
+    },
+  });
+  if (!version) {
+    throw new AppError(404, 'Version not found', ErrorCodes.NOT_FOUND);
+  }
+  const { id, TemplateSectionVersion, ...metadata } = version;
+  return {
+    versionId: id,
+    label: `Version ${version.version}`,
+    ...metadata,
+    sections: TemplateSectionVersion,
+  };
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+function compareSection(from: SectionSnapshot | undefined, to: SectionSnapshot | undefined) {
+  const diff: VersionDiffPart[] = diffWords(from?.content ?? '', to?.content ?? '').map((part) => ({
+    value: part.value,
+    ...(part.added && { added: true }),
+    ...(part.removed && { removed: true }),
+  }));
+
+  const settingsChanged: string[] = [];
+  if (from && to) {
+    if (from.title !== to.title) settingsChanged.push('title');
+    if (from.isRequired !== to.isRequired) settingsChanged.push('required');
+    if (from.isAiAdaptable !== to.isAiAdaptable) settingsChanged.push('AI adaptable');
+    if (from.applicableServiceLines !== to.applicableServiceLines) settingsChanged.push('service lines');
+    if (from.applicableProjectTypes !== to.applicableProjectTypes) settingsChanged.push('project types');
+  }
+
+  return {
+    diff,
+    settingsChanged,
+    wordsAdded: diff.filter((p) => p.added).reduce((sum, p) => sum + countWords(p.value), 0),
+    wordsRemoved: diff.filter((p) => p.removed).reduce((sum, p) => sum + countWords(p.value), 0),
+  };
+}
+
+/**
+ * Keys of sections that moved between two orderings of the same keys
+ * The longest common subsequence is the order both sides agree on; only the
+ * sections outside it moved, so moving one section does not flag every
+ * section it jumped over.
+ */
+export function findMovedSections(fromOrder: string[], toOrder: string[]): Set<string> {
+  // lengths[i][j] = LCS length of fromOrder[i..] and toOrder[j..]
+  const lengths = Array.from({ length: fromOrder.length + 1 }, () => new Array<number>(toOrder.length + 1).fill(0));
+  for (let i = fromOrder.length - 1; i >= 0; i--) {
+    for (let j = toOrder.length - 1; j >= 0; j--) {
+      lengths[i]![j] =
+        fromOrder[i] === toOrder[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const inPlace = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < fromOrder.length && j < toOrder.length) {
+    if (fromOrder[i] === toOrder[j]) {
+      inPlace.add(fromOrder[i]!);
+      i++;
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      i++;
+    } else {
+      j++;
     }
+  }
 
-    // Delete current sections
-    await tx.templateSection.deleteMany({
-      where: { templateId: version.templateId },
-    });
+  return new Set(toOrder.filter((key) => !inPlace.has(key)));
+}
 
-    // Restore sections from version
-    await tx.templateSection.createMany({
-      data: version.TemplateSectionVersion.map((section) => ({
-        templateId: version.templateId,
-        sectionKey: section.sectionKey,
-        title: section.title,
-        content: section.content,
-        isRequired: section.isRequired,
-        isAiAdaptable: section.isAiAdaptable,
-        order: section.order,
-        applicableServiceLines: section.applicableServiceLines,
-        applicableProjectTypes: section.applicableProjectTypes,
-      })),
-    });
+/**
+ * Word-level comparison of two versions (or a version and the current template)
+ * Sections are matched by sectionKey. Output follows the "to" order, with removed
+ * sections placed after the section that preceded them.
+ * @throws AppError 404 if either side does not belong to the template
+ */
+export async function compareVersions(
+  templateId: number,
+  fromRef: number | 'current',
+  toRef: number | 'current'
+): Promise<VersionComparison> {
+  const [from, to] = await Promise.all([loadSnapshot(templateId, fromRef), loadSnapshot(templateId, toRef)]);
+
+  const fromByKey = new Map(from.sections.map((s) => [s.sectionKey, s]));
+  const toByKey = new Map(to.sections.map((s) => [s.sectionKey, s]));
+
+  // Relative order of the sections present on both sides decides "moved"
+  const moved = findMovedSections(
+    from.sections.filter((s) => toByKey.has(s.sectionKey)).map((s) => s.sectionKey),
+    to.sections.filter((s) => fromByKey.has(s.sectionKey)).map((s) => s.sectionKey)
+  );
+
+  const toSection = (key: string): SectionComparison => {
+    const a = fromByKey.get(key);
+    const b = toByKey.get(key);
+    const { diff, settingsChanged, wordsAdded, wordsRemoved } = compareSection(a, b);
+    const status = !a ? 'added' : !b ? 'removed' : wordsAdded + wordsRemoved > 0 || settingsChanged.length > 0
+      ? 'modified'
+      : 'unchanged';
+
+    return {
+      sectionKey: key,
+      status,
+      moved: moved.has(key),
+      fromTitle: a?.title ?? null,
+      toTitle: b?.title ?? null,
+      fromPosition: a ? from.sections.indexOf(a) + 1 : null,
+      toPosition: b ? to.sections.indexOf(b) + 1 : null,
+      settingsChanged,
+      wordsAdded,
+      wordsRemoved,
+      diff,
+    };
+  };
 
-    // Update template metadata
-    await tx.template.update({
-      where: { id: version.templateId },
-      data: {
-        name: version.name,
-        description: version.description,
-        type: version.type,
-        serviceLine: version.serviceLine,
-      },
-    });
+  const sections = to.sections.map((s) => toSection(s.sectionKey));
+  from.sections.forEach((section, index) => {
+    if (toByKey.has(section.sectionKey)) return;
+    const previousKey = from.sections[index - 1]?.sectionKey;
+    const at = previousKey ? sections.findIndex((s) => s.sectionKey === previousKey) + 1 : 0;
+    sections.splice(at, 0, toSection(section.sectionKey));
+  });
 
-    logger.info('Restored template from version', {
-      templateId: version.templateId,
-      versionId,
-      version: version.version,
-      restoredBy,
-      sectionCount: version.TemplateSectionVersion.length,
-    });
+  const metadataChanges = (['name', 'description', 'type', 'serviceLine'] as const)
+    .filter((field) => from[field] !== to[field])
+    .map((field) => ({ field, from: from[field], to: to[field] }));
+
+  return {
+    templateId,
+    from: { versionId: from.versionId, version: from.version, label: from.label },
+    to: { versionId: to.versionId, version: to.version, label: to.label },
+    metadataChanges,
+    sections,
+    summary: {
+      added: sections.filter((s) => s.status === 'added').length,
+      removed: sections.filter((s) => s.status === 'removed').length,
+      modified: sections.filter((s) => s.status === 'modified').length,
+      moved: sections.filter((s) => s.moved).length,
+      unchanged: sections.filter((s) => s.status === 'unchanged' && !s.moved).length,
+    },
+  };
+}
+
+export interface VersionUsageLetter {
+  taskId: number;
+  taskCode: string;
+  taskName: string;
+  clientCode: string | null;
+  clientName: string | null;
+  generatedAt: Date | null;
+  generatedBy: string | null;
+  /** Signed letter has been uploaded */
+  signed: boolean;
+}
+
+export interface VersionUsageItem {
+  versionId: number;
+  version: number;
+  isActive: boolean;
+  createdAt: Date;
+  /** Sections are identical to the active version's */
+  matchesActive: boolean;
+  letters: VersionUsageLetter[];
+}
+
+export interface TemplateVersionUsage {
+  templateId: number;
+  activeVersion: number | null;
+  versions: VersionUsageItem[];
+  /** Letters generated before the template was versioned */
+  unversioned: VersionUsageLetter[];
+  /** Letters whose wording differs from the active version */
+  outdatedLetterCount: number;
+}
+
+const sectionFingerprint = (sections: Array<Pick<SectionSnapshot, 'sectionKey' | 'title' | 'content'>>) =>
+  JSON.stringify(sections.map((s) => [s.sectionKey, s.title, s.content]));
+
+/**
+ * Which tasks generated engagement letters from each version of a template
+ */
+export async function getVersionUsage(templateId: number): Promise<TemplateVersionUsage> {
+  const [versions, letters] = await Promise.all([
+    prisma.templateVersion.findMany({
+      where: { templateId },
+      select: {
+        id: true,
+        version: true,
+        isActive: true,
+        createdAt: true,
+        TemplateSectionVersion: {
+          select: { sectionKey: true, title: true, content: true },
+          orderBy: { order: 'asc' },
+        },
+      },
+      orderBy: { version: 'desc' },
+    }),
+    prisma.taskEngagementLetter.findMany({
+      where: { templateId, generated: true },
+      select: {
+        templateVersionId: true,
+        generatedAt: true,
+        generatedBy: true,
+        uploaded: true,
+        Task: {
+          select: {
+            id: true,
+            TaskCode: true,
+            TaskDesc: true,
+            Client: { select: { clientCode: true, clientNameFull: true } },
+          },
+        },
+      },
+      orderBy: { generatedAt: 'desc' },
+    }),
+  ]);
+
+  const userIds = [...new Set(letters.map((l) => l.generatedBy).filter((id): id is string => !!id))];
+  const users = userIds.length
+    ? await prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, name: true, email: true } })
+    : [];
+  const userNames = new Map(users.map((u) => [u.id, u.name || u.email]));
+
+  const toLetter = (letter: (typeof letters)[number]): VersionUsageLetter => ({
+    taskId: letter.Task.id,
+    taskCode: letter.Task.TaskCode,
+    taskName: letter.Task.TaskDesc,
+    clientCode: letter.Task.Client?.clientCode ?? null,
+    clientName: letter.Task.Client?.clientNameFull ?? null,
+    generatedAt: letter.generatedAt,
+    generatedBy: letter.generatedBy ? userNames.get(letter.generatedBy) ?? letter.generatedBy : null,
+    signed: letter.uploaded,
   });
+
+  const active = versions.find((v) => v.isActive);
+  const activeFingerprint = active ? sectionFingerprint(active.TemplateSectionVersion) : null;
+
+  const usage: VersionUsageItem[] = versions.map((v) => ({
+    versionId: v.id,
+    version: v.version,
+    isActive: v.isActive,
+    createdAt: v.createdAt,
+    matchesActive: v.isActive || sectionFingerprint(v.TemplateSectionVersion) === activeFingerprint,
+    letters: letters.filter((l) => l.templateVersionId === v.id).map(toLetter),
+  }));
+  const unversioned = letters.filter((l) => l.templateVersionId === null).map(toLetter);
+
+  return {
+    templateId,
+    activeVersion: active?.version ?? null,
+    versions: usage,
+    unversioned,
+    outdatedLetterCount:
+      usage.filter((v) => !v.matchesActive).reduce((sum, v) => sum + v.letters.length, 0) +
+      (active ? unversioned.length : 0),
+  };
 }
 
 /**
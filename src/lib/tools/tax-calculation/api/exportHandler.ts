@@ -4,6 +4,8 @@ import { ExcelExporter } from '@/lib/services/export/excelExporter';
 import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
 import type { TaskId } from '@/types/branded';
 import type { TaxExportData } from '@/types/api';
+import { TaxComputationEngine } from '../services/taxComputationEngine';
+import type { TaxComputationOptions } from '../types';
 
 /**
  * Export tax calculation data
@@ -11,7 +13,8 @@ import type { TaxExportData } from '@/types/api';
 export async function exportTaxCalculation(
   taskId: TaskId,
   format: string,
-  accountingProfit: number
+  accountingProfit: number,
+  options: Pick<TaxComputationOptions, 'yearEnd' | 'entityType'>
 ): Promise<NextResponse> {
   // Fetch project
   const task = await prisma.task.findUnique({
@@ -35,20 +38,19 @@ export async function exportTaxCalculation(
     },
   });
 
-  // Calculate totals
-  const debitAdjustments = adjustments.filter((a) => a.type === 'DEBIT');
-  const creditAdjustments = adjustments.filter((a) => a.type === 'CREDIT');
-  const allowanceAdjustments = adjustments.filter((a) => a.type === 'ALLOWANCE');
-
-  const totalDebits = debitAdjustments.reduce((sum, a) => sum + Math.abs(a.amount), 0);
-  const totalCredits = creditAdjustments.reduce((sum, a) => sum + Math.abs(a.amount), 0);
-  const totalAllowances = allowanceAdjustments.reduce(
-    (sum, a) => sum + Math.abs(a.amount),
-    0
-  );
-
-  const taxableIncome = accountingProfit + totalDebits - totalCredits + totalAllowances;
-  const taxLiability = Math.max(0, taxableIncome) * 0.27;
+  const computation = TaxComputationEngine.compute({
+    ...options,
+    accountingProfit,
+    adjustments: adjustments.map((adj) => ({
+      type: adj.type as TaxExportData['adjustments'][number]['type'],
+      description: adj.description,
+      amount: adj.amount,
+      sarsSection: adj.sarsSection,
+    })),
+    assessedLossBroughtForward: 0,
+    capitalAssets: [],
+    provisionalPayments: [],
+  });
 
   const exportData: TaxExportData = {
     taskName: task.TaskDesc,
@@ -62,8 +64,8 @@ export async function exportTaxCalculation(
       sarsSection: adj.sarsSection || undefined,
       notes: adj.notes || undefined,
     })),
-    taxableIncome,
-    taxLiability,
+    taxableIncome: computation.taxableIncome,
+    taxLiability: computation.taxLiability,
   };
 
   // Export based on format
@@ -0,0 +1,553 @@
+import { addYears } from 'date-fns';
+import { prisma } from '@/lib/db/prisma';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import { logger } from '@/lib/utils/logger';
+import { checkTaskAccess } from '@/lib/services/tasks/taskAuthorization';
+import { toTaskId, type TaskId } from '@/types/branded';
+import type {
+  AccountVariance,
+  CapitalAssetInput,
+  CarriedAdjustment,
+  MappingStrategy,
+  RollForwardCandidate,
+  RollForwardReport,
+} from '../types';
+import {
+  COMPUTATION_ADJUSTMENT_STATUSES,
+  computeTaxForTask,
+  getTaxComputationProfile,
+  serializeCapitalAssets,
+} from './taxComputationHandler';
+
+interface AccountRow {
+  id: number;
+  accountCode: string;
+  accountName: string;
+  section: string;
+  subsection: string;
+  balance: number;
+  priorYearBalance: number;
+  sarsItem: string;
+}
+
+interface CalculationDetails {
+  method?: string;
+  inputs?: Record<string, string | number>;
+  [key: string]: unknown;
+}
+
+const ACCOUNT_SELECT = {
+  id: true,
+  accountCode: true,
+  accountName: true,
+  section: true,
+  subsection: true,
+  balance: true,
+  priorYearBalance: true,
+  sarsItem: true,
+} as const;
+
+const MAX_CANDIDATES = 10;
+
+function accountKey(accountCode: string): string {
+  return accountCode.trim().toUpperCase();
+}
+
+function adjustmentKey(type: string, description: string): string {
+  return `${type}|${description.trim().toLowerCase()}`;
+}
+
+function assetKey(asset: CapitalAssetInput): string {
+  return [
+    asset.allowanceType,
+    asset.description.trim().toLowerCase(),
+    asset.dateBroughtIntoUse.toISOString().slice(0, 10),
+    asset.cost,
+  ].join('|');
+}
+
+function parseCalculationDetails(value: string | null): CalculationDetails | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? (parsed as CalculationDetails) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Prior-year tasks for the same client and service line that have mapped accounts
+ */
+export async function getRollForwardCandidates(taskId: TaskId): Promise<RollForwardCandidate[]> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { id: true, GSClientID: true, ServLineCode: true, taskYear: true },
+  });
+
+  if (!task) {
+    throw new AppError(404, 'Task not found', ErrorCodes.NOT_FOUND);
+  }
+
+  if (!task.GSClientID) return [];
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      GSClientID: task.GSClientID,
+      ServLineCode: task.ServLineCode,
+      taskYear: { lt: task.taskYear },
+      MappedAccount: { some: {} },
+    },
+    select: {
+      id: true,
+      TaskCode: true,
+      TaskDesc: true,
+      taskYear: true,
+      _count: { select: { MappedAccount: true } },
+    },
+    orderBy: [{ taskYear: 'desc' }, { id: 'desc' }],
+    take: MAX_CANDIDATES,
+  });
+
+  return tasks.map((t) => ({
+    id: t.id,
+    TaskCode: t.TaskCode,
+    TaskDesc: t.TaskDesc,
+    taskYear: t.taskYear,
+    mappedAccountCount: t._count.MappedAccount,
+  }));
+}
+
+/**
+ * Resolve the prior-year task to roll forward from
+ * An explicit source must meet the same rules as the auto-selected candidate
+ * (same client and service line) and the user must be able to view it
+ */
+async function resolveSourceTask(taskId: TaskId, sourceTaskId: number | undefined, userId: string) {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { id: true, GSClientID: true, ServLineCode: true, taskYear: true },
+  });
+
+  if (!task) {
+    throw new AppError(404, 'Task not found', ErrorCodes.NOT_FOUND);
+  }
+
+  if (sourceTaskId === undefined) {
+    const [candidate] = await getRollForwardCandidates(taskId);
+    if (!candidate) {
+      throw new AppError(
+        404,
+        'No prior-year task with mapped accounts was found for this client',
+        ErrorCodes.NOT_FOUND
+      );
+    }
+    sourceTaskId = candidate.id;
+  }
+
+  if (sourceTaskId === task.id) {
+    throw new AppError(400, 'A task cannot be rolled forward from itself', ErrorCodes.VALIDATION_ERROR);
+  }
+
+  const source = await prisma.task.findUnique({
+    where: { id: sourceTaskId },
+    select: { id: true, TaskCode: true, TaskDesc: true, taskYear: true, GSClientID: true, ServLineCode: true },
+  });
+
+  // Only roll forward within the same client and service line so no other
+  // engagement's data is exposed - report a mismatch as not found
+  if (
+    !source ||
+    !task.GSClientID ||
+    source.GSClientID !== task.GSClientID ||
+    source.ServLineCode !== task.ServLineCode
+  ) {
+    throw new AppError(404, 'Prior-year task not found', ErrorCodes.NOT_FOUND, { sourceTaskId });
+  }
+
+  const access = await checkTaskAccess(userId, toTaskId(source.id), 'VIEWER');
+  if (!access.canAccess) {
+    throw new AppError(403, 'Forbidden - No access to the prior-year task', ErrorCodes.FORBIDDEN, { sourceTaskId });
+  }
+
+  if (source.taskYear >= task.taskYear) {
+    throw new AppError(
+      400,
+      `Task ${source.TaskCode} (${source.taskYear}) is not from an earlier year than this task (${task.taskYear})`,
+      ErrorCodes.VALIDATION_ERROR
+    );
+  }
+
+  return { id: source.id, TaskCode: source.TaskCode, TaskDesc: source.TaskDesc, taskYear: source.taskYear };
+}
+
+/**
+ * Formula-based adjustments are linked to a mapped account and recur each year
+ */
+function isFormulaBased(details: CalculationDetails | null): boolean {
+  return typeof details?.inputs?.accountCode === 'string';
+}
+
+/**
+ * Keep the assets already on this year's profile and append carried-forward
+ * assets that are not on it yet
+ */
+function mergeCapitalAssets(current: CapitalAssetInput[], carried: CapitalAssetInput[]): CapitalAssetInput[] {
+  const present = new Set(current.map(assetKey));
+  return [...current, ...carried.filter((asset) => !present.has(assetKey(asset)))];
+}
+
+/**
+ * Recalculate a formula-based adjustment from the current year's account
+ * Movement-based adjustments use balance less prior year balance; the rest use
+ * the absolute balance of the linked account.
+ */
+function recalculateAdjustment(
+  details: CalculationDetails | null,
+  currentAccounts: Map<string, AccountRow>,
+  priorYearBalances: Map<string, number>
+): { amount: number; inputs: Record<string, string | number> } | null {
+  const inputs = details?.inputs;
+  const accountCode = inputs?.accountCode;
+  if (!inputs || typeof accountCode !== 'string') return null;
+
+  const key = accountKey(accountCode);
+  const account = currentAccounts.get(key);
+  if (!account) return null;
+
+  const priorYearBalance = priorYearBalances.get(key) ?? account.priorYearBalance;
+  const isMovement = 'movement' in inputs;
+  const movement = account.balance - priorYearBalance;
+
+  return {
+    amount: Math.abs(isMovement ? movement : account.balance),
+    inputs: {
+      ...inputs,
+      accountBalance: account.balance,
+      accountName: account.accountName,
+      ...(isMovement ? { priorYearBalance, movement } : {}),
+    },
+  };
+}
+
+async function buildRollForward(
+  taskId: TaskId,
+  sourceTaskId: number | undefined,
+  mappingStrategy: MappingStrategy,
+  userId: string
+) {
+  const sourceTask = await resolveSourceTask(taskId, sourceTaskId, userId);
+
+  const [priorAccounts, currentAccounts, priorAdjustments, currentAdjustments, priorProfile, currentProfile] =
+    await Promise.all([
+      prisma.mappedAccount.findMany({ where: { taskId: sourceTask.id }, select: ACCOUNT_SELECT }),
+      prisma.mappedAccount.findMany({ where: { taskId }, select: ACCOUNT_SELECT }),
+      prisma.taxAdjustment.findMany({
+        where: { taskId: sourceTask.id, status: { in: COMPUTATION_ADJUSTMENT_STATUSES } },
+        select: {
+          id: true,
+          type: true,
+          description: true,
+          amount: true,
+          sarsSection: true,
+          calculationDetails: true,
+          confidenceScore: true,
+          isRecurring: true,
+        },
+        orderBy: { id: 'asc' },
+      }),
+      prisma.taxAdjustment.findMany({ where: { taskId }, select: { type: true, description: true } }),
+      getTaxComputationProfile(toTaskId(sourceTask.id)),
+      getTaxComputationProfile(taskId),
+    ]);
+
+  const priorByCode = new Map(priorAccounts.map((a) => [accountKey(a.accountCode), a]));
+  const currentByCode = new Map(currentAccounts.map((a) => [accountKey(a.accountCode), a]));
+  const seeded = currentAccounts.length === 0;
+
+  // Accounts
+  const accountsToCreate: AccountRow[] = [];
+  const accountUpdates: Array<{ id: number; data: Partial<AccountRow> }> = [];
+  const appeared: AccountVariance[] = [];
+  const disappeared: AccountVariance[] = [];
+  const remapped: AccountVariance[] = [];
+  let matched = 0;
+
+  if (seeded) {
+    accountsToCreate.push(...priorAccounts);
+  } else {
+    for (const [key, current] of currentByCode) {
+      const prior = priorByCode.get(key);
+      if (!prior) {
+        appeared.push({
+          accountCode: current.accountCode,
+          accountName: current.accountName,
+          currentSarsItem: current.sarsItem,
+          currentBalance: current.balance,
+        });
+        continue;
+      }
+
+      matched++;
+      const data: Partial<AccountRow> = { priorYearBalance: prior.balance };
+
+      if (prior.sarsItem !== current.sarsItem) {
+        remapped.push({
+          accountCode: current.accountCode,
+          accountName: current.accountName,
+          priorSarsItem: prior.sarsItem,
+          currentSarsItem: current.sarsItem,
+          priorBalance: prior.balance,
+          currentBalance: current.balance,
+        });
+        if (mappingStrategy === 'PRIOR_YEAR') {
+          data.sarsItem = prior.sarsItem;
+          data.section = prior.section;
+          data.subsection = prior.subsection;
+        }
+      }
+
+      accountUpdates.push({ id: current.id, data });
+    }
+
+    for (const [key, prior] of priorByCode) {
+      if (!currentByCode.has(key)) {
+        disappeared.push({
+          accountCode: prior.accountCode,
+          accountName: prior.accountName,
+          priorSarsItem: prior.sarsItem,
+          priorBalance: prior.balance,
+        });
+      }
+    }
+  }
+
+  // Recurring adjustments - flagged by the preparer or formula-based - proposed again for review
+  const existingAdjustments = new Set(currentAdjustments.map((a) => adjustmentKey(a.type, a.description)));
+  const priorYearBalances = new Map(priorAccounts.map((a) => [accountKey(a.accountCode), a.balance]));
+  const carried: CarriedAdjustment[] = [];
+  const skipped: RollForwardReport['adjustments']['skipped'] = [];
+  const adjustmentsToCreate: Array<{
+    type: string;
+    description: string;
+    amount: number;
+    sarsSection: string | null;
+    confidenceScore: number | null;
+    calculationDetails: string;
+    isRecurring: boolean;
+  }> = [];
+
+  for (const adjustment of priorAdjustments) {
+    if (existingAdjustments.has(adjustmentKey(adjustment.type, adjustment.description))) {
+      skipped.push({
+        sourceAdjustmentId: adjustment.id,
+        description: adjustment.description,
+        reason: 'Already exists on this task',
+      });
+      continue;
+    }
+
+    const details = parseCalculationDetails(adjustment.calculationDetails);
+    if (!adjustment.isRecurring && !isFormulaBased(details)) {
+      skipped.push({
+        sourceAdjustmentId: adjustment.id,
+        description: adjustment.description,
+        reason: 'Not marked as recurring',
+      });
+      continue;
+    }
+
+    // Seeded accounts have no current-year balances yet, so keep the prior amount
+    const recalculation = seeded ? null : recalculateAdjustment(details, currentByCode, priorYearBalances);
+    const amount = recalculation ? recalculation.amount : adjustment.amount;
+
+    carried.push({
+      sourceAdjustmentId: adjustment.id,
+      type: adjustment.type,
+      description: adjustment.description,
+      sarsSection: adjustment.sarsSection,
+      priorAmount: adjustment.amount,
+      amount,
+      recalculated: recalculation !== null,
+    });
+
+    adjustmentsToCreate.push({
+      type: adjustment.type,
+      description: adjustment.description,
+      amount,
+      sarsSection: adjustment.sarsSection,
+      confidenceScore: adjustment.confidenceScore,
+      isRecurring: adjustment.isRecurring,
+      calculationDetails: JSON.stringify({
+        ...(details ?? {}),
+        ...(recalculation ? { inputs: recalculation.inputs } : {}),
+        rolledForwardFrom: {
+          taskId: sourceTask.id,
+          adjustmentId: adjustment.id,
+          priorAmount: adjustment.amount,
+          recalculated: recalculation !== null,
+        },
+      }),
+    });
+  }
+
+  // Opening positions from the prior year's closing computation
+  const openingPositions: RollForwardReport['openingPositions'] = {
+    imported: false,
+    yearEnd: currentProfile?.yearEnd ?? null,
+    entityType: currentProfile?.entityType ?? null,
+    assessedLossBroughtForward: currentProfile?.assessedLossBroughtForward ?? 0,
+    capitalAssets: currentProfile?.capitalAssets ?? [],
+  };
+
+  if (!priorProfile) {
+    openingPositions.note = `Task ${sourceTask.TaskCode} has no tax computation profile - opening positions were not imported`;
+  } else {
+    try {
+      const closing = await computeTaxForTask(toTaskId(sourceTask.id), {
+        yearEnd: priorProfile.yearEnd,
+        entityType: priorProfile.entityType,
+        assessedLossBroughtForward: priorProfile.assessedLossBroughtForward,
+        capitalAssets: priorProfile.capitalAssets,
+        provisionalPayments: [],
+      });
+
+      openingPositions.imported = true;
+      openingPositions.yearEnd = currentProfile?.yearEnd ?? addYears(priorProfile.yearEnd, 1);
+      openingPositions.entityType = currentProfile?.entityType ?? priorProfile.entityType;
+      openingPositions.assessedLossBroughtForward = closing.assessedLoss.carriedForward;
+      // Carry assets that still have a tax value, with the allowances claimed to date
+      const carriedAssets = priorProfile.capitalAssets.flatMap((asset, index) => {
+        const line = closing.capitalAllowances[index];
+        if (!line || line.taxValueCarriedForward <= 0) return [];
+        return [{ ...asset, priorAllowances: asset.cost - line.taxValueCarriedForward }];
+      });
+      openingPositions.capitalAssets = mergeCapitalAssets(currentProfile?.capitalAssets ?? [], carriedAssets);
+    } catch (error) {
+      openingPositions.note = `Closing positions for task ${sourceTask.TaskCode} could not be computed: ${
+        error instanceof Error ? error.message : 'unknown error'
+      }`;
+    }
+  }
+
+  const report: RollForwardReport = {
+    applied: false,
+    sourceTask,
+    mappingStrategy,
+    accounts: {
+      seeded,
+      created: accountsToCreate.length,
+      matched,
+      appeared,
+      disappeared,
+      remapped,
+    },
+    adjustments: { carried, skipped },
+    openingPositions,
+  };
+
+  return { report, accountsToCreate, accountUpdates, adjustmentsToCreate };
+}
+
+/**
+ * Preview a roll-forward without changing anything
+ */
+export async function previewRollForward(
+  taskId: TaskId,
+  sourceTaskId: number | undefined,
+  mappingStrategy: MappingStrategy,
+  userId: string
+): Promise<RollForwardReport> {
+  const { report } = await buildRollForward(taskId, sourceTaskId, mappingStrategy, userId);
+  return report;
+}
+
+/**
+ * Roll a tax calculation task forward from the prior year's task
+ * Copies account mappings and prior year balances, proposes recurring
+ * adjustments as SUGGESTED and imports closing positions as opening positions.
+ * Assets already on this year's profile are kept; carried-forward assets are
+ * appended.
+ */
+export async function rollForwardTask(
+  taskId: TaskId,
+  sourceTaskId: number | undefined,
+  mappingStrategy: MappingStrategy,
+  userId: string
+): Promise<RollForwardReport> {
+  const { report, accountsToCreate, accountUpdates, adjustmentsToCreate } = await buildRollForward(
+    taskId,
+    sourceTaskId,
+    mappingStrategy,
+    userId
+  );
+  const { sourceTask, openingPositions } = report;
+  const note = `Rolled forward from ${sourceTask.TaskCode} (${sourceTask.taskYear})`;
+
+  await prisma.$transaction(async (tx) => {
+    if (accountsToCreate.length > 0) {
+      await tx.mappedAccount.createMany({
+        data: accountsToCreate.map((account) => ({
+          taskId,
+          accountCode: account.accountCode,
+          accountName: account.accountName,
+          section: account.section,
+          subsection: account.subsection,
+          sarsItem: account.sarsItem,
+          balance: 0,
+          priorYearBalance: account.balance,
+          updatedAt: new Date(),
+        })),
+      });
+    }
+
+    for (const update of accountUpdates) {
+      await tx.mappedAccount.update({
+        where: { id: update.id },
+        data: update.data,
+      });
+    }
+
+    if (adjustmentsToCreate.length > 0) {
+      await tx.taxAdjustment.createMany({
+        data: adjustmentsToCreate.map((adjustment) => ({
+          ...adjustment,
+          taskId,
+          status: 'SUGGESTED',
+          notes: note,
+          updatedAt: new Date(),
+        })),
+      });
+    }
+
+    if (openingPositions.imported && openingPositions.yearEnd && openingPositions.entityType) {
+      const values = {
+        yearEnd: openingPositions.yearEnd,
+        entityType: openingPositions.entityType,
+        assessedLossBroughtForward: openingPositions.assessedLossBroughtForward,
+        capitalAssets: serializeCapitalAssets(openingPositions.capitalAssets),
+        rolledForwardFromTaskId: sourceTask.id,
+        rolledForwardAt: new Date(),
+        rolledForwardBy: userId,
+      };
+
+      await tx.taxComputationProfile.upsert({
+        where: { taskId },
+        create: { taskId, ...values },
+        update: values,
+      });
+    }
+  });
+
+  logger.info('Rolled forward tax calculation task', {
+    taskId,
+    sourceTaskId: sourceTask.id,
+    userId,
+    accountsCreated: accountsToCreate.length,
+    accountsUpdated: accountUpdates.length,
+    adjustmentsCarried: adjustmentsToCreate.length,
+    openingPositionsImported: openingPositions.imported,
+  });
+
+  return { ...report, applied: true };
+}
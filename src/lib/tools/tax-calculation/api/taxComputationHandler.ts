@@ -0,0 +1,131 @@
+import { prisma } from '@/lib/db/prisma';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import type { TaskId } from '@/types/branded';
+import { TaxComputationEngine } from '../services/taxComputationEngine';
+import type {
+  CapitalAssetInput,
+  TaxComputationInput,
+  TaxComputationOptions,
+  TaxComputationResult,
+  TaxEntityType,
+} from '../types';
+import { getTaxCalculationData } from './taxCalculationHandler';
+
+// Only reviewed adjustments feed the computation
+export const COMPUTATION_ADJUSTMENT_STATUSES = ['APPROVED', 'MODIFIED'];
+
+export interface TaxComputationProfileData {
+  taskId: number;
+  yearEnd: Date;
+  entityType: TaxEntityType;
+  assessedLossBroughtForward: number;
+  capitalAssets: CapitalAssetInput[];
+  rolledForwardFromTaskId: number | null;
+  rolledForwardAt: Date | null;
+  updatedAt: Date;
+}
+
+type StoredCapitalAsset = Omit<CapitalAssetInput, 'dateBroughtIntoUse'> & { dateBroughtIntoUse: string };
+
+export function serializeCapitalAssets(assets: CapitalAssetInput[]): string {
+  return JSON.stringify(
+    assets.map((asset) => ({ ...asset, dateBroughtIntoUse: asset.dateBroughtIntoUse.toISOString() }))
+  );
+}
+
+function parseCapitalAssets(value: string | null): CapitalAssetInput[] {
+  if (!value) return [];
+  const stored = JSON.parse(value) as StoredCapitalAsset[];
+  return stored.map((asset) => ({ ...asset, dateBroughtIntoUse: new Date(asset.dateBroughtIntoUse) }));
+}
+
+/**
+ * Get the saved opening positions for a task's computation
+ */
+export async function getTaxComputationProfile(taskId: TaskId): Promise<TaxComputationProfileData | null> {
+  const profile = await prisma.taxComputationProfile.findUnique({
+    where: { taskId },
+  });
+
+  if (!profile) return null;
+
+  return {
+    taskId: profile.taskId,
+    yearEnd: profile.yearEnd,
+    entityType: profile.entityType as TaxEntityType,
+    assessedLossBroughtForward: profile.assessedLossBroughtForward,
+    capitalAssets: parseCapitalAssets(profile.capitalAssets),
+    rolledForwardFromTaskId: profile.rolledForwardFromTaskId,
+    rolledForwardAt: profile.rolledForwardAt,
+    updatedAt: profile.updatedAt,
+  };
+}
+
+/**
+ * Save the opening positions for a task's computation
+ */
+export async function saveTaxComputationProfile(
+  taskId: TaskId,
+  data: Pick<TaxComputationProfileData, 'yearEnd' | 'entityType' | 'assessedLossBroughtForward' | 'capitalAssets'>
+): Promise<TaxComputationProfileData> {
+  const values = {
+    yearEnd: data.yearEnd,
+    entityType: data.entityType,
+    assessedLossBroughtForward: data.assessedLossBroughtForward,
+    capitalAssets: serializeCapitalAssets(data.capitalAssets),
+  };
+
+  await prisma.taxComputationProfile.upsert({
+    where: { taskId },
+    create: { taskId, ...values },
+    update: values,
+  });
+
+  return (await getTaxComputationProfile(taskId))!;
+}
+
+/**
+ * Compute the income tax liability for a task
+ * Accounting profit comes from the mapped income statement accounts and the
+ * adjustments from approved/modified TaxAdjustment rows.
+ */
+export async function computeTaxForTask(
+  taskId: TaskId,
+  options: TaxComputationOptions
+): Promise<TaxComputationResult> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { id: true },
+  });
+
+  if (!task) {
+    throw new AppError(404, 'Task not found', ErrorCodes.NOT_FOUND);
+  }
+
+  const [{ netProfit }, adjustments] = await Promise.all([
+    getTaxCalculationData(taskId),
+    prisma.taxAdjustment.findMany({
+      where: {
+        taskId,
+        status: { in: COMPUTATION_ADJUSTMENT_STATUSES },
+      },
+      select: {
+        type: true,
+        description: true,
+        amount: true,
+        sarsSection: true,
+      },
+    }),
+  ]);
+
+  return TaxComputationEngine.compute({
+    ...options,
+    accountingProfit: netProfit,
+    adjustments: adjustments.map((adj) => ({
+      type: adj.type as TaxComputationInput['adjustments'][number]['type'],
+      description: adj.description,
+      amount: adj.amount,
+      sarsSection: adj.sarsSection,
+    })),
+  });
+}
@@ -11,6 +11,9 @@ export const taxCalculationToolConfig: ToolConfig = {
     endpoints: [
       'tax-calculation',
       'tax-calculation/export',
+      'tax-calculation/compute',
+      'tax-calculation/profile',
+      'tax-calculation/roll-forward',
       'tax-adjustments',
       'tax-adjustments/[adjustmentId]',
       'tax-adjustments/[adjustmentId]/documents',
@@ -0,0 +1,162 @@
+/**
+ * SARS corporate income tax rate tables
+ *
+ * Tables are selected by the company's financial year end (its year of
+ * assessment). When SARS publishes new tables, add a row and bump
+ * TAX_TABLES_VERSION so stored computations can be traced to the tables used.
+ */
+
+export const TAX_TABLES_VERSION = '2026.1';
+
+export interface CompanyRateRule {
+  yearEndOnOrAfter: string;
+  rate: number;
+}
+
+export interface AssessedLossRule {
+  yearEndOnOrAfter: string;
+  /** Set-off is limited to the greater of this amount and the percentage below */
+  minimumSetOff: number;
+  percentageOfIncome: number;
+}
+
+export interface SbcBand {
+  /** Taxable income above this amount falls in the band */
+  threshold: number;
+  baseTax: number;
+  /** Marginal rate; null means the company rate applies (top band) */
+  rate: number | null;
+}
+
+export interface SbcRateTable {
+  yearOfAssessment: number;
+  periodStart: string;
+  periodEnd: string;
+  bands: SbcBand[];
+}
+
+/**
+ * Company rate - newest rule first.
+ * 27% applies to years of assessment ending on or after 31 March 2023.
+ */
+export const COMPANY_RATE_SCHEDULE: CompanyRateRule[] = [
+  { yearEndOnOrAfter: '2023-03-31', rate: 0.27 },
+  { yearEndOnOrAfter: '1900-01-01', rate: 0.28 },
+];
+
+/**
+ * Assessed loss set-off limitation (s20(1)(a)) - newest rule first.
+ * Years ending before the first rule may set off the full balance.
+ */
+export const ASSESSED_LOSS_RULES: AssessedLossRule[] = [
+  { yearEndOnOrAfter: '2023-03-31', minimumSetOff: 1_000_000, percentageOfIncome: 0.8 },
+];
+
+/**
+ * Small business corporation (s12E) tables - newest first.
+ * The top band uses the company rate for the year end.
+ */
+export const SBC_RATE_TABLES: SbcRateTable[] = [
+  {
+    yearOfAssessment: 2026,
+    periodStart: '2025-04-01',
+    periodEnd: '2026-03-31',
+    bands: [
+      { threshold: 0, baseTax: 0, rate: 0 },
+      { threshold: 95_750, baseTax: 0, rate: 0.07 },
+      { threshold: 365_000, baseTax: 18_848, rate: 0.21 },
+      { threshold: 550_000, baseTax: 57_698, rate: null },
+    ],
+  },
+  {
+    yearOfAssessment: 2025,
+    periodStart: '2024-04-01',
+    periodEnd: '2025-03-31',
+    bands: [
+      { threshold: 0, baseTax: 0, rate: 0 },
+      { threshold: 95_750, baseTax: 0, rate: 0.07 },
+      { threshold: 365_000, baseTax: 18_848, rate: 0.21 },
+      { threshold: 550_000, baseTax: 57_698, rate: null },
+    ],
+  },
+  {
+    yearOfAssessment: 2024,
+    periodStart: '2023-04-01',
+    periodEnd: '2024-03-31',
+    bands: [
+      { threshold: 0, baseTax: 0, rate: 0 },
+      { threshold: 95_750, baseTax: 0, rate: 0.07 },
+      { threshold: 365_000, baseTax: 18_848, rate: 0.21 },
+      { threshold: 550_000, baseTax: 57_698, rate: null },
+    ],
+  },
+  {
+    yearOfAssessment: 2023,
+    periodStart: '2022-04-01',
+    periodEnd: '2023-03-31',
+    bands: [
+      { threshold: 0, baseTax: 0, rate: 0 },
+      { threshold: 91_250, baseTax: 0, rate: 0.07 },
+      { threshold: 365_000, baseTax: 19_163, rate: 0.21 },
+      { threshold: 550_000, baseTax: 58_013, rate: null },
+    ],
+  },
+  {
+    yearOfAssessment: 2022,
+    periodStart: '2021-04-01',
+    periodEnd: '2022-03-31',
+    bands: [
+      { threshold: 0, baseTax: 0, rate: 0 },
+      { threshold: 87_300, baseTax: 0, rate: 0.07 },
+      { threshold: 365_000, baseTax: 19_439, rate: 0.21 },
+      { threshold: 550_000, baseTax: 58_289, rate: null },
+    ],
+  },
+  {
+    yearOfAssessment: 2021,
+    periodStart: '2020-04-01',
+    periodEnd: '2021-03-31',
+    bands: [
+      { threshold: 0, baseTax: 0, rate: 0 },
+      { threshold: 83_100, baseTax: 0, rate: 0.07 },
+      { threshold: 365_000, baseTax: 19_733, rate: 0.21 },
+      { threshold: 550_000, baseTax: 58_583, rate: null },
+    ],
+  },
+  {
+    yearOfAssessment: 2020,
+    periodStart: '2019-04-01',
+    periodEnd: '2020-03-31',
+    bands: [
+      { threshold: 0, baseTax: 0, rate: 0 },
+      { threshold: 79_000, baseTax: 0, rate: 0.07 },
+      { threshold: 365_000, baseTax: 20_020, rate: 0.21 },
+      { threshold: 550_000, baseTax: 58_870, rate: null },
+    ],
+  },
+];
+
+/**
+ * Capital allowance rates
+ */
+export const CAPITAL_ALLOWANCE_RULES = {
+  /** s11(e) - small items written off in full (Interpretation Note 47) */
+  s11eSmallItemThreshold: 7_000,
+  /** s12C - new and unused manufacturing plant: 40/20/20/20 */
+  s12cNewRates: [0.4, 0.2, 0.2, 0.2],
+  /** s12C - used manufacturing plant: 20% a year over five years */
+  s12cUsedRates: [0.2, 0.2, 0.2, 0.2, 0.2],
+  /** s13 - industrial buildings: 5% of cost a year */
+  s13Rate: 0.05,
+} as const;
+
+/**
+ * Provisional tax (Fourth Schedule, para 20)
+ */
+export const PROVISIONAL_TAX_RULES = {
+  /** Taxable income above which the 80% estimate rule applies */
+  highIncomeThreshold: 1_000_000,
+  highIncomeEstimatePercentage: 0.8,
+  lowIncomeEstimatePercentage: 0.9,
+  underestimationPenaltyRate: 0.2,
+} as const;
@@ -0,0 +1,333 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { TaxComputationEngine } from './taxComputationEngine';
+import type { CapitalAssetInput, TaxComputationInput } from '../types';
+
+const FEB_2025 = new Date(2025, 1, 28);
+
+function input(overrides: Partial<TaxComputationInput> = {}): TaxComputationInput {
+  return {
+    yearEnd: FEB_2025,
+    entityType: 'COMPANY',
+    accountingProfit: 0,
+    adjustments: [],
+    assessedLossBroughtForward: 0,
+    capitalAssets: [],
+    provisionalPayments: [],
+    ...overrides,
+  };
+}
+
+function asset(overrides: Partial<CapitalAssetInput>): CapitalAssetInput {
+  return {
+    description: 'Asset',
+    allowanceType: 'S12C',
+    cost: 0,
+    dateBroughtIntoUse: new Date(2024, 5, 1),
+    ...overrides,
+  };
+}
+
+describe('TaxComputationEngine', () => {
+  describe('worked examples', () => {
+    it('computes the company example with s12C and a limited assessed loss', () => {
+      const result = TaxComputationEngine.compute(
+        input({
+          accountingProfit: 2_000_000,
+          adjustments: [{ type: 'DEBIT', description: 'Depreciation', amount: 150_000 }],
+          assessedLossBroughtForward: 1_800_000,
+          capitalAssets: [asset({ description: 'New plant', cost: 500_000, isNewAndUnused: true })],
+        })
+      );
+
+      expect(result.totalCapitalAllowances).toBe(200_000);
+      expect(result.incomeBeforeAssessedLoss).toBe(1_950_000);
+      expect(result.assessedLoss).toEqual({
+        broughtForward: 1_800_000,
+        setOff: 1_560_000,
+        carriedForward: 240_000,
+        limitationApplied: true,
+      });
+      expect(result.taxableIncome).toBe(390_000);
+      expect(result.normalTax).toBe(105_300);
+      expect(result.yearOfAssessment).toBe(2025);
+    });
+
+    it('computes the SBC example', () => {
+      const result = TaxComputationEngine.compute(
+        input({ entityType: 'SMALL_BUSINESS_CORPORATION', accountingProfit: 400_000 })
+      );
+
+      expect(result.taxableIncome).toBe(400_000);
+      expect(result.normalTax).toBe(26_198);
+    });
+  });
+
+  describe('company rate', () => {
+    it('applies 27% to year ends on or after 31 March 2023', () => {
+      const rates = TaxComputationEngine.resolveRates(new Date(2023, 2, 31));
+      expect(rates.companyRate).toBe(0.27);
+      expect(TaxComputationEngine.calculateNormalTax(1_000_000, 'COMPANY', rates)).toBe(270_000);
+    });
+
+    it('applies 28% to earlier year ends', () => {
+      const rates = TaxComputationEngine.resolveRates(new Date(2022, 11, 31));
+      expect(rates.companyRate).toBe(0.28);
+      expect(TaxComputationEngine.calculateNormalTax(1_000_000, 'COMPANY', rates)).toBe(280_000);
+    });
+  });
+
+  describe('SBC bands', () => {
+    const rates = TaxComputationEngine.resolveRates(FEB_2025);
+    const sbcTax = (income: number) =>
+      TaxComputationEngine.calculateNormalTax(income, 'SMALL_BUSINESS_CORPORATION', rates);
+
+    it('charges nothing up to the tax threshold', () => {
+      expect(sbcTax(95_750)).toBe(0);
+    });
+
+    it('charges 7% in the second band', () => {
+      expect(sbcTax(200_000)).toBe(7_297.5);
+    });
+
+    it('charges 18 848 plus 21% in the third band', () => {
+      expect(sbcTax(550_000)).toBe(57_698);
+    });
+
+    it('charges the company rate in the top band', () => {
+      expect(sbcTax(600_000)).toBe(71_198);
+    });
+
+    it('uses the 2023 year of assessment table', () => {
+      const rates2023 = TaxComputationEngine.resolveRates(new Date(2023, 1, 28));
+      // 19 163 + 21% x 35 000
+      expect(
+        TaxComputationEngine.calculateNormalTax(400_000, 'SMALL_BUSINESS_CORPORATION', rates2023)
+      ).toBe(26_513);
+    });
+
+    it('uses the 2022 year of assessment table', () => {
+      const rates2022 = TaxComputationEngine.resolveRates(new Date(2022, 1, 28));
+      // 19 439 + 21% x 35 000
+      expect(
+        TaxComputationEngine.calculateNormalTax(400_000, 'SMALL_BUSINESS_CORPORATION', rates2022)
+      ).toBe(26_789);
+    });
+  });
+
+  describe('s20 assessed loss', () => {
+    it('limits the set-off to R1m when 80% of income is lower', () => {
+      const result = TaxComputationEngine.compute(
+        input({ accountingProfit: 1_200_000, assessedLossBroughtForward: 5_000_000 })
+      );
+
+      expect(result.assessedLoss.setOff).toBe(1_000_000);
+      expect(result.assessedLoss.carriedForward).toBe(4_000_000);
+      expect(result.assessedLoss.limitationApplied).toBe(true);
+      expect(result.taxableIncome).toBe(200_000);
+    });
+
+    it('sets off the full balance before the limitation applied', () => {
+      const result = TaxComputationEngine.compute(
+        input({
+          yearEnd: new Date(2022, 11, 31),
+          accountingProfit: 2_000_000,
+          assessedLossBroughtForward: 1_900_000,
+        })
+      );
+
+      expect(result.assessedLoss.setOff).toBe(1_900_000);
+      expect(result.assessedLoss.limitationApplied).toBe(false);
+      expect(result.taxableIncome).toBe(100_000);
+    });
+
+    it('adds a loss for the year to the balance carried forward', () => {
+      const result = TaxComputationEngine.compute(
+        input({ accountingProfit: -300_000, assessedLossBroughtForward: 500_000 })
+      );
+
+      expect(result.assessedLoss.setOff).toBe(0);
+      expect(result.assessedLoss.carriedForward).toBe(800_000);
+      expect(result.taxableIncome).toBe(0);
+      expect(result.normalTax).toBe(0);
+    });
+  });
+
+  describe('capital allowances', () => {
+    it('apportions the first s11(e) year for the months in use', () => {
+      const line = TaxComputationEngine.calculateCapitalAllowance(
+        asset({
+          allowanceType: 'S11E',
+          cost: 60_000,
+          writeOffYears: 3,
+          dateBroughtIntoUse: new Date(2024, 8, 1),
+        }),
+        FEB_2025
+      );
+
+      expect(line.yearOfUse).toBe(1);
+      expect(line.rate).toBe(0.1667);
+      expect(line.allowance).toBe(10_000);
+      expect(line.taxValueCarriedForward).toBe(50_000);
+    });
+
+    it('writes small s11(e) items off in full', () => {
+      const line = TaxComputationEngine.calculateCapitalAllowance(
+        asset({ allowanceType: 'S11E', cost: 5_000 }),
+        FEB_2025
+      );
+
+      expect(line.allowance).toBe(5_000);
+    });
+
+    it('requires a write-off period for larger s11(e) items', () => {
+      expect(() =>
+        TaxComputationEngine.calculateCapitalAllowance(asset({ allowanceType: 'S11E', cost: 60_000 }), FEB_2025)
+      ).toThrow('write-off period');
+    });
+
+    it('claims 40/20/20/20 on new s12C plant', () => {
+      const line = TaxComputationEngine.calculateCapitalAllowance(
+        asset({
+          cost: 500_000,
+          isNewAndUnused: true,
+          priorAllowances: 200_000,
+          dateBroughtIntoUse: new Date(2023, 5, 1),
+        }),
+        FEB_2025
+      );
+
+      expect(line.yearOfUse).toBe(2);
+      expect(line.rate).toBe(0.2);
+      expect(line.allowance).toBe(100_000);
+      expect(line.taxValueCarriedForward).toBe(200_000);
+    });
+
+    it('claims 20% a year on used s12C plant', () => {
+      const line = TaxComputationEngine.calculateCapitalAllowance(asset({ cost: 100_000 }), FEB_2025);
+
+      expect(line.rate).toBe(0.2);
+      expect(line.allowance).toBe(20_000);
+    });
+
+    it('claims 5% on s13 buildings, capped at the remaining tax value', () => {
+      const full = TaxComputationEngine.calculateCapitalAllowance(
+        asset({ allowanceType: 'S13', cost: 1_000_000 }),
+        FEB_2025
+      );
+      const capped = TaxComputationEngine.calculateCapitalAllowance(
+        asset({ allowanceType: 'S13', cost: 1_000_000, priorAllowances: 980_000 }),
+        FEB_2025
+      );
+
+      expect(full.allowance).toBe(50_000);
+      expect(capped.allowance).toBe(20_000);
+      expect(capped.taxValueCarriedForward).toBe(0);
+    });
+
+    it('claims nothing before the asset is brought into use', () => {
+      const line = TaxComputationEngine.calculateCapitalAllowance(
+        asset({ cost: 100_000, dateBroughtIntoUse: new Date(2025, 5, 1) }),
+        FEB_2025
+      );
+
+      expect(line.yearOfUse).toBe(0);
+      expect(line.allowance).toBe(0);
+    });
+  });
+
+  describe('provisional tax', () => {
+    it('sets the top-up date 7 months after a February year end', () => {
+      const result = TaxComputationEngine.compute(input({ accountingProfit: 100_000 }));
+      expect(format(result.provisionalTax.topUpDueDate, 'yyyy-MM-dd')).toBe('2025-09-30');
+    });
+
+    it('sets the top-up date 6 months after other year ends', () => {
+      const result = TaxComputationEngine.compute(
+        input({ yearEnd: new Date(2024, 11, 31), accountingProfit: 100_000 })
+      );
+      expect(format(result.provisionalTax.topUpDueDate, 'yyyy-MM-dd')).toBe('2025-06-30');
+    });
+
+    it('charges 20% of tax on 80% of taxable income less tax paid by year end', () => {
+      const result = TaxComputationEngine.compute(
+        input({
+          accountingProfit: 2_000_000,
+          provisionalPayments: [
+            { period: 1, amount: 135_000 },
+            { period: 2, amount: 135_000, estimatedTaxableIncome: 1_000_000 },
+            { period: 3, amount: 100_000 },
+          ],
+        })
+      );
+
+      expect(result.normalTax).toBe(540_000);
+      expect(result.provisionalTax.paymentsMade).toBe(370_000);
+      expect(result.provisionalTax.paidByYearEnd).toBe(270_000);
+      expect(result.provisionalTax.balance).toBe(170_000);
+      expect(result.provisionalTax.requiredEstimate).toBe(1_600_000);
+      // (1 600 000 x 27% - 270 000) x 20%
+      expect(result.provisionalTax.underestimationPenalty).toBe(32_400);
+    });
+
+    it('counts employees tax as paid by year end', () => {
+      const result = TaxComputationEngine.compute(
+        input({
+          accountingProfit: 2_000_000,
+          employeesTaxPaid: 62_000,
+          provisionalPayments: [
+            { period: 1, amount: 135_000 },
+            { period: 2, amount: 135_000, estimatedTaxableIncome: 1_000_000 },
+          ],
+        })
+      );
+
+      expect(result.provisionalTax.paidByYearEnd).toBe(332_000);
+      expect(result.provisionalTax.underestimationPenalty).toBe(20_000);
+    });
+
+    it('charges no penalty when payments by year end cover tax on the required estimate', () => {
+      const result = TaxComputationEngine.compute(
+        input({
+          accountingProfit: 2_000_000,
+          provisionalPayments: [
+            { period: 1, amount: 250_000 },
+            { period: 2, amount: 250_000, estimatedTaxableIncome: 1_000_000 },
+          ],
+        })
+      );
+
+      expect(result.provisionalTax.paidByYearEnd).toBe(500_000);
+      expect(result.provisionalTax.underestimationPenalty).toBe(0);
+      expect(result.provisionalTax.balance).toBe(40_000);
+    });
+
+    it('uses the lesser of 90% and the basic amount up to R1m', () => {
+      const result = TaxComputationEngine.compute(
+        input({
+          accountingProfit: 800_000,
+          basicAmount: 600_000,
+          provisionalPayments: [
+            { period: 1, amount: 50_000 },
+            { period: 2, amount: 50_000, estimatedTaxableIncome: 500_000 },
+          ],
+        })
+      );
+
+      expect(result.provisionalTax.requiredEstimate).toBe(600_000);
+      // (600 000 x 27% - 100 000) x 20%
+      expect(result.provisionalTax.underestimationPenalty).toBe(12_400);
+    });
+
+    it('charges no penalty when the estimate meets the required estimate', () => {
+      const result = TaxComputationEngine.compute(
+        input({
+          accountingProfit: 2_000_000,
+          provisionalPayments: [{ period: 2, amount: 0, estimatedTaxableIncome: 1_700_000 }],
+        })
+      );
+
+      expect(result.provisionalTax.underestimationPenalty).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,358 @@
+import { addMonths, differenceInMonths, endOfMonth, format, isLastDayOfMonth } from 'date-fns';
+import { AppError, ErrorCodes } from '@/lib/utils/errorHandler';
+import type {
+  CapitalAllowanceLine,
+  CapitalAssetInput,
+  TaxComputationInput,
+  TaxComputationResult,
+  TaxEntityType,
+} from '../types';
+import {
+  ASSESSED_LOSS_RULES,
+  CAPITAL_ALLOWANCE_RULES,
+  COMPANY_RATE_SCHEDULE,
+  PROVISIONAL_TAX_RULES,
+  SBC_RATE_TABLES,
+  TAX_TABLES_VERSION,
+  type SbcRateTable,
+} from './sarsRateTables';
+
+export const TAX_ENGINE_VERSION = '1.0.0';
+
+interface ResolvedRates {
+  yearOfAssessment: number;
+  companyRate: number;
+  sbcTable: SbcRateTable;
+  assessedLossRule: (typeof ASSESSED_LOSS_RULES)[number] | null;
+  warnings: string[];
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sumAbs(amounts: number[]): number {
+  return amounts.reduce((sum, amount) => sum + Math.abs(amount), 0);
+}
+
+/**
+ * Deterministic SARS income tax computation (IT14)
+ *
+ * Order of computation:
+ *   accounting profit
+ *   + debit adjustments and recoupments
+ *   - credit adjustments, allowance adjustments and capital allowances
+ *   = income before assessed loss
+ *   - assessed loss set-off (limited for year ends on or after 31 March 2023)
+ *   = taxable income -> normal tax at the company or SBC rate
+ *
+ * Worked example (company, year end 28 February 2025):
+ *   profit 2 000 000 + depreciation add-back 150 000 - s12C 40% on new plant
+ *   costing 500 000 (200 000) = 1 950 000. Loss b/f 1 800 000 is limited to
+ *   max(1 000 000, 80% x 1 950 000) = 1 560 000, leaving 240 000 to carry
+ *   forward. Taxable income 390 000 x 27% = 105 300.
+ *
+ * Worked example (SBC, year end 28 February 2025):
+ *   taxable income 400 000 -> 18 848 + 21% x (400 000 - 365 000) = 26 198.
+ */
+export class TaxComputationEngine {
+  /**
+   * Compute taxable income, normal tax and the provisional tax position
+   */
+  static compute(input: TaxComputationInput): TaxComputationResult {
+    const rates = this.resolveRates(input.yearEnd);
+    const warnings = [...rates.warnings];
+
+    const debits = input.adjustments.filter((a) => a.type === 'DEBIT');
+    const credits = input.adjustments.filter((a) => a.type === 'CREDIT');
+    const recoupments = input.adjustments.filter((a) => a.type === 'RECOUPMENT');
+    const allowances = input.adjustments.filter((a) => a.type === 'ALLOWANCE');
+
+    const totalDebitAdjustments = roundCurrency(sumAbs(debits.map((a) => a.amount)));
+    const totalCreditAdjustments = roundCurrency(sumAbs(credits.map((a) => a.amount)));
+    const totalRecoupments = roundCurrency(sumAbs(recoupments.map((a) => a.amount)));
+    const totalAllowanceAdjustments = roundCurrency(sumAbs(allowances.map((a) => a.amount)));
+
+    // Allowances entered as adjustments and the asset schedule must not overlap
+    const scheduledTypes = new Set(input.capitalAssets.map((asset) => this.sectionFor(asset.allowanceType)));
+    for (const adjustment of allowances) {
+      if (adjustment.sarsSection && scheduledTypes.has(adjustment.sarsSection)) {
+        warnings.push(
+          `Allowance adjustment "${adjustment.description}" (${adjustment.sarsSection}) may duplicate the capital allowance schedule`
+        );
+      }
+    }
+
+    const capitalAllowances = input.capitalAssets.map((asset) => this.calculateCapitalAllowance(asset, input.yearEnd));
+    const totalCapitalAllowances = roundCurrency(capitalAllowances.reduce((sum, line) => sum + line.allowance, 0));
+
+    const incomeBeforeAssessedLoss = roundCurrency(
+      input.accountingProfit +
+        totalDebitAdjustments +
+        totalRecoupments -
+        totalCreditAdjustments -
+        totalAllowanceAdjustments -
+        totalCapitalAllowances
+    );
+
+    const assessedLoss = this.applyAssessedLoss(
+      incomeBeforeAssessedLoss,
+      Math.abs(input.assessedLossBroughtForward),
+      rates.assessedLossRule
+    );
+    const taxableIncome = roundCurrency(Math.max(0, incomeBeforeAssessedLoss - assessedLoss.setOff));
+
+    const normalTax = this.calculateNormalTax(taxableIncome, input.entityType, rates);
+    const effectiveRate = taxableIncome > 0 ? roundCurrency((normalTax / taxableIncome) * 100) / 100 : 0;
+
+    const provisionalTax = this.calculateProvisionalPosition(input, taxableIncome, normalTax, rates);
+
+    return {
+      engineVersion: TAX_ENGINE_VERSION,
+      tablesVersion: TAX_TABLES_VERSION,
+      yearOfAssessment: rates.yearOfAssessment,
+      entityType: input.entityType,
+      accountingProfit: roundCurrency(input.accountingProfit),
+      totalDebitAdjustments,
+      totalCreditAdjustments,
+      totalRecoupments,
+      totalAllowanceAdjustments,
+      capitalAllowances,
+      totalCapitalAllowances,
+      incomeBeforeAssessedLoss,
+      assessedLoss,
+      taxableIncome,
+      normalTax,
+      effectiveRate,
+      provisionalTax,
+      taxLiability: normalTax,
+      warnings,
+    };
+  }
+
+  /**
+   * Normal tax on a taxable income amount
+   */
+  static calculateNormalTax(
+    taxableIncome: number,
+    entityType: TaxEntityType,
+    rates: Pick<ResolvedRates, 'companyRate' | 'sbcTable'>
+  ): number {
+    if (taxableIncome <= 0) return 0;
+
+    if (entityType === 'COMPANY') {
+      return roundCurrency(taxableIncome * rates.companyRate);
+    }
+
+    // Highest band whose threshold the income exceeds
+    const band = [...rates.sbcTable.bands].reverse().find((b) => taxableIncome > b.threshold);
+    if (!band) return 0;
+
+    const rate = band.rate ?? rates.companyRate;
+    return roundCurrency(band.baseTax + (taxableIncome - band.threshold) * rate);
+  }
+
+  /**
+   * Select the company rate, SBC table and assessed loss rule for a year end
+   */
+  static resolveRates(yearEnd: Date): ResolvedRates {
+    const yearEndKey = format(yearEnd, 'yyyy-MM-dd');
+    const warnings: string[] = [];
+
+    const companyRule = COMPANY_RATE_SCHEDULE.find((rule) => yearEndKey >= rule.yearEndOnOrAfter);
+    const oldestTable = SBC_RATE_TABLES[SBC_RATE_TABLES.length - 1];
+    const latestTable = SBC_RATE_TABLES[0];
+    if (!companyRule || !oldestTable || !latestTable || yearEndKey < oldestTable.periodStart) {
+      throw new AppError(
+        400,
+        `No SARS rate tables for year end ${yearEndKey}. Earliest supported year end is ${oldestTable?.periodStart}`,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    let sbcTable = SBC_RATE_TABLES.find(
+      (table) => yearEndKey >= table.periodStart && yearEndKey <= table.periodEnd
+    );
+    let yearOfAssessment = sbcTable?.yearOfAssessment ?? 0;
+
+    if (!sbcTable) {
+      // Year end is after the latest published table - roll the latest one forward
+      sbcTable = latestTable;
+      yearOfAssessment = latestTable.yearOfAssessment + Math.ceil(differenceInMonths(yearEnd, new Date(latestTable.periodEnd)) / 12);
+      warnings.push(
+        `SARS tables for the ${yearOfAssessment} year of assessment are not loaded - ${latestTable.yearOfAssessment} tables were used`
+      );
+    }
+
+    const assessedLossRule = ASSESSED_LOSS_RULES.find((rule) => yearEndKey >= rule.yearEndOnOrAfter) ?? null;
+
+    return {
+      yearOfAssessment,
+      companyRate: companyRule.rate,
+      sbcTable,
+      assessedLossRule,
+      warnings,
+    };
+  }
+
+  /**
+   * Capital allowance for one asset in the year of assessment
+   * Allowances stop once the cost has been fully claimed.
+   */
+  static calculateCapitalAllowance(asset: CapitalAssetInput, yearEnd: Date): CapitalAllowanceLine {
+    if (asset.cost < 0) {
+      throw new AppError(400, `Asset "${asset.description}" has a negative cost`, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const priorAllowances = Math.abs(asset.priorAllowances ?? 0);
+    const remaining = Math.max(0, asset.cost - priorAllowances);
+    const inUse = asset.dateBroughtIntoUse <= yearEnd;
+    const monthsInUse = inUse ? differenceInMonths(yearEnd, asset.dateBroughtIntoUse) : -1;
+    // Year 1 is the year of assessment in which the asset was brought into use
+    const yearOfUse = inUse ? Math.floor(monthsInUse / 12) + 1 : 0;
+
+    let rate = 0;
+    let allowance = 0;
+
+    if (yearOfUse > 0) {
+      switch (asset.allowanceType) {
+        case 'S11E': {
+          if (asset.cost <= CAPITAL_ALLOWANCE_RULES.s11eSmallItemThreshold) {
+            rate = yearOfUse === 1 ? 1 : 0;
+            allowance = rate * asset.cost;
+            break;
+          }
+          if (!asset.writeOffYears || asset.writeOffYears <= 0) {
+            throw new AppError(
+              400,
+              `Asset "${asset.description}" needs a write-off period for the s11(e) allowance`,
+              ErrorCodes.VALIDATION_ERROR
+            );
+          }
+          // First year is apportioned for the months the asset was in use
+          const monthsFraction = yearOfUse === 1 ? Math.min(12, monthsInUse + 1) / 12 : 1;
+          rate = (1 / asset.writeOffYears) * monthsFraction;
+          allowance = asset.cost * rate;
+          break;
+        }
+        case 'S12C': {
+          const schedule = asset.isNewAndUnused
+            ? CAPITAL_ALLOWANCE_RULES.s12cNewRates
+            : CAPITAL_ALLOWANCE_RULES.s12cUsedRates;
+          rate = schedule[yearOfUse - 1] ?? 0;
+          allowance = asset.cost * rate;
+          break;
+        }
+        case 'S13': {
+          rate = CAPITAL_ALLOWANCE_RULES.s13Rate;
+          allowance = asset.cost * rate;
+          break;
+        }
+      }
+    }
+
+    allowance = roundCurrency(Math.min(allowance, remaining));
+
+    return {
+      description: asset.description,
+      allowanceType: asset.allowanceType,
+      cost: asset.cost,
+      yearOfUse,
+      rate: Math.round(rate * 10000) / 10000,
+      allowance,
+      taxValueCarriedForward: roundCurrency(remaining - allowance),
+    };
+  }
+
+  /**
+   * Set off an assessed loss brought forward (s20)
+   */
+  private static applyAssessedLoss(
+    income: number,
+    broughtForward: number,
+    rule: ResolvedRates['assessedLossRule']
+  ): TaxComputationResult['assessedLoss'] {
+    if (income <= 0) {
+      return {
+        broughtForward,
+        setOff: 0,
+        carriedForward: roundCurrency(broughtForward - income),
+        limitationApplied: false,
+      };
+    }
+
+    const limit = rule ? Math.max(rule.minimumSetOff, income * rule.percentageOfIncome) : income;
+    const setOff = roundCurrency(Math.min(broughtForward, income, limit));
+
+    return {
+      broughtForward,
+      setOff,
+      carriedForward: roundCurrency(broughtForward - setOff),
+      limitationApplied: rule !== null && setOff < Math.min(broughtForward, income),
+    };
+  }
+
+  /**
+   * Provisional tax top-up and para 20 underestimation penalty
+   *
+   * The penalty is 20% of normal tax on the required estimate (80% of actual
+   * taxable income above R1m, otherwise the lesser of 90% and the basic
+   * amount) less the provisional and employees' tax paid by year end. The
+   * third (top-up) payment falls after year end and does not count.
+   */
+  private static calculateProvisionalPosition(
+    input: TaxComputationInput,
+    taxableIncome: number,
+    normalTax: number,
+    rates: ResolvedRates
+  ): TaxComputationResult['provisionalTax'] {
+    const paymentsMade = roundCurrency(input.provisionalPayments.reduce((sum, p) => sum + p.amount, 0));
+    const paidByYearEnd = roundCurrency(
+      input.provisionalPayments.filter((p) => p.period !== 3).reduce((sum, p) => sum + p.amount, 0) +
+        Math.abs(input.employeesTaxPaid ?? 0)
+    );
+
+    // Third (top-up) payment: 7 months after a February year end, otherwise 6 months
+    const monthsToTopUp = input.yearEnd.getMonth() === 1 && isLastDayOfMonth(input.yearEnd) ? 7 : 6;
+    const topUpDueDate = endOfMonth(addMonths(input.yearEnd, monthsToTopUp));
+
+    const secondPeriodEstimate = input.provisionalPayments.find((p) => p.period === 2)?.estimatedTaxableIncome;
+    let requiredEstimate: number | null = null;
+    let underestimationPenalty = 0;
+
+    if (secondPeriodEstimate !== undefined && taxableIncome > 0) {
+      if (taxableIncome > PROVISIONAL_TAX_RULES.highIncomeThreshold) {
+        requiredEstimate = taxableIncome * PROVISIONAL_TAX_RULES.highIncomeEstimatePercentage;
+      } else {
+        const ninetyPercent = taxableIncome * PROVISIONAL_TAX_RULES.lowIncomeEstimatePercentage;
+        requiredEstimate = input.basicAmount !== undefined ? Math.min(ninetyPercent, input.basicAmount) : ninetyPercent;
+      }
+      requiredEstimate = roundCurrency(requiredEstimate);
+
+      if (secondPeriodEstimate < requiredEstimate) {
+        const shortfall = this.calculateNormalTax(requiredEstimate, input.entityType, rates) - paidByYearEnd;
+        underestimationPenalty = roundCurrency(Math.max(0, shortfall) * PROVISIONAL_TAX_RULES.underestimationPenaltyRate);
+      }
+    }
+
+    return {
+      paymentsMade,
+      balance: roundCurrency(normalTax - paymentsMade),
+      topUpDueDate,
+      requiredEstimate,
+      paidByYearEnd,
+      underestimationPenalty,
+    };
+  }
+
+  private static sectionFor(type: CapitalAssetInput['allowanceType']): string {
+    switch (type) {
+      case 'S11E':
+        return 's11(e)';
+      case 'S12C':
+        return 's12C';
+      case 'S13':
+        return 's13';
+    }
+  }
+}
@@ -87,3 +87,151 @@ export interface TaxExportData {
 
 
 
+
+export type TaxEntityType = 'COMPANY' | 'SMALL_BUSINESS_CORPORATION';
+
+export type CapitalAllowanceType = 'S11E' | 'S12C' | 'S13';
+
+export interface CapitalAssetInput {
+  description: string;
+  allowanceType: CapitalAllowanceType;
+  cost: number;
+  dateBroughtIntoUse: Date;
+  /** s11(e) write-off period in years (Interpretation Note 47) */
+  writeOffYears?: number;
+  /** s12C - new and unused plant qualifies for 40/20/20/20 */
+  isNewAndUnused?: boolean;
+  /** Allowances claimed in earlier years of assessment */
+  priorAllowances?: number;
+}
+
+export interface ProvisionalPaymentInput {
+  period: 1 | 2 | 3;
+  amount: number;
+  /** Taxable income estimate submitted with the payment */
+  estimatedTaxableIncome?: number;
+}
+
+export interface TaxComputationInput {
+  yearEnd: Date;
+  entityType: TaxEntityType;
+  accountingProfit: number;
+  adjustments: Array<{
+    type: 'DEBIT' | 'CREDIT' | 'ALLOWANCE' | 'RECOUPMENT';
+    description: string;
+    amount: number;
+    sarsSection?: string | null;
+  }>;
+  assessedLossBroughtForward: number;
+  capitalAssets: CapitalAssetInput[];
+  provisionalPayments: ProvisionalPaymentInput[];
+  /** Basic amount for the para 20 test when taxable income is R1m or less */
+  basicAmount?: number;
+  /** Employees' tax credited against the year's liability (counts as paid by year end) */
+  employeesTaxPaid?: number;
+}
+
+/** Computation inputs not held on the task (profit and adjustments are loaded) */
+export type TaxComputationOptions = Omit<TaxComputationInput, 'accountingProfit' | 'adjustments'>;
+
+export interface CapitalAllowanceLine {
+  description: string;
+  allowanceType: CapitalAllowanceType;
+  cost: number;
+  yearOfUse: number;
+  rate: number;
+  allowance: number;
+  taxValueCarriedForward: number;
+}
+
+export interface TaxComputationResult {
+  engineVersion: string;
+  tablesVersion: string;
+  yearOfAssessment: number;
+  entityType: TaxEntityType;
+  accountingProfit: number;
+  totalDebitAdjustments: number;
+  totalCreditAdjustments: number;
+  totalRecoupments: number;
+  totalAllowanceAdjustments: number;
+  capitalAllowances: CapitalAllowanceLine[];
+  totalCapitalAllowances: number;
+  incomeBeforeAssessedLoss: number;
+  assessedLoss: {
+    broughtForward: number;
+    setOff: number;
+    carriedForward: number;
+    limitationApplied: boolean;
+  };
+  taxableIncome: number;
+  normalTax: number;
+  effectiveRate: number;
+  provisionalTax: {
+    paymentsMade: number;
+    /** Positive = top-up payable, negative = refund due */
+    balance: number;
+    topUpDueDate: Date;
+    requiredEstimate: number | null;
+    /** First and second period payments plus employees' tax - the para 20 credit */
+    paidByYearEnd: number;
+    underestimationPenalty: number;
+  };
+  taxLiability: number;
+  warnings: string[];
+}
+
+export type MappingStrategy = 'PRIOR_YEAR' | 'KEEP_CURRENT';
+
+export interface RollForwardCandidate {
+  id: number;
+  TaskCode: string;
+  TaskDesc: string;
+  taskYear: number;
+  mappedAccountCount: number;
+}
+
+export interface AccountVariance {
+  accountCode: string;
+  accountName: string;
+  priorSarsItem?: string;
+  currentSarsItem?: string;
+  priorBalance?: number;
+  currentBalance?: number;
+}
+
+export interface CarriedAdjustment {
+  sourceAdjustmentId: number;
+  type: string;
+  description: string;
+  sarsSection: string | null;
+  priorAmount: number;
+  amount: number;
+  recalculated: boolean;
+}
+
+export interface RollForwardReport {
+  applied: boolean;
+  sourceTask: { id: number; TaskCode: string; TaskDesc: string; taskYear: number };
+  mappingStrategy: MappingStrategy;
+  accounts: {
+    /** Target had no accounts - prior accounts were created with zero balances */
+    seeded: boolean;
+    created: number;
+    matched: number;
+    appeared: AccountVariance[];
+    disappeared: AccountVariance[];
+    remapped: AccountVariance[];
+  };
+  adjustments: {
+    carried: CarriedAdjustment[];
+    skipped: Array<{ sourceAdjustmentId: number; description: string; reason: string }>;
+  };
+  openingPositions: {
+    imported: boolean;
+    yearEnd: Date | null;
+    entityType: TaxEntityType | null;
+    assessedLossBroughtForward: number;
+    capitalAssets: CapitalAssetInput[];
+    note?: string;
+  };
+}
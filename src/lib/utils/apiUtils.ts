@@ -132,6 +132,47 @@ export function parseApprovalId(id: string | undefined): number {
   return parseNumericId(id, 'Approval');
 }
 
+/**
+ * Parse and validate queue name from route params
+ * Queue names become part of Redis keys, so only simple identifiers are allowed
+ * @param name - Queue name from route params
+ * @returns Validated queue name
+ * @throws AppError if name is invalid
+ */
+export function parseQueueName(name: string | undefined): string {
+  if (!name || !/^[a-z0-9_-]{1,50}$/i.test(name)) {
+    throw new AppError(
+      400,
+      'Invalid queue name',
+      ErrorCodes.VALIDATION_ERROR,
+      { providedName: name }
+    );
+  }
+
+  return name;
+}
+
+/**
+ * Parse and validate queue job ID from route params
+ * @param id - Job ID from route params (e.g. 'job:<32 hex chars>')
+ * @returns Validated job ID
+ * @throws AppError if ID is invalid
+ */
+export function parseQueueJobId(id: string | undefined): string {
+  const decoded = id ? decodeURIComponent(id) : id;
+
+  if (!decoded || !/^job:[a-f0-9]{32}$/.test(decoded)) {
+    throw new AppError(
+      400,
+      'Invalid job ID',
+      ErrorCodes.VALIDATION_ERROR,
+      { providedId: id }
+    );
+  }
+
+  return decoded;
+}
+
 /**
  * Fetch task by ID or throw 404 error
  * @param taskId - Task ID
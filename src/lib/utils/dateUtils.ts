@@ -62,3 +62,32 @@ export function calculateAllocationPercentage(
   return Math.round((allocatedHours / totalAvailableHours) * 100);
 }
 
+
+/**
+ * Count business days elapsed between two instants (Monday-Friday, UTC days)
+ * The start day is not counted, so something raised on Friday is 1 business day old on Monday
+ * @param from - Start of the period
+ * @param to - End of the period
+ * @returns Elapsed business days (0 if `to` is on or before the start day)
+ * @example
+ * // Friday to the following Monday = 1 day
+ * businessDaysElapsed(new Date('2024-01-05'), new Date('2024-01-08')) // returns 1
+ */
+export function businessDaysElapsed(from: Date, to: Date): number {
+  let count = 0;
+  const current = new Date(from);
+  const end = new Date(to);
+
+  current.setUTCHours(0, 0, 0, 0);
+  end.setUTCHours(0, 0, 0, 0);
+
+  while (current < end) {
+    current.setUTCDate(current.getUTCDate() + 1);
+    const dayOfWeek = current.getUTCDay();
+    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
+      count++;
+    }
+  }
+
+  return count;
+}
@@ -48,6 +48,7 @@ export const NOTIFICATION_CATEGORIES = {
       NotificationType.OPINION_DRAFT_READY,
       NotificationType.TAX_CALCULATION_COMPLETE,
       NotificationType.FILING_STATUS_UPDATED,
+      NotificationType.FILING_DEADLINE_REMINDER,
     ],
   },
 } as const;
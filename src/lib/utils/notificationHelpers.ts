@@ -7,6 +7,8 @@ import {
   Calculator,
   Bell,
   CheckCircle,
+  Clock,
+  AlertTriangle,
 } from 'lucide-react';
 import { NotificationType } from '@/types/notification';
 
@@ -63,6 +65,14 @@ export function getNotificationIcon(type: string) {
       return Calculator;
     case NotificationType.FILING_STATUS_UPDATED:
       return CheckCircle;
+    case NotificationType.FILING_DEADLINE_REMINDER:
+      return Clock;
+    case NotificationType.APPROVAL_REMINDER:
+      return Clock;
+    case NotificationType.APPROVAL_ESCALATED:
+      return AlertTriangle;
+    case NotificationType.CONTINUANCE_DUE:
+      return Clock;
     case NotificationType.COMMENT_MENTION:
       return MessageCircle;
     default:
@@ -91,6 +101,14 @@ export function getNotificationColor(type: string): string {
       return 'text-indigo-600';
     case NotificationType.FILING_STATUS_UPDATED:
       return 'text-green-600';
+    case NotificationType.FILING_DEADLINE_REMINDER:
+      return 'text-orange-600';
+    case NotificationType.APPROVAL_REMINDER:
+      return 'text-orange-600';
+    case NotificationType.APPROVAL_ESCALATED:
+      return 'text-red-600';
+    case NotificationType.CONTINUANCE_DUE:
+      return 'text-orange-600';
     case NotificationType.COMMENT_MENTION:
       return 'text-yellow-600';
     default:
@@ -127,6 +145,14 @@ export function formatNotificationTitle(type: string): string {
       return 'Tax Calculation Complete';
     case NotificationType.FILING_STATUS_UPDATED:
       return 'Filing Status Updated';
+    case NotificationType.FILING_DEADLINE_REMINDER:
+      return 'Filing Deadline Approaching';
+    case NotificationType.APPROVAL_REMINDER:
+      return 'Approval Overdue';
+    case NotificationType.APPROVAL_ESCALATED:
+      return 'Approval Escalated';
+    case NotificationType.CONTINUANCE_DUE:
+      return 'Client Continuance Due';
     case NotificationType.COMMENT_MENTION:
       return 'Mentioned in Comment';
     default:
@@ -5,6 +5,7 @@
 import { z } from 'zod';
 import { CreditRatingGrade, AnalyticsDocumentType } from '@/types/analytics';
 import { isValidUrl } from './urlValidation';
+import { isValidCronExpression } from '@/lib/queue/cron';
 
 // =============================================================================
 // Security Validation Helpers
@@ -370,6 +371,31 @@ export const CreateTaxAdjustmentSchema = z.object({
   confidenceScore: z.number().min(0).max(1).nullable().optional(),
 }).strict();
 
+/**
+ * Tax computation validation schemas
+ */
+export const TaxCapitalAssetSchema = z.object({
+  description: z.string().min(1).max(255),
+  allowanceType: z.enum(['S11E', 'S12C', 'S13']),
+  cost: z.number().nonnegative(),
+  dateBroughtIntoUse: z.coerce.date(),
+  writeOffYears: z.number().positive().max(50).optional(),
+  isNewAndUnused: z.boolean().optional(),
+  priorAllowances: z.number().nonnegative().optional(),
+}).strict();
+
+export const TaxComputationProfileSchema = z.object({
+  yearEnd: z.coerce.date(),
+  entityType: z.enum(['COMPANY', 'SMALL_BUSINESS_CORPORATION']).default('COMPANY'),
+  assessedLossBroughtForward: z.number().nonnegative().default(0),
+  capitalAssets: z.array(TaxCapitalAssetSchema).max(500).default([]),
+}).strict();
+
+export const TaxRollForwardSchema = z.object({
+  sourceTaskId: z.number().int().positive().optional(),
+  mappingStrategy: z.enum(['PRIOR_YEAR', 'KEEP_CURRENT']).default('PRIOR_YEAR'),
+}).strict();
+
 /**
  * Pagination schema
  */
@@ -557,8 +583,13 @@ export const CreateVersionSchema = z.object({
   changeNotes: z.string().max(1000).optional(),
 }).strict();
 
+/**
+ * restore copies a version back into the editable template;
+ * restore_as_new also snapshots it straight away as the new active version
+ */
 export const VersionActionSchema = z.object({
-  action: z.enum(['activate', 'restore']),
+  action: z.enum(['activate', 'restore', 'restore_as_new']),
+  changeNotes: z.string().max(1000).optional(),
 }).strict();
 
 /**
@@ -641,6 +672,8 @@ export type UpdateClientInput = z.infer<typeof UpdateClientSchema>;
 export type CreateClientInput = z.infer<typeof CreateClientSchema>;
 export type UpdateTaxAdjustmentInput = z.infer<typeof UpdateTaxAdjustmentSchema>;
 export type CreateTaxAdjustmentInput = z.infer<typeof CreateTaxAdjustmentSchema>;
+export type TaxComputationProfileInput = z.infer<typeof TaxComputationProfileSchema>;
+export type TaxRollForwardInput = z.infer<typeof TaxRollForwardSchema>;
 export type PaginationInput = z.infer<typeof PaginationSchema>;
 export type UpdateNotificationPreferenceInput = z.infer<typeof UpdateNotificationPreferenceSchema>;
 export type CreateNotificationPreferenceInput = z.infer<typeof CreateNotificationPreferenceSchema>;
@@ -1517,6 +1550,21 @@ export const VaultDocumentFiltersSchema = z.object({
   limit: z.number().int().min(1).max(100).default(20),
 }).strict();
 
+// Search schema - the query is parsed by the search service and never reaches SQL,
+// so it skips safeString (which would reject searches such as "update" or "delete")
+export const VaultSearchSchema = z.object({
+  query: z.string().trim().min(2).max(200),
+  categoryIds: z.array(z.number().int().positive()).max(20).default([]),
+  documentTypes: z.array(safeIdentifier(50)).max(20).default([]),
+  serviceLines: z.array(safeIdentifier(50)).max(20).default([]),
+  effectiveYears: z.array(z.string().regex(/^(\d{4}|none)$/)).max(20).default([]),
+  effectiveFrom: z.string().date().optional(),
+  effectiveTo: z.string().date().optional(),
+  sort: z.enum(['relevance', 'newest']).default('relevance'),
+  page: z.number().int().positive().default(1),
+  limit: z.number().int().min(1).max(50).default(20),
+}).strict();
+
 // Create category schema
 export const CreateVaultCategorySchema = z.object({
   name: safeString(200, 2),
@@ -1585,6 +1633,7 @@ export const UpdateDocumentTypeSchema = z.object({
 export type CreateVaultDocumentInput = z.infer<typeof CreateVaultDocumentSchema>;
 export type UpdateVaultDocumentInput = z.infer<typeof UpdateVaultDocumentSchema>;
 export type VaultDocumentFiltersInput = z.infer<typeof VaultDocumentFiltersSchema>;
+export type VaultSearchInput = z.infer<typeof VaultSearchSchema>;
 export type CreateVaultCategoryInput = z.infer<typeof CreateVaultCategorySchema>;
 export type UpdateVaultCategoryInput = z.infer<typeof UpdateVaultCategorySchema>;
 export type CategoryApproversInput = z.infer<typeof CategoryApproversSchema>;
@@ -1663,6 +1712,9 @@ export const UpdateLeaderGroupSchema = z.object({
     .max(500, 'Description must not exceed 500 characters')
     .optional(),
   type: z.enum(['GROUP', 'INDIVIDUAL']).optional(),
+  serviceLines: z.array(z.string().trim().min(1).max(50))
+    .max(50, 'Cannot lead more than 50 service lines')
+    .optional(),
 }).strict();
 
 /**
@@ -1714,3 +1766,428 @@ export type BudgetDisbursementInput = z.infer<typeof budgetDisbursementSchema>;
 export type BudgetFeeInput = z.infer<typeof budgetFeeSchema>;
 
 
+
+// =============================================================================
+// Background Job Queues
+// =============================================================================
+
+/**
+ * Schema for bulk retry/purge of dead-lettered queue jobs
+ * Either an explicit list of job IDs or `all: true` must be provided
+ */
+export const FailedJobsActionSchema = z.object({
+  jobIds: z.array(z.string().regex(/^job:[a-f0-9]{32}$/, 'Invalid job ID'))
+    .min(1, 'At least one job must be selected')
+    .max(500, 'Cannot process more than 500 jobs at once')
+    .optional(),
+  all: z.boolean().optional(),
+}).strict().refine(
+  (data) => data.all === true || (data.jobIds !== undefined && data.jobIds.length > 0),
+  { message: 'Provide jobIds or set all to true' }
+);
+
+/**
+ * Schema for pausing/resuming a recurring job schedule or changing its cadence
+ */
+export const UpdateJobScheduleSchema = z.object({
+  enabled: z.boolean().optional(),
+  cronExpression: z.string()
+    .trim()
+    .max(100)
+    .refine(isValidCronExpression, 'Invalid cron expression (expected 5 fields: minute hour day-of-month month day-of-week)')
+    .optional(),
+}).strict().refine(
+  (data) => data.enabled !== undefined || data.cronExpression !== undefined,
+  { message: 'Provide enabled or cronExpression' }
+);
+
+// Inferred types
+export type FailedJobsActionInput = z.infer<typeof FailedJobsActionSchema>;
+export type UpdateJobScheduleInput = z.infer<typeof UpdateJobScheduleSchema>;
+
+// =============================================================================
+// Approval Routes
+// =============================================================================
+
+const ApprovalWorkflowTypeEnum = z.enum([
+  'CHANGE_REQUEST',
+  'CLIENT_ACCEPTANCE',
+  'ACCEPTANCE',
+  'CONTINUANCE',
+  'ENGAGEMENT_LETTER',
+  'DPA',
+  'REVIEW_NOTE',
+  'VAULT_DOCUMENT',
+  'INDEPENDENCE_CONFIRMATION',
+]);
+
+const ROUTE_CONTEXT_PATH = /^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*$/;
+
+/**
+ * Single step in an approval route
+ * Conditions are checked structurally here; operators and values are validated
+ * by the route resolver so string and object forms share one set of rules
+ */
+const RouteStepConfigSchema = z.object({
+  stepOrder: z.number().int().min(1).max(50),
+  stepType: z.enum(['USER', 'ROLE', 'CONDITIONAL', 'LEADER_GROUP', 'SERVICE_LINE_LEADER']),
+  label: z.string().trim().max(100).optional(),
+  isRequired: z.boolean().optional(),
+  assignedToUserIdPath: z.string().regex(ROUTE_CONTEXT_PATH, 'Invalid context path').optional(),
+  assignedToUserId: z.string().trim().min(1).max(100).optional(),
+  assignedToRole: z.string().trim().min(1).max(50).optional(),
+  leaderGroupName: z.string().trim().min(1).max(100).optional(),
+  serviceLine: z.string().trim().regex(/^[A-Za-z0-9_-]{1,50}$/, 'Invalid service line code').optional(),
+  serviceLinePath: z.string().regex(ROUTE_CONTEXT_PATH, 'Invalid context path').optional(),
+  parallelMode: z.enum(['ALL_OF', 'ANY_OF']).optional(),
+  condition: z.union([z.string().trim().min(1).max(1000), z.record(z.unknown())]).optional(),
+}).strict();
+
+/**
+ * Approval route configuration (stored as JSON in ApprovalRoute.routeConfig)
+ */
+export const RouteConfigSchema = z.object({
+  steps: z.array(RouteStepConfigSchema).min(1, 'A route needs at least one step').max(50),
+  requiresAllSteps: z.boolean(),
+}).strict();
+
+export const CreateApprovalRouteSchema = z.object({
+  workflowType: ApprovalWorkflowTypeEnum,
+  routeName: z.string().trim().regex(/^[a-z0-9-]{3,100}$/, 'Route name must be 3-100 lowercase letters, digits or dashes'),
+  description: safeString(500).optional(),
+  routeConfig: RouteConfigSchema,
+  changeNote: safeString(500).optional(),
+  isDefault: z.boolean().optional(),
+}).strict();
+
+/**
+ * Route details and status - configuration changes go through versions
+ */
+export const UpdateApprovalRouteSchema = z.object({
+  description: safeString(500).optional(),
+  isActive: z.boolean().optional(),
+  isDefault: z.boolean().optional(),
+}).strict();
+
+/**
+ * Save a new configuration version, optionally activating it straight away
+ */
+export const CreateApprovalRouteVersionSchema = z.object({
+  routeConfig: RouteConfigSchema,
+  changeNote: safeString(500).optional(),
+  activate: z.boolean().optional(),
+}).strict();
+
+/**
+ * Preview the steps a route resolves to for an existing workflow record
+ * Either a saved route or an unsaved config can be previewed
+ */
+export const PreviewApprovalRouteSchema = z.object({
+  workflowType: ApprovalWorkflowTypeEnum,
+  workflowId: z.number().int().positive(),
+  routeId: z.number().int().positive().optional(),
+  routeConfig: RouteConfigSchema.optional(),
+}).strict().refine(
+  (data) => (data.routeId === undefined) !== (data.routeConfig === undefined),
+  { message: 'Provide either routeId or routeConfig' }
+);
+
+// Inferred types
+export type RouteConfigInput = z.infer<typeof RouteConfigSchema>;
+export type CreateApprovalRouteInput = z.infer<typeof CreateApprovalRouteSchema>;
+export type UpdateApprovalRouteInput = z.infer<typeof UpdateApprovalRouteSchema>;
+export type CreateApprovalRouteVersionInput = z.infer<typeof CreateApprovalRouteVersionSchema>;
+export type PreviewApprovalRouteInput = z.infer<typeof PreviewApprovalRouteSchema>;
+
+// =============================================================================
+// Risk Register
+// =============================================================================
+
+const RiskCategoryEnum = z.enum([
+  'CLIENT_ACCEPTANCE',
+  'INDEPENDENCE',
+  'ENGAGEMENT_LETTER',
+  'FILING_DEADLINE',
+  'OPERATIONAL',
+  'REGULATORY',
+  'FINANCIAL',
+  'PEOPLE',
+  'OTHER',
+]);
+
+const RiskScoreSchema = z.number().int().min(1).max(5);
+
+export const RiskRegisterFilterSchema = z.object({
+  serviceLine: safeIdentifier(50).optional(),
+  category: RiskCategoryEnum.optional(),
+  status: z.enum(['OPEN', 'MITIGATING', 'ACCEPTED', 'CLOSED', 'ACTIVE', 'ALL']).optional(),
+});
+
+export const CreateRiskEntrySchema = z.object({
+  title: safeString(255, 1),
+  description: safeString(4000).optional(),
+  category: RiskCategoryEnum,
+  serviceLine: safeIdentifier(50).nullable().optional(),
+  clientId: z.number().int().positive().nullable().optional(),
+  taskId: z.number().int().positive().nullable().optional(),
+  ownerEmpCode: safeIdentifier(10).nullable().optional(),
+  likelihood: RiskScoreSchema,
+  impact: RiskScoreSchema,
+  nextReviewDate: z.coerce.date().nullable().optional(),
+}).strict();
+
+/**
+ * Update a risk - reviewed marks it reviewed now and rolls the next review date
+ */
+export const UpdateRiskEntrySchema = z.object({
+  title: safeString(255, 1).optional(),
+  description: safeString(4000).nullable().optional(),
+  category: RiskCategoryEnum.optional(),
+  status: z.enum(['OPEN', 'MITIGATING', 'ACCEPTED', 'CLOSED']).optional(),
+  serviceLine: safeIdentifier(50).nullable().optional(),
+  ownerEmpCode: safeIdentifier(10).nullable().optional(),
+  likelihood: RiskScoreSchema.optional(),
+  impact: RiskScoreSchema.optional(),
+  nextReviewDate: z.coerce.date().nullable().optional(),
+  reviewed: z.boolean().optional(),
+}).strict();
+
+export const CreateRiskMitigationSchema = z.object({
+  action: safeString(1000, 1),
+  ownerEmpCode: safeIdentifier(10).nullable().optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+}).strict();
+
+export const UpdateRiskMitigationSchema = z.object({
+  action: safeString(1000, 1).optional(),
+  ownerEmpCode: safeIdentifier(10).nullable().optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+  status: z.enum(['PLANNED', 'IN_PROGRESS', 'COMPLETED']).optional(),
+}).strict();
+
+// Inferred types
+export type CreateRiskEntryInput = z.infer<typeof CreateRiskEntrySchema>;
+export type UpdateRiskEntryInput = z.infer<typeof UpdateRiskEntrySchema>;
+export type CreateRiskMitigationInput = z.infer<typeof CreateRiskMitigationSchema>;
+export type UpdateRiskMitigationInput = z.infer<typeof UpdateRiskMitigationSchema>;
+
+// =============================================================================
+// Working Capital
+// =============================================================================
+
+/**
+ * Set or clear a service line's lock-up target
+ */
+export const LockupTargetSchema = z.object({
+  serviceLine: safeIdentifier(50, 1),
+  targetDays: z.number().int().min(1).max(730).nullable(),
+}).strict();
+
+// Inferred types
+export type LockupTargetInput = z.infer<typeof LockupTargetSchema>;
+
+// =============================================================================
+// Financial Statements
+// =============================================================================
+
+const StatementSectionEnum = z.enum([
+  'REVENUE',
+  'COST_OF_SALES',
+  'OTHER_INCOME',
+  'OPERATING_EXPENSES',
+  'FINANCE_COSTS',
+  'TAXATION',
+  'NON_CURRENT_ASSETS',
+  'CURRENT_ASSETS',
+  'EQUITY',
+  'NON_CURRENT_LIABILITIES',
+  'CURRENT_LIABILITIES',
+]);
+
+export const CreateStatementLineSchema = z.object({
+  section: StatementSectionEnum,
+  name: safeString(150, 1),
+  sortOrder: z.number().int().min(0).max(9999).optional(),
+}).strict();
+
+export const UpdateStatementLineSchema = z.object({
+  section: StatementSectionEnum.optional(),
+  name: safeString(150, 1).optional(),
+  sortOrder: z.number().int().min(0).max(9999).optional(),
+  active: z.boolean().optional(),
+}).strict();
+
+/**
+ * Map accounts to a line by exact account, account prefix or GL category
+ */
+export const CreateStatementMappingSchema = z.object({
+  matchType: z.enum(['ACCOUNT', 'PREFIX', 'CATEGORY']),
+  pattern: safeString(30, 1).transform((val) => val.trim()),
+}).strict();
+
+// Inferred types
+export type CreateStatementLineInput = z.infer<typeof CreateStatementLineSchema>;
+export type UpdateStatementLineInput = z.infer<typeof UpdateStatementLineSchema>;
+export type CreateStatementMappingInput = z.infer<typeof CreateStatementMappingSchema>;
+
+// =============================================================================
+// Acceptance Questionnaires
+// =============================================================================
+
+const QUESTIONNAIRE_KEY = /^[A-Za-z][A-Za-z0-9_]{0,99}$/;
+
+/**
+ * Question in a questionnaire version
+ * Question text is free text shown to users, so it is length-checked rather
+ * than run through safeString. sectionKey and order are taken from the
+ * question's position when the version is saved.
+ */
+const QuestionnaireQuestionSchema = z.object({
+  questionKey: z.string().regex(QUESTIONNAIRE_KEY, 'Question keys must start with a letter and use letters, digits or underscores'),
+  questionText: z.string().trim().min(1).max(2000),
+  description: z.string().trim().max(2000).optional(),
+  fieldType: z.enum(['RADIO', 'TEXTAREA', 'SELECT', 'FILE_UPLOAD', 'BUTTON', 'PLACEHOLDER']),
+  options: z.array(z.string().trim().min(1).max(200)).max(50).optional(),
+  required: z.boolean(),
+  riskWeight: z.number().min(0).max(10),
+  highRiskAnswers: z.array(z.string().trim().min(1).max(200)).max(50).optional(),
+  conditionalDisplay: z.object({
+    dependsOn: z.string().regex(QUESTIONNAIRE_KEY, 'Invalid question key'),
+    requiredAnswer: z.string().trim().min(1).max(200),
+  }).strict().optional(),
+  allowComment: z.boolean().optional(),
+}).strict();
+
+const QuestionnaireSectionSchema = z.object({
+  key: z.string().regex(QUESTIONNAIRE_KEY, 'Section keys must start with a letter and use letters, digits or underscores'),
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(1000).optional(),
+  questions: z.array(QuestionnaireQuestionSchema).min(1, 'A section needs at least one question').max(200),
+}).strict();
+
+export const VersionedQuestionnaireTypeSchema = z.enum([
+  'ACCEPTANCE_FULL',
+  'ACCEPTANCE_LITE',
+  'CONTINUANCE_FULL',
+  'CONTINUANCE_LITE',
+]);
+
+/**
+ * Start a draft from the latest published version, or from an earlier version
+ * to roll a questionnaire back
+ */
+export const CreateQuestionnaireDraftSchema = z.object({
+  fromVersionId: z.number().int().positive().optional(),
+  changeNote: safeString(500).optional(),
+}).strict();
+
+/**
+ * Replace a draft's sections - published versions cannot be edited
+ */
+export const UpdateQuestionnaireDraftSchema = z.object({
+  sections: z.array(QuestionnaireSectionSchema).min(1, 'A questionnaire needs at least one section').max(50),
+  changeNote: safeString(500).optional(),
+}).strict();
+
+// Inferred types
+export type QuestionnaireSectionInput = z.infer<typeof QuestionnaireSectionSchema>;
+export type CreateQuestionnaireDraftInput = z.infer<typeof CreateQuestionnaireDraftSchema>;
+export type UpdateQuestionnaireDraftInput = z.infer<typeof UpdateQuestionnaireDraftSchema>;
+
+// =============================================================================
+// Risk Scoring
+// =============================================================================
+
+const RiskThresholdsSchema = z.object({
+  lowMax: z.number().min(0).max(100),
+  mediumMax: z.number().min(0).max(100),
+}).strict().refine((t) => t.lowMax < t.mediumMax, {
+  message: 'The LOW threshold must be below the MEDIUM threshold',
+  path: ['lowMax'],
+});
+
+const RiskAnswerSchema = z.string().trim().min(1).max(200);
+
+/**
+ * Scoring model configuration
+ * Keys are question and section keys, and answers match questionnaire options,
+ * so they are length-checked rather than run through safeString.
+ */
+export const RiskScoringConfigSchema = z.object({
+  thresholds: RiskThresholdsSchema,
+  serviceLineThresholds: z.record(z.string().max(50), RiskThresholdsSchema),
+  sectionWeights: z.record(z.string().regex(QUESTIONNAIRE_KEY, 'Invalid section key'), z.number().min(0).max(10)),
+  answerScores: z.record(
+    z.string().regex(QUESTIONNAIRE_KEY, 'Invalid question key'),
+    z.record(RiskAnswerSchema, z.number().min(0).max(1))
+  ),
+  knockouts: z.array(z.object({
+    questionKey: z.string().regex(QUESTIONNAIRE_KEY, 'Invalid question key'),
+    answers: z.array(RiskAnswerSchema).min(1, 'A knockout needs at least one answer').max(50),
+  }).strict()).max(200),
+}).strict();
+
+/**
+ * Start a draft model - copies the active model unless another is named
+ */
+export const CreateRiskScoringModelSchema = z.object({
+  name: safeString(100, 1),
+  description: safeString(500).optional(),
+  fromModelId: z.number().int().positive().optional(),
+}).strict();
+
+/**
+ * Update a draft model - active and retired models cannot be edited
+ */
+export const UpdateRiskScoringModelSchema = z.object({
+  name: safeString(100, 1).optional(),
+  description: safeString(500).nullable().optional(),
+  config: RiskScoringConfigSchema.optional(),
+}).strict();
+
+// Inferred types
+export type CreateRiskScoringModelInput = z.infer<typeof CreateRiskScoringModelSchema>;
+export type UpdateRiskScoringModelInput = z.infer<typeof UpdateRiskScoringModelSchema>;
+
+// =============================================================================
+// Engagement Letters
+// =============================================================================
+
+/**
+ * Generate a task's engagement letter
+ * Merge field overrides are typed and checked against the field catalog in the service.
+ */
+export const GenerateEngagementLetterSchema = z.object({
+  templateId: z.number().int().positive().optional(),
+  useAiAdaptation: z.boolean().optional(),
+  clauseIds: z.array(z.number().int().positive()).max(50).optional(),
+  mergeFieldOverrides: z.record(z.string().max(50), z.string().max(4000)).optional(),
+}).strict();
+
+/**
+ * Clause library entries - content is markdown with {{mergeField}} placeholders
+ */
+export const CreateEngagementLetterClauseSchema = z.object({
+  title: z.string().min(1).max(200),
+  content: z.string().min(1),
+  category: z.string().max(100).nullable().optional(),
+  serviceLine: z.string().max(50).nullable().optional(),
+  isDefault: z.boolean().default(false),
+  active: z.boolean().default(true),
+  sortOrder: z.number().int().min(0).default(0),
+}).strict();
+
+export const UpdateEngagementLetterClauseSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  content: z.string().min(1).optional(),
+  category: z.string().max(100).nullable().optional(),
+  serviceLine: z.string().max(50).nullable().optional(),
+  isDefault: z.boolean().optional(),
+  active: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+}).strict();
+
+// Inferred types
+export type GenerateEngagementLetterInput = z.infer<typeof GenerateEngagementLetterSchema>;
+export type CreateEngagementLetterClauseInput = z.infer<typeof CreateEngagementLetterClauseSchema>;
+export type UpdateEngagementLetterClauseInput = z.infer<typeof UpdateEngagementLetterClauseSchema>;
@@ -22,8 +22,16 @@ export type ApprovalPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
 
 /**
  * Step type
+ * LEADER_GROUP and SERVICE_LINE_LEADER expand into one step per person (use with ANY_OF)
  */
-export type ApprovalStepType = 'USER' | 'ROLE' | 'CONDITIONAL';
+export type ApprovalStepType = 'USER' | 'ROLE' | 'CONDITIONAL' | 'LEADER_GROUP' | 'SERVICE_LINE_LEADER';
+
+/**
+ * How steps sharing a stepOrder complete
+ * ALL_OF - every required step in the group must approve
+ * ANY_OF - the first approval completes the group; remaining steps are skipped
+ */
+export type ParallelMode = 'ALL_OF' | 'ANY_OF';
 
 /**
  * Workflow types
@@ -76,6 +84,7 @@ export interface ApprovalStepWithUsers extends ApprovalStep {
 
 /**
  * Route configuration structure
+ * Steps sharing a stepOrder form a parallel group; groups run in ascending stepOrder
  */
 export interface RouteConfig {
   steps: RouteStepConfig[];
@@ -85,13 +94,99 @@ export interface RouteConfig {
 export interface RouteStepConfig {
   stepOrder: number;
   stepType: ApprovalStepType;
+  label?: string;  // Display name for previews (e.g. "QRM review")
   isRequired?: boolean;
-  // For USER type
+  // For USER type - a context path or a fixed user
   assignedToUserIdPath?: string;  // JSON path to user ID in context
+  assignedToUserId?: string;
   // For ROLE type
   assignedToRole?: string;
-  // Conditional logic
-  condition?: string;  // JavaScript expression to evaluate
+  // For LEADER_GROUP type
+  leaderGroupName?: string;
+  // For SERVICE_LINE_LEADER type - a fixed master service line or a context path to one
+  serviceLine?: string;
+  serviceLinePath?: string;
+  // Parallel groups - must match across steps with the same stepOrder (default: ALL_OF)
+  parallelMode?: ParallelMode;
+  // Conditional logic - step is only created when the condition holds
+  condition?: RouteCondition;
+}
+
+/**
+ * Comparison operators for route conditions
+ */
+export type ConditionOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'notIn'
+  | 'exists';
+
+/**
+ * Condition evaluated against the route context
+ * Strings are the legacy form (e.g. "context.riskLevel > 3") and support a
+ * single comparison or comparisons joined with && / ||
+ */
+export type RouteCondition =
+  | string
+  | { field: string; operator: ConditionOperator; value?: unknown }
+  | { all: RouteCondition[] }
+  | { any: RouteCondition[] }
+  | { not: RouteCondition };
+
+/**
+ * A route step after conditions and assignees have been resolved
+ */
+export interface ResolvedRouteStep {
+  stepOrder: number;
+  stepType: ApprovalStepType;
+  label: string | null;
+  isRequired: boolean;
+  parallelMode: ParallelMode;
+  assignedToUserId: string | null;
+  assignedToRole: string | null;
+  condition: string | null;  // Serialized condition that admitted the step
+  warning?: string;  // Why an assignee could not be resolved
+}
+
+/**
+ * A route step excluded because its condition did not hold
+ */
+export interface SkippedRouteStep {
+  stepOrder: number;
+  stepType: ApprovalStepType;
+  label: string | null;
+  condition: string;
+}
+
+/**
+ * Result of validating a route configuration
+ */
+export interface RouteValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Resolved steps for a route against a specific workflow record
+ */
+export interface RoutePreview {
+  workflowType: WorkflowType;
+  workflowId: number;
+  requiresAllSteps: boolean;
+  context: Record<string, unknown>;
+  stages: Array<{
+    stepOrder: number;
+    parallelMode: ParallelMode;
+    steps: Array<ResolvedRouteStep & { assignedToUser: { id: string; name: string | null; email: string } | null }>;
+  }>;
+  skipped: SkippedRouteStep[];
+  validation: RouteValidationResult;
 }
 
 /**
@@ -166,6 +261,47 @@ export interface WorkflowRegistryEntry {
   fetchData: WorkflowDataFetcher;
   getDisplayTitle?: (data: unknown) => string;
   getDisplayDescription?: (data: unknown) => string;
+  /** Fields from the workflow record that route conditions can branch on */
+  getRouteContext?: (data: unknown) => Promise<Record<string, unknown>> | Record<string, unknown>;
+}
+
+/**
+ * Approval SLA history events
+ * NO_ESCALATION_TARGET - escalation was due but the approver has no leader group colleague to escalate to
+ */
+export type ApprovalSlaEventType = 'REMINDER' | 'ESCALATED' | 'NO_ESCALATION_TARGET';
+
+interface ApprovalUserSummary {
+  id: string;
+  name: string | null;
+}
+
+/**
+ * Pending approval step past its reminder threshold, with SLA history
+ */
+export interface OverdueApprovalStep {
+  stepId: number;
+  approvalId: number;
+  workflowType: WorkflowType;
+  title: string;
+  stepOrder: number;
+  stepType: ApprovalStepType;
+  requestedBy: ApprovalUserSummary;
+  assignedTo: ApprovalUserSummary | null;
+  currentApprover: ApprovalUserSummary | null;
+  activatedAt: Date;
+  businessDaysWaiting: number;
+  reminderBusinessDays: number;
+  escalationBusinessDays: number;
+  escalationLevel: number;
+  history: Array<{
+    id: number;
+    eventType: ApprovalSlaEventType;
+    businessDaysWaiting: number;
+    createdAt: Date;
+    fromUser: ApprovalUserSummary | null;
+    toUser: ApprovalUserSummary | null;
+  }>;
 }
 
 /**
@@ -173,3 +173,97 @@ export interface VaultDocumentApprovalDTO {
   requiresAllSteps: boolean;
   steps: ApprovalStepDTO[];
 }
+
+/**
+ * Search Types
+ * For ranked full-text search and similar documents
+ */
+export interface VaultSearchParams {
+  query: string;
+  categoryIds?: number[];
+  documentTypes?: string[];
+  serviceLines?: string[];
+  effectiveYears?: string[];
+  sort?: 'relevance' | 'newest';
+  page?: number;
+  limit?: number;
+}
+
+export interface VaultSearchHighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface VaultSearchResultDTO {
+  id: number;
+  title: string;
+  description: string | null;
+  documentType: VaultDocumentType;
+  category: {
+    id: number;
+    name: string;
+    icon: string | null;
+    color: string | null;
+  };
+  scope: VaultDocumentScope;
+  serviceLine: string | null;
+  aiSummary: string | null;
+  tags: string[] | null;
+  publishedAt: Date | null;
+  effectiveDate: Date | null;
+  score: number;
+  titleSegments: VaultSearchHighlightSegment[];
+  snippet: VaultSearchHighlightSegment[];
+}
+
+export interface VaultSearchFacetBucket {
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface VaultSearchFacets {
+  categories: VaultSearchFacetBucket[];
+  documentTypes: VaultSearchFacetBucket[];
+  /** Global documents are bucketed under the value GLOBAL */
+  serviceLines: VaultSearchFacetBucket[];
+  /** Years, plus "none" for documents without an effective date */
+  effectiveYears: VaultSearchFacetBucket[];
+}
+
+export interface VaultSearchResponse {
+  query: string;
+  results: VaultSearchResultDTO[];
+  facets: VaultSearchFacets;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface VaultSimilarDocumentDTO {
+  id: number;
+  title: string;
+  documentType: VaultDocumentType;
+  category: {
+    id: number;
+    name: string;
+    icon: string | null;
+    color: string | null;
+  };
+  scope: VaultDocumentScope;
+  serviceLine: string | null;
+  aiSummary: string | null;
+  effectiveDate: Date | null;
+  /** Cosine similarity, 0-1 */
+  similarity: number;
+}
+
+export interface VaultSimilarDocumentsResponse {
+  /** False when the local embedding index is switched off */
+  enabled: boolean;
+  documents: VaultSimilarDocumentDTO[];
+}
@@ -0,0 +1,84 @@
+/**
+ * Engagement Letter Builder Types
+ * Merge fields, clause library and generation state for template-generated letters
+ */
+
+export type MergeFieldType = 'text' | 'date' | 'currency' | 'number';
+
+export type MergeFieldGroup = 'client' | 'partner' | 'task' | 'fees' | 'scope' | 'letter';
+
+/**
+ * Merge field available to engagement letter templates and clauses as {{key}}
+ */
+export interface MergeFieldDefinition {
+  key: string;
+  label: string;
+  type: MergeFieldType;
+  group: MergeFieldGroup;
+  /** Partners may replace the value before generating */
+  editable: boolean;
+  /** Generation is blocked while the field is empty */
+  required: boolean;
+}
+
+/**
+ * Merge field with the value resolved for a task
+ * value is the raw value (ISO date, plain number); display is the text merged into the letter
+ */
+export interface MergeFieldValue extends MergeFieldDefinition {
+  value: string | null;
+  display: string;
+}
+
+export interface EngagementLetterClause {
+  id: number;
+  title: string;
+  content: string;
+  category: string | null;
+  serviceLine: string | null;
+  isDefault: boolean;
+  active: boolean;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type EngagementLetterApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+/**
+ * Letter generated for a task, as linked on TaskEngagementLetter
+ */
+export interface GeneratedEngagementLetter {
+  templateId: number | null;
+  templateVersionId: number | null;
+  generatedAt: string;
+  generatedBy: string | null;
+  hasWordDocument: boolean;
+  clauseIds: number[];
+  mergeFieldValues: Record<string, string>;
+  approval: { id: number; status: EngagementLetterApprovalStatus; requestedAt: string } | null;
+}
+
+/**
+ * Everything the task's engagement letter builder needs
+ */
+export interface EngagementLetterBuilderData {
+  serviceLine: string | null;
+  templates: Array<{ id: number; name: string; description: string | null; serviceLine: string | null }>;
+  clauses: EngagementLetterClause[];
+  mergeFields: MergeFieldValue[];
+  generated: GeneratedEngagementLetter | null;
+}
+
+export interface GenerateEngagementLetterResult {
+  content: string;
+  generated: true;
+  sectionsUsed: Array<{ sectionKey: string; title: string; wasAiAdapted: boolean }>;
+  clausesUsed: Array<{ id: number; title: string }>;
+  templateId: number;
+  templateVersionId?: number;
+  version?: number;
+  aiAdaptationUsed: boolean;
+  hasWordDocument: boolean;
+  unresolvedFields: string[];
+}
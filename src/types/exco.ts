@@ -0,0 +1,979 @@
+/**
+ * EXCO reporting type definitions
+ * Firm-wide reports under Country Management > Exco Reporting
+ */
+
+export interface ExcoPeriodFilter {
+  fiscalYear: number;
+  fiscalQuarter?: number;
+  fiscalMonth?: number;
+}
+
+export interface ExcoReportPeriod {
+  fiscalYear: number;
+  fiscalQuarter: number | null;
+  fiscalMonth: number | null;
+  label: string;
+  startDate: string;
+  endDate: string;
+  /** Last day included in capacity - period end or today for the current period */
+  asOfDate: string;
+  workingDays: number;
+}
+
+export interface ExcoFiscalYearOption {
+  fiscalYear: number;
+  label: string;
+}
+
+// Utilization
+
+export interface UtilizationMetrics {
+  employeeCount: number;
+  /** Working days x 8 hours, adjusted for start and leaving dates */
+  standardHours: number;
+  /** Leave, training and other non-client allocations */
+  nonClientHours: number;
+  availableHours: number;
+  chargeableHours: number;
+  chargeableValue: number;
+  /** Chargeable hours as a percentage of available hours */
+  utilization: number;
+  /** Chargeable hours as a percentage of standard hours */
+  grossUtilization: number;
+}
+
+export interface UtilizationBreakdownRow extends UtilizationMetrics {
+  key: string;
+  label: string;
+}
+
+export interface EmployeeUtilization extends Omit<UtilizationMetrics, 'employeeCount'> {
+  empCode: string;
+  empName: string;
+  officeCode: string;
+  gradeCode: string;
+  gradeDesc: string;
+  serviceLineCode: string;
+  nonClientByType: Record<string, number>;
+}
+
+export interface UtilizationReport {
+  period: ExcoReportPeriod;
+  /** Master service line the report is drilled into, if any */
+  serviceLine: { code: string; name: string } | null;
+  totals: UtilizationMetrics;
+  byServiceLine: UtilizationBreakdownRow[];
+  byOffice: UtilizationBreakdownRow[];
+  byGrade: UtilizationBreakdownRow[];
+  /** Staff rows - only returned when drilled into a service line */
+  employees: EmployeeUtilization[] | null;
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+// Partner scorecards
+
+export interface WipAgingBuckets {
+  current: number;
+  days30: number;
+  days60: number;
+  days90: number;
+  days120: number;
+  days150: number;
+  days180: number;
+}
+
+export interface DebtorAgingBuckets {
+  current: number;
+  days31_60: number;
+  days61_90: number;
+  days91_120: number;
+  days120Plus: number;
+}
+
+export interface PartnerPeriodMetrics {
+  /** Fees billed on the partner's tasks (WIP TType 'F') */
+  feesBilled: number;
+  /** Gross WIP from the latest WIPAging snapshot at period end */
+  wipBalance: number;
+  wipProvision: number;
+  netWip: number;
+  wipAging: WipAgingBuckets;
+  /** Debtors where the partner is the biller, aged at period end */
+  debtorsBalance: number;
+  debtorAging: DebtorAgingBuckets;
+  /** Debtors balance over the last 12 months' billings x 365 */
+  debtorDays: number;
+  /** Gross billings over the 12 months to period end */
+  billings12Months: number;
+  openingDebtors: number;
+  receipts: number;
+  /** Receipts in the period as a percentage of the opening debtors balance */
+  recoverability: number;
+  /** Clients converted from BD opportunities, by client partner */
+  newClients: number;
+  newClientValue: number;
+  /** Review notes open on the partner's tasks at period end */
+  openReviewNotes: number;
+  overdueReviewNotes: number;
+}
+
+export interface PartnerScorecard {
+  empCode: string;
+  empName: string;
+  officeCode: string;
+  serviceLineCode: string;
+  serviceLineName: string;
+  current: PartnerPeriodMetrics;
+  /** Same period in the prior fiscal year */
+  prior: PartnerPeriodMetrics;
+}
+
+export interface PartnerScorecardReport {
+  period: ExcoReportPeriod;
+  comparisonPeriod: ExcoReportPeriod;
+  partners: PartnerScorecard[];
+  totals: {
+    current: PartnerPeriodMetrics;
+    prior: PartnerPeriodMetrics;
+  };
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+// Risk register
+
+export type RiskCategory =
+  | 'CLIENT_ACCEPTANCE'
+  | 'INDEPENDENCE'
+  | 'ENGAGEMENT_LETTER'
+  | 'FILING_DEADLINE'
+  | 'OPERATIONAL'
+  | 'REGULATORY'
+  | 'FINANCIAL'
+  | 'PEOPLE'
+  | 'OTHER';
+
+export type RiskStatus = 'OPEN' | 'MITIGATING' | 'ACCEPTED' | 'CLOSED';
+export type RiskSource = 'AUTO' | 'MANUAL';
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+export type RiskMitigationStatus = 'PLANNED' | 'IN_PROGRESS' | 'COMPLETED';
+
+export const RISK_CATEGORY_LABELS: Record<RiskCategory, string> = {
+  CLIENT_ACCEPTANCE: 'Client Acceptance',
+  INDEPENDENCE: 'Independence',
+  ENGAGEMENT_LETTER: 'Engagement Letter',
+  FILING_DEADLINE: 'Filing Deadline',
+  OPERATIONAL: 'Operational',
+  REGULATORY: 'Regulatory',
+  FINANCIAL: 'Financial',
+  PEOPLE: 'People',
+  OTHER: 'Other',
+};
+
+export const RISK_STATUS_LABELS: Record<RiskStatus, string> = {
+  OPEN: 'Open',
+  MITIGATING: 'Mitigating',
+  ACCEPTED: 'Accepted',
+  CLOSED: 'Closed',
+};
+
+export interface RiskMitigationItem {
+  id: number;
+  action: string;
+  ownerEmpCode: string | null;
+  ownerName: string | null;
+  dueDate: string | null;
+  status: RiskMitigationStatus;
+  completedAt: string | null;
+}
+
+export interface RiskRegisterItem {
+  id: number;
+  title: string;
+  description: string | null;
+  category: RiskCategory;
+  source: RiskSource;
+  status: RiskStatus;
+  serviceLine: string | null;
+  serviceLineName: string | null;
+  client: { id: number; clientCode: string; clientNameFull: string | null } | null;
+  task: { id: number; taskCode: string; taskDesc: string } | null;
+  ownerEmpCode: string | null;
+  ownerName: string | null;
+  likelihood: number;
+  impact: number;
+  /** Likelihood x impact (1-25) */
+  score: number;
+  level: RiskLevel;
+  lastReviewedAt: string | null;
+  lastReviewedBy: string | null;
+  nextReviewDate: string | null;
+  reviewOverdue: boolean;
+  closedAt: string | null;
+  createdAt: string;
+  mitigations: RiskMitigationItem[];
+}
+
+export interface RiskHeatMapCell {
+  likelihood: number;
+  impact: number;
+  count: number;
+}
+
+export interface RiskRegisterFilter {
+  serviceLine?: string;
+  category?: RiskCategory;
+  /** Defaults to active (not closed) risks */
+  status?: RiskStatus | 'ACTIVE' | 'ALL';
+}
+
+export interface RiskRegisterReport {
+  entries: RiskRegisterItem[];
+  /** Active risks by likelihood and impact - all 25 cells */
+  heatMap: RiskHeatMapCell[];
+  summary: {
+    active: number;
+    highOrCritical: number;
+    reviewOverdue: number;
+    byCategory: Partial<Record<RiskCategory, number>>;
+  };
+  /** Master service lines for filtering and assignment */
+  serviceLines: Array<{ code: string; name: string }>;
+}
+
+export interface RiskSyncResult {
+  created: number;
+  /** Seeded risks closed by an earlier sync whose signal is active again */
+  reopened: number;
+  closed: number;
+}
+
+// Working capital
+
+export type LockupDimension = 'serviceLine' | 'partner' | 'group';
+
+export interface LockupMetrics {
+  /** Net WIP (time + disbursements + adjustments + provisions - fees) */
+  wipBalance: number;
+  debtorsBalance: number;
+  /** Net revenue (time + adjustments) over the 12 months to month end */
+  trailingRevenue: number;
+  /** Net billings (all debtor entries except receipts) over the 12 months to month end */
+  trailingBillings: number;
+  /** WIP balance over trailing revenue x 365 */
+  wipDays: number;
+  /** Debtors balance over trailing billings x 365 */
+  debtorDays: number;
+  /** WIP days + debtor days */
+  lockupDays: number;
+}
+
+export interface LockupTrendPoint extends LockupMetrics {
+  /** Month end (ISO date) */
+  month: string;
+  label: string;
+}
+
+export interface LockupBreakdownRow extends LockupMetrics {
+  key: string;
+  label: string;
+  /** Lock-up days at the first month of the period */
+  openingLockupDays: number;
+  targetDays: number | null;
+  /** Lock-up days above (+) or below (-) target */
+  varianceDays: number | null;
+}
+
+export interface LockupClientRow extends LockupMetrics {
+  clientId: number | null;
+  clientCode: string;
+  clientName: string;
+  groupDesc: string;
+  debtorAging: DebtorAgingBuckets;
+}
+
+export interface LockupServiceLineTarget {
+  code: string;
+  name: string;
+  targetDays: number | null;
+}
+
+export interface LockupReport {
+  period: ExcoReportPeriod;
+  dimension: LockupDimension;
+  /** Master service line the report is scoped to, if any */
+  serviceLine: LockupServiceLineTarget | null;
+  /** Monthly lock-up for the firm or the selected service line */
+  trend: LockupTrendPoint[];
+  totals: LockupMetrics;
+  /** Position at period end by the selected dimension */
+  rows: LockupBreakdownRow[];
+  /** Clients with the highest lock-up days at period end */
+  topClients: LockupClientRow[];
+  serviceLines: LockupServiceLineTarget[];
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+// Budget forecasting
+
+export type ForecastDriverType = 'HOURS' | 'RATE' | 'DISBURSEMENTS' | 'SCHEDULE' | 'BURN_RATE';
+
+export interface ForecastDriver {
+  type: ForecastDriverType;
+  /** Contribution to the projected overrun */
+  impact: number;
+  explanation: string;
+}
+
+export interface TaskForecast {
+  taskId: number;
+  taskCode: string;
+  taskDesc: string;
+  clientCode: string | null;
+  clientName: string | null;
+  serviceLineCode: string;
+  serviceLineName: string;
+  partnerName: string;
+  dueDate: string | null;
+  budgetHours: number;
+  /** Budgeted time + disbursements at charge-out value */
+  budgetChargeable: number;
+  budgetFees: number;
+  actualHours: number;
+  /** Time + disbursements recorded to date */
+  actualChargeable: number;
+  feesBilled: number;
+  wipBalance: number;
+  /** Actual chargeable as a percentage of budget */
+  burnPercent: number;
+  /** Share of the budget period elapsed, when start and due dates are known */
+  elapsedPercent: number | null;
+  projectedChargeable: number;
+  /** Projected chargeable at the recovery rate to date */
+  projectedFees: number;
+  /** Projected fees not yet billed */
+  remainingFeeRecovery: number;
+  overrun: boolean;
+  overrunAmount: number;
+  /** Largest contributor first */
+  drivers: ForecastDriver[];
+}
+
+export interface BudgetForecastMonth {
+  /** yyyy-MM */
+  month: string;
+  label: string;
+  glBudget: number;
+  actualFees: number;
+  /** Projected billing of remaining fee recovery - current and future months only */
+  forecastFees: number;
+  /** Actual + forecast less GL budget */
+  variance: number;
+}
+
+export interface BudgetForecastTotals {
+  glBudget: number;
+  actualFees: number;
+  forecastFees: number;
+  variance: number;
+}
+
+export interface BudgetForecastServiceLineRow extends BudgetForecastTotals {
+  code: string;
+  name: string;
+  taskCount: number;
+  overrunCount: number;
+  budgetFees: number;
+  projectedFees: number;
+  remainingFeeRecovery: number;
+  wipBalance: number;
+}
+
+export interface BudgetForecastReport {
+  period: ExcoReportPeriod;
+  /** Master service line the report is scoped to, if any */
+  serviceLine: { code: string; name: string } | null;
+  /** GL budget version compared against */
+  budgetCode: string | null;
+  budgetCodes: string[];
+  months: BudgetForecastMonth[];
+  totals: BudgetForecastTotals;
+  byServiceLine: BudgetForecastServiceLineRow[];
+  /** Budgeted tasks - projected overruns first, then by remaining recovery */
+  tasks: TaskForecast[];
+  taskCount: number;
+  overrunCount: number;
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+// Client portfolio
+
+export interface PortfolioClientRow {
+  clientId: number;
+  clientCode: string;
+  clientName: string;
+  groupDesc: string;
+  industry: string | null;
+  fees: number;
+  priorFees: number;
+  sharePercent: number;
+  /** Share of fees of this client and every larger one */
+  cumulativeSharePercent: number;
+  serviceLineCount: number;
+}
+
+export interface PortfolioConcentration {
+  totalFees: number;
+  priorTotalFees: number;
+  /** Clients billed in the period */
+  clientCount: number;
+  top10SharePercent: number;
+  top20SharePercent: number;
+  priorTop10SharePercent: number;
+  priorTop20SharePercent: number;
+  /** Share of the 10 largest client groups */
+  groupTop10SharePercent: number;
+}
+
+export interface PortfolioChurnClient {
+  clientId: number;
+  clientCode: string;
+  clientName: string;
+  groupDesc: string;
+  /** Prior period fees for lost clients, current period fees for new clients */
+  fees: number;
+  serviceLines: string[];
+}
+
+export interface PortfolioChurn {
+  priorActiveClients: number;
+  currentActiveClients: number;
+  retainedClients: number;
+  lostClients: number;
+  newClients: number;
+  /** Retained over prior active clients */
+  retentionPercent: number;
+  /** Prior period fees of the clients lost */
+  lostFees: number;
+  lost: PortfolioChurnClient[];
+  gained: PortfolioChurnClient[];
+}
+
+export interface CrossSellBucket {
+  serviceLineCount: number;
+  label: string;
+  groupCount: number;
+  fees: number;
+}
+
+export interface CrossSellServiceLineRow {
+  code: string;
+  name: string;
+  groupCount: number;
+  /** Groups this service line serves that at least one other service line also serves */
+  sharedGroupPercent: number;
+}
+
+export interface CrossSellGroupRow {
+  groupCode: string;
+  groupDesc: string;
+  clientCount: number;
+  fees: number;
+  serviceLines: string[];
+}
+
+export interface CrossSellCoverage {
+  /** Client groups with an active task in the period */
+  groupCount: number;
+  averageServiceLines: number;
+  singleServiceLinePercent: number;
+  buckets: CrossSellBucket[];
+  serviceLines: CrossSellServiceLineRow[];
+  topGroups: CrossSellGroupRow[];
+}
+
+export interface ClientPortfolioReport {
+  period: ExcoReportPeriod;
+  /** Same period in the prior fiscal year */
+  comparisonPeriod: ExcoReportPeriod;
+  concentration: PortfolioConcentration;
+  topClients: PortfolioClientRow[];
+  churn: PortfolioChurn;
+  crossSell: CrossSellCoverage;
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+// Sector analysis
+
+export type SectorDimension = 'industry' | 'sector';
+
+export interface SectorRow {
+  label: string;
+  fees: number;
+  sharePercent: number;
+  priorFees: number;
+  growthPercent: number | null;
+  clientCount: number;
+  priorClientCount: number;
+  largestClientName: string | null;
+  /** Largest client's share of the sector's fees */
+  largestClientSharePercent: number;
+}
+
+export interface SectorTrendYear {
+  fiscalYear: number;
+  label: string;
+  totalFees: number;
+  /** Share of the year's fees by sector label, including 'Other' */
+  shares: Record<string, number>;
+}
+
+export interface SectorAnalysisReport {
+  period: ExcoReportPeriod;
+  comparisonPeriod: ExcoReportPeriod;
+  dimension: SectorDimension;
+  /** Industry the report is drilled into, if any */
+  industry: string | null;
+  totals: {
+    fees: number;
+    priorFees: number;
+    growthPercent: number | null;
+    clientCount: number;
+  };
+  rows: SectorRow[];
+  /** Sector labels charted in the trend - the largest by current fees, then 'Other' */
+  trendSeries: string[];
+  /** Fee mix by fiscal year, oldest first */
+  trend: SectorTrendYear[];
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+// Financial statements
+
+export type FinancialStatementType = 'INCOME_STATEMENT' | 'BALANCE_SHEET';
+
+export type StatementSection =
+  | 'REVENUE'
+  | 'COST_OF_SALES'
+  | 'OTHER_INCOME'
+  | 'OPERATING_EXPENSES'
+  | 'FINANCE_COSTS'
+  | 'TAXATION'
+  | 'NON_CURRENT_ASSETS'
+  | 'CURRENT_ASSETS'
+  | 'EQUITY'
+  | 'NON_CURRENT_LIABILITIES'
+  | 'CURRENT_LIABILITIES';
+
+export type StatementMappingType = 'ACCOUNT' | 'PREFIX' | 'CATEGORY';
+
+export interface StatementSectionDefinition {
+  statement: FinancialStatementType;
+  label: string;
+  /** Credit-balance sections (income, liabilities, equity) show credits as positive */
+  creditPositive: boolean;
+}
+
+/** Sections in presentation order */
+export const STATEMENT_SECTIONS: Record<StatementSection, StatementSectionDefinition> = {
+  REVENUE: { statement: 'INCOME_STATEMENT', label: 'Revenue', creditPositive: true },
+  COST_OF_SALES: { statement: 'INCOME_STATEMENT', label: 'Cost of Sales', creditPositive: false },
+  OTHER_INCOME: { statement: 'INCOME_STATEMENT', label: 'Other Income', creditPositive: true },
+  OPERATING_EXPENSES: { statement: 'INCOME_STATEMENT', label: 'Operating Expenses', creditPositive: false },
+  FINANCE_COSTS: { statement: 'INCOME_STATEMENT', label: 'Finance Costs', creditPositive: false },
+  TAXATION: { statement: 'INCOME_STATEMENT', label: 'Taxation', creditPositive: false },
+  NON_CURRENT_ASSETS: { statement: 'BALANCE_SHEET', label: 'Non-current Assets', creditPositive: false },
+  CURRENT_ASSETS: { statement: 'BALANCE_SHEET', label: 'Current Assets', creditPositive: false },
+  EQUITY: { statement: 'BALANCE_SHEET', label: 'Equity', creditPositive: true },
+  NON_CURRENT_LIABILITIES: { statement: 'BALANCE_SHEET', label: 'Non-current Liabilities', creditPositive: true },
+  CURRENT_LIABILITIES: { statement: 'BALANCE_SHEET', label: 'Current Liabilities', creditPositive: true },
+};
+
+export const STATEMENT_MAPPING_TYPE_LABELS: Record<StatementMappingType, string> = {
+  ACCOUNT: 'Account',
+  PREFIX: 'Account prefix',
+  CATEGORY: 'GL category',
+};
+
+export interface StatementMappingRule {
+  id: number;
+  matchType: StatementMappingType;
+  pattern: string;
+}
+
+export interface StatementLineConfig {
+  id: number;
+  section: StatementSection;
+  name: string;
+  sortOrder: number;
+  active: boolean;
+  mappings: StatementMappingRule[];
+}
+
+export interface StatementAccount {
+  gsAccountId: string;
+  account: string;
+  description: string;
+  category: string;
+  categoryDesc: string | null;
+  statement: FinancialStatementType;
+  /** Line the account resolves to, null when unmapped */
+  lineId: number | null;
+  lineName: string | null;
+}
+
+export interface StatementAmounts {
+  actual: number;
+  /** Not budgeted (balance sheet, or no GL budget loaded) */
+  budget: number | null;
+  priorYear: number;
+  budgetVariance: number | null;
+  priorYearVariance: number;
+}
+
+export type StatementColumnKey = 'MONTH' | 'QTD' | 'YTD' | 'CLOSING' | 'OPENING';
+
+export interface StatementColumn {
+  key: StatementColumnKey;
+  label: string;
+  /** Period the column covers (ISO dates) - balances are at the end date */
+  startDate: string;
+  endDate: string;
+}
+
+export type StatementRowType = 'LINE' | 'SECTION_TOTAL' | 'SUBTOTAL';
+
+export interface StatementRow {
+  type: StatementRowType;
+  key: string;
+  label: string;
+  /** Section the row belongs to; null for subtotals across sections */
+  section: StatementSection | 'UNMAPPED' | null;
+  /** Credits show as positive - increases are favourable */
+  creditPositive: boolean;
+  /** Drill-through key for line rows (`L<lineId>` or `C<category>` for unmapped accounts) */
+  drillKey: string | null;
+  /** One per report column */
+  amounts: StatementAmounts[];
+}
+
+export interface FinancialStatementReport {
+  statement: FinancialStatementType;
+  fiscalYear: number;
+  fiscalMonth: number;
+  /** Month the statement is drawn to */
+  periodLabel: string;
+  budgetCode: string | null;
+  budgetCodes: string[];
+  columns: StatementColumn[];
+  rows: StatementRow[];
+  /** Accounts reported under their GL category because no mapping matched */
+  unmappedAccounts: number;
+  /**
+   * Balance sheet only: assets less liabilities, equity and profit for the year -
+   * non-zero when the ledger doesn't balance (e.g. prior years not closed off)
+   */
+  outOfBalance: number | null;
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+export interface StatementEntry {
+  id: number;
+  entryDate: string | null;
+  account: string;
+  accountDesc: string;
+  reference: string | null;
+  narration: string | null;
+  sourceBatch: string | null;
+  entryGroup: string | null;
+  officeCode: string;
+  /** Debit positive */
+  amount: number;
+}
+
+export interface StatementEntryPage {
+  label: string;
+  startDate: string;
+  endDate: string;
+  entries: StatementEntry[];
+  total: number;
+  /** Sum of all matching entries, not just this page */
+  totalAmount: number;
+  page: number;
+  totalPages: number;
+}
+
+// New business
+
+export interface NewBusinessSummary {
+  wonCount: number;
+  wonValue: number;
+  priorWonCount: number;
+  priorWonValue: number;
+  wonValueGrowthPercent: number | null;
+  lostCount: number;
+  /** Won over won and lost in the period */
+  winRatePercent: number;
+  priorWinRatePercent: number;
+  averageDealValue: number;
+  /** Days from creation to the win */
+  averageCycleDays: number;
+  /** Fees billed to date on the won clients since the win */
+  attributedFees: number;
+  /** Attributed fees over won value */
+  realisationPercent: number;
+}
+
+export interface NewBusinessServiceLineRow {
+  code: string;
+  name: string;
+  wonCount: number;
+  wonValue: number;
+  lostCount: number;
+  winRatePercent: number;
+  attributedFees: number;
+}
+
+export interface NewBusinessWin {
+  opportunityId: number;
+  title: string;
+  clientName: string | null;
+  serviceLine: string;
+  value: number;
+  wonDate: string;
+  cycleDays: number;
+  attributedFees: number;
+  /** Attributed fees over the opportunity value, null without a value */
+  realisationPercent: number | null;
+}
+
+export interface NewBusinessQuarter {
+  fiscalYear: number;
+  fiscalQuarter: number;
+  label: string;
+  createdCount: number;
+  createdValue: number;
+  wonCount: number;
+  wonValue: number;
+  lostCount: number;
+  winRatePercent: number;
+  attributedFees: number;
+}
+
+export interface NewBusinessReport {
+  period: ExcoReportPeriod;
+  comparisonPeriod: ExcoReportPeriod;
+  summary: NewBusinessSummary;
+  serviceLines: NewBusinessServiceLineRow[];
+  /** Largest wins in the period */
+  wins: NewBusinessWin[];
+  /** Last eight fiscal quarters to the end of the period, oldest first */
+  trend: NewBusinessQuarter[];
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+// Pipeline
+
+export interface PipelineCoverage {
+  /** GL fee budget for the period */
+  targetFees: number;
+  /** Fees billed in the period to date */
+  billedFees: number;
+  /** Target less billed, never below zero */
+  revenueGap: number;
+  /** Open value expected to close by the end of the period (overdue included) */
+  closingValue: number;
+  closingWeightedValue: number;
+  /** Weighted closing value over the revenue gap, null when there is no gap */
+  coveragePercent: number | null;
+}
+
+export interface PipelineSummary extends PipelineCoverage {
+  openCount: number;
+  totalValue: number;
+  weightedValue: number;
+  averageAgeDays: number;
+  overdueCount: number;
+}
+
+export interface PipelineStageRow {
+  name: string;
+  order: number;
+  count: number;
+  value: number;
+  weightedValue: number;
+  /** Average days open opportunities have been in the stage */
+  averageCurrentDays: number;
+  /** Average days opportunities spent in the stage before moving on */
+  averageDaysInStage: number | null;
+  /** Opportunities that left the stage, for averageDaysInStage */
+  exits: number;
+}
+
+export interface PipelineTransition {
+  fromStage: string;
+  toStage: string;
+  count: number;
+  averageDays: number;
+}
+
+export interface PipelineServiceLineRow extends PipelineCoverage {
+  code: string;
+  name: string;
+  openCount: number;
+  totalValue: number;
+  weightedValue: number;
+}
+
+export interface PipelineAgeingBucket {
+  label: string;
+  count: number;
+  value: number;
+  weightedValue: number;
+}
+
+export interface PipelineAgedOpportunity {
+  opportunityId: number;
+  title: string;
+  clientName: string | null;
+  serviceLine: string;
+  stageName: string;
+  value: number;
+  daysOpen: number;
+  daysInStage: number;
+  expectedCloseDate: string | null;
+  overdue: boolean;
+}
+
+export interface PipelineReport {
+  period: ExcoReportPeriod;
+  /** GL budget version the targets come from, null when the year has none */
+  budgetCode: string | null;
+  summary: PipelineSummary;
+  stages: PipelineStageRow[];
+  transitions: PipelineTransition[];
+  serviceLines: PipelineServiceLineRow[];
+  ageing: PipelineAgeingBucket[];
+  /** Overdue or stalled open opportunities, largest first */
+  attention: PipelineAgedOpportunity[];
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+// Service line performance
+
+export type LeagueLevel = 'serviceLine' | 'subServiceLineGroup';
+
+export type LeagueMetric = 'revenue' | 'margin' | 'recoverability' | 'utilization' | 'lockup' | 'reviewTurnaround';
+
+export interface LeagueMetricDefinition {
+  label: string;
+  unit: 'currency' | 'percent' | 'days';
+  higherIsBetter: boolean;
+}
+
+export const LEAGUE_METRICS: Record<LeagueMetric, LeagueMetricDefinition> = {
+  revenue: { label: 'Net Revenue', unit: 'currency', higherIsBetter: true },
+  margin: { label: 'Margin', unit: 'percent', higherIsBetter: true },
+  recoverability: { label: 'Recoverability', unit: 'percent', higherIsBetter: true },
+  utilization: { label: 'Utilization', unit: 'percent', higherIsBetter: true },
+  lockup: { label: 'Lock-up Days', unit: 'days', higherIsBetter: false },
+  reviewTurnaround: { label: 'Review Note Turnaround', unit: 'days', higherIsBetter: false },
+};
+
+export interface LeagueMetricValue {
+  /** Null when there is nothing to measure (e.g. no review notes cleared) */
+  value: number | null;
+  prior: number | null;
+  /** Growth percent for revenue, otherwise the change in points or days */
+  delta: number | null;
+  /** 1 is best; null when the value is */
+  rank: number | null;
+}
+
+export interface LeagueTrendPoint {
+  month: string;
+  label: string;
+  revenue: number;
+  margin: number | null;
+  lockup: number | null;
+}
+
+export interface LeagueTableRow {
+  key: string;
+  name: string;
+  /** Master service line name for sub-service-line groups */
+  parentName: string | null;
+  /** Position on the average of the metric ranks */
+  rank: number;
+  averageRank: number | null;
+  metrics: Record<LeagueMetric, LeagueMetricValue>;
+  /** Trailing 12 months to the end of the period */
+  trend: LeagueTrendPoint[];
+}
+
+export interface ServiceLineLeagueReport {
+  period: ExcoReportPeriod;
+  comparisonPeriod: ExcoReportPeriod;
+  level: LeagueLevel;
+  rows: LeagueTableRow[];
+  /** Firm totals - ranks are null */
+  totals: Record<LeagueMetric, LeagueMetricValue>;
+  fiscalYears: ExcoFiscalYearOption[];
+}
+
+// Staff performance
+
+export interface StaffPerformanceMetrics {
+  chargeableHours: number;
+  availableHours: number;
+  /** Chargeable hours as a percentage of available hours */
+  utilization: number;
+  /** TaskTeam allocatedHours on assignments overlapping the period */
+  allocatedHours: number;
+  /** TaskTeam actualHours on the same assignments */
+  actualHours: number;
+  /** Actual over allocated hours less 100 - null without allocations */
+  planVariance: number | null;
+  /** Review notes assigned to the employee and raised in the period */
+  reviewNotesRaised: number;
+  /** Review notes per 100 chargeable hours */
+  reviewNoteRate: number | null;
+  /** Average days from raising to ADDRESSED for notes addressed in the period */
+  addressTurnaroundDays: number | null;
+}
+
+export type StaffPeerMetric = 'utilization' | 'planVariance' | 'reviewNoteRate' | 'addressTurnaroundDays';
+
+export interface StaffPerformanceRow extends StaffPerformanceMetrics {
+  empCode: string;
+  empName: string;
+  officeCode: string;
+  gradeCode: string;
+  gradeDesc: string;
+  serviceLineCode: string;
+  serviceLineName: string;
+  chargeableValue: number;
+  /** Tasks the employee is on in the period, by TaskTeam role */
+  taskRoles: Record<string, number>;
+  reviewNotesAddressed: number;
+  /** Difference from the grade average - null when either side is */
+  peerDelta: Record<StaffPeerMetric, number | null>;
+  /** Share of grade peers with lower utilization, 0-100 */
+  utilizationPercentile: number | null;
+}
+
+export interface StaffGradeBenchmark extends StaffPerformanceMetrics {
+  gradeCode: string;
+  gradeDesc: string;
+  employeeCount: number;
+}
+
+export interface StaffPerformanceReport {
+  period: ExcoReportPeriod;
+  /** Service lines the viewer leads - all when allServiceLines */
+  scope: { allServiceLines: boolean; serviceLines: Array<{ code: string; name: string }> };
+  employees: StaffPerformanceRow[];
+  /** Firm-wide grade averages the employees are compared with */
+  grades: StaffGradeBenchmark[];
+  fiscalYears: ExcoFiscalYearOption[];
+}
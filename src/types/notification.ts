@@ -14,12 +14,16 @@ export enum NotificationType {
   OPINION_DRAFT_READY = 'OPINION_DRAFT_READY',
   TAX_CALCULATION_COMPLETE = 'TAX_CALCULATION_COMPLETE',
   FILING_STATUS_UPDATED = 'FILING_STATUS_UPDATED',
+  FILING_DEADLINE_REMINDER = 'FILING_DEADLINE_REMINDER',
   COMMENT_MENTION = 'COMMENT_MENTION',
   SERVICE_LINE_ADDED = 'SERVICE_LINE_ADDED',
   SERVICE_LINE_REMOVED = 'SERVICE_LINE_REMOVED',
   SERVICE_LINE_ROLE_CHANGED = 'SERVICE_LINE_ROLE_CHANGED',
   SYSTEM_ROLE_CHANGED = 'SYSTEM_ROLE_CHANGED',
   INDEPENDENCE_REQUIRED = 'INDEPENDENCE_REQUIRED',
+  APPROVAL_REMINDER = 'APPROVAL_REMINDER',
+  APPROVAL_ESCALATED = 'APPROVAL_ESCALATED',
+  CONTINUANCE_DUE = 'CONTINUANCE_DUE',
 }
 
 /**
@@ -0,0 +1,143 @@
+/**
+ * Risk Scoring Model Types
+ * Configurable scoring of acceptance and continuance questionnaires
+ */
+
+export type RiskRating = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export type RiskScoringModelStatus = 'DRAFT' | 'ACTIVE' | 'RETIRED';
+
+/**
+ * Scores up to lowMax are LOW, up to mediumMax MEDIUM, anything above HIGH
+ */
+export interface RiskThresholds {
+  lowMax: number;
+  mediumMax: number;
+}
+
+/**
+ * Answer that rates the whole assessment HIGH whatever the score
+ */
+export interface RiskKnockout {
+  questionKey: string;
+  answers: string[];
+}
+
+/**
+ * Scoring model configuration (stored as JSON in RiskScoringModel.config)
+ * Section and question keys apply to every questionnaire that uses them.
+ */
+export interface RiskScoringConfig {
+  thresholds: RiskThresholds;
+  /** Overrides by master service line code */
+  serviceLineThresholds: Record<string, RiskThresholds>;
+  /** Multiplier on the risk weights of a section's questions - 1 when not set, 0 excludes the section */
+  sectionWeights: Record<string, number>;
+  /**
+   * Share (0-1) of a question's weight each answer contributes, by question key
+   * then answer. Questions without scores fall back to their high-risk answers
+   * scoring 1 and everything else 0.
+   */
+  answerScores: Record<string, Record<string, number>>;
+  knockouts: RiskKnockout[];
+}
+
+/**
+ * Model used when none has been activated - reproduces the original fixed scoring
+ */
+export const DEFAULT_RISK_SCORING_CONFIG: RiskScoringConfig = {
+  thresholds: { lowMax: 30, mediumMax: 60 },
+  serviceLineThresholds: {},
+  sectionWeights: {},
+  answerScores: {},
+  knockouts: [],
+};
+
+/**
+ * Model and the service line being scored
+ */
+export interface RiskScoringContext {
+  config: RiskScoringConfig;
+  serviceLine: string | null;
+}
+
+export interface RiskScoringModelSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  status: RiskScoringModelStatus;
+  createdAt: string;
+  updatedAt: string;
+  activatedAt: string | null;
+  simulatedAt: string | null;
+  createdBy: { id: string; name: string | null } | null;
+}
+
+export interface RiskScoringModelDetail extends RiskScoringModelSummary {
+  config: RiskScoringConfig;
+  simulation: RiskSimulationResult | null;
+}
+
+/**
+ * Question as shown in the model editor
+ */
+export interface RiskScoringQuestion {
+  questionKey: string;
+  questionText: string;
+  options: string[];
+  riskWeight: number;
+  highRiskAnswers: string[];
+}
+
+export interface RiskScoringQuestionnaire {
+  questionnaireType: string;
+  label: string;
+  sections: Array<{ key: string; title: string; questions: RiskScoringQuestion[] }>;
+}
+
+export interface RiskScoringOptions {
+  questionnaires: RiskScoringQuestionnaire[];
+  serviceLines: Array<{ code: string; name: string }>;
+}
+
+/**
+ * Client whose rating would change under the simulated model
+ */
+export interface RiskSimulationChange {
+  clientAcceptanceId: number;
+  clientCode: string;
+  clientName: string | null;
+  serviceLine: string | null;
+  currentScore: number;
+  currentRating: RiskRating;
+  proposedScore: number;
+  proposedRating: RiskRating;
+  knockouts: string[];
+}
+
+export interface RiskSimulationServiceLine {
+  serviceLine: string;
+  serviceLineName: string;
+  total: number;
+  changed: number;
+  increased: number;
+  decreased: number;
+}
+
+/**
+ * Historical client acceptances re-scored under a proposed model, compared
+ * with the same records scored under the active model
+ */
+export interface RiskSimulationResult {
+  simulatedAt: string;
+  activeModelName: string | null;
+  total: number;
+  changed: number;
+  increased: number;
+  decreased: number;
+  knockoutCount: number;
+  /** Record counts by current rating then proposed rating */
+  matrix: Record<RiskRating, Record<RiskRating, number>>;
+  byServiceLine: RiskSimulationServiceLine[];
+  changes: RiskSimulationChange[];
+}
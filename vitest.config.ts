@@ -0,0 +1,25 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // src/lib/config/env.ts validates these on import - unit tests never connect to them
+    env: {
+      NODE_ENV: 'test',
+      DATABASE_URL: 'sqlserver://localhost:1433;database=test',
+      AZURE_OPENAI_API_KEY: 'test',
+      NEXTAUTH_SECRET: 'test',
+      NEXTAUTH_URL: 'http://localhost:3000',
+      AZURE_AD_CLIENT_ID: 'test',
+      AZURE_AD_CLIENT_SECRET: 'test',
+      AZURE_AD_TENANT_ID: 'test',
+    },
+  },
+});